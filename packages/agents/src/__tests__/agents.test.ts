@@ -112,6 +112,64 @@ describe('Research Sources', () => {
   });
 });
 
+describe('Competitor Monitor', () => {
+  it('should read sitemap indexes and url sets', async () => {
+    const { parseSitemapXml } = await import('../research/competitor-monitor');
+
+    const index = parseSitemapXml(`<?xml version="1.0"?><sitemapindex>
+      <sitemap><loc>https://example.com/post-sitemap.xml</loc></sitemap>
+      <sitemap><loc>https://example.com/page-sitemap.xml</loc></sitemap>
+    </sitemapindex>`);
+    expect(index.sitemaps).toEqual(['https://example.com/post-sitemap.xml', 'https://example.com/page-sitemap.xml']);
+
+    const set = parseSitemapXml(`<urlset>
+      <url><loc>https://example.com/blog/roth-conversions?a=1&amp;b=2</loc><lastmod>2026-01-05</lastmod></url>
+      <url><loc>https://example.com/about</loc></url>
+    </urlset>`);
+    expect(set.urls).toEqual([
+      { loc: 'https://example.com/blog/roth-conversions?a=1&b=2', lastmod: '2026-01-05' },
+      { loc: 'https://example.com/about', lastmod: null },
+    ]);
+  });
+
+  it('should keep post URLs on the competitor domain', async () => {
+    const { isLikelyPostUrl } = await import('../research/competitor-monitor');
+    const competitor = { domain: 'example.com' };
+
+    expect(isLikelyPostUrl('https://www.example.com/blog/roth-conversions/', competitor)).toBe(true);
+    expect(isLikelyPostUrl('https://example.com/2026/01/tax-planning', competitor)).toBe(true);
+    expect(isLikelyPostUrl('https://example.com/blog/category/taxes', competitor)).toBe(false);
+    expect(isLikelyPostUrl('https://example.com/pricing', competitor)).toBe(false);
+    expect(isLikelyPostUrl('https://other.com/blog/roth-conversions', competitor)).toBe(false);
+    expect(isLikelyPostUrl('https://example.com/learn/rmds', { ...competitor, blogPath: '/blog' })).toBe(false);
+  });
+
+  it('should diff discovered posts against recorded URLs', async () => {
+    const { diffDiscoveredPosts } = await import('../research/competitor-monitor');
+
+    const fresh = diffDiscoveredPosts([
+      { url: 'https://example.com/blog/old-post/', title: null, publishedAt: null, source: 'sitemap' },
+      { url: 'https://example.com/blog/new-post', title: null, publishedAt: '2026-01-05', source: 'sitemap' },
+      { url: 'https://www.example.com/blog/new-post?utm_source=rss', title: 'New Post', publishedAt: '2026-01-05', source: 'feed' },
+    ], ['https://example.com/blog/old-post']);
+
+    expect(fresh).toEqual([
+      { url: 'https://example.com/blog/new-post', title: 'New Post', publishedAt: '2026-01-05', source: 'feed' },
+    ]);
+  });
+
+  it('should match competitor topics to our content calendar', async () => {
+    const { findTopicOverlap } = await import('../research/competitor-monitor');
+    const calendar = [
+      { id: 'c1', title: 'Roth Conversions Before Retirement', topic: null, keywords: ['roth conversion'], target_keyword: null },
+      { id: 'c2', title: 'Choosing a Fee-Only Advisor', topic: 'fee-only advisor', keywords: [], target_keyword: null },
+    ];
+
+    const overlaps = findTopicOverlap({ title: 'When a Roth Conversion Makes Sense', topics: ['tax planning'] }, calendar);
+    expect(overlaps).toEqual([{ contentId: 'c1', contentTitle: 'Roth Conversions Before Retirement', matched: 'roth conversion' }]);
+  });
+});
+
 describe('Module Exports', () => {
   it('should export base classes', async () => {
     const { BaseAgent, JobRunner, jobRunner } = await import('../index');
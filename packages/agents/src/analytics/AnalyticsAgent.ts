@@ -9,6 +9,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from '../base/BaseAgent';
 import { GA4Client, WebsiteMetrics, TrafficSource, PagePerformance } from './ga4-client';
+import { NotificationService } from '@arcvest/services';
 import type { AgentTask } from '@arcvest/shared';
 
 export interface DailyMetricsRollup {
@@ -48,6 +49,7 @@ export interface WeeklyReportData {
 
 export class AnalyticsAgent extends BaseAgent {
   private ga4: GA4Client;
+  private notifications: NotificationService;
 
   // KPI targets for alerting
   private kpiTargets = {
@@ -66,6 +68,7 @@ export class AnalyticsAgent extends BaseAgent {
     });
 
     this.ga4 = new GA4Client();
+    this.notifications = new NotificationService(this.supabase);
   }
 
   /**
@@ -447,6 +450,18 @@ Generated by ArcVest Analytics Agent
       this.logger.warn(`Found ${alerts.length} KPI alerts`);
     }
 
+    for (const alert of alerts) {
+      await this.notifications.notify({
+        source: 'kpi',
+        severity: alert.severity,
+        title: `${alert.metric} ${alert.type === 'above_target' ? 'above' : 'below'} target`,
+        message: alert.message,
+        dedupKey: `kpi:${alert.metric}`,
+        link: '/dashboard/analytics',
+        details: { ...alert, date: yesterdayStr },
+      });
+    }
+
     return { alerts };
   }
 
@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { getSupabase, EventBus } from '@arcvest/services';
+import { getSupabase, WorkflowEngine, EventBus } from '@arcvest/services';
 import { createLogger, type Logger } from '@arcvest/shared';
 import type { AgentTask, AgentStatus } from '@arcvest/shared';
 
@@ -17,6 +17,8 @@ export abstract class BaseAgent {
   protected supabase: SupabaseClient;
   protected logger: Logger;
   protected isRunning: boolean = false;
+  // Task being executed; approvals raised during it are linked back to it
+  protected currentTaskId: string | null = null;
 
   constructor(config: AgentConfig) {
     this.name = config.name;
@@ -85,6 +87,7 @@ export abstract class BaseAgent {
       await this.updateTaskStatus(task.id, 'in_progress');
 
       // Execute the task
+      this.currentTaskId = task.id;
       const result = await this.executeTask(task);
 
       // Mark task as complete
@@ -99,6 +102,25 @@ export abstract class BaseAgent {
       // Increment attempts and potentially mark as failed
       await this.handleTaskError(task, message);
       throw error;
+    } finally {
+      this.currentTaskId = null;
+      await this.notifyWorkflow(task);
+    }
+  }
+
+  /**
+   * Let the workflow a task belongs to move on as soon as the task finishes.
+   */
+  private async notifyWorkflow(task: AgentTask): Promise<void> {
+    const workflowId = task.payload?.['workflow_id'] as string | undefined;
+    if (!workflowId) {
+      return;
+    }
+
+    try {
+      await new WorkflowEngine(this.supabase).advance(workflowId);
+    } catch (error) {
+      this.logger.error(`Failed to advance workflow ${workflowId}`, error);
     }
   }
 
@@ -236,7 +258,7 @@ export abstract class BaseAgent {
         content: params.content,
         priority: params.priority || 'medium',
         created_by: this.name,
-        related_task_id: params.relatedTaskId,
+        related_task_id: params.relatedTaskId ?? this.currentTaskId,
         content_id: params.contentId,
       })
       .select('id')
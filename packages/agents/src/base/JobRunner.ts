@@ -1,10 +1,9 @@
-import cron, { type ScheduledTask } from 'node-cron';
+import { getJobQueueService, getSchedulerService, type Job as QueueJob } from '@arcvest/services';
 import { createLogger, type Logger } from '@arcvest/shared';
 import type { BaseAgent } from './BaseAgent';
 
 export interface Job {
   name: string;
-  schedule: string; // Cron expression
   agent: BaseAgent;
   handler: () => Promise<unknown>;
   enabled: boolean;
@@ -12,18 +11,37 @@ export interface Job {
 
 export interface JobConfig {
   name: string;
-  schedule: string;
   handler: () => Promise<unknown>;
   enabled?: boolean;
 }
 
+export interface JobRunnerOptions {
+  workerId?: string;
+  pollIntervalMs?: number;   // How often to look for queued agent_task jobs
+  tickIntervalMs?: number;   // How often to tick the schedule registry (0 = never)
+}
+
+/**
+ * Runs agent jobs. When they run is decided by the schedule registry: the
+ * scheduler enqueues agent_task jobs ({ task: <job name> }) and this runner
+ * claims and executes them.
+ */
 export class JobRunner {
-  private jobs: Map<string, { job: Job; task: ScheduledTask | null }> = new Map();
+  private jobs: Map<string, Job> = new Map();
   private logger: Logger;
   private isRunning: boolean = false;
+  private isPolling: boolean = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private options: Required<JobRunnerOptions>;
 
-  constructor() {
+  constructor(options: JobRunnerOptions = {}) {
     this.logger = createLogger('job-runner');
+    this.options = {
+      workerId: options.workerId || `agent-runner-${process.pid}`,
+      pollIntervalMs: options.pollIntervalMs ?? 30 * 1000,
+      tickIntervalMs: options.tickIntervalMs ?? 60 * 1000,
+    };
   }
 
   /**
@@ -32,18 +50,17 @@ export class JobRunner {
   registerJob(agent: BaseAgent, config: JobConfig): void {
     const job: Job = {
       name: config.name,
-      schedule: config.schedule,
       agent,
       handler: config.handler,
       enabled: config.enabled ?? true,
     };
 
-    this.jobs.set(config.name, { job, task: null });
-    this.logger.info(`Registered job: ${config.name} (${config.schedule})`);
+    this.jobs.set(config.name, job);
+    this.logger.info(`Registered job: ${config.name}`);
   }
 
   /**
-   * Start all registered jobs.
+   * Start ticking the scheduler and consuming queued agent tasks.
    */
   start(): void {
     if (this.isRunning) {
@@ -52,28 +69,19 @@ export class JobRunner {
     }
 
     this.isRunning = true;
-    this.logger.info('Starting JobRunner');
-
-    for (const [name, { job }] of this.jobs) {
-      if (!job.enabled) {
-        this.logger.info(`Skipping disabled job: ${name}`);
-        continue;
-      }
-
-      // Validate cron expression
-      if (!cron.validate(job.schedule)) {
-        this.logger.error(`Invalid cron expression for job ${name}: ${job.schedule}`);
-        continue;
-      }
-
-      // Schedule the job
-      const task = cron.schedule(job.schedule, async () => {
-        await this.executeJob(job);
-      });
-
-      this.jobs.set(name, { job, task });
-      this.logger.info(`Started job: ${name}`);
+    this.logger.info('Starting JobRunner', {
+      jobs: this.jobs.size,
+      pollIntervalMs: this.options.pollIntervalMs,
+      tickIntervalMs: this.options.tickIntervalMs,
+    });
+
+    if (this.options.tickIntervalMs > 0) {
+      this.tickTimer = setInterval(() => this.tickScheduler(), this.options.tickIntervalMs);
+      void this.tickScheduler();
     }
+
+    this.pollTimer = setInterval(() => this.processQueue(), this.options.pollIntervalMs);
+    void this.processQueue();
   }
 
   /**
@@ -88,30 +96,90 @@ export class JobRunner {
     this.isRunning = false;
     this.logger.info('Stopping JobRunner');
 
-    for (const [name, { task }] of this.jobs) {
-      if (task) {
-        task.stop();
-        this.logger.info(`Stopped job: ${name}`);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.pollTimer = null;
+    this.tickTimer = null;
+  }
+
+  /**
+   * Claim and run queued agent tasks until the queue is empty.
+   */
+  async processQueue(): Promise<number> {
+    if (this.isPolling) return 0;
+    this.isPolling = true;
+
+    const queue = getJobQueueService();
+    let processed = 0;
+
+    try {
+      while (this.isRunning) {
+        const queued = await queue.claimNextJob(this.options.workerId, { jobTypes: ['agent_task'] });
+        if (!queued) break;
+
+        processed++;
+        await this.runQueuedJob(queued);
       }
+    } catch (error) {
+      this.logger.error('Failed to process job queue', error);
+    } finally {
+      this.isPolling = false;
     }
+
+    return processed;
   }
 
   /**
    * Execute a job immediately.
    */
   async executeJobNow(name: string): Promise<void> {
-    const entry = this.jobs.get(name);
-    if (!entry) {
+    const job = this.jobs.get(name);
+    if (!job) {
       throw new Error(`Job not found: ${name}`);
     }
 
-    await this.executeJob(entry.job);
+    await this.executeJob(job);
+  }
+
+  /**
+   * Run a claimed agent_task job and report the outcome to the queue.
+   */
+  private async runQueuedJob(queued: QueueJob): Promise<void> {
+    const queue = getJobQueueService();
+    const task = queued.payload['task'] as string | undefined;
+    const job = task ? this.jobs.get(task) : undefined;
+
+    if (!job) {
+      await queue.failJob(queued.id, `Unknown agent task: ${task}`);
+      return;
+    }
+
+    if (!job.enabled) {
+      await queue.completeJob(queued.id, { skipped: 'disabled' });
+      return;
+    }
+
+    const error = await this.executeJob(job);
+    if (error) {
+      await queue.failJob(queued.id, error);
+    } else {
+      await queue.completeJob(queued.id, { task });
+    }
+  }
+
+  private async tickScheduler(): Promise<void> {
+    try {
+      await getSchedulerService().tick();
+    } catch (error) {
+      this.logger.error('Scheduler tick failed', error);
+    }
   }
 
   /**
    * Execute a job with error handling and logging.
+   * Returns the error message if the job failed.
    */
-  private async executeJob(job: Job): Promise<void> {
+  private async executeJob(job: Job): Promise<string | null> {
     const startedAt = new Date();
     this.logger.info(`Executing job: ${job.name}`);
 
@@ -126,12 +194,14 @@ export class JobRunner {
       await this.logJobComplete(job, startedAt);
 
       this.logger.info(`Job completed: ${job.name}`);
+      return null;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Job failed: ${job.name} - ${message}`);
 
       // Log job failure
       await this.logJobFailed(job, startedAt, message);
+      return message;
     }
   }
 
@@ -162,12 +232,11 @@ export class JobRunner {
   /**
    * Get the status of all jobs.
    */
-  getStatus(): { name: string; schedule: string; enabled: boolean; running: boolean }[] {
-    return Array.from(this.jobs.values()).map(({ job, task }) => ({
+  getStatus(): { name: string; enabled: boolean; running: boolean }[] {
+    return Array.from(this.jobs.values()).map((job) => ({
       name: job.name,
-      schedule: job.schedule,
       enabled: job.enabled,
-      running: task !== null,
+      running: this.isRunning && job.enabled,
     }));
   }
 
@@ -175,39 +244,25 @@ export class JobRunner {
    * Enable a job.
    */
   enableJob(name: string): void {
-    const entry = this.jobs.get(name);
-    if (!entry) {
+    const job = this.jobs.get(name);
+    if (!job) {
       throw new Error(`Job not found: ${name}`);
     }
 
-    entry.job.enabled = true;
-
-    if (this.isRunning && !entry.task) {
-      const task = cron.schedule(entry.job.schedule, async () => {
-        await this.executeJob(entry.job);
-      });
-      this.jobs.set(name, { ...entry, task });
-    }
-
+    job.enabled = true;
     this.logger.info(`Enabled job: ${name}`);
   }
 
   /**
-   * Disable a job.
+   * Disable a job. Queued runs of a disabled job are completed without running.
    */
   disableJob(name: string): void {
-    const entry = this.jobs.get(name);
-    if (!entry) {
+    const job = this.jobs.get(name);
+    if (!job) {
       throw new Error(`Job not found: ${name}`);
     }
 
-    entry.job.enabled = false;
-
-    if (entry.task) {
-      entry.task.stop();
-      this.jobs.set(name, { ...entry, task: null });
-    }
-
+    job.enabled = false;
     this.logger.info(`Disabled job: ${name}`);
   }
 }
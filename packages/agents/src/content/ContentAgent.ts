@@ -9,11 +9,35 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from '../base/BaseAgent';
 import { ClaudeClient } from './claude-client';
 import { WordPressClient } from './wordpress-client';
-import type { AgentTask, ContentCalendarEntry } from '@arcvest/shared';
+import {
+  ComplianceService,
+  ComplianceArchiveService,
+  PublishSchedulerService,
+  ContentSyncService,
+} from '@arcvest/services';
+import { summarizeCompliance } from '@arcvest/shared';
+import type {
+  AgentTask,
+  ComplianceContentType,
+  ComplianceResult,
+  ContentCalendarEntry,
+} from '@arcvest/shared';
+
+interface ContentComplianceCheck {
+  passed: boolean;
+  issues: string[];
+  suggestions: string[];
+  rules: ComplianceResult; // Rules engine result (versioned, for audit)
+  review_passed: boolean; // Claude's qualitative review
+}
 
 export class ContentAgent extends BaseAgent {
   private claude: ClaudeClient;
   private wordpress: WordPressClient | null = null;
+  private compliance: ComplianceService;
+  private archive: ComplianceArchiveService;
+  private publishScheduler: PublishSchedulerService;
+  private contentSync: ContentSyncService;
 
   constructor(supabase?: SupabaseClient) {
     super({
@@ -23,7 +47,11 @@ export class ContentAgent extends BaseAgent {
       supabase,
     });
 
-    this.claude = new ClaudeClient();
+    this.claude = new ClaudeClient('content_agent');
+    this.compliance = new ComplianceService(this.supabase);
+    this.archive = new ComplianceArchiveService(this.supabase);
+    this.publishScheduler = new PublishSchedulerService(this.supabase);
+    this.contentSync = new ContentSyncService(this.supabase);
 
     // Initialize WordPress client if configured
     try {
@@ -88,6 +116,12 @@ export class ContentAgent extends BaseAgent {
       case 'repurpose_content':
         return this.repurposeContent(task.payload);
 
+      case 'sync_wordpress':
+        return this.syncWordPressEdits();
+
+      case 'sync_performance':
+        return this.syncContentPerformance();
+
       default:
         throw new Error(`Unknown task type: ${task.type}`);
     }
@@ -168,7 +202,8 @@ export class ContentAgent extends BaseAgent {
     );
 
     // Run compliance check
-    const compliance = await this.claude.checkCompliance(draft);
+    const compliance = await this.checkContentCompliance(draft, 'blog_post');
+    await this.compliance.record('content_calendar', contentId as string, compliance.rules);
 
     // Update content entry
     const { error: updateError } = await this.supabase
@@ -228,7 +263,7 @@ export class ContentAgent extends BaseAgent {
     );
 
     // Run compliance check
-    const compliance = await this.claude.checkCompliance(post);
+    const compliance = await this.checkContentCompliance(post, 'linkedin_post');
 
     // Create content calendar entry
     const { data, error } = await this.supabase
@@ -249,6 +284,8 @@ export class ContentAgent extends BaseAgent {
       throw new Error(`Failed to create content entry: ${error.message}`);
     }
 
+    await this.compliance.record('content_calendar', data.id, compliance.rules);
+
     // Submit for approval
     await this.submitForApproval({
       type: 'linkedin_post',
@@ -265,7 +302,10 @@ export class ContentAgent extends BaseAgent {
    * Create a newsletter.
    */
   async createNewsletter(payload: Record<string, unknown>): Promise<{ newsletterId: string }> {
-    const { month, theme, sections } = payload;
+    const { theme, sections } = payload;
+    const month =
+      (payload['month'] as string | undefined) ||
+      new Date().toLocaleString('en-US', { month: 'long', year: 'numeric' });
 
     this.logger.info('Creating newsletter', { month, theme });
 
@@ -292,7 +332,7 @@ export class ContentAgent extends BaseAgent {
       .join('\n\n---\n\n');
 
     // Run compliance check
-    const compliance = await this.claude.checkCompliance(fullNewsletter);
+    const compliance = await this.checkContentCompliance(fullNewsletter, 'newsletter');
 
     // Create content calendar entry
     const { data, error } = await this.supabase
@@ -317,6 +357,8 @@ export class ContentAgent extends BaseAgent {
       throw new Error(`Failed to create content entry: ${error.message}`);
     }
 
+    await this.compliance.record('content_calendar', data.id, compliance.rules);
+
     // Submit for approval
     await this.submitForApproval({
       type: 'newsletter',
@@ -332,25 +374,25 @@ export class ContentAgent extends BaseAgent {
   /**
    * Run compliance check on content.
    */
-  async runComplianceCheck(payload: Record<string, unknown>): Promise<{
-    passed: boolean;
-    issues: string[];
-    suggestions: string[];
-  }> {
+  async runComplianceCheck(payload: Record<string, unknown>): Promise<ContentComplianceCheck> {
     const { contentId, content } = payload;
 
     let textToCheck = content as string;
+    let contentType = (payload['contentType'] as ComplianceContentType | undefined) || 'blog_post';
+    let metadata: Record<string, unknown> = {};
 
     // If contentId provided, fetch content
     if (contentId) {
       const { data } = await this.supabase
         .from('content_calendar')
-        .select('draft, final_content')
+        .select('draft, final_content, content_type, metadata')
         .eq('id', contentId)
         .single();
 
       if (data) {
         textToCheck = data.final_content || data.draft;
+        contentType = (data.content_type as ComplianceContentType) || contentType;
+        metadata = data.metadata || {};
       }
     }
 
@@ -358,14 +400,15 @@ export class ContentAgent extends BaseAgent {
       throw new Error('No content to check');
     }
 
-    const result = await this.claude.checkCompliance(textToCheck);
+    const result = await this.checkContentCompliance(textToCheck, contentType);
 
     // Update content metadata if contentId provided
     if (contentId) {
+      await this.compliance.record('content_calendar', contentId as string, result.rules);
       await this.supabase
         .from('content_calendar')
         .update({
-          metadata: { compliance_check: result, checked_at: new Date().toISOString() },
+          metadata: { ...metadata, compliance_check: result, checked_at: new Date().toISOString() },
         })
         .eq('id', contentId);
     }
@@ -373,6 +416,27 @@ export class ContentAgent extends BaseAgent {
     return result;
   }
 
+  /**
+   * Combine the rules engine (deterministic, versioned) with Claude's review.
+   * Content passes only if both pass.
+   */
+  private async checkContentCompliance(
+    text: string,
+    contentType: ComplianceContentType
+  ): Promise<ContentComplianceCheck> {
+    const rules = await this.compliance.check(text, contentType);
+    const review = await this.claude.checkCompliance(text);
+    const summary = summarizeCompliance(rules);
+
+    return {
+      passed: rules.passed && review.passed,
+      issues: [...summary.issues, ...review.issues],
+      suggestions: [...summary.suggestions, ...review.suggestions],
+      rules,
+      review_passed: review.passed,
+    };
+  }
+
   /**
    * Publish approved content to WordPress.
    */
@@ -420,8 +484,9 @@ export class ContentAgent extends BaseAgent {
     }
 
     // Create WordPress post
+    const title = content.title.replace('Blog: ', '');
     const wpPost = await this.wordpress.createPost({
-      title: content.title.replace('Blog: ', ''),
+      title,
       content: publishContent,
       excerpt: content.meta_description || undefined,
       status: 'publish',
@@ -429,6 +494,7 @@ export class ContentAgent extends BaseAgent {
       categories: categoryIds,
       tags: tagIds,
     });
+    const publishedAt = new Date().toISOString();
 
     // Update content calendar entry
     await this.supabase
@@ -436,11 +502,25 @@ export class ContentAgent extends BaseAgent {
       .update({
         status: 'published',
         published_url: wpPost.link,
-        published_at: new Date().toISOString(),
+        published_at: publishedAt,
         wordpress_post_id: wpPost.id,
       })
       .eq('id', contentId);
 
+    await this.archive.archiveSafely({
+      channel: 'wordpress',
+      artifactType: 'content_calendar',
+      artifactId: contentId as string,
+      title,
+      content: { title, content: publishContent, excerpt: content.meta_description || null },
+      contentText: publishContent,
+      contentType: content.content_type,
+      publishedAt,
+      publishedBy: this.name,
+      externalId: String(wpPost.id),
+      externalUrl: wpPost.link,
+    });
+
     this.logger.info('Content published', { contentId, url: wpPost.link });
 
     await this.logActivity({
@@ -494,30 +574,47 @@ export class ContentAgent extends BaseAgent {
   }
 
   /**
-   * Check for content scheduled for publishing.
+   * Place approved content into open publishing slots and keep scheduled
+   * WordPress posts in sync with their calendar entries.
    */
   private async checkScheduledContent(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-
-    const { data: scheduledContent, error } = await this.supabase
-      .from('content_calendar')
-      .select('*')
-      .eq('status', 'scheduled')
-      .lte('scheduled_date', today);
+    try {
+      const allocation = await this.publishScheduler.allocate();
+      if (allocation.scheduled > 0) {
+        this.logger.info(`Scheduled ${allocation.scheduled} content items into publishing slots`);
+      }
+      for (const error of allocation.errors) {
+        this.logger.warn(`Failed to schedule content: ${error}`);
+      }
 
-    if (error || !scheduledContent || scheduledContent.length === 0) {
-      return;
+      const sync = await this.publishScheduler.syncScheduledPosts();
+      if (sync.synced > 0 || sync.published > 0) {
+        this.logger.info('Synced scheduled posts', { synced: sync.synced, published: sync.published });
+      }
+    } catch (error) {
+      this.logger.error('Failed to check scheduled content', error);
     }
+  }
 
-    for (const content of scheduledContent) {
-      this.logger.info('Publishing scheduled content', { contentId: content.id });
+  /**
+   * Pull edits made directly in WordPress back into the content calendar.
+   */
+  async syncWordPressEdits(): Promise<{ checked: number; pulled: number; conflicts: number }> {
+    const result = await this.contentSync.pullWordPressEdits();
 
-      try {
-        await this.publishContent({ contentId: content.id });
-      } catch (error) {
-        this.logger.error(`Failed to publish scheduled content: ${content.id}`, error);
-      }
+    if (result.conflicts > 0) {
+      this.logger.warn(`${result.conflicts} posts were edited in WordPress and here; review the conflicts`);
     }
+
+    return { checked: result.checked, pulled: result.pulled, conflicts: result.conflicts };
+  }
+
+  /**
+   * Fill views, engagements and leads for published content.
+   */
+  async syncContentPerformance(): Promise<{ entries: number; updated: number }> {
+    const result = await this.contentSync.syncPerformance();
+    return { entries: result.entries, updated: result.updated };
   }
 
   /**
@@ -2,11 +2,13 @@
 /**
  * Claude AI Client for Content Generation
  *
- * Uses Anthropic's Claude API for generating marketing content.
+ * Generates marketing content through the LLM gateway (task
+ * 'agents.generate'), so the model, fallbacks and spend tracking come from
+ * llmConfig rather than this client.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { createLogger } from '@arcvest/shared';
+import { getLlmGateway, type LlmCallContext } from '@arcvest/services';
 
 const logger = createLogger('claude-client');
 
@@ -14,6 +16,7 @@ export interface ContentGenerationOptions {
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  context?: LlmCallContext;
 }
 
 export interface GeneratedContent {
@@ -26,17 +29,10 @@ export interface GeneratedContent {
 }
 
 export class ClaudeClient {
-  private client: Anthropic;
-  private defaultModel = 'claude-sonnet-4-20250514';
-
-  constructor(apiKey?: string) {
-    const key = apiKey || process.env.ANTHROPIC_API_KEY;
-    if (!key) {
-      throw new Error('ANTHROPIC_API_KEY is required');
-    }
-
-    this.client = new Anthropic({ apiKey: key });
-  }
+  /**
+   * @param feature - Recorded with each call's usage, e.g. 'content_agent'
+   */
+  constructor(private feature: string = 'agents') {}
 
   /**
    * Generate content using Claude.
@@ -49,40 +45,34 @@ export class ClaudeClient {
       maxTokens = 4096,
       temperature = 0.7,
       systemPrompt,
+      context,
     } = options;
 
     logger.debug('Generating content', { promptLength: prompt.length });
 
     try {
-      const response = await this.client.messages.create({
-        model: this.defaultModel,
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
+      const response = await getLlmGateway().complete(
+        'agents.generate',
+        { prompt, system: systemPrompt, maxTokens, temperature },
+        { feature: this.feature, ...context }
+      );
 
-      const textContent = response.content.find((c) => c.type === 'text');
-      if (!textContent || textContent.type !== 'text') {
+      if (!response.text) {
         throw new Error('No text content in response');
       }
 
       logger.debug('Content generated', {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
+        provider: response.provider,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
       });
 
       return {
-        content: textContent.text,
+        content: response.text,
         model: response.model,
         usage: {
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
+          inputTokens: response.inputTokens,
+          outputTokens: response.outputTokens,
         },
       };
     } catch (error) {
@@ -8,7 +8,9 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from '../base/BaseAgent';
 import { ClaudeClient } from '../content/claude-client';
-import type { AgentTask } from '@arcvest/shared';
+import { ComplianceService } from '@arcvest/services';
+import { summarizeCompliance } from '@arcvest/shared';
+import type { AgentTask, ComplianceContentType } from '@arcvest/shared';
 
 export interface GoogleRSAAsset {
   headlines: string[]; // 15 headlines, max 30 chars each
@@ -28,6 +30,7 @@ export interface VideoScript {
 
 export class CreativeAgent extends BaseAgent {
   private claude: ClaudeClient;
+  private compliance: ComplianceService;
 
   constructor(supabase?: SupabaseClient) {
     super({
@@ -37,7 +40,8 @@ export class CreativeAgent extends BaseAgent {
       supabase,
     });
 
-    this.claude = new ClaudeClient();
+    this.claude = new ClaudeClient('creative_agent');
+    this.compliance = new ComplianceService(this.supabase);
   }
 
   /**
@@ -406,7 +410,12 @@ Format as JSON with size as key.`;
       }
     }
 
-    return this.claude.checkCompliance(textToCheck);
+    const result = await this.compliance.check(textToCheck, (payload['contentType'] as ComplianceContentType) || 'rsa');
+    if (assetId) {
+      await this.compliance.record('creative_assets', assetId as string, result);
+    }
+
+    return summarizeCompliance(result);
   }
 
   /**
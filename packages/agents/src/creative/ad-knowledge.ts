@@ -5,6 +5,9 @@
  * validation utilities for Google Ads RSA generation.
  */
 
+import { getComplianceService } from '@arcvest/services';
+import type { ComplianceResult } from '@arcvest/shared';
+
 // Condensed brand knowledge for ad copy generation
 export const ARCVEST_AD_KNOWLEDGE = `
 ## ArcVest Brand Overview
@@ -69,23 +72,8 @@ export const REQUIRED_HEADLINE_TYPES = [
 ];
 
 // Compliance rules for SEC Marketing Rule
+// Prohibited phrasing lives in the shared compliance engine (complianceRulesConfig)
 export const COMPLIANCE_RULES = {
-  // Prohibited phrases (regex patterns)
-  prohibitedPatterns: [
-    { pattern: /guarantee[ds]?\s+(return|performance|result)/i, reason: 'No guaranteed returns' },
-    { pattern: /best\s+(advisor|firm|planner|financial)/i, reason: 'No superlatives without proof' },
-    { pattern: /top[\s-]?(rated|performing|ranked)/i, reason: 'No ranking claims' },
-    { pattern: /#1|number\s*one|number\s*1/i, reason: 'No #1 claims' },
-    { pattern: /beat\s+(the\s+)?market/i, reason: 'No market-beating promises' },
-    { pattern: /risk[\s-]?free/i, reason: 'No risk-free claims' },
-    { pattern: /double\s+your/i, reason: 'No doubling promises' },
-    { pattern: /get\s+rich/i, reason: 'No get-rich claims' },
-    { pattern: /highest\s+(rated|returns|performing)/i, reason: 'No superlative claims' },
-    { pattern: /outperform/i, reason: 'No outperformance promises' },
-    { pattern: /never\s+lose/i, reason: 'No loss prevention claims' },
-    { pattern: /100%\s+(safe|secure|guaranteed)/i, reason: 'No absolute safety claims' },
-  ],
-
   // Required elements
   requirements: {
     brandMentionInHeadlines: true,
@@ -142,29 +130,34 @@ export interface ComplianceCheckResult {
     severity: 'error' | 'warning';
   }>;
   suggestions: string[];
+  audit: ComplianceResult; // Full engine result, stored with the artifact
 }
 
 /**
- * Check text for compliance violations
+ * Check text for compliance violations against the active rule set's RSA rules
  */
-export function checkCompliance(text: string): ComplianceCheckResult {
-  const issues: ComplianceCheckResult['issues'] = [];
+export async function checkCompliance(text: string): Promise<ComplianceCheckResult> {
+  const result: ComplianceResult = await getComplianceService().check(text, 'rsa');
 
-  for (const rule of COMPLIANCE_RULES.prohibitedPatterns) {
-    if (rule.pattern.test(text)) {
-      const match = text.match(rule.pattern);
-      issues.push({
-        text: match?.[0] || text,
-        reason: rule.reason,
-        severity: 'error',
-      });
-    }
-  }
+  const issues: ComplianceCheckResult['issues'] = [
+    ...result.findings.map((finding) => ({
+      text: finding.match,
+      reason: finding.message,
+      severity: finding.severity === 'block' ? ('error' as const) : ('warning' as const),
+    })),
+    // RSAs have no room for disclosures, so a claim that needs one must be removed
+    ...result.missingDisclosures.map((disclosure) => ({
+      text: disclosure.disclosureId,
+      reason: `Missing disclosure: ${disclosure.reason}`,
+      severity: disclosure.severity === 'block' ? ('error' as const) : ('warning' as const),
+    })),
+  ];
 
   return {
-    passed: issues.filter((i) => i.severity === 'error').length === 0,
+    passed: result.passed,
     issues,
     suggestions: issues.map((i) => `Remove or rephrase: "${i.text}" - ${i.reason}`),
+    audit: result,
   };
 }
 
@@ -225,37 +218,37 @@ export function checkDescriptionLength(description: string): {
 /**
  * Validate a complete RSA asset
  */
-export function validateRSA(headlines: string[], descriptions: string[]): {
+export async function validateRSA(headlines: string[], descriptions: string[]): Promise<{
   valid: boolean;
   headlineIssues: Array<{ index: number; issue: string }>;
   descriptionIssues: Array<{ index: number; issue: string }>;
   complianceIssues: ComplianceCheckResult['issues'];
   missingElements: string[];
-} {
+}> {
   const headlineIssues: Array<{ index: number; issue: string }> = [];
   const descriptionIssues: Array<{ index: number; issue: string }> = [];
   const allComplianceIssues: ComplianceCheckResult['issues'] = [];
   const missingElements: string[] = [];
 
   // Check headlines
-  headlines.forEach((h, i) => {
+  for (const [i, h] of headlines.entries()) {
     const lengthCheck = checkHeadlineLength(h);
     if (!lengthCheck.valid) {
       headlineIssues.push({ index: i, issue: `Exceeds 30 chars (${lengthCheck.length})` });
     }
-    const compliance = checkCompliance(h);
+    const compliance = await checkCompliance(h);
     allComplianceIssues.push(...compliance.issues);
-  });
+  }
 
   // Check descriptions
-  descriptions.forEach((d, i) => {
+  for (const [i, d] of descriptions.entries()) {
     const lengthCheck = checkDescriptionLength(d);
     if (!lengthCheck.valid) {
       descriptionIssues.push({ index: i, issue: `Exceeds 90 chars (${lengthCheck.length})` });
     }
-    const compliance = checkCompliance(d);
+    const compliance = await checkCompliance(d);
     allComplianceIssues.push(...compliance.issues);
-  });
+  }
 
   // Check required elements
   const allText = [...headlines, ...descriptions].join(' ').toLowerCase();
@@ -3,10 +3,10 @@
  *
  * 4-AI pipeline for master RSA ads: Claude → ChatGPT → Gemini → Claude
  * Single Claude call for generating variations from masters.
+ * Models for each step come from the LLM gateway's creative.rsa_* routes.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
+import { getLlmGateway, type LlmCallContext } from '@arcvest/services';
 
 import {
   type AudiencePersona,
@@ -84,23 +84,7 @@ interface PipelineStep4Result {
 // ============================================
 
 export class RSAPipeline {
-  private anthropic: Anthropic;
-  private openai: OpenAI;
-  private geminiApiKey: string;
-
-  constructor() {
-    const anthropicKey = process.env['ANTHROPIC_API_KEY'];
-    const openaiKey = process.env['OPENAI_API_KEY'];
-    const geminiKey = process.env['GOOGLE_GEMINI_API_KEY'];
-
-    if (!anthropicKey) throw new Error('ANTHROPIC_API_KEY not configured');
-    if (!openaiKey) throw new Error('OPENAI_API_KEY not configured');
-    if (!geminiKey) throw new Error('GOOGLE_GEMINI_API_KEY not configured');
-
-    this.anthropic = new Anthropic({ apiKey: anthropicKey });
-    this.openai = new OpenAI({ apiKey: openaiKey });
-    this.geminiApiKey = geminiKey;
-  }
+  private llm = getLlmGateway();
 
   /**
    * Generate a complete RSA set: master + variations
@@ -108,7 +92,8 @@ export class RSAPipeline {
   async generate(
     personaId: string,
     voiceId: string,
-    variationCount: number = 10
+    variationCount: number = 10,
+    context: LlmCallContext = {}
   ): Promise<RSAGenerationResult> {
     const startTime = Date.now();
     let totalTokens = 0;
@@ -123,27 +108,28 @@ export class RSAPipeline {
 
     // Step 1: Claude - Initial RSA draft + compliance
     console.log('[RSA Pipeline] Step 1: Claude initial draft...');
-    const step1 = await this.step1Claude(persona, voice);
+    const llmContext = { feature: 'rsa_generation', ...context };
+    const step1 = await this.step1Claude(persona, voice, llmContext);
     totalTokens += step1.tokens;
 
     // Step 2: ChatGPT - Improve and tighten
     console.log('[RSA Pipeline] Step 2: ChatGPT improvements...');
-    const step2 = await this.step2ChatGPT(step1.draft, step1.compliance, persona, voice);
+    const step2 = await this.step2ChatGPT(step1.draft, step1.compliance, persona, voice, llmContext);
     totalTokens += step2.tokens;
 
     // Step 3: Gemini - Polish and diversify
     console.log('[RSA Pipeline] Step 3: Gemini polish...');
-    const step3 = await this.step3Gemini(step2.draft, persona, voice);
+    const step3 = await this.step3Gemini(step2.draft, persona, voice, llmContext);
     totalTokens += step3.tokens;
 
     // Step 4: Claude - Final validation and package
     console.log('[RSA Pipeline] Step 4: Claude final package...');
-    const step4 = await this.step4ClaudeFinal(step3.draft, persona, voice);
+    const step4 = await this.step4ClaudeFinal(step3.draft, persona, voice, llmContext);
     totalTokens += step4.tokens;
 
     // Generate variations from master
     console.log(`[RSA Pipeline] Generating ${variationCount} variations...`);
-    const variations = await this.generateVariations(step4.master, persona, voice, variationCount);
+    const variations = await this.generateVariations(step4.master, persona, voice, variationCount, llmContext);
     totalTokens += variations.tokens;
 
     const processingTime = Date.now() - startTime;
@@ -168,7 +154,8 @@ export class RSAPipeline {
    */
   private async step1Claude(
     persona: AudiencePersona,
-    voice: VoiceProfile
+    voice: VoiceProfile,
+    context: LlmCallContext
   ): Promise<PipelineStep1Result> {
     const prompt = `You are creating Google Responsive Search Ads (RSAs) for ArcVest.
 
@@ -231,15 +218,7 @@ OUTPUT FORMAT (JSON only):
 
 Generate the RSA now:`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      temperature: 0.8,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const text = response.content.find(c => c.type === 'text')?.text || '';
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const { text, totalTokens: tokens } = await this.llm.complete('creative.rsa_draft', { prompt }, context);
 
     // Parse JSON response
     let draft: RSAAsset = { headlines: [], descriptions: [] };
@@ -257,11 +236,7 @@ Generate the RSA now:`;
     }
 
     // Run compliance check on all content
-    const allText = [
-      ...draft.headlines.map(h => h.text),
-      ...draft.descriptions.map(d => d.text),
-    ].join(' ');
-    const compliance = checkCompliance(allText);
+    const compliance = await checkCompliance(this.joinAssetText(draft));
 
     return { draft, compliance, tokens };
   }
@@ -273,7 +248,8 @@ Generate the RSA now:`;
     draft: RSAAsset,
     compliance: ComplianceCheckResult,
     persona: AudiencePersona,
-    voice: VoiceProfile
+    voice: VoiceProfile,
+    context: LlmCallContext
   ): Promise<PipelineStep2Result> {
     const headlinesJson = JSON.stringify(draft.headlines, null, 2);
     const descriptionsJson = JSON.stringify(draft.descriptions, null, 2);
@@ -313,16 +289,7 @@ Output the improved version in this JSON format ONLY:
 }`;
 
     try {
-      // Using GPT-4o for reliability
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 2048,
-      });
-
-      const text = response.choices[0]?.message?.content || '';
-      const tokens = response.usage?.total_tokens || 0;
+      const { text, totalTokens: tokens } = await this.llm.complete('creative.rsa_edit', { prompt }, context);
 
       let result: PipelineStep2Result = { draft, improvements: [], tokens };
 
@@ -356,7 +323,8 @@ Output the improved version in this JSON format ONLY:
   private async step3Gemini(
     draft: RSAAsset,
     persona: AudiencePersona,
-    voice: VoiceProfile
+    voice: VoiceProfile,
+    context: LlmCallContext
   ): Promise<PipelineStep3Result> {
     const headlinesJson = JSON.stringify(draft.headlines, null, 2);
     const descriptionsJson = JSON.stringify(draft.descriptions, null, 2);
@@ -388,30 +356,7 @@ Output the polished version in this JSON format ONLY:
 }`;
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent?key=${this.geminiApiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        console.error('[RSA Pipeline] Gemini error:', data);
-        return { draft, edits: ['Gemini step skipped due to error'], tokens: 0 };
-      }
-
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      const tokens = data.usageMetadata?.totalTokenCount || 0;
+      const { text, totalTokens: tokens } = await this.llm.complete('creative.rsa_polish', { prompt }, context);
 
       let result: PipelineStep3Result = { draft, edits: [], tokens };
 
@@ -445,12 +390,13 @@ Output the polished version in this JSON format ONLY:
   private async step4ClaudeFinal(
     draft: RSAAsset,
     persona: AudiencePersona,
-    voice: VoiceProfile
+    voice: VoiceProfile,
+    context: LlmCallContext
   ): Promise<PipelineStep4Result> {
     // First, validate what we have
     const headlineTexts = draft.headlines.map(h => h.text);
     const descriptionTexts = draft.descriptions.map(d => d.text);
-    const validation = validateRSA(headlineTexts, descriptionTexts);
+    const validation = await validateRSA(headlineTexts, descriptionTexts);
 
     // If there are issues, ask Claude to fix them
     if (!validation.valid || validation.missingElements.length > 0) {
@@ -483,15 +429,11 @@ Output the fixed version in JSON format ONLY:
   "descriptions": [{"text": "..."}]
 }`;
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2048,
-        temperature: 0.5,
-        messages: [{ role: 'user', content: fixPrompt }],
-      });
-
-      const text = response.content.find(c => c.type === 'text')?.text || '';
-      const tokens = response.usage.input_tokens + response.usage.output_tokens;
+      const { text, totalTokens: tokens } = await this.llm.complete(
+        'creative.rsa_finalize',
+        { prompt: fixPrompt },
+        context
+      );
 
       try {
         const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -507,7 +449,7 @@ Output the fixed version in JSON format ONLY:
       }
 
       // Re-validate
-      const finalValidation = validateRSA(
+      const finalValidation = await validateRSA(
         draft.headlines.map(h => h.text),
         draft.descriptions.map(d => d.text)
       );
@@ -518,6 +460,7 @@ Output the fixed version in JSON format ONLY:
           passed: finalValidation.valid,
           issues: finalValidation.complianceIssues,
           suggestions: finalValidation.missingElements.map(e => `Add: ${e}`),
+          audit: (await checkCompliance(this.joinAssetText(draft))).audit,
         },
         tokens,
       };
@@ -530,11 +473,19 @@ Output the fixed version in JSON format ONLY:
         passed: true,
         issues: [],
         suggestions: [],
+        audit: (await checkCompliance(this.joinAssetText(draft))).audit,
       },
       tokens: 0,
     };
   }
 
+  private joinAssetText(asset: RSAAsset): string {
+    return [
+      ...asset.headlines.map(h => h.text),
+      ...asset.descriptions.map(d => d.text),
+    ].join(' ');
+  }
+
   /**
    * Generate variations from a master RSA
    * Uses a single Claude call for efficiency
@@ -543,7 +494,8 @@ Output the fixed version in JSON format ONLY:
     master: RSAAsset,
     persona: AudiencePersona,
     voice: VoiceProfile,
-    count: number
+    count: number,
+    context: LlmCallContext
   ): Promise<{ assets: RSAAsset[]; tokens: number }> {
     const variationTypes = [
       { type: 'tonal', desc: 'Adjust tone - slightly more/less urgent, formal, or casual' },
@@ -591,15 +543,7 @@ Output as JSON array:
   ...
 ]`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
-      temperature: 0.9,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const text = response.content.find(c => c.type === 'text')?.text || '';
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const { text, totalTokens: tokens } = await this.llm.complete('creative.rsa_variations', { prompt }, context);
 
     const assets: RSAAsset[] = [];
 
@@ -1,6 +1,6 @@
 // Base classes
 export { BaseAgent, type AgentConfig } from './base/BaseAgent';
-export { JobRunner, jobRunner, type Job, type JobConfig } from './base/JobRunner';
+export { JobRunner, jobRunner, type Job, type JobConfig, type JobRunnerOptions } from './base/JobRunner';
 
 // Agents
 export { OrchestratorAgent } from './orchestrator/OrchestratorAgent';
@@ -20,6 +20,7 @@ export { GA4Client } from './analytics/ga4-client';
 
 // Research utilities
 export { getMonitoringConfig, getHighPriorityFeeds } from './research/sources';
+export { CompetitorMonitor } from './research/competitor-monitor';
 
 // Jobs
 export { runGmailSync, gmailSyncHandler, checkGmailConnection } from './jobs/sync-gmail';
@@ -55,6 +56,7 @@ export type { KeywordRanking, ContentOpportunity } from './seo/SEOAgent';
 export type { DailyMetricsRollup, KPIAlert, WeeklyReportData } from './analytics/AnalyticsAgent';
 export type { NewsArticle, CompetitorUpdate, IntelligenceBrief } from './research/ResearchAgent';
 export type { Competitor, RSSFeed } from './research/sources';
+export type { DiscoveredPost, TopicOverlap } from './research/competitor-monitor';
 
 // Lead Finder Agents
 export {
@@ -31,6 +31,8 @@ export async function runGmailSync(options: GmailSyncJobOptions = {}): Promise<G
       processed: 0,
       newContacts: 0,
       newInteractions: 0,
+      outreachReplies: 0,
+      outreachBounces: 0,
       errors: ['Gmail not connected'],
     };
   }
@@ -45,6 +47,8 @@ export async function runGmailSync(options: GmailSyncJobOptions = {}): Promise<G
         processed: result.processed,
         newContacts: result.newContacts,
         newInteractions: result.newInteractions,
+        outreachReplies: result.outreachReplies,
+        outreachBounces: result.outreachBounces,
       });
     }
 
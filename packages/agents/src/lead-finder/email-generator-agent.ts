@@ -1,7 +1,8 @@
 /**
  * Email Generator Agent
  * 
- * Uses Claude to generate personalized outreach emails for leads.
+ * Uses the LLM gateway (task 'lead_finder.email') to generate personalized
+ * outreach emails for leads.
  * Supports multiple tones that rotate:
  * - congratulatory: Warm intro acknowledging their achievement
  * - value_first: Lead with value proposition
@@ -9,7 +10,13 @@
  * - direct_curious: Direct and inquisitive approach
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getLlmGateway, type LlmCallContext } from '@arcvest/services';
+import {
+  complianceRulesConfig,
+  evaluateCompliance,
+  type ComplianceResult,
+  type ComplianceRuleSet,
+} from '@arcvest/shared';
 
 // Define ScoredLead interface locally to avoid circular dependency
 export interface ScoredLead {
@@ -33,6 +40,7 @@ export interface GeneratedEmail {
   bodyHtml: string;
   bodyPlain: string;
   tone: EmailTone;
+  compliance: ComplianceResult;
 }
 
 const COMPANY_CONTEXT = `
@@ -122,19 +130,23 @@ IMPORTANT:
 - Reference the specific trigger naturally in opening`;
 
 export class EmailGeneratorAgent {
-  private client: Anthropic;
-  private model = 'claude-sonnet-4-20250514';
+  private complianceRules: ComplianceRuleSet = complianceRulesConfig;
 
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env['ANTHROPIC_API_KEY'],
-    });
+  /**
+   * Use a specific compliance rule set (e.g. the active DB version)
+   */
+  setComplianceRules(ruleSet: ComplianceRuleSet): void {
+    this.complianceRules = ruleSet;
   }
 
   /**
    * Generate an email for a single lead
    */
-  async generateEmail(lead: ScoredLead, tone: EmailTone): Promise<GeneratedEmail | null> {
+  async generateEmail(
+    lead: ScoredLead,
+    tone: EmailTone,
+    context: LlmCallContext = {}
+  ): Promise<GeneratedEmail | null> {
     const toneInstructions = TONE_INSTRUCTIONS[tone];
     
     const firstName = (lead as any).fullName.split(' ')[0] as string;
@@ -149,21 +161,13 @@ export class EmailGeneratorAgent {
       .replace('{toneInstructions}', toneInstructions);
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 1000,
-        system: EMAIL_SYSTEM_PROMPT,
-        messages: [
-          { role: 'user', content: userPrompt }
-        ],
-      });
-
-      const content = response.content[0];
-      if (!content || content.type !== 'text') {
-        return null;
-      }
+      const response = await getLlmGateway().complete(
+        'lead_finder.email',
+        { prompt: userPrompt, system: EMAIL_SYSTEM_PROMPT },
+        { feature: 'outreach_email', ...context }
+      );
 
-      return this.parseEmailResponse(content.text, tone);
+      return this.parseEmailResponse(response.text, tone);
     } catch (error) {
       console.error('Error generating email:', error);
       return null;
@@ -184,7 +188,7 @@ export class EmailGeneratorAgent {
   }
 
   /**
-   * Parse email response from Claude
+   * Parse the model's email response
    */
   private parseEmailResponse(responseText: string, tone: EmailTone): GeneratedEmail | null {
     try {
@@ -206,6 +210,11 @@ export class EmailGeneratorAgent {
         bodyHtml: parsed.bodyHtml,
         bodyPlain: parsed.bodyPlain,
         tone,
+        compliance: evaluateCompliance(
+          `${parsed.subject}\n\n${parsed.bodyPlain}`,
+          'outreach_email',
+          this.complianceRules
+        ),
       };
     } catch (error) {
       console.error('Error parsing email response:', error);
@@ -218,7 +227,8 @@ export class EmailGeneratorAgent {
    */
   async generateEmailsBatch(
     leads: ScoredLead[],
-    tones: EmailTone[] = ['congratulatory', 'value_first', 'peer_credibility', 'direct_curious']
+    tones: EmailTone[] = ['congratulatory', 'value_first', 'peer_credibility', 'direct_curious'],
+    context: LlmCallContext = {}
   ): Promise<Map<string, GeneratedEmail | null>> {
     const results = new Map<string, GeneratedEmail | null>();
 
@@ -227,7 +237,7 @@ export class EmailGeneratorAgent {
       if (!lead) continue;
       const tone = tones[i % tones.length] as EmailTone; // Rotate through tones
 
-      const email = await this.generateEmail(lead, tone);
+      const email = await this.generateEmail(lead, tone, context);
       results.set((lead as any).personKey, email);
 
       // Small delay between API calls
@@ -1,7 +1,8 @@
 /**
  * Lead Extractor Agent
  * 
- * Uses Claude to extract structured lead information from page text.
+ * Uses the LLM gateway (task 'lead_finder.extract') to extract structured
+ * lead information from page text.
  * Returns candidates with:
  * - Name, title, company, location
  * - Trigger type and category classification
@@ -9,7 +10,7 @@
  * - Contact paths found on the page
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getLlmGateway, type LlmCallContext } from '@arcvest/services';
 import type { ExtractedCandidate, ExtractionResult } from '@arcvest/shared';
 
 export type { ExtractedCandidate, ExtractionResult };
@@ -76,15 +77,6 @@ Rules:
 - Focus on quality over quantity`;
 
 export class LeadExtractorAgent {
-  private client: Anthropic;
-  private model = 'claude-sonnet-4-20250514';
-
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env['ANTHROPIC_API_KEY'],
-    });
-  }
-
   /**
    * Extract leads from page text
    */
@@ -92,7 +84,7 @@ export class LeadExtractorAgent {
     pageTitle: string | null;
     sourceUrl: string;
     extractedText: string;
-  }): Promise<ExtractionResult> {
+  }, context: LlmCallContext = {}): Promise<ExtractionResult> {
     const startTime = Date.now();
 
     // Truncate text to fit context window (leaving room for prompt and response)
@@ -113,28 +105,14 @@ export class LeadExtractorAgent {
       .replace('{text}', truncatedText);
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 2000,
-        system: EXTRACTION_SYSTEM_PROMPT,
-        messages: [
-          { role: 'user', content: userPrompt }
-        ],
-      });
-
-      const tokensUsed = (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0);
-      
-      // Extract JSON from response
-      const content = response.content[0];
-      if (!content || content.type !== 'text') {
-        return {
-          candidates: [],
-          processingTime: Date.now() - startTime,
-          tokensUsed,
-        };
-      }
+      const response = await getLlmGateway().complete(
+        'lead_finder.extract',
+        { prompt: userPrompt, system: EXTRACTION_SYSTEM_PROMPT },
+        { feature: 'lead_extraction', ...context }
+      );
 
-      const candidates = this.parseResponse(content.text);
+      const tokensUsed = response.totalTokens;
+      const candidates = this.parseResponse(response.text);
 
       return {
         candidates,
@@ -152,7 +130,7 @@ export class LeadExtractorAgent {
   }
 
   /**
-   * Parse Claude's response into structured candidates
+   * Parse the model's response into structured candidates
    */
   private parseResponse(responseText: string): ExtractedCandidate[] {
     try {
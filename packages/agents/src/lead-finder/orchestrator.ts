@@ -12,14 +12,15 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
 import {
+  getLlmGateway,
   GoogleSearchService,
   SearchResult,
   PageFetcherService,
   FetchedPage,
   LeadScorerService,
-  ScoredLead
+  ScoredLead,
+  ComplianceService
 } from '@arcvest/services';
 import { LeadExtractorAgent, type ExtractedCandidate, type ExtractionResult } from './lead-extractor-agent';
 import { EmailGeneratorAgent, type EmailTone, type GeneratedEmail } from './email-generator-agent';
@@ -65,26 +66,24 @@ export interface RunResult {
 
 export class LeadFinderOrchestrator {
   private supabase: SupabaseClient;
-  private anthropic: Anthropic;
   private searchService: GoogleSearchService;
   private fetcherService: PageFetcherService;
   private extractorAgent: LeadExtractorAgent;
   private scorerService: LeadScorerService;
   private emailAgent: EmailGeneratorAgent;
+  private compliance: ComplianceService;
 
   constructor() {
     this.supabase = createClient(
       process.env['NEXT_PUBLIC_SUPABASE_URL']!,
       process.env['SUPABASE_SERVICE_KEY']!
     );
-    this.anthropic = new Anthropic({
-      apiKey: process.env['ANTHROPIC_API_KEY']!,
-    });
     this.searchService = new GoogleSearchService();
     this.fetcherService = new PageFetcherService();
     this.extractorAgent = new LeadExtractorAgent();
     this.scorerService = new LeadScorerService();
     this.emailAgent = new EmailGeneratorAgent();
+    this.compliance = new ComplianceService(this.supabase);
   }
 
   /**
@@ -432,22 +431,18 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
 
       console.log(`🤖 Asking AI to predict emails for ${candidate.fullName} at ${candidate.company}...`);
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514', // Use same model as rest of codebase
-        max_tokens: 300,
-        temperature: 0.3, // Slightly higher for more variety
-        messages: [{
-          role: 'user',
-          content: prompt,
-        }],
-      });
+      const response = await getLlmGateway().complete(
+        'lead_finder.predict_email',
+        { prompt },
+        { feature: 'email_prediction' }
+      );
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        console.log(`📝 AI response for ${candidate.fullName}:`, content.text);
+      const text: string = response.text;
+      if (text) {
+        console.log(`📝 AI response for ${candidate.fullName}:`, text);
         
         // Parse JSON response - be more flexible with parsing
-        const jsonMatch = content.text.match(/\[[\s\S]*?\]/);
+        const jsonMatch = text.match(/\[[\s\S]*?\]/);
         if (jsonMatch) {
           try {
             const predictedEmails = JSON.parse(jsonMatch[0]) as string[];
@@ -462,15 +457,15 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
           } catch (parseError) {
             console.error(`❌ Failed to parse AI response as JSON for ${candidate.fullName}:`, {
               error: parseError,
-              response: content.text,
+              response: text,
               match: jsonMatch[0]
             });
           }
         } else {
-          console.error(`❌ No JSON array found in AI response for ${candidate.fullName}. Full response:`, content.text);
+          console.error(`❌ No JSON array found in AI response for ${candidate.fullName}. Full response:`, text);
         }
       } else {
-        console.error(`❌ Unexpected content type from AI for ${candidate.fullName}:`, content.type);
+        console.error(`❌ Empty AI response for ${candidate.fullName}`);
       }
 
       console.warn(`⚠️ Returning empty array for ${candidate.fullName} - email prediction failed`);
@@ -700,7 +695,7 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
       // Insert email if generated
       const email = emails.get(lead.personKey);
       if (email) {
-        await this.supabase
+        const { data: emailData } = await this.supabase
           .from('lead_finder_emails')
           .insert({
             lead_id: leadData.id,
@@ -709,7 +704,17 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
             body_html: email.bodyHtml,
             body_plain: email.bodyPlain,
             tone: email.tone,
-          });
+            compliance_check: email.compliance,
+          })
+          .select('id')
+          .single();
+
+        if (emailData) {
+          await this.compliance.record('lead_finder_emails', emailData.id, email.compliance);
+        }
+        if (!email.compliance.passed) {
+          console.warn(`⚠️ Email for ${(lead as any).fullName} failed compliance (${email.compliance.findings.length} findings)`);
+        }
       }
     }
   }
@@ -815,7 +820,7 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
           pageTitle: page.pageTitle,
           sourceUrl: page.finalUrl,
           extractedText: page.extractedText,
-        });
+        }, { correlationId: runId });
 
         for (const candidate of result.candidates) {
           allCandidates.push({
@@ -899,9 +904,11 @@ Example: ["elizabeth.trejos-castillo@ttu.edu", "e.trejos-castillo@ttu.edu", "etr
       console.log('Step 5: Generating emails...');
       const emailStart = Date.now();
 
+      this.emailAgent.setComplianceRules(await this.compliance.getActiveRuleSet());
       const emails = await this.emailAgent.generateEmailsBatch(
         selectedLeads,
-        runConfig.emailTones
+        runConfig.emailTones,
+        { correlationId: runId }
       );
 
       stats.emailsGenerated = [...emails.values()].filter(e => e !== null).length;
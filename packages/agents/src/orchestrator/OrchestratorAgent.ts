@@ -1,21 +1,10 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { BaseAgent, type AgentConfig } from '../base/BaseAgent';
-import { EventBus } from '@arcvest/services';
-import type { AgentTask, ApprovalItem, WorkflowInstance } from '@arcvest/shared';
-
-interface WorkflowStep {
-  agent: string;
-  taskType: string;
-  payload: Record<string, unknown>;
-}
-
-interface WorkflowDefinition {
-  name: string;
-  steps: WorkflowStep[];
-}
+import { BaseAgent } from '../base/BaseAgent';
+import { EventBus, WorkflowEngine } from '@arcvest/services';
+import type { AgentTask, WorkflowInstance, WorkflowType } from '@arcvest/shared';
 
 export class OrchestratorAgent extends BaseAgent {
-  private workflows: Map<string, WorkflowDefinition> = new Map();
+  private workflows: WorkflowEngine;
 
   constructor(supabase?: SupabaseClient) {
     super({
@@ -25,49 +14,10 @@ export class OrchestratorAgent extends BaseAgent {
       supabase,
     });
 
-    this.registerWorkflows();
+    this.workflows = new WorkflowEngine(this.supabase);
     this.setupEventListeners();
   }
 
-  /**
-   * Register built-in workflow definitions.
-   */
-  private registerWorkflows(): void {
-    // New blog post workflow
-    this.workflows.set('new_blog_post', {
-      name: 'New Blog Post',
-      steps: [
-        { agent: 'seo', taskType: 'create_content_brief', payload: {} },
-        { agent: 'content', taskType: 'create_outline', payload: {} },
-        { agent: 'content', taskType: 'write_draft', payload: {} },
-        { agent: 'content', taskType: 'compliance_check', payload: {} },
-        // After approval, content agent publishes
-      ],
-    });
-
-    // New ad campaign workflow
-    this.workflows.set('new_ad_campaign', {
-      name: 'New Ad Campaign',
-      steps: [
-        { agent: 'creative', taskType: 'generate_ad_copy', payload: {} },
-        { agent: 'creative', taskType: 'compliance_check', payload: {} },
-        // After approval, paid_media agent creates campaign
-        { agent: 'paid_media', taskType: 'create_campaign', payload: {} },
-      ],
-    });
-
-    // Daily reporting workflow
-    this.workflows.set('daily_report', {
-      name: 'Daily Report',
-      steps: [
-        { agent: 'analytics', taskType: 'sync_google_analytics', payload: {} },
-        { agent: 'paid_media', taskType: 'sync_google_ads', payload: {} },
-        { agent: 'analytics', taskType: 'calculate_daily_metrics', payload: {} },
-        { agent: 'analytics', taskType: 'generate_daily_digest', payload: {} },
-      ],
-    });
-  }
-
   /**
    * Set up event listeners.
    */
@@ -98,8 +48,8 @@ export class OrchestratorAgent extends BaseAgent {
       await this.processTask(task);
     }
 
-    // Check for stalled workflows
-    await this.checkStalledWorkflows();
+    // Advance workflows waiting on timers, retries or decisions
+    await this.advanceWorkflows();
 
     // Update status
     const pendingCount = await this.countPendingTasks();
@@ -145,103 +95,14 @@ export class OrchestratorAgent extends BaseAgent {
     workflowType: string,
     initialData: Record<string, unknown> = {}
   ): Promise<string> {
-    const definition = this.workflows.get(workflowType);
-    if (!definition) {
-      throw new Error(`Unknown workflow type: ${workflowType}`);
-    }
-
-    // Create workflow instance
-    const { data, error } = await this.supabase
-      .from('workflow_instances')
-      .insert({
-        workflow_type: workflowType,
-        status: 'running',
-        current_step: 0,
-        total_steps: definition.steps.length,
-        payload: initialData,
-        step_results: [],
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to create workflow: ${error.message}`);
-    }
-
-    this.logger.info(`Started workflow: ${definition.name} (${data.id})`);
-
-    // Start the first step
-    await this.advanceWorkflow(data.id);
-
-    return data.id;
+    return this.workflows.start(workflowType as WorkflowType, initialData);
   }
 
   /**
-   * Advance a workflow to the next step.
+   * Advance a workflow as far as its steps allow.
    */
   async advanceWorkflow(workflowId: string): Promise<void> {
-    // Get workflow instance
-    const { data: workflow, error: fetchError } = await this.supabase
-      .from('workflow_instances')
-      .select('*')
-      .eq('id', workflowId)
-      .single();
-
-    if (fetchError || !workflow) {
-      throw new Error(`Workflow not found: ${workflowId}`);
-    }
-
-    if (workflow.status !== 'running') {
-      this.logger.info(`Workflow ${workflowId} is not running (${workflow.status})`);
-      return;
-    }
-
-    const definition = this.workflows.get(workflow.workflow_type);
-    if (!definition) {
-      throw new Error(`Unknown workflow type: ${workflow.workflow_type}`);
-    }
-
-    // Check if workflow is complete
-    if (workflow.current_step >= definition.steps.length) {
-      await this.completeWorkflow(workflowId);
-      return;
-    }
-
-    // Get current step
-    const step = definition.steps[workflow.current_step];
-    if (!step) {
-      throw new Error(`Step not found: ${workflow.current_step}`);
-    }
-
-    // Create task for the step
-    const payload = {
-      ...step.payload,
-      workflow_id: workflowId,
-      workflow_data: workflow.payload,
-    };
-
-    await this.createTaskForAgent(step.agent, step.taskType, payload);
-
-    // Update workflow current step
-    await this.supabase
-      .from('workflow_instances')
-      .update({ current_step: workflow.current_step + 1 })
-      .eq('id', workflowId);
-  }
-
-  /**
-   * Complete a workflow.
-   */
-  private async completeWorkflow(workflowId: string): Promise<void> {
-    await this.supabase
-      .from('workflow_instances')
-      .update({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', workflowId);
-
-    this.logger.info(`Workflow completed: ${workflowId}`);
+    await this.workflows.advance(workflowId);
   }
 
   /**
@@ -297,10 +158,9 @@ export class OrchestratorAgent extends BaseAgent {
    * Handle approval completion.
    */
   private async handleApprovalCompletion(approvalId: string, status: string): Promise<void> {
-    // Get the approval
     const { data: approval } = await this.supabase
       .from('approval_queue')
-      .select('*')
+      .select('id, workflow_id')
       .eq('id', approvalId)
       .single();
 
@@ -309,18 +169,10 @@ export class OrchestratorAgent extends BaseAgent {
       return;
     }
 
-    // If approved and has a related task, we might need to continue a workflow
-    if (status === 'approved' && approval.related_task_id) {
-      // Check if this was part of a workflow
-      const { data: task } = await this.supabase
-        .from('agent_tasks')
-        .select('payload')
-        .eq('id', approval.related_task_id)
-        .single();
-
-      if (task?.payload?.workflow_id) {
-        await this.advanceWorkflow(task.payload.workflow_id);
-      }
+    // Approval gates continue (or fail) their workflow on any decision
+    if (approval.workflow_id) {
+      this.logger.info(`Approval ${approvalId} ${status}, advancing workflow ${approval.workflow_id}`);
+      await this.advanceWorkflow(approval.workflow_id);
     }
   }
 
@@ -345,23 +197,13 @@ export class OrchestratorAgent extends BaseAgent {
   }
 
   /**
-   * Check for stalled workflows.
+   * Advance running workflows.
    */
-  private async checkStalledWorkflows(): Promise<void> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-
-    const { data: workflows } = await this.supabase
-      .from('workflow_instances')
-      .select('*')
-      .eq('status', 'running')
-      .lt('updated_at', oneHourAgo);
+  private async advanceWorkflows(): Promise<void> {
+    const result = await this.workflows.tick();
 
-    if (!workflows || workflows.length === 0) {
-      return;
-    }
-
-    for (const workflow of workflows) {
-      this.logger.warn(`Stalled workflow detected: ${workflow.id} (${workflow.workflow_type})`);
+    for (const error of result.errors) {
+      this.logger.warn(`Workflow advance failed: ${error}`);
     }
   }
 
@@ -381,37 +223,20 @@ export class OrchestratorAgent extends BaseAgent {
    * Get workflow status.
    */
   async getWorkflowStatus(workflowId: string): Promise<WorkflowInstance | null> {
-    const { data } = await this.supabase
-      .from('workflow_instances')
-      .select('*')
-      .eq('id', workflowId)
-      .single();
-
-    return data;
+    return this.workflows.get(workflowId);
   }
 
   /**
    * Pause a workflow.
    */
   async pauseWorkflow(workflowId: string): Promise<void> {
-    await this.supabase
-      .from('workflow_instances')
-      .update({ status: 'paused' })
-      .eq('id', workflowId);
-
-    this.logger.info(`Paused workflow: ${workflowId}`);
+    await this.workflows.pause(workflowId);
   }
 
   /**
    * Resume a paused workflow.
    */
   async resumeWorkflow(workflowId: string): Promise<void> {
-    await this.supabase
-      .from('workflow_instances')
-      .update({ status: 'running' })
-      .eq('id', workflowId);
-
-    this.logger.info(`Resumed workflow: ${workflowId}`);
-    await this.advanceWorkflow(workflowId);
+    await this.workflows.resume(workflowId);
   }
 }
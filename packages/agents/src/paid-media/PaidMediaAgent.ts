@@ -8,6 +8,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from '../base/BaseAgent';
 import { budgetParametersConfig } from '@arcvest/shared';
+import { NotificationService } from '@arcvest/services';
 import type { AgentTask, Campaign, CampaignMetrics } from '@arcvest/shared';
 
 export interface OptimizationRecommendation {
@@ -28,6 +29,7 @@ export interface BudgetAlert {
 
 export class PaidMediaAgent extends BaseAgent {
   private budgetConfig = budgetParametersConfig;
+  private notifications: NotificationService;
 
   constructor(supabase?: SupabaseClient) {
     super({
@@ -36,6 +38,8 @@ export class PaidMediaAgent extends BaseAgent {
       description: 'Manages Google Ads campaigns and optimizations',
       supabase,
     });
+
+    this.notifications = new NotificationService(this.supabase);
   }
 
   /**
@@ -354,6 +358,18 @@ export class PaidMediaAgent extends BaseAgent {
       this.logger.warn(`Found ${alerts.length} budget alerts`);
     }
 
+    for (const alert of alerts) {
+      await this.notifications.notify({
+        source: 'budget',
+        severity: alert.severity,
+        title: `${alert.campaign_name}: ${alert.type}`,
+        message: alert.message,
+        dedupKey: `budget:${alert.campaign_id}:${alert.type}`,
+        link: '/dashboard/campaigns',
+        details: { ...alert },
+      });
+    }
+
     return { alerts };
   }
 
@@ -14,7 +14,21 @@ import {
   getHighPriorityFeeds,
   Competitor,
   RSSFeed,
+  competitorMonitoring,
 } from './sources';
+import {
+  CompetitorMonitor,
+  diffDiscoveredPosts,
+  findTopicOverlap,
+  type CalendarEntry,
+  type DiscoveredPost,
+} from './competitor-monitor';
+import {
+  ComplianceService,
+  RegulatoryMonitorService,
+  type RegulatoryUpdate,
+  type RuleChangeProposal,
+} from '@arcvest/services';
 import type { AgentTask } from '@arcvest/shared';
 
 export interface NewsArticle {
@@ -61,6 +75,9 @@ export interface RSSItem {
 
 export class ResearchAgent extends BaseAgent {
   private claude: ClaudeClient;
+  private competitorMonitor: CompetitorMonitor;
+  private regulatoryMonitor: RegulatoryMonitorService;
+  private complianceService: ComplianceService;
   private config = getMonitoringConfig();
 
   constructor(supabase?: SupabaseClient) {
@@ -71,7 +88,10 @@ export class ResearchAgent extends BaseAgent {
       supabase,
     });
 
-    this.claude = new ClaudeClient();
+    this.claude = new ClaudeClient('research_agent');
+    this.competitorMonitor = new CompetitorMonitor();
+    this.regulatoryMonitor = new RegulatoryMonitorService(this.supabase);
+    this.complianceService = new ComplianceService(this.supabase);
   }
 
   /**
@@ -103,6 +123,9 @@ export class ResearchAgent extends BaseAgent {
       case 'scan_competitor':
         return this.scanCompetitor(task.payload);
 
+      case 'scan_competitors':
+        return this.scanCompetitors();
+
       case 'scan_industry_sources':
         return this.scanIndustrySources();
 
@@ -124,7 +147,8 @@ export class ResearchAgent extends BaseAgent {
   }
 
   /**
-   * Scan a competitor for new content.
+   * Scan a competitor's blog for posts published since the last scan.
+   * The first scan records what is already there without raising anything.
    */
   async scanCompetitor(payload: Record<string, unknown>): Promise<{
     updates: CompetitorUpdate[];
@@ -144,37 +168,78 @@ export class ResearchAgent extends BaseAgent {
 
     const updates: CompetitorUpdate[] = [];
 
-    if (competitor.monitorBlog) {
-      // In production, would scrape the competitor's blog
-      // For now, simulate finding content
-      const blogUpdates = await this.simulateCompetitorScan(competitor, 'blog');
-      updates.push(...blogUpdates);
+    if (!competitor.monitorBlog) {
+      return { updates, newArticles: 0 };
     }
 
-    if (competitor.monitorSocial && competitor.linkedInUrl) {
-      const socialUpdates = await this.simulateCompetitorScan(competitor, 'social');
-      updates.push(...socialUpdates);
+    const recordId = await this.ensureCompetitorRecord(competitor);
+
+    const { data: known, error: knownError } = await this.supabase
+      .from('competitor_content')
+      .select('url')
+      .eq('competitor_id', recordId);
+
+    if (knownError) {
+      throw new Error(`Failed to get competitor content: ${knownError.message}`);
     }
 
-    // Store updates in database
-    for (const update of updates) {
-      await this.supabase.from('competitor_updates').upsert({
-        competitor_name: update.competitorName,
-        update_type: update.type,
-        title: update.title,
-        url: update.url,
-        summary: update.summary,
-        discovered_at: update.discoveredAt,
-      });
+    const discovered = await this.competitorMonitor.discover(competitor);
+    const newPosts = diffDiscoveredPosts(discovered, (known || []).map((k) => k.url));
+    const isBaseline = (known || []).length === 0;
+
+    if (isBaseline) {
+      await this.recordCompetitorPosts(recordId, newPosts);
+      this.logger.info(`Recorded ${newPosts.length} existing posts as baseline`, { competitor: competitor.name });
+    } else {
+      const calendar = await this.getActiveCalendar();
+
+      for (const post of newPosts.slice(0, competitorMonitoring.maxNewPostsPerScan)) {
+        try {
+          const update = await this.processCompetitorPost(competitor, recordId, post, calendar);
+          updates.push(update);
+        } catch (error) {
+          this.logger.error(`Failed to process competitor post ${post.url}`, error);
+        }
+      }
+
+      // Anything beyond the per-scan limit is recorded without a summary
+      await this.recordCompetitorPosts(recordId, newPosts.slice(competitorMonitoring.maxNewPostsPerScan));
     }
 
+    await this.supabase
+      .from('competitors')
+      .update({ last_scanned: new Date().toISOString() })
+      .eq('id', recordId);
+
     if (updates.length > 0) {
       this.logger.info(`Found ${updates.length} competitor updates`, {
         competitor: competitor.name,
       });
     }
 
-    return { updates, newArticles: updates.length };
+    return { updates, newArticles: isBaseline ? 0 : newPosts.length };
+  }
+
+  /**
+   * Scan every competitor with blog monitoring on.
+   */
+  async scanCompetitors(): Promise<{ scanned: number; newArticles: number; errors: string[] }> {
+    let scanned = 0;
+    let newArticles = 0;
+    const errors: string[] = [];
+
+    for (const competitor of this.config.competitors.filter((c) => c.monitorBlog)) {
+      try {
+        const result = await this.scanCompetitor({ competitorId: competitor.domain });
+        scanned++;
+        newArticles += result.newArticles;
+      } catch (error) {
+        errors.push(`${competitor.name}: ${error instanceof Error ? error.message : String(error)}`);
+        this.logger.error(`Failed to scan competitor: ${competitor.name}`, error);
+      }
+    }
+
+    return { scanned, newArticles, errors };
   }
 
   /**
@@ -462,103 +527,311 @@ Format as JSON.`;
   }
 
   /**
-   * Check for regulatory updates.
+   * Check SEC/FINRA sources for changes to adviser marketing requirements.
+   * Updates that affect our rules get a draft rule set, a review task and
+   * an approval; approving it activates the draft. Updates whose draft went
+   * stale (another rule set was activated first) are drafted again.
    */
   async checkRegulatoryUpdates(): Promise<{
-    updates: NewsArticle[];
+    updates: RegulatoryUpdate[];
     alerts: IntelligenceBrief[];
   }> {
     this.logger.info('Checking regulatory updates');
 
-    const regulatoryFeeds = this.config.rssFeeds.filter(
-      (f) => f.category === 'regulatory'
-    );
+    const scan = await this.regulatoryMonitor.scan();
+    for (const error of scan.errors) {
+      this.logger.warn(`Regulatory scan: ${error}`);
+    }
+
+    const alerts: IntelligenceBrief[] = [];
 
-    const updates: NewsArticle[] = [];
+    const toDraft = [...scan.affecting];
+    try {
+      const seen = new Set(toDraft.map((update) => update.id));
+      const awaiting = await this.regulatoryMonitor.listAwaitingDraft();
+      toDraft.push(...awaiting.filter((update) => !seen.has(update.id)));
+    } catch (error) {
+      this.logger.warn('Failed to load regulatory updates awaiting a draft', error);
+    }
 
-    for (const feed of regulatoryFeeds) {
+    for (const update of toDraft) {
       try {
-        const articles = await this.fetchAndParseRSS(feed);
+        const proposal = await this.proposeRuleChange(update);
+        const { version } = await this.regulatoryMonitor.draftRuleChange(update.id, proposal, {
+          createdBy: this.name,
+        });
 
-        // Check for important regulatory keywords
-        const importantArticles = articles.filter((article) => {
-          const text = `${article.title} ${article.summary || ''}`.toLowerCase();
-          return (
-            text.includes('marketing rule') ||
-            text.includes('fiduciary') ||
-            text.includes('investment adviser') ||
-            text.includes('compliance') ||
-            text.includes('enforcement')
-          );
+        const alert: IntelligenceBrief = {
+          id: `regulatory-${update.id}`,
+          type: 'regulatory_alert',
+          title: `Regulatory Alert: ${update.title}`,
+          summary: proposal.rationale,
+          details: `Source: ${update.source_name}\nURL: ${update.url || 'n/a'}\nImpact: ${update.impact_areas.join(', ')}`,
+          actionItems: [
+            'Review the full regulatory update',
+            `Review draft compliance rule set ${version}`,
+          ],
+          sources: update.url ? [{ title: update.title, url: update.url }] : [],
+          createdAt: new Date().toISOString(),
+        };
+
+        alerts.push(alert);
+
+        const approvalId = await this.submitForApproval({
+          type: 'compliance_rule_change',
+          title: `Compliance rule change: ${update.title}`,
+          summary: proposal.rationale,
+          content: {
+            updateId: update.id,
+            version,
+            impactAreas: update.impact_areas,
+            url: update.url,
+            proposal,
+          },
+          priority: 'high',
         });
 
-        updates.push(...importantArticles);
+        await this.regulatoryMonitor.linkApproval(update.id, approvalId);
       } catch (error) {
-        this.logger.error(`Failed to fetch regulatory feed: ${feed.name}`, error);
+        this.logger.error(`Failed to draft rule change for: ${update.title}`, error);
       }
     }
 
-    const alerts: IntelligenceBrief[] = [];
+    if (alerts.length > 0) {
+      this.logger.warn(`Drafted ${alerts.length} compliance rule changes`);
+    }
 
-    // Create alerts for high-priority updates
-    for (const update of updates.filter((u) => u.relevanceScore > 0.7)) {
-      const alert: IntelligenceBrief = {
-        id: `regulatory-${Date.now()}`,
-        type: 'regulatory_alert',
-        title: `Regulatory Alert: ${update.title}`,
-        summary: update.summary || 'New regulatory update requires review',
-        details: `Source: ${update.source}\nURL: ${update.url}`,
-        actionItems: ['Review the full regulatory update', 'Assess compliance implications'],
-        sources: [{ title: update.title, url: update.url }],
-        createdAt: new Date().toISOString(),
-      };
+    return { updates: scan.recorded, alerts };
+  }
+
+  /**
+   * Ask Claude how our compliance rules should change for an update. Falls
+   * back to an empty proposal so the reviewer still gets a task.
+   */
+  private async proposeRuleChange(update: RegulatoryUpdate): Promise<RuleChangeProposal> {
+    const ruleSet = await this.complianceService.getActiveRuleSet();
+    const affected = ruleSet.rules.filter((rule) => update.affected_categories.includes(rule.category));
+
+    const prompt = `A regulator published an update that may affect the marketing compliance rules of a fee-only fiduciary RIA.
+
+Update: ${update.title}
+Source: ${update.source_name} (${update.url || 'no URL'})
+Summary: ${update.summary || 'n/a'}
+Impact areas: ${update.impact_areas.join(', ')}
 
-      alerts.push(alert);
+Our current rules in the affected categories:
+${JSON.stringify(affected, null, 2)}
 
-      // Submit for immediate review
-      await this.submitForApproval({
-        type: 'regulatory_alert',
-        title: alert.title,
-        summary: alert.summary,
-        content: alert,
-        priority: 'high',
+Propose the minimal changes to these rules. Respond with JSON only:
+{
+  "rationale": "2-3 sentences on what changed and why our rules should change (or why not)",
+  "add_rules": [/* new rules, same shape as above */],
+  "update_rules": [/* existing rules with the same id, modified */],
+  "remove_rule_ids": [],
+  "add_disclosures": [/* { "id", "text", "pattern", "severity", "content_types", "required_when" } */]
+}`;
+
+    try {
+      const result = await this.claude.generateContent(prompt, {
+        temperature: 0.2,
+        maxTokens: 2048,
       });
+
+      const jsonMatch = result.content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const proposal = JSON.parse(jsonMatch[0]) as RuleChangeProposal;
+        if (proposal.rationale) return proposal;
+      }
+    } catch {
+      this.logger.warn('Failed to generate rule change proposal');
     }
 
-    if (alerts.length > 0) {
-      this.logger.warn(`Created ${alerts.length} regulatory alerts`);
+    return {
+      rationale: `${update.source_name} published "${update.title}", which touches ${update.impact_areas.join(', ')}. Review it against our compliance rules.`,
+    };
+  }
+
+  /**
+   * Fetch, summarize and store one new competitor post, raising a content
+   * opportunity when it covers a topic on our calendar.
+   */
+  private async processCompetitorPost(
+    competitor: Competitor,
+    recordId: string,
+    post: DiscoveredPost,
+    calendar: CalendarEntry[]
+  ): Promise<CompetitorUpdate> {
+    const page = await this.competitorMonitor.fetchPost(post.url);
+    const title = post.title || page.pageTitle || post.url;
+    const analysis = page.error
+      ? { summary: '', topics: [], relevance: 0 }
+      : await this.summarizeCompetitorPost(competitor, title, page.extractedText);
+
+    const overlaps = findTopicOverlap({ title, topics: analysis.topics }, calendar);
+    const publishedAt = post.publishedAt || page.publishedAtGuess;
+
+    await this.supabase.from('competitor_content').upsert({
+      competitor_id: recordId,
+      url: post.url,
+      title,
+      type: 'blog',
+      published_date: publishedAt ? publishedAt.split('T')[0] : null,
+      summary: analysis.summary || null,
+      topics: analysis.topics,
+      relevance_score: analysis.relevance,
+      notes: overlaps.length > 0 ? `Overlaps: ${overlaps.map((o) => o.contentTitle).join('; ')}` : page.error || null,
+    }, { onConflict: 'competitor_id,url' });
+
+    const update: CompetitorUpdate = {
+      competitorId: competitor.domain,
+      competitorName: competitor.name,
+      type: 'new_content',
+      title,
+      url: post.url,
+      summary: analysis.summary,
+      discoveredAt: new Date().toISOString(),
+    };
+
+    await this.supabase.from('competitor_updates').insert({
+      competitor_name: update.competitorName,
+      update_type: update.type,
+      title: update.title,
+      url: update.url,
+      summary: update.summary,
+      discovered_at: update.discoveredAt,
+      relevance_score: analysis.relevance / 10,
+      action_required: overlaps.length > 0,
+      notes: overlaps.length > 0 ? `Covers our topic: ${overlaps.map((o) => o.matched).join(', ')}` : null,
+    });
+
+    for (const overlap of overlaps) {
+      await this.createContentOpportunityTask(overlap.contentTitle, {
+        source: 'competitor_overlap',
+        reason: `${competitor.name} published on our topic`,
+        contentId: overlap.contentId,
+        matched: overlap.matched,
+        competitor: competitor.name,
+        competitorUrl: post.url,
+        competitorTitle: title,
+        competitorSummary: analysis.summary,
+      });
     }
 
-    return { updates, alerts };
+    return update;
   }
 
   /**
-   * Simulate competitor scan (replace with actual scraping in production).
+   * Summarize a competitor post and tag its topics.
    */
-  private async simulateCompetitorScan(
+  private async summarizeCompetitorPost(
     competitor: Competitor,
-    source: 'blog' | 'social'
-  ): Promise<CompetitorUpdate[]> {
-    // In production, would use:
-    // - Puppeteer/Playwright for blog scraping
-    // - LinkedIn/Twitter APIs for social monitoring
-    // For now, return simulated data occasionally
-
-    if (Math.random() > 0.7) {
-      return [
-        {
-          competitorId: competitor.domain,
-          competitorName: competitor.name,
-          type: source === 'blog' ? 'new_content' : 'social_post',
-          title: `${competitor.name} published new ${source === 'blog' ? 'article' : 'post'}`,
-          url: `https://${competitor.domain}/${source}`,
-          summary: 'Simulated competitor update for development',
-          discoveredAt: new Date().toISOString(),
-        },
-      ];
+    title: string,
+    text: string
+  ): Promise<{ summary: string; topics: string[]; relevance: number }> {
+    const prompt = `Summarize this blog post from ${competitor.name}, a competitor of a fee-only fiduciary financial advisory firm.
+
+Title: ${title}
+
+Content:
+${text.slice(0, 8000)}
+
+Provide:
+1. summary: 2-3 sentences on what the post covers and its angle
+2. topics: 3-6 short topic phrases (e.g. "roth conversion", "required minimum distributions")
+3. relevance: 0-10, how relevant the post is to pre-retirees and retirees choosing a fee-only advisor
+
+Format as JSON:
+{
+  "summary": "...",
+  "topics": ["...", "..."],
+  "relevance": 5
+}`;
+
+    try {
+      const result = await this.claude.generateContent(prompt, {
+        temperature: 0.3,
+        maxTokens: 512,
+      });
+
+      const jsonMatch = result.content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const parsed = JSON.parse(jsonMatch[0]);
+        return {
+          summary: String(parsed.summary || ''),
+          topics: Array.isArray(parsed.topics) ? parsed.topics.map(String) : [],
+          relevance: Math.max(0, Math.min(10, Math.round(Number(parsed.relevance) || 0))),
+        };
+      }
+    } catch {
+      this.logger.warn('Failed to summarize competitor post', { title });
+    }
+
+    return { summary: '', topics: [], relevance: 0 };
+  }
+
+  /**
+   * Record posts without analysis (baseline scan, overflow).
+   */
+  private async recordCompetitorPosts(recordId: string, posts: DiscoveredPost[]): Promise<void> {
+    if (posts.length === 0) return;
+
+    const { error } = await this.supabase.from('competitor_content').upsert(
+      posts.map((post) => ({
+        competitor_id: recordId,
+        url: post.url,
+        title: post.title,
+        type: 'blog',
+        published_date: post.publishedAt ? post.publishedAt.split('T')[0] : null,
+      })),
+      { onConflict: 'competitor_id,url', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      throw new Error(`Failed to record competitor posts: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get or create the competitors row for a configured competitor.
+   */
+  private async ensureCompetitorRecord(competitor: Competitor): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('competitors')
+      .upsert({
+        domain: competitor.domain,
+        name: competitor.name,
+        type: competitor.type,
+        competitor_type: competitor.type,
+        monitor_blog: competitor.monitorBlog,
+        monitor_social: competitor.monitorSocial,
+        linkedin_url: competitor.linkedInUrl,
+        twitter_handle: competitor.twitterHandle,
+      }, { onConflict: 'domain' })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save competitor: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Calendar entries still in play (not published or archived).
+   */
+  private async getActiveCalendar(): Promise<CalendarEntry[]> {
+    const { data, error } = await this.supabase
+      .from('content_calendar')
+      .select('id, title, topic, keywords, target_keyword')
+      .not('status', 'in', '(published,archived)');
+
+    if (error) {
+      this.logger.warn('Failed to load content calendar', error);
+      return [];
     }
 
-    return [];
+    return data || [];
   }
 
   /**
@@ -709,13 +982,17 @@ Format as JSON.`;
   /**
    * Create content opportunity task for content agent.
    */
-  private async createContentOpportunityTask(topic: string): Promise<void> {
+  private async createContentOpportunityTask(
+    topic: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
     await this.supabase.from('agent_tasks').insert({
       type: 'create_outline',
       assigned_agent: 'content',
       payload: {
         topic,
         source: 'research_opportunity',
+        ...details,
       },
       priority: 3,
       created_by: this.name,
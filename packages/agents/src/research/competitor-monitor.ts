@@ -0,0 +1,334 @@
+/**
+ * Competitor Monitor
+ *
+ * Discovers competitor blog posts from RSS/Atom feeds and sitemaps, diffs
+ * them against URLs already recorded, and fetches new posts with
+ * PageFetcherService. Summaries and topic matching are done by ResearchAgent.
+ */
+
+import Parser from 'rss-parser';
+import { PageFetcherService, type FetchedPage } from '@arcvest/services';
+import { createLogger } from '@arcvest/shared';
+import { competitorMonitoring, type Competitor, type CompetitorMonitoringOptions } from './sources';
+
+const logger = createLogger('competitor-monitor');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_AGENT = 'ArcVest-Research-Agent/1.0';
+
+// Tried in order when a competitor has no feedUrl / sitemapUrl
+const FEED_PATHS = ['/feed', '/blog/feed', '/rss.xml', '/blog/rss.xml', '/feed.xml'];
+const SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/post-sitemap.xml'];
+
+// Listing pages rather than posts
+const NON_POST_SEGMENTS = /\/(tag|tags|category|categories|author|authors|page|search|feed)(\/|$)/;
+
+export interface DiscoveredPost {
+  url: string;
+  title: string | null;
+  publishedAt: string | null;
+  source: 'feed' | 'sitemap';
+}
+
+export interface SitemapEntries {
+  urls: Array<{ loc: string; lastmod: string | null }>;
+  sitemaps: string[];   // Child sitemaps of a sitemap index
+}
+
+export interface CalendarEntry {
+  id: string;
+  title: string | null;
+  topic: string | null;
+  keywords: string[] | null;
+  target_keyword: string | null;
+}
+
+export interface TopicOverlap {
+  contentId: string;
+  contentTitle: string;
+  matched: string;
+}
+
+// ===========================================
+// Parsing and matching (pure)
+// ===========================================
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read a urlset or sitemapindex document.
+ */
+export function parseSitemapXml(xml: string): SitemapEntries {
+  const entries: SitemapEntries = { urls: [], sitemaps: [] };
+
+  for (const block of xml.match(/<sitemap>[\s\S]*?<\/sitemap>/g) || []) {
+    const loc = block.match(/<loc>([\s\S]*?)<\/loc>/);
+    if (loc?.[1]) entries.sitemaps.push(decodeXml(loc[1]));
+  }
+
+  for (const block of xml.match(/<url>[\s\S]*?<\/url>/g) || []) {
+    const loc = block.match(/<loc>([\s\S]*?)<\/loc>/);
+    const lastmod = block.match(/<lastmod>([\s\S]*?)<\/lastmod>/);
+    if (loc?.[1]) {
+      entries.urls.push({ loc: decodeXml(loc[1]), lastmod: lastmod?.[1] ? decodeXml(lastmod[1]) : null });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Strip tracking parameters, fragments and trailing slashes so the same post
+ * found through a feed and a sitemap is one URL.
+ */
+export function normalizePostUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (key.startsWith('utm_')) parsed.searchParams.delete(key);
+    }
+    parsed.hostname = parsed.hostname.replace(/^www\./, '');
+    parsed.protocol = 'https:';
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Whether a URL is on the competitor's domain (any subdomain).
+ */
+export function isCompetitorUrl(url: string, domain: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    const site = domain.replace(/^www\./, '');
+    return host === site || host.endsWith(`.${site}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a URL on the competitor's site looks like a blog post.
+ */
+export function isLikelyPostUrl(
+  url: string,
+  competitor: Pick<Competitor, 'domain' | 'blogPath'>,
+  options: Pick<CompetitorMonitoringOptions, 'postPathPatterns'> = competitorMonitoring
+): boolean {
+  if (!isCompetitorUrl(url, competitor.domain)) return false;
+
+  const path = new URL(url).pathname.replace(/\/$/, '');
+  if (!path || NON_POST_SEGMENTS.test(path)) return false;
+
+  if (competitor.blogPath) {
+    const prefix = competitor.blogPath.replace(/\/$/, '');
+    return path.startsWith(`${prefix}/`) && path.length > prefix.length + 1;
+  }
+
+  return options.postPathPatterns.some((pattern) => pattern.test(path));
+}
+
+/**
+ * Posts not yet recorded, de-duplicated, newest first.
+ */
+export function diffDiscoveredPosts(discovered: DiscoveredPost[], knownUrls: string[]): DiscoveredPost[] {
+  const known = new Set(knownUrls.map(normalizePostUrl));
+  const fresh = new Map<string, DiscoveredPost>();
+
+  for (const post of discovered) {
+    const url = normalizePostUrl(post.url);
+    if (known.has(url)) continue;
+
+    // Feeds carry titles, so prefer the feed copy of a post
+    const existing = fresh.get(url);
+    if (!existing || (existing.source === 'sitemap' && post.source === 'feed')) {
+      fresh.set(url, { ...post, url });
+    }
+  }
+
+  return [...fresh.values()].sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'vs', 'what', 'when', 'why', 'with', 'you', 'your',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Calendar entries whose keyword, topic or title is covered by a competitor
+ * post. A phrase matches when all of its significant words appear in the
+ * post's title and topics.
+ */
+export function findTopicOverlap(
+  post: { title: string | null; topics: string[] },
+  calendar: CalendarEntry[]
+): TopicOverlap[] {
+  const postTokens = new Set(tokenize([post.title || '', ...post.topics].join(' ')));
+  const overlaps: TopicOverlap[] = [];
+
+  for (const entry of calendar) {
+    const phrases = [entry.target_keyword, ...(entry.keywords || []), entry.topic, entry.title]
+      .filter((phrase): phrase is string => !!phrase && phrase.trim().length > 0);
+
+    const matched = phrases.find((phrase) => {
+      const tokens = tokenize(phrase);
+      return tokens.length > 0 && tokens.every((token) => postTokens.has(token));
+    });
+
+    if (matched) {
+      overlaps.push({
+        contentId: entry.id,
+        contentTitle: entry.title || entry.topic || matched,
+        matched,
+      });
+    }
+  }
+
+  return overlaps;
+}
+
+// ===========================================
+// Discovery
+// ===========================================
+
+export class CompetitorMonitor {
+  private fetcher: PageFetcherService;
+  private parser: Parser;
+  private options: CompetitorMonitoringOptions;
+
+  constructor(fetcher?: PageFetcherService, options: CompetitorMonitoringOptions = competitorMonitoring) {
+    this.fetcher = fetcher || new PageFetcherService();
+    this.parser = new Parser({ timeout: 15000, headers: { 'User-Agent': USER_AGENT } });
+    this.options = options;
+  }
+
+  /**
+   * Posts listed in the competitor's feed and sitemaps.
+   */
+  async discover(competitor: Competitor, now: Date = new Date()): Promise<DiscoveredPost[]> {
+    const [feedPosts, sitemapPosts] = await Promise.all([
+      this.discoverFromFeed(competitor),
+      this.discoverFromSitemap(competitor, now),
+    ]);
+
+    logger.debug('Competitor discovery', {
+      competitor: competitor.name,
+      feed: feedPosts.length,
+      sitemap: sitemapPosts.length,
+    });
+
+    return [...feedPosts, ...sitemapPosts];
+  }
+
+  /**
+   * Fetch a post's readable text.
+   */
+  async fetchPost(url: string): Promise<FetchedPage> {
+    return this.fetcher.fetchPage(url, { maxRetries: 1 });
+  }
+
+  private async discoverFromFeed(competitor: Competitor): Promise<DiscoveredPost[]> {
+    const candidates = competitor.feedUrl
+      ? [competitor.feedUrl]
+      : this.candidateUrls(competitor, competitor.blogPath ? [`${competitor.blogPath}/feed`, ...FEED_PATHS] : FEED_PATHS);
+
+    for (const url of candidates) {
+      try {
+        const feed = await this.parser.parseURL(url);
+        return (feed.items || [])
+          // Everything in the blog's own feed is a post
+          .filter((item) => item.link && isCompetitorUrl(item.link, competitor.domain))
+          .map((item) => ({
+            url: item.link!,
+            title: item.title?.trim() || null,
+            publishedAt: item.isoDate || (item.pubDate ? new Date(item.pubDate).toISOString() : null),
+            source: 'feed' as const,
+          }));
+      } catch {
+        // Not a feed; try the next location
+      }
+    }
+
+    return [];
+  }
+
+  private async discoverFromSitemap(competitor: Competitor, now: Date): Promise<DiscoveredPost[]> {
+    const candidates = competitor.sitemapUrl
+      ? [competitor.sitemapUrl]
+      : this.candidateUrls(competitor, SITEMAP_PATHS);
+    const since = new Date(now.getTime() - this.options.sitemapLookbackDays * DAY_MS).toISOString();
+
+    for (const url of candidates) {
+      const root = await this.fetchSitemap(url);
+      if (!root) continue;
+
+      let entries = root.urls;
+
+      // For an index, read the post/blog sitemaps (or the first few if none are named that way)
+      if (root.sitemaps.length > 0) {
+        const named = root.sitemaps.filter((s) => /post|blog|article|news|insight|resource/i.test(s));
+        for (const child of (named.length > 0 ? named : root.sitemaps).slice(0, 5)) {
+          const childEntries = await this.fetchSitemap(child);
+          if (childEntries) entries = entries.concat(childEntries.urls);
+          if (entries.length >= this.options.maxSitemapUrls) break;
+        }
+      }
+
+      return entries
+        .slice(0, this.options.maxSitemapUrls)
+        .filter((entry) => !entry.lastmod || entry.lastmod >= since)
+        .filter((entry) => isLikelyPostUrl(entry.loc, competitor, this.options))
+        .map((entry) => ({
+          url: entry.loc,
+          title: null,
+          publishedAt: entry.lastmod,
+          source: 'sitemap' as const,
+        }));
+    }
+
+    return [];
+  }
+
+  private async fetchSitemap(url: string): Promise<SitemapEntries | null> {
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(15000),
+      });
+
+      if (!response.ok) return null;
+
+      const xml = await response.text();
+      if (!/<(urlset|sitemapindex)[\s>]/.test(xml)) return null;
+
+      return parseSitemapXml(xml);
+    } catch (error) {
+      logger.debug(`Failed to fetch sitemap ${url}`, error);
+      return null;
+    }
+  }
+
+  private candidateUrls(competitor: Competitor, paths: string[]): string[] {
+    const origin = `https://${competitor.domain.replace(/^https?:\/\//, '').replace(/\/$/, '')}`;
+    return paths.map((path) => `${origin}${path}`);
+  }
+}
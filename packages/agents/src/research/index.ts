@@ -10,12 +10,29 @@ export {
   industryFeeds,
   monitoringKeywords,
   excludeKeywords,
+  competitorMonitoring,
 } from './sources';
 export type {
   Competitor,
+  CompetitorMonitoringOptions,
   RSSFeed,
   MonitoringConfig,
 } from './sources';
+export {
+  CompetitorMonitor,
+  parseSitemapXml,
+  normalizePostUrl,
+  isCompetitorUrl,
+  isLikelyPostUrl,
+  diffDiscoveredPosts,
+  findTopicOverlap,
+} from './competitor-monitor';
+export type {
+  DiscoveredPost,
+  SitemapEntries,
+  CalendarEntry,
+  TopicOverlap,
+} from './competitor-monitor';
 export type {
   NewsArticle,
   CompetitorUpdate,
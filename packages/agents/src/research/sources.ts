@@ -12,6 +12,17 @@ export interface Competitor {
   monitorSocial: boolean;
   linkedInUrl?: string;
   twitterHandle?: string;
+  // Blog discovery; common feed and sitemap locations are tried when unset
+  blogPath?: string;
+  feedUrl?: string;
+  sitemapUrl?: string;
+}
+
+export interface CompetitorMonitoringOptions {
+  maxNewPostsPerScan: number;   // Posts fetched and summarized per competitor per scan
+  maxSitemapUrls: number;       // URLs read from a competitor's sitemaps
+  sitemapLookbackDays: number;  // Sitemap entries with an older lastmod are ignored
+  postPathPatterns: RegExp[];   // Used when a competitor has no blogPath
 }
 
 export interface RSSFeed {
@@ -60,6 +71,7 @@ export const indirectCompetitors: Competitor[] = [
     monitorBlog: true,
     monitorSocial: true,
     twitterHandle: 'betterment',
+    blogPath: '/resources',
   },
   {
     name: 'Wealthfront',
@@ -68,6 +80,7 @@ export const indirectCompetitors: Competitor[] = [
     monitorBlog: true,
     monitorSocial: true,
     twitterHandle: 'wealthfront',
+    blogPath: '/blog',
   },
 ];
 
@@ -82,9 +95,23 @@ export const aspirationalCompetitors: Competitor[] = [
     monitorBlog: true,
     monitorSocial: true,
     twitterHandle: 'MichaelKitces',
+    feedUrl: 'https://www.kitces.com/feed/',
   },
 ];
 
+/**
+ * Competitor blog monitoring
+ */
+export const competitorMonitoring: CompetitorMonitoringOptions = {
+  maxNewPostsPerScan: 10,
+  maxSitemapUrls: 500,
+  sitemapLookbackDays: 30,
+  postPathPatterns: [
+    /^\/(blog|insights|articles|resources|learn|news|posts?)\/[^/]+/,
+    /^\/\d{4}\/\d{2}\/[^/]+/,
+  ],
+};
+
 /**
  * Industry RSS feeds
  */
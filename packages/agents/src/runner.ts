@@ -2,12 +2,13 @@
  * ArcVest Marketing Agents Runner
  *
  * Entry point for running all marketing agents.
- * Starts the agent system with scheduled jobs.
+ * Starts the agent system. Job timing comes from the schedule registry
+ * (see @arcvest/shared defaultSchedules); this process runs the queued
+ * agent_task jobs.
  */
 
 import { getSupabase } from '@arcvest/services';
 import { createLogger } from '@arcvest/shared';
-import { agentSchedulesConfig } from '@arcvest/shared';
 import { jobRunner } from './base/JobRunner';
 import { OrchestratorAgent } from './orchestrator/OrchestratorAgent';
 import { ContentAgent } from './content/ContentAgent';
@@ -95,13 +96,11 @@ function registerJobs(): void {
   // ===================
   jobRunner.registerJob(orchestrator, {
     name: 'orchestrator:process_tasks',
-    schedule: agentSchedulesConfig.orchestrator.checkTaskQueue,
     handler: async () => orchestrator.run(),
   });
 
   jobRunner.registerJob(orchestrator, {
     name: 'orchestrator:check_approvals',
-    schedule: agentSchedulesConfig.orchestrator.checkApprovals,
     handler: async () => {
       // Check approvals is handled as part of the orchestrator run
       await orchestrator.run();
@@ -114,15 +113,23 @@ function registerJobs(): void {
   if (contentAgent) {
     jobRunner.registerJob(contentAgent, {
       name: 'content:process_tasks',
-      schedule: agentSchedulesConfig.content.checkTasks || '*/15 * * * *',
       handler: async () => contentAgent.run(),
     });
 
     jobRunner.registerJob(contentAgent, {
       name: 'content:suggest_topics',
-      schedule: agentSchedulesConfig.content.suggestTopics || '0 9 * * 1', // Monday 9am
       handler: async () => contentAgent.suggestTopics(),
     });
+
+    jobRunner.registerJob(contentAgent, {
+      name: 'content:sync_wordpress',
+      handler: async () => contentAgent.syncWordPressEdits(),
+    });
+
+    jobRunner.registerJob(contentAgent, {
+      name: 'content:sync_performance',
+      handler: async () => contentAgent.syncContentPerformance(),
+    });
   }
 
   // ===================
@@ -131,7 +138,6 @@ function registerJobs(): void {
   if (creativeAgent) {
     jobRunner.registerJob(creativeAgent, {
       name: 'creative:process_tasks',
-      schedule: agentSchedulesConfig.creative?.checkTasks || '*/30 * * * *',
       handler: async () => creativeAgent.run(),
     });
   }
@@ -142,25 +148,21 @@ function registerJobs(): void {
   if (paidMediaAgent) {
     jobRunner.registerJob(paidMediaAgent, {
       name: 'paid_media:process_tasks',
-      schedule: agentSchedulesConfig.paidMedia.checkTasks || '*/15 * * * *',
       handler: async () => paidMediaAgent.run(),
     });
 
     jobRunner.registerJob(paidMediaAgent, {
       name: 'paid_media:sync_google_ads',
-      schedule: agentSchedulesConfig.paidMedia.syncGoogleAds || '0 */4 * * *', // Every 4 hours
       handler: async () => paidMediaAgent.syncFromGoogleAds(),
     });
 
     jobRunner.registerJob(paidMediaAgent, {
       name: 'paid_media:check_budget',
-      schedule: agentSchedulesConfig.paidMedia.checkBudget || '0 8,12,17 * * *', // 8am, 12pm, 5pm
       handler: async () => paidMediaAgent.checkBudgetPacing(),
     });
 
     jobRunner.registerJob(paidMediaAgent, {
       name: 'paid_media:optimize_bids',
-      schedule: agentSchedulesConfig.paidMedia.optimizeBids || '0 6 * * *', // 6am daily
       handler: async () => paidMediaAgent.optimizeBids({ dryRun: false }),
     });
   }
@@ -171,19 +173,16 @@ function registerJobs(): void {
   if (seoAgent) {
     jobRunner.registerJob(seoAgent, {
       name: 'seo:process_tasks',
-      schedule: agentSchedulesConfig.seo.checkTasks || '*/30 * * * *',
       handler: async () => seoAgent.run(),
     });
 
     jobRunner.registerJob(seoAgent, {
       name: 'seo:check_rankings',
-      schedule: agentSchedulesConfig.seo.checkRankings || '0 5 * * *', // 5am daily
       handler: async () => seoAgent.checkRankings(),
     });
 
     jobRunner.registerJob(seoAgent, {
       name: 'seo:weekly_report',
-      schedule: agentSchedulesConfig.seo.weeklyReport || '0 9 * * 1', // Monday 9am
       handler: async () => seoAgent.generateWeeklyReport(),
     });
   }
@@ -194,31 +193,26 @@ function registerJobs(): void {
   if (analyticsAgent) {
     jobRunner.registerJob(analyticsAgent, {
       name: 'analytics:process_tasks',
-      schedule: agentSchedulesConfig.analytics?.checkTasks || '*/30 * * * *',
       handler: async () => analyticsAgent.run(),
     });
 
     jobRunner.registerJob(analyticsAgent, {
       name: 'analytics:sync_ga4',
-      schedule: agentSchedulesConfig.analytics?.syncGA4 || '0 2 * * *', // 2am daily
       handler: async () => analyticsAgent.syncGoogleAnalytics(),
     });
 
     jobRunner.registerJob(analyticsAgent, {
       name: 'analytics:daily_digest',
-      schedule: agentSchedulesConfig.analytics?.dailyDigest || '0 7 * * *', // 7am daily
       handler: async () => analyticsAgent.generateDailyDigest(),
     });
 
     jobRunner.registerJob(analyticsAgent, {
       name: 'analytics:weekly_report',
-      schedule: agentSchedulesConfig.analytics?.weeklyReport || '0 8 * * 1', // Monday 8am
       handler: async () => analyticsAgent.generateWeeklyReport(),
     });
 
     jobRunner.registerJob(analyticsAgent, {
       name: 'analytics:check_kpis',
-      schedule: agentSchedulesConfig.analytics?.checkKPIs || '0 9,15 * * *', // 9am, 3pm
       handler: async () => analyticsAgent.checkKPIs(),
     });
   }
@@ -229,25 +223,26 @@ function registerJobs(): void {
   if (researchAgent) {
     jobRunner.registerJob(researchAgent, {
       name: 'research:process_tasks',
-      schedule: agentSchedulesConfig.research?.checkTasks || '*/30 * * * *',
       handler: async () => researchAgent.run(),
     });
 
     jobRunner.registerJob(researchAgent, {
       name: 'research:scan_sources',
-      schedule: agentSchedulesConfig.research?.scanSources || '0 6 * * *', // 6am daily
       handler: async () => researchAgent.scanIndustrySources(),
     });
 
+    jobRunner.registerJob(researchAgent, {
+      name: 'research:scan_competitors',
+      handler: async () => researchAgent.scanCompetitors(),
+    });
+
     jobRunner.registerJob(researchAgent, {
       name: 'research:weekly_roundup',
-      schedule: agentSchedulesConfig.research?.weeklyRoundup || '0 10 * * 5', // Friday 10am
       handler: async () => researchAgent.generateWeeklyRoundup(),
     });
 
     jobRunner.registerJob(researchAgent, {
       name: 'research:check_regulatory',
-      schedule: agentSchedulesConfig.research?.checkRegulatory || '0 8 * * *', // 8am daily
       handler: async () => researchAgent.checkRegulatoryUpdates(),
     });
   }
@@ -258,7 +253,6 @@ function registerJobs(): void {
   // Note: Gmail jobs don't require an agent instance, they use the GmailService directly
   jobRunner.registerJob(orchestrator, {
     name: 'gmail:sync_inbox',
-    schedule: agentSchedulesConfig.gmail?.syncInbox || '*/5 * * * *', // Every 5 minutes
     handler: async () => {
       const status = await checkGmailConnection();
       if (status.connected) {
@@ -9,6 +9,12 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from '../base/BaseAgent';
 import { ClaudeClient } from '../content/claude-client';
 import type { AgentTask } from '@arcvest/shared';
+import {
+  RankTrackingService,
+  type CannibalizationIssue,
+  type RankCheckResult,
+  type RankingTrend,
+} from '@arcvest/services';
 
 export interface KeywordRanking {
   keyword: string;
@@ -27,6 +33,7 @@ export interface ContentOpportunity {
 
 export class SEOAgent extends BaseAgent {
   private claude: ClaudeClient;
+  private rankTracking: RankTrackingService;
 
   constructor(supabase?: SupabaseClient) {
     super({
@@ -36,7 +43,8 @@ export class SEOAgent extends BaseAgent {
       supabase,
     });
 
-    this.claude = new ClaudeClient();
+    this.claude = new ClaudeClient('seo_agent');
+    this.rankTracking = new RankTrackingService(this.supabase);
   }
 
   /**
@@ -87,69 +95,15 @@ export class SEOAgent extends BaseAgent {
   }
 
   /**
-   * Check rankings for all tracked keywords.
+   * Check rankings for all tracked keywords (Search Console positions).
    */
-  async checkRankings(): Promise<{ updated: number; changes: number }> {
+  async checkRankings(): Promise<RankCheckResult> {
     this.logger.info('Checking keyword rankings');
 
-    // Get tracked keywords
-    const { data: keywords, error } = await this.supabase
-      .from('tracked_keywords')
-      .select('*')
-      .order('priority', { ascending: true });
-
-    if (error) {
-      throw new Error(`Failed to get keywords: ${error.message}`);
-    }
-
-    let updated = 0;
-    let changes = 0;
-    const today = new Date().toISOString().split('T')[0];
-
-    for (const keyword of keywords || []) {
-      try {
-        // Simulate rank check (in production, use real API like SERPapi)
-        const ranking = await this.simulateRankCheck(keyword.keyword, keyword.target_url);
-
-        // Update keyword
-        const previousRank = keyword.current_rank;
-        await this.supabase
-          .from('tracked_keywords')
-          .update({
-            previous_rank: previousRank,
-            current_rank: ranking.position,
-            url_ranking: ranking.url,
-            last_checked: new Date().toISOString(),
-          })
-          .eq('id', keyword.id);
-
-        // Record history
-        await this.supabase.from('keyword_history').upsert({
-          keyword_id: keyword.id,
-          date: today,
-          rank: ranking.position,
-          url: ranking.url,
-        });
+    const result = await this.rankTracking.checkRankings();
 
-        updated++;
-        if (ranking.position !== previousRank) {
-          changes++;
-
-          // Log significant changes
-          if (previousRank && ranking.position) {
-            const change = previousRank - ranking.position;
-            if (Math.abs(change) >= 5) {
-              this.logger.info(`Significant rank change for "${keyword.keyword}": ${previousRank} -> ${ranking.position}`);
-            }
-          }
-        }
-      } catch (error) {
-        this.logger.error(`Failed to check ranking for "${keyword.keyword}"`, error);
-      }
-    }
-
-    this.logger.info(`Rankings updated: ${updated}, changes: ${changes}`);
-    return { updated, changes };
+    this.logger.info(`Rankings updated: ${result.updated}, changes: ${result.changes}, alerts: ${result.alerts}`);
+    return result;
   }
 
   /**
@@ -404,57 +358,11 @@ Provide actionable insights for creating better content.`;
     };
   }
 
-  /**
-   * Simulate a rank check (replace with real API in production).
-   */
-  private async simulateRankCheck(
-    keyword: string,
-    targetUrl: string | null
-  ): Promise<{ position: number | null; url: string | null }> {
-    // In production, use SERPapi, Google Search Console API, or similar
-    // This is a placeholder that returns random-ish data
-
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 100));
-
-    // Return simulated data based on keyword
-    const basePosition = keyword.length % 30 + 1;
-    const variance = Math.floor(Math.random() * 5) - 2;
-    const position = Math.max(1, Math.min(100, basePosition + variance));
-
-    return {
-      position: position <= 50 ? position : null,
-      url: position <= 50 ? targetUrl : null,
-    };
-  }
-
   /**
    * Get ranking trends for a keyword.
    */
-  async getRankingTrends(keywordId: string, days: number = 30): Promise<{
-    keyword: string;
-    history: { date: string; rank: number | null }[];
-  }> {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    const { data: keyword } = await this.supabase
-      .from('tracked_keywords')
-      .select('keyword')
-      .eq('id', keywordId)
-      .single();
-
-    const { data: history } = await this.supabase
-      .from('keyword_history')
-      .select('date, rank')
-      .eq('keyword_id', keywordId)
-      .gte('date', startDate.toISOString().split('T')[0])
-      .order('date', { ascending: true });
-
-    return {
-      keyword: keyword?.keyword || '',
-      history: history || [],
-    };
+  async getRankingTrends(keywordId: string, days: number = 30): Promise<RankingTrend> {
+    return this.rankTracking.getRankingTrends(keywordId, days);
   }
 
   /**
@@ -495,6 +403,7 @@ Provide actionable insights for creating better content.`;
     topGainers: { keyword: string; change: number }[];
     topLosers: { keyword: string; change: number }[];
     opportunities: ContentOpportunity[];
+    cannibalization: CannibalizationIssue[];
   }> {
     // Get keywords with changes
     const { data: keywords } = await this.supabase
@@ -517,11 +426,15 @@ Provide actionable insights for creating better content.`;
     // Get opportunities
     const { opportunities } = await this.identifyContentOpportunities();
 
+    // Queries where our own pages compete with each other
+    const cannibalization = await this.rankTracking.getCannibalization();
+
     const summary = `
 Weekly SEO Report:
 - ${topGainers.length} keywords improved
 - ${topLosers.length} keywords declined
 - ${opportunities.length} content opportunities identified
+- ${cannibalization.length} keywords with competing pages
     `.trim();
 
     return {
@@ -529,6 +442,7 @@ Weekly SEO Report:
       topGainers,
       topLosers,
       opportunities: opportunities.slice(0, 5),
+      cannibalization: cannibalization.slice(0, 5),
     };
   }
 }
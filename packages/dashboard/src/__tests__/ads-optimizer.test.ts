@@ -0,0 +1,175 @@
+/**
+ * Dashboard Tests
+ *
+ * Tests for dashboard logic that doesn't require external connections.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AdsOptimizer } from '../lib/google/ads-optimizer';
+
+type Rule = Parameters<AdsOptimizer['planChange']>[0];
+type Metrics = Parameters<AdsOptimizer['planChange']>[1];
+
+describe('Ads Optimizer', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://example.supabase.co');
+    vi.stubEnv('SUPABASE_SERVICE_KEY', 'test-key');
+    vi.stubEnv('GOOGLE_ADS_CUSTOMER_ID', '123-456-7890');
+    vi.stubEnv('GOOGLE_ADS_DEVELOPER_TOKEN', 'test-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createOptimizer = async () => {
+    const { AdsOptimizer } = await import('../lib/google/ads-optimizer');
+    return new AdsOptimizer();
+  };
+
+  const rule = (fields: Partial<Rule>): Rule => ({
+    id: 'rule_1',
+    name: 'Test rule',
+    description: '',
+    entity_type: 'keyword',
+    metric: 'cpa',
+    operator: 'greater_than',
+    threshold_value: 100,
+    threshold_min: null,
+    threshold_max: null,
+    minimum_data: {},
+    action: 'bid_decrease',
+    action_value: 15,
+    max_change_per_day: 30,
+    cooldown_hours: 24,
+    priority: 1,
+    ...fields,
+  });
+
+  const keyword: Metrics = {
+    entityType: 'keyword',
+    id: '111~222',
+    resourceName: 'customers/1234567890/adGroupCriteria/111~222',
+    name: 'retirement planning',
+    matchType: 'PHRASE',
+    status: 'ENABLED',
+    campaignId: '999',
+    adGroupId: '111',
+    cpcBidMicros: 2_000_000,
+    hasOwnCpcBid: true,
+    impressions: 1000,
+    clicks: 50,
+    cost: 400,
+    conversions: 2,
+    ctr: 0.05,
+    avgCpc: 8,
+    cpa: 200,
+  };
+
+  it('should clamp a bid change to what is left of the daily limit', async () => {
+    const optimizer = await createOptimizer();
+
+    const clamped = optimizer.planChange(rule({ action_value: 15 }), keyword, 10);
+    expect(clamped.changePercentage).toBe(-10);
+    expect(clamped.next?.cpcBidMicros).toBe(1_800_000);
+    expect(clamped).toMatchObject({ oldValue: '$2.00', newValue: '$1.80' });
+
+    expect(optimizer.planChange(rule({}), keyword, 0).skipReason).toBe('No bid change left for today');
+    expect(optimizer.planChange(rule({ action: 'bid_increase' }), keyword, null).changePercentage).toBe(15);
+  });
+
+  it('should round bids to whole cents and skip changes that round away', async () => {
+    const optimizer = await createOptimizer();
+
+    const rounded = optimizer.planChange(rule({ action: 'bid_increase', action_value: 7 }), { ...keyword, cpcBidMicros: 1_230_000 }, null);
+    expect(rounded.next?.cpcBidMicros).toBe(1_320_000); // $1.3161 → $1.32
+
+    const tiny = optimizer.planChange(rule({ action_value: 1 }), { ...keyword, cpcBidMicros: 400_000 }, null);
+    expect(tiny.skipReason).toBe('Bid change rounds to zero');
+
+    // Never below one cent
+    const floor = optimizer.planChange(rule({ action_value: 90 }), { ...keyword, cpcBidMicros: 20_000 }, null);
+    expect(floor.next?.cpcBidMicros).toBe(10_000);
+  });
+
+  it('should leave campaign bids and already-applied statuses alone', async () => {
+    const optimizer = await createOptimizer();
+    const campaign: Metrics = { ...keyword, entityType: 'campaign', id: '999', adGroupId: '', cpcBidMicros: null };
+
+    expect(optimizer.planChange(rule({ entity_type: 'campaign' }), campaign, null)).toMatchObject({
+      next: null,
+      skipReason: 'Campaign bids are set by the bidding strategy',
+    });
+    expect(optimizer.planChange(rule({ action: 'pause' }), { ...keyword, status: 'PAUSED' }, null).skipReason).toBe('Already paused');
+
+    const pause = optimizer.planChange(rule({ action: 'pause' }), keyword, null);
+    expect(pause).toMatchObject({ oldValue: 'ENABLED', newValue: 'PAUSED', next: { status: 'PAUSED', cpcBidMicros: 2_000_000 } });
+  });
+
+  it('should mark a bid change as giving the keyword its own bid', async () => {
+    const optimizer = await createOptimizer();
+
+    const plan = optimizer.planChange(rule({}), { ...keyword, hasOwnCpcBid: false }, null);
+    expect(plan.next).toMatchObject({ cpcBidMicros: 1_700_000, hasOwnCpcBid: true });
+  });
+
+  // optimization_log holding one entry; later changes to the same entity are counted
+  const logEntry = (previousState: Record<string, unknown>) => ({
+    id: 'log_1',
+    status: 'applied',
+    entity_type: 'keyword',
+    entity_name: 'retirement planning',
+    resource_name: keyword.resourceName,
+    action: 'bid_decrease',
+    previous_state: previousState,
+    created_at: '2026-03-01T12:00:00Z',
+  });
+
+  const logSupabase = (entry: ReturnType<typeof logEntry>, later: { count: number }) => {
+    const updates: Record<string, unknown>[] = [];
+    return {
+      from: () => {
+        const q: Record<string, unknown> = {};
+        for (const method of ['select', 'eq', 'neq', 'gt']) q[method] = () => q;
+        q['update'] = (values: Record<string, unknown>) => (updates.push(values), q);
+        q['single'] = async () => ({ data: updates.length > 0 ? { ...entry, ...updates[0] } : entry, error: null });
+        q['then'] = (resolve: (value: unknown) => unknown) => resolve({ count: later.count, error: null });
+        return q;
+      },
+    };
+  };
+
+  it('should only revert the latest change to an entity', async () => {
+    const optimizer = await createOptimizer();
+    const later = { count: 1 };
+    const supabase = logSupabase(logEntry({ status: 'ENABLED', cpcBidMicros: 2_000_000, hasOwnCpcBid: true }), later);
+    const googleAds = { setKeywordCpcBid: vi.fn(async () => undefined) };
+    Object.assign(optimizer, { supabase, googleAds });
+
+    await expect(optimizer.revertOptimization('log_1')).rejects.toMatchObject({
+      name: 'RevertRejectedError',
+      reason: 'invalid',
+      message: 'A later change to this entity must be reverted first',
+    });
+    expect(googleAds.setKeywordCpcBid).not.toHaveBeenCalled();
+
+    later.count = 0;
+    const reverted = await optimizer.revertOptimization('log_1', 'advisor_1');
+    expect(googleAds.setKeywordCpcBid).toHaveBeenCalledWith(keyword.resourceName, 2_000_000);
+    expect(reverted).toMatchObject({ status: 'reverted', reverted_by: 'advisor_1' });
+  });
+
+  it('should hand an inherited bid back to the ad group on revert', async () => {
+    const optimizer = await createOptimizer();
+    const supabase = logSupabase(logEntry({ status: 'ENABLED', cpcBidMicros: 2_000_000, hasOwnCpcBid: false }), { count: 0 });
+    const googleAds = {
+      setKeywordCpcBid: vi.fn(async () => undefined),
+      clearKeywordCpcBid: vi.fn(async () => undefined),
+    };
+    Object.assign(optimizer, { supabase, googleAds });
+
+    await optimizer.revertOptimization('log_1');
+    expect(googleAds.clearKeywordCpcBid).toHaveBeenCalledWith(keyword.resourceName);
+    expect(googleAds.setKeywordCpcBid).not.toHaveBeenCalled();
+  });
+});
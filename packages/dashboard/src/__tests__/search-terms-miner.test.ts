@@ -0,0 +1,77 @@
+/**
+ * Search Terms Miner Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('Search Terms Miner', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://example.supabase.co');
+    vi.stubEnv('SUPABASE_SERVICE_KEY', 'test-key');
+    vi.stubEnv('GOOGLE_ADS_CUSTOMER_ID', '123-456-7890');
+    vi.stubEnv('GOOGLE_ADS_DEVELOPER_TOKEN', 'test-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const reportRow = (searchTerm: string) => ({
+    searchTerm,
+    status: 'NONE',
+    campaignId: '999',
+    campaignName: 'Retirement',
+    impressions: 200,
+    clicks: 12,
+    cost: 30,
+    conversions: 0,
+  });
+
+  it('should propose a negative again after it failed to apply', async () => {
+    const { SearchTermsMiner } = await import('../lib/google/search-terms-miner');
+    const miner = new SearchTermsMiner();
+
+    const existing = [
+      { id: 'neg_failed', negative_text: 'robinhood', match_type: 'PHRASE', level: 'shared_list', google_ads_campaign_id: null, status: 'failed' },
+      { id: 'neg_applied', negative_text: 'forex', match_type: 'PHRASE', level: 'shared_list', google_ads_campaign_id: null, status: 'applied' },
+    ];
+    const writes: Array<{ table: string; op: string; values?: unknown; in?: unknown[] }> = [];
+    const supabase = {
+      from: (table: string) => {
+        const write: { table: string; op: string; values?: unknown; in?: unknown[] } = { table, op: 'select' };
+        const q: Record<string, unknown> = {};
+        q['select'] = () => q;
+        q['eq'] = () => q;
+        q['in'] = (_column: string, values: unknown[]) => ((write.in = values), q);
+        for (const op of ['insert', 'update', 'delete']) {
+          q[op] = (values?: unknown) => (Object.assign(write, { op, values }), writes.push(write), q);
+        }
+        q['single'] = async () => ({ data: { id: 'approval_1' }, error: null });
+        q['then'] = (resolve: (value: unknown) => unknown) => {
+          if (write.op === 'insert') {
+            const rows = write.values as Record<string, unknown>[];
+            return resolve({ data: rows.map((row, i) => ({ id: `neg_new_${i}`, ...row })), error: null });
+          }
+          return resolve({ data: write.op === 'select' ? existing : null, error: null });
+        };
+        return q;
+      },
+    };
+    const googleAds = {
+      getSearchTermReport: vi.fn(async () => [reportRow('robinhood login'), reportRow('forex signals')]),
+    };
+    Object.assign(miner, { supabase, googleAds });
+
+    const result = await miner.mine();
+
+    expect(result.proposals.map((p) => p.negativeText)).toEqual(['robinhood']);
+    expect(result.approvalId).toBe('approval_1');
+
+    const deleted = writes.find((w) => w.table === 'search_term_negatives' && w.op === 'delete');
+    expect(deleted?.in).toEqual(['neg_failed']);
+
+    const inserted = writes.find((w) => w.table === 'search_term_negatives' && w.op === 'insert');
+    expect(inserted?.values).toEqual([expect.objectContaining({ negative_text: 'robinhood', level: 'shared_list' })]);
+    expect(writes.indexOf(deleted!)).toBeLessThan(writes.indexOf(inserted!));
+  });
+});
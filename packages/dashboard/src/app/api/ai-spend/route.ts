@@ -0,0 +1,26 @@
+/**
+ * AI Spend API
+ *
+ * GET /api/ai-spend?days=30 - LLM gateway spend per pipeline per day
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLlmGateway, summarizeLlmSpend } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const days = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('days') || '30', 10) || 30, 1), 365);
+    const rows = await getLlmGateway().getDailySpend(days);
+
+    return NextResponse.json({ data: summarizeLlmSpend(rows) });
+  } catch (error) {
+    console.error('Error in GET /api/ai-spend:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load AI spend' },
+      { status: 500 }
+    );
+  }
+}
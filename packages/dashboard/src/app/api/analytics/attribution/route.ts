@@ -0,0 +1,51 @@
+/**
+ * Attribution API
+ *
+ * GET /api/analytics/attribution - Leads, clients, CPA and cost per client
+ * by channel and campaign
+ *   ?model=  first_touch | last_touch | linear (default last_touch)
+ *   ?days=   lookback window for contact creation (default 90)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ContactService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MODELS = ['first_touch', 'last_touch', 'linear'] as const;
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const searchParams = request.nextUrl.searchParams;
+
+    const modelParam = searchParams.get('model') || 'last_touch';
+    const model = MODELS.find((m) => m === modelParam);
+    if (!model) {
+      return NextResponse.json(
+        { error: `Invalid model. Use one of: ${MODELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const days = parseInt(searchParams.get('days') || '90');
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const contacts = new ContactService(supabase);
+    const performance = await contacts.getSourcePerformance({
+      model,
+      startDate: startDate.toISOString().split('T')[0],
+    });
+
+    return NextResponse.json({ model, days, performance });
+  } catch (error) {
+    console.error('[Attribution] Report error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build attribution report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import {
+  getMetaCampaignBuilder,
+  getRegulatoryMonitorService,
+  getWorkflowEngine,
+  StaleRuleChangeError,
+} from '@arcvest/services';
+import { getSearchTermsMiner } from '@/lib/google/search-terms-miner';
 
 // PUT /api/approvals/[id] - Update approval (approve/reject)
 export async function PUT(
@@ -50,6 +57,90 @@ export async function PUT(
       details: { type: data.type, feedback },
     });
 
+    // Continue the workflow waiting on this approval gate
+    if (data.workflow_id) {
+      try {
+        await getWorkflowEngine().advance(data.workflow_id);
+      } catch (workflowError) {
+        console.error('Error advancing workflow:', workflowError);
+      }
+    }
+
+    // Activate (or discard) the draft rule set behind a regulatory change
+    if (data.type === 'compliance_rule_change' && action !== 'request_revision' && data.content?.updateId) {
+      try {
+        await getRegulatoryMonitorService().resolveRuleChange(
+          data.content.updateId,
+          action === 'approve',
+          updateData.reviewed_by as string
+        );
+      } catch (ruleError) {
+        console.error('Error resolving compliance rule change:', ruleError);
+        const message = ruleError instanceof Error ? ruleError.message : 'Failed to resolve compliance rule change';
+
+        // A stale draft goes back for a re-draft; anything else can be approved again
+        const stale = ruleError instanceof StaleRuleChangeError;
+        await supabase
+          .from('approval_queue')
+          .update(
+            stale
+              ? { status: 'revision_requested', feedback: message }
+              : { status: 'pending', reviewed_at: null, reviewed_by: null }
+          )
+          .eq('id', id);
+
+        return NextResponse.json({ error: message }, { status: stale ? 409 : 500 });
+      }
+    }
+
+    // Add (or drop) the negative keywords mined from search terms
+    if (data.type === 'negative_keywords' && action !== 'request_revision') {
+      try {
+        await getSearchTermsMiner().resolveApproval(
+          id,
+          action === 'approve',
+          updateData.reviewed_by as string
+        );
+      } catch (negativeError) {
+        console.error('Error resolving negative keywords:', negativeError);
+
+        // Only proposals still marked proposed are resolved, so approving again is safe
+        await supabase
+          .from('approval_queue')
+          .update({ status: 'pending', reviewed_at: null, reviewed_by: null })
+          .eq('id', id);
+
+        return NextResponse.json(
+          { error: negativeError instanceof Error ? negativeError.message : 'Failed to resolve negative keywords' },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Launch (or delete) a campaign built with the Meta campaign builder
+    if (data.type === 'campaign_new' && data.content?.builder === 'meta' && action !== 'request_revision') {
+      try {
+        await getMetaCampaignBuilder().resolveApproval(
+          data.content.campaignId,
+          action === 'approve',
+          updateData.reviewed_by as string
+        );
+      } catch (metaError) {
+        console.error('Error resolving Meta campaign draft:', metaError);
+
+        // The draft is untouched, so reopen the approval to let the reviewer retry
+        await supabase
+          .from('approval_queue')
+          .update({ status: 'pending', reviewed_at: null, reviewed_by: null })
+          .eq('id', id);
+
+        return NextResponse.json(
+          { error: metaError instanceof Error ? metaError.message : 'Failed to resolve Meta campaign draft' },
+          { status: 500 }
+        );
+      }
+    }
+
     return NextResponse.json({ data });
   } catch (error) {
     console.error('Error in PUT /api/approvals/[id]:', error);
@@ -0,0 +1,44 @@
+/**
+ * Optimization Revert API
+ *
+ * POST: Restore the status or bid an applied optimization changed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdsOptimizer, RevertRejectedError } from '@/lib/google/ads-optimizer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/campaigns/optimize/[id]/revert
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const entry = await getAdsOptimizer().revertOptimization(id, body.reverted_by);
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    const status = error instanceof RevertRejectedError
+      ? (error.reason === 'not_found' ? 404 : 400)
+      : 500;
+    if (status === 500) {
+      console.error('[Campaign Optimize] Revert error:', error);
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Revert failed',
+      },
+      { status }
+    );
+  }
+}
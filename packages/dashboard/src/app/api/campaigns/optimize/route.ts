@@ -1,8 +1,9 @@
 /**
  * Campaign Optimization API
  *
- * POST: Run optimization rules
+ * POST: Run optimization rules ({ dryRun: true } previews without changing anything)
  * GET: Get optimization history
+ * POST /[id]/revert: Revert an applied optimization
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -18,13 +19,18 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    console.log('[Campaign Optimize] Starting optimization run...');
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+
+    console.log(`[Campaign Optimize] Starting optimization run${dryRun ? ' (dry run)' : ''}...`);
 
     const optimizer = getAdsOptimizer();
-    const result = await optimizer.runOptimizations();
+    const result = await optimizer.runOptimizations({ dryRun });
 
     // Also check budget pacing
-    await optimizer.checkBudgetPacing();
+    if (!dryRun) {
+      await optimizer.checkBudgetPacing();
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,59 @@
+/**
+ * Search Terms API
+ *
+ * GET: Pending negative keyword proposals and savings from applied ones
+ * POST: Mine the search terms report now (proposals go to the approval queue)
+ */
+
+import { NextResponse } from 'next/server';
+import { getSearchTermsMiner } from '@/lib/google/search-terms-miner';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/campaigns/search-terms
+ */
+export async function GET() {
+  try {
+    const overview = await getSearchTermsMiner().getOverview();
+
+    return NextResponse.json({ success: true, ...overview });
+  } catch (error) {
+    console.error('[Search Terms] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load search term negatives',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/campaigns/search-terms
+ */
+export async function POST() {
+  try {
+    console.log('[Search Terms] Starting search term mining...');
+
+    const result = await getSearchTermsMiner().mine();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Search Terms] Error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Search term mining failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Compliance Archive Record API
+ *
+ * GET /api/compliance-archive/:id - Get an archived release with hash verification
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ComplianceArchiveService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const archive = new ComplianceArchiveService(supabase);
+
+    const record = await archive.getById(id);
+    if (!record) {
+      return NextResponse.json({ error: 'Archive record not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      record,
+      hashVerified: archive.verify(record),
+    });
+  } catch (error) {
+    console.error('[Compliance Archive] Fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load archive record' },
+      { status: 500 }
+    );
+  }
+}
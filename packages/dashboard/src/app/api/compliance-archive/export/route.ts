@@ -0,0 +1,96 @@
+/**
+ * Compliance Archive Export API
+ *
+ * GET /api/compliance-archive/export?format=zip|json - Export archived releases
+ * for a regulator request. Accepts the same filters as the search API
+ * (or ?ids= for specific records). Each record's hash is re-verified.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import JSZip from 'jszip';
+import { createClient } from '@/lib/supabase/server';
+import { ComplianceArchiveService } from '@arcvest/services';
+import { parseArchiveSearchParams, type ArchiveRecord } from '@/lib/compliance-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+const PAGE_SIZE = 500;
+const MAX_RECORDS = 10000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get('format') || 'zip';
+    if (!['zip', 'json'].includes(format)) {
+      return NextResponse.json({ error: 'Invalid format' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const archive = new ComplianceArchiveService(supabase);
+    const filters = parseArchiveSearchParams(request.nextUrl.searchParams);
+
+    // Page through every matching record
+    const records: ArchiveRecord[] = [];
+    for (let offset = 0; offset < MAX_RECORDS; offset += PAGE_SIZE) {
+      const page = await archive.search({ ...filters, limit: PAGE_SIZE, offset });
+      records.push(...(page.records as ArchiveRecord[]));
+      if (page.records.length < PAGE_SIZE) break;
+    }
+
+    const generatedAt = new Date().toISOString();
+    const manifest = {
+      generated_at: generatedAt,
+      filters: { ...filters, limit: undefined, offset: undefined },
+      record_count: records.length,
+      truncated: records.length >= MAX_RECORDS,
+      hash_algorithm: 'sha256 (canonical JSON of content)',
+      records: records.map((r) => ({
+        id: r.id,
+        channel: r.channel,
+        title: r.title,
+        published_at: r.published_at,
+        approved_by: r.approved_by,
+        compliance_passed: r.compliance_passed,
+        content_hash: r.content_hash,
+        hash_verified: archive.verify(r),
+      })),
+    };
+
+    const stamp = generatedAt.slice(0, 10);
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify({ manifest, records }, null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="compliance-archive-${stamp}.json"`,
+        },
+      });
+    }
+
+    const zip = new JSZip();
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    for (const record of records) {
+      const base = `records/${record.published_at.slice(0, 10)}_${record.channel}_${record.id}`;
+      zip.file(`${base}.json`, JSON.stringify(record, null, 2));
+      zip.file(`${base}.txt`, record.content_text);
+    }
+
+    const buffer = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+
+    return new NextResponse(buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="compliance-archive-${stamp}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Compliance Archive] Export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export archive' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Compliance Archive API
+ *
+ * GET /api/compliance-archive - Search archived releases
+ *   ?q=        full-text search over title and content
+ *   ?channel=  wordpress | google_ads | meta_ads | gmail
+ *   ?from=&to= published_at range (ISO dates)
+ *   ?passed=   true | false (compliance result at release)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ComplianceArchiveService } from '@arcvest/services';
+import { parseArchiveSearchParams } from '@/lib/compliance-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const archive = new ComplianceArchiveService(supabase);
+    const params = parseArchiveSearchParams(request.nextUrl.searchParams);
+
+    const { records, total } = await archive.search(params);
+
+    return NextResponse.json({
+      records,
+      total,
+      limit: params.limit,
+      offset: params.offset,
+    });
+  } catch (error) {
+    console.error('[Compliance Archive] Search error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to search archive' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+
+// GET /api/contacts/[id]/conversions - Get offline conversion uploads for a contact
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('offline_conversions')
+      .select('id, platform, stage, event_name, event_time, value, currency, gclid, gbraid, wbraid, fbclid, status, skip_reason, attempts, last_error, uploaded_at, created_at')
+      .eq('contact_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching offline conversions:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error in GET /api/contacts/[id]/conversions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getOfflineConversionService } from '@arcvest/services';
 
 // GET /api/contacts/[id] - Get a single contact
 export async function GET(
@@ -83,6 +84,15 @@ export async function PUT(
       details: { fields_updated: Object.keys(body), status_changed: statusChanged },
     });
 
+    // Report consultations and new clients back to Google Ads and Meta
+    if (statusChanged) {
+      try {
+        await getOfflineConversionService().queueForStatusChange(id, body.status);
+      } catch (conversionError) {
+        console.error('Error queueing offline conversions:', conversionError);
+      }
+    }
+
     return NextResponse.json({ data });
   } catch (error) {
     console.error('Error in PUT /api/contacts/[id]:', error);
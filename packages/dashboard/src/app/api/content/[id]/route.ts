@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getPublishSchedulerService } from '@arcvest/services';
 
 // GET /api/content/[id] - Get single content item
 export async function GET(
@@ -45,7 +46,8 @@ export async function PUT(
     const allowedFields = [
       'title', 'content_type', 'status', 'scheduled_date',
       'topic', 'target_keyword', 'outline', 'draft', 'final_content',
-      'keywords', 'meta_description', 'published_url', 'published_at'
+      'keywords', 'meta_description', 'published_url', 'published_at',
+      'content_mix_category'
     ];
 
     for (const field of allowedFields) {
@@ -66,6 +68,15 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update content' }, { status: 500 });
     }
 
+    // Push edits to the scheduled WordPress post
+    if (data.status === 'scheduled' && data.wordpress_status === 'future') {
+      try {
+        await getPublishSchedulerService().syncEntry(data);
+      } catch (syncError) {
+        console.error('Error syncing scheduled post:', syncError);
+      }
+    }
+
     return NextResponse.json({ content: data });
   } catch (error) {
     console.error('Error in PUT /api/content/[id]:', error);
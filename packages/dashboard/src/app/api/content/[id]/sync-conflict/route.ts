@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContentSyncService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST /api/content/[id]/sync-conflict - Resolve a WordPress edit conflict { keep: 'local' | 'wordpress' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!['local', 'wordpress'].includes(body.keep)) {
+      return NextResponse.json({ error: "keep must be 'local' or 'wordpress'" }, { status: 400 });
+    }
+
+    await getContentSyncService().resolveConflict(id, body.keep);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in POST /api/content/[id]/sync-conflict:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { getLlmGateway } from '@arcvest/services';
 
 const COMPLIANCE_SYSTEM_PROMPT = `You are a content writer for ArcVest, a fee-only fiduciary registered investment adviser (RIA).
 
@@ -26,20 +26,12 @@ TARGET AUDIENCE:
 - High-net-worth individuals needing comprehensive planning
 - People seeking objective, unbiased financial advice`;
 
-// POST /api/content/generate - Generate content using Claude AI
+// POST /api/content/generate - Generate content through the LLM gateway (task 'content.assist')
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'ANTHROPIC_API_KEY not configured. Add it to your Vercel environment variables.' },
-        { status: 500 }
-      );
-    }
-
     const body = await request.json();
     const { type, topic, targetKeyword, outline, keyPoints, tone } = body;
 
@@ -47,7 +39,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Generation type is required' }, { status: 400 });
     }
 
-    const client = new Anthropic({ apiKey });
+    const llm = getLlmGateway();
     let prompt = '';
     let maxTokens = 4096;
 
@@ -161,14 +153,11 @@ Write the complete newsletter in markdown format with clear section headings.`;
         if (!body.content) {
           return NextResponse.json({ error: 'Content is required for compliance check' }, { status: 400 });
         }
-        const checkResponse = await client.messages.create({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 1024,
+        const checkResponse = await llm.complete('content.assist', {
+          maxTokens: 1024,
           temperature: 0.3,
           system: 'You are a compliance reviewer specializing in SEC Marketing Rule and FINRA regulations for investment advisers.',
-          messages: [{
-            role: 'user',
-            content: `Review the following financial services marketing content for SEC Marketing Rule compliance issues:
+          prompt: `Review the following financial services marketing content for SEC Marketing Rule compliance issues:
 
 ${body.content}
 
@@ -190,25 +179,21 @@ Respond in JSON format:
 }
 
 If the content passes compliance review, issues and suggestions can be empty arrays.`
-          }]
-        });
-
-        const checkText = checkResponse.content.find(c => c.type === 'text');
-        if (checkText && checkText.type === 'text') {
-          try {
-            const jsonMatch = checkText.text.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              return NextResponse.json({
-                compliance: JSON.parse(jsonMatch[0]),
-                usage: {
-                  inputTokens: checkResponse.usage.input_tokens,
-                  outputTokens: checkResponse.usage.output_tokens,
-                }
-              });
-            }
-          } catch {
-            // Fall through to default response
+        }, { feature: 'content_compliance_check' });
+
+        try {
+          const jsonMatch = checkResponse.text.match(/\{[\s\S]*\}/);
+          if (jsonMatch) {
+            return NextResponse.json({
+              compliance: JSON.parse(jsonMatch[0]),
+              usage: {
+                inputTokens: checkResponse.inputTokens,
+                outputTokens: checkResponse.outputTokens,
+              }
+            });
           }
+        } catch {
+          // Fall through to default response
         }
         return NextResponse.json({
           compliance: {
@@ -223,28 +208,22 @@ If the content passes compliance review, issues and suggestions can be empty arr
     }
 
     // Generate content
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: maxTokens,
-      temperature: 0.7,
-      system: COMPLIANCE_SYSTEM_PROMPT,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
-    });
+    const response = await llm.complete(
+      'content.assist',
+      { prompt, system: COMPLIANCE_SYSTEM_PROMPT, maxTokens },
+      { feature: `content_${type}` }
+    );
 
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       return NextResponse.json({ error: 'No content generated' }, { status: 500 });
     }
 
     return NextResponse.json({
-      content: textContent.text,
+      content: response.text,
       model: response.model,
       usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
       }
     });
 
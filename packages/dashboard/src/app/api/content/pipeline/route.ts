@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMultiAIPipeline } from '@/lib/content-pipeline';
+import { getComplianceService } from '@arcvest/services';
 import { createClient } from '@/lib/supabase/server';
 
 // POST /api/content/pipeline - Run the full 4-AI content pipeline
@@ -35,11 +36,13 @@ export async function POST(request: NextRequest) {
 
     // Run the pipeline
     const pipeline = getMultiAIPipeline();
+    const compliance = getComplianceService();
     const result = await pipeline.run({
       content,
       inputType: inputType || 'raw_text',
       focusAngle,
       targetKeywords,
+      complianceRules: await compliance.getActiveRuleSet(),
     });
 
     console.log(`[Pipeline API] Pipeline complete in ${Date.now() - startTime}ms`);
@@ -70,6 +73,7 @@ export async function POST(request: NextRequest) {
               processingTimeMs: result.metadata.processingTimeMs,
               totalTokensUsed: result.metadata.totalTokensUsed,
             },
+            compliance_check: result.complianceAudit,
           },
         })
         .select('id')
@@ -79,6 +83,7 @@ export async function POST(request: NextRequest) {
         console.error('[Pipeline API] Failed to save to content calendar:', contentError);
       } else {
         console.log('[Pipeline API] Saved to content calendar:', contentEntry?.id);
+        await compliance.record('content_calendar', contentEntry.id, result.complianceAudit);
 
         // Also add to approval queue
         await supabase.from('approval_queue').insert({
@@ -0,0 +1,43 @@
+/**
+ * Content Publishing Schedule API
+ *
+ * GET  /api/content/schedule - Weekly coverage against publishing targets (?from=YYYY-MM-DD&weeks=N)
+ * POST /api/content/schedule - Place approved content into open slots and re-sync scheduled posts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishSchedulerService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const weeks = searchParams.get('weeks');
+
+    const coverage = await getPublishSchedulerService().getWeeklyCoverage(
+      from ? new Date(`${from}T12:00:00Z`) : new Date(),
+      weeks ? Math.min(Math.max(parseInt(weeks, 10) || 1, 1), 12) : undefined
+    );
+
+    return NextResponse.json({ weeks: coverage });
+  } catch (error) {
+    console.error('Error in GET /api/content/schedule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    const scheduler = getPublishSchedulerService();
+    const allocation = await scheduler.allocate();
+    const sync = await scheduler.syncScheduledPosts();
+
+    return NextResponse.json({ allocation, sync });
+  } catch (error) {
+    console.error('Error in POST /api/content/schedule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -6,13 +6,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getLlmGateway } from '@arcvest/services';
 import crypto from 'crypto';
 
 // Lazy initialization
 let supabase: SupabaseClient | null = null;
-let anthropic: Anthropic | null = null;
 
 function getSupabase(): SupabaseClient {
   if (!supabase) {
@@ -24,15 +23,6 @@ function getSupabase(): SupabaseClient {
   return supabase;
 }
 
-function getAnthropic(): Anthropic {
-  if (!anthropic) {
-    const key = process.env['ANTHROPIC_API_KEY'];
-    if (!key) throw new Error('Missing ANTHROPIC_API_KEY');
-    anthropic = new Anthropic({ apiKey: key });
-  }
-  return anthropic;
-}
-
 function hashPhrase(phrase: string): string {
   return crypto.createHash('md5').update(phrase.toLowerCase().trim()).digest('hex');
 }
@@ -84,13 +74,11 @@ export async function POST(request: NextRequest) {
       .eq('is_rejected', false)
       .order('variation_number', { ascending: true });
 
-    // Generate new variations with Claude
+    // Generate new variations (task 'creative.phrase_variations')
     const prompt = buildPrompt(seedPhrase, count, style, maxLength, rejectedList);
 
-    const response = await getAnthropic().messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      temperature: 0.9,
+    const response = await getLlmGateway().complete('creative.phrase_variations', {
+      prompt,
       system: `You are an expert advertising copywriter specializing in financial services marketing.
 Your task is to create compelling variations of marketing phrases that:
 - Maintain the core message and value proposition
@@ -101,21 +89,14 @@ Your task is to create compelling variations of marketing phrases that:
 
 IMPORTANT: Avoid these patterns that have been rejected before:
 ${rejectedList.length > 0 ? rejectedList.map(p => `- "${p}"`).join('\n') : '(none)'}`,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+    }, { feature: 'phrase_variations', correlationId: seedHash });
 
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       throw new Error('No text content in response');
     }
 
     // Parse variations from response
-    const generatedVariations = parseVariations(textContent.text);
+    const generatedVariations = parseVariations(response.text);
 
     // Calculate starting variation number (after existing ones)
     const startNumber = existingVariations?.length || 0;
@@ -173,7 +154,7 @@ ${rejectedList.length > 0 ? rejectedList.map(p => `- "${p}"`).join('\n') : '(non
         existing: existingVariations?.length || 0,
         newGenerated: newVariations.length,
         total: allVariations.length,
-        tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+        tokensUsed: response.totalTokens,
       },
     });
   } catch (error) {
@@ -2,13 +2,29 @@
  * Experiment Auto-Optimization Cron
  *
  * Runs every 6 hours via Vercel Cron.
- * Syncs metrics from Google Ads, evaluates variation performance,
- * pauses losers, and declares winners.
+ * Syncs metrics from Google Ads, runs a significance test on each experiment,
+ * pauses variations the leader beats at the experiment's confidence level,
+ * and declares a winner once the test finds the leader clearly best.
+ *
+ * Experiments in thompson_sampling mode are never paused by the optimizer;
+ * each run shifts ad group bids toward the variations most likely to be best,
+ * until one variation's probability to be best reaches the experiment's
+ * confidence level and is declared the winner.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { getGoogleAdsClient } from '@/lib/google/google-ads-client';
+import {
+  applyAllocationGuardrails,
+  compareVariants,
+  experimentOptimizationConfig,
+  getAllocationCpcBid,
+  getTestedRate,
+  probabilityToBeBest,
+  resolveConfidenceLevel,
+  type SignificanceMethod,
+} from '@arcvest/shared';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
@@ -18,6 +34,9 @@ interface ExperimentRow {
   id: string;
   google_campaign_id: string;
   optimization_metric: string;
+  allocation_mode: 'ab_test' | 'thompson_sampling';
+  significance_method: SignificanceMethod | null;
+  confidence_level: number | null;
   created_at: string;
 }
 
@@ -33,6 +52,8 @@ interface VariationRow {
   conversions: number;
   ctr: number;
   cpc: number;
+  allocation_share: number | null;
+  cpc_bid: number | null;
 }
 
 export async function GET(request: NextRequest) {
@@ -48,7 +69,7 @@ export async function GET(request: NextRequest) {
 
   console.log(`[Experiment Optimizer] Starting (Trigger: ${vercelCronHeader === '1' ? 'Vercel Cron' : 'Manual'})...`);
 
-  const summary = { processed: 0, synced: 0, variationsPaused: 0, experimentsCompleted: 0 };
+  const summary = { processed: 0, synced: 0, variationsPaused: 0, experimentsCompleted: 0, reallocations: 0 };
 
   try {
     const supabase = await createServiceClient();
@@ -58,7 +79,7 @@ export async function GET(request: NextRequest) {
     // Query live experiments with auto_optimize enabled
     const { data: experiments, error: expError } = await supabase
       .from('experiments')
-      .select('id, google_campaign_id, optimization_metric, created_at')
+      .select('id, google_campaign_id, optimization_metric, allocation_mode, significance_method, confidence_level, created_at')
       .eq('status', 'live')
       .eq('auto_optimize', true);
 
@@ -124,121 +145,133 @@ export async function GET(request: NextRequest) {
           (v) => v.status === 'active'
         );
 
-        // Skip if insufficient data
-        const experimentAgeDays = Math.floor(
-          (Date.now() - new Date(exp.created_at).getTime()) / (1000 * 60 * 60 * 24)
-        );
-
-        const hasEnoughData = activeVariations.every(
-          (v) => v.impressions >= 200 && v.clicks >= 50
-        ) && experimentAgeDays >= 5;
+        // Bandit experiments shift traffic instead of pausing variations
+        if (exp.allocation_mode === 'thompson_sampling') {
+          if (activeVariations.length < 2) continue;
+
+          const testedRate = getTestedRate(exp.optimization_metric);
+          const probabilities = probabilityToBeBest(
+            activeVariations.map((v) => ({
+              successes: testedRate === 'conversion_rate' ? Math.round(Number(v.conversions)) : v.clicks,
+              trials: testedRate === 'conversion_rate' ? v.clicks : v.impressions,
+            })),
+            experimentOptimizationConfig.posterior_draws
+          );
+
+          // Stop once the leader's probability to be best reaches the confidence level
+          const confidence = resolveConfidenceLevel(exp.confidence_level);
+          const leaderIndex = probabilities.indexOf(Math.max(...probabilities));
+          if (hasEnoughData(exp, activeVariations) && probabilities[leaderIndex] >= confidence) {
+            const winner = activeVariations[leaderIndex];
+            await declareWinner(supabase, googleAds, customerId, exp, winner, {
+              method: 'thompson_sampling',
+              tested_rate: testedRate,
+              confidence_level: confidence,
+              probability_best: probabilities[leaderIndex],
+              explanation: `Variation ${winner.variation_number} declared winner — ${(probabilities[leaderIndex] * 100).toFixed(1)}% probability best meets the ${(confidence * 100).toFixed(1)}% confidence level`,
+            });
+            summary.experimentsCompleted++;
+          } else if (await reallocateBandit(supabase, googleAds, customerId, exp, activeVariations, probabilities)) {
+            summary.reallocations++;
+          }
+          continue;
+        }
 
-        if (!hasEnoughData) {
+        if (!hasEnoughData(exp, activeVariations) || activeVariations.length < 2) {
           console.log(`[Experiment Optimizer] Skipping ${exp.id} — insufficient data`);
           continue;
         }
 
-        // Rank by optimization metric and find best
-        const metric = exp.optimization_metric;
-        const isLowerBetter = metric === 'cpc';
-
-        const getMetricValue = (v: VariationRow): number => {
-          switch (metric) {
-            case 'ctr': return v.ctr;
-            case 'conversions': return v.conversions;
-            case 'cpc': return v.cpc;
-            case 'impressions': return v.impressions;
-            default: return v.ctr;
-          }
-        };
-
-        const best = isLowerBetter
-          ? activeVariations.reduce((a, b) => (getMetricValue(a) < getMetricValue(b) ? a : b))
-          : activeVariations.reduce((a, b) => (getMetricValue(a) > getMetricValue(b) ? a : b));
-
-        const bestValue = getMetricValue(best);
-
-        // Compare each variation to the best
-        for (const v of activeVariations) {
-          if (v.id === best.id) continue;
-
-          const vValue = getMetricValue(v);
-          let percentWorse: number;
-
-          if (isLowerBetter) {
-            // For CPC: higher is worse
-            percentWorse = bestValue > 0 ? ((vValue - bestValue) / bestValue) * 100 : 0;
-          } else {
-            // For CTR/conversions/impressions: lower is worse
-            percentWorse = bestValue > 0 ? ((bestValue - vValue) / bestValue) * 100 : 0;
-          }
-
-          if (percentWorse > 65) {
-            // Pause this variation
-            const adGroupResource = `customers/${customerId}/adGroups/${v.google_ad_group_id}`;
-            await googleAds.pauseAdGroup(adGroupResource);
-
-            await supabase
-              .from('experiment_variations')
-              .update({ status: 'loser' })
-              .eq('id', v.id);
+        // Significance test on the metric's underlying rate
+        const testedRate = getTestedRate(exp.optimization_metric);
+        const method = exp.significance_method || experimentOptimizationConfig.default_method;
+        const confidence = resolveConfidenceLevel(exp.confidence_level);
+
+        const significance = compareVariants(
+          activeVariations.map((v) => ({
+            id: v.id,
+            successes: testedRate === 'conversion_rate' ? Math.round(Number(v.conversions)) : v.clicks,
+            trials: testedRate === 'conversion_rate' ? v.clicks : v.impressions,
+          })),
+          { method, confidence, draws: experimentOptimizationConfig.posterior_draws }
+        );
 
-            const metricLabel = metric.toUpperCase();
-            const vDisplay = metric === 'cpc' ? `$${vValue.toFixed(2)}` : metric === 'ctr' ? `${vValue.toFixed(1)}%` : String(vValue);
-            const bestDisplay = metric === 'cpc' ? `$${bestValue.toFixed(2)}` : metric === 'ctr' ? `${bestValue.toFixed(1)}%` : String(bestValue);
-
-            await supabase.from('experiment_logs').insert({
-              experiment_id: exp.id,
-              action: 'optimizer_paused_variation',
-              details: {
-                variation_id: v.id,
-                variation_number: v.variation_number,
-                metric: metricLabel,
-                value: vDisplay,
-                best_value: bestDisplay,
-                percent_worse: Math.round(percentWorse),
-                explanation: `Paused Variation ${v.variation_number} — ${metricLabel} ${vDisplay} vs best ${bestDisplay} (${Math.round(percentWorse)}% worse)`,
-              },
-            });
+        const variationById = new Map(activeVariations.map((v) => [v.id, v]));
+        const best = variationById.get(significance.bestId)!;
+        const rateLabel = testedRate === 'ctr' ? 'CTR' : 'Conversion rate';
+        const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+        const bestStats = significance.variants.find((s) => s.id === best.id)!;
 
-            summary.variationsPaused++;
-          }
-        }
+        await supabase.from('experiment_logs').insert({
+          experiment_id: exp.id,
+          action: 'optimizer_significance',
+          details: {
+            method,
+            tested_rate: testedRate,
+            confidence_level: confidence,
+            best_variation_id: best.id,
+            winner_variation_id: significance.winnerId,
+            variations: significance.variants.map((s) => ({
+              variation_id: s.id,
+              variation_number: variationById.get(s.id)?.variation_number,
+              rate: s.rate,
+              interval_lower: s.interval.lower,
+              interval_upper: s.interval.upper,
+              probability_best: s.probabilityBest,
+              confidence_vs_best: s.confidenceVsBest,
+            })),
+            explanation: `Variation ${best.variation_number} leads on ${rateLabel} (${formatRate(bestStats.rate)}, ${Math.round(bestStats.probabilityBest * 100)}% probability best)`,
+          },
+        });
 
-        // Check if only 1 active variation remains → declare winner
-        const { data: remainingActive } = await supabase
-          .from('experiment_variations')
-          .select('id, variation_number')
-          .eq('experiment_id', exp.id)
-          .eq('status', 'active');
+        // Pause variations the leader beats at the experiment's confidence level
+        for (const loserId of significance.loserIds) {
+          const v = variationById.get(loserId)!;
+          const stats = significance.variants.find((s) => s.id === loserId)!;
+          const confidencePct = ((stats.confidenceVsBest ?? 0) * 100).toFixed(1);
 
-        if (remainingActive && remainingActive.length === 1) {
-          const winner = remainingActive[0];
+          const adGroupResource = `customers/${customerId}/adGroups/${v.google_ad_group_id}`;
+          await googleAds.pauseAdGroup(adGroupResource);
 
           await supabase
             .from('experiment_variations')
-            .update({ status: 'winner' })
-            .eq('id', winner.id);
-
-          await supabase
-            .from('experiments')
-            .update({ status: 'completed', winner_variation_id: winner.id })
-            .eq('id', exp.id);
-
-          // Pause the campaign
-          const campaignResource = `customers/${customerId}/campaigns/${exp.google_campaign_id}`;
-          await googleAds.pauseCampaign(campaignResource);
+            .update({ status: 'loser' })
+            .eq('id', v.id);
 
           await supabase.from('experiment_logs').insert({
             experiment_id: exp.id,
-            action: 'optimizer_declared_winner',
+            action: 'optimizer_paused_variation',
             details: {
-              winner_variation_id: winner.id,
-              winner_variation_number: winner.variation_number,
-              explanation: `Variation ${winner.variation_number} declared winner — last active variation standing`,
+              variation_id: v.id,
+              variation_number: v.variation_number,
+              metric: rateLabel,
+              method,
+              value: formatRate(stats.rate),
+              best_value: formatRate(bestStats.rate),
+              interval: [stats.interval.lower, stats.interval.upper],
+              best_interval: [bestStats.interval.lower, bestStats.interval.upper],
+              confidence: stats.confidenceVsBest,
+              confidence_level: confidence,
+              explanation: `Paused Variation ${v.variation_number} — ${rateLabel} ${formatRate(stats.rate)} vs best ${formatRate(bestStats.rate)} (${confidencePct}% confident Variation ${best.variation_number} is better)`,
             },
           });
 
+          summary.variationsPaused++;
+        }
+
+        // Declare the winner once the test says the leader is clearly best
+        if (significance.winnerId) {
+          const winner = variationById.get(significance.winnerId)!;
+
+          await declareWinner(supabase, googleAds, customerId, exp, winner, {
+            method,
+            confidence_level: confidence,
+            probability_best: bestStats.probabilityBest,
+            explanation: method === 'bayesian'
+              ? `Variation ${winner.variation_number} declared winner — ${(bestStats.probabilityBest * 100).toFixed(1)}% probability best meets the ${(confidence * 100).toFixed(1)}% confidence level`
+              : `Variation ${winner.variation_number} declared winner at ${(confidence * 100).toFixed(1)}% confidence — all other variations significantly worse`,
+          });
+
           summary.experimentsCompleted++;
         }
       } catch (expErr) {
@@ -264,3 +297,153 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Every active variation has the impressions and clicks, and the experiment
+ * the age, that experimentOptimizationConfig requires before deciding
+ */
+function hasEnoughData(exp: ExperimentRow, activeVariations: VariationRow[]): boolean {
+  const { minimums } = experimentOptimizationConfig;
+  const experimentAgeDays = Math.floor(
+    (Date.now() - new Date(exp.created_at).getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  return activeVariations.every(
+    (v) => v.impressions >= minimums.impressions_per_variation && v.clicks >= minimums.clicks_per_variation
+  ) && experimentAgeDays >= minimums.experiment_age_days;
+}
+
+/**
+ * Mark the winner, retire the variations still running, complete the
+ * experiment and pause its campaign
+ */
+async function declareWinner(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  googleAds: ReturnType<typeof getGoogleAdsClient>,
+  customerId: string,
+  exp: ExperimentRow,
+  winner: VariationRow,
+  details: Record<string, unknown>
+): Promise<void> {
+  await supabase
+    .from('experiment_variations')
+    .update({ status: 'winner' })
+    .eq('id', winner.id);
+
+  // Variations still running lose with the experiment
+  await supabase
+    .from('experiment_variations')
+    .update({ status: 'loser' })
+    .eq('experiment_id', exp.id)
+    .eq('status', 'active')
+    .neq('id', winner.id);
+
+  await supabase
+    .from('experiments')
+    .update({ status: 'completed', winner_variation_id: winner.id })
+    .eq('id', exp.id);
+
+  // Pause the campaign
+  const campaignResource = `customers/${customerId}/campaigns/${exp.google_campaign_id}`;
+  await googleAds.pauseCampaign(campaignResource);
+
+  await supabase.from('experiment_logs').insert({
+    experiment_id: exp.id,
+    action: 'optimizer_declared_winner',
+    details: {
+      winner_variation_id: winner.id,
+      winner_variation_number: winner.variation_number,
+      ...details,
+    },
+  });
+}
+
+/**
+ * Thompson sampling reallocation: move each variation's traffic share toward
+ * its posterior probability of being best, within budgetParametersConfig
+ * guardrails, and apply the share as an ad group CPC bid.
+ * Each bid is stored on its variation before the next one is changed; if a
+ * change fails, the bids already moved are logged with the error.
+ * Returns true if any bid changed.
+ */
+async function reallocateBandit(
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  googleAds: ReturnType<typeof getGoogleAdsClient>,
+  customerId: string,
+  exp: ExperimentRow,
+  activeVariations: VariationRow[],
+  probabilities: number[]
+): Promise<boolean> {
+  const testedRate = getTestedRate(exp.optimization_metric);
+  const n = activeVariations.length;
+
+  // Variations without a stored share (or re-activated ones) start from an even split
+  const currentShares = activeVariations.map((v) => (v.allocation_share !== null ? Number(v.allocation_share) : 1 / n));
+  const newShares = applyAllocationGuardrails(currentShares, probabilities);
+
+  const changes = [];
+  try {
+    for (let i = 0; i < n; i++) {
+      const v = activeVariations[i];
+      const share = newShares[i];
+      const bid = getAllocationCpcBid(share, n);
+      const previousBid = v.cpc_bid !== null ? Number(v.cpc_bid) : null;
+
+      if (previousBid !== bid && v.google_ad_group_id) {
+        const adGroupResource = `customers/${customerId}/adGroups/${v.google_ad_group_id}`;
+        await googleAds.setAdGroupCpcBid(adGroupResource, Math.round(bid * 1_000_000));
+      }
+
+      changes.push({
+        variation_id: v.id,
+        variation_number: v.variation_number,
+        probability_best: probabilities[i],
+        previous_share: currentShares[i],
+        share,
+        previous_cpc_bid: previousBid,
+        cpc_bid: bid,
+      });
+
+      const { error } = await supabase
+        .from('experiment_variations')
+        .update({ allocation_share: share, cpc_bid: bid })
+        .eq('id', v.id);
+
+      if (error) {
+        throw new Error(`Failed to store Variation ${v.variation_number} allocation: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    const applied = changes.filter((c) => c.previous_cpc_bid !== c.cpc_bid);
+    if (applied.length > 0) {
+      await supabase.from('experiment_logs').insert({
+        experiment_id: exp.id,
+        action: 'optimizer_reallocation_failed',
+        details: {
+          tested_rate: testedRate,
+          variations: applied,
+          error: error instanceof Error ? error.message : String(error),
+          explanation: `Reallocation stopped after changing ${applied.length} of ${n} bids: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      });
+    }
+    throw error;
+  }
+
+  const bidsChanged = changes.some((c) => c.previous_cpc_bid !== c.cpc_bid);
+  if (!bidsChanged) return false;
+
+  const leader = changes.reduce((a, b) => (b.share > a.share ? b : a));
+
+  await supabase.from('experiment_logs').insert({
+    experiment_id: exp.id,
+    action: 'optimizer_reallocated',
+    details: {
+      tested_rate: testedRate,
+      variations: changes,
+      explanation: `Shifted traffic toward Variation ${leader.variation_number} — ${(leader.share * 100).toFixed(0)}% share at $${leader.cpc_bid.toFixed(2)} CPC (${(leader.probability_best * 100).toFixed(0)}% probability best)`,
+    },
+  });
+
+  return true;
+}
@@ -0,0 +1,51 @@
+/**
+ * Notification Digest Cron
+ *
+ * Scheduled to run daily at 7am CT (13:00 UTC)
+ * Emails each team member the alerts waiting for their digest
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationService } from '@arcvest/services';
+
+/**
+ * GET /api/cron/notification-digest
+ * Called by Vercel Cron daily
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel cron sends x-vercel-cron: 1)
+  const authHeader = request.headers.get('authorization');
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}` && vercelCronHeader !== '1') {
+    console.warn('[Notification Digest Cron] Unauthorized request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await getNotificationService().sendPending();
+
+    console.log('[Notification Digest Cron] Complete:', result);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Notification Digest Cron] Failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Notification digest failed',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron configuration
+export const runtime = 'nodejs';
+export const maxDuration = 60;
@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getMultiAIPipeline } from '@/lib/content-pipeline';
+import { getComplianceService } from '@arcvest/services';
 
 export const maxDuration = 300; // 5 minutes max
 
@@ -54,6 +55,8 @@ export async function GET(request: NextRequest) {
     console.log(`[Cron] Found ${selectedIdeas.length} ideas to process`);
 
     const pipeline = getMultiAIPipeline();
+    const compliance = getComplianceService();
+    const complianceRules = await compliance.getActiveRuleSet();
     let processed = 0;
     let failed = 0;
 
@@ -74,6 +77,8 @@ export async function GET(request: NextRequest) {
           content: inputContent,
           inputType: 'raw_text',
           focusAngle: idea.suggested_angle || undefined,
+          complianceRules,
+          correlationId: idea.id,
         });
 
         // Extract title
@@ -101,6 +106,7 @@ export async function GET(request: NextRequest) {
                 processingTimeMs: pipelineResult.metadata.processingTimeMs,
                 totalTokensUsed: pipelineResult.metadata.totalTokensUsed,
               },
+              compliance_check: pipelineResult.complianceAudit,
             },
           })
           .select('id')
@@ -110,6 +116,8 @@ export async function GET(request: NextRequest) {
           throw contentError;
         }
 
+        await compliance.record('content_calendar', contentEntry.id, pipelineResult.complianceAudit);
+
         // Update idea status
         await supabase
           .from('idea_queue')
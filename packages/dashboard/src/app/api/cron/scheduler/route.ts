@@ -0,0 +1,51 @@
+/**
+ * Cron Job: Scheduler
+ *
+ * GET /api/cron/scheduler
+ *
+ * Ticks the schedule registry: every due schedule (content batches, cron
+ * routes, agent tasks) is enqueued into the job queue for the worker or the
+ * agents runner. Runs every 5 minutes; the agents runner also ticks every
+ * minute, and a run is only ever enqueued once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSchedulerService } from '@arcvest/services';
+
+export const maxDuration = 30;
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel cron sends x-vercel-cron: 1)
+  const authHeader = request.headers.get('authorization');
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}` && vercelCronHeader !== '1') {
+    console.warn('Unauthorized scheduler cron attempt.');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await getSchedulerService().tick();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Scheduler] Tick in ${duration}ms: ${result.enqueued.length} enqueued, ${result.missed} missed, ${result.errors.length} errors`);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      duration,
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Scheduler] Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
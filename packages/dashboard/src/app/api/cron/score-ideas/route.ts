@@ -31,13 +31,14 @@ export async function GET(request: NextRequest) {
     const stats = await scorer.getStats();
 
     const duration = Date.now() - startTime;
-    console.log(`[Cron] Scoring complete in ${duration}ms: ${result.scored} scored, ${result.errors} errors`);
+    console.log(`[Cron] Scoring complete in ${duration}ms: ${result.scored} scored, ${result.errors} errors, ${result.merged} merged`);
 
     return NextResponse.json({
       success: true,
       duration,
       scored: result.scored,
       errors: result.errors,
+      merged: result.merged,
       stats,
     });
   } catch (error) {
@@ -0,0 +1,57 @@
+/**
+ * Search Terms Mining Cron
+ *
+ * Scheduled to run Mondays at 7am CT (13:00 UTC)
+ * Proposes negative keywords from the search terms report
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchTermsMiner } from '@/lib/google/search-terms-miner';
+
+/**
+ * GET /api/cron/search-terms
+ * Called by Vercel Cron weekly
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel cron sends x-vercel-cron: 1)
+  const authHeader = request.headers.get('authorization');
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}` && vercelCronHeader !== '1') {
+    console.warn('[Search Terms Cron] Unauthorized request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log(`[Search Terms Cron] Starting search term mining (Trigger: ${vercelCronHeader === '1' ? 'Vercel Cron' : 'Manual'})...`);
+
+  try {
+    const result = await getSearchTermsMiner().mine();
+
+    console.log('[Search Terms Cron] Complete:', {
+      candidates: result.candidates,
+      proposals: result.proposals.length,
+      approvalId: result.approvalId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Search Terms Cron] Failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Search terms cron failed',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron configuration
+export const runtime = 'nodejs';
+export const maxDuration = 300; // LLM classification of a few hundred terms
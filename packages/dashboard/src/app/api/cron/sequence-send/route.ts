@@ -0,0 +1,65 @@
+/**
+ * Sequence Send Cron
+ *
+ * Scheduled to run every 15 minutes.
+ * Sends due email sequence steps through Gmail, respecting the daily
+ * send cap and quiet hours. Failed sends are queued as sequence_send jobs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSequenceDispatcher } from '@arcvest/services';
+import { createClient } from '@supabase/supabase-js';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const vercelCronHeader = request.headers.get('x-vercel-cron');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}` && vercelCronHeader !== '1') {
+    console.warn('[Sequence Send Cron] Unauthorized request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log(`[Sequence Send Cron] Starting (Trigger: ${vercelCronHeader === '1' ? 'Vercel Cron' : 'Manual'})...`);
+
+  try {
+    const dispatcher = getSequenceDispatcher();
+    const result = await dispatcher.dispatch();
+
+    console.log(`[Sequence Send Cron] Complete. Sent: ${result.sent}, Failed: ${result.failed}, Deferred: ${result.deferred}, Blocked: ${result.blocked}`);
+
+    if (result.sent > 0 || result.failed > 0 || result.blocked > 0) {
+      const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+      );
+      await supabase.from('activity_log').insert({
+        actor: 'sequence_send_cron',
+        action: 'sequence_dispatch_complete',
+        entity_type: 'sequence_enrollments',
+        details: {
+          ...result,
+          trigger: vercelCronHeader === '1' ? 'cron' : 'manual',
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Sequence Send Cron] Failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sequence send failed',
+      },
+      { status: 500 }
+    );
+  }
+}
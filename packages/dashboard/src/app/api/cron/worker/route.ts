@@ -5,6 +5,7 @@
  *
  * Main worker that processes all queued jobs. Runs every 5 minutes.
  * Claims jobs atomically and processes them one at a time to avoid timeouts.
+ * agent_task jobs are left for the agents runner.
  *
  * Features:
  * - Atomic job claiming (prevents double-processing)
@@ -16,7 +17,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getMultiAIPipeline, type PipelineCheckpoint, type PipelineStep } from '@/lib/content-pipeline';
-import { getIdeaScorer, getDailySelectionService, getSourceRegistry, initializeAdapters, PipelineLogger } from '@arcvest/services';
+import { getIdeaScorer, getDailySelectionService, getSourceRegistry, initializeAdapters, getSequenceDispatcher, getGhlService, getLeadIntakeService, getComplianceService, getOfflineConversionService, PipelineLogger } from '@arcvest/services';
+import { getGoogleAdsClient, type ClickConversion } from '@/lib/google/google-ads-client';
 import { runNewsScan } from '@/lib/news-sourcer';
 
 export const maxDuration = 300; // 5 minutes max
@@ -40,7 +42,7 @@ interface FetchResult {
 }
 
 // Job types and their handlers
-type JobType = 'news_scan' | 'email_scan' | 'bloomberg_scan' | 'score_ideas' | 'select_daily' | 'process_pipeline';
+type JobType = 'news_scan' | 'email_scan' | 'bloomberg_scan' | 'website_scan' | 'score_ideas' | 'select_daily' | 'process_pipeline' | 'sequence_send' | 'ghl_sync' | 'lead_intake' | 'offline_conversion_upload' | 'cron_route';
 
 interface Job {
   id: string;
@@ -100,7 +102,7 @@ export async function GET(request: NextRequest) {
       console.log(`[Worker] Processing job ${job.id} (${job.job_type}), attempt ${job.attempts}`);
 
       try {
-        const result = await processJob(supabase, job);
+        const result = await processJob(supabase, job, request.nextUrl.origin);
 
         if (result.success) {
           await completeJob(supabase, job.id, result.data || {});
@@ -163,8 +165,12 @@ export async function GET(request: NextRequest) {
  */
 async function claimNextJob(supabase: ReturnType<typeof createClient> extends Promise<infer T> ? T : never): Promise<Job | null> {
   // Try RPC function first (most atomic)
+  // agent_task jobs belong to the agents runner
   const { data: rpcData, error: rpcError } = await supabase
-    .rpc('claim_next_job', { p_worker_id: process.env.VERCEL_DEPLOYMENT_ID || 'worker' });
+    .rpc('claim_next_job', {
+      p_worker_id: process.env.VERCEL_DEPLOYMENT_ID || 'worker',
+      p_exclude_job_types: ['agent_task'],
+    });
 
   if (!rpcError && rpcData && rpcData.length > 0) {
     return rpcData[0] as Job;
@@ -175,6 +181,7 @@ async function claimNextJob(supabase: ReturnType<typeof createClient> extends Pr
     .from('job_queue')
     .select('*')
     .eq('status', 'pending')
+    .neq('job_type', 'agent_task')
     .lte('next_run_at', new Date().toISOString())
     .order('priority', { ascending: false })
     .order('next_run_at', { ascending: true })
@@ -208,7 +215,7 @@ async function claimNextJob(supabase: ReturnType<typeof createClient> extends Pr
 /**
  * Process a job based on its type
  */
-async function processJob(supabase: ReturnType<typeof createClient> extends Promise<infer T> ? T : never, job: Job): Promise<JobResult> {
+async function processJob(supabase: ReturnType<typeof createClient> extends Promise<infer T> ? T : never, job: Job, origin: string): Promise<JobResult> {
   const logger = new PipelineLogger(job.job_type, job.id);
   logger.info(`Starting job`, 'start', { attempts: job.attempts, payload: job.payload });
 
@@ -228,6 +235,10 @@ async function processJob(supabase: ReturnType<typeof createClient> extends Prom
         result = await processBloombergScan(logger);
         break;
 
+      case 'website_scan':
+        result = await processWebsiteScan(logger);
+        break;
+
       case 'score_ideas':
         result = await processScoreIdeas(logger);
         break;
@@ -237,7 +248,27 @@ async function processJob(supabase: ReturnType<typeof createClient> extends Prom
         break;
 
       case 'process_pipeline':
-        result = await processPipeline(supabase, job.payload, logger);
+        result = await processPipeline(supabase, job.payload, logger, job.id);
+        break;
+
+      case 'sequence_send':
+        result = await processSequenceSend(job.payload, job.attempts >= job.max_attempts, logger);
+        break;
+
+      case 'ghl_sync':
+        result = await processGhlSync(job.payload, logger);
+        break;
+
+      case 'lead_intake':
+        result = await processLeadIntake(job.payload, logger);
+        break;
+
+      case 'offline_conversion_upload':
+        result = await processOfflineConversionUpload(job.payload, logger);
+        break;
+
+      case 'cron_route':
+        result = await processCronRoute(job.payload, origin, logger);
         break;
 
       default:
@@ -356,6 +387,58 @@ async function processEmailScan(logger: InstanceType<typeof PipelineLogger>): Pr
   }
 }
 
+/**
+ * Process website scan job (sitemap and blog index sources)
+ */
+async function processWebsiteScan(logger: InstanceType<typeof PipelineLogger>): Promise<JobResult> {
+  try {
+    logger.info('Initializing source adapters', 'init');
+    logger.startStep();
+    initializeAdapters();
+
+    const registry = getSourceRegistry();
+    logger.info('Fetching website sources', 'fetch_start');
+    logger.startStep();
+
+    const results = await registry.fetchWebsiteSources();
+
+    let totalIdeas = 0;
+    let successfulSources = 0;
+    const sourceResults: Record<string, { success: boolean; ideas: number; error?: string }> = {};
+
+    results.forEach((result: FetchResult, sourceName: string) => {
+      sourceResults[sourceName] = {
+        success: result.success,
+        ideas: result.ideas.length,
+        error: result.error
+      };
+      if (result.success) {
+        successfulSources++;
+        totalIdeas += result.ideas.length;
+      } else {
+        logger.warn(`Source ${sourceName} failed: ${result.error}`, 'source_error', {
+          sourceName
+        });
+      }
+    });
+
+    logger.info(`Website scan complete: ${totalIdeas} ideas from ${successfulSources} sources`, 'fetch_complete', {
+      totalIdeas,
+      successfulSources,
+      totalSources: results.size,
+      sourceResults
+    });
+
+    return {
+      success: true,
+      data: { totalIdeas, successfulSources }
+    };
+  } catch (error) {
+    logger.logError(error, 'website_scan_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 /**
  * Process Bloomberg scan job
  */
@@ -404,14 +487,15 @@ async function processScoreIdeas(logger: InstanceType<typeof PipelineLogger>): P
     const scorer = getIdeaScorer();
     const result = await scorer.scorePendingIdeas({ limit: 50 });
 
-    logger.info(`Scored ${result.scored} ideas with ${result.errors} errors`, 'score_complete', {
+    logger.info(`Scored ${result.scored} ideas with ${result.errors} errors (${result.merged} duplicates merged)`, 'score_complete', {
       scored: result.scored,
-      errors: result.errors
+      errors: result.errors,
+      merged: result.merged
     });
 
     return {
       success: true,
-      data: { scored: result.scored, errors: result.errors }
+      data: { scored: result.scored, errors: result.errors, merged: result.merged }
     };
   } catch (error) {
     logger.logError(error, 'score_error');
@@ -532,7 +616,8 @@ async function processSelectDaily(payload: Record<string, unknown>, logger: Inst
 async function processPipeline(
   supabase: ReturnType<typeof createClient> extends Promise<infer T> ? T : never,
   payload: Record<string, unknown>,
-  logger: InstanceType<typeof PipelineLogger>
+  logger: InstanceType<typeof PipelineLogger>,
+  jobId: string
 ): Promise<JobResult> {
   try {
     const ideaId = payload.idea_id as string | undefined;
@@ -621,11 +706,15 @@ async function processPipeline(
     // Run the 4-AI pipeline with checkpointing
     logger.startStep();
     const pipeline = getMultiAIPipeline();
+    const compliance = getComplianceService();
     const pipelineResult = await pipeline.runWithCheckpoints(
       {
         content: inputContent,
         inputType: 'raw_text',
         focusAngle: idea.suggested_angle || undefined,
+        complianceRules: await compliance.getActiveRuleSet(),
+        jobId,
+        correlationId: idea.id,
       },
       existingCheckpoint,
       onCheckpoint
@@ -634,7 +723,8 @@ async function processPipeline(
     logger.info('Pipeline complete, saving content', 'pipeline_complete', {
       processingTimeMs: pipelineResult.metadata?.processingTimeMs,
       totalTokensUsed: pipelineResult.metadata?.totalTokensUsed,
-      compliancePassed: pipelineResult.claudeDraft?.complianceCheck?.passed
+      compliancePassed: pipelineResult.claudeDraft?.complianceCheck?.passed,
+      rulesPassed: pipelineResult.complianceAudit.passed,
     });
 
     // Extract title from WordPress HTML
@@ -665,6 +755,7 @@ async function processPipeline(
             processingTimeMs: pipelineResult.metadata?.processingTimeMs,
             totalTokensUsed: pipelineResult.metadata?.totalTokensUsed,
           },
+          compliance_check: pipelineResult.complianceAudit,
         },
       })
       .select('id')
@@ -675,6 +766,8 @@ async function processPipeline(
       return { success: false, error: contentError.message };
     }
 
+    await compliance.record('content_calendar', contentEntry.id, pipelineResult.complianceAudit);
+
     // Update idea status to completed
     await supabase
       .from('idea_queue')
@@ -708,6 +801,177 @@ async function processPipeline(
   }
 }
 
+/**
+ * Process sequence send job
+ * Retries a single sequence step that failed to send during dispatch
+ */
+async function processSequenceSend(
+  payload: Record<string, unknown>,
+  finalAttempt: boolean,
+  logger: InstanceType<typeof PipelineLogger>
+): Promise<JobResult> {
+  try {
+    const enrollmentId = payload.enrollment_id as string | undefined;
+    const stepOrder = payload.step_order as number | undefined;
+
+    if (!enrollmentId || stepOrder === undefined) {
+      return { success: false, error: 'sequence_send job requires enrollment_id and step_order' };
+    }
+
+    logger.info(`Retrying sequence step ${stepOrder}`, 'send_start', { enrollmentId, stepOrder });
+    logger.startStep();
+
+    const dispatcher = getSequenceDispatcher();
+    const result = await dispatcher.retrySend({ enrollment_id: enrollmentId, step_order: stepOrder }, { finalAttempt });
+
+    logger.info(result.sent ? 'Sequence email sent' : `Sequence email not sent: ${result.reason}`, 'send_complete', {
+      enrollmentId,
+      sent: result.sent,
+      reason: result.reason,
+    });
+
+    return {
+      success: true,
+      data: { enrollmentId, sent: result.sent, reason: result.reason }
+    };
+  } catch (error) {
+    logger.logError(error, 'sequence_send_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Process GHL sync job (lead push retried after a GoHighLevel outage)
+ */
+async function processGhlSync(payload: Record<string, unknown>, logger: InstanceType<typeof PipelineLogger>): Promise<JobResult> {
+  try {
+    const email = payload.email as string | undefined;
+    if (!email) {
+      return { success: false, error: 'ghl_sync job requires email' };
+    }
+
+    logger.info(`Pushing lead to GHL: ${email}`, 'ghl_start', { contactId: payload.contact_id });
+    logger.startStep();
+
+    const ghlContactId = await getGhlService().syncContact({
+      contact_id: payload.contact_id as string | undefined,
+      firstName: (payload.firstName as string) || '',
+      email,
+      phone: (payload.phone as string) || '',
+      tags: (payload.tags as string[]) || [],
+      source: (payload.source as string) || '',
+    });
+
+    logger.info('Lead synced to GHL', 'ghl_complete', { ghlContactId });
+
+    return {
+      success: true,
+      data: { email, ghlContactId }
+    };
+  } catch (error) {
+    logger.logError(error, 'ghl_sync_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Process lead intake job (form submission whose intake and GHL push both failed)
+ */
+async function processLeadIntake(payload: Record<string, unknown>, logger: InstanceType<typeof PipelineLogger>): Promise<JobResult> {
+  try {
+    const email = payload.email as string | undefined;
+    const formType = payload.formType as string | undefined;
+    if (!email || !formType) {
+      return { success: false, error: 'lead_intake job requires email and formType' };
+    }
+
+    logger.info(`Retrying lead intake: ${email}`, 'intake_start', { formType });
+    logger.startStep();
+
+    const result = await getLeadIntakeService().intake({ ...payload, email, formType });
+
+    logger.info('Lead recorded', 'intake_complete', {
+      contactId: result.contact.id,
+      created: result.created,
+      ghlStatus: result.ghlStatus,
+      errors: result.errors,
+    });
+
+    return {
+      success: true,
+      data: { email, contactId: result.contact.id, ghlStatus: result.ghlStatus }
+    };
+  } catch (error) {
+    logger.logError(error, 'lead_intake_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Process offline conversion upload job (pipeline stage reported to Google Ads or Meta)
+ */
+async function processOfflineConversionUpload(payload: Record<string, unknown>, logger: InstanceType<typeof PipelineLogger>): Promise<JobResult> {
+  try {
+    const conversionId = payload.conversion_id as string | undefined;
+    if (!conversionId) {
+      return { success: false, error: 'offline_conversion_upload job requires conversion_id' };
+    }
+
+    logger.info(`Uploading offline conversion ${conversionId}`, 'upload_start', { conversionId });
+    logger.startStep();
+
+    const outcome = await getOfflineConversionService().upload(
+      conversionId,
+      (conversion: Record<string, unknown>) => getGoogleAdsClient().uploadClickConversions([conversion as unknown as ClickConversion])
+    );
+
+    logger.info(`Offline conversion ${outcome.status}`, 'upload_complete', { conversionId, ...outcome });
+
+    return {
+      success: true,
+      data: { conversionId, ...outcome }
+    };
+  } catch (error) {
+    logger.logError(error, 'offline_conversion_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Process cron route job (a cron endpoint scheduled through the schedule registry)
+ */
+async function processCronRoute(payload: Record<string, unknown>, origin: string, logger: InstanceType<typeof PipelineLogger>): Promise<JobResult> {
+  try {
+    const path = payload.path as string | undefined;
+    if (!path || !path.startsWith('/api/cron/')) {
+      return { success: false, error: 'cron_route job requires a /api/cron/ path' };
+    }
+
+    logger.info(`Calling ${path}`, 'route_start', { scheduleKey: payload.schedule_key });
+    logger.startStep();
+
+    const cronSecret = process.env.CRON_SECRET;
+    const response = await fetch(`${origin}${path}`, {
+      headers: cronSecret ? { Authorization: `Bearer ${cronSecret}` } : {},
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || body.success === false) {
+      return { success: false, error: `${path} returned ${response.status}: ${body.error || response.statusText}` };
+    }
+
+    logger.info(`${path} completed`, 'route_complete', { status: response.status });
+
+    return {
+      success: true,
+      data: { path, status: response.status }
+    };
+  } catch (error) {
+    logger.logError(error, 'cron_route_error');
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 /**
  * Mark a job as completed
  */
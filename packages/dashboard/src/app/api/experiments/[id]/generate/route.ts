@@ -58,7 +58,8 @@ export async function POST(
       const result = await pipeline.generate(
         experiment.persona_id,
         experiment.voice_id,
-        experiment.num_variations || 5
+        experiment.num_variations || 5,
+        { correlationId: id }
       );
 
       // Save master as variation 1
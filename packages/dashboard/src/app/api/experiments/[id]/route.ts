@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { getGoogleAdsClient } from '@/lib/google/google-ads-client';
+import { resolveConfidenceLevel } from '@arcvest/shared';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -144,6 +145,7 @@ export async function PUT(
       'name', 'description', 'optimization_metric', 'daily_budget', 'bid_strategy',
       'target_cpa', 'keywords', 'match_type', 'landing_page_url', 'target_locations',
       'audience_targeting', 'persona_id', 'voice_id', 'num_variations', 'auto_optimize',
+      'allocation_mode', 'significance_method', 'confidence_level',
     ];
 
     const updateData: Record<string, unknown> = {};
@@ -153,6 +155,10 @@ export async function PUT(
       }
     }
 
+    if (updateData.confidence_level !== undefined) {
+      updateData.confidence_level = resolveConfidenceLevel(updateData.confidence_level as number);
+    }
+
     const { data, error } = await supabase
       .from('experiments')
       .update(updateData)
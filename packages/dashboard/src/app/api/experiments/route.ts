@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { experimentOptimizationConfig, resolveConfidenceLevel } from '@arcvest/shared';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -93,6 +94,7 @@ export async function POST(request: NextRequest) {
       name, description, optimization_metric, daily_budget, bid_strategy,
       target_cpa, keywords, match_type, landing_page_url, target_locations,
       audience_targeting, persona_id, voice_id, num_variations,
+      allocation_mode, significance_method, confidence_level,
     } = body;
 
     if (!name) {
@@ -118,6 +120,9 @@ export async function POST(request: NextRequest) {
         persona_id: persona_id || null,
         voice_id: voice_id || null,
         num_variations: num_variations || 5,
+        allocation_mode: allocation_mode || 'ab_test',
+        significance_method: significance_method || experimentOptimizationConfig.default_method,
+        confidence_level: resolveConfidenceLevel(confidence_level),
       })
       .select()
       .single();
@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GmailService } from '@arcvest/services';
+import { GmailService, getComplianceArchiveService } from '@arcvest/services';
 
 // Local type definition (since DTS is disabled for services)
 interface SendEmailParams {
@@ -63,6 +63,26 @@ export async function POST(request: NextRequest) {
       threadId: body.threadId,
     });
 
+    await getComplianceArchiveService().archiveSafely({
+      channel: 'gmail',
+      artifactType: 'email',
+      artifactId: result.id,
+      title: subject,
+      content: {
+        to,
+        cc: body.cc || [],
+        bcc: body.bcc || [],
+        subject,
+        body: emailBody,
+        bodyHtml: body.bodyHtml || null,
+      },
+      contentText: `${subject}\n\n${emailBody}`,
+      contentType: 'outreach_email',
+      externalId: result.id,
+      publishedBy: 'dashboard',
+      metadata: { thread_id: result.threadId },
+    });
+
     return NextResponse.json({
       success: true,
       messageId: result.id,
@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
+import { ComplianceService, getLlmGateway } from '@arcvest/services';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -89,16 +89,10 @@ export async function POST(
     const nextVersion = (currentEmails?.[0]?.version || 0) + 1;
 
     // Generate new email
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
     const firstName = lead.full_name.split(' ')[0];
     const toneInstructions = TONE_INSTRUCTIONS[tone];
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514', // Sonnet 4 - most powerful available
-      max_tokens: 1000,
+    const response = await getLlmGateway().complete('lead_finder.email', {
       system: `You are a copywriter for ArcVest, a Texas-based wealth management firm. Write personalized outreach emails to potential high-net-worth clients.
 
 CRITICAL RULES:
@@ -108,10 +102,7 @@ CRITICAL RULES:
 4. Never be salesy or pushy
 5. Subject lines should be 5-8 words max, feel personal
 6. Sign as "Chad Fargason" with title "Partner, ArcVest"`,
-      messages: [
-        {
-          role: 'user',
-          content: `Write an outreach email for this lead:
+      prompt: `Write an outreach email for this lead:
 
 NAME: ${firstName}
 TITLE: ${lead.title || 'Executive'}
@@ -128,23 +119,26 @@ Return JSON with this exact structure:
   "bodyHtml": "<p>Email body with HTML formatting...</p><p>Signature...</p>",
   "bodyPlain": "Plain text version of the email..."
 }`,
-        },
-      ],
-    });
+    }, { feature: 'outreach_email', correlationId: leadId });
 
     // Parse response
-    const content = response.content[0];
-    if (content.type !== 'text') {
+    if (!response.text) {
       return NextResponse.json({ error: 'Failed to generate email' }, { status: 500 });
     }
 
-    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+    const jsonMatch = response.text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       return NextResponse.json({ error: 'Failed to parse email response' }, { status: 500 });
     }
 
     const emailData = JSON.parse(jsonMatch[0]);
 
+    const compliance = new ComplianceService(supabase);
+    const complianceCheck = await compliance.check(
+      `${emailData.subject}\n\n${emailData.bodyPlain}`,
+      'outreach_email'
+    );
+
     // Save new email version
     const { data: newEmail, error: insertError } = await supabase
       .from('lead_finder_emails')
@@ -155,6 +149,7 @@ Return JSON with this exact structure:
         body_html: emailData.bodyHtml,
         body_plain: emailData.bodyPlain,
         tone,
+        compliance_check: complianceCheck,
       })
       .select()
       .single();
@@ -164,6 +159,8 @@ Return JSON with this exact structure:
       return NextResponse.json({ error: 'Failed to save email' }, { status: 500 });
     }
 
+    await compliance.record('lead_finder_emails', newEmail.id, complianceCheck);
+
     return NextResponse.json({ data: newEmail });
   } catch (error) {
     console.error('Error regenerating email:', error);
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ComplianceService } from '@arcvest/services';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -26,7 +27,7 @@ export async function PATCH(
     // Get the latest email version
     const { data: latestEmail, error: fetchError } = await supabase
       .from('lead_finder_emails')
-      .select('id, version')
+      .select('id, version, subject, body_plain')
       .eq('lead_id', leadId)
       .order('version', { ascending: false })
       .limit(1)
@@ -51,6 +52,14 @@ export async function PATCH(
       updates.body_plain = body.body_plain;
     }
 
+    // Re-check edited copy so the stored result matches what will be sent
+    const compliance = new ComplianceService(supabase);
+    const complianceCheck = await compliance.check(
+      `${body.subject ?? latestEmail.subject}\n\n${body.body_plain ?? latestEmail.body_plain}`,
+      'outreach_email'
+    );
+    updates.compliance_check = complianceCheck;
+
     const { data, error } = await supabase
       .from('lead_finder_emails')
       .update(updates)
@@ -63,6 +72,8 @@ export async function PATCH(
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    await compliance.record('lead_finder_emails', latestEmail.id, complianceCheck);
+
     return NextResponse.json({ data });
   } catch (error) {
     console.error('Error in email update API:', error);
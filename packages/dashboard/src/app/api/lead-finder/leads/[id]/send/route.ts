@@ -0,0 +1,64 @@
+/**
+ * Lead Outreach Send API
+ *
+ * POST /api/lead-finder/leads/:id/send - Send the lead's email draft via Gmail
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { GmailService, LeadOutreachService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Why a send was refused, mapped to a status and a message for the dialog
+const REFUSALS: Record<string, { status: number; error: string }> = {
+  no_draft: { status: 404, error: 'No email draft for this lead' },
+  no_recipient: { status: 400, error: 'No valid email address for this lead' },
+  already_sent: { status: 409, error: 'Outreach has already been sent to this lead' },
+  suppressed: { status: 409, error: 'Recipient is on the suppression list' },
+  daily_cap_reached: { status: 429, error: 'Daily outreach limit reached. Try again tomorrow.' },
+  compliance_blocked: { status: 422, error: 'Draft failed compliance review. Edit it before sending.' },
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const gmailService = new GmailService();
+    if (!(await gmailService.isConnected())) {
+      return NextResponse.json(
+        { error: 'Gmail not connected. Please connect Gmail first.' },
+        { status: 401 }
+      );
+    }
+
+    const outreach = new LeadOutreachService(supabase);
+    const result = await outreach.send(id, {
+      emailId: body.emailId,
+      to: body.to,
+    });
+
+    if (!result.sent) {
+      const refusal = REFUSALS[result.reason || ''] || { status: 400, error: 'Email was not sent' };
+      return NextResponse.json({ ...result, error: refusal.error }, { status: refusal.status });
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error sending outreach:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Meta Campaign Builder API
+ *
+ * GET: Builder defaults and the special ad category targeting restrictions
+ * POST: Build a lead-gen campaign in Meta (paused) and queue it for approval
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getMetaCampaignBuilder } from '@arcvest/services';
+import { metaCampaignBuilderConfig } from '@arcvest/shared';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/meta-ads/builder
+ */
+export async function GET() {
+  return NextResponse.json({ config: metaCampaignBuilderConfig });
+}
+
+/**
+ * POST /api/meta-ads/builder
+ * Body: { name, dailyBudget, targeting, startTime?, linkUrl?, leadForm, ads }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const draft = await request.json();
+    const result = await getMetaCampaignBuilder().build(draft, user.email);
+
+    // Validation, compliance and Meta errors come back as issues for the form
+    return NextResponse.json(result, { status: result.success ? 200 : 422 });
+  } catch (error) {
+    console.error('Error in POST /api/meta-ads/builder:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to build campaign' },
+      { status: 500 }
+    );
+  }
+}
+
+export const maxDuration = 120;
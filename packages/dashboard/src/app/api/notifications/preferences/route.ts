@@ -0,0 +1,91 @@
+/**
+ * Notification Preferences API
+ *
+ * GET: The signed-in user's mute and routing rules, plus the default rules
+ * PUT: Update them ({ muted_until, muted_sources, rules })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getNotificationService } from '@arcvest/services';
+import { notificationsConfig } from '@arcvest/shared';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SOURCES = ['kpi', 'budget', 'job', 'optimizer'];
+const SEVERITIES = ['info', 'warning', 'critical'];
+const CHANNELS = ['in_app', 'email'];
+
+async function getUserEmail(): Promise<string | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.email || null;
+}
+
+/**
+ * GET /api/notifications/preferences
+ */
+export async function GET() {
+  try {
+    const email = await getUserEmail();
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const preferences = await getNotificationService().getPreferences(email);
+
+    return NextResponse.json({ preferences, defaults: notificationsConfig.default_rules });
+  } catch (error) {
+    console.error('Error in GET /api/notifications/preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const email = await getUserEmail();
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if ('muted_until' in body) {
+      if (body.muted_until !== null && isNaN(Date.parse(body.muted_until))) {
+        return NextResponse.json({ error: 'muted_until must be a date or null' }, { status: 400 });
+      }
+      updates.muted_until = body.muted_until;
+    }
+
+    if ('muted_sources' in body) {
+      if (!Array.isArray(body.muted_sources) || body.muted_sources.some((s: string) => !SOURCES.includes(s))) {
+        return NextResponse.json({ error: `muted_sources must be a list of: ${SOURCES.join(', ')}` }, { status: 400 });
+      }
+      updates.muted_sources = body.muted_sources;
+    }
+
+    if ('rules' in body) {
+      const valid = Array.isArray(body.rules) && body.rules.every((rule: Record<string, unknown>) =>
+        SEVERITIES.includes(rule.min_severity as string) &&
+        Array.isArray(rule.channels) && (rule.channels as string[]).every((c) => CHANNELS.includes(c)) &&
+        (rule.sources === undefined || (Array.isArray(rule.sources) && (rule.sources as string[]).every((s) => SOURCES.includes(s))))
+      );
+      if (!valid) {
+        return NextResponse.json({ error: 'Invalid routing rules' }, { status: 400 });
+      }
+      updates.rules = body.rules;
+    }
+
+    const preferences = await getNotificationService().updatePreferences(email, updates);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error in PUT /api/notifications/preferences:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Notifications API
+ *
+ * GET: The signed-in user's in-app notifications and unread count
+ * POST: Mark notifications read ({ ids } or all of them)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getNotificationService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getUserEmail(): Promise<string | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.email || null;
+}
+
+/**
+ * GET /api/notifications
+ */
+export async function GET() {
+  try {
+    const email = await getUserEmail();
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const inbox = await getNotificationService().getInbox(email);
+
+    return NextResponse.json(inbox);
+  } catch (error) {
+    console.error('Error in GET /api/notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/notifications
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const email = await getUserEmail();
+    if (!email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const ids = Array.isArray(body.ids) ? (body.ids as string[]) : undefined;
+
+    await getNotificationService().markRead(email, ids);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in POST /api/notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
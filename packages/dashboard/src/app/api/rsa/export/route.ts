@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { ComplianceArchiveService } from '@arcvest/services';
 
 function getSupabase() {
   const url = process.env['NEXT_PUBLIC_SUPABASE_URL'];
@@ -83,6 +84,29 @@ export async function POST(request: NextRequest) {
       final_url: finalUrl || null,
     });
 
+    // Snapshot each exported ad in the compliance archive
+    const archive = new ComplianceArchiveService(supabase);
+    for (const asset of assets) {
+      const headlines: RSAHeadline[] = asset.content?.headlines || [];
+      const descriptions: RSADescription[] = asset.content?.descriptions || [];
+      await archive.archiveSafely({
+        channel: 'google_ads',
+        artifactType: 'creative_assets',
+        artifactId: asset.id,
+        title: asset.name,
+        content: {
+          headlines,
+          descriptions,
+          campaign_name: campaignName || null,
+          ad_group_name: adGroupName || null,
+          final_url: finalUrl || null,
+        },
+        contentText: [...headlines.map(h => h.text), ...descriptions.map(d => d.text)].join('\n'),
+        publishedBy: 'rsa_export',
+        metadata: { export_format: format, persona_id: asset.persona_id, voice_id: asset.voice_id },
+      });
+    }
+
     if (format === 'json') {
       return NextResponse.json({
         success: true,
@@ -0,0 +1,68 @@
+/**
+ * Keyword Rankings API
+ *
+ * GET   /api/search-console/rankings - Tracked keywords, open rank alerts and cannibalized queries
+ * PATCH /api/search-console/rankings - Acknowledge an alert { alertId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRankTrackingService } from '@arcvest/services';
+import { createClient } from '@/lib/supabase/server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const rankTracking = getRankTrackingService();
+
+    const [{ data: keywords, error }, alerts, cannibalization] = await Promise.all([
+      supabase
+        .from('tracked_keywords')
+        .select('id, keyword, priority, target_url, current_rank, current_position, previous_rank, url_ranking, data_date, last_checked')
+        .order('priority', { ascending: true })
+        .order('current_rank', { ascending: true, nullsFirst: false }),
+      rankTracking.getAlerts({ openOnly: true, limit: 50 }),
+      rankTracking.getCannibalization(),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to get tracked keywords: ${error.message}`);
+    }
+
+    return NextResponse.json({
+      data: {
+        keywords: keywords || [],
+        alerts,
+        cannibalization,
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/search-console/rankings:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load rankings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { alertId } = await request.json();
+
+    if (!alertId) {
+      return NextResponse.json({ error: 'alertId is required' }, { status: 400 });
+    }
+
+    await getRankTrackingService().acknowledgeAlert(alertId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in PATCH /api/search-console/rankings:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to acknowledge alert' },
+      { status: 500 }
+    );
+  }
+}
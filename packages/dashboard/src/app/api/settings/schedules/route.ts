@@ -0,0 +1,70 @@
+/**
+ * Schedule Registry API
+ *
+ * GET   /api/settings/schedules          - All schedules plus a dry run of the next 7 days (?days=N)
+ * PATCH /api/settings/schedules          - Edit a schedule: { key, cron?, enabled?, catch_up?, priority? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSchedulerService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CATCH_UP_POLICIES = ['skip', 'latest', 'all'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const days = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('days') || '7', 10) || 7, 1), 14);
+    const scheduler = getSchedulerService();
+
+    const [schedules, preview] = await Promise.all([
+      scheduler.list(),
+      scheduler.preview(days),
+    ]);
+
+    return NextResponse.json({ data: schedules, preview });
+  } catch (error) {
+    console.error('Error in GET /api/settings/schedules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { key, cron, enabled, catch_up, priority } = body as {
+      key?: string;
+      cron?: string;
+      enabled?: boolean;
+      catch_up?: string;
+      priority?: number;
+    };
+
+    if (!key) {
+      return NextResponse.json({ error: 'key is required' }, { status: 400 });
+    }
+    if (catch_up !== undefined && !CATCH_UP_POLICIES.includes(catch_up)) {
+      return NextResponse.json({ error: `catch_up must be one of ${CATCH_UP_POLICIES.join(', ')}` }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (cron !== undefined) updates.cron = cron;
+    if (enabled !== undefined) updates.enabled = Boolean(enabled);
+    if (catch_up !== undefined) updates.catch_up = catch_up;
+    if (priority !== undefined) updates.priority = Number(priority) || 0;
+
+    const schedule = await getSchedulerService().update(key, updates);
+    return NextResponse.json({ data: schedule });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    const status = message.startsWith('Invalid cron') ? 400 : message.startsWith('Schedule not found') ? 404 : 500;
+    if (status === 500) {
+      console.error('Error in PATCH /api/settings/schedules:', error);
+    }
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -14,6 +14,8 @@ import {
   getPersonaById,
   getVoiceById,
 } from '@arcvest/agents';
+import { getComplianceService } from '@arcvest/services';
+import type { ComplianceResult } from '@arcvest/shared';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 // Lazy initialization to avoid build-time errors
@@ -145,6 +147,7 @@ async function saveResultsToDatabase(
     complianceResult: { 
       passed: boolean;
       issues: Array<{ text: string }>;
+      audit?: ComplianceResult;
     };
     metadata: {
       personaId: string;
@@ -190,6 +193,10 @@ async function saveResultsToDatabase(
 
     assetsCreated++;
 
+    if (result.complianceResult.audit) {
+      await getComplianceService().record('creative_assets', masterAsset.id, result.complianceResult.audit);
+    }
+
     // Create RSA asset group
     const { error: groupError } = await getSupabase()
       .from('rsa_asset_groups')
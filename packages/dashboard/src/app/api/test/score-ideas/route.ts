@@ -29,6 +29,7 @@ export async function POST(request: NextRequest) {
       success: true,
       scored: result.scored,
       errors: result.errors,
+      merged: result.merged,
       stats,
       topScores: result.results
         .sort((a: { score: number }, b: { score: number }) => b.score - a.score)
@@ -36,6 +36,12 @@ export async function POST(
 
     const sourceId = sourceIdMap[source] || source;
 
+    console.log(`[Test] Fetching from source: ${sourceId}`);
+
+    // Fetch from the source (manual fetches ignore health backoff).
+    // Website adapters are created from their config on first fetch.
+    const result = await registry.fetchSource(sourceId, { force: true });
+
     // Check if adapter exists
     const adapter = registry.get(sourceId);
     if (!adapter) {
@@ -46,11 +52,6 @@ export async function POST(
       }, { status: 400 });
     }
 
-    console.log(`[Test] Fetching from source: ${sourceId}`);
-
-    // Fetch from the source
-    const result = await registry.fetchSource(sourceId);
-
     return NextResponse.json({
       success: result.success,
       sourceId,
@@ -29,6 +29,7 @@ export async function GET(request: NextRequest) {
       { job_type: 'news_scan', payload: {}, priority: 10 },
       { job_type: 'email_scan', payload: { sources: 'all' }, priority: 10 },
       { job_type: 'bloomberg_scan', payload: {}, priority: 9 },
+      { job_type: 'website_scan', payload: {}, priority: 9 },
       { job_type: 'score_ideas', payload: { limit: 50 }, priority: 8 },
       { job_type: 'select_daily', payload: { count: 6 }, priority: 7 },
     ];
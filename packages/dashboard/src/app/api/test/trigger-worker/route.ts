@@ -363,14 +363,15 @@ async function processScoreIdeas(logger: InstanceType<typeof PipelineLogger>): P
     const scorer = getIdeaScorer();
     const result = await scorer.scorePendingIdeas({ limit: 50 });
 
-    logger.info(`Scored ${result.scored} ideas with ${result.errors} errors`, 'score_complete', {
+    logger.info(`Scored ${result.scored} ideas with ${result.errors} errors (${result.merged} duplicates merged)`, 'score_complete', {
       scored: result.scored,
-      errors: result.errors
+      errors: result.errors,
+      merged: result.merged
     });
 
     return {
       success: true,
-      data: { scored: result.scored, errors: result.errors }
+      data: { scored: result.scored, errors: result.errors, merged: result.merged }
     };
   } catch (error) {
     logger.logError(error, 'score_error');
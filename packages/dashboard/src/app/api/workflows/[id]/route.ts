@@ -0,0 +1,77 @@
+/**
+ * Workflow Instance API
+ *
+ * GET   /api/workflows/:id - Instance with its definition
+ * PATCH /api/workflows/:id - { action: 'pause' | 'resume' | 'cancel' | 'advance' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkflowEngine } from '@arcvest/services';
+import { getWorkflowDefinition } from '@arcvest/shared';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTIONS = ['pause', 'resume', 'cancel', 'advance'] as const;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const data = await getWorkflowEngine().get(id);
+
+    if (!data) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      data,
+      definition: getWorkflowDefinition(data.workflow_type),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/workflows/[id]:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load workflow' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { action } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Valid action required (${ACTIONS.join(', ')})` }, { status: 400 });
+    }
+
+    const engine = getWorkflowEngine();
+    if (!(await engine.get(id))) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    try {
+      await engine[action as (typeof ACTIONS)[number]](id);
+    } catch (actionError) {
+      // Wrong state for the action (e.g. resuming a running workflow)
+      return NextResponse.json(
+        { error: actionError instanceof Error ? actionError.message : 'Action failed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ data: await engine.get(id) });
+  } catch (error) {
+    console.error('Error in PATCH /api/workflows/[id]:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Workflows API
+ *
+ * GET  /api/workflows - List workflow instances (?status, ?type, ?limit)
+ * POST /api/workflows - Start a workflow { type, input }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkflowEngine } from '@arcvest/services';
+import { getWorkflowDefinition, workflowDefinitions } from '@arcvest/shared';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || undefined;
+    const type = searchParams.get('type') || undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+    const data = await getWorkflowEngine().list({ status, type, limit });
+
+    return NextResponse.json({
+      data,
+      definitions: Object.values(workflowDefinitions).map((d) => ({
+        type: d!.type,
+        name: d!.name,
+        description: d!.description,
+      })),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/workflows:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list workflows' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { type, input } = body;
+
+    if (!type || !getWorkflowDefinition(type)) {
+      return NextResponse.json({ error: `Unknown workflow type: ${type}` }, { status: 400 });
+    }
+
+    const engine = getWorkflowEngine();
+    const id = await engine.start(type, input || {});
+    const data = await engine.get(id);
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/workflows:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import {
   Select,
   SelectContent,
@@ -25,6 +26,12 @@ import {
   BarChart2,
   Calendar,
   ArrowUpDown,
+  Undo2,
+  FlaskConical,
+  Zap,
+  Ban,
+  Check,
+  X,
 } from 'lucide-react';
 import {
   BarChart,
@@ -93,6 +100,53 @@ interface AdPerformanceData {
   dailySpend: DailySpend[];
 }
 
+interface OptimizationLogEntry {
+  id: string;
+  created_at: string;
+  entity_type: string;
+  entity_name: string | null;
+  action: string;
+  old_value: string | null;
+  new_value: string | null;
+  change_percentage: number | null;
+  rule_name: string;
+  reason: string;
+  status: 'pending' | 'applied' | 'failed' | 'reverted' | 'skipped';
+  error_message: string | null;
+  previous_state: Record<string, unknown> | null;
+}
+
+interface OptimizationPreview {
+  rule: string;
+  entityType: string;
+  entityName: string;
+  action: string;
+  oldValue: string | null;
+  newValue: string | null;
+  reason: string;
+  status: 'applied' | 'failed' | 'skipped' | 'preview';
+  error?: string;
+}
+
+interface SearchTermNegative {
+  id: string;
+  negative_text: string;
+  match_type: 'EXACT' | 'PHRASE';
+  level: 'campaign' | 'shared_list';
+  campaign_name: string | null;
+  category: string;
+  classified_by: 'rule' | 'llm';
+  reason: string | null;
+  search_terms: string[];
+  cost: number;
+  approval_id: string | null;
+}
+
+interface SearchTermsOverview {
+  proposed: SearchTermNegative[];
+  totals: { appliedCount: number; estimatedSavings: number; monthlyRunRate: number };
+}
+
 type SortOption =
   | 'cpc_asc'
   | 'ctr_desc'
@@ -269,6 +323,361 @@ function PlatformSummaryCard({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Optimizations Card Component
+// ---------------------------------------------------------------------------
+
+const OPTIMIZATION_STATUS_COLORS: Record<string, string> = {
+  applied: 'bg-green-100 text-green-700 border-green-200',
+  preview: 'bg-blue-100 text-blue-700 border-blue-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  reverted: 'bg-gray-100 text-gray-700 border-gray-200',
+  skipped: 'bg-gray-100 text-gray-500 border-gray-200',
+  pending: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+function formatChange(oldValue: string | null, newValue: string | null): string {
+  if (!oldValue && !newValue) return '-';
+  return `${oldValue || '?'} → ${newValue || '?'}`;
+}
+
+function OptimizationsCard() {
+  const [log, setLog] = useState<OptimizationLogEntry[]>([]);
+  const [preview, setPreview] = useState<OptimizationPreview[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLog = useCallback(async () => {
+    try {
+      const response = await fetch('/api/campaigns/optimize?limit=25');
+      if (!response.ok) throw new Error('Failed to fetch optimization history');
+      const result = await response.json();
+      setLog(result.log || []);
+    } catch (err) {
+      console.error('Error fetching optimization history:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLog();
+  }, [fetchLog]);
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/campaigns/optimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Preview failed');
+      setPreview(result.results || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleRevert = async (entry: OptimizationLogEntry) => {
+    if (!confirm(`Revert ${entry.action.replace('_', ' ')} on "${entry.entity_name}"?`)) return;
+
+    setRevertingId(entry.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/campaigns/optimize/${entry.id}/revert`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Revert failed');
+      await fetchLog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revert failed');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Google Ads Optimizations</CardTitle>
+            <CardDescription>
+              {preview
+                ? `Dry run: ${preview.length} change${preview.length !== 1 ? 's' : ''} the rules would make now`
+                : 'Bid and status changes made by the optimization rules'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {preview && (
+              <Button variant="ghost" size="sm" onClick={() => setPreview(null)}>
+                Back to history
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewing}>
+              {previewing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FlaskConical className="h-4 w-4 mr-2" />
+              )}
+              Preview rules
+            </Button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="text-left px-2 py-2 font-medium text-sm">Entity</th>
+                <th className="text-left px-2 py-2 font-medium text-sm">Action</th>
+                <th className="text-left px-2 py-2 font-medium text-sm">Change</th>
+                <th className="text-left px-2 py-2 font-medium text-sm">Rule</th>
+                <th className="text-left px-2 py-2 font-medium text-sm">Status</th>
+                <th className="text-right px-2 py-2 font-medium text-sm"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview ? (
+                preview.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                      No rule would fire right now.
+                    </td>
+                  </tr>
+                ) : (
+                  preview.map((item, i) => (
+                    <tr key={`${item.rule}-${item.entityName}-${i}`} className="border-b">
+                      <td className="px-2 py-2">
+                        <span className="font-medium text-sm">{item.entityName}</span>
+                        <p className="text-xs text-muted-foreground">{item.entityType.replace('_', ' ')}</p>
+                      </td>
+                      <td className="px-2 py-2 text-sm">{item.action.replace('_', ' ')}</td>
+                      <td className="px-2 py-2 text-sm">{formatChange(item.oldValue, item.newValue)}</td>
+                      <td className="px-2 py-2 text-sm" title={item.reason}>{item.rule}</td>
+                      <td className="px-2 py-2">
+                        <Badge className={OPTIMIZATION_STATUS_COLORS[item.status]} title={item.error}>
+                          {getStatusLabel(item.status === 'preview' ? 'would apply' : item.status)}
+                        </Badge>
+                      </td>
+                      <td className="px-2 py-2" />
+                    </tr>
+                  ))
+                )
+              ) : log.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center p-8 text-muted-foreground">
+                    <Zap className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p className="font-medium">No optimizations yet</p>
+                  </td>
+                </tr>
+              ) : (
+                log.map((entry) => (
+                  <tr key={entry.id} className="border-b hover:bg-gray-50 transition-colors">
+                    <td className="px-2 py-2">
+                      <span className="font-medium text-sm">{entry.entity_name}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {entry.entity_type.replace('_', ' ')} · {new Date(entry.created_at).toLocaleDateString()}
+                      </p>
+                    </td>
+                    <td className="px-2 py-2 text-sm">{entry.action.replace('_', ' ')}</td>
+                    <td className="px-2 py-2 text-sm">{formatChange(entry.old_value, entry.new_value)}</td>
+                    <td className="px-2 py-2 text-sm" title={entry.reason}>{entry.rule_name}</td>
+                    <td className="px-2 py-2">
+                      <Badge
+                        className={OPTIMIZATION_STATUS_COLORS[entry.status]}
+                        title={entry.error_message || undefined}
+                      >
+                        {getStatusLabel(entry.status)}
+                      </Badge>
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      {entry.status === 'applied' && entry.previous_state && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevert(entry)}
+                          disabled={revertingId !== null}
+                        >
+                          {revertingId === entry.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <Undo2 className="h-4 w-4 mr-1" />
+                          )}
+                          Revert
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Negative Keywords Card Component
+// ---------------------------------------------------------------------------
+
+function NegativeKeywordsCard() {
+  const [overview, setOverview] = useState<SearchTermsOverview | null>(null);
+  const [mining, setMining] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const response = await fetch('/api/campaigns/search-terms');
+      if (!response.ok) throw new Error('Failed to fetch negative keywords');
+      setOverview(await response.json());
+    } catch (err) {
+      console.error('Error fetching negative keywords:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  // Proposals are approved per mining run
+  const batches = useMemo(() => {
+    const groups = new Map<string, SearchTermNegative[]>();
+    for (const negative of overview?.proposed || []) {
+      if (!negative.approval_id) continue;
+      groups.set(negative.approval_id, [...(groups.get(negative.approval_id) || []), negative]);
+    }
+    return Array.from(groups.entries());
+  }, [overview]);
+
+  const handleMine = async () => {
+    setMining(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/campaigns/search-terms', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Search term mining failed');
+      await fetchOverview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search term mining failed');
+    } finally {
+      setMining(false);
+    }
+  };
+
+  const handleResolve = async (approvalId: string, action: 'approve' | 'reject') => {
+    setResolvingId(approvalId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/approvals/${approvalId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Update failed');
+      await fetchOverview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Negative Keywords</CardTitle>
+            <CardDescription>
+              {overview?.totals.appliedCount
+                ? `${overview.totals.appliedCount} applied · ~${formatCurrency(overview.totals.estimatedSavings)} saved so far (${formatCurrency(overview.totals.monthlyRunRate)}/mo)`
+                : 'Wasted spend found in the search terms report'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleMine} disabled={mining}>
+            {mining ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Ban className="h-4 w-4 mr-2" />
+            )}
+            Mine search terms
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {batches.length === 0 ? (
+          <p className="text-center py-6 text-sm text-muted-foreground">No negative keywords awaiting approval.</p>
+        ) : (
+          batches.map(([approvalId, negatives]) => (
+            <div key={approvalId} className="border rounded-md">
+              <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b">
+                <span className="text-sm font-medium">
+                  {negatives.length} proposed · {formatCurrency(negatives.reduce((sum, n) => sum + Number(n.cost), 0))} wasted
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleResolve(approvalId, 'reject')}
+                    disabled={resolvingId !== null}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button size="sm" onClick={() => handleResolve(approvalId, 'approve')} disabled={resolvingId !== null}>
+                    {resolvingId === approvalId ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4 mr-1" />
+                    )}
+                    Approve all
+                  </Button>
+                </div>
+              </div>
+              <table className="w-full">
+                <tbody>
+                  {negatives.map((negative) => (
+                    <tr key={negative.id} className="border-b last:border-0">
+                      <td className="px-3 py-2">
+                        <span className="font-medium text-sm">
+                          {negative.match_type === 'EXACT' ? `[${negative.negative_text}]` : `"${negative.negative_text}"`}
+                        </span>
+                        <p className="text-xs text-muted-foreground" title={negative.search_terms.join(', ')}>
+                          {negative.search_terms.slice(0, 3).join(', ')}
+                          {negative.search_terms.length > 3 && ` +${negative.search_terms.length - 3} more`}
+                        </p>
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        {negative.level === 'shared_list' ? 'All campaigns' : negative.campaign_name}
+                      </td>
+                      <td className="px-3 py-2 text-sm" title={negative.reason || undefined}>
+                        {negative.category.replace(/_/g, ' ')}
+                        {negative.classified_by === 'llm' && <Badge variant="outline" className="ml-2">AI</Badge>}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right">{formatCurrency(Number(negative.cost))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // AdPerformancePage Component
 // ---------------------------------------------------------------------------
@@ -543,6 +952,16 @@ export default function AdPerformancePage() {
         </CardContent>
       </Card>
 
+      {/* ------------------------------------------------------------------- */}
+      {/* Google Ads Optimizations                                            */}
+      {/* ------------------------------------------------------------------- */}
+      <OptimizationsCard />
+
+      {/* ------------------------------------------------------------------- */}
+      {/* Negative Keywords from Search Terms                                 */}
+      {/* ------------------------------------------------------------------- */}
+      <NegativeKeywordsCard />
+
       {/* ------------------------------------------------------------------- */}
       {/* Key Metrics Comparison (quick glance)                               */}
       {/* ------------------------------------------------------------------- */}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RefreshCw, Loader2, Clock, DollarSign } from 'lucide-react';
+
+interface SpendSummary {
+  pipelines: string[];
+  days: Array<{ day: string; total: number; byPipeline: Record<string, number> }>;
+  totals: Array<{ pipeline: string; calls: number; failedCalls: number; tokens: number; costUsd: number }>;
+  totalCostUsd: number;
+}
+
+const PIPELINE_LABELS: Record<string, string> = {
+  content: 'Content',
+  creative: 'Creative',
+  ideas: 'Ideas',
+  lead_finder: 'Lead Finder',
+  agents: 'Agents',
+  ads: 'Ads',
+};
+
+function formatUsd(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Days are UTC dates (YYYY-MM-DD)
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export default function AISpendPage() {
+  const [summary, setSummary] = useState<SpendSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [daysFilter, setDaysFilter] = useState('30');
+
+  const fetchSpend = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/ai-spend?days=${daysFilter}`);
+      if (!response.ok) throw new Error('Failed to fetch AI spend');
+
+      const { data } = await response.json();
+      setSummary(data || null);
+    } catch (error) {
+      console.error('Error fetching AI spend:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [daysFilter]);
+
+  useEffect(() => {
+    fetchSpend();
+  }, [fetchSpend]);
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">AI Spend</h1>
+          <p className="text-muted-foreground">
+            LLM tokens and cost per pipeline, recorded by the LLM gateway
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={daysFilter} onValueChange={setDaysFilter}>
+            <SelectTrigger className="w-32">
+              <Clock className="h-4 w-4 mr-1" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchSpend} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-6">
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-2xl font-bold">{formatUsd(summary.totalCostUsd)}</div>
+              <p className="text-sm text-muted-foreground">Total ({daysFilter} days)</p>
+            </CardContent>
+          </Card>
+          {summary.totals.map((t) => (
+            <Card key={t.pipeline}>
+              <CardContent className="p-4">
+                <div className="text-2xl font-bold">{formatUsd(t.costUsd)}</div>
+                <p className="text-sm text-muted-foreground">
+                  {PIPELINE_LABELS[t.pipeline] || t.pipeline}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t.calls.toLocaleString()} calls · {t.tokens.toLocaleString()} tokens
+                  {t.failedCalls > 0 && (
+                    <span className="text-red-600"> · {t.failedCalls} failed</span>
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Daily Spend Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend per Pipeline per Day</CardTitle>
+          <CardDescription>UTC days, most recent first</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading && !summary ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : !summary || summary.days.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <DollarSign className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No LLM usage recorded in this period.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50 text-left">
+                    <th className="px-4 py-2 font-medium">Day</th>
+                    {summary.pipelines.map((p) => (
+                      <th key={p} className="px-4 py-2 font-medium text-right">
+                        {PIPELINE_LABELS[p] || p}
+                      </th>
+                    ))}
+                    <th className="px-4 py-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {summary.days.map((d) => (
+                    <tr key={d.day} className="hover:bg-gray-50">
+                      <td className="px-4 py-2">{formatDay(d.day)}</td>
+                      {summary.pipelines.map((p) => (
+                        <td key={p} className="px-4 py-2 text-right tabular-nums">
+                          {d.byPipeline[p] ? formatUsd(d.byPipeline[p]) : '—'}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-right font-medium tabular-nums">{formatUsd(d.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
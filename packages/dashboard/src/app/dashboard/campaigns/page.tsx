@@ -88,7 +88,7 @@ interface OptimizationLog {
   change_percentage: number | null;
   rule_name: string;
   reason: string;
-  status: 'applied' | 'failed' | 'skipped';
+  status: 'applied' | 'failed' | 'skipped' | 'reverted';
   error_message: string | null;
   created_at: string;
 }
@@ -894,6 +894,9 @@ export default function CampaignsPage() {
                           {log.status === 'skipped' && (
                             <Badge variant="outline">Skipped</Badge>
                           )}
+                          {log.status === 'reverted' && (
+                            <Badge variant="outline">Reverted</Badge>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  RefreshCw,
+  Loader2,
+  Archive,
+  Download,
+  FileArchive,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  XCircle,
+  ShieldCheck,
+  ShieldAlert,
+  ExternalLink,
+} from 'lucide-react';
+import { formatDateTime } from '@/lib/utils';
+import { ARCHIVE_CHANNELS, type ArchiveRecord } from '@/lib/compliance-archive';
+
+const CHANNEL_BADGES: Record<string, string> = {
+  wordpress: 'bg-blue-100 text-blue-700',
+  google_ads: 'bg-green-100 text-green-700',
+  meta_ads: 'bg-indigo-100 text-indigo-700',
+  gmail: 'bg-orange-100 text-orange-700',
+};
+
+const PAGE_SIZE = 50;
+
+export default function ComplianceArchivePage() {
+  const [records, setRecords] = useState<ArchiveRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+
+  // Filters
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [channelFilter, setChannelFilter] = useState('all');
+  const [passedFilter, setPassedFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (query) params.set('q', query);
+    if (channelFilter !== 'all') params.set('channel', channelFilter);
+    if (passedFilter !== 'all') params.set('passed', passedFilter);
+    if (fromDate) params.set('from', new Date(fromDate).toISOString());
+    if (toDate) params.set('to', new Date(`${toDate}T23:59:59`).toISOString());
+    return params;
+  }, [query, channelFilter, passedFilter, fromDate, toDate]);
+
+  const fetchRecords = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = buildParams();
+      params.set('limit', String(PAGE_SIZE));
+      params.set('offset', String(page * PAGE_SIZE));
+
+      const response = await fetch(`/api/compliance-archive?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch archive');
+
+      const data = await response.json();
+      setRecords(data.records || []);
+      setTotal(data.total || 0);
+    } catch (error) {
+      console.error('Error fetching compliance archive:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, page]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const toggleExpand = async (id: string) => {
+    if (expanded === id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(id);
+
+    if (verified[id] === undefined) {
+      try {
+        const response = await fetch(`/api/compliance-archive/${id}`);
+        if (response.ok) {
+          const data = await response.json();
+          setVerified((prev) => ({ ...prev, [id]: data.hashVerified }));
+        }
+      } catch (error) {
+        console.error('Error verifying archive record:', error);
+      }
+    }
+  };
+
+  const exportArchive = (format: 'zip' | 'json') => {
+    const params = buildParams();
+    params.set('format', format);
+    window.location.href = `/api/compliance-archive/export?${params}`;
+  };
+
+  const applySearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setQuery(search.trim());
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Compliance Archive</h1>
+          <p className="text-muted-foreground">
+            Immutable record of every published advertisement and outbound email
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => exportArchive('json')} disabled={total === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button onClick={() => exportArchive('zip')} disabled={total === 0}>
+            <FileArchive className="h-4 w-4 mr-2" />
+            Export ZIP
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={applySearch} className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Search content..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-64"
+            />
+            <Select value={channelFilter} onValueChange={(v) => { setChannelFilter(v); setPage(0); }}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Channels</SelectItem>
+                {ARCHIVE_CHANNELS.map((c) => (
+                  <SelectItem key={c.value} value={c.value}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={passedFilter} onValueChange={(v) => { setPassedFilter(v); setPage(0); }}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Compliance" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Results</SelectItem>
+                <SelectItem value="true">Passed</SelectItem>
+                <SelectItem value="false">Flagged</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => { setFromDate(e.target.value); setPage(0); }}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => { setToDate(e.target.value); setPage(0); }}
+              className="w-40"
+            />
+            <Button type="submit" variant="outline">
+              Search
+            </Button>
+            <Button type="button" variant="ghost" onClick={fetchRecords} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Records */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Archived Releases</CardTitle>
+          <CardDescription>
+            {total} record{total !== 1 ? 's' : ''} matching filters
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading && records.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Archive className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No archived releases found.</p>
+            </div>
+          ) : (
+            <div className="divide-y">
+              {records.map((record) => {
+                const isExpanded = expanded === record.id;
+                const channel = ARCHIVE_CHANNELS.find((c) => c.value === record.channel);
+
+                return (
+                  <div key={record.id} className="px-4 py-3 hover:bg-gray-50">
+                    <div className="flex items-start gap-3">
+                      <button
+                        className="mt-0.5 p-0.5 hover:bg-gray-200 rounded"
+                        onClick={() => toggleExpand(record.id)}
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="h-4 w-4 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4 text-gray-400" />
+                        )}
+                      </button>
+
+                      {record.compliance_passed ? (
+                        <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+                      )}
+
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="text-sm font-medium">{record.title || 'Untitled'}</span>
+                          <Badge className={`${CHANNEL_BADGES[record.channel] || ''} text-xs px-1.5 py-0`}>
+                            {channel?.label || record.channel}
+                          </Badge>
+                          {record.external_url && (
+                            <a
+                              href={record.external_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground flex-wrap">
+                          <span>Published {formatDateTime(record.published_at)}</span>
+                          <span>
+                            {record.approved_by
+                              ? `Approved by ${record.approved_by}${record.approved_at ? ` ${formatDateTime(record.approved_at)}` : ''}`
+                              : 'No approval on file'}
+                          </span>
+                          {record.rules_version && <span>Rules v{record.rules_version}</span>}
+                          <span className="font-mono">{record.content_hash.slice(0, 12)}</span>
+                        </div>
+                      </div>
+                    </div>
+
+                    {isExpanded && (
+                      <div className="mt-3 ml-11 space-y-3">
+                        <div className="flex items-center gap-2 text-xs">
+                          {verified[record.id] === undefined ? (
+                            <span className="text-muted-foreground">Verifying hash...</span>
+                          ) : verified[record.id] ? (
+                            <span className="flex items-center gap-1 text-green-700">
+                              <ShieldCheck className="h-4 w-4" /> Content matches hash recorded at release
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-red-700">
+                              <ShieldAlert className="h-4 w-4" /> Content does not match recorded hash
+                            </span>
+                          )}
+                        </div>
+                        <div className="p-3 bg-gray-100 rounded text-sm whitespace-pre-wrap max-h-96 overflow-y-auto">
+                          {record.content_text}
+                        </div>
+                        {record.compliance_check && (
+                          <div className="p-2 bg-gray-100 rounded text-xs font-mono overflow-x-auto">
+                            <pre className="whitespace-pre-wrap">
+                              {JSON.stringify(record.compliance_check, null, 2)}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            Page {page + 1} of {totalPages}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0}>
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page + 1 >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -39,6 +39,7 @@ import {
   MessageSquare,
   Plus,
   Trash2,
+  Target,
 } from 'lucide-react';
 import { use } from 'react';
 
@@ -66,6 +67,33 @@ interface Interaction {
   created_by: string | null;
 }
 
+interface OfflineConversion {
+  id: string;
+  platform: 'google_ads' | 'meta';
+  stage: string;
+  event_name: string;
+  status: 'pending' | 'uploaded' | 'failed' | 'skipped';
+  skip_reason: string | null;
+  attempts: number;
+  last_error: string | null;
+  uploaded_at: string | null;
+  created_at: string;
+}
+
+const conversionStatusVariants: Record<OfflineConversion['status'], 'secondary' | 'success' | 'warning' | 'destructive'> = {
+  pending: 'warning',
+  uploaded: 'success',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+const skipReasonLabels: Record<string, string> = {
+  no_click_id: 'No ad click on record',
+  click_outside_window: 'Ad click older than 90 days',
+  event_outside_window: 'Event older than 7 days',
+  not_configured: 'Platform not configured',
+};
+
 const statusOptions = [
   { value: 'new_lead', label: 'New Lead' },
   { value: 'contacted', label: 'Contacted' },
@@ -131,6 +159,7 @@ export default function ContactDetailPage({ params }: { params: Promise<{ id: st
 
   const [contact, setContact] = useState<Contact | null>(null);
   const [interactions, setInteractions] = useState<Interaction[]>([]);
+  const [conversions, setConversions] = useState<OfflineConversion[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -179,10 +208,23 @@ export default function ContactDetailPage({ params }: { params: Promise<{ id: st
     }
   }, [id]);
 
+  const fetchConversions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/contacts/${id}/conversions`);
+      if (response.ok) {
+        const data = await response.json();
+        setConversions(data.data || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch conversions:', err);
+    }
+  }, [id]);
+
   useEffect(() => {
     fetchContact();
     fetchInteractions();
-  }, [fetchContact, fetchInteractions]);
+    fetchConversions();
+  }, [fetchContact, fetchInteractions, fetchConversions]);
 
   const handleSave = async () => {
     if (!contact) return;
@@ -197,6 +239,7 @@ export default function ContactDetailPage({ params }: { params: Promise<{ id: st
       const data = await response.json();
       setContact(data.data);
       setIsEditing(false);
+      fetchConversions(); // A status change may have queued uploads
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to update contact');
     } finally {
@@ -482,6 +525,48 @@ export default function ContactDetailPage({ params }: { params: Promise<{ id: st
             </CardContent>
           </Card>
 
+          {/* Ad Platform Conversions Card */}
+          {conversions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  Ad Conversions
+                </CardTitle>
+                <CardDescription>Pipeline stages reported to Google Ads and Meta</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {conversions.map((conversion) => (
+                  <div key={conversion.id} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">
+                        {conversion.platform === 'google_ads' ? 'Google Ads' : 'Meta'}
+                        {' · '}
+                        {statusOptions.find((s) => s.value === conversion.stage)?.label || conversion.stage}
+                      </span>
+                      <Badge variant={conversionStatusVariants[conversion.status]} className="capitalize">
+                        {conversion.status}
+                      </Badge>
+                    </div>
+                    {conversion.status === 'uploaded' && (
+                      <p className="text-xs text-muted-foreground">Uploaded {formatRelativeTime(conversion.uploaded_at)}</p>
+                    )}
+                    {conversion.status === 'skipped' && conversion.skip_reason && (
+                      <p className="text-xs text-muted-foreground">
+                        {skipReasonLabels[conversion.skip_reason] || conversion.skip_reason}
+                      </p>
+                    )}
+                    {conversion.last_error && conversion.status !== 'uploaded' && (
+                      <p className="text-xs text-destructive">
+                        {conversion.last_error} ({conversion.attempts} {conversion.attempts === 1 ? 'attempt' : 'attempts'})
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Timeline Card */}
           <Card>
             <CardHeader>
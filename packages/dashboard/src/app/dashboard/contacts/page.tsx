@@ -106,9 +106,14 @@ function formatSource(source: string) {
     google_ads_search: 'Google Ads',
     google_ads_display: 'Google Display',
     linkedin_ads: 'LinkedIn Ads',
+    meta_ads: 'Meta Ads',
     organic_search: 'Organic Search',
+    organic_social: 'Organic Social',
+    email: 'Email',
     referral_client: 'Client Referral',
     referral_professional: 'Professional Referral',
+    referral_other: 'Referral',
+    landing_page: 'Landing Page',
     csv_import: 'CSV Import',
     direct: 'Direct',
   };
@@ -68,6 +68,7 @@ interface ContentItem {
   views: number;
   engagements: number;
   leads_attributed: number;
+  wordpress_sync_conflict?: boolean;
   created_at: string;
 }
 
@@ -81,6 +82,24 @@ const CONTENT_TYPES = [
   { value: 'video_script', label: 'Video Script' },
 ];
 
+interface WeekCoverage {
+  week: string;
+  counts: Record<string, number>;
+  targets: Record<string, number>;
+  underTarget: string[];
+}
+
+// Local YYYY-MM-DD (publishing weeks start on Monday)
+function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function getWeekStart(date: Date): string {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return formatLocalDate(monday);
+}
+
 const STATUSES = [
   { value: 'idea', label: 'Idea', color: 'bg-gray-100 text-gray-700' },
   { value: 'assigned', label: 'Assigned', color: 'bg-blue-100 text-blue-700' },
@@ -146,6 +165,10 @@ export default function ContentPage() {
   // Preview state
   const [previewContent, setPreviewContent] = useState<ContentItem | null>(null);
 
+  // Publishing slots
+  const [coverage, setCoverage] = useState<WeekCoverage[]>([]);
+  const [allocating, setAllocating] = useState(false);
+
   // Form state
   const [formData, setFormData] = useState({
     title: '',
@@ -179,6 +202,42 @@ export default function ContentPage() {
     fetchContent();
   }, [fetchContent]);
 
+  const fetchCoverage = useCallback(async () => {
+    try {
+      const monthStart = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+      const response = await fetch(`/api/content/schedule?from=${formatLocalDate(monthStart)}&weeks=6`);
+      if (!response.ok) throw new Error('Failed to fetch schedule coverage');
+      const data = await response.json();
+      setCoverage(data.weeks || []);
+    } catch (error) {
+      console.error('Error fetching schedule coverage:', error);
+    }
+  }, [currentMonth]);
+
+  useEffect(() => {
+    if (viewMode === 'calendar') {
+      fetchCoverage();
+    }
+  }, [viewMode, fetchCoverage]);
+
+  const handleAllocateSlots = async () => {
+    setAllocating(true);
+    try {
+      const response = await fetch('/api/content/schedule', { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to schedule content');
+      const data = await response.json();
+      if (data.allocation?.errors?.length) {
+        alert(`Some content could not be scheduled:\n${data.allocation.errors.join('\n')}`);
+      }
+      await Promise.all([fetchContent(), fetchCoverage()]);
+    } catch (error) {
+      console.error('Error scheduling content:', error);
+      alert('Failed to schedule content');
+    } finally {
+      setAllocating(false);
+    }
+  };
+
   const handleCreate = async () => {
     setSaving(true);
     try {
@@ -247,6 +306,26 @@ export default function ContentPage() {
     }
   };
 
+  const handleResolveConflict = async (id: string, keep: 'local' | 'wordpress') => {
+    const message = keep === 'wordpress'
+      ? 'Replace this content with the version edited in WordPress?'
+      : 'Overwrite the WordPress post with this version?';
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch(`/api/content/${id}/sync-conflict`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keep }),
+      });
+      if (!response.ok) throw new Error('Failed to resolve conflict');
+      fetchContent();
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      alert('Failed to resolve conflict');
+    }
+  };
+
   // Bulk operations
   const handleBulkStatusChange = async (newStatus: string) => {
     const ids = Array.from(selectedIds);
@@ -475,6 +554,9 @@ export default function ContentPage() {
     return days;
   };
 
+  const underTargetWeeks = coverage.filter((week) => week.underTarget.length > 0);
+  const underTargetWeekSet = new Set(underTargetWeeks.map((week) => week.week));
+
   const getContentForDate = (date: Date) => {
     const dateStr = date.toISOString().split('T')[0];
     return content.filter((item) => item.scheduled_date === dateStr);
@@ -705,13 +787,38 @@ export default function ContentPage() {
               <Button variant="ghost" onClick={() => navigateMonth(-1)}>
                 <ChevronLeft className="h-4 w-4" />
               </Button>
-              <CardTitle>{monthName}</CardTitle>
+              <div className="flex items-center gap-3">
+                <CardTitle>{monthName}</CardTitle>
+                <Button variant="outline" size="sm" onClick={handleAllocateSlots} disabled={allocating}>
+                  {allocating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Calendar className="h-4 w-4 mr-2" />
+                  )}
+                  Fill Open Slots
+                </Button>
+              </div>
               <Button variant="ghost" onClick={() => navigateMonth(1)}>
                 <ChevronRight className="h-4 w-4" />
               </Button>
             </div>
           </CardHeader>
           <CardContent>
+            {underTargetWeeks.length > 0 && (
+              <div className="mb-4 space-y-1">
+                {underTargetWeeks.map((week) => (
+                  <div key={week.week} className="flex items-center gap-2 text-sm text-amber-700">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>
+                      Week of {new Date(`${week.week}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} is under target:{' '}
+                      {week.underTarget
+                        .map((type) => `${CONTENT_TYPES.find((t) => t.value === type)?.label || type} (${week.counts[type] || 0}/${week.targets[type]})`)
+                        .join(', ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-7 gap-px bg-gray-200">
               {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
                 <div key={day} className="bg-gray-50 p-2 text-center text-sm font-medium">
@@ -721,7 +828,9 @@ export default function ContentPage() {
               {days.map((date, index) => (
                 <div
                   key={index}
-                  className={`bg-white min-h-[100px] p-1 ${
+                  className={`min-h-[100px] p-1 ${
+                    date && underTargetWeekSet.has(getWeekStart(date)) ? 'bg-amber-50' : 'bg-white'
+                  } ${
                     date && date.toDateString() === new Date().toDateString()
                       ? 'ring-2 ring-primary ring-inset'
                       : ''
@@ -799,6 +908,29 @@ export default function ContentPage() {
                         </td>
                         <td className="px-2 py-1.5">
                           <span className="font-medium text-sm">{item.title || 'Untitled'}</span>
+                          {item.wordpress_sync_conflict && (
+                            <div className="flex items-center gap-1 mt-0.5">
+                              <Badge
+                                className="bg-amber-100 text-amber-700 text-xs px-1.5 py-0"
+                                title="Edited in WordPress and here since the last sync"
+                              >
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                WordPress conflict
+                              </Badge>
+                              <button
+                                className="text-xs text-blue-600 hover:underline"
+                                onClick={() => handleResolveConflict(item.id, 'local')}
+                              >
+                                Keep ours
+                              </button>
+                              <button
+                                className="text-xs text-blue-600 hover:underline"
+                                onClick={() => handleResolveConflict(item.id, 'wordpress')}
+                              >
+                                Keep WordPress
+                              </button>
+                            </div>
+                          )}
                         </td>
                         <td className="px-2 py-1.5 text-muted-foreground">{getContentTypeLabel(item.content_type)}</td>
                         <td className="px-2 py-1.5">
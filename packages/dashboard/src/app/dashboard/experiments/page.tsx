@@ -46,6 +46,9 @@ interface Experiment {
   voice_id: string | null;
   num_variations: number;
   auto_optimize: boolean;
+  allocation_mode: string;
+  significance_method: string;
+  confidence_level: number;
   winner_variation_id: string | null;
   created_at: string;
   updated_at: string;
@@ -73,6 +76,8 @@ interface Variation {
   conversions: number;
   ctr: number;
   cpc: number;
+  allocation_share: number | null;
+  cpc_bid: number | null;
   created_at: string;
 }
 
@@ -84,10 +89,30 @@ interface ExperimentLog {
   created_at: string;
 }
 
+interface SignificanceSnapshot {
+  method: string;
+  tested_rate: string;
+  confidence_level: number;
+  best_variation_id: string;
+  winner_variation_id: string | null;
+  variations: Array<{
+    variation_id: string;
+    variation_number: number;
+    rate: number;
+    interval_lower: number;
+    interval_upper: number;
+    probability_best: number;
+    confidence_vs_best: number | null;
+  }>;
+}
+
 interface WizardData {
   name: string;
   description: string;
   optimization_metric: string;
+  allocation_mode: string;
+  significance_method: string;
+  confidence_level: string;
   keywords: string;
   match_type: string;
   landing_page_url: string;
@@ -143,12 +168,27 @@ const METRIC_LABELS: Record<string, string> = {
   impressions: 'Impressions',
 };
 
+const ALLOCATION_MODE_LABELS: Record<string, string> = {
+  ab_test: 'A/B test (pause losers)',
+  thompson_sampling: 'Thompson sampling (shift bids)',
+};
+
+const SIGNIFICANCE_METHOD_LABELS: Record<string, string> = {
+  bayesian: 'Bayesian (beta-binomial)',
+  z_test: 'Two-proportion z-test',
+};
+
+const CONFIDENCE_LEVELS = ['0.9', '0.95', '0.99'];
+
 const CHART_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1'];
 
 const DEFAULT_WIZARD: WizardData = {
   name: '',
   description: '',
   optimization_metric: 'ctr',
+  allocation_mode: 'ab_test',
+  significance_method: 'bayesian',
+  confidence_level: '0.95',
   keywords: '',
   match_type: 'broad',
   landing_page_url: '',
@@ -252,6 +292,9 @@ export default function ExperimentsPage() {
           name: wizardData.name,
           description: wizardData.description || null,
           optimization_metric: wizardData.optimization_metric,
+          allocation_mode: wizardData.allocation_mode,
+          significance_method: wizardData.significance_method,
+          confidence_level: parseFloat(wizardData.confidence_level),
           keywords,
           match_type: wizardData.match_type,
           landing_page_url: wizardData.landing_page_url || null,
@@ -599,6 +642,50 @@ export default function ExperimentsPage() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>Allocation Mode</Label>
+                <Select
+                  value={wizardData.allocation_mode}
+                  onValueChange={(v) => setWizardData({ ...wizardData, allocation_mode: v })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ALLOCATION_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Significance Test</Label>
+                  <Select
+                    value={wizardData.significance_method}
+                    onValueChange={(v) => setWizardData({ ...wizardData, significance_method: v })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SIGNIFICANCE_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Required Confidence</Label>
+                  <Select
+                    value={wizardData.confidence_level}
+                    onValueChange={(v) => setWizardData({ ...wizardData, confidence_level: v })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CONFIDENCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>{(parseFloat(level) * 100).toFixed(0)}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
               <div className="flex justify-end">
                 <Button onClick={() => setWizardStep(2)} disabled={!wizardData.name}>
                   Next <ChevronRight className="h-4 w-4 ml-1" />
@@ -881,6 +968,16 @@ export default function ExperimentsPage() {
                     <span className="text-gray-500">Optimization</span>
                     <span className="font-medium">{METRIC_LABELS[wizardData.optimization_metric]}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Allocation</span>
+                    <span className="font-medium">{ALLOCATION_MODE_LABELS[wizardData.allocation_mode]}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Significance</span>
+                    <span className="font-medium">
+                      {SIGNIFICANCE_METHOD_LABELS[wizardData.significance_method]} at {(parseFloat(wizardData.confidence_level) * 100).toFixed(0)}%
+                    </span>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -963,10 +1060,15 @@ function ExperimentDetail({
   const totalImpressions = variations.reduce((sum, v) => sum + v.impressions, 0);
   const bestCtr = variations.length > 0 ? Math.max(...variations.map((v) => v.ctr)) : 0;
 
+  // Logs are newest first, so this is the optimizer's latest significance run
+  const significance = experiment.logs?.find((log) => log.action === 'optimizer_significance')
+    ?.details as unknown as SignificanceSnapshot | undefined;
+
   const isLive = experiment.status === 'live';
   const isPaused = experiment.status === 'paused';
   const isCompleted = experiment.status === 'completed';
   const isDraft = experiment.status === 'draft' || experiment.status === 'ready';
+  const isBandit = experiment.allocation_mode === 'thompson_sampling';
 
   if (loading) {
     return (
@@ -987,6 +1089,9 @@ function ExperimentDetail({
           <h1 className="text-2xl font-bold text-gray-900">{experiment.name}</h1>
           <Badge className={STATUS_COLORS[experiment.status]}>{experiment.status}</Badge>
           <Badge variant="outline">{METRIC_LABELS[experiment.optimization_metric]}</Badge>
+          {experiment.allocation_mode === 'thompson_sampling' && (
+            <Badge variant="outline">Bandit</Badge>
+          )}
           <span className="text-sm text-gray-500">{formatCurrency(experiment.daily_budget)}/day</span>
         </div>
         <div className="flex items-center gap-2">
@@ -1099,6 +1204,8 @@ function ExperimentDetail({
                   <th className="px-4 py-3 font-medium text-right">CTR</th>
                   <th className="px-4 py-3 font-medium text-right">CPC</th>
                   <th className="px-4 py-3 font-medium text-right">Cost</th>
+                  {isBandit && <th className="px-4 py-3 font-medium text-right">Share</th>}
+                  {isBandit && <th className="px-4 py-3 font-medium text-right">Bid</th>}
                   {(isLive || isPaused) && <th className="px-4 py-3 font-medium">Action</th>}
                 </tr>
               </thead>
@@ -1126,6 +1233,16 @@ function ExperimentDetail({
                     <td className="px-4 py-3 text-right font-medium">{v.ctr.toFixed(2)}%</td>
                     <td className="px-4 py-3 text-right">{formatCurrency(v.cpc)}</td>
                     <td className="px-4 py-3 text-right">{formatCurrency(Number(v.cost))}</td>
+                    {isBandit && (
+                      <td className="px-4 py-3 text-right">
+                        {v.allocation_share !== null ? `${(Number(v.allocation_share) * 100).toFixed(0)}%` : '—'}
+                      </td>
+                    )}
+                    {isBandit && (
+                      <td className="px-4 py-3 text-right">
+                        {v.cpc_bid !== null ? formatCurrency(Number(v.cpc_bid)) : '—'}
+                      </td>
+                    )}
                     {(isLive || isPaused) && (
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-1">
@@ -1163,6 +1280,64 @@ function ExperimentDetail({
         </CardContent>
       </Card>
 
+      {/* Statistical Significance */}
+      {significance && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Statistical Significance</CardTitle>
+            <CardDescription>
+              {SIGNIFICANCE_METHOD_LABELS[significance.method] || significance.method} on{' '}
+              {significance.tested_rate === 'ctr' ? 'CTR' : 'conversion rate'} at{' '}
+              {(significance.confidence_level * 100).toFixed(0)}% confidence
+              {significance.winner_variation_id ? ' — winner found' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b text-left text-sm text-gray-500">
+                    <th className="px-4 py-3 font-medium">#</th>
+                    <th className="px-4 py-3 font-medium text-right">Rate</th>
+                    <th className="px-4 py-3 font-medium text-right">
+                      {significance.method === 'bayesian' ? 'Credible Interval' : 'Confidence Interval'}
+                    </th>
+                    <th className="px-4 py-3 font-medium text-right">Probability Best</th>
+                    <th className="px-4 py-3 font-medium text-right">Confidence Leader Is Better</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {significance.variations.map((s) => (
+                    <tr key={s.variation_id} className="border-b">
+                      <td className="px-4 py-3 font-medium">
+                        {s.variation_number}
+                        {s.variation_id === significance.best_variation_id && (
+                          <Trophy className="inline h-3 w-3 ml-1 text-yellow-500" />
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">{(s.rate * 100).toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right text-gray-600">
+                        {(s.interval_lower * 100).toFixed(2)}% – {(s.interval_upper * 100).toFixed(2)}%
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium">{(s.probability_best * 100).toFixed(1)}%</td>
+                      <td className="px-4 py-3 text-right">
+                        {s.confidence_vs_best === null ? (
+                          <span className="text-gray-400">Leader</span>
+                        ) : (
+                          <span className={s.confidence_vs_best >= significance.confidence_level ? 'text-red-600 font-medium' : ''}>
+                            {(s.confidence_vs_best * 100).toFixed(1)}%
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Performance Chart */}
       {variations.some((v) => v.impressions > 0) && (
         <Card>
@@ -1214,9 +1389,13 @@ function ExperimentDetail({
                     {log.action === 'optimizer_paused_variation' && <XCircle className="h-4 w-4 text-red-500" />}
                     {log.action === 'optimizer_declared_winner' && <Trophy className="h-4 w-4 text-emerald-500" />}
                     {log.action === 'optimizer_synced' && <RefreshCw className="h-4 w-4 text-blue-500" />}
+                    {log.action === 'optimizer_significance' && <TrendingUp className="h-4 w-4 text-purple-500" />}
+                    {log.action === 'optimizer_reallocated' && <DollarSign className="h-4 w-4 text-blue-500" />}
+                    {log.action === 'optimizer_reallocation_failed' && <XCircle className="h-4 w-4 text-orange-500" />}
                     {log.action === 'manual_unpause' && <Play className="h-4 w-4 text-green-500" />}
                     {!['deployed', 'paused', 'resumed', 'completed', 'synced', 'generated',
-                      'optimizer_paused_variation', 'optimizer_declared_winner', 'optimizer_synced', 'manual_unpause',
+                      'optimizer_paused_variation', 'optimizer_declared_winner', 'optimizer_synced', 'optimizer_significance',
+                      'optimizer_reallocated', 'optimizer_reallocation_failed', 'manual_unpause',
                     ].includes(log.action) && (
                       <Check className="h-4 w-4 text-gray-400" />
                     )}
@@ -29,9 +29,17 @@ import {
   Filter,
   Zap,
   Target,
+  Layers,
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 
+interface ClusterSourceLink {
+  idea_id: string;
+  source_name: string;
+  title: string;
+  url: string | null;
+}
+
 interface Idea {
   id: string;
   title: string;
@@ -46,6 +54,8 @@ interface Idea {
   selected_for_date: string | null;
   selection_rank: number | null;
   created_at: string;
+  cluster_id: string | null;
+  cluster: { member_count: number; source_links: ClusterSourceLink[] } | null;
 }
 
 const STATUSES = [
@@ -56,6 +66,7 @@ const STATUSES = [
   { value: 'completed', label: 'Completed', color: 'bg-green-100 text-green-700', icon: CheckCircle },
   { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-700', icon: XCircle },
   { value: 'archived', label: 'Archived', color: 'bg-gray-100 text-gray-500', icon: Filter },
+  { value: 'merged', label: 'Merged', color: 'bg-gray-100 text-gray-500', icon: Layers },
 ];
 
 const getStatusConfig = (status: string) => {
@@ -91,7 +102,7 @@ export default function IdeasPage() {
 
       let query = supabase
         .from('idea_queue')
-        .select('id, title, summary, source_name, source_id, original_url, relevance_score, score_reason, suggested_angle, status, selected_for_date, selection_rank, created_at')
+        .select('id, title, summary, source_name, source_id, original_url, relevance_score, score_reason, suggested_angle, status, selected_for_date, selection_rank, created_at, cluster_id, cluster:idea_clusters!cluster_id(member_count, source_links)')
         .order('created_at', { ascending: false })
         .limit(200);
 
@@ -109,7 +120,7 @@ export default function IdeasPage() {
         return;
       }
 
-      setIdeas(data || []);
+      setIdeas((data || []) as unknown as Idea[]);
 
       // Get unique sources
       const uniqueSources = [...new Set((data || []).map(i => i.source_id))].filter(Boolean);
@@ -376,6 +387,30 @@ export default function IdeasPage() {
                               {idea.score_reason}
                             </div>
                           )}
+                          {idea.cluster && idea.cluster.member_count > 1 && (
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground flex-wrap">
+                              <Layers className="h-3 w-3" />
+                              <span>Also covered by</span>
+                              {idea.cluster.source_links
+                                .filter((link) => link.idea_id !== idea.id)
+                                .map((link) =>
+                                  link.url ? (
+                                    <a
+                                      key={link.idea_id}
+                                      href={link.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="underline hover:text-foreground"
+                                      title={link.title}
+                                    >
+                                      {link.source_name}
+                                    </a>
+                                  ) : (
+                                    <span key={link.idea_id} title={link.title}>{link.source_name}</span>
+                                  )
+                                )}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="p-3">
@@ -96,6 +96,7 @@ const statusColors: Record<string, string> = {
   skipped: 'bg-yellow-100 text-yellow-700',
   responded: 'bg-purple-100 text-purple-700',
   converted: 'bg-emerald-100 text-emerald-700',
+  bounced: 'bg-red-100 text-red-700',
 };
 
 const triggerLabels: Record<string, string> = {
@@ -133,6 +134,9 @@ export default function LeadFinderPage() {
   const [editedSubject, setEditedSubject] = useState('');
   const [editedBody, setEditedBody] = useState('');
   const [selectedTone, setSelectedTone] = useState('congratulatory');
+  const [recipient, setRecipient] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
   
   // Filters
   const [tierFilter, setTierFilter] = useState<string>('all');
@@ -205,6 +209,10 @@ export default function LeadFinderPage() {
       setEditedBody(email.body_plain);
       setSelectedTone(email.tone);
     }
+    const foundEmail = lead.contact_paths?.find(p => p.type === 'generic_email');
+    const predictedEmail = lead.contact_paths?.find(p => p.type === 'predicted_email');
+    setRecipient((foundEmail || predictedEmail)?.value || '');
+    setSendError(null);
     setIsEmailDialogOpen(true);
   };
 
@@ -238,6 +246,50 @@ export default function LeadFinderPage() {
     }
   };
 
+  const handleSendEmail = async () => {
+    if (!selectedLead || !recipient) return;
+
+    const email = selectedLead.lead_finder_emails?.[0];
+    if (!email) return;
+
+    setSending(true);
+    setSendError(null);
+    try {
+      // Save edits first so the sent copy is compliance-checked and archived
+      if (editedSubject !== email.subject || editedBody !== email.body_plain) {
+        const saveResponse = await fetch(`/api/lead-finder/emails/${selectedLead.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ subject: editedSubject, body_plain: editedBody }),
+        });
+        if (!saveResponse.ok) {
+          setSendError('Failed to save your edits');
+          return;
+        }
+      }
+
+      const response = await fetch(`/api/lead-finder/leads/${selectedLead.id}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailId: email.id, to: recipient }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setSendError(result.error || 'Failed to send email');
+        return;
+      }
+
+      setIsEmailDialogOpen(false);
+      fetchLeads();
+    } catch (error) {
+      console.error('Error sending email:', error);
+      setSendError('Failed to send email');
+    } finally {
+      setSending(false);
+    }
+  };
+
   const handleSkip = async () => {
     if (!selectedLead) return;
 
@@ -717,6 +769,36 @@ export default function LeadFinderPage() {
                 )}
               </div>
 
+              {/* Send To */}
+              {selectedLead.contact_paths?.some(p => p.type === 'generic_email' || p.type === 'predicted_email') && (
+                <div className="space-y-2">
+                  <Label>Send To</Label>
+                  <Select value={recipient} onValueChange={setRecipient}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose an address" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedLead.contact_paths
+                        .filter(p => p.type === 'generic_email' || p.type === 'predicted_email')
+                        .map((path) => (
+                          <SelectItem key={path.value} value={path.value}>
+                            {path.value}{path.type === 'predicted_email' ? ' (predicted)' : ''}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {sendError && (
+                <div className="p-3 bg-red-50 rounded-md border border-red-200">
+                  <p className="text-sm text-red-700 flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4" />
+                    {sendError}
+                  </p>
+                </div>
+              )}
+
               {/* Other Contact Paths */}
               {selectedLead.contact_paths && selectedLead.contact_paths.filter(p => p.type !== 'generic_email' && p.type !== 'predicted_email').length > 0 && (
                 <div className="space-y-2">
@@ -755,10 +837,21 @@ export default function LeadFinderPage() {
                 </>
               )}
             </Button>
-            <Button onClick={handleMarkAsSent}>
-              <Send className="mr-1 h-4 w-4" />
+            <Button variant="outline" onClick={handleMarkAsSent}>
+              <Check className="mr-1 h-4 w-4" />
               Mark as Sent
             </Button>
+            <Button
+              onClick={handleSendEmail}
+              disabled={sending || !recipient || !selectedLead?.lead_finder_emails?.length}
+            >
+              {sending ? (
+                <RefreshCw className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-1 h-4 w-4" />
+              )}
+              Send via Gmail
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
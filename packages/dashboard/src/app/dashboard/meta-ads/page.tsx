@@ -37,6 +37,7 @@ import {
   ImageIcon,
   Calendar,
   Info,
+  Plus,
 } from 'lucide-react';
 import {
   LineChart,
@@ -49,6 +50,7 @@ import {
   BarChart,
   Bar,
 } from 'recharts';
+import { CampaignBuilderDialog } from '@/components/meta-ads';
 
 // ---------------------------------------------------------------------------
 // Interfaces
@@ -232,6 +234,7 @@ export default function MetaAdsPage() {
   // UI state
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
+  const [builderOpen, setBuilderOpen] = useState(false);
   const [dateRange, setDateRange] = useState<string>('30');
   const [activeTab, setActiveTab] = useState('campaigns');
 
@@ -447,6 +450,15 @@ export default function MetaAdsPage() {
             Sync from Meta
           </Button>
 
+          {/* Campaign builder */}
+          <Button
+            onClick={() => setBuilderOpen(true)}
+            disabled={!connectionStatus?.connected}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Campaign
+          </Button>
+
           {/* Connection badge */}
           {connectionStatus !== null && (
             <Badge
@@ -1069,6 +1081,12 @@ export default function MetaAdsPage() {
           )}
         </TabsContent>
       </Tabs>
+
+      <CampaignBuilderDialog
+        open={builderOpen}
+        onOpenChange={setBuilderOpen}
+        onBuilt={fetchCampaigns}
+      />
     </div>
   );
 }
@@ -59,6 +59,7 @@ const JOB_TYPES = [
   { value: 'bloomberg_scan', label: 'Bloomberg Scan' },
   { value: 'email_scan', label: 'Email Scan' },
   { value: 'news_scan', label: 'News Scan' },
+  { value: 'website_scan', label: 'Website Scan' },
   { value: 'score_ideas', label: 'Score Ideas' },
   { value: 'select_daily', label: 'Daily Selection' },
 ];
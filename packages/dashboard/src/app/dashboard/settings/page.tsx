@@ -14,6 +14,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { RefreshCw, Save, AlertCircle, CheckCircle } from 'lucide-react';
+import { NotificationPreferencesCard, ScheduleRegistryCard } from '@/components/settings';
 
 interface SystemSettings {
   lead_scoring: {
@@ -444,6 +445,12 @@ export default function SettingsPage() {
           </Card>
         </div>
       ) : null}
+
+      {/* Notifications (saved per user as you change them) */}
+      <NotificationPreferencesCard />
+
+      {/* Schedule Registry (saved per schedule, not with Save Changes) */}
+      <ScheduleRegistryCard />
     </div>
   );
 }
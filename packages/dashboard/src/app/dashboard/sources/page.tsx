@@ -22,6 +22,8 @@ import {
   CheckCircle,
   XCircle,
   AlertTriangle,
+  Clock,
+  KeyRound,
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 
@@ -43,8 +45,29 @@ interface SourceAdapter {
   avg_score: number | null;
   consecutive_failures: number;
   is_healthy: boolean;
+  health_status: 'healthy' | 'degraded' | 'unhealthy' | 'disabled' | null;
+  zero_yield_streak: number | null;
+  backoff_until: string | null;
+  auto_disabled_at: string | null;
+  disabled_reason: string | null;
 }
 
+interface SourceHealthAlert {
+  id: string;
+  created_at: string;
+  source_id: string;
+  alert_type: 'source_unhealthy' | 'source_disabled' | 'zero_yield' | 'oauth_expired';
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+const HEALTH_BADGES: Record<string, { label: string; className: string }> = {
+  healthy: { label: 'Healthy', className: 'bg-green-100 text-green-700' },
+  degraded: { label: 'Degraded', className: 'bg-yellow-100 text-yellow-700' },
+  unhealthy: { label: 'Unhealthy', className: 'bg-red-100 text-red-700' },
+  disabled: { label: 'Auto-disabled', className: 'bg-gray-200 text-gray-700' },
+};
+
 const getTypeIcon = (type: string) => {
   switch (type) {
     case 'email':
@@ -77,6 +100,7 @@ const getTypeColor = (type: string) => {
 
 export default function SourcesPage() {
   const [sources, setSources] = useState<SourceAdapter[]>([]);
+  const [alerts, setAlerts] = useState<SourceHealthAlert[]>([]);
   const [loading, setLoading] = useState(true);
   const [fetchingSource, setFetchingSource] = useState<string | null>(null);
   const [fetchResults, setFetchResults] = useState<Record<string, { success: boolean; count: number; error?: string }>>({});
@@ -96,6 +120,14 @@ export default function SourcesPage() {
       }
 
       setSources(data || []);
+
+      const { data: openAlerts } = await supabase
+        .from('source_health_alerts')
+        .select('id, created_at, source_id, alert_type, severity, message')
+        .eq('resolved', false)
+        .order('created_at', { ascending: false });
+
+      setAlerts(openAlerts || []);
     } catch (error) {
       console.error('Error:', error);
     } finally {
@@ -110,17 +142,43 @@ export default function SourcesPage() {
   const toggleSource = async (sourceId: string, enabled: boolean) => {
     try {
       const supabase = createClient();
+      // Re-enabling by hand gives the source a clean slate
+      const healthReset = enabled
+        ? {
+            consecutive_failures: 0,
+            health_status: 'healthy' as const,
+            is_healthy: true,
+            backoff_until: null,
+            auto_disabled_at: null,
+            disabled_reason: null,
+          }
+        : {};
+
       await supabase
         .from('source_adapters')
-        .update({ enabled, updated_at: new Date().toISOString() })
+        .update({ enabled, ...healthReset, updated_at: new Date().toISOString() })
         .eq('id', sourceId);
 
-      setSources(sources.map(s => s.id === sourceId ? { ...s, enabled } : s));
+      setSources(sources.map(s => s.id === sourceId ? { ...s, enabled, ...healthReset } : s));
     } catch (error) {
       console.error('Error toggling source:', error);
     }
   };
 
+  const resolveAlert = async (alertId: string) => {
+    try {
+      const supabase = createClient();
+      await supabase
+        .from('source_health_alerts')
+        .update({ resolved: true, resolved_at: new Date().toISOString() })
+        .eq('id', alertId);
+
+      setAlerts(alerts.filter(a => a.id !== alertId));
+    } catch (error) {
+      console.error('Error resolving alert:', error);
+    }
+  };
+
   const triggerFetch = async (source: SourceAdapter) => {
     setFetchingSource(source.source_id);
     setFetchResults(prev => ({ ...prev, [source.source_id]: { success: false, count: 0 } }));
@@ -212,6 +270,37 @@ export default function SourcesPage() {
         </div>
       </div>
 
+      {/* Health Alerts */}
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className={`flex items-start justify-between gap-3 p-3 rounded-lg border ${
+                alert.severity === 'critical' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+              }`}
+            >
+              <div className="flex items-start gap-2 text-sm">
+                {alert.alert_type === 'oauth_expired' ? (
+                  <KeyRound className="h-4 w-4 mt-0.5 shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                )}
+                <div>
+                  <div>{alert.message}</div>
+                  <div className="text-xs opacity-75">
+                    {new Date(alert.created_at).toLocaleString()} · A follow-up task has been created
+                  </div>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => resolveAlert(alert.id)}>
+                Dismiss
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-4 gap-4">
         <Card>
@@ -290,7 +379,12 @@ export default function SourcesPage() {
                     {source.source_type}
                   </Badge>
                   <Badge variant="outline">Priority: {source.priority}</Badge>
-                  {!source.is_healthy && (
+                  {source.health_status && source.health_status !== 'healthy' ? (
+                    <Badge className={`${HEALTH_BADGES[source.health_status]?.className || ''} flex items-center gap-1`}>
+                      <XCircle className="h-3 w-3" />
+                      {HEALTH_BADGES[source.health_status]?.label || source.health_status}
+                    </Badge>
+                  ) : !source.is_healthy && (
                     <Badge variant="destructive" className="flex items-center gap-1">
                       <XCircle className="h-3 w-3" />
                       Unhealthy
@@ -298,6 +392,30 @@ export default function SourcesPage() {
                   )}
                 </div>
 
+                {/* Health */}
+                {(source.consecutive_failures > 0 || (source.zero_yield_streak || 0) > 0 || source.backoff_until) && (
+                  <div className="text-xs text-muted-foreground space-y-0.5">
+                    {source.consecutive_failures > 0 && (
+                      <div>{source.consecutive_failures} consecutive failure{source.consecutive_failures !== 1 ? 's' : ''}</div>
+                    )}
+                    {(source.zero_yield_streak || 0) > 0 && (
+                      <div>No ideas in the last {source.zero_yield_streak} fetch{source.zero_yield_streak !== 1 ? 'es' : ''}</div>
+                    )}
+                    {source.backoff_until && new Date(source.backoff_until) > new Date() && (
+                      <div className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        Backing off until {new Date(source.backoff_until).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {source.disabled_reason && !source.enabled && (
+                  <div className="text-xs text-gray-700 bg-gray-100 p-2 rounded">
+                    {source.disabled_reason}
+                  </div>
+                )}
+
                 {/* Stats */}
                 <div className="grid grid-cols-3 gap-2 text-center text-sm">
                   <div>
@@ -0,0 +1,373 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  RefreshCw,
+  Loader2,
+  Workflow,
+  Pause,
+  Play,
+  XCircle,
+  CheckCircle,
+  Clock,
+  Hourglass,
+  UserCheck,
+  SkipForward,
+  Circle,
+} from 'lucide-react';
+import { formatDateTime, formatRelativeTime } from '@/lib/utils';
+
+type WorkflowStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+type StepStatus = 'pending' | 'running' | 'waiting' | 'awaiting_approval' | 'completed' | 'failed' | 'skipped';
+
+interface StepState {
+  key: string;
+  status: StepStatus;
+  attempts: number;
+  task_id: string | null;
+  approval_id: string | null;
+  wait_until: string | null;
+  retry_at: string | null;
+  output: unknown;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface WorkflowInstance {
+  id: string;
+  workflow_type: string;
+  status: WorkflowStatus;
+  current_step: number;
+  total_steps: number;
+  payload: Record<string, unknown>;
+  step_results: StepState[];
+  error_message: string | null;
+  next_check_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StepDefinition {
+  key: string;
+  kind: 'task' | 'wait' | 'approval';
+  label: string;
+  agent?: string;
+  action?: string;
+  depends_on?: string[];
+  when?: Array<{ ref: string }>;
+}
+
+interface WorkflowSummary {
+  type: string;
+  name: string;
+  description: string;
+}
+
+const STATUS_BADGES: Record<WorkflowStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+const STEP_ICONS: Record<StepStatus, { icon: typeof Circle; className: string; label: string }> = {
+  pending: { icon: Circle, className: 'text-gray-300', label: 'Pending' },
+  running: { icon: Loader2, className: 'text-blue-500 animate-spin', label: 'Running' },
+  waiting: { icon: Hourglass, className: 'text-yellow-500', label: 'Waiting' },
+  awaiting_approval: { icon: UserCheck, className: 'text-orange-500', label: 'Awaiting approval' },
+  completed: { icon: CheckCircle, className: 'text-green-500', label: 'Completed' },
+  failed: { icon: XCircle, className: 'text-red-500', label: 'Failed' },
+  skipped: { icon: SkipForward, className: 'text-gray-400', label: 'Skipped' },
+};
+
+export default function WorkflowsPage() {
+  const [workflows, setWorkflows] = useState<WorkflowInstance[]>([]);
+  const [definitions, setDefinitions] = useState<WorkflowSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+
+  const [selected, setSelected] = useState<WorkflowInstance | null>(null);
+  const [steps, setSteps] = useState<StepDefinition[]>([]);
+  const [acting, setActing] = useState(false);
+
+  const fetchWorkflows = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (typeFilter !== 'all') params.set('type', typeFilter);
+
+      const response = await fetch(`/api/workflows?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch workflows');
+
+      const data = await response.json();
+      setWorkflows(data.data || []);
+      setDefinitions(data.definitions || []);
+    } catch (error) {
+      console.error('Error fetching workflows:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, typeFilter]);
+
+  useEffect(() => {
+    fetchWorkflows();
+  }, [fetchWorkflows]);
+
+  const selectWorkflow = async (id: string) => {
+    try {
+      const response = await fetch(`/api/workflows/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch workflow');
+
+      const data = await response.json();
+      setSelected(data.data);
+      setSteps(data.definition?.steps || []);
+    } catch (error) {
+      console.error('Error fetching workflow:', error);
+    }
+  };
+
+  const runAction = async (action: 'pause' | 'resume' | 'cancel' | 'advance') => {
+    if (!selected) return;
+    setActing(true);
+    try {
+      const response = await fetch(`/api/workflows/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Action failed');
+
+      setSelected(data.data);
+      await fetchWorkflows();
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const workflowName = (type: string) => definitions.find((d) => d.type === type)?.name || type;
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Workflows</h1>
+          <p className="text-muted-foreground">
+            Multi-step agent workflows with approvals, waits and retries
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {Object.keys(STATUS_BADGES).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Workflow" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Workflows</SelectItem>
+              {definitions.map((d) => (
+                <SelectItem key={d.type} value={d.type}>
+                  {d.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchWorkflows} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        {/* Instances */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              Instances
+            </CardTitle>
+            <CardDescription>{workflows.length} workflows</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading && workflows.length === 0 ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : workflows.length === 0 ? (
+              <p className="p-6 text-sm text-muted-foreground">No workflows found.</p>
+            ) : (
+              <div className="divide-y">
+                {workflows.map((workflow) => (
+                  <button
+                    key={workflow.id}
+                    onClick={() => selectWorkflow(workflow.id)}
+                    className={`w-full px-6 py-3 text-left hover:bg-gray-50 ${
+                      selected?.id === workflow.id ? 'bg-gray-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{workflowName(workflow.workflow_type)}</span>
+                      <Badge className={STATUS_BADGES[workflow.status]}>{workflow.status}</Badge>
+                    </div>
+                    <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {workflow.current_step}/{workflow.total_steps} steps
+                      </span>
+                      <span>{formatRelativeTime(workflow.created_at)}</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Instance detail */}
+        <Card className="lg:col-span-3">
+          {!selected ? (
+            <CardContent className="flex h-64 items-center justify-center text-sm text-muted-foreground">
+              Select a workflow to see its steps
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    {workflowName(selected.workflow_type)}
+                    <Badge className={STATUS_BADGES[selected.status]}>{selected.status}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Started {formatDateTime(selected.created_at)}
+                    {selected.completed_at && ` · Finished ${formatDateTime(selected.completed_at)}`}
+                    {selected.next_check_at && ` · Next check ${formatDateTime(selected.next_check_at)}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {selected.status === 'running' && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => runAction('advance')} disabled={acting}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Advance
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => runAction('pause')} disabled={acting}>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
+                      </Button>
+                    </>
+                  )}
+                  {selected.status === 'paused' && (
+                    <Button variant="outline" size="sm" onClick={() => runAction('resume')} disabled={acting}>
+                      <Play className="mr-2 h-4 w-4" />
+                      Resume
+                    </Button>
+                  )}
+                  {(selected.status === 'running' || selected.status === 'paused') && (
+                    <Button variant="outline" size="sm" onClick={() => runAction('cancel')} disabled={acting}>
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {selected.error_message && (
+                  <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{selected.error_message}</div>
+                )}
+
+                <ol className="space-y-3">
+                  {steps.map((step) => {
+                    const state = selected.step_results.find((s) => s.key === step.key);
+                    const status = state?.status || 'pending';
+                    const { icon: Icon, className, label } = STEP_ICONS[status];
+
+                    return (
+                      <li key={step.key} className="flex gap-3">
+                        <Icon className={`mt-0.5 h-5 w-5 shrink-0 ${className}`} />
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium">{step.label}</span>
+                            <Badge variant="outline">{step.kind === 'task' ? step.agent : step.kind}</Badge>
+                            <span className="text-xs text-muted-foreground">{label}</span>
+                            {state && state.attempts > 1 && (
+                              <span className="text-xs text-muted-foreground">attempt {state.attempts}</span>
+                            )}
+                          </div>
+
+                          <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                            {step.depends_on && step.depends_on.length > 0 && (
+                              <span>after {step.depends_on.join(', ')}</span>
+                            )}
+                            {step.when && step.when.length > 0 && (
+                              <span>if {step.when.map((c) => c.ref.replace(/^\$steps\./, '')).join(' and ')}</span>
+                            )}
+                            {state?.wait_until && status === 'waiting' && (
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                until {formatDateTime(state.wait_until)}
+                              </span>
+                            )}
+                            {state?.retry_at && status === 'pending' && (
+                              <span>retry at {formatDateTime(state.retry_at)}</span>
+                            )}
+                            {state?.completed_at && <span>done {formatDateTime(state.completed_at)}</span>}
+                          </div>
+
+                          {state?.error && <p className="text-xs text-red-600">{state.error}</p>}
+
+                          {state?.output != null && (
+                            <details className="text-xs">
+                              <summary className="cursor-pointer text-muted-foreground">Output</summary>
+                              <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2">
+                                {JSON.stringify(state.output, null, 2)}
+                              </pre>
+                            </details>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-muted-foreground">Input</summary>
+                  <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2">
+                    {JSON.stringify(selected.payload, null, 2)}
+                  </pre>
+                </details>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Bell, Search, User, LogOut, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import Link from 'next/link';
+import { cn, formatRelativeTime } from '@/lib/utils';
 
 interface UserData {
   id: string;
@@ -21,6 +22,129 @@ interface UserData {
   name: string;
 }
 
+interface InboxItem {
+  id: string;
+  read_at: string | null;
+  notification: {
+    id: string;
+    source: string;
+    severity: 'info' | 'warning' | 'critical';
+    title: string;
+    message: string;
+    link: string | null;
+    occurrence_count: number;
+    last_occurred_at: string;
+  };
+}
+
+const SEVERITY_DOTS: Record<InboxItem['notification']['severity'], string> = {
+  info: 'bg-blue-500',
+  warning: 'bg-yellow-500',
+  critical: 'bg-red-500',
+};
+
+// Checked once a minute while the dashboard is open
+const NOTIFICATION_POLL_MS = 60 * 1000;
+
+function NotificationBell() {
+  const router = useRouter();
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) return;
+      const data = await response.json();
+      setItems(data.items || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, NOTIFICATION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await fetch('/api/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      await fetchNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const handleSelect = (item: InboxItem) => {
+    if (!item.read_at) markRead([item.id]);
+    if (item.notification.link) router.push(item.notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-96">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => markRead()}
+              className="text-xs font-normal text-blue-600 hover:underline"
+            >
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {items.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {items.map((item) => (
+              <DropdownMenuItem
+                key={item.id}
+                onClick={() => handleSelect(item)}
+                className={cn('cursor-pointer items-start gap-2', !item.read_at && 'bg-blue-50')}
+              >
+                <span className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', SEVERITY_DOTS[item.notification.severity])} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">
+                    {item.notification.title}
+                    {item.notification.occurrence_count > 1 && (
+                      <span className="ml-1 text-xs text-muted-foreground">x{item.notification.occurrence_count}</span>
+                    )}
+                  </p>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">{item.notification.message}</p>
+                  <p className="mt-0.5 text-[10px] text-muted-foreground">
+                    {formatRelativeTime(item.notification.last_occurred_at)}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export function Header() {
   const router = useRouter();
   const [user, setUser] = useState<UserData | null>(null);
@@ -66,12 +190,7 @@ export function Header() {
       {/* Actions */}
       <div className="flex items-center gap-4">
         {/* Notifications */}
-        <Button variant="ghost" size="icon" className="relative">
-          <Bell className="h-5 w-5" />
-          <span className="absolute right-1 top-1 flex h-4 w-4 items-center justify-center rounded-full bg-red-500 text-[10px] font-medium text-white">
-            3
-          </span>
-        </Button>
+        <NotificationBell />
 
         {/* User Menu */}
         <DropdownMenu>
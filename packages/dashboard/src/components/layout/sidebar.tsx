@@ -18,6 +18,9 @@ import {
   Target,
   Share2,
   FlaskConical,
+  Archive,
+  Workflow,
+  DollarSign,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -35,8 +38,11 @@ const navigation = [
   { name: 'Search Console', href: '/dashboard/search-console', icon: Search },
   { name: 'Sequences', href: '/dashboard/sequences', icon: Mail },
   { name: 'Approvals', href: '/dashboard/approvals', icon: ClipboardCheck },
+  { name: 'Compliance Archive', href: '/dashboard/compliance-archive', icon: Archive },
   { name: 'Agents', href: '/dashboard/agents', icon: Bot },
+  { name: 'Workflows', href: '/dashboard/workflows', icon: Workflow },
   { name: 'Analytics', href: '/dashboard/analytics', icon: BarChart3 },
+  { name: 'AI Spend', href: '/dashboard/ai-spend', icon: DollarSign },
 ];
 
 const bottomNavigation = [
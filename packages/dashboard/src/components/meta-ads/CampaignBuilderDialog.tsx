@@ -0,0 +1,483 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+
+type Step = 'campaign' | 'audience' | 'lead_form' | 'ads' | 'review';
+
+const STEPS: { value: Step; label: string }[] = [
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'audience', label: 'Audience' },
+  { value: 'lead_form', label: 'Lead form' },
+  { value: 'ads', label: 'Ads' },
+  { value: 'review', label: 'Review' },
+];
+
+// Subset of metaCampaignBuilderConfig the form needs
+interface BuilderConfig {
+  restrictions: { age_min: number; age_max: number; min_radius_miles: number };
+  min_daily_budget: number;
+  max_daily_budget: number;
+  max_ads: number;
+  cta_types: string[];
+  link_url: string;
+  lead_form: {
+    questions: Array<{ type: string; label?: string }>;
+    privacy_policy_url: string;
+  };
+}
+
+interface AdDraft {
+  name: string;
+  headline: string;
+  primaryText: string;
+  description: string;
+  ctaType: string;
+  imageUrl: string;
+}
+
+interface CampaignBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBuilt: () => void;
+}
+
+function emptyAd(index: number, ctaType: string): AdDraft {
+  return { name: `Ad ${index + 1}`, headline: '', primaryText: '', description: '', ctaType, imageUrl: '' };
+}
+
+export function CampaignBuilderDialog({ open, onOpenChange, onBuilt }: CampaignBuilderDialogProps) {
+  const [config, setConfig] = useState<BuilderConfig | null>(null);
+  const [step, setStep] = useState<Step>('campaign');
+  const [submitting, setSubmitting] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const [name, setName] = useState('');
+  const [dailyBudget, setDailyBudget] = useState('20');
+  const [startDate, setStartDate] = useState('');
+  const [linkUrl, setLinkUrl] = useState('');
+
+  const [locationMode, setLocationMode] = useState<'country' | 'radius'>('country');
+  const [countries, setCountries] = useState('US');
+  const [locationName, setLocationName] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [radius, setRadius] = useState('25');
+
+  const [formName, setFormName] = useState('');
+  const [privacyPolicyUrl, setPrivacyPolicyUrl] = useState('');
+
+  const [ads, setAds] = useState<AdDraft[]>([]);
+
+  useEffect(() => {
+    if (!open || config) return;
+    fetch('/api/meta-ads/builder')
+      .then((res) => res.json())
+      .then((data) => {
+        const builderConfig = data.config as BuilderConfig;
+        setConfig(builderConfig);
+        setLinkUrl(builderConfig.link_url);
+        setPrivacyPolicyUrl(builderConfig.lead_form.privacy_policy_url);
+        setAds([emptyAd(0, builderConfig.cta_types[0])]);
+      })
+      .catch(() => setIssues(['Failed to load campaign builder settings']));
+  }, [open, config]);
+
+  const reset = () => {
+    setStep('campaign');
+    setIssues([]);
+    setName('');
+    setFormName('');
+    if (config) setAds([emptyAd(0, config.cta_types[0])]);
+  };
+
+  const buildTargeting = (): Record<string, unknown> => {
+    if (locationMode === 'country') {
+      return {
+        geo_locations: {
+          countries: countries.split(',').map((c) => c.trim().toUpperCase()).filter(Boolean),
+        },
+      };
+    }
+    return {
+      geo_locations: {
+        custom_locations: [{
+          name: locationName || undefined,
+          latitude: parseFloat(latitude),
+          longitude: parseFloat(longitude),
+          radius: parseFloat(radius),
+          distance_unit: 'mile',
+        }],
+      },
+    };
+  };
+
+  const updateAd = (index: number, updates: Partial<AdDraft>) => {
+    setAds((current) => current.map((ad, i) => (i === index ? { ...ad, ...updates } : ad)));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setIssues([]);
+    try {
+      const response = await fetch('/api/meta-ads/builder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          dailyBudget: parseFloat(dailyBudget),
+          startTime: startDate ? new Date(startDate).toISOString() : undefined,
+          linkUrl,
+          targeting: buildTargeting(),
+          leadForm: { name: formName, privacyPolicyUrl },
+          ads: ads.map((ad) => ({ ...ad, imageUrl: ad.imageUrl || undefined })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        const orphaned = (data.orphaned || []) as Array<{ type: string; id: string }>;
+        setIssues([
+          ...(data.issues || [data.error || 'Failed to build campaign']),
+          ...orphaned.map((o) => `Could not roll back ${o.type.replace('_', ' ')} ${o.id}; remove it in Ads Manager`),
+        ]);
+        return;
+      }
+
+      reset();
+      onOpenChange(false);
+      onBuilt();
+    } catch (err) {
+      setIssues([err instanceof Error ? err.message : 'Failed to build campaign']);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const stepIndex = STEPS.findIndex((s) => s.value === step);
+  const budget = parseFloat(dailyBudget) || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Meta Lead Campaign</DialogTitle>
+          <DialogDescription>
+            Everything is created paused and saved as a draft until it is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Steps */}
+        <div className="flex gap-1 text-xs">
+          {STEPS.map((s, i) => (
+            <button
+              key={s.value}
+              type="button"
+              onClick={() => setStep(s.value)}
+              className={`flex-1 rounded px-2 py-1 ${
+                i === stepIndex
+                  ? 'bg-primary text-primary-foreground'
+                  : i < stepIndex
+                    ? 'bg-muted text-foreground'
+                    : 'bg-muted/50 text-muted-foreground'
+              }`}
+            >
+              {i + 1}. {s.label}
+            </button>
+          ))}
+        </div>
+
+        {!config ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {step === 'campaign' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="campaignName">Campaign Name</Label>
+                  <Input
+                    id="campaignName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Retirement Checklist - Lead Gen"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dailyBudget">Daily Budget ($)</Label>
+                    <Input
+                      id="dailyBudget"
+                      type="number"
+                      min={config.min_daily_budget}
+                      max={config.max_daily_budget}
+                      value={dailyBudget}
+                      onChange={(e) => setDailyBudget(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      ${config.min_daily_budget} to ${config.max_daily_budget} per day
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="startDate">Start Date (optional)</Label>
+                    <Input
+                      id="startDate"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="linkUrl">Landing Page URL</Label>
+                  <Input
+                    id="linkUrl"
+                    type="url"
+                    value={linkUrl}
+                    onChange={(e) => setLinkUrl(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            {step === 'audience' && (
+              <>
+                <div className="flex items-start gap-2 rounded-md border bg-muted/40 p-3 text-sm">
+                  <ShieldCheck className="h-4 w-4 mt-0.5 text-blue-600" />
+                  <p>
+                    Financial services ads run under Meta&rsquo;s special ad category: ages{' '}
+                    {config.restrictions.age_min}&ndash;{config.restrictions.age_max}+, all genders, no ZIP
+                    codes, and at least a {config.restrictions.min_radius_miles}-mile radius around a location.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Location</Label>
+                  <Select value={locationMode} onValueChange={(v) => setLocationMode(v as typeof locationMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="country">Countries</SelectItem>
+                      <SelectItem value="radius">Radius around a point</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {locationMode === 'country' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="countries">Country Codes</Label>
+                    <Input
+                      id="countries"
+                      value={countries}
+                      onChange={(e) => setCountries(e.target.value)}
+                      placeholder="US"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="locationName">Label</Label>
+                      <Input
+                        id="locationName"
+                        value={locationName}
+                        onChange={(e) => setLocationName(e.target.value)}
+                        placeholder="Houston, TX"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="latitude">Latitude</Label>
+                      <Input id="latitude" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="longitude">Longitude</Label>
+                      <Input id="longitude" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="radius">Radius (miles)</Label>
+                      <Input
+                        id="radius"
+                        type="number"
+                        min={config.restrictions.min_radius_miles}
+                        value={radius}
+                        onChange={(e) => setRadius(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {step === 'lead_form' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="formName">Form Name</Label>
+                  <Input
+                    id="formName"
+                    value={formName}
+                    onChange={(e) => setFormName(e.target.value)}
+                    placeholder="Retirement Checklist Form"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="privacyPolicyUrl">Privacy Policy URL</Label>
+                  <Input
+                    id="privacyPolicyUrl"
+                    type="url"
+                    value={privacyPolicyUrl}
+                    onChange={(e) => setPrivacyPolicyUrl(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Questions</Label>
+                  <ul className="text-sm text-muted-foreground list-disc pl-5">
+                    {config.lead_form.questions.map((q) => (
+                      <li key={q.label || q.type}>{q.label || q.type.replace('_', ' ').toLowerCase()}</li>
+                    ))}
+                  </ul>
+                </div>
+              </>
+            )}
+
+            {step === 'ads' && (
+              <>
+                {ads.map((ad, index) => (
+                  <div key={index} className="space-y-3 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={ad.name}
+                        onChange={(e) => updateAd(index, { name: e.target.value })}
+                        className="font-medium"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAds((current) => current.filter((_, i) => i !== index))}
+                        disabled={ads.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      value={ad.headline}
+                      onChange={(e) => updateAd(index, { headline: e.target.value })}
+                      placeholder="Headline"
+                    />
+                    <Textarea
+                      value={ad.primaryText}
+                      onChange={(e) => updateAd(index, { primaryText: e.target.value })}
+                      placeholder="Primary text"
+                      rows={3}
+                    />
+                    <Input
+                      value={ad.description}
+                      onChange={(e) => updateAd(index, { description: e.target.value })}
+                      placeholder="Description"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select value={ad.ctaType} onValueChange={(v) => updateAd(index, { ctaType: v })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {config.cta_types.map((cta) => (
+                            <SelectItem key={cta} value={cta}>{cta.replace(/_/g, ' ')}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={ad.imageUrl}
+                        onChange={(e) => updateAd(index, { imageUrl: e.target.value })}
+                        placeholder="Image URL (optional)"
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAds((current) => [...current, emptyAd(current.length, config.cta_types[0])])}
+                  disabled={ads.length >= config.max_ads}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add ad
+                </Button>
+              </>
+            )}
+
+            {step === 'review' && (
+              <div className="space-y-2 text-sm">
+                <p><span className="text-muted-foreground">Campaign:</span> {name || '—'}</p>
+                <p>
+                  <span className="text-muted-foreground">Budget:</span> ${budget}/day
+                  (about ${(budget * 30).toLocaleString()}/month)
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Location:</span>{' '}
+                  {locationMode === 'country'
+                    ? countries
+                    : `${radius} miles around ${locationName || `${latitude}, ${longitude}`}`}
+                </p>
+                <p><span className="text-muted-foreground">Lead form:</span> {formName || '—'}</p>
+                <p><span className="text-muted-foreground">Ads:</span> {ads.map((ad) => ad.name).join(', ')}</p>
+                <p className="text-muted-foreground">
+                  Ad copy is checked for compliance before anything is created in Meta. If any step fails,
+                  the objects already created are removed.
+                </p>
+              </div>
+            )}
+
+            {issues.length > 0 && (
+              <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+                {issues.map((issue, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {issue}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => (stepIndex === 0 ? onOpenChange(false) : setStep(STEPS[stepIndex - 1].value))}
+            disabled={submitting}
+          >
+            {stepIndex === 0 ? 'Cancel' : 'Back'}
+          </Button>
+          {step === 'review' ? (
+            <Button onClick={handleSubmit} disabled={submitting || !config}>
+              {submitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {submitting ? 'Building...' : 'Build draft'}
+            </Button>
+          ) : (
+            <Button onClick={() => setStep(STEPS[stepIndex + 1].value)} disabled={!config}>
+              Next
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1 @@
+export { CampaignBuilderDialog } from './CampaignBuilderDialog';
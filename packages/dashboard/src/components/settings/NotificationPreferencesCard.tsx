@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Bell, BellOff } from 'lucide-react';
+
+type Severity = 'info' | 'warning' | 'critical';
+type Source = 'kpi' | 'budget' | 'job' | 'optimizer';
+type Channel = 'in_app' | 'email';
+
+interface RoutingRule {
+  sources?: Source[];
+  min_severity: Severity;
+  channels: Channel[];
+}
+
+interface Preferences {
+  user_email: string;
+  muted_until: string | null;
+  muted_sources: Source[];
+  rules: RoutingRule[];
+}
+
+// Lowest severity sent per source and channel; null = never
+type RoutingGrid = Record<Source, Record<Channel, Severity | null>>;
+
+const SOURCES: { value: Source; label: string; description: string }[] = [
+  { value: 'kpi', label: 'KPIs', description: 'Website sessions, conversion and bounce rate targets' },
+  { value: 'budget', label: 'Budget pacing', description: 'Campaigns over- or under-spending' },
+  { value: 'job', label: 'Failed jobs', description: 'Background jobs out of retries' },
+  { value: 'optimizer', label: 'Ads optimizer', description: 'Alert-only rules and failed changes' },
+];
+
+const CHANNELS: { value: Channel; label: string }[] = [
+  { value: 'in_app', label: 'Bell' },
+  { value: 'email', label: 'Email digest' },
+];
+
+const SEVERITY_ORDER: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
+
+const THRESHOLD_LABELS: Record<Severity | 'off', string> = {
+  info: 'Everything',
+  warning: 'Warnings and up',
+  critical: 'Critical only',
+  off: 'Off',
+};
+
+const MUTE_OPTIONS: { value: string; label: string; hours: number }[] = [
+  { value: '1', label: '1 hour', hours: 1 },
+  { value: '8', label: '8 hours', hours: 8 },
+  { value: '24', label: '24 hours', hours: 24 },
+  { value: '168', label: '1 week', hours: 168 },
+];
+
+function rulesToGrid(rules: RoutingRule[]): RoutingGrid {
+  const grid = {} as RoutingGrid;
+  for (const { value: source } of SOURCES) {
+    grid[source] = { in_app: null, email: null };
+    for (const rule of rules) {
+      if (rule.sources?.length && !rule.sources.includes(source)) continue;
+      for (const channel of rule.channels) {
+        const current = grid[source][channel];
+        if (current === null || SEVERITY_ORDER[rule.min_severity] < SEVERITY_ORDER[current]) {
+          grid[source][channel] = rule.min_severity;
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+function gridToRules(grid: RoutingGrid): RoutingRule[] {
+  const rules: RoutingRule[] = [];
+  for (const { value: source } of SOURCES) {
+    for (const { value: channel } of CHANNELS) {
+      const minSeverity = grid[source][channel];
+      if (minSeverity) {
+        rules.push({ sources: [source], min_severity: minSeverity, channels: [channel] });
+      }
+    }
+  }
+  return rules;
+}
+
+export function NotificationPreferencesCard() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [defaults, setDefaults] = useState<RoutingRule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications/preferences');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch notification preferences');
+      setPreferences(data.preferences);
+      setDefaults(data.defaults || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification preferences');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const savePreferences = async (updates: Partial<Omit<Preferences, 'user_email'>>) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save notification preferences');
+      setPreferences(data.preferences);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!preferences) {
+    return null;
+  }
+
+  const grid = rulesToGrid(preferences.rules.length > 0 ? preferences.rules : defaults);
+  const muted = !!preferences.muted_until && new Date(preferences.muted_until) > new Date();
+
+  const setThreshold = (source: Source, channel: Channel, value: string) => {
+    const next: RoutingGrid = { ...grid, [source]: { ...grid[source], [channel]: value === 'off' ? null : value } };
+    savePreferences({ rules: gridToRules(next) });
+  };
+
+  const toggleSource = (source: Source, enabled: boolean) => {
+    const mutedSources = enabled
+      ? preferences.muted_sources.filter((s) => s !== source)
+      : [...preferences.muted_sources, source];
+    savePreferences({ muted_sources: mutedSources });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </CardTitle>
+          <CardDescription>
+            Where your alerts go. Critical alerts also go to the team webhook when one is set up.
+          </CardDescription>
+        </div>
+        {muted ? (
+          <Button variant="outline" size="sm" onClick={() => savePreferences({ muted_until: null })} disabled={saving}>
+            <BellOff className="mr-2 h-4 w-4" />
+            Muted until {new Date(preferences.muted_until!).toLocaleString()} · Unmute
+          </Button>
+        ) : (
+          <Select
+            onValueChange={(value) => {
+              const hours = MUTE_OPTIONS.find((o) => o.value === value)?.hours || 1;
+              savePreferences({ muted_until: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() });
+            }}
+            disabled={saving}
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue placeholder="Mute for..." />
+            </SelectTrigger>
+            <SelectContent>
+              {MUTE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+        {muted && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            While muted, alerts only show in the bell.
+          </p>
+        )}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 pr-4 font-medium">Alert</th>
+              {CHANNELS.map((channel) => (
+                <th key={channel.value} className="py-2 pr-4 font-medium">{channel.label}</th>
+              ))}
+              <th className="py-2 font-medium text-right">Enabled</th>
+            </tr>
+          </thead>
+          <tbody>
+            {SOURCES.map((source) => {
+              const enabled = !preferences.muted_sources.includes(source.value);
+              return (
+                <tr key={source.value} className="border-b last:border-0">
+                  <td className="py-2 pr-4">
+                    <span className="font-medium">{source.label}</span>
+                    <p className="text-xs text-muted-foreground">{source.description}</p>
+                  </td>
+                  {CHANNELS.map((channel) => (
+                    <td key={channel.value} className="py-2 pr-4">
+                      <Select
+                        value={grid[source.value][channel.value] || 'off'}
+                        onValueChange={(value) => setThreshold(source.value, channel.value, value)}
+                        disabled={saving || !enabled}
+                      >
+                        <SelectTrigger className="h-8 w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(THRESHOLD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  ))}
+                  <td className="py-2 text-right">
+                    <Switch
+                      checked={enabled}
+                      onCheckedChange={(checked) => toggleSource(source.value, checked)}
+                      disabled={saving}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
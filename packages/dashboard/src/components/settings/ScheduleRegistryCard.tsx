@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RefreshCw, AlertCircle, Clock } from 'lucide-react';
+
+interface Schedule {
+  key: string;
+  target: 'worker' | 'route' | 'agent';
+  job_type: string;
+  cron: string;
+  priority: number;
+  enabled: boolean;
+  catch_up: 'skip' | 'latest' | 'all';
+  description: string | null;
+  last_run_at: string | null;
+  last_enqueued_at: string | null;
+}
+
+interface SchedulePreview {
+  from: string;
+  until: string;
+  schedules: Array<{ key: string; nextRun: string | null; runCount: number }>;
+  runs: Array<{ key: string; target: Schedule['target']; description: string | null; scheduledFor: string }>;
+}
+
+const TARGET_LABELS: Record<Schedule['target'], string> = {
+  worker: 'Worker',
+  route: 'Cron route',
+  agent: 'Agent',
+};
+
+const CATCH_UP_LABELS: Record<Schedule['catch_up'], string> = {
+  skip: 'Skip missed',
+  latest: 'Run latest',
+  all: 'Run all',
+};
+
+function formatUtc(dateString: string | null) {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+  }) + ' UTC';
+}
+
+export function ScheduleRegistryCard() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [preview, setPreview] = useState<SchedulePreview | null>(null);
+  const [cronDrafts, setCronDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/settings/schedules');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to fetch schedules');
+      setSchedules(data.data || []);
+      setPreview(data.preview || null);
+      setCronDrafts({});
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const updateSchedule = async (key: string, updates: Partial<Pick<Schedule, 'cron' | 'enabled' | 'catch_up'>>) => {
+    setSavingKey(key);
+    try {
+      const response = await fetch('/api/settings/schedules', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key, ...updates }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule');
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const saveCron = (schedule: Schedule) => {
+    const draft = cronDrafts[schedule.key];
+    if (draft === undefined || draft.trim() === schedule.cron) return;
+    updateSchedule(schedule.key, { cron: draft });
+  };
+
+  const previewByKey = new Map((preview?.schedules || []).map((s) => [s.key, s]));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Schedules
+          </CardTitle>
+          <CardDescription>
+            One registry drives the worker, cron routes and the agents runner. Cron times are UTC.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchSchedules} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <Tabs defaultValue="registry">
+          <TabsList>
+            <TabsTrigger value="registry">Registry</TabsTrigger>
+            <TabsTrigger value="preview">Next 7 Days</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="registry" className="mt-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Schedule</th>
+                    <th className="py-2 pr-4 font-medium">Cron (UTC)</th>
+                    <th className="py-2 pr-4 font-medium">Missed Runs</th>
+                    <th className="py-2 pr-4 font-medium">Next Run</th>
+                    <th className="py-2 pr-4 font-medium text-right">Runs / 7d</th>
+                    <th className="py-2 font-medium text-right">Enabled</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedules.map((schedule) => {
+                    const upcoming = previewByKey.get(schedule.key);
+                    return (
+                      <tr key={schedule.key} className="border-b last:border-0">
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{schedule.key}</span>
+                            <Badge variant="outline">{TARGET_LABELS[schedule.target]}</Badge>
+                          </div>
+                          {schedule.description && (
+                            <p className="text-xs text-muted-foreground">{schedule.description}</p>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Input
+                            className="h-8 w-36 font-mono text-xs"
+                            value={cronDrafts[schedule.key] ?? schedule.cron}
+                            disabled={savingKey === schedule.key}
+                            onChange={(e) => setCronDrafts({ ...cronDrafts, [schedule.key]: e.target.value })}
+                            onBlur={() => saveCron(schedule)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveCron(schedule)}
+                          />
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Select
+                            value={schedule.catch_up}
+                            onValueChange={(value) => updateSchedule(schedule.key, { catch_up: value as Schedule['catch_up'] })}
+                            disabled={savingKey === schedule.key}
+                          >
+                            <SelectTrigger className="h-8 w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(CATCH_UP_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap text-muted-foreground">
+                          {schedule.enabled ? formatUtc(upcoming?.nextRun || null) : 'Disabled'}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{upcoming?.runCount ?? 0}</td>
+                        <td className="py-2 text-right">
+                          <Switch
+                            checked={schedule.enabled}
+                            disabled={savingKey === schedule.key}
+                            onCheckedChange={(checked) => updateSchedule(schedule.key, { enabled: checked })}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="preview" className="mt-4">
+            <p className="mb-3 text-sm text-muted-foreground">
+              Dry run of scheduled executions. Schedules that fire more than hourly are counted in the registry tab only.
+            </p>
+            {!preview || preview.runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scheduled runs.</p>
+            ) : (
+              <div className="max-h-96 space-y-1 overflow-y-auto">
+                {preview.runs.map((run) => (
+                  <div key={`${run.key}-${run.scheduledFor}`} className="flex items-center gap-3 text-sm">
+                    <span className="w-48 shrink-0 text-muted-foreground">{formatUtc(run.scheduledFor)}</span>
+                    <Badge variant="outline">{TARGET_LABELS[run.target]}</Badge>
+                    <span className="font-medium">{run.key}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
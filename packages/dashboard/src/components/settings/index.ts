@@ -0,0 +1,2 @@
+export { ScheduleRegistryCard } from './ScheduleRegistryCard';
+export { NotificationPreferencesCard } from './NotificationPreferencesCard';
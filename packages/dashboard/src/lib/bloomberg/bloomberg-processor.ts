@@ -7,9 +7,10 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import { GmailService } from '@arcvest/services';
+import { GmailService, getLlmGateway } from '@arcvest/services';
 import { createClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
+
+type LlmGateway = ReturnType<typeof getLlmGateway>;
 
 interface GmailMessage {
   id: string;
@@ -107,7 +108,7 @@ function identifyNewsletterType(message: GmailMessage): string {
  */
 async function extractArticleContent(
   message: GmailMessage,
-  anthropic: Anthropic
+  llm: LlmGateway
 ): Promise<BloombergArticle[]> {
   const content = message.bodyHtml || message.body;
   const newsletterType = identifyNewsletterType(message);
@@ -154,14 +155,13 @@ If this is a single-article newsletter (like Money Stuff), return one article.
 If it's a briefing with multiple stories, return up to 5 most relevant articles.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: extractionPrompt }],
-    });
+    const response = await llm.complete(
+      'ideas.newsletter_extract',
+      { prompt: extractionPrompt },
+      { feature: 'bloomberg_scan', correlationId: message.id }
+    );
 
-    const responseText = response.content.find((c) => c.type === 'text')?.text || '';
+    const responseText = response.text;
 
     // Parse JSON from response
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -200,7 +200,7 @@ If it's a briefing with multiple stories, return up to 5 most relevant articles.
  */
 async function scoreArticle(
   article: BloombergArticle,
-  anthropic: Anthropic
+  llm: LlmGateway
 ): Promise<{ score: number; reason: string; focusAngle?: string }> {
   const scoringPrompt = `You are evaluating Bloomberg articles for relevance to ArcVest's content strategy.
 
@@ -243,14 +243,13 @@ Respond in JSON only:
 }`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 500,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: scoringPrompt }],
-    });
+    const response = await llm.complete(
+      'ideas.story_selection',
+      { prompt: scoringPrompt, maxTokens: 500 },
+      { feature: 'bloomberg_scan', correlationId: article.emailId }
+    );
 
-    const responseText = response.content.find((c) => c.type === 'text')?.text || '';
+    const responseText = response.text;
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
     if (jsonMatch) {
@@ -268,17 +267,12 @@ Respond in JSON only:
  */
 export class BloombergProcessor {
   private gmailService: InstanceType<typeof GmailService>;
-  private anthropic: Anthropic;
+  private llm: LlmGateway;
   private supabase: ReturnType<typeof createClient>;
 
   constructor() {
-    const anthropicKey = process.env.ANTHROPIC_API_KEY;
-    if (!anthropicKey) {
-      throw new Error('ANTHROPIC_API_KEY not configured');
-    }
-
     this.gmailService = new GmailService();
-    this.anthropic = new Anthropic({ apiKey: anthropicKey });
+    this.llm = getLlmGateway();
     this.supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -349,7 +343,7 @@ export class BloombergProcessor {
 
       for (const email of bloombergEmails) {
         try {
-          const articles = await extractArticleContent(email, this.anthropic);
+          const articles = await extractArticleContent(email, this.llm);
           allArticles.push(...articles);
           console.log(
             `[Bloomberg] Extracted ${articles.length} articles from: ${email.subject}`
@@ -367,7 +361,7 @@ export class BloombergProcessor {
         [];
 
       for (const article of allArticles) {
-        const scoring = await scoreArticle(article, this.anthropic);
+        const scoring = await scoreArticle(article, this.llm);
         if (scoring.score >= minScore) {
           scoredArticles.push({
             ...article,
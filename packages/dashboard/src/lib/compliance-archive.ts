@@ -0,0 +1,69 @@
+/**
+ * Compliance Archive helpers
+ *
+ * Shared by the archive search and export API routes.
+ */
+
+// Local type definitions (since DTS is disabled for services)
+export type ArchiveChannel = 'wordpress' | 'google_ads' | 'meta_ads' | 'gmail';
+
+export interface ArchiveSearchParams {
+  query?: string;
+  channel?: ArchiveChannel;
+  from?: string;
+  to?: string;
+  compliancePassed?: boolean;
+  ids?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArchiveRecord {
+  id: string;
+  archived_at: string;
+  channel: ArchiveChannel;
+  artifact_type: string;
+  artifact_id: string | null;
+  title: string | null;
+  content: Record<string, unknown>;
+  content_text: string;
+  content_hash: string;
+  approval_id: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  compliance_check: Record<string, unknown> | null;
+  compliance_passed: boolean | null;
+  rules_version: string | null;
+  published_at: string;
+  published_by: string | null;
+  external_id: string | null;
+  external_url: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export const ARCHIVE_CHANNELS: { value: ArchiveChannel; label: string }[] = [
+  { value: 'wordpress', label: 'WordPress' },
+  { value: 'google_ads', label: 'Google Ads' },
+  { value: 'meta_ads', label: 'Meta Ads' },
+  { value: 'gmail', label: 'Gmail' },
+];
+
+/**
+ * Read archive filters from a request's query string
+ */
+export function parseArchiveSearchParams(searchParams: URLSearchParams): ArchiveSearchParams {
+  const channel = searchParams.get('channel');
+  const passed = searchParams.get('passed');
+  const ids = searchParams.get('ids');
+
+  return {
+    query: searchParams.get('q') || undefined,
+    channel: ARCHIVE_CHANNELS.some((c) => c.value === channel) ? (channel as ArchiveChannel) : undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    compliancePassed: passed === 'true' ? true : passed === 'false' ? false : undefined,
+    ids: ids ? ids.split(',').filter(Boolean) : undefined,
+    limit: Math.min(parseInt(searchParams.get('limit') || '50'), 500),
+    offset: parseInt(searchParams.get('offset') || '0'),
+  };
+}
@@ -5,6 +5,8 @@
  * Update these lists to customize content generation.
  */
 
+import type { ComplianceResult, ComplianceRuleSet } from '@arcvest/shared';
+
 export const PIPELINE_CONFIG = {
   // Topics the pipeline should focus on
   TOPICS_OF_INTEREST: [
@@ -79,6 +81,13 @@ export type PipelineInput = {
   focusAngle?: string;
   // Optional: target keywords for SEO
   targetKeywords?: string[];
+
+  // Optional: compliance rule set to check against (defaults to the shared config)
+  complianceRules?: ComplianceRuleSet;
+
+  // Optional: recorded with each step's LLM usage
+  jobId?: string;
+  correlationId?: string;
 };
 
 export type PipelineOutput = {
@@ -115,6 +124,9 @@ export type PipelineOutput = {
     illustrationPrompt: string;
   };
 
+  // Rules engine check of the final post, stored with the content for audit
+  complianceAudit: ComplianceResult;
+
   // Metadata
   metadata: {
     processedAt: string;
@@ -3,10 +3,11 @@
  *
  * 4-step pipeline: Claude → ChatGPT → Gemini → Claude
  * Transforms any input into a polished, compliant blog post package.
+ * Models come from the LLM gateway's content.* routes.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
+import { evaluateCompliance, summarizeCompliance } from '@arcvest/shared';
+import { getLlmGateway } from '@arcvest/services';
 import { PIPELINE_CONFIG, type PipelineInput, type PipelineOutput } from './config';
 import { ARCVEST_KNOWLEDGE, ARCVEST_KNOWLEDGE_CONDENSED, WRITING_GUIDANCE, WRITING_GUIDANCE_CONDENSED } from '../arcvest-knowledge';
 
@@ -63,23 +64,23 @@ export type PipelineStep =
  */
 export type CheckpointCallback = (step: PipelineStep, data: PipelineCheckpoint) => Promise<void>;
 
+/**
+ * Attribution for the LLM gateway's usage records
+ */
+type PipelineLlmContext = { feature: string; jobId?: string; correlationId?: string };
+
 export class MultiAIPipeline {
-  private anthropic: Anthropic;
-  private openai: OpenAI;
-  private geminiApiKey: string;
+  private llm: ReturnType<typeof getLlmGateway>;
 
   constructor() {
-    const anthropicKey = process.env.ANTHROPIC_API_KEY;
-    const openaiKey = process.env.OPENAI_API_KEY;
-    const geminiKey = process.env.GOOGLE_GEMINI_API_KEY;
-
-    if (!anthropicKey) throw new Error('ANTHROPIC_API_KEY not configured');
-    if (!openaiKey) throw new Error('OPENAI_API_KEY not configured');
-    if (!geminiKey) throw new Error('GOOGLE_GEMINI_API_KEY not configured');
+    this.llm = getLlmGateway();
+  }
 
-    this.anthropic = new Anthropic({ apiKey: anthropicKey });
-    this.openai = new OpenAI({ apiKey: openaiKey });
-    this.geminiApiKey = geminiKey;
+  /**
+   * Usage for every step of a run is recorded against the input's job
+   */
+  private llmContext(input: PipelineInput): PipelineLlmContext {
+    return { feature: 'blog_pipeline', jobId: input.jobId, correlationId: input.correlationId };
   }
 
   /**
@@ -129,6 +130,7 @@ export class MultiAIPipeline {
         edits: step3.edits,
       },
       finalOutput: step4.output,
+      complianceAudit: evaluateCompliance(step4.output.wordpressPost, 'blog_post', input.complianceRules),
       metadata: {
         processedAt: new Date().toISOString(),
         totalTokensUsed: totalTokens,
@@ -198,7 +200,7 @@ export class MultiAIPipeline {
     let step4a = checkpoint.step4a_html;
     if (!step4a) {
       console.log('[Pipeline] Step 4a: WordPress HTML conversion...');
-      step4a = await this.step4aWordPressHtml(step3.draft);
+      step4a = await this.step4aWordPressHtml(step3.draft, this.llmContext(input));
       checkpoint.step4a_html = step4a;
       await onCheckpoint('step4a_html', checkpoint);
       console.log('[Pipeline] Step 4a checkpointed');
@@ -211,7 +213,7 @@ export class MultiAIPipeline {
     let step4b = checkpoint.step4b_excerpt;
     if (!step4b) {
       console.log('[Pipeline] Step 4b: Generating excerpt...');
-      step4b = await this.step4bExcerpt(step3.draft);
+      step4b = await this.step4bExcerpt(step3.draft, this.llmContext(input));
       checkpoint.step4b_excerpt = step4b;
       await onCheckpoint('step4b_excerpt', checkpoint);
       console.log('[Pipeline] Step 4b checkpointed');
@@ -237,7 +239,7 @@ export class MultiAIPipeline {
     let step4d = checkpoint.step4d_illustration;
     if (!step4d) {
       console.log('[Pipeline] Step 4d: Generating illustration prompt...');
-      step4d = await this.step4dIllustration(step3.draft);
+      step4d = await this.step4dIllustration(step3.draft, this.llmContext(input));
       checkpoint.step4d_illustration = step4d;
       await onCheckpoint('step4d_illustration', checkpoint);
       console.log('[Pipeline] Step 4d checkpointed');
@@ -273,6 +275,7 @@ export class MultiAIPipeline {
         seoTags: step4c.seoTags,
         illustrationPrompt: step4d.illustrationPrompt,
       },
+      complianceAudit: evaluateCompliance(step4a.wordpressPost, 'blog_post', input.complianceRules),
       metadata: {
         processedAt: new Date().toISOString(),
         totalTokensUsed: totalTokens,
@@ -332,15 +335,14 @@ INSTRUCTIONS:
 Write the blog post in markdown format with a compelling title (H1), clear sections (H2), and engaging prose-forward content.
 - IMPORTANT: Write the COMPLETE blog post from start to finish. Do not stop mid-sentence.`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 8000, // Increased from 4096 to ensure full blog posts (1200-1500 words ~= 1600-2000 tokens)
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    const response = await this.llm.complete(
+      'content.draft',
+      { prompt },
+      this.llmContext(input)
+    );
 
-    const draft = response.content.find(c => c.type === 'text')?.text || '';
-    const draftTokens = response.usage.input_tokens + response.usage.output_tokens;
+    const draft = response.text || '';
+    const draftTokens = response.totalTokens;
 
     // Run compliance check
     const compliancePrompt = `Review this financial services blog post for SEC Marketing Rule compliance:
@@ -360,17 +362,16 @@ Check for:
 Respond in JSON format only:
 {"passed": true/false, "issues": ["issue1", "issue2"], "suggestions": ["fix1", "fix2"]}`;
 
-    const complianceResponse = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 1024,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: compliancePrompt }],
-    });
+    const complianceResponse = await this.llm.complete(
+      'content.compliance_review',
+      { prompt: compliancePrompt },
+      this.llmContext(input)
+    );
 
-    const complianceText = complianceResponse.content.find(c => c.type === 'text')?.text || '';
-    const complianceTokens = complianceResponse.usage.input_tokens + complianceResponse.usage.output_tokens;
+    const complianceText = complianceResponse.text || '';
+    const complianceTokens = complianceResponse.totalTokens;
 
-    let compliance = { passed: false, issues: ['Unable to parse'], suggestions: [] };
+    let compliance: { passed: boolean; issues: string[]; suggestions: string[] } = { passed: false, issues: ['Unable to parse'], suggestions: [] };
     try {
       const jsonMatch = complianceText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
@@ -380,6 +381,14 @@ Respond in JSON format only:
       // Keep default
     }
 
+    // Rules engine findings go to Step 2 alongside Claude's review so they get fixed
+    const rules = summarizeCompliance(evaluateCompliance(draft, 'blog_post', input.complianceRules));
+    compliance = {
+      passed: compliance.passed && rules.passed,
+      issues: [...rules.issues, ...compliance.issues],
+      suggestions: [...rules.suggestions, ...compliance.suggestions],
+    };
+
     return {
       draft,
       compliance,
@@ -393,7 +402,7 @@ Respond in JSON format only:
   private async step2ChatGPT(
     draft: string,
     compliance: { passed: boolean; issues: string[]; suggestions: string[] },
-    _input: PipelineInput
+    input: PipelineInput
   ): Promise<{ draft: string; improvements: string[]; tokens: number }> {
     const prompt = `You are an expert editor improving a blog post for ArcVest. Maintain their voice and eliminate AI-sounding patterns.
 
@@ -428,21 +437,10 @@ Provide your improved version in markdown format.
 
 After the blog post, add a section titled "## IMPROVEMENTS MADE" with a bullet list of what you changed.`;
 
-    // Using GPT-5.2 with Responses API (not Chat Completions)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const response = await (this.openai.responses as any).create({
-      model: 'gpt-5.2',
-      input: prompt,
-      reasoning: {
-        effort: 'medium',
-      },
-      text: {
-        verbosity: 'medium',
-      },
-    });
+    const response = await this.llm.complete('content.edit', { prompt }, this.llmContext(input));
 
-    const fullResponse = response.output_text || draft;
-    const tokens = response.usage?.total_tokens || 0;
+    const fullResponse = response.text || draft;
+    const tokens = response.totalTokens;
 
     // Parse out improvements list
     const parts = fullResponse.split('## IMPROVEMENTS MADE');
@@ -466,7 +464,7 @@ After the blog post, add a section titled "## IMPROVEMENTS MADE" with a bullet l
    */
   private async step3Gemini(
     draft: string,
-    _input: PipelineInput
+    input: PipelineInput
   ): Promise<{ draft: string; edits: string[]; tokens: number }> {
     const prompt = `You are a senior editor doing a final review of a blog post for ArcVest. Your job is to catch and eliminate any remaining AI-sounding patterns.
 
@@ -497,32 +495,17 @@ Provide your polished version in markdown format.
 
 After the blog post, add a section titled "## EDITS MADE" with a bullet list of your changes.`;
 
-    // Call Gemini API
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent?key=${this.geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 8000, // Increased from 4096 to ensure full blog posts
-          },
-        }),
-      }
-    );
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      console.error('Gemini API error:', data);
-      // Return original draft if Gemini fails
+    let response;
+    try {
+      response = await this.llm.complete('content.polish', { prompt }, this.llmContext(input));
+    } catch (error) {
+      console.error('Gemini API error:', error);
+      // Return original draft if every provider for the polish step fails
       return { draft, edits: ['Gemini review skipped due to API error'], tokens: 0 };
     }
 
-    const fullResponse = data.candidates?.[0]?.content?.parts?.[0]?.text || draft;
-    const tokens = data.usageMetadata?.totalTokenCount || 0;
+    const fullResponse = response.text || draft;
+    const tokens = response.totalTokens;
 
     // Parse out edits list
     const parts = fullResponse.split('## EDITS MADE');
@@ -578,15 +561,14 @@ REQUIREMENTS:
 
 OUTPUT THE HTML ONLY:`;
 
-    const htmlResponse = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 8192,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: htmlPrompt }],
-    });
+    const htmlResponse = await this.llm.complete(
+      'content.package',
+      { prompt: htmlPrompt },
+      this.llmContext(input)
+    );
 
-    const wordpressPost = htmlResponse.content.find(c => c.type === 'text')?.text || draft;
-    totalTokens += htmlResponse.usage.input_tokens + htmlResponse.usage.output_tokens;
+    const wordpressPost = htmlResponse.text || draft;
+    totalTokens += htmlResponse.totalTokens;
 
     // Step 4b: Generate excerpt
     const excerptPrompt = `Write a compelling excerpt (50 words or fewer) for this blog post that summarizes it and encourages reading:
@@ -595,15 +577,14 @@ ${draft.substring(0, 2000)}
 
 OUTPUT ONLY THE EXCERPT TEXT (no quotes, no labels):`;
 
-    const excerptResponse = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 100,
-      temperature: 0.5,
-      messages: [{ role: 'user', content: excerptPrompt }],
-    });
+    const excerptResponse = await this.llm.complete(
+      'content.package',
+      { prompt: excerptPrompt, maxTokens: 100, temperature: 0.5 },
+      this.llmContext(input)
+    );
 
-    const excerpt = excerptResponse.content.find(c => c.type === 'text')?.text?.trim() || '';
-    totalTokens += excerptResponse.usage.input_tokens + excerptResponse.usage.output_tokens;
+    const excerpt = excerptResponse.text.trim() || '';
+    totalTokens += excerptResponse.totalTokens;
 
     // Step 4c: Generate SEO tags
     const tagsPrompt = `Generate up to 14 SEO tags for this blog post. Output as comma-separated values only:
@@ -614,16 +595,15 @@ ${input.targetKeywords?.length ? `Include these keywords: ${input.targetKeywords
 
 OUTPUT ONLY COMMA-SEPARATED TAGS:`;
 
-    const tagsResponse = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 200,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: tagsPrompt }],
-    });
+    const tagsResponse = await this.llm.complete(
+      'content.package',
+      { prompt: tagsPrompt, maxTokens: 200 },
+      this.llmContext(input)
+    );
 
-    const tagsText = tagsResponse.content.find(c => c.type === 'text')?.text || '';
-    const seoTags = tagsText.split(',').map(t => t.trim()).filter(Boolean).slice(0, 14);
-    totalTokens += tagsResponse.usage.input_tokens + tagsResponse.usage.output_tokens;
+    const tagsText = tagsResponse.text || '';
+    const seoTags = tagsText.split(',').map((t: string) => t.trim()).filter(Boolean).slice(0, 14);
+    totalTokens += tagsResponse.totalTokens;
 
     // Step 4d: Generate illustration prompt
     const illustrationPrompt = `Create a detailed AI image generation prompt for an illustration to accompany this blog post:
@@ -632,15 +612,14 @@ ${draft.substring(0, 1500)}
 
 Describe the style, mood, colors, and specific visual elements. Output only the prompt:`;
 
-    const illustrationResponse = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 300,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: illustrationPrompt }],
-    });
+    const illustrationResponse = await this.llm.complete(
+      'content.package',
+      { prompt: illustrationPrompt, maxTokens: 300, temperature: 0.7 },
+      this.llmContext(input)
+    );
 
-    const illustrationText = illustrationResponse.content.find(c => c.type === 'text')?.text?.trim() || '';
-    totalTokens += illustrationResponse.usage.input_tokens + illustrationResponse.usage.output_tokens;
+    const illustrationText = illustrationResponse.text.trim() || '';
+    totalTokens += illustrationResponse.totalTokens;
 
     return {
       output: {
@@ -656,7 +635,7 @@ Describe the style, mood, colors, and specific visual elements. Output only the
   /**
    * Step 4a: Convert Markdown to WordPress HTML (checkpointable)
    */
-  private async step4aWordPressHtml(draft: string): Promise<{ wordpressPost: string; tokens: number }> {
+  private async step4aWordPressHtml(draft: string, context: PipelineLlmContext): Promise<{ wordpressPost: string; tokens: number }> {
     const htmlPrompt = `Convert this blog post from Markdown to clean WordPress HTML.
 
 MARKDOWN CONTENT:
@@ -675,15 +654,14 @@ REQUIREMENTS:
 
 OUTPUT THE HTML ONLY:`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 8192,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: htmlPrompt }],
-    });
+    const response = await this.llm.complete(
+      'content.package',
+      { prompt: htmlPrompt },
+      context
+    );
 
-    const wordpressPost = response.content.find(c => c.type === 'text')?.text || draft;
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const wordpressPost = response.text || draft;
+    const tokens = response.totalTokens;
 
     return { wordpressPost, tokens };
   }
@@ -691,22 +669,21 @@ OUTPUT THE HTML ONLY:`;
   /**
    * Step 4b: Generate excerpt (checkpointable)
    */
-  private async step4bExcerpt(draft: string): Promise<{ excerpt: string; tokens: number }> {
+  private async step4bExcerpt(draft: string, context: PipelineLlmContext): Promise<{ excerpt: string; tokens: number }> {
     const excerptPrompt = `Write a compelling excerpt (50 words or fewer) for this blog post that summarizes it and encourages reading:
 
 ${draft.substring(0, 2000)}
 
 OUTPUT ONLY THE EXCERPT TEXT (no quotes, no labels):`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 100,
-      temperature: 0.5,
-      messages: [{ role: 'user', content: excerptPrompt }],
-    });
+    const response = await this.llm.complete(
+      'content.package',
+      { prompt: excerptPrompt, maxTokens: 100, temperature: 0.5 },
+      context
+    );
 
-    const excerpt = response.content.find(c => c.type === 'text')?.text?.trim() || '';
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const excerpt = response.text.trim() || '';
+    const tokens = response.totalTokens;
 
     return { excerpt, tokens };
   }
@@ -723,16 +700,15 @@ ${input.targetKeywords?.length ? `Include these keywords: ${input.targetKeywords
 
 OUTPUT ONLY COMMA-SEPARATED TAGS:`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 200,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: tagsPrompt }],
-    });
+    const response = await this.llm.complete(
+      'content.package',
+      { prompt: tagsPrompt, maxTokens: 200 },
+      this.llmContext(input)
+    );
 
-    const tagsText = response.content.find(c => c.type === 'text')?.text || '';
-    const seoTags = tagsText.split(',').map(t => t.trim()).filter(Boolean).slice(0, 14);
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const tagsText = response.text || '';
+    const seoTags = tagsText.split(',').map((t: string) => t.trim()).filter(Boolean).slice(0, 14);
+    const tokens = response.totalTokens;
 
     return { seoTags, tokens };
   }
@@ -740,22 +716,21 @@ OUTPUT ONLY COMMA-SEPARATED TAGS:`;
   /**
    * Step 4d: Generate illustration prompt (checkpointable)
    */
-  private async step4dIllustration(draft: string): Promise<{ illustrationPrompt: string; tokens: number }> {
+  private async step4dIllustration(draft: string, context: PipelineLlmContext): Promise<{ illustrationPrompt: string; tokens: number }> {
     const prompt = `Create a detailed AI image generation prompt for an illustration to accompany this blog post:
 
 ${draft.substring(0, 1500)}
 
 Describe the style, mood, colors, and specific visual elements. Output only the prompt:`;
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-opus-4-5-20251101',
-      max_tokens: 300,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    const response = await this.llm.complete(
+      'content.package',
+      { prompt, maxTokens: 300, temperature: 0.7 },
+      context
+    );
 
-    const illustrationPrompt = response.content.find(c => c.type === 'text')?.text?.trim() || '';
-    const tokens = response.usage.input_tokens + response.usage.output_tokens;
+    const illustrationPrompt = response.text.trim() || '';
+    const tokens = response.totalTokens;
 
     return { illustrationPrompt, tokens };
   }
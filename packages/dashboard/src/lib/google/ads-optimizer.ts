@@ -1,18 +1,37 @@
 /**
  * Google Ads Optimizer
  *
- * Autonomous optimization engine for Google Ads campaigns.
- * Applies rule-based optimizations with configurable thresholds.
+ * Autonomous optimization engine for Google Ads campaigns, ad groups and
+ * keywords. Applies rule-based bid and status changes with configurable
+ * thresholds; every change is logged with the state it replaced so it can
+ * be reverted from the dashboard.
  */
 
-import { getGoogleAdsClient, type CampaignData } from './google-ads-client';
+import { getGoogleAdsClient, type EntityPerformance } from './google-ads-client';
 import { createClient } from '@supabase/supabase-js';
+import { getNotificationService } from '@arcvest/services';
+
+type EntityType = 'campaign' | 'ad_group' | 'keyword';
+
+/**
+ * Thrown when an optimization can't be reverted: it doesn't exist
+ * ('not_found') or isn't in a state that can be reverted ('invalid').
+ */
+export class RevertRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly reason: 'not_found' | 'invalid'
+  ) {
+    super(message);
+    this.name = 'RevertRejectedError';
+  }
+}
 
 interface OptimizationRule {
   id: string;
   name: string;
   description: string;
-  entity_type: 'campaign' | 'ad_group' | 'keyword';
+  entity_type: EntityType;
   metric: string;
   operator: 'less_than' | 'greater_than' | 'equals' | 'between';
   threshold_value: number | null;
@@ -31,13 +50,17 @@ interface OptimizationRule {
   priority: number;
 }
 
-interface KeywordMetrics {
+interface EntityMetrics {
+  entityType: EntityType;
   id: string;
   resourceName: string;
-  keyword: string;
-  matchType: string;
+  name: string;
+  matchType: string | null;
+  status: string;               // ENABLED / PAUSED
   campaignId: string;
   adGroupId: string;
+  cpcBidMicros: number | null;  // Campaign bids come from the bidding strategy
+  hasOwnCpcBid: boolean;        // False for a keyword inheriting its ad group's bid
   impressions: number;
   clicks: number;
   cost: number;
@@ -47,20 +70,44 @@ interface KeywordMetrics {
   cpa: number | null;
 }
 
+/**
+ * What an entity looked like before (or should look like after) a change
+ */
+interface EntityState {
+  status: string;
+  cpcBidMicros: number | null;
+  hasOwnCpcBid?: boolean;       // Missing from log entries written before it was tracked
+}
+
+interface PlannedChange {
+  oldValue: string | null;
+  newValue: string | null;
+  changePercentage: number | null;
+  next: EntityState | null;     // null for alert_only
+  skipReason?: string;
+}
+
 interface OptimizationResult {
   rule: string;
   entityType: string;
   entityId: string;
   entityName: string;
+  resourceName: string;
   action: string;
   oldValue: string | null;
   newValue: string | null;
   changePercentage: number | null;
   reason: string;
-  status: 'applied' | 'failed' | 'skipped';
+  status: 'applied' | 'failed' | 'skipped' | 'preview';
   error?: string;
 }
 
+const MICROS_PER_CENT = 10_000;
+
+function formatMicros(micros: number): string {
+  return `$${(micros / 1_000_000).toFixed(2)}`;
+}
+
 export class AdsOptimizer {
   private supabase;
   private googleAds;
@@ -92,7 +139,48 @@ export class AdsOptimizer {
   }
 
   /**
-   * Check if an entity is in cooldown (was optimized recently)
+   * Load performance for every entity of a type over the last 30 days
+   */
+  async loadEntities(entityType: EntityType, startDate: string, endDate: string): Promise<EntityMetrics[]> {
+    if (entityType === 'campaign') {
+      const campaigns = await this.googleAds.getCampaignPerformance(startDate, endDate);
+      return campaigns.map((campaign) => ({
+        entityType,
+        id: campaign.id,
+        resourceName: `customers/${process.env.GOOGLE_ADS_CUSTOMER_ID?.replace(/-/g, '')}/campaigns/${campaign.id}`,
+        name: campaign.name,
+        matchType: null,
+        status: campaign.status.toUpperCase(),
+        campaignId: campaign.id,
+        adGroupId: '',
+        cpcBidMicros: null,
+        hasOwnCpcBid: false,
+        impressions: campaign.impressions,
+        clicks: campaign.clicks,
+        cost: campaign.cost,
+        conversions: campaign.conversions,
+        ctr: campaign.ctr,
+        avgCpc: campaign.avgCpc,
+        cpa: campaign.costPerConversion,
+      }));
+    }
+
+    const entities: EntityPerformance[] = entityType === 'ad_group'
+      ? await this.googleAds.getAdGroupPerformance(startDate, endDate)
+      : await this.googleAds.getKeywordPerformance(startDate, endDate);
+
+    return entities.map((entity) => ({
+      entityType,
+      ...entity,
+      // Criterion IDs are only unique within their ad group
+      id: entityType === 'keyword' ? `${entity.adGroupId}~${entity.id}` : entity.id,
+      cpa: entity.costPerConversion,
+    }));
+  }
+
+  /**
+   * Check if an entity is in cooldown (was optimized recently). A reverted
+   * change counts, so a rule doesn't immediately redo what someone undid.
    */
   async isInCooldown(entityId: string, ruleName: string, cooldownHours: number): Promise<boolean> {
     const cooldownTime = new Date();
@@ -103,7 +191,7 @@ export class AdsOptimizer {
       .select('*', { count: 'exact', head: true })
       .eq('entity_id', entityId)
       .eq('rule_name', ruleName)
-      .eq('status', 'applied')
+      .in('status', ['applied', 'reverted'])
       .gte('created_at', cooldownTime.toISOString());
 
     return (count || 0) > 0;
@@ -128,7 +216,7 @@ export class AdsOptimizer {
   /**
    * Evaluate if a rule condition is met
    */
-  evaluateCondition(rule: OptimizationRule, metrics: KeywordMetrics): boolean {
+  evaluateCondition(rule: OptimizationRule, metrics: EntityMetrics): boolean {
     // Check minimum data requirements
     const minData = rule.minimum_data || {};
     if (minData.impressions && metrics.impressions < minData.impressions) {
@@ -184,10 +272,128 @@ export class AdsOptimizer {
     }
   }
 
+  /**
+   * Work out the change a rule makes to an entity. remainingChange is what is
+   * left of the rule's max_change_per_day for the entity today.
+   */
+  planChange(rule: OptimizationRule, metrics: EntityMetrics, remainingChange: number | null): PlannedChange {
+    const current: EntityState = {
+      status: metrics.status,
+      cpcBidMicros: metrics.cpcBidMicros,
+      hasOwnCpcBid: metrics.hasOwnCpcBid,
+    };
+    const skip = (skipReason: string): PlannedChange => ({
+      oldValue: null,
+      newValue: null,
+      changePercentage: null,
+      next: null,
+      skipReason,
+    });
+
+    switch (rule.action) {
+      case 'alert_only':
+        return { oldValue: null, newValue: null, changePercentage: null, next: null };
+
+      case 'pause':
+      case 'enable': {
+        const status = rule.action === 'pause' ? 'PAUSED' : 'ENABLED';
+        if (metrics.status === status) {
+          return skip(`Already ${status.toLowerCase()}`);
+        }
+        return {
+          oldValue: metrics.status,
+          newValue: status,
+          changePercentage: null,
+          next: { ...current, status },
+        };
+      }
+
+      case 'bid_increase':
+      case 'bid_decrease': {
+        if (metrics.entityType === 'campaign') {
+          return skip('Campaign bids are set by the bidding strategy');
+        }
+        if (!metrics.cpcBidMicros) {
+          return skip('No manual CPC bid to adjust');
+        }
+
+        let percentage = rule.action_value || 0;
+        if (remainingChange !== null) {
+          percentage = Math.min(percentage, remainingChange);
+        }
+        if (percentage <= 0) {
+          return skip('No bid change left for today');
+        }
+
+        const direction = rule.action === 'bid_increase' ? 1 : -1;
+        const raw = metrics.cpcBidMicros * (1 + (direction * percentage) / 100);
+        const cpcBidMicros = Math.max(MICROS_PER_CENT, Math.round(raw / MICROS_PER_CENT) * MICROS_PER_CENT);
+        if (cpcBidMicros === metrics.cpcBidMicros) {
+          return skip('Bid change rounds to zero');
+        }
+
+        return {
+          oldValue: formatMicros(metrics.cpcBidMicros),
+          newValue: formatMicros(cpcBidMicros),
+          changePercentage: direction * percentage,
+          next: { ...current, cpcBidMicros, hasOwnCpcBid: true },
+        };
+      }
+
+      default:
+        return skip(`${rule.action} is not applied automatically`);
+    }
+  }
+
+  /**
+   * Push the status or bid that an action changes. Used both to apply a
+   * change (with the new state) and to revert one (with the previous state).
+   */
+  async applyChange(
+    entityType: EntityType,
+    resourceName: string,
+    action: string,
+    state: EntityState
+  ): Promise<void> {
+    if (action === 'pause' || action === 'enable') {
+      const enable = state.status === 'ENABLED';
+      switch (entityType) {
+        case 'campaign':
+          return enable
+            ? this.googleAds.enableCampaign(resourceName)
+            : this.googleAds.pauseCampaign(resourceName);
+        case 'ad_group':
+          return enable
+            ? this.googleAds.enableAdGroup(resourceName)
+            : this.googleAds.pauseAdGroup(resourceName);
+        case 'keyword':
+          return enable
+            ? this.googleAds.enableKeyword(resourceName)
+            : this.googleAds.pauseKeyword(resourceName);
+      }
+    }
+
+    // Reverting a bid change on a keyword that inherited its bid restores the inheritance
+    if ((action === 'bid_increase' || action === 'bid_decrease') && entityType === 'keyword' && state.hasOwnCpcBid === false) {
+      return this.googleAds.clearKeywordCpcBid(resourceName);
+    }
+
+    if ((action === 'bid_increase' || action === 'bid_decrease') && state.cpcBidMicros) {
+      switch (entityType) {
+        case 'ad_group':
+          return this.googleAds.setAdGroupCpcBid(resourceName, state.cpcBidMicros);
+        case 'keyword':
+          return this.googleAds.setKeywordCpcBid(resourceName, state.cpcBidMicros);
+      }
+    }
+
+    throw new Error(`Cannot ${action} a ${entityType.replace('_', ' ')}`);
+  }
+
   /**
    * Generate reason text for an optimization
    */
-  generateReason(rule: OptimizationRule, metrics: KeywordMetrics): string {
+  generateReason(rule: OptimizationRule, metrics: EntityMetrics): string {
     const metricLabels: Record<string, string> = {
       ctr: 'CTR',
       cpa: 'CPA',
@@ -214,7 +420,7 @@ export class AdsOptimizer {
         metricValue = `$${metrics.avgCpc.toFixed(2)}`;
         break;
       default:
-        metricValue = metrics[rule.metric as keyof KeywordMetrics]?.toString() || '0';
+        metricValue = metrics[rule.metric as keyof EntityMetrics]?.toString() || '0';
     }
 
     return `${metricLabel} is ${metricValue} (${rule.operator.replace('_', ' ')} ${rule.threshold_value}). ${rule.description}`;
@@ -223,15 +429,23 @@ export class AdsOptimizer {
   /**
    * Log an optimization to the database
    */
-  async logOptimization(result: OptimizationResult, rule: OptimizationRule, metrics: KeywordMetrics): Promise<void> {
-    await this.supabase.from('optimization_log').insert({
+  async logOptimization(
+    result: OptimizationResult,
+    rule: OptimizationRule,
+    metrics: EntityMetrics,
+    previousState: EntityState | null
+  ): Promise<void> {
+    const { error } = await this.supabase.from('optimization_log').insert({
+      google_ads_campaign_id: metrics.campaignId || null,
       entity_type: result.entityType,
       entity_id: result.entityId,
       entity_name: result.entityName,
+      resource_name: result.resourceName,
       action: result.action,
       old_value: result.oldValue,
       new_value: result.newValue,
       change_percentage: result.changePercentage,
+      previous_state: previousState,
       rule_name: result.rule,
       reason: result.reason,
       metrics_snapshot: metrics,
@@ -244,19 +458,26 @@ export class AdsOptimizer {
       error_message: result.error,
       applied_at: result.status === 'applied' ? new Date().toISOString() : null,
     });
+
+    if (error) {
+      console.error('[AdsOptimizer] Failed to log optimization:', error);
+    }
   }
 
   /**
-   * Run all optimization rules
+   * Run all optimization rules. With dryRun nothing is changed or logged;
+   * the results preview what each rule would do.
    */
-  async runOptimizations(): Promise<{
+  async runOptimizations(options: { dryRun?: boolean } = {}): Promise<{
+    dryRun: boolean;
     total: number;
     applied: number;
     skipped: number;
     failed: number;
     results: OptimizationResult[];
   }> {
-    console.log('[AdsOptimizer] Starting optimization run...');
+    const dryRun = options.dryRun ?? false;
+    console.log(`[AdsOptimizer] Starting optimization run${dryRun ? ' (dry run)' : ''}...`);
 
     const rules = await this.loadRules();
     console.log(`[AdsOptimizer] Loaded ${rules.length} active rules`);
@@ -266,39 +487,29 @@ export class AdsOptimizer {
     let skipped = 0;
     let failed = 0;
 
-    // For now, we work with campaign-level data
-    // Full implementation would fetch keyword-level data
     const endDate = new Date().toISOString().split('T')[0];
     const startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-    try {
-      const campaigns = await this.googleAds.getCampaignPerformance(startDate, endDate);
+    const entityTypes = Array.from(new Set(rules.map((rule) => rule.entity_type)));
 
-      for (const campaign of campaigns) {
-        // Convert campaign data to metrics format
-        const metrics: KeywordMetrics = {
-          id: campaign.id,
-          resourceName: `customers/${process.env.GOOGLE_ADS_CUSTOMER_ID}/campaigns/${campaign.id}`,
-          keyword: campaign.name,
-          matchType: 'CAMPAIGN',
-          campaignId: campaign.id,
-          adGroupId: '',
-          impressions: campaign.impressions,
-          clicks: campaign.clicks,
-          cost: campaign.cost,
-          conversions: campaign.conversions,
-          ctr: campaign.ctr,
-          avgCpc: campaign.avgCpc,
-          cpa: campaign.costPerConversion,
-        };
+    for (const entityType of entityTypes) {
+      let entities: EntityMetrics[];
+      try {
+        entities = await this.loadEntities(entityType, startDate, endDate);
+      } catch (error) {
+        console.error(`[AdsOptimizer] Error fetching ${entityType} performance:`, error);
+        failed++;
+        continue;
+      }
 
-        // Evaluate each rule against this campaign
-        for (const rule of rules) {
-          if (rule.entity_type !== 'campaign') continue;
+      const typeRules = rules.filter((rule) => rule.entity_type === entityType);
 
+      for (const metrics of entities) {
+        // Evaluate each rule against this entity (rules are in priority order)
+        for (const rule of typeRules) {
           // Check cooldown
-          if (await this.isInCooldown(campaign.id, rule.name, rule.cooldown_hours)) {
-            console.log(`[AdsOptimizer] ${campaign.name} in cooldown for rule ${rule.name}`);
+          if (await this.isInCooldown(metrics.id, rule.name, rule.cooldown_hours)) {
+            console.log(`[AdsOptimizer] ${metrics.name} in cooldown for rule ${rule.name}`);
             continue;
           }
 
@@ -308,68 +519,100 @@ export class AdsOptimizer {
           }
 
           // Check daily change limit
+          let remainingChange: number | null = null;
           if (rule.max_change_per_day) {
-            const todayChange = await this.getTodayChangePercentage(campaign.id);
-            if (todayChange >= rule.max_change_per_day) {
-              console.log(`[AdsOptimizer] ${campaign.name} reached daily limit for ${rule.name}`);
-              skipped++;
-              continue;
-            }
+            const todayChange = await this.getTodayChangePercentage(metrics.id);
+            remainingChange = rule.max_change_per_day - todayChange;
           }
 
-          // Generate the result
+          const plan = this.planChange(rule, metrics, remainingChange);
           const result: OptimizationResult = {
             rule: rule.name,
-            entityType: 'campaign',
-            entityId: campaign.id,
-            entityName: campaign.name,
+            entityType,
+            entityId: metrics.id,
+            entityName: metrics.name,
+            resourceName: metrics.resourceName,
             action: rule.action,
-            oldValue: null,
-            newValue: null,
-            changePercentage: rule.action_value || null,
+            oldValue: plan.oldValue,
+            newValue: plan.newValue,
+            changePercentage: plan.changePercentage,
             reason: this.generateReason(rule, metrics),
-            status: 'applied',
+            status: dryRun ? 'preview' : 'applied',
           };
 
-          // For alert_only, just log without making changes
-          if (rule.action === 'alert_only') {
-            result.status = 'applied';
-            await this.logOptimization(result, rule, metrics);
+          if (plan.skipReason) {
+            console.log(`[AdsOptimizer] Skipping ${rule.action} on ${metrics.name}: ${plan.skipReason}`);
+            result.status = 'skipped';
+            result.error = plan.skipReason;
             results.push(result);
-            applied++;
+            skipped++;
             continue;
           }
 
-          // For actual changes, we would call the Google Ads API here
-          // For now, we log as "applied" - in production, wrap in try/catch
-          // and set status based on actual API response
-          try {
-            // TODO: Implement actual bid/status changes via Google Ads API
-            // await this.googleAds.updateBid(campaign.id, newBid);
-            // await this.googleAds.pauseCampaign(campaign.id);
-
-            // For now, mark as applied (would be actual API call)
-            console.log(`[AdsOptimizer] Would apply ${rule.action} to ${campaign.name}`);
-            result.status = 'applied';
+          const previousState: EntityState = {
+            status: metrics.status,
+            cpcBidMicros: metrics.cpcBidMicros,
+            hasOwnCpcBid: metrics.hasOwnCpcBid,
+          };
+
+          if (dryRun) {
+            results.push(result);
+          } else if (!plan.next) {
+            // alert_only: log and notify without making changes
+            await this.logOptimization(result, rule, metrics, null);
+            try {
+              await getNotificationService().notify({
+                source: 'optimizer',
+                severity: 'warning',
+                title: `${rule.name}: ${metrics.name}`,
+                message: result.reason,
+                dedupKey: `optimizer:${rule.name}:${metrics.id}`,
+                link: '/dashboard/ad-performance',
+                details: { entityType, entityId: metrics.id, rule: rule.name },
+              });
+            } catch (error) {
+              console.error(`[AdsOptimizer] Failed to send ${rule.name} alert for ${metrics.name}:`, error);
+            }
+            results.push(result);
             applied++;
-          } catch (error) {
-            result.status = 'failed';
-            result.error = error instanceof Error ? error.message : 'Unknown error';
-            failed++;
+          } else {
+            try {
+              await this.applyChange(entityType, metrics.resourceName, rule.action, plan.next);
+              applied++;
+            } catch (error) {
+              result.status = 'failed';
+              result.error = error instanceof Error ? error.message : 'Unknown error';
+              failed++;
+
+              await getNotificationService().notify({
+                source: 'optimizer',
+                severity: 'warning',
+                title: `Optimization failed: ${metrics.name}`,
+                message: `${rule.name} could not ${rule.action.replace('_', ' ')} ${metrics.name}: ${result.error}`,
+                dedupKey: `optimizer:failed:${rule.name}:${metrics.id}`,
+                link: '/dashboard/ad-performance',
+                details: { entityType, entityId: metrics.id, rule: rule.name, error: result.error },
+              });
+            }
+
+            await this.logOptimization(result, rule, metrics, previousState);
+            results.push(result);
           }
 
-          await this.logOptimization(result, rule, metrics);
-          results.push(result);
+          // Later rules see the entity as this rule left it
+          if (plan.next && result.status !== 'failed') {
+            metrics.status = plan.next.status;
+            metrics.cpcBidMicros = plan.next.cpcBidMicros;
+            metrics.hasOwnCpcBid = plan.next.hasOwnCpcBid ?? metrics.hasOwnCpcBid;
+          }
         }
       }
-    } catch (error) {
-      console.error('[AdsOptimizer] Error fetching campaigns:', error);
-      failed++;
     }
 
     console.log(`[AdsOptimizer] Complete. Applied: ${applied}, Skipped: ${skipped}, Failed: ${failed}`);
 
     return {
+      dryRun,
       total: results.length,
       applied,
       skipped,
@@ -378,6 +621,61 @@ export class AdsOptimizer {
     };
   }
 
+  /**
+   * Undo an applied optimization by restoring the entity's previous status
+   * or bid. Only the latest change to an entity can be reverted, so a revert
+   * never silently discards a later change.
+   */
+  async revertOptimization(logId: string, revertedBy?: string): Promise<Record<string, unknown>> {
+    const { data: entry, error } = await this.supabase
+      .from('optimization_log')
+      .select('*')
+      .eq('id', logId)
+      .single();
+
+    if (error || !entry) {
+      throw new RevertRejectedError('Optimization not found', 'not_found');
+    }
+    if (entry.status !== 'applied') {
+      throw new RevertRejectedError(`Only applied optimizations can be reverted (this one is ${entry.status})`, 'invalid');
+    }
+    if (!entry.resource_name || !entry.previous_state) {
+      throw new RevertRejectedError('Nothing to revert: no previous state was recorded for this optimization', 'invalid');
+    }
+
+    const { count } = await this.supabase
+      .from('optimization_log')
+      .select('*', { count: 'exact', head: true })
+      .eq('resource_name', entry.resource_name)
+      .eq('status', 'applied')
+      .neq('action', 'alert_only')
+      .gt('created_at', entry.created_at);
+
+    if ((count || 0) > 0) {
+      throw new RevertRejectedError('A later change to this entity must be reverted first', 'invalid');
+    }
+
+    await this.applyChange(entry.entity_type, entry.resource_name, entry.action, entry.previous_state);
+
+    const { data: reverted, error: updateError } = await this.supabase
+      .from('optimization_log')
+      .update({
+        status: 'reverted',
+        reverted_at: new Date().toISOString(),
+        reverted_by: revertedBy || null,
+      })
+      .eq('id', logId)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to mark optimization as reverted: ${updateError.message}`);
+    }
+
+    console.log(`[AdsOptimizer] Reverted ${entry.action} on ${entry.entity_name}`);
+    return reverted;
+  }
+
   /**
    * Check budget pacing for all campaigns
    */
@@ -425,6 +723,8 @@ export class AdsOptimizer {
         }
 
         if (alertType) {
+          const message = `Campaign "${campaign.name}" is ${alertType.replace('_', ' ')}: ${pacingPercentage.toFixed(0)}% of expected spend`;
+
           await this.supabase.from('budget_alerts').insert({
             google_ads_campaign_id: campaign.id,
             alert_type: alertType,
@@ -433,7 +733,17 @@ export class AdsOptimizer {
             current_spend: campaign.cost,
             expected_spend: expectedSpend,
             pacing_percentage: pacingPercentage,
-            message: `Campaign "${campaign.name}" is ${alertType.replace('_', ' ')}: ${pacingPercentage.toFixed(0)}% of expected spend`,
+            message,
+          });
+
+          await getNotificationService().notify({
+            source: 'budget',
+            severity: severity === 'low' ? 'info' : severity === 'medium' ? 'warning' : 'critical',
+            title: `${campaign.name}: ${alertType.replace('_', ' ')}`,
+            message,
+            dedupKey: `budget:${campaign.id}:${alertType}`,
+            link: '/dashboard/ad-performance',
+            details: { dailyBudget, currentSpend: campaign.cost, expectedSpend, pacingPercentage },
           });
         }
       }
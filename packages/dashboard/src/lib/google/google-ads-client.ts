@@ -54,6 +54,17 @@ export interface MutateResult {
   resourceName: string;
 }
 
+export interface ClickConversion {
+  conversionAction: string;
+  conversionDateTime: string; // "yyyy-mm-dd hh:mm:ss+00:00"
+  conversionValue?: number;
+  currencyCode?: string;
+  orderId?: string; // Google rejects a second upload with the same order ID
+  gclid?: string;
+  gbraid?: string;
+  wbraid?: string;
+}
+
 export interface AdGroupMetrics {
   adGroupId: string;
   adGroupName: string;
@@ -65,6 +76,49 @@ export interface AdGroupMetrics {
   cpc: number;
 }
 
+/**
+ * Performance for a single ad group or keyword, with the status and bid the
+ * optimizer needs to change (and later revert) it
+ */
+export interface EntityPerformance {
+  id: string;
+  resourceName: string;
+  name: string;
+  matchType: string | null;      // Keywords only
+  status: string;
+  campaignId: string;
+  adGroupId: string;
+  cpcBidMicros: number | null;   // Effective bid (keywords inherit the ad group's)
+  hasOwnCpcBid: boolean;         // False for a keyword inheriting its ad group's bid
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  ctr: number;
+  avgCpc: number;
+  costPerConversion: number | null;
+}
+
+/**
+ * A search term's performance in one ad group
+ */
+export interface SearchTermData {
+  searchTerm: string;
+  status: string;                // ADDED, EXCLUDED, ADDED_EXCLUDED or NONE
+  campaignId: string;
+  campaignName: string;
+  adGroupId: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+}
+
+export interface NegativeKeyword {
+  text: string;
+  matchType: 'EXACT' | 'PHRASE' | 'BROAD';
+}
+
 export class GoogleAdsClient {
   private customerId: string;
   private loginCustomerId: string;
@@ -314,10 +368,28 @@ export class GoogleAdsClient {
     resource: string,
     operations: Array<Record<string, unknown>>
   ): Promise<MutateResult[]> {
+    const data = await this.postToCustomer(`/${resource}:mutate`, { operations }, `mutate error (${resource})`);
+    const results: MutateResult[] = (data.results || []).map(
+      (r: { resourceName?: string }) => ({
+        resourceName: r.resourceName || '',
+      })
+    );
+    return results;
+  }
+
+  /**
+   * POST to a customer-level Google Ads API method, e.g. "/campaigns:mutate"
+   * or ":uploadClickConversions"
+   */
+  private async postToCustomer(
+    method: string,
+    body: Record<string, unknown>,
+    errorLabel: string
+  ) {
     const accessToken = await this.getAccessToken();
 
     const response = await fetch(
-      `https://googleads.googleapis.com/v23/customers/${this.customerId}/${resource}:mutate`,
+      `https://googleads.googleapis.com/v23/customers/${this.customerId}${method}`,
       {
         method: 'POST',
         headers: {
@@ -326,22 +398,44 @@ export class GoogleAdsClient {
           'login-customer-id': this.loginCustomerId,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ operations }),
+        body: JSON.stringify(body),
       }
     );
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Google Ads mutate error (${resource}): ${error}`);
+      throw new Error(`Google Ads ${errorLabel}: ${error}`);
     }
 
-    const data = await response.json();
-    const results: MutateResult[] = (data.results || []).map(
-      (r: { resourceName?: string }) => ({
-        resourceName: r.resourceName || '',
-      })
+    return response.json();
+  }
+
+  /**
+   * Upload offline click conversions (e.g. consultations booked from an ad click).
+   * conversionAction may be a resource name or a bare conversion action ID.
+   */
+  async uploadClickConversions(conversions: ClickConversion[]): Promise<Record<string, unknown>> {
+    const data = await this.postToCustomer(
+      ':uploadClickConversions',
+      {
+        conversions: conversions.map((c) => ({
+          ...c,
+          conversionAction: /^\d+$/.test(c.conversionAction)
+            ? `customers/${this.customerId}/conversionActions/${c.conversionAction}`
+            : c.conversionAction,
+        })),
+        partialFailure: true,
+      },
+      'conversion upload error'
     );
-    return results;
+
+    // With partialFailure the request succeeds even when individual rows are rejected
+    if (data.partialFailureError) {
+      throw new Error(`Google Ads conversion upload rejected: ${data.partialFailureError.message}`);
+    }
+
+    console.log('[GoogleAdsClient] Uploaded click conversions:', conversions.length);
+    return data;
   }
 
   /**
@@ -555,6 +649,168 @@ export class GoogleAdsClient {
     console.log('[GoogleAdsClient] Enabled ad group:', adGroupResourceName);
   }
 
+  /**
+   * Set an ad group's max CPC bid
+   */
+  async setAdGroupCpcBid(adGroupResourceName: string, cpcBidMicros: number): Promise<void> {
+    await this.runMutate('adGroups', [
+      {
+        update: { resourceName: adGroupResourceName, cpcBidMicros: String(cpcBidMicros) },
+        updateMask: 'cpc_bid_micros',
+      },
+    ]);
+    console.log('[GoogleAdsClient] Set ad group CPC bid:', adGroupResourceName, cpcBidMicros);
+  }
+
+  /**
+   * Pause a keyword (ad group criterion)
+   */
+  async pauseKeyword(criterionResourceName: string): Promise<void> {
+    await this.runMutate('adGroupCriteria', [
+      {
+        update: { resourceName: criterionResourceName, status: 'PAUSED' },
+        updateMask: 'status',
+      },
+    ]);
+    console.log('[GoogleAdsClient] Paused keyword:', criterionResourceName);
+  }
+
+  /**
+   * Enable a keyword (ad group criterion)
+   */
+  async enableKeyword(criterionResourceName: string): Promise<void> {
+    await this.runMutate('adGroupCriteria', [
+      {
+        update: { resourceName: criterionResourceName, status: 'ENABLED' },
+        updateMask: 'status',
+      },
+    ]);
+    console.log('[GoogleAdsClient] Enabled keyword:', criterionResourceName);
+  }
+
+  /**
+   * Set a keyword's max CPC bid, overriding the ad group default
+   */
+  async setKeywordCpcBid(criterionResourceName: string, cpcBidMicros: number): Promise<void> {
+    await this.runMutate('adGroupCriteria', [
+      {
+        update: { resourceName: criterionResourceName, cpcBidMicros: String(cpcBidMicros) },
+        updateMask: 'cpc_bid_micros',
+      },
+    ]);
+    console.log('[GoogleAdsClient] Set keyword CPC bid:', criterionResourceName, cpcBidMicros);
+  }
+
+  /**
+   * Clear a keyword's max CPC bid so it inherits the ad group default again
+   */
+  async clearKeywordCpcBid(criterionResourceName: string): Promise<void> {
+    await this.runMutate('adGroupCriteria', [
+      {
+        // A field in the update mask but not in the update is cleared
+        update: { resourceName: criterionResourceName },
+        updateMask: 'cpc_bid_micros',
+      },
+    ]);
+    console.log('[GoogleAdsClient] Cleared keyword CPC bid:', criterionResourceName);
+  }
+
+  /**
+   * Add negative keywords to a campaign
+   */
+  async addCampaignNegativeKeywords(
+    campaignResourceName: string,
+    keywords: NegativeKeyword[]
+  ): Promise<MutateResult[]> {
+    if (keywords.length === 0) return [];
+
+    const results = await this.runMutate('campaignCriteria', keywords.map((keyword) => ({
+      create: {
+        campaign: campaignResourceName,
+        negative: true,
+        keyword,
+      },
+    })));
+    console.log('[GoogleAdsClient] Added', keywords.length, 'negative keywords to', campaignResourceName);
+    return results;
+  }
+
+  /**
+   * Find a shared negative keyword list by name
+   */
+  async findSharedNegativeList(name: string): Promise<string | null> {
+    const query = `
+      SELECT shared_set.resource_name
+      FROM shared_set
+      WHERE shared_set.type = 'NEGATIVE_KEYWORDS'
+        AND shared_set.status = 'ENABLED'
+        AND shared_set.name = '${name.replace(/'/g, "\\'")}'
+    `;
+
+    const response = await this.runQuery(query);
+    const row = (response.results || [])[0] as Record<string, unknown> | undefined;
+    const sharedSet = row?.sharedSet as { resourceName?: string } | undefined;
+    return sharedSet?.resourceName || null;
+  }
+
+  /**
+   * Create a shared negative keyword list
+   */
+  async createSharedNegativeList(name: string): Promise<string> {
+    const results = await this.runMutate('sharedSets', [
+      { create: { name, type: 'NEGATIVE_KEYWORDS' } },
+    ]);
+    console.log('[GoogleAdsClient] Created shared negative list:', results[0].resourceName);
+    return results[0].resourceName;
+  }
+
+  /**
+   * Add keywords to a shared negative keyword list
+   */
+  async addSharedSetKeywords(sharedSetResourceName: string, keywords: NegativeKeyword[]): Promise<MutateResult[]> {
+    if (keywords.length === 0) return [];
+
+    const results = await this.runMutate('sharedCriteria', keywords.map((keyword) => ({
+      create: { sharedSet: sharedSetResourceName, keyword },
+    })));
+    console.log('[GoogleAdsClient] Added', keywords.length, 'keywords to', sharedSetResourceName);
+    return results;
+  }
+
+  /**
+   * IDs of the campaigns a shared set is attached to
+   */
+  async getSharedSetCampaignIds(sharedSetResourceName: string): Promise<string[]> {
+    const query = `
+      SELECT campaign.id
+      FROM campaign_shared_set
+      WHERE campaign_shared_set.shared_set = '${sharedSetResourceName}'
+        AND campaign_shared_set.status = 'ENABLED'
+    `;
+
+    const response = await this.runQuery(query);
+    return (response.results || []).map((row) => row.campaign?.id || '').filter(Boolean);
+  }
+
+  /**
+   * Attach a shared set to campaigns
+   */
+  async attachSharedSet(sharedSetResourceName: string, campaignResourceNames: string[]): Promise<void> {
+    if (campaignResourceNames.length === 0) return;
+
+    await this.runMutate('campaignSharedSets', campaignResourceNames.map((campaign) => ({
+      create: { campaign, sharedSet: sharedSetResourceName },
+    })));
+    console.log('[GoogleAdsClient] Attached', sharedSetResourceName, 'to', campaignResourceNames.length, 'campaigns');
+  }
+
+  /**
+   * Resource name for a campaign ID
+   */
+  campaignResourceName(campaignId: string): string {
+    return `customers/${this.customerId}/campaigns/${campaignId}`;
+  }
+
   /**
    * Remove a campaign (set status to REMOVED)
    */
@@ -646,6 +902,205 @@ export class GoogleAdsClient {
     }));
   }
 
+  /**
+   * Get performance for every ad group in the account
+   */
+  async getAdGroupPerformance(startDate: string, endDate: string): Promise<EntityPerformance[]> {
+    const query = `
+      SELECT
+        campaign.id,
+        ad_group.id,
+        ad_group.resource_name,
+        ad_group.name,
+        ad_group.status,
+        ad_group.cpc_bid_micros,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions
+      FROM ad_group
+      WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+        AND campaign.status != 'REMOVED'
+        AND ad_group.status != 'REMOVED'
+    `;
+
+    const response = await this.runQuery(query);
+
+    return this.aggregateEntities(response, (raw) => {
+      const adGroup = raw.adGroup as {
+        id?: string;
+        resourceName?: string;
+        name?: string;
+        status?: string;
+        cpcBidMicros?: string;
+      } | undefined;
+      const campaign = raw.campaign as { id?: string } | undefined;
+
+      return {
+        id: adGroup?.id || '',
+        resourceName: adGroup?.resourceName || '',
+        name: adGroup?.name || 'Unknown',
+        matchType: null,
+        status: adGroup?.status || 'UNKNOWN',
+        campaignId: campaign?.id || '',
+        adGroupId: adGroup?.id || '',
+        cpcBidMicros: adGroup?.cpcBidMicros ? parseInt(adGroup.cpcBidMicros) : null,
+        hasOwnCpcBid: true,
+      };
+    });
+  }
+
+  /**
+   * Get performance for every keyword in the account
+   */
+  async getKeywordPerformance(startDate: string, endDate: string): Promise<EntityPerformance[]> {
+    const query = `
+      SELECT
+        campaign.id,
+        ad_group.id,
+        ad_group_criterion.criterion_id,
+        ad_group_criterion.resource_name,
+        ad_group_criterion.keyword.text,
+        ad_group_criterion.keyword.match_type,
+        ad_group_criterion.status,
+        ad_group_criterion.cpc_bid_micros,
+        ad_group_criterion.effective_cpc_bid_micros,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions
+      FROM keyword_view
+      WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+        AND campaign.status != 'REMOVED'
+        AND ad_group.status != 'REMOVED'
+        AND ad_group_criterion.status != 'REMOVED'
+        AND ad_group_criterion.negative = FALSE
+    `;
+
+    const response = await this.runQuery(query);
+
+    return this.aggregateEntities(response, (raw) => {
+      const criterion = raw.adGroupCriterion as {
+        criterionId?: string;
+        resourceName?: string;
+        status?: string;
+        cpcBidMicros?: string;
+        effectiveCpcBidMicros?: string;
+        keyword?: { text?: string; matchType?: string };
+      } | undefined;
+      const campaign = raw.campaign as { id?: string } | undefined;
+      const adGroup = raw.adGroup as { id?: string } | undefined;
+
+      return {
+        id: criterion?.criterionId || '',
+        resourceName: criterion?.resourceName || '',
+        name: criterion?.keyword?.text || 'Unknown',
+        matchType: criterion?.keyword?.matchType || null,
+        status: criterion?.status || 'UNKNOWN',
+        campaignId: campaign?.id || '',
+        adGroupId: adGroup?.id || '',
+        cpcBidMicros: criterion?.effectiveCpcBidMicros ? parseInt(criterion.effectiveCpcBidMicros) : null,
+        // Unset (or zero) while the keyword inherits the ad group bid
+        hasOwnCpcBid: !!criterion?.cpcBidMicros && criterion.cpcBidMicros !== '0',
+      };
+    });
+  }
+
+  /**
+   * Get the search terms report (what people actually typed) per ad group
+   */
+  async getSearchTermReport(startDate: string, endDate: string): Promise<SearchTermData[]> {
+    const query = `
+      SELECT
+        search_term_view.search_term,
+        search_term_view.status,
+        campaign.id,
+        campaign.name,
+        ad_group.id,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions
+      FROM search_term_view
+      WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+        AND campaign.status != 'REMOVED'
+    `;
+
+    const response = await this.runQuery(query);
+
+    return (response.results || []).map((row) => {
+      const rawRow = row as Record<string, unknown>;
+      const view = rawRow.searchTermView as { searchTerm?: string; status?: string } | undefined;
+      const adGroup = rawRow.adGroup as { id?: string } | undefined;
+
+      return {
+        searchTerm: view?.searchTerm || '',
+        status: view?.status || 'NONE',
+        campaignId: row.campaign?.id || '',
+        campaignName: row.campaign?.name || 'Unknown',
+        adGroupId: adGroup?.id || '',
+        impressions: parseInt(row.metrics?.impressions || '0'),
+        clicks: parseInt(row.metrics?.clicks || '0'),
+        cost: parseInt(row.metrics?.costMicros || '0') / 1_000_000,
+        conversions: row.metrics?.conversions || 0,
+      };
+    });
+  }
+
+  /**
+   * Sum daily rows per entity (keyed by resource name) and derive CTR/CPC/CPA
+   */
+  private aggregateEntities(
+    response: GoogleAdsResponse,
+    toEntity: (raw: Record<string, unknown>) => Omit<
+      EntityPerformance,
+      'impressions' | 'clicks' | 'cost' | 'conversions' | 'ctr' | 'avgCpc' | 'costPerConversion'
+    >
+  ): EntityPerformance[] {
+    const entityMap = new Map<string, EntityPerformance>();
+
+    for (const row of response.results || []) {
+      const entity = toEntity(row as Record<string, unknown>);
+      const existing = entityMap.get(entity.resourceName);
+
+      const impressions = parseInt(row.metrics?.impressions || '0');
+      const clicks = parseInt(row.metrics?.clicks || '0');
+      const costMicros = parseInt(row.metrics?.costMicros || '0');
+      const conversions = row.metrics?.conversions || 0;
+
+      if (existing) {
+        existing.impressions += impressions;
+        existing.clicks += clicks;
+        existing.cost += costMicros / 1_000_000;
+        existing.conversions += conversions;
+      } else {
+        entityMap.set(entity.resourceName, {
+          ...entity,
+          impressions,
+          clicks,
+          cost: costMicros / 1_000_000,
+          conversions,
+          ctr: 0,
+          avgCpc: 0,
+          costPerConversion: null,
+        });
+      }
+    }
+
+    return Array.from(entityMap.values()).map((e) => ({
+      ...e,
+      ctr: e.impressions > 0
+        ? Number(((e.clicks / e.impressions) * 100).toFixed(2))
+        : 0,
+      avgCpc: e.clicks > 0
+        ? Number((e.cost / e.clicks).toFixed(2))
+        : 0,
+      costPerConversion: e.conversions > 0
+        ? Number((e.cost / e.conversions).toFixed(2))
+        : null,
+    }));
+  }
+
   /**
    * Get account-level summary metrics
    */
@@ -0,0 +1,546 @@
+/**
+ * Search Terms Miner
+ *
+ * Mines the Google Ads search terms report for negative keywords. Costly
+ * terms that never converted are matched against the negative keyword
+ * rules, then the rest are classified against our personas by the LLM.
+ * Proposals go to the approval queue; approving them adds the negatives
+ * (per campaign or on the shared list) and logs them in optimization_log.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getLlmGateway } from '@arcvest/services';
+import {
+  searchTermsConfig,
+  aggregateSearchTerms,
+  isNegativeCandidate,
+  matchNegativeRule,
+  buildNegativeProposals,
+  normalizeSearchTerm,
+  type NegativeProposal,
+  type SearchTermCategory,
+  type SearchTermClassification,
+  type SearchTermStats,
+} from '@arcvest/shared';
+import { getGoogleAdsClient, type NegativeKeyword } from './google-ads-client';
+import { PERSONAS } from '../rsa/types';
+
+interface SearchTermNegative {
+  id: string;
+  negative_text: string;
+  match_type: 'EXACT' | 'PHRASE';
+  level: 'campaign' | 'shared_list';
+  google_ads_campaign_id: string | null;
+  campaign_name: string | null;
+  category: string;
+  classified_by: 'rule' | 'llm';
+  reason: string | null;
+  search_terms: string[];
+  lookback_days: number;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  status: 'proposed' | 'applied' | 'rejected' | 'failed';
+}
+
+export interface MiningResult {
+  termsAnalyzed: number;
+  candidates: number;
+  ruleMatches: number;
+  llmClassified: number;
+  proposals: NegativeProposal[];
+  approvalId: string | null;
+}
+
+const LLM_CATEGORIES: SearchTermCategory[] = [
+  'employment',
+  'free_or_cheap',
+  'competitor_platform',
+  'diy_trading',
+  'education',
+  'irrelevant',
+];
+
+function negativeKey(n: { negative_text: string; match_type: string; level: string; google_ads_campaign_id: string | null }): string {
+  return `${n.level}|${n.google_ads_campaign_id || ''}|${n.match_type}|${n.negative_text}`;
+}
+
+function proposalKey(p: NegativeProposal): string {
+  return negativeKey({
+    negative_text: p.negativeText,
+    match_type: p.matchType,
+    level: p.level,
+    google_ads_campaign_id: p.campaignId,
+  });
+}
+
+export class SearchTermsMiner {
+  private supabase;
+  private googleAds;
+  private config = searchTermsConfig;
+
+  constructor() {
+    this.supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+    this.googleAds = getGoogleAdsClient();
+  }
+
+  /**
+   * Pull the search terms report, classify wasted spend and send new
+   * negative keyword proposals for approval
+   */
+  async mine(): Promise<MiningResult> {
+    const { startDate, endDate } = this.lookbackRange();
+    console.log(`[SearchTermsMiner] Mining search terms ${startDate} to ${endDate}...`);
+
+    const report = await this.googleAds.getSearchTermReport(startDate, endDate);
+
+    // Terms already excluded need no proposal
+    const rows = aggregateSearchTerms(
+      report
+        .filter((row) => !row.status.includes('EXCLUDED'))
+        .map(({ searchTerm, campaignId, campaignName, impressions, clicks, cost, conversions }) => ({
+          searchTerm, campaignId, campaignName, impressions, clicks, cost, conversions,
+        }))
+    );
+    const candidates = rows.filter((row) => isNegativeCandidate(row, this.config));
+
+    const classifications = new Map<string, SearchTermClassification>();
+    for (const row of candidates) {
+      const match = matchNegativeRule(row.searchTerm, this.config.rules);
+      if (match) classifications.set(row.searchTerm, match);
+    }
+    const ruleMatches = classifications.size;
+
+    const llmClassified = await this.classifyWithLlm(candidates, classifications);
+
+    const proposals = buildNegativeProposals(candidates, classifications, this.config);
+    const { proposals: newProposals, failedIds } = await this.withoutKnownNegatives(proposals);
+
+    const approvalId = newProposals.length > 0 ? await this.queueProposals(newProposals, failedIds) : null;
+
+    console.log(
+      `[SearchTermsMiner] ${candidates.length} candidates, ${ruleMatches} rule matches, ` +
+      `${llmClassified} classified by LLM, ${newProposals.length} new proposals`
+    );
+
+    return {
+      termsAnalyzed: rows.length,
+      candidates: candidates.length,
+      ruleMatches,
+      llmClassified,
+      proposals: newProposals,
+      approvalId,
+    };
+  }
+
+  /**
+   * Ask the LLM about the most expensive terms no rule matched. Adds the
+   * irrelevant ones to classifications; returns how many terms were judged.
+   */
+  private async classifyWithLlm(
+    candidates: SearchTermStats[],
+    classifications: Map<string, SearchTermClassification>
+  ): Promise<number> {
+    const costByTerm = new Map<string, number>();
+    for (const row of candidates) {
+      if (classifications.has(row.searchTerm)) continue;
+      costByTerm.set(row.searchTerm, (costByTerm.get(row.searchTerm) || 0) + row.cost);
+    }
+
+    const terms = Array.from(costByTerm.entries())
+      .filter(([, cost]) => cost >= this.config.min_cost_for_llm)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.config.max_llm_terms)
+      .map(([term]) => term);
+
+    let classified = 0;
+    for (let i = 0; i < terms.length; i += this.config.llm_batch_size) {
+      const batch = terms.slice(i, i + this.config.llm_batch_size);
+
+      try {
+        const response = await getLlmGateway().complete(
+          'ads.search_term_classify',
+          { prompt: this.buildClassificationPrompt(batch) },
+          { feature: 'search_term_mining' }
+        );
+
+        let results: Array<{ index: number; relevant: boolean; category?: string; reason?: string }> = [];
+        const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+        if (jsonMatch) {
+          results = JSON.parse(jsonMatch[0]).terms || [];
+        }
+
+        for (const result of results) {
+          const term = batch[result.index - 1];
+          if (!term) continue;
+          classified++;
+          if (result.relevant !== false) continue;
+
+          const category = LLM_CATEGORIES.includes(result.category as SearchTermCategory)
+            ? (result.category as SearchTermCategory)
+            : 'irrelevant';
+
+          classifications.set(term, {
+            category,
+            reason: result.reason || 'Not one of our personas',
+            classifiedBy: 'llm',
+            negativeText: normalizeSearchTerm(term),
+            matchType: 'EXACT',
+            level: null,
+          });
+        }
+      } catch (error) {
+        // Rule matches still go out; the next run retries these terms
+        console.error('[SearchTermsMiner] LLM classification failed:', error);
+      }
+    }
+
+    return classified;
+  }
+
+  private buildClassificationPrompt(terms: string[]): string {
+    const personas = PERSONAS.map((p) => `- ${p.name}: ${p.description}`).join('\n');
+
+    return `You review Google Ads search terms for ArcVest, a fee-only fiduciary wealth management firm (RIA).
+
+OUR PROSPECTS:
+${personas}
+
+For each search term, decide whether the person searching could become one of these prospects. Mark a term irrelevant only when it clearly cannot (job seekers, people after a different product or brand, students, unrelated meanings). When unsure, mark it relevant - a wrong negative blocks real prospects.
+
+Categories for irrelevant terms: ${LLM_CATEGORIES.join(', ')}
+
+SEARCH TERMS:
+${terms.map((term, i) => `${i + 1}. ${term}`).join('\n')}
+
+Respond with JSON only:
+{"terms": [{"index": 1, "relevant": false, "category": "employment", "reason": "short reason"}]}`;
+  }
+
+  /**
+   * Drop proposals already proposed, applied or rejected. Negatives that
+   * failed to apply are proposed again; their rows' ids are returned so the
+   * new proposals can replace them.
+   */
+  private async withoutKnownNegatives(
+    proposals: NegativeProposal[]
+  ): Promise<{ proposals: NegativeProposal[]; failedIds: string[] }> {
+    if (proposals.length === 0) return { proposals: [], failedIds: [] };
+
+    const { data, error } = await this.supabase
+      .from('search_term_negatives')
+      .select('id, negative_text, match_type, level, google_ads_campaign_id, status')
+      .in('negative_text', proposals.map((p) => p.negativeText));
+
+    if (error) {
+      throw new Error(`Failed to load existing negatives: ${error.message}`);
+    }
+
+    const existing = (data || []) as Pick<
+      SearchTermNegative,
+      'id' | 'negative_text' | 'match_type' | 'level' | 'google_ads_campaign_id' | 'status'
+    >[];
+    const known = new Set(existing.filter((n) => n.status !== 'failed').map(negativeKey));
+    const fresh = proposals.filter((p) => !known.has(proposalKey(p)));
+
+    const freshKeys = new Set(fresh.map(proposalKey));
+    const failedIds = existing
+      .filter((n) => n.status === 'failed' && freshKeys.has(negativeKey(n)))
+      .map((n) => n.id);
+
+    return { proposals: fresh, failedIds };
+  }
+
+  /**
+   * Store proposals and raise one approval for the run
+   */
+  private async queueProposals(proposals: NegativeProposal[], failedIds: string[] = []): Promise<string> {
+    const lookbackDays = this.config.lookback_days;
+
+    // One row per keyword, so a failed negative proposed again replaces its row
+    if (failedIds.length > 0) {
+      const { error: deleteError } = await this.supabase
+        .from('search_term_negatives')
+        .delete()
+        .in('id', failedIds)
+        .eq('status', 'failed');
+
+      if (deleteError) {
+        throw new Error(`Failed to clear failed negative keywords: ${deleteError.message}`);
+      }
+    }
+
+    const { data: negatives, error } = await this.supabase
+      .from('search_term_negatives')
+      .insert(proposals.map((p) => ({
+        negative_text: p.negativeText,
+        match_type: p.matchType,
+        level: p.level,
+        google_ads_campaign_id: p.campaignId,
+        campaign_name: p.campaignName,
+        category: p.category,
+        classified_by: p.classifiedBy,
+        reason: p.reason,
+        search_terms: p.searchTerms,
+        lookback_days: lookbackDays,
+        impressions: p.impressions,
+        clicks: p.clicks,
+        cost: p.cost,
+        baseline_daily_cost: p.cost / lookbackDays,
+      })))
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to store negative keyword proposals: ${error.message}`);
+    }
+
+    const totalCost = proposals.reduce((sum, p) => sum + p.cost, 0);
+    const top = proposals[0];
+
+    const { data: approval, error: approvalError } = await this.supabase
+      .from('approval_queue')
+      .insert({
+        type: 'negative_keywords',
+        priority: 'medium',
+        title: `${proposals.length} negative keyword${proposals.length !== 1 ? 's' : ''} from search terms`,
+        summary: `$${totalCost.toFixed(2)} wasted over the last ${lookbackDays} days. Top: "${top.negativeText}" ($${top.cost.toFixed(2)})`,
+        content: {
+          lookbackDays,
+          totalCost: Math.round(totalCost * 100) / 100,
+          negatives: (negatives as SearchTermNegative[]).map((n) => ({
+            id: n.id,
+            negativeText: n.negative_text,
+            matchType: n.match_type,
+            level: n.level,
+            campaignName: n.campaign_name,
+            category: n.category,
+            classifiedBy: n.classified_by,
+            reason: n.reason,
+            cost: n.cost,
+            searchTerms: n.search_terms,
+          })),
+        },
+        created_by: 'paid_media_agent',
+      })
+      .select('id')
+      .single();
+
+    if (approvalError) {
+      throw new Error(`Failed to queue negative keyword approval: ${approvalError.message}`);
+    }
+
+    await this.supabase
+      .from('search_term_negatives')
+      .update({ approval_id: approval.id })
+      .in('id', (negatives as SearchTermNegative[]).map((n) => n.id));
+
+    return approval.id;
+  }
+
+  /**
+   * Apply (or reject) the negatives behind an approval
+   */
+  async resolveApproval(
+    approvalId: string,
+    approved: boolean,
+    reviewedBy: string = 'system'
+  ): Promise<{ applied: number; failed: number; rejected: number }> {
+    const { data, error } = await this.supabase
+      .from('search_term_negatives')
+      .select('*')
+      .eq('approval_id', approvalId)
+      .eq('status', 'proposed');
+
+    if (error) {
+      throw new Error(`Failed to load negative keyword proposals: ${error.message}`);
+    }
+
+    const negatives = (data || []) as SearchTermNegative[];
+
+    if (!approved) {
+      await this.supabase
+        .from('search_term_negatives')
+        .update({ status: 'rejected', reviewed_by: reviewedBy })
+        .eq('approval_id', approvalId)
+        .eq('status', 'proposed');
+      return { applied: 0, failed: 0, rejected: negatives.length };
+    }
+
+    let applied = 0;
+    let failed = 0;
+
+    // Campaign negatives, one mutate per campaign
+    const byCampaign = new Map<string, SearchTermNegative[]>();
+    for (const negative of negatives.filter((n) => n.level === 'campaign' && n.google_ads_campaign_id)) {
+      const group = byCampaign.get(negative.google_ads_campaign_id!) || [];
+      group.push(negative);
+      byCampaign.set(negative.google_ads_campaign_id!, group);
+    }
+
+    for (const [campaignId, group] of byCampaign) {
+      const campaignResourceName = this.googleAds.campaignResourceName(campaignId);
+      try {
+        const results = await this.googleAds.addCampaignNegativeKeywords(campaignResourceName, group.map(this.toKeyword));
+        for (const [i, negative] of group.entries()) {
+          await this.markApplied(negative, results[i]?.resourceName || null, campaignId, reviewedBy);
+          applied++;
+        }
+      } catch (error) {
+        await this.markFailed(group, error, reviewedBy);
+        failed += group.length;
+      }
+    }
+
+    // Shared list negatives
+    const shared = negatives.filter((n) => n.level === 'shared_list');
+    if (shared.length > 0) {
+      try {
+        const sharedSet = await this.ensureSharedList();
+        const results = await this.googleAds.addSharedSetKeywords(sharedSet, shared.map(this.toKeyword));
+        for (const [i, negative] of shared.entries()) {
+          await this.markApplied(negative, results[i]?.resourceName || null, sharedSet, reviewedBy);
+          applied++;
+        }
+      } catch (error) {
+        await this.markFailed(shared, error, reviewedBy);
+        failed += shared.length;
+      }
+    }
+
+    console.log(`[SearchTermsMiner] Approval ${approvalId}: ${applied} negatives applied, ${failed} failed`);
+    return { applied, failed, rejected: 0 };
+  }
+
+  /**
+   * The shared negative list, created if needed and attached to every
+   * campaign with recent traffic
+   */
+  private async ensureSharedList(): Promise<string> {
+    const name = this.config.shared_list_name;
+    const sharedSet = await this.googleAds.findSharedNegativeList(name)
+      || await this.googleAds.createSharedNegativeList(name);
+
+    const { startDate, endDate } = this.lookbackRange();
+    const [campaigns, attached] = await Promise.all([
+      this.googleAds.getCampaignPerformance(startDate, endDate),
+      this.googleAds.getSharedSetCampaignIds(sharedSet),
+    ]);
+
+    const unattached = campaigns
+      .filter((c) => !attached.includes(c.id))
+      .map((c) => this.googleAds.campaignResourceName(c.id));
+    await this.googleAds.attachSharedSet(sharedSet, unattached);
+
+    return sharedSet;
+  }
+
+  private toKeyword(negative: SearchTermNegative): NegativeKeyword {
+    return { text: negative.negative_text, matchType: negative.match_type };
+  }
+
+  private async markApplied(
+    negative: SearchTermNegative,
+    resourceName: string | null,
+    entityId: string,
+    reviewedBy: string
+  ): Promise<void> {
+    const appliedAt = new Date().toISOString();
+
+    await this.supabase
+      .from('search_term_negatives')
+      .update({ status: 'applied', applied_at: appliedAt, resource_name: resourceName, reviewed_by: reviewedBy })
+      .eq('id', negative.id);
+
+    const { error } = await this.supabase.from('optimization_log').insert({
+      google_ads_campaign_id: negative.google_ads_campaign_id,
+      entity_type: negative.level === 'campaign' ? 'campaign' : 'shared_set',
+      entity_id: entityId,
+      entity_name: negative.campaign_name || this.config.shared_list_name,
+      resource_name: resourceName,
+      action: 'add_negative_keyword',
+      new_value: `${negative.negative_text} (${negative.match_type.toLowerCase()})`,
+      rule_name: `search_terms:${negative.category}`,
+      reason: `${negative.reason || 'Irrelevant search terms'}. $${Number(negative.cost).toFixed(2)} wasted over ${negative.lookback_days} days on: ${negative.search_terms.slice(0, 5).join(', ')}`,
+      metrics_snapshot: {
+        impressions: negative.impressions,
+        clicks: negative.clicks,
+        cost: negative.cost,
+        search_terms: negative.search_terms,
+      },
+      status: 'applied',
+      applied_at: appliedAt,
+      reviewed_by: reviewedBy,
+    });
+
+    if (error) {
+      console.error('[SearchTermsMiner] Failed to log negative keyword:', error);
+    }
+  }
+
+  private async markFailed(negatives: SearchTermNegative[], error: unknown, reviewedBy: string): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[SearchTermsMiner] Failed to add negatives:', message);
+
+    await this.supabase
+      .from('search_term_negatives')
+      .update({ status: 'failed', error_message: message, reviewed_by: reviewedBy })
+      .in('id', negatives.map((n) => n.id));
+  }
+
+  /**
+   * Pending proposals plus estimated savings from applied negatives
+   */
+  async getOverview(): Promise<{
+    proposed: SearchTermNegative[];
+    applied: Array<{ id: string; negative_text: string; match_type: string; level: string; campaign_name: string | null; category: string; applied_at: string; baseline_daily_cost: number; estimated_savings: number }>;
+    totals: { appliedCount: number; estimatedSavings: number; monthlyRunRate: number };
+  }> {
+    const [{ data: proposed, error }, { data: applied, error: savingsError }] = await Promise.all([
+      this.supabase
+        .from('search_term_negatives')
+        .select('*')
+        .eq('status', 'proposed')
+        .order('cost', { ascending: false }),
+      this.supabase
+        .from('search_term_negative_savings')
+        .select('*')
+        .order('applied_at', { ascending: false }),
+    ]);
+
+    if (error || savingsError) {
+      throw new Error(`Failed to load search term negatives: ${(error || savingsError)!.message}`);
+    }
+
+    const rows = applied || [];
+    return {
+      proposed: (proposed || []) as SearchTermNegative[],
+      applied: rows,
+      totals: {
+        appliedCount: rows.length,
+        estimatedSavings: Math.round(rows.reduce((sum, r) => sum + Number(r.estimated_savings || 0), 0) * 100) / 100,
+        monthlyRunRate: Math.round(rows.reduce((sum, r) => sum + Number(r.baseline_daily_cost || 0), 0) * 30 * 100) / 100,
+      },
+    };
+  }
+
+  private lookbackRange(): { startDate: string; endDate: string } {
+    const endDate = new Date().toISOString().split('T')[0];
+    const startDate = new Date(Date.now() - this.config.lookback_days * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+    return { startDate, endDate };
+  }
+}
+
+// Singleton instance
+let minerInstance: SearchTermsMiner | null = null;
+
+export function getSearchTermsMiner(): SearchTermsMiner {
+  if (!minerInstance) {
+    minerInstance = new SearchTermsMiner();
+  }
+  return minerInstance;
+}
@@ -1,8 +1,9 @@
 /**
- * Story Selector - Uses Claude to score and select relevant stories
+ * Story Selector - Scores and selects relevant stories through the LLM
+ * gateway (task 'ideas.story_selection')
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getLlmGateway } from '@arcvest/services';
 import { NewsArticle } from './news-fetcher';
 import { RELEVANT_TOPICS, TOPICS_TO_AVOID } from './news-sources';
 import { ARCVEST_KNOWLEDGE_CONDENSED } from '../arcvest-knowledge';
@@ -32,13 +33,6 @@ export async function scoreArticles(
   const startTime = Date.now();
   const { minScore = 60, maxToSelect = 5 } = options || {};
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
-
-  const anthropic = new Anthropic({ apiKey });
-
   // Prepare articles summary for Claude
   const articlesSummary = articles
     .slice(0, 30) // Limit to avoid token limits
@@ -89,14 +83,13 @@ Respond in JSON format:
 Only include articles in your response. Output valid JSON only.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514', // Use Sonnet for scoring (faster/cheaper)
-      max_tokens: 4096,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    const response = await getLlmGateway().complete(
+      'ideas.story_selection',
+      { prompt },
+      { feature: 'news_story_selection' }
+    );
 
-    const responseText = response.content.find(c => c.type === 'text')?.text || '';
+    const responseText = response.text;
 
     // Parse JSON response
     let scores: Array<{
@@ -153,13 +146,6 @@ Only include articles in your response. Output valid JSON only.`;
  * Score a single article (for real-time evaluation)
  */
 export async function scoreSingleArticle(article: NewsArticle): Promise<ScoredArticle> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
-
-  const anthropic = new Anthropic({ apiKey });
-
   const prompt = `You are a content strategist for ArcVest. Use this knowledge to score:
 
 ${ARCVEST_KNOWLEDGE_CONDENSED}
@@ -181,14 +167,13 @@ Respond with JSON only:
   "keywords": ["keyword1", "keyword2"]
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 500,
-    temperature: 0.3,
-    messages: [{ role: 'user', content: prompt }],
-  });
+  const response = await getLlmGateway().complete(
+    'ideas.story_selection',
+    { prompt, maxTokens: 500 },
+    { feature: 'news_story_selection' }
+  );
 
-  const responseText = response.content.find(c => c.type === 'text')?.text || '';
+  const responseText = response.text;
 
   let scoreData = { score: 0, reason: 'Failed to parse', angle: '', keywords: [] as string[] };
   try {
@@ -0,0 +1,24 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 016: Experiment Significance Settings
+-- ============================================
+
+-- Statistical test the optimizer uses before pausing losers or declaring a winner
+ALTER TABLE experiments
+    ADD COLUMN IF NOT EXISTS significance_method TEXT NOT NULL DEFAULT 'bayesian';
+ALTER TABLE experiments
+    DROP CONSTRAINT IF EXISTS experiments_significance_method_check;
+ALTER TABLE experiments
+    ADD CONSTRAINT experiments_significance_method_check CHECK (significance_method IN ('z_test', 'bayesian'));
+
+-- Required confidence (z-test) or posterior probability (Bayesian), e.g. 0.95
+ALTER TABLE experiments
+    ADD COLUMN IF NOT EXISTS confidence_level NUMERIC NOT NULL DEFAULT 0.95;
+ALTER TABLE experiments
+    DROP CONSTRAINT IF EXISTS experiments_confidence_level_check;
+ALTER TABLE experiments
+    ADD CONSTRAINT experiments_confidence_level_check CHECK (confidence_level >= 0.8 AND confidence_level < 1);
+
+-- Optimizer significance snapshots are queried per experiment, newest first
+CREATE INDEX IF NOT EXISTS idx_experiment_logs_experiment_action
+    ON experiment_logs(experiment_id, action, created_at DESC);
@@ -0,0 +1,18 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 017: Experiment Allocation Modes
+-- ============================================
+
+-- ab_test pauses significant losers; thompson_sampling shifts traffic via ad group bids
+ALTER TABLE experiments
+    ADD COLUMN IF NOT EXISTS allocation_mode TEXT NOT NULL DEFAULT 'ab_test';
+ALTER TABLE experiments
+    DROP CONSTRAINT IF EXISTS experiments_allocation_mode_check;
+ALTER TABLE experiments
+    ADD CONSTRAINT experiments_allocation_mode_check CHECK (allocation_mode IN ('ab_test', 'thompson_sampling'));
+
+-- Current traffic share (0-1) and the CPC bid applied to reach it
+ALTER TABLE experiment_variations
+    ADD COLUMN IF NOT EXISTS allocation_share NUMERIC;
+ALTER TABLE experiment_variations
+    ADD COLUMN IF NOT EXISTS cpc_bid NUMERIC;
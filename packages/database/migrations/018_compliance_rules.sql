@@ -0,0 +1,51 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 018: Compliance Rules Engine
+-- ============================================
+
+-- ============================================
+-- COMPLIANCE RULE SETS TABLE
+-- Versioned rule sets; exactly one is active at a time.
+-- When none is active the code default (complianceRulesConfig) applies.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS compliance_rule_sets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    version TEXT NOT NULL UNIQUE,
+    rules JSONB NOT NULL DEFAULT '[]',
+    disclosures JSONB NOT NULL DEFAULT '[]',
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    notes TEXT,
+    created_by TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_rule_sets_active
+    ON compliance_rule_sets(is_active) WHERE is_active;
+
+-- ============================================
+-- COMPLIANCE CHECKS TABLE
+-- Audit trail: one row per check of a generated artifact
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS compliance_checks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    artifact_type TEXT NOT NULL,      -- content_calendar, creative_assets, lead_finder_emails, meta_ad_creative
+    artifact_id TEXT,
+    content_type TEXT NOT NULL,       -- blog_post, rsa, meta_ad, outreach_email, ...
+    rules_version TEXT NOT NULL,
+    passed BOOLEAN NOT NULL,
+    highest_severity TEXT CHECK (highest_severity IN ('block', 'warning', 'info')),
+    findings JSONB NOT NULL DEFAULT '[]',
+    missing_disclosures JSONB NOT NULL DEFAULT '[]',
+    suggested_fix TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_checks_artifact ON compliance_checks(artifact_type, artifact_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_checks_created ON compliance_checks(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_compliance_checks_failed ON compliance_checks(passed) WHERE NOT passed;
+
+-- Outreach emails carry their check result alongside the draft
+ALTER TABLE lead_finder_emails
+    ADD COLUMN IF NOT EXISTS compliance_check JSONB;
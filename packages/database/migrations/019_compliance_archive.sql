@@ -0,0 +1,73 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 019: Compliance Archive
+-- ============================================
+
+-- ============================================
+-- COMPLIANCE ARCHIVE TABLE
+-- Append-only record of every advertisement at the moment it is released
+-- (SEC Rule 204-2 books and records). Rows are never updated or deleted.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS compliance_archive (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    channel TEXT NOT NULL CHECK (channel IN ('wordpress', 'google_ads', 'meta_ads', 'gmail')),
+    artifact_type TEXT NOT NULL,      -- content_calendar, creative_assets, meta_ad_creative, email
+    artifact_id TEXT,
+    title TEXT,
+
+    -- Snapshot of exactly what was released
+    content JSONB NOT NULL,
+    content_text TEXT NOT NULL,       -- Flattened text for search
+    content_hash TEXT NOT NULL,       -- SHA-256 of the canonical JSON snapshot
+
+    -- Approval from approval_queue (if the piece went through review)
+    approval_id UUID,
+    approved_by TEXT,
+    approved_at TIMESTAMPTZ,
+
+    -- Compliance engine result at release
+    compliance_check JSONB,
+    compliance_passed BOOLEAN,
+    rules_version TEXT,
+
+    -- Release details
+    published_at TIMESTAMPTZ NOT NULL,
+    published_by TEXT,
+    external_id TEXT,                 -- WordPress post ID, Meta creative ID, Gmail message ID
+    external_url TEXT,
+    metadata JSONB DEFAULT '{}',
+
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('english', COALESCE(title, '') || ' ' || content_text)
+    ) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_archive_published ON compliance_archive(published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_compliance_archive_channel ON compliance_archive(channel, published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_compliance_archive_artifact ON compliance_archive(artifact_type, artifact_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_archive_hash ON compliance_archive(content_hash);
+CREATE INDEX IF NOT EXISTS idx_compliance_archive_search ON compliance_archive USING GIN(search_vector);
+
+-- ============================================
+-- APPEND-ONLY ENFORCEMENT
+-- ============================================
+
+CREATE OR REPLACE FUNCTION prevent_compliance_archive_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'compliance_archive is append-only (% not allowed)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS compliance_archive_immutable ON compliance_archive;
+CREATE TRIGGER compliance_archive_immutable
+    BEFORE UPDATE OR DELETE ON compliance_archive
+    FOR EACH ROW EXECUTE FUNCTION prevent_compliance_archive_changes();
+
+DROP TRIGGER IF EXISTS compliance_archive_no_truncate ON compliance_archive;
+CREATE TRIGGER compliance_archive_no_truncate
+    BEFORE TRUNCATE ON compliance_archive
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_compliance_archive_changes();
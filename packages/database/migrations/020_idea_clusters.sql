@@ -0,0 +1,55 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 020: Idea Clusters (Cross-Source Dedup)
+-- ============================================
+
+-- ============================================
+-- IDEA CLUSTERS TABLE
+-- The same story arriving from several sources (Bloomberg, Abnormal Returns,
+-- RSS) is merged into one cluster. Only the head idea is scored.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS idea_clusters (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    head_idea_id UUID NOT NULL REFERENCES idea_queue(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    member_count INTEGER NOT NULL DEFAULT 1,
+
+    -- Every source that covered the story: [{idea_id, source_id, source_name, title, url, similarity}]
+    source_links JSONB NOT NULL DEFAULT '[]'
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idea_clusters_head ON idea_clusters(head_idea_id);
+
+-- ============================================
+-- IDEA QUEUE FINGERPRINTS
+-- ============================================
+
+ALTER TABLE idea_queue
+    ADD COLUMN IF NOT EXISTS normalized_title TEXT,
+    ADD COLUMN IF NOT EXISTS minhash_signature INTEGER[],
+    ADD COLUMN IF NOT EXISTS dedup_checked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cluster_id UUID REFERENCES idea_clusters(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS is_cluster_head BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Duplicates are parked as 'merged' so the scorer and selection skip them
+ALTER TABLE idea_queue DROP CONSTRAINT IF EXISTS idea_queue_status_check;
+ALTER TABLE idea_queue ADD CONSTRAINT idea_queue_status_check CHECK (status IN (
+    'pending', 'scored', 'selected', 'processing', 'completed', 'rejected', 'archived', 'merged'
+));
+
+CREATE INDEX IF NOT EXISTS idx_idea_queue_dedup_pending ON idea_queue(created_at)
+    WHERE dedup_checked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_idea_queue_cluster ON idea_queue(cluster_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS idea_clusters_updated_at ON idea_clusters;
+CREATE TRIGGER idea_clusters_updated_at
+    BEFORE UPDATE ON idea_clusters
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,31 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 021: Website Source Adapters
+-- ============================================
+
+-- ============================================
+-- SEED WEBSITE SOURCES
+-- Sites without a usable RSS feed, crawled via sitemap.xml or a blog index.
+-- Config: {sitemapUrl | indexUrl, articlePattern, excludePatterns, maxItems, hoursBack, tags}
+-- Seeded disabled; enable from the Sources page once the crawl looks right.
+-- ============================================
+
+INSERT INTO source_adapters (source_id, source_name, source_type, enabled, priority, config)
+VALUES
+    (
+        'website-kitces',
+        'Kitces',
+        'website',
+        false,
+        65,
+        '{"indexUrl": "https://www.kitces.com/blog/", "articlePattern": "kitces\\.com/blog/[^/]+/?$", "excludePatterns": ["/category/", "/page/"], "maxItems": 5, "tags": ["financial-planning"], "description": "Nerd''s Eye View financial planning articles"}'
+    ),
+    (
+        'website-vanguard-insights',
+        'Vanguard Insights',
+        'website',
+        false,
+        60,
+        '{"sitemapUrl": "https://corporate.vanguard.com/sitemap.xml", "articlePattern": "/insights/", "maxItems": 5, "tags": ["markets", "research"], "description": "Vanguard research and market perspectives"}'
+    )
+ON CONFLICT (source_id) DO NOTHING;
@@ -0,0 +1,50 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 022: Source Health Monitoring
+-- ============================================
+
+-- ============================================
+-- SOURCE ADAPTER HEALTH COLUMNS
+-- ============================================
+
+ALTER TABLE source_adapters
+    ADD COLUMN IF NOT EXISTS health_status TEXT DEFAULT 'healthy' CHECK (health_status IN (
+        'healthy',      -- Fetching normally
+        'degraded',     -- Recent failures, zero-yield streak or flapping
+        'unhealthy',    -- Repeated consecutive failures
+        'disabled'      -- Auto-disabled after too many failures
+    )),
+    ADD COLUMN IF NOT EXISTS zero_yield_streak INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS backoff_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS flap_count INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_state_change_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS auto_disabled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+-- ============================================
+-- SOURCE HEALTH ALERTS TABLE
+-- One open alert per source and type; resolved when the source recovers
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS source_health_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    source_id TEXT NOT NULL,          -- source_adapters.source_id, or 'email' for OAuth alerts
+    alert_type TEXT NOT NULL CHECK (alert_type IN (
+        'source_unhealthy', 'source_disabled', 'zero_yield', 'oauth_expired'
+    )),
+    severity TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('warning', 'critical')),
+    message TEXT NOT NULL,
+    details JSONB DEFAULT '{}',
+
+    task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+
+    resolved BOOLEAN DEFAULT false,
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_source_health_alerts_open
+    ON source_health_alerts(source_id, alert_type)
+    WHERE resolved = false;
+CREATE INDEX IF NOT EXISTS idx_source_health_alerts_created ON source_health_alerts(created_at DESC);
@@ -0,0 +1,23 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 023: Lead Finder Outreach Sending
+-- ============================================
+
+-- ============================================
+-- LEAD OUTREACH TRACKING COLUMNS
+-- Which draft went to which address, and the Gmail thread that replies
+-- and bounces arrive on
+-- ============================================
+
+ALTER TABLE lead_finder_leads
+    ADD COLUMN IF NOT EXISTS sent_email_id UUID REFERENCES lead_finder_emails(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS sent_to_email TEXT,
+    ADD COLUMN IF NOT EXISTS gmail_message_id TEXT,
+    ADD COLUMN IF NOT EXISTS gmail_thread_id TEXT,
+    ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS opted_out_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_lead_finder_leads_thread ON lead_finder_leads(gmail_thread_id)
+    WHERE gmail_thread_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_lead_finder_leads_sent ON lead_finder_leads(sent_at DESC)
+    WHERE sent_at IS NOT NULL;
@@ -0,0 +1,27 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 024: Marketing Attribution
+-- ============================================
+
+-- ============================================
+-- WEBSITE SESSION ATTRIBUTION COLUMNS
+-- Landing pages submit the first and last touch (UTMs and click IDs)
+-- with each lead; each touch is stored as a session linked to the contact
+-- ============================================
+
+ALTER TABLE website_sessions
+    ADD COLUMN IF NOT EXISTS content TEXT,          -- utm_content
+    ADD COLUMN IF NOT EXISTS referrer TEXT,
+    ADD COLUMN IF NOT EXISTS gclid TEXT,
+    ADD COLUMN IF NOT EXISTS gbraid TEXT,
+    ADD COLUMN IF NOT EXISTS wbraid TEXT,
+    ADD COLUMN IF NOT EXISTS fbclid TEXT,
+    ADD COLUMN IF NOT EXISTS channel TEXT CHECK (channel IN (
+        'google_ads', 'meta_ads', 'organic_search', 'social', 'email', 'referral', 'direct'
+    )),
+    ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_website_sessions_campaign ON website_sessions(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_website_sessions_gclid ON website_sessions(gclid) WHERE gclid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_website_sessions_fbclid ON website_sessions(fbclid) WHERE fbclid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_website_sessions_created ON website_sessions(created_at DESC);
@@ -0,0 +1,58 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 025: Offline Conversion Uploads
+-- ============================================
+
+-- ============================================
+-- OFFLINE CONVERSIONS TABLE
+-- One row per contact, platform and pipeline stage; the unique key keeps a
+-- contact bouncing between stages from being reported twice
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS offline_conversions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('google_ads', 'meta')),
+    stage TEXT NOT NULL CHECK (stage IN ('consultation_scheduled', 'client')),
+    event_name TEXT NOT NULL,               -- Meta event name or Google conversion action
+    event_time TIMESTAMPTZ NOT NULL,        -- When the contact reached the stage
+    value DECIMAL(12,2),
+    currency TEXT DEFAULT 'USD',
+
+    -- Click IDs from the contact's most recent ad touch
+    gclid TEXT,
+    gbraid TEXT,
+    wbraid TEXT,
+    fbclid TEXT,
+    click_at TIMESTAMPTZ,
+
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending',      -- Queued for upload
+        'uploaded',     -- Accepted by the platform
+        'failed',       -- Last attempt errored; retried by the job queue
+        'skipped'       -- Nothing to match on (no click ID, outside window, not configured)
+    )),
+    skip_reason TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    uploaded_at TIMESTAMPTZ,
+    response JSONB,
+
+    UNIQUE(contact_id, platform, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_conversions_contact ON offline_conversions(contact_id);
+CREATE INDEX IF NOT EXISTS idx_offline_conversions_status ON offline_conversions(status)
+    WHERE status IN ('pending', 'failed');
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS offline_conversions_updated_at ON offline_conversions;
+CREATE TRIGGER offline_conversions_updated_at
+    BEFORE UPDATE ON offline_conversions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
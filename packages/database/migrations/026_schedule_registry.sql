@@ -0,0 +1,79 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 026: Schedule Registry
+-- ============================================
+
+-- ============================================
+-- SCHEDULES TABLE
+-- One row per scheduled job. Defaults are inserted by the scheduler from
+-- shared/src/config/schedules.ts; edits from the settings page stick.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    key TEXT NOT NULL UNIQUE,               -- e.g. morning:news_scan, seo:check_rankings
+    target TEXT NOT NULL CHECK (target IN ('worker', 'route', 'agent')),
+    job_type TEXT NOT NULL,                 -- job_queue.job_type to enqueue
+    payload JSONB NOT NULL DEFAULT '{}',
+    cron TEXT NOT NULL,                     -- Five-field cron expression, UTC
+    priority INTEGER NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    catch_up TEXT NOT NULL DEFAULT 'latest' CHECK (catch_up IN ('skip', 'latest', 'all')),
+    description TEXT,
+
+    -- Scheduled time of the latest run handled (enqueued or skipped)
+    last_run_at TIMESTAMPTZ,
+    last_enqueued_at TIMESTAMPTZ,
+    last_job_id UUID REFERENCES job_queue(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_enabled ON schedules(enabled);
+
+-- ============================================
+-- JOB CLAIMING BY TYPE
+-- The agent runner claims only agent_task jobs; the dashboard worker claims
+-- everything else
+-- ============================================
+
+DROP FUNCTION IF EXISTS claim_next_job(TEXT);
+
+CREATE OR REPLACE FUNCTION claim_next_job(
+  p_worker_id TEXT DEFAULT 'default',
+  p_job_types TEXT[] DEFAULT NULL,
+  p_exclude_job_types TEXT[] DEFAULT NULL
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE job_queue
+  SET
+    status = 'processing',
+    started_at = now(),
+    attempts = attempts + 1
+  WHERE id = (
+    SELECT id FROM job_queue
+    WHERE status = 'pending'
+      AND next_run_at <= now()
+      AND (p_job_types IS NULL OR job_type = ANY(p_job_types))
+      AND (p_exclude_job_types IS NULL OR NOT (job_type = ANY(p_exclude_job_types)))
+    ORDER BY priority DESC, next_run_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_next_job TO service_role;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS schedules_updated_at ON schedules;
+CREATE TRIGGER schedules_updated_at
+    BEFORE UPDATE ON schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,40 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 027: Workflow Engine
+-- ============================================
+
+-- ============================================
+-- WORKFLOW INSTANCE STATE
+-- step_results holds one state object per step (status, attempts, task or
+-- approval ID, wait/retry times, output). Definitions live in
+-- shared/src/config/workflows.ts.
+-- ============================================
+
+ALTER TABLE workflow_instances
+    DROP CONSTRAINT IF EXISTS workflow_instances_status_check;
+ALTER TABLE workflow_instances
+    ADD CONSTRAINT workflow_instances_status_check CHECK (status IN (
+        'running', 'paused', 'completed', 'failed', 'cancelled'
+    ));
+
+ALTER TABLE workflow_instances
+    ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMPTZ,   -- Earliest wait or retry
+    ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;    -- Held while an advance is in progress
+
+CREATE INDEX IF NOT EXISTS idx_workflow_instances_running ON workflow_instances(updated_at)
+    WHERE status = 'running';
+
+-- ============================================
+-- APPROVAL GATES
+-- Approvals raised by a workflow step (or by an agent task the step ran)
+-- point back to the instance so a decision advances it right away
+-- ============================================
+
+ALTER TABLE approval_queue
+    ADD COLUMN IF NOT EXISTS workflow_id UUID REFERENCES workflow_instances(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS workflow_step TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_approval_queue_workflow ON approval_queue(workflow_id)
+    WHERE workflow_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_approval_queue_related_task ON approval_queue(related_task_id)
+    WHERE related_task_id IS NOT NULL;
@@ -0,0 +1,64 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 028: Rank Tracking
+-- ============================================
+
+-- ============================================
+-- KEYWORD HISTORY
+-- Daily Search Console data for the best-placed page. rank stays the
+-- rounded position so existing views keep working.
+-- ============================================
+
+ALTER TABLE keyword_history
+    ADD COLUMN IF NOT EXISTS position DECIMAL(6,2),      -- Average position for the day
+    ADD COLUMN IF NOT EXISTS clicks INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS impressions INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'search_console';
+
+ALTER TABLE tracked_keywords
+    ADD COLUMN IF NOT EXISTS current_position DECIMAL(6,2),
+    ADD COLUMN IF NOT EXISTS data_date DATE;             -- Day the current rank was observed
+
+-- ============================================
+-- KEYWORD PAGE RANKINGS
+-- Every page of ours that appeared for a tracked query, per day
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS keyword_page_rankings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    keyword_id UUID NOT NULL REFERENCES tracked_keywords(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    page TEXT NOT NULL,
+    position DECIMAL(6,2) NOT NULL,
+    clicks INTEGER DEFAULT 0,
+    impressions INTEGER DEFAULT 0,
+
+    UNIQUE(keyword_id, date, page)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keyword_page_rankings_date ON keyword_page_rankings(date DESC);
+
+-- ============================================
+-- RANK ALERTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rank_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    keyword_id UUID NOT NULL REFERENCES tracked_keywords(id) ON DELETE CASCADE,
+    alert_type TEXT NOT NULL CHECK (alert_type IN (
+        'rank_gain', 'rank_drop', 'entered_top_10', 'left_top_10', 'lost_ranking', 'cannibalization'
+    )),
+    date DATE NOT NULL,
+    previous_position DECIMAL(6,2),
+    current_position DECIMAL(6,2),
+    pages TEXT[],
+    details JSONB DEFAULT '{}',
+    acknowledged_at TIMESTAMPTZ,
+
+    UNIQUE(keyword_id, alert_type, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rank_alerts_open ON rank_alerts(created_at DESC)
+    WHERE acknowledged_at IS NULL;
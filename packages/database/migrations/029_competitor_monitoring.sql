@@ -0,0 +1,25 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 029: Competitor Monitoring
+-- ============================================
+
+-- ============================================
+-- COMPETITORS
+-- ResearchAgent upserts its configured competitors (research/sources.ts),
+-- which include aspirational ones
+-- ============================================
+
+ALTER TABLE competitors
+    DROP CONSTRAINT IF EXISTS competitors_type_check;
+ALTER TABLE competitors
+    ADD CONSTRAINT competitors_type_check CHECK (type IN (
+        'direct', 'indirect', 'aspirational', 'content'
+    ));
+
+-- ============================================
+-- COMPETITOR CONTENT
+-- One row per discovered post; new posts are those not yet recorded here
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_competitor_content_discovered ON competitor_content(discovered_date DESC);
+CREATE INDEX IF NOT EXISTS idx_competitor_content_topics ON competitor_content USING GIN(topics);
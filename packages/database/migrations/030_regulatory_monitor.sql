@@ -0,0 +1,46 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 030: Regulatory Monitor
+-- ============================================
+
+-- ============================================
+-- REGULATORY UPDATES
+-- One row per SEC/FINRA item seen by RegulatoryMonitorService.
+-- Items that affect our marketing rules get a draft (inactive)
+-- compliance_rule_sets version and a review task.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS regulatory_updates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Source item
+    source_id TEXT NOT NULL,
+    source_name TEXT NOT NULL,
+    agency TEXT,
+    title TEXT NOT NULL,
+    url TEXT,
+    published_at TIMESTAMPTZ,
+    summary TEXT,
+    content_hash TEXT NOT NULL UNIQUE,
+
+    -- Classification
+    impact_areas TEXT[] DEFAULT '{}',
+    affected_categories TEXT[] DEFAULT '{}',
+    matched_terms TEXT[] DEFAULT '{}',
+    affects_marketing_rules BOOLEAN DEFAULT FALSE,
+
+    -- Review
+    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN (
+        'new', 'not_applicable', 'draft_pending', 'applied', 'rejected'
+    )),
+    draft_rule_version TEXT,
+    task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+    approval_id UUID REFERENCES approval_queue(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_regulatory_updates_status ON regulatory_updates(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_regulatory_updates_affecting ON regulatory_updates(created_at DESC)
+    WHERE affects_marketing_rules = TRUE;
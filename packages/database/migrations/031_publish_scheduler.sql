@@ -0,0 +1,29 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 031: Publish Scheduler
+-- ============================================
+
+-- ============================================
+-- CONTENT_CALENDAR
+-- PublishSchedulerService places approved entries into publishing slots
+-- (contentRulesConfig.publishing_schedules) and schedules WordPress posts
+-- with status 'future'. wordpress_sync_hash detects edits made after
+-- scheduling so the post can be re-synced.
+-- ============================================
+
+ALTER TABLE content_calendar
+    ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS content_mix_category TEXT CHECK (content_mix_category IN (
+        'educational', 'thought_leadership', 'promotional'
+    )),
+    ADD COLUMN IF NOT EXISTS wordpress_sync_hash TEXT;
+
+ALTER TABLE content_calendar
+    DROP CONSTRAINT IF EXISTS content_calendar_wordpress_status_check;
+ALTER TABLE content_calendar
+    ADD CONSTRAINT content_calendar_wordpress_status_check CHECK (wordpress_status IN (
+        'draft', 'pending', 'future', 'publish', 'trash'
+    ));
+
+CREATE INDEX IF NOT EXISTS idx_content_calendar_scheduled_at ON content_calendar(scheduled_at)
+    WHERE status IN ('scheduled', 'published');
@@ -0,0 +1,30 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 032: Content Sync
+-- ============================================
+
+-- ============================================
+-- CONTENT_CALENDAR
+-- ContentSyncService pulls edits made in WordPress (modified_after the
+-- latest wordpress_modified_at). wordpress_content_hash is the content both
+-- sides agreed on at the last pull; if the entry changed too, the entry is
+-- flagged and the WordPress version kept in metadata.wordpress_conflict.
+-- views, engagements and leads_attributed are filled from GA4 and
+-- converting website_sessions.
+-- ============================================
+
+ALTER TABLE content_calendar
+    ADD COLUMN IF NOT EXISTS wordpress_modified_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS wordpress_content_hash TEXT,
+    ADD COLUMN IF NOT EXISTS wordpress_sync_conflict BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_content_calendar_wordpress_post ON content_calendar(wordpress_post_id)
+    WHERE wordpress_post_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_content_calendar_wordpress_modified ON content_calendar(wordpress_modified_at DESC)
+    WHERE wordpress_modified_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_content_calendar_sync_conflict ON content_calendar(updated_at DESC)
+    WHERE wordpress_sync_conflict = TRUE;
+
+-- Performance is joined on the landing page of converting sessions
+CREATE INDEX IF NOT EXISTS idx_website_sessions_converted_landing ON website_sessions(created_at)
+    WHERE converted = TRUE AND landing_page IS NOT NULL;
@@ -0,0 +1,60 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 033: LLM Usage
+-- ============================================
+
+-- ============================================
+-- LLM USAGE
+-- One row per LlmGateway call. provider/model are the ones that served
+-- the call (after any fallback); failed calls are recorded with zero
+-- tokens and the last error. cost_usd is priced from llmConfig.pricing.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- What the call was for
+    task TEXT NOT NULL,
+    pipeline TEXT NOT NULL,
+    feature TEXT NOT NULL,
+    job_id TEXT,
+    correlation_id TEXT,
+
+    -- Who served it
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    attempts INTEGER DEFAULT 1,
+    fallback_used BOOLEAN DEFAULT FALSE,
+
+    -- Usage
+    input_tokens INTEGER DEFAULT 0,
+    output_tokens INTEGER DEFAULT 0,
+    cost_usd NUMERIC(12, 6) DEFAULT 0,
+    latency_ms INTEGER,
+
+    status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_pipeline ON llm_usage(pipeline, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_job ON llm_usage(job_id) WHERE job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_llm_usage_correlation ON llm_usage(correlation_id) WHERE correlation_id IS NOT NULL;
+
+-- ============================================
+-- VIEWS
+-- ============================================
+
+-- Spend per pipeline per day (UTC), read by the dashboard
+CREATE OR REPLACE VIEW llm_daily_spend AS
+SELECT
+    (created_at AT TIME ZONE 'UTC')::DATE AS day,
+    pipeline,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE status = 'error') AS failed_calls,
+    SUM(input_tokens) AS input_tokens,
+    SUM(output_tokens) AS output_tokens,
+    SUM(cost_usd) AS cost_usd
+FROM llm_usage
+GROUP BY 1, pipeline;
@@ -0,0 +1,27 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 034: Ads Optimizer Mutations
+-- ============================================
+
+-- ============================================
+-- OPTIMIZATION_LOG
+-- AdsOptimizer now changes campaigns, ad groups and keywords through the
+-- Google Ads API. resource_name is what was mutated; previous_state holds
+-- the status and CPC bid (micros) before the change so a revert can put
+-- them back. Reverted rows keep status 'reverted' and reverted_at.
+-- ============================================
+
+ALTER TABLE optimization_log
+    ADD COLUMN IF NOT EXISTS resource_name TEXT,
+    ADD COLUMN IF NOT EXISTS previous_state JSONB,
+    ADD COLUMN IF NOT EXISTS reverted_by TEXT;
+
+-- alert_only rules are logged too, so they show up in the history
+ALTER TABLE optimization_log DROP CONSTRAINT IF EXISTS optimization_log_action_check;
+ALTER TABLE optimization_log ADD CONSTRAINT optimization_log_action_check CHECK (action IN (
+    'bid_increase', 'bid_decrease', 'pause', 'enable',
+    'add_negative_keyword', 'remove', 'budget_adjustment', 'alert_only'
+));
+
+CREATE INDEX IF NOT EXISTS idx_optimization_log_resource ON optimization_log(resource_name, created_at DESC)
+    WHERE resource_name IS NOT NULL;
@@ -0,0 +1,93 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 035: Search Term Negatives
+-- ============================================
+
+-- ============================================
+-- SEARCH TERM NEGATIVES
+-- Negative keywords proposed from the search terms report. Each mining run
+-- sends its new proposals to the approval queue as one 'negative_keywords'
+-- item; approving it adds them in Google Ads, rejecting it keeps them here
+-- so they aren't proposed again. baseline_daily_cost is the wasted spend
+-- per day over the lookback window, used to estimate savings once applied.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS search_term_negatives (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- The negative keyword
+    negative_text TEXT NOT NULL,
+    match_type TEXT NOT NULL CHECK (match_type IN ('EXACT', 'PHRASE')),
+    level TEXT NOT NULL CHECK (level IN ('campaign', 'shared_list')),
+    google_ads_campaign_id TEXT,       -- NULL for the shared list
+    campaign_name TEXT,
+
+    -- Why
+    category TEXT NOT NULL,
+    classified_by TEXT NOT NULL CHECK (classified_by IN ('rule', 'llm')),
+    reason TEXT,
+    search_terms TEXT[] NOT NULL DEFAULT '{}',
+
+    -- Wasted spend over the lookback window
+    lookback_days INTEGER NOT NULL,
+    impressions INTEGER DEFAULT 0,
+    clicks INTEGER DEFAULT 0,
+    cost DECIMAL(10,2) DEFAULT 0,
+    baseline_daily_cost DECIMAL(10,4) DEFAULT 0,
+
+    -- Review and application
+    status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN (
+        'proposed', 'applied', 'rejected', 'failed'
+    )),
+    approval_id UUID REFERENCES approval_queue(id) ON DELETE SET NULL,
+    reviewed_by TEXT,
+    resource_name TEXT,                -- Campaign criterion or shared criterion once applied
+    applied_at TIMESTAMPTZ,
+    error_message TEXT
+);
+
+-- One row per keyword per campaign (or on the shared list)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_term_negatives_keyword ON search_term_negatives(
+    negative_text, match_type, level, COALESCE(google_ads_campaign_id, '')
+);
+CREATE INDEX IF NOT EXISTS idx_search_term_negatives_approval ON search_term_negatives(approval_id);
+CREATE INDEX IF NOT EXISTS idx_search_term_negatives_status ON search_term_negatives(status, created_at DESC);
+
+-- Shared negative keyword lists show up in the optimization history too
+ALTER TABLE optimization_log DROP CONSTRAINT IF EXISTS optimization_log_entity_type_check;
+ALTER TABLE optimization_log ADD CONSTRAINT optimization_log_entity_type_check CHECK (entity_type IN (
+    'campaign', 'ad_group', 'keyword', 'ad', 'bid_modifier', 'shared_set'
+));
+
+-- ============================================
+-- VIEWS
+-- ============================================
+
+-- Estimated spend saved by each applied negative so far
+CREATE OR REPLACE VIEW search_term_negative_savings AS
+SELECT
+    id,
+    negative_text,
+    match_type,
+    level,
+    campaign_name,
+    category,
+    applied_at,
+    baseline_daily_cost,
+    ROUND(
+        baseline_daily_cost * GREATEST(EXTRACT(EPOCH FROM (NOW() - applied_at)) / 86400, 0),
+        2
+    ) AS estimated_savings
+FROM search_term_negatives
+WHERE status = 'applied';
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS search_term_negatives_updated_at ON search_term_negatives;
+CREATE TRIGGER search_term_negatives_updated_at
+    BEFORE UPDATE ON search_term_negatives
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,85 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 036: Notifications
+-- ============================================
+
+-- ============================================
+-- NOTIFICATIONS
+-- KPI, budget, job and optimizer alerts. A repeat with the same dedup_key
+-- inside the dedup window bumps occurrence_count on the open notification
+-- instead of creating (and delivering) a new one.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    source TEXT NOT NULL CHECK (source IN ('kpi', 'budget', 'job', 'optimizer')),
+    severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    link TEXT,                          -- Dashboard path to act on it
+    details JSONB DEFAULT '{}',
+
+    dedup_key TEXT NOT NULL,
+    occurrence_count INTEGER NOT NULL DEFAULT 1,
+    last_occurred_at TIMESTAMPTZ DEFAULT NOW(),
+
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_dedup ON notifications(dedup_key, last_occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_created ON notifications(created_at DESC);
+
+-- ============================================
+-- NOTIFICATION DELIVERIES
+-- One row per recipient and channel. In-app rows back the header bell
+-- (read_at per user); email rows wait for the digest; the webhook row has
+-- no recipient.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+    recipient TEXT,                     -- Team member email; NULL for the webhook
+    channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email', 'webhook')),
+
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    sent_at TIMESTAMPTZ,
+    read_at TIMESTAMPTZ,
+    error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_inbox
+    ON notification_deliveries(recipient, channel, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending
+    ON notification_deliveries(channel, status)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification ON notification_deliveries(notification_id);
+
+-- ============================================
+-- NOTIFICATION PREFERENCES
+-- Per-user mute and routing rules. Empty rules fall back to the defaults
+-- in notificationsConfig.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_email TEXT PRIMARY KEY,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    muted_until TIMESTAMPTZ,            -- Nothing but the bell until then
+    muted_sources TEXT[] NOT NULL DEFAULT '{}',
+    rules JSONB NOT NULL DEFAULT '[]'   -- [{ sources?, min_severity, channels }]
+);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,18 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 037: Meta Campaign Drafts
+-- ============================================
+
+-- ============================================
+-- CAMPAIGN STATUS
+-- Campaigns built from the dashboard stay 'draft' until approved; a
+-- rejected draft is deleted in Meta but kept here as 'rejected'. Meta
+-- sync also reports archived and deleted campaigns.
+-- ============================================
+
+ALTER TABLE campaigns DROP CONSTRAINT IF EXISTS campaigns_status_check;
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_status_check
+    CHECK (status IN ('draft', 'active', 'paused', 'completed', 'rejected', 'archived', 'deleted'));
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_drafts ON campaigns(platform, created_at DESC)
+    WHERE status = 'draft';
@@ -0,0 +1,55 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 038: Meta Leads
+-- ============================================
+
+-- ============================================
+-- LEAD SOURCE
+-- ============================================
+
+INSERT INTO lead_sources (name, category) VALUES
+    ('meta_lead_ads', 'paid')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- META LEADS
+-- One row per lead form submission pulled from Meta. Processed and
+-- skipped leads are never handled again; failed ones are retried on the
+-- next sync while they are still inside its window.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meta_leads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    meta_lead_id TEXT NOT NULL UNIQUE,
+    form_id TEXT NOT NULL,
+    lead_created_at TIMESTAMPTZ NOT NULL,
+
+    -- Attribution (absent for organic leads)
+    meta_ad_id TEXT,
+    meta_ad_set_id TEXT,
+    meta_campaign_id TEXT,
+
+    field_data JSONB NOT NULL DEFAULT '[]',
+
+    status TEXT NOT NULL CHECK (status IN ('processed', 'skipped', 'failed')),
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    contact_created BOOLEAN,
+    error_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_meta_leads_form ON meta_leads(form_id, lead_created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_meta_leads_contact ON meta_leads(contact_id);
+CREATE INDEX IF NOT EXISTS idx_meta_leads_failed ON meta_leads(status) WHERE status = 'failed';
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS meta_leads_updated_at ON meta_leads;
+CREATE TRIGGER meta_leads_updated_at
+    BEFORE UPDATE ON meta_leads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
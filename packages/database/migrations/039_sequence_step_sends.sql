@@ -0,0 +1,51 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 039: Sequence Step Sends
+-- ============================================
+
+-- ============================================
+-- SEQUENCE STEP SENDS
+-- One row per enrollment step. The dispatcher (or a sequence_send retry
+-- job) inserts the row to claim a step before sending it, so no two runs
+-- send the same step; 'sent' is written as soon as Gmail accepts the email
+-- so a step whose enrollment failed to advance is never sent again.
+-- 'failed' steps belong to the retry job until it claims them back.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sequence_step_sends (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    enrollment_id UUID NOT NULL REFERENCES sequence_enrollments(id) ON DELETE CASCADE,
+    step_order INTEGER NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+    claimed_until TIMESTAMPTZ,          -- A 'sending' claim past this can be taken over
+
+    gmail_message_id TEXT,
+    sent_at TIMESTAMPTZ,
+    error_message TEXT,
+
+    UNIQUE(enrollment_id, step_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_step_sends_status ON sequence_step_sends(status)
+    WHERE status <> 'sent';
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS sequence_step_sends_updated_at ON sequence_step_sends;
+CREATE TRIGGER sequence_step_sends_updated_at
+    BEFORE UPDATE ON sequence_step_sends
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- SCHEDULES
+-- The route:sequence_send cron route is the only sequence sender; the
+-- agent runner's every-minute gmail:send_sequences task is retired.
+-- ============================================
+
+DELETE FROM schedules WHERE key = 'gmail:send_sequences';
@@ -0,0 +1,20 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 040: Regulatory Draft Base Version
+-- ============================================
+
+-- ============================================
+-- REGULATORY UPDATES
+-- A draft rule set is a full snapshot of the rule set it was built on.
+-- base_rule_version records that set so an approval can refuse to
+-- activate a draft once a newer set is active.
+-- ============================================
+
+ALTER TABLE regulatory_updates
+    ADD COLUMN IF NOT EXISTS base_rule_version TEXT;
+
+-- Existing drafts are versioned '<base>+reg.<date>.<id>'
+UPDATE regulatory_updates
+SET base_rule_version = split_part(draft_rule_version, '+reg.', 1)
+WHERE draft_rule_version IS NOT NULL
+  AND base_rule_version IS NULL;
@@ -0,0 +1,16 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 041: Lead Sources by Channel
+-- ============================================
+
+-- ============================================
+-- LEAD SOURCES
+-- Landing page leads take their source from the visit's UTMs and click
+-- IDs (getLeadSourceForTouch); these are the sources that adds.
+-- ============================================
+
+INSERT INTO lead_sources (name, category) VALUES
+    ('meta_ads', 'paid'),
+    ('email', 'organic'),
+    ('landing_page', 'direct')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,27 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 042: One Open Notification per Dedup Key
+-- ============================================
+
+-- ============================================
+-- NOTIFICATIONS
+-- The dedup window now runs from an alert's first occurrence (created_at);
+-- once it has passed the alert is resolved and a repeat raises a new one.
+-- At most one alert per dedup_key is open, so concurrent raises of the
+-- same alert bump it rather than creating duplicates.
+-- ============================================
+
+-- Resolve all but the newest open alert for each key
+UPDATE notifications n
+SET resolved_at = NOW()
+WHERE n.resolved_at IS NULL
+  AND EXISTS (
+      SELECT 1 FROM notifications newer
+      WHERE newer.dedup_key = n.dedup_key
+        AND newer.resolved_at IS NULL
+        AND (newer.created_at, newer.id) > (n.created_at, n.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_open_dedup
+    ON notifications(dedup_key)
+    WHERE resolved_at IS NULL;
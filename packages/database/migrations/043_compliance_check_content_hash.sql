@@ -0,0 +1,17 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 043: Compliance Check Content Hash
+-- ============================================
+
+-- ============================================
+-- COMPLIANCE CHECKS
+-- Hash of the text a check ran on. The compliance archive only reuses a
+-- stored check whose hash matches the released text; older checks (NULL)
+-- are never reused, so the archive re-runs the check.
+-- ============================================
+
+ALTER TABLE compliance_checks
+    ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_checks_content
+    ON compliance_checks(artifact_type, artifact_id, content_hash);
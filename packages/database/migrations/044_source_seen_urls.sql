@@ -0,0 +1,20 @@
+-- ============================================
+-- ArcVest Marketing Automation System
+-- Migration 044: Source Seen URLs
+-- ============================================
+
+-- ============================================
+-- SOURCE SEEN URLS
+-- Article URLs a website source has already read from its blog index page.
+-- Index pages carry no dates, so each fetch diffs the page's links against
+-- this history and only fetches the URLs it hasn't seen (sitemap sources
+-- use each URL's lastmod instead).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS source_seen_urls (
+    source_id TEXT NOT NULL REFERENCES source_adapters(source_id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (source_id, url)
+);
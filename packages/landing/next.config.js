@@ -3,7 +3,8 @@ const path = require('path');
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
-  transpilePackages: ['@arcvest/shared'],
+  transpilePackages: ['@arcvest/shared', '@arcvest/services'],
+  serverExternalPackages: ['@supabase/supabase-js'],
   outputFileTracingRoot: path.join(__dirname, '../../'),
   eslint: {
     ignoreDuringBuilds: true,
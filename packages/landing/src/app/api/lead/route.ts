@@ -1,12 +1,41 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createContact } from '@/lib/ghl-client';
+import { getLeadSourceForTouch } from '@arcvest/shared';
+import { getLeadIntakeService, getGhlService } from '@arcvest/services';
+
+export const runtime = 'nodejs';
+
+const trackedValue = z.string().max(500).optional();
+
+const touchSchema = z.object({
+  utm_source: trackedValue,
+  utm_medium: trackedValue,
+  utm_campaign: trackedValue,
+  utm_term: trackedValue,
+  utm_content: trackedValue,
+  gclid: trackedValue,
+  gbraid: trackedValue,
+  wbraid: trackedValue,
+  fbclid: trackedValue,
+  referrer: trackedValue,
+  landing_page: trackedValue,
+  timestamp: z.string().datetime(),
+});
 
 const leadSchema = z.object({
   firstName: z.string().min(1, 'Name is required').max(100),
   email: z.string().email('Valid email is required'),
   phone: z.string().min(7, 'Valid phone number is required').max(20),
   pageSource: z.enum(['retirement', 'wealth-management']),
+  // Malformed attribution is dropped rather than rejecting the lead
+  attribution: z
+    .object({
+      anonymousId: z.string().max(100),
+      firstTouch: touchSchema.nullable(),
+      lastTouch: touchSchema.nullable(),
+    })
+    .optional()
+    .catch(undefined),
 });
 
 export async function POST(request: Request) {
@@ -14,28 +43,69 @@ export async function POST(request: Request) {
     const body = await request.json();
     const data = leadSchema.parse(body);
 
+    // Tag the lead with where the visit came from (google-ads-search, meta-ads, landing-page...)
+    const leadSource = getLeadSourceForTouch(data.attribution?.firstTouch || data.attribution?.lastTouch);
+    const sourceTag = leadSource.replace(/_/g, '-');
+
     const tags =
       data.pageSource === 'retirement'
-        ? ['retirement-planning-lead', 'google-ads']
-        : ['hnw-fee-conscious-lead', 'google-ads'];
+        ? ['retirement-planning-lead', sourceTag]
+        : ['hnw-fee-conscious-lead', sourceTag];
 
     const source =
       data.pageSource === 'retirement'
         ? 'Landing Page - Retirement Planning'
         : 'Landing Page - Wealth Management';
 
-    const result = await createContact({
-      firstName: data.firstName,
+    const ghl = { tags, source };
+
+    const input = {
       email: data.email,
+      firstName: data.firstName,
       phone: data.phone,
+      source: leadSource,
+      sourceDetail: source,
       tags,
-      source,
-    });
+      formType: `landing_${data.pageSource}`,
+      formData: { page_source: data.pageSource },
+      attribution: data.attribution,
+      ghl,
+    };
+
+    try {
+      const result = await getLeadIntakeService().intake(input);
 
-    return NextResponse.json({
-      success: true,
-      contactId: result.contact.id,
-    });
+      return NextResponse.json({
+        success: true,
+        contactId: result.contact.id,
+      });
+    } catch (intakeError) {
+      // Database unavailable: still get the lead into GHL rather than dropping it
+      console.error('Lead intake failed, falling back to GHL only:', intakeError);
+      try {
+        const result = await getGhlService().createContact({
+          firstName: data.firstName,
+          email: data.email,
+          phone: data.phone,
+          ...ghl,
+        });
+
+        return NextResponse.json({
+          success: true,
+          contactId: result.contact.id,
+        });
+      } catch (ghlError) {
+        // Neither took the lead: queue the submission so the worker retries intake
+        console.error('GHL fallback failed, queueing lead intake retry:', ghlError);
+        if (await getLeadIntakeService().queueIntake(input)) {
+          return NextResponse.json({ success: true, queued: true }, { status: 202 });
+        }
+
+        // Last resort: keep the submission in the logs so it can be entered by hand
+        console.error('Lead could not be recorded or queued:', JSON.stringify(input));
+        throw ghlError;
+      }
+    }
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
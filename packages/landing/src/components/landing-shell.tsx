@@ -1,6 +1,8 @@
 'use client';
 
+import { useEffect } from 'react';
 import { ComplianceFooter } from './compliance-footer';
+import { captureAttribution } from '@/lib/attribution';
 
 interface LandingShellProps {
   variant: 'warm' | 'navy';
@@ -15,6 +17,10 @@ export function LandingShell({
   stickyCtaText,
   onStickyCta,
 }: LandingShellProps) {
+  useEffect(() => {
+    captureAttribution();
+  }, []);
+
   return (
     <div className="min-h-screen flex flex-col">
       <main className="flex-1">{children}</main>
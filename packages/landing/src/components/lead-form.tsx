@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { CTAButton } from './cta-button';
 import { trackConversion, trackFormSubmission } from '@/lib/tracking';
+import { getAttribution } from '@/lib/attribution';
 
 interface LeadFormProps {
   variant: 'warm' | 'navy';
@@ -41,6 +42,7 @@ export function LeadForm({
           email: formData.get('email'),
           phone: formData.get('phone'),
           pageSource,
+          attribution: getAttribution(),
         }),
       });
 
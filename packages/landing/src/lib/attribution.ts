@@ -0,0 +1,113 @@
+// First-party attribution cookies: the first touch is kept for the whole
+// window, the last touch is replaced whenever a visit arrives with new UTMs,
+// click IDs or an external referrer.
+
+const FIRST_TOUCH_COOKIE = 'arc_ft';
+const LAST_TOUCH_COOKIE = 'arc_lt';
+const ANONYMOUS_ID_COOKIE = 'arc_aid';
+const MAX_AGE_SECONDS = 90 * 24 * 60 * 60;
+
+const TRACKED_PARAMS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'fbclid',
+] as const;
+
+type TrackedParam = (typeof TRACKED_PARAMS)[number];
+
+export type TouchPoint = Partial<Record<TrackedParam, string>> & {
+  referrer?: string;
+  landing_page: string;
+  timestamp: string;
+};
+
+export interface Attribution {
+  anonymousId: string;
+  firstTouch: TouchPoint | null;
+  lastTouch: TouchPoint | null;
+}
+
+function readCookie(name: string): string | null {
+  const match = document.cookie
+    .split('; ')
+    .find((row) => row.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+}
+
+function writeCookie(name: string, value: string) {
+  document.cookie = `${name}=${encodeURIComponent(value)}; Max-Age=${MAX_AGE_SECONDS}; Path=/; SameSite=Lax${
+    location.protocol === 'https:' ? '; Secure' : ''
+  }`;
+}
+
+function readTouch(name: string): TouchPoint | null {
+  const value = readCookie(name);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as TouchPoint;
+  } catch {
+    return null;
+  }
+}
+
+function getAnonymousId(): string {
+  const existing = readCookie(ANONYMOUS_ID_COOKIE);
+  if (existing) return existing;
+
+  const id =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  writeCookie(ANONYMOUS_ID_COOKIE, id);
+  return id;
+}
+
+/**
+ * Record this visit's UTMs and click IDs. Call once per page load.
+ */
+export function captureAttribution() {
+  getAnonymousId();
+
+  const params = new URLSearchParams(window.location.search);
+  const touch: TouchPoint = {
+    landing_page: window.location.pathname,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (const param of TRACKED_PARAMS) {
+    const value = params.get(param);
+    if (value) touch[param] = value.slice(0, 500);
+  }
+
+  const referrer = document.referrer;
+  const isExternalReferrer =
+    !!referrer && new URL(referrer).hostname !== window.location.hostname;
+  if (isExternalReferrer) touch.referrer = referrer.slice(0, 500);
+
+  const hasSource =
+    isExternalReferrer || TRACKED_PARAMS.some((param) => touch[param]);
+
+  if (!readTouch(FIRST_TOUCH_COOKIE)) {
+    writeCookie(FIRST_TOUCH_COOKIE, JSON.stringify(touch));
+  }
+  if (hasSource || !readTouch(LAST_TOUCH_COOKIE)) {
+    writeCookie(LAST_TOUCH_COOKIE, JSON.stringify(touch));
+  }
+}
+
+/**
+ * Attribution to submit with a lead
+ */
+export function getAttribution(): Attribution {
+  return {
+    anonymousId: getAnonymousId(),
+    firstTouch: readTouch(FIRST_TOUCH_COOKIE),
+    lastTouch: readTouch(LAST_TOUCH_COOKIE),
+  };
+}
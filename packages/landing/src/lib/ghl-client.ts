@@ -12,37 +12,6 @@ function getHeaders() {
   };
 }
 
-export async function createContact(params: {
-  firstName: string;
-  email: string;
-  phone: string;
-  tags: string[];
-  source: string;
-}) {
-  const locationId = process.env.GHL_LOCATION_ID;
-  if (!locationId) throw new Error('GHL_LOCATION_ID is not set');
-
-  const response = await fetch(`${GHL_BASE_URL}/contacts/`, {
-    method: 'POST',
-    headers: getHeaders(),
-    body: JSON.stringify({
-      locationId,
-      firstName: params.firstName,
-      email: params.email,
-      phone: params.phone,
-      tags: params.tags,
-      source: params.source,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`GHL createContact failed (${response.status}): ${error}`);
-  }
-
-  return response.json() as Promise<{ contact: { id: string } }>;
-}
-
 export async function createAppointment(params: {
   contactId: string;
   calendarId: string;
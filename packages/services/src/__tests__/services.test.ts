@@ -4,8 +4,96 @@
  * Tests for services that don't require external connections.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { EventBusClass } from '../event-bus';
+import type { GmailService } from '../gmail-service';
+import type { GoogleAnalyticsService } from '../google-analytics-service';
+import type { JobQueueService } from '../job-queue-service';
+import type { LeadIntakeService } from '../lead-intake-service';
+import type { MetaAdsService } from '../meta-ads-service';
+import type { WordPressService } from '../wordpress-service';
+import type { SourceAdapter } from '../source-adapters/types';
+
+/**
+ * One Supabase call chain, as the fake client saw it
+ */
+interface FakeQuery {
+  table: string;
+  op: 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+  values: unknown; // Row(s) passed to insert, update or upsert
+  eq: Record<string, unknown>;
+  in: Record<string, unknown[]>;
+  or: string | null;
+  single: boolean; // Ended in single() or maybeSingle()
+}
+
+interface FakeResponse {
+  data?: unknown;
+  error?: { code?: string; message: string } | null;
+  count?: number;
+}
+
+/**
+ * Supabase client whose queries are answered by `respond` when awaited.
+ * Filters other than eq/in/or are accepted and ignored.
+ */
+function fakeSupabase(respond: (query: FakeQuery) => FakeResponse = () => ({})) {
+  const queries: FakeQuery[] = [];
+
+  const from = (table: string) => {
+    const query: FakeQuery = { table, op: 'select', values: undefined, eq: {}, in: {}, or: null, single: false };
+    queries.push(query);
+
+    const result = () => {
+      const { data = query.single ? null : [], error = null, count } = respond(query);
+      return { data, error, count };
+    };
+
+    const builder: object = new Proxy({}, {
+      get: (_target, method: string) => {
+        switch (method) {
+          case 'then':
+            return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+              Promise.resolve().then(result).then(resolve, reject);
+          case 'single':
+          case 'maybeSingle':
+            return () => ((query.single = true), Promise.resolve().then(result));
+          case 'insert':
+          case 'update':
+          case 'upsert':
+            return (values: unknown) => ((query.op = method), (query.values = values), builder);
+          case 'delete':
+            return () => ((query.op = 'delete'), builder);
+          case 'eq':
+            return (column: string, value: unknown) => ((query.eq[column] = value), builder);
+          case 'in':
+            return (column: string, values: unknown[]) => ((query.in[column] = values), builder);
+          case 'or':
+            return (filter: string) => ((query.or = filter), builder);
+          default:
+            return () => builder;
+        }
+      },
+    });
+    return builder;
+  };
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    queries,
+    // Values written by each insert/update/upsert, optionally for one table
+    written: (op: FakeQuery['op'], table?: string) =>
+      queries.filter((q) => q.op === op && (!table || q.table === table)).map((q) => q.values),
+  };
+}
+
+/**
+ * A stand-in for a collaborator with only the members a test exercises
+ */
+function stub<T>(members: Partial<Record<keyof T, unknown>>): T {
+  return members as unknown as T;
+}
 
 describe('EventBus', () => {
   let eventBus: EventBusClass;
@@ -207,6 +295,464 @@ describe('Module Exports', () => {
   });
 });
 
+describe('Compliance Archive Hashing', () => {
+  it('should hash content independent of key order', async () => {
+    const { hashArchiveContent } = await import('../compliance-archive-service');
+
+    const a = hashArchiveContent({ title: 'Post', body: 'Text', tags: ['a', 'b'] });
+    const b = hashArchiveContent({ tags: ['a', 'b'], body: 'Text', title: 'Post' });
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should change the hash when content changes', async () => {
+    const { hashArchiveContent } = await import('../compliance-archive-service');
+
+    expect(hashArchiveContent({ body: 'Text' })).not.toBe(hashArchiveContent({ body: 'Text.' }));
+    expect(hashArchiveContent({ tags: ['a', 'b'] })).not.toBe(hashArchiveContent({ tags: ['b', 'a'] }));
+  });
+
+  it('should only reuse a stored check of the archived text', async () => {
+    const { ComplianceArchiveService } = await import('../compliance-archive-service');
+    const { hashComplianceText } = await import('../compliance-service');
+    const storedCheck = {
+      passed: true, rules_version: '2026.1', content_type: 'blog_post', highest_severity: null, findings: [],
+      missing_disclosures: [], suggested_fix: null, created_at: '2026-03-01T12:00:00Z',
+      content_hash: hashComplianceText('Approved draft'),
+    };
+    const supabase = fakeSupabase((q) => {
+      if (q.table === 'compliance_archive') return { data: { id: 'arc_1', ...(q.values as object) } };
+      if (q.table === 'compliance_checks') return { data: q.eq['content_hash'] === storedCheck.content_hash ? [storedCheck] : [] };
+      return { error: { code: 'PGRST116', message: 'No rows' } };
+    });
+    const archive = new ComplianceArchiveService(supabase.client);
+    const release = { channel: 'wordpress' as const, artifactType: 'content_calendar' as const, artifactId: 'entry_1', content: {} };
+
+    const same = await archive.archive({ ...release, contentText: 'Approved  draft\n' });
+    expect(same.compliance_check).toMatchObject({ checkedAt: '2026-03-01T12:00:00Z' });
+
+    // Edited after the check: the stored result no longer applies
+    const edited = await archive.archive({ ...release, contentText: 'We guarantee returns' });
+    expect(edited.compliance_check).toMatchObject({ passed: false, contentHash: hashComplianceText('We guarantee returns') });
+  });
+});
+
+describe('Website Adapter Parsing', () => {
+  it('should parse sitemaps and sitemap indexes', async () => {
+    const { parseSitemap } = await import('../source-adapters/adapters/website-adapter');
+
+    const urlset = parseSitemap(`<?xml version="1.0"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/blog/a?x=1&amp;y=2</loc><lastmod>2026-01-05</lastmod></url>
+        <url><loc>https://example.com/blog/b</loc></url>
+      </urlset>`);
+    expect(urlset.type).toBe('urlset');
+    expect(urlset.entries).toHaveLength(2);
+    expect(urlset.entries[0]?.loc).toBe('https://example.com/blog/a?x=1&y=2');
+    expect(urlset.entries[0]?.lastmod?.toISOString()).toBe('2026-01-05T00:00:00.000Z');
+    expect(urlset.entries[1]?.lastmod).toBeUndefined();
+
+    const index = parseSitemap('<sitemapindex><sitemap><loc>https://example.com/post-sitemap.xml</loc></sitemap></sitemapindex>');
+    expect(index.type).toBe('index');
+    expect(index.entries[0]?.loc).toBe('https://example.com/post-sitemap.xml');
+  });
+
+  it('should apply the most specific robots.txt rule', async () => {
+    const { parseRobotsTxt, isPathAllowed } = await import('../source-adapters/adapters/website-adapter');
+
+    const robots = `
+      User-agent: *
+      Disallow: /wp-admin/
+      Disallow: /private
+      Allow: /private/press
+
+      User-agent: BadBot
+      Disallow: /
+    `;
+    const rules = parseRobotsTxt(robots);
+    expect(isPathAllowed(rules, '/blog/retirement-income')).toBe(true);
+    expect(isPathAllowed(rules, '/wp-admin/edit.php')).toBe(false);
+    expect(isPathAllowed(rules, '/private/notes')).toBe(false);
+    expect(isPathAllowed(rules, '/private/press/release')).toBe(true);
+    expect(isPathAllowed(parseRobotsTxt(robots, 'BadBot/2.0'), '/blog/')).toBe(false);
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow:'), '/anything')).toBe(true);
+  });
+
+  it('should only fetch index links it has not read before', async () => {
+    const { WebsiteAdapter } = await import('../source-adapters/adapters/website-adapter');
+    const { getPageFetcherService } = await import('../lead-finder/page-fetcher-service');
+
+    const seenRows: { source_id: string; url: string }[] = [];
+    const supabase = fakeSupabase((q) => {
+      if (q.op === 'upsert') {
+        seenRows.push(...(q.values as typeof seenRows));
+        return {};
+      }
+      return { data: seenRows.filter((row) => q.in['url']?.includes(row.url)) };
+    });
+
+    let indexHtml = '<a href="/blog/first-post">1</a><a href="/blog/second-post">2</a>';
+    vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+      url.endsWith('/robots.txt')
+        ? new Response('', { status: 404 })
+        : new Response(indexHtml, { status: 200 })
+    ));
+    const fetchPages = vi.spyOn(getPageFetcherService(), 'fetchPages').mockImplementation(async (urls: string[]) =>
+      urls.map((url) => ({
+        url,
+        finalUrl: url,
+        domain: 'example.com',
+        httpStatus: 200,
+        pageTitle: url,
+        publishedAtGuess: null,
+        extractedText: 'Retirement income planning. '.repeat(20),
+        contentHash: url,
+      }))
+    );
+
+    try {
+      const config = {
+        id: 'adapter_1', source_id: 'website-example', source_name: 'Example', source_type: 'website' as const,
+        enabled: true, priority: 50, config: { indexUrl: 'https://example.com/blog/' },
+        last_fetch_at: null, last_success_at: '2026-03-01T00:00:00Z', last_fetch_count: 0, last_fetch_error: null, is_healthy: true,
+      };
+      const adapter = new WebsiteAdapter(config, supabase.client);
+
+      const first = await adapter.fetch(config);
+      expect(first.ideas.map((i) => i.originalUrl)).toEqual([
+        'https://example.com/blog/first-post',
+        'https://example.com/blog/second-post',
+      ]);
+
+      indexHtml = '<a href="/blog/third-post">3</a>' + indexHtml;
+      const second = await adapter.fetch(config);
+      expect(second.ideas.map((i) => i.originalUrl)).toEqual(['https://example.com/blog/third-post']);
+      expect(seenRows).toHaveLength(3);
+    } finally {
+      fetchPages.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('Source Health Evaluation', () => {
+  const healthy = {
+    source_name: 'Test Feed',
+    enabled: true,
+    consecutive_failures: 0,
+    zero_yield_streak: 0,
+    health_status: 'healthy' as const,
+    flap_count: 0,
+    last_state_change_at: null,
+  };
+  const now = new Date('2026-01-05T12:00:00Z');
+
+  it('should mark a source unhealthy, then disable it, as failures accumulate', async () => {
+    const { evaluateSourceHealth } = await import('../source-health-service');
+
+    const third = evaluateSourceHealth({ ...healthy, consecutive_failures: 2, health_status: 'degraded' }, { success: false, error: 'HTTP 500', ideaCount: 0 }, now);
+    expect(third.status).toBe('unhealthy');
+    expect(third.raise).toEqual(['source_unhealthy']);
+    expect(third.updates['backoff_until']).toBe('2026-01-05T14:00:00.000Z');
+
+    const sixth = evaluateSourceHealth({ ...healthy, consecutive_failures: 5, health_status: 'unhealthy' }, { success: false, error: 'HTTP 500', ideaCount: 0 }, now);
+    expect(sixth.status).toBe('disabled');
+    expect(sixth.updates['enabled']).toBe(false);
+    expect(sixth.raise).toEqual(['source_disabled']);
+  });
+
+  it('should not auto-disable sources failing on OAuth errors', async () => {
+    const { evaluateSourceHealth } = await import('../source-health-service');
+
+    const result = evaluateSourceHealth(
+      { ...healthy, consecutive_failures: 5, health_status: 'unhealthy' },
+      { success: false, error: 'Token refresh failed: invalid_grant', ideaCount: 0 },
+      now
+    );
+    expect(result.status).toBe('unhealthy');
+    expect(result.updates['enabled']).toBeUndefined();
+  });
+
+  it('should alert on a zero-yield streak and resolve alerts on recovery', async () => {
+    const { evaluateSourceHealth } = await import('../source-health-service');
+
+    const empty = evaluateSourceHealth({ ...healthy, zero_yield_streak: 3 }, { success: true, ideaCount: 0 }, now);
+    expect(empty.status).toBe('degraded');
+    expect(empty.raise).toEqual(['zero_yield']);
+
+    const recovered = evaluateSourceHealth({ ...healthy, zero_yield_streak: 4, health_status: 'degraded' }, { success: true, ideaCount: 5 }, now);
+    expect(recovered.status).toBe('healthy');
+    expect(recovered.resolve).toContain('zero_yield');
+    expect(recovered.updates['zero_yield_streak']).toBe(0);
+  });
+
+  it('should only create a task for the run that opens the alert', async () => {
+    const { SourceHealthService } = await import('../source-health-service');
+    let insertError: { code: string; message: string } | null = { code: '23505', message: 'duplicate key' };
+    const supabase = fakeSupabase((q) =>
+      q.op !== 'insert' ? {} : insertError ? { error: insertError } : { data: { id: 'alert_1', task_id: null } }
+    );
+    const service = new SourceHealthService(supabase.client);
+    const tasks = { create: vi.fn(async () => ({ id: 'task_1' })) };
+    Object.assign(service, { tasks });
+
+    // Another run opened the alert between the lookup and the insert
+    expect(await service.raiseAlert('rss-example', 'source_unhealthy', 'Feed failing')).toBeNull();
+    expect(tasks.create).not.toHaveBeenCalled();
+
+    insertError = null;
+    const alert = await service.raiseAlert('rss-example', 'source_unhealthy', 'Feed failing');
+    expect(tasks.create).toHaveBeenCalledTimes(1);
+    expect(supabase.written('update')).toEqual([{ task_id: 'task_1' }]);
+    expect(alert?.task_id).toBe('task_1');
+  });
+});
+
+describe('Offline Conversion Payloads', () => {
+  it('should normalize and hash Meta user data', async () => {
+    const { hashMetaUserData, normalizeMetaPhone } = await import('../meta-ads-service');
+    const { createHash } = await import('crypto');
+
+    expect(normalizeMetaPhone('(555) 123-4567')).toBe('15551234567');
+    expect(normalizeMetaPhone('123')).toBeNull();
+
+    const userData = hashMetaUserData({ email: ' Jane@Example.com ', phone: '555-123-4567', first_name: null });
+    expect(userData.em).toEqual([createHash('sha256').update('jane@example.com').digest('hex')]);
+    expect(userData.ph).toEqual([createHash('sha256').update('15551234567').digest('hex')]);
+    expect(userData.fn).toBeUndefined();
+  });
+
+  it('should format Google conversion times and Meta click IDs', async () => {
+    const { formatGoogleConversionDateTime, buildMetaFbc } = await import('../offline-conversion-service');
+
+    expect(formatGoogleConversionDateTime(new Date('2026-03-04T05:06:07.890Z'))).toBe('2026-03-04 05:06:07+00:00');
+    expect(buildMetaFbc('abc123', '2026-03-04T05:06:07.000Z')).toBe(`fb.1.${Date.parse('2026-03-04T05:06:07.000Z')}.abc123`);
+  });
+
+  it('should only queue conversions for platforms that are configured', async () => {
+    const { OfflineConversionService } = await import('../offline-conversion-service');
+    const supabase = fakeSupabase((q) => {
+      if (q.table === 'website_sessions') return { data: [{ created_at: new Date().toISOString(), gclid: 'abc' }] };
+      const rows = (q.values || []) as Record<string, unknown>[];
+      return { data: rows.map((row, i) => ({ id: `conv_${i}`, ...row })) };
+    });
+    const jobQueue = { enqueue: vi.fn(async () => ({ id: 'job_1' })) };
+    const service = new OfflineConversionService(supabase.client);
+    Object.assign(service, { jobQueue, meta: { canSendConversions: () => false } });
+
+    vi.stubEnv('GOOGLE_ADS_CONVERSION_ACTION_CONSULTATION', '');
+    expect(await service.queueForStatusChange('contact_1', 'consultation_scheduled')).toEqual([]);
+    expect(supabase.written('upsert')).toEqual([]);
+
+    vi.stubEnv('GOOGLE_ADS_CONVERSION_ACTION_CONSULTATION', 'customers/123/conversionActions/456');
+    const queued = await service.queueForStatusChange('contact_1', 'consultation_scheduled');
+    expect(queued).toEqual([expect.objectContaining({ platform: 'google_ads', status: 'pending', gclid: 'abc' })]);
+    expect(jobQueue.enqueue).toHaveBeenCalledWith('offline_conversion_upload', { conversion_id: 'conv_0' }, expect.any(Object));
+
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('Scheduler Run Planning', () => {
+  const now = new Date('2026-01-07T12:33:00Z');
+
+  it('should only enqueue a run due now on the first tick', async () => {
+    const { planScheduleRuns } = await import('../scheduler-service');
+
+    expect(planScheduleRuns({ cron: '30 12 * * *', catch_up: 'latest', last_run_at: null }, now).due).toHaveLength(1);
+    expect(planScheduleRuns({ cron: '0 8 * * *', catch_up: 'latest', last_run_at: null }, now).due).toHaveLength(0);
+  });
+
+  it('should apply catch-up policies to missed runs', async () => {
+    const { planScheduleRuns } = await import('../scheduler-service');
+    const lastRun = '2026-01-04T08:00:00.000Z';
+
+    const latest = planScheduleRuns({ cron: '0 8 * * *', catch_up: 'latest', last_run_at: lastRun }, now);
+    expect(latest.due.map((d) => d.toISOString())).toEqual(['2026-01-07T08:00:00.000Z']);
+    expect(latest.missed).toBe(2);
+
+    const all = planScheduleRuns({ cron: '0 8 * * *', catch_up: 'all', last_run_at: lastRun }, now);
+    expect(all.due).toHaveLength(3);
+
+    const skip = planScheduleRuns({ cron: '0 8 * * *', catch_up: 'skip', last_run_at: lastRun }, now);
+    expect(skip.due).toHaveLength(0);
+    expect(skip.latest?.toISOString()).toBe('2026-01-07T08:00:00.000Z');
+  });
+});
+
+describe('Workflow Planning', () => {
+  const now = new Date('2026-01-07T12:00:00Z');
+  const definition = {
+    type: 'new_blog_post' as const,
+    name: 'Test',
+    description: 'Test',
+    steps: [
+      { key: 'outline', kind: 'task' as const, label: 'Outline', agent: 'content' as const, action: 'create_outline' },
+      { key: 'approve', kind: 'approval' as const, label: 'Approve', approval: { on_reject: 'continue' as const } },
+      {
+        key: 'publish',
+        kind: 'task' as const,
+        label: 'Publish',
+        agent: 'content' as const,
+        action: 'publish_content',
+        when: [{ ref: '$steps.approve.output.approved', equals: true }],
+        payload: { contentId: '$steps.outline.output.outlineId', formats: ['$input.format'] },
+      },
+      { key: 'wait', kind: 'wait' as const, label: 'Wait', wait: { days: 3, after: 'publish' } },
+      { key: 'report', kind: 'task' as const, label: 'Report', agent: 'analytics' as const, action: 'check_kpis', depends_on: [] },
+    ],
+  };
+
+  it('should resolve references in step payloads', async () => {
+    const { resolveWorkflowValue } = await import('../workflow-engine');
+    const context = {
+      input: { format: 'linkedin_post' },
+      steps: { outline: { status: 'completed', output: { outlineId: 'c1', ids: ['a', 'b'] } } },
+    };
+
+    expect(resolveWorkflowValue(definition.steps[2]!.payload, context)).toEqual({ contentId: 'c1', formats: ['linkedin_post'] });
+    expect(resolveWorkflowValue('$steps.outline.output.ids.1', context)).toBe('b');
+    expect(resolveWorkflowValue('$steps.missing.output.id', context)).toBeUndefined();
+  });
+
+  it('should start steps whose dependencies are done', async () => {
+    const { createStepStates, buildWorkflowContext, planWorkflowSteps } = await import('../workflow-engine');
+    const states = createStepStates(definition);
+
+    const plan = planWorkflowSteps(definition, states, buildWorkflowContext({}, states), now);
+    expect(plan.start.map((s) => s.key)).toEqual(['outline', 'report']);
+  });
+
+  it('should skip a branch and everything that only depends on it', async () => {
+    const { createStepStates, buildWorkflowContext, planWorkflowSteps, getWorkflowOutcome } = await import('../workflow-engine');
+    const states = createStepStates(definition);
+    Object.assign(states[0]!, { status: 'completed' });
+    Object.assign(states[1]!, { status: 'completed', output: { approved: false } });
+    Object.assign(states[4]!, { status: 'completed' });
+
+    const first = planWorkflowSteps(definition, states, buildWorkflowContext({}, states), now);
+    expect(first.skip).toEqual(['publish']);
+
+    states[2]!.status = 'skipped';
+    const second = planWorkflowSteps(definition, states, buildWorkflowContext({}, states), now);
+    expect(second.skip).toEqual(['wait']);
+
+    states[3]!.status = 'skipped';
+    expect(getWorkflowOutcome(states)).toBe('completed');
+  });
+
+  it('should hold waits and retries until they are due', async () => {
+    const { createStepStates, buildWorkflowContext, planWorkflowSteps } = await import('../workflow-engine');
+    const states = createStepStates(definition);
+    Object.assign(states[3]!, { status: 'waiting', wait_until: '2026-01-08T12:00:00Z' });
+    Object.assign(states[4]!, { retry_at: '2026-01-07T12:15:00Z' });
+
+    const plan = planWorkflowSteps(definition, states, buildWorkflowContext({}, states), now);
+    expect(plan.finishWaits).toEqual([]);
+    expect(plan.start.map((s) => s.key)).toEqual(['outline']);
+
+    const later = planWorkflowSteps(definition, states, buildWorkflowContext({}, states), new Date('2026-01-08T12:00:00Z'));
+    expect(later.finishWaits).toEqual(['wait']);
+    expect(later.start.map((s) => s.key)).toEqual(['outline', 'report']);
+  });
+});
+
+describe('Workflow Engine', () => {
+  const instance = {
+    id: 'wf_1', workflow_type: 'daily_report', status: 'running', payload: {}, step_results: [], locked_until: null,
+  };
+
+  // workflow_instances updates are recorded; `paused` makes the status-guarded save match nothing
+  const engineSupabase = (options: { failSecondTask?: boolean; paused?: boolean }) => {
+    let tasks = 0;
+    return fakeSupabase((q) => {
+      let rows: unknown[] = [];
+      if (q.op === 'update') {
+        const row = q.values as Record<string, unknown>;
+        if ('locked_until' in row && Object.keys(row).length === 1) rows = [instance];
+        else if ('status' in row) rows = options.paused ? [] : [{ ...instance, ...row }];
+        else rows = [{ ...instance, status: 'paused', ...row }];
+      } else if (q.op === 'insert') {
+        tasks++;
+        rows = options.failSecondTask && tasks === 2 ? [] : [{ id: `task_${tasks}` }];
+      }
+      if (!q.single) return { data: rows };
+      return rows[0] ? { data: rows[0] } : { error: { code: 'PGRST116', message: `${q.table} insert failed` } };
+    });
+  };
+
+  it('should keep the tasks it started when a later step throws', async () => {
+    const { WorkflowEngine } = await import('../workflow-engine');
+    const supabase = engineSupabase({ failSecondTask: true });
+
+    await expect(new WorkflowEngine(supabase.client).advance('wf_1')).rejects.toThrow('Failed to create task for step sync_ads');
+
+    const saved = supabase.written('update').pop() as Record<string, unknown>;
+    expect(saved).not.toHaveProperty('status');
+    expect(saved).toMatchObject({ locked_until: null });
+    expect((saved['step_results'] as Array<{ key: string; task_id?: string }>).find((s) => s.key === 'sync_ga4')?.task_id).toBe('task_1');
+  });
+
+  it('should not overwrite a pause made during an advance', async () => {
+    const { WorkflowEngine } = await import('../workflow-engine');
+    const supabase = engineSupabase({ paused: true });
+
+    const result = await new WorkflowEngine(supabase.client).advance('wf_1');
+
+    expect(result).toMatchObject({ status: 'paused' });
+    const saved = supabase.written('update').pop() as Record<string, unknown>;
+    expect(saved).not.toHaveProperty('status');
+    expect((saved['step_results'] as Array<{ status: string }>).filter((s) => s.status === 'running')).toHaveLength(2);
+  });
+});
+
+describe('Rank Tracking', () => {
+  const observations = [
+    { date: '2026-01-05', query: 'fee-only advisor', page: 'https://arcvest.com/fee-only', position: 8.4, clicks: 3, impressions: 120 },
+    { date: '2026-01-05', query: 'fee-only advisor', page: 'https://arcvest.com/blog/fees', position: 14.2, clicks: 0, impressions: 60 },
+    { date: '2026-01-06', query: 'fee-only advisor', page: 'https://arcvest.com/fee-only', position: 12.1, clicks: 1, impressions: 90 },
+    { date: '2026-01-06', query: 'roth conversion', page: 'https://arcvest.com/roth', position: 22, clicks: 0, impressions: 0 },
+  ];
+
+  it('should rank each keyword by its best page per day from the provider', async () => {
+    const { FixtureSerpProvider, summarizeDailyRankings } = await import('../rank-tracking-service');
+    const provider = new FixtureSerpProvider(observations);
+
+    const fetched = await provider.getObservations(['Fee-Only  Advisor', 'roth conversion'], '2026-01-05', '2026-01-06');
+    expect(fetched).toHaveLength(4);
+
+    const rankings = summarizeDailyRankings(fetched, 1);
+    expect(rankings.map((r) => [r.query, r.date, r.position, r.impressions])).toEqual([
+      ['fee-only advisor', '2026-01-05', 8.4, 180],
+      ['fee-only advisor', '2026-01-06', 12.1, 90],
+    ]);
+    expect(rankings[0]!.page).toBe('https://arcvest.com/fee-only');
+  });
+
+  it('should alert on significant moves and top 10 crossings', async () => {
+    const { detectRankChanges } = await import('../rank-tracking-service');
+
+    expect(detectRankChanges(8.4, 12.1, 5)).toEqual(['left_top_10']);
+    expect(detectRankChanges(18, 6, 5)).toEqual(['rank_gain', 'entered_top_10']);
+    expect(detectRankChanges(25, 31, 5)).toEqual(['rank_drop']);
+    expect(detectRankChanges(4, null, 5)).toEqual(['lost_ranking', 'left_top_10']);
+    expect(detectRankChanges(null, 40, 5)).toEqual([]);
+  });
+
+  it('should flag queries split between two of our pages', async () => {
+    const { detectCannibalization } = await import('../rank-tracking-service');
+    const options = { window_days: 28, min_impressions: 20, min_share: 0.2 };
+
+    const issues = detectCannibalization(observations, options);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.query).toBe('fee-only advisor');
+    expect(issues[0]!.pages.map((p) => p.page)).toEqual(['https://arcvest.com/fee-only', 'https://arcvest.com/blog/fees']);
+
+    expect(detectCannibalization(observations, { ...options, min_share: 0.3 })).toHaveLength(0);
+  });
+});
+
 describe('Contact Types', () => {
   it('should have proper contact status values', () => {
     const validStatuses = ['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'won', 'lost', 'nurturing'];
@@ -222,3 +768,760 @@ describe('Contact Types', () => {
     expect(validPriorities).toContain(testPriority);
   });
 });
+
+describe('Regulatory Monitor', () => {
+  it('should classify adviser marketing items by impact area', async () => {
+    const { classifyRegulatoryItem } = await import('../regulatory-monitor-service');
+
+    const result = classifyRegulatoryItem(
+      'SEC Charges Investment Advisers for Marketing Rule Violations Involving Hypothetical Performance and Testimonials'
+    );
+    expect(result.impactAreas).toEqual(['advertising', 'testimonials', 'performance']);
+    expect(result.categories).toContain('performance_claim');
+    expect(result.categories).toContain('testimonial');
+    expect(result.affectsMarketingRules).toBe(true);
+
+    // Marketing terms without an adviser angle do not count
+    const broker = classifyRegulatoryItem('FINRA fines broker-dealer over misleading advertising');
+    expect(broker.impactAreas).toEqual(['advertising']);
+    expect(broker.affectsMarketingRules).toBe(false);
+
+    // Unless the source is always about adviser marketing
+    expect(classifyRegulatoryItem('Updated FAQ on extracted performance', { always_relevant: true }).affectsMarketingRules).toBe(true);
+    expect(classifyRegulatoryItem('SEC announces new commissioner').affectsMarketingRules).toBe(false);
+  });
+
+  it('should build a draft rule set from a proposal without touching the base', async () => {
+    const { applyRuleChangeProposal } = await import('../regulatory-monitor-service');
+    const base = {
+      version: '2026.1',
+      rules: [
+        { id: 'a', category: 'guarantee' as const, severity: 'block' as const, pattern: 'guaranteed', description: 'Guarantee', suggestion: 'Remove' },
+        { id: 'b', category: 'testimonial' as const, severity: 'warning' as const, pattern: 'testimonial', description: 'Testimonial', suggestion: 'Add disclosure' },
+      ],
+      disclosures: [],
+    };
+
+    const draft = applyRuleChangeProposal(base, {
+      rationale: 'FAQ update',
+      update_rules: [{ ...base.rules[1]!, severity: 'block' }],
+      remove_rule_ids: ['a'],
+      add_rules: [{ id: 'c', category: 'performance_claim', severity: 'block', pattern: 'hypothetical', description: 'Hypothetical performance', suggestion: 'Restrict audience' }],
+    }, '2026.1+reg.20260301.abcd1234');
+
+    expect(draft.version).toBe('2026.1+reg.20260301.abcd1234');
+    expect(draft.rules.map((r) => [r.id, r.severity])).toEqual([['b', 'block'], ['c', 'block']]);
+    expect(base.rules).toHaveLength(2);
+  });
+
+  it('should refuse to activate a draft built on a rule set that is no longer active', async () => {
+    const { RegulatoryMonitorService, StaleRuleChangeError } = await import('../regulatory-monitor-service');
+    const update = {
+      id: 'update_1',
+      status: 'draft_pending',
+      draft_rule_version: '2026.1+reg.20260301.update_1',
+      base_rule_version: '2026.1',
+      task_id: null,
+    };
+    const supabase = fakeSupabase((q) =>
+      !q.single ? {} : q.table === 'regulatory_updates' ? { data: update } : { data: { version: '2026.2' } }
+    );
+
+    const service = new RegulatoryMonitorService(supabase.client, stub<SourceAdapter>({}));
+    await expect(service.resolveRuleChange('update_1', true)).rejects.toBeInstanceOf(StaleRuleChangeError);
+
+    // Nothing was activated and the update is back awaiting a draft
+    expect(supabase.queries.filter((q) => q.op === 'update').map((q) => [q.table, q.values])).toEqual([
+      ['regulatory_updates', { status: 'new', draft_rule_version: null, base_rule_version: null, approval_id: null }],
+    ]);
+  });
+});
+
+describe('Publish Scheduler', () => {
+  const config = {
+    publishing_schedules: [{ content_type: 'blog_post' as const, days: ['Tuesday', 'Thursday'], time: '09:00' }],
+    publishing_timezone: 'America/Chicago',
+    weekly_targets: { blog_posts: 1, linkedin_posts: 3, twitter_threads: 0, newsletter: 0.5 },
+    content_mix: { educational: 0.5, thought_leadership: 0.3, promotional: 0.2 },
+  };
+  const from = new Date('2026-03-02T12:00:00Z'); // Monday morning in Chicago
+
+  it('should list slots in the publishing timezone across DST', async () => {
+    const { listPublishingSlots } = await import('../publish-scheduler-service');
+
+    const slots = listPublishingSlots(from, 2, config.publishing_schedules, config.publishing_timezone);
+    expect(slots.map((s) => s.at.toISOString())).toEqual([
+      '2026-03-03T15:00:00.000Z',
+      '2026-03-05T15:00:00.000Z',
+      '2026-03-10T14:00:00.000Z',
+      '2026-03-12T14:00:00.000Z',
+    ]);
+    expect(slots.map((s) => s.week)).toEqual(['2026-03-02', '2026-03-02', '2026-03-09', '2026-03-09']);
+  });
+
+  it('should fill open slots within weekly targets, steering toward the content mix', async () => {
+    const { allocatePublishSlots } = await import('../publish-scheduler-service');
+    const entries = [
+      { id: 'e1', content_type: 'blog_post' as const, content_mix_category: 'educational' as const, created_at: '2026-02-01T00:00:00Z' },
+      { id: 'e2', content_type: 'blog_post' as const, content_mix_category: 'promotional' as const, created_at: '2026-02-02T00:00:00Z' },
+      { id: 'e3', content_type: 'blog_post' as const, content_mix_category: 'educational' as const, created_at: '2026-02-03T00:00:00Z' },
+    ];
+    const scheduled = [
+      { id: 's1', content_type: 'blog_post' as const, content_mix_category: 'educational' as const, scheduled_at: '2026-03-03T15:00:00Z' },
+    ];
+
+    const result = allocatePublishSlots(entries, scheduled, from, 3, config);
+
+    // This week already has its one blog post; the promotional post closes the mix gap first
+    expect(result.assignments.map((a) => [a.entryId, a.slot.date])).toEqual([
+      ['e2', '2026-03-10'],
+      ['e1', '2026-03-17'],
+    ]);
+    expect(result.unplaced).toEqual(['e3']);
+  });
+
+  it('should flag weeks under target, spreading fractional targets over their block', async () => {
+    const { summarizeWeeklyCoverage } = await import('../publish-scheduler-service');
+    const scheduled = [
+      { id: 'b1', content_type: 'blog_post' as const, content_mix_category: null, scheduled_at: '2026-03-03T15:00:00Z' },
+      { id: 'n1', content_type: 'newsletter' as const, content_mix_category: null, scheduled_at: '2026-03-05T16:00:00Z' },
+    ];
+
+    const coverage = summarizeWeeklyCoverage(scheduled, '2026-03-02', 2, config);
+    expect(coverage.map((w) => [w.week, w.underTarget])).toEqual([
+      ['2026-03-02', ['linkedin_post']],
+      ['2026-03-09', ['blog_post', 'linkedin_post']],
+    ]);
+    expect(coverage[0]!.counts).toEqual({ blog_post: 1, newsletter: 1 });
+  });
+});
+
+describe('Content Sync', () => {
+  it('should pull WordPress edits only when the calendar entry is unchanged', async () => {
+    const { decideWordPressPull, hashContentBody } = await import('../content-sync-service');
+    const original = hashContentBody('Original body');
+    const base = {
+      remoteModifiedAt: '2026-03-05T12:00:00.000Z',
+      remoteHash: hashContentBody('Edited in WordPress'),
+      localHash: original,
+      lastModifiedAt: '2026-03-01T12:00:00.000Z',
+      lastHash: original,
+    };
+
+    expect(decideWordPressPull(base)).toBe('pull');
+    expect(decideWordPressPull({ ...base, localHash: hashContentBody('Edited here') })).toBe('conflict');
+    expect(decideWordPressPull({ ...base, lastModifiedAt: base.remoteModifiedAt })).toBe('unchanged');
+
+    // Never pulled before: nothing local to protect
+    expect(decideWordPressPull({ ...base, lastModifiedAt: null, lastHash: null, localHash: hashContentBody('Ours') })).toBe('pull');
+
+    // Same content on both sides just moves the baseline
+    expect(decideWordPressPull({ ...base, remoteHash: hashContentBody('Original body\r\n') })).toBe('baseline');
+  });
+
+  it('should join published URLs to GA4 page paths', async () => {
+    const { normalizePagePath } = await import('../content-sync-service');
+
+    expect(normalizePagePath('https://arcvest.com/Blog/Roth-Conversions/')).toBe('/blog/roth-conversions');
+    expect(normalizePagePath('/blog/roth-conversions')).toBe('/blog/roth-conversions');
+    expect(normalizePagePath('https://arcvest.com/?p=123')).toBe('/');
+    expect(normalizePagePath(null)).toBeNull();
+  });
+
+  it('should record WordPress\'s modified time when keeping the local version', async () => {
+    const { ContentSyncService } = await import('../content-sync-service');
+    const entry = {
+      id: 'entry_1', title: 'Roth Conversions', final_content: 'Ours', wordpress_post_id: 42,
+      wordpress_sync_conflict: true,
+      metadata: { wordpress_conflict: { title: 'Theirs', content: 'Theirs', modified_at: '2026-03-05T12:00:00.000Z' } },
+    };
+    const supabase = fakeSupabase((q) => (q.single ? { data: entry } : {}));
+    const wordpress = {
+      ensureConfigured: async () => undefined,
+      updatePost: vi.fn(async () => ({ id: 42, modified_gmt: '2026-03-06T09:30:00' })),
+    };
+
+    const service = new ContentSyncService(supabase.client, stub<WordPressService>(wordpress), stub<GoogleAnalyticsService>({}));
+    await service.resolveConflict('entry_1', 'local');
+
+    expect(wordpress.updatePost).toHaveBeenCalledWith(42, { title: 'Roth Conversions', content: 'Ours' });
+    expect(supabase.written('update')[0]).toMatchObject({
+      metadata: {},
+      wordpress_sync_conflict: false,
+      wordpress_modified_at: '2026-03-06T09:30:00.000Z',
+    });
+  });
+});
+
+describe('LLM Gateway', () => {
+  it('should fall back to the next provider and record the call it served', async () => {
+    const { LlmGateway, MockLLMProvider, LlmProviderError } = await import('../llm');
+    const { llmConfig } = await import('@arcvest/shared');
+    const supabase = fakeSupabase();
+    const anthropic = new MockLLMProvider({ name: 'anthropic', failures: -1 });
+    const openai = new MockLLMProvider({ name: 'openai', respond: () => 'Fallback draft' });
+    const config = { ...llmConfig, retry: { ...llmConfig.retry, max_attempts: 2, base_delay_ms: 0 } };
+
+    const gateway = new LlmGateway(supabase.client, [anthropic, openai], config);
+    const result = await gateway.complete('ideas.score', { prompt: 'Score this idea' }, { correlationId: 'idea-1' });
+
+    expect(anthropic.calls).toHaveLength(2);
+    expect(result.text).toBe('Fallback draft');
+    expect(result).toMatchObject({ provider: 'openai', model: 'gpt-4o', attempts: 3, fallbackUsed: true });
+    expect(result.costUsd).toBeGreaterThan(0);
+    expect(supabase.written('insert')).toEqual([
+      expect.objectContaining({ pipeline: 'ideas', feature: 'ideas.score', correlation_id: 'idea-1', status: 'success' }),
+    ]);
+
+    // Rejected requests are not retried elsewhere
+    const rejecting = new MockLLMProvider({ name: 'anthropic', failures: -1, retryable: false });
+    const strict = new LlmGateway(supabase.client, [rejecting, openai], config);
+    await expect(strict.complete('ideas.score', { prompt: 'x' })).rejects.toBeInstanceOf(LlmProviderError);
+    expect(rejecting.calls).toHaveLength(1);
+    expect(supabase.written('insert')[1]).toMatchObject({ provider: 'anthropic', status: 'error' });
+  });
+
+  it('should price calls and pivot daily spend by pipeline', async () => {
+    const { estimateLlmCost, summarizeLlmSpend } = await import('../llm');
+    const pricing = { 'model-a': { input_per_million: 3, output_per_million: 15 } };
+
+    expect(estimateLlmCost('model-a', 1000, 500, pricing)).toBe(0.0105);
+    expect(estimateLlmCost('unpriced', 1000, 500, pricing)).toBe(0);
+
+    const row = { calls: 1, failed_calls: 0, input_tokens: 100, output_tokens: 50 };
+    const summary = summarizeLlmSpend([
+      { ...row, day: '2026-03-01', pipeline: 'content', cost_usd: 1.25 },
+      { ...row, day: '2026-03-02', pipeline: 'content', cost_usd: 0.5 },
+      { ...row, day: '2026-03-02', pipeline: 'ideas', cost_usd: 0.02, failed_calls: 1 },
+    ]);
+
+    expect(summary.pipelines).toEqual(['content', 'ideas']);
+    expect(summary.days.map((d) => [d.day, d.total])).toEqual([
+      ['2026-03-02', 0.52],
+      ['2026-03-01', 1.25],
+    ]);
+    expect(summary.totals[1]).toEqual({ pipeline: 'ideas', calls: 1, failedCalls: 1, tokens: 150, costUsd: 0.02 });
+    expect(summary.totalCostUsd).toBe(1.77);
+  });
+});
+
+describe('Notifications', () => {
+  it('should route by severity, per-user rules and mutes', async () => {
+    const { resolveNotificationDeliveries } = await import('../notification-service');
+    const now = new Date('2026-03-02T12:00:00Z');
+    const recipients = [
+      { user_email: 'chad@arcvest.com', muted_until: null, muted_sources: [], rules: [] },
+      {
+        user_email: 'erik@arcvest.com',
+        muted_until: null,
+        muted_sources: ['kpi' as const],
+        rules: [{ sources: ['job' as const], min_severity: 'info' as const, channels: ['email' as const] }],
+      },
+    ];
+
+    // Defaults: bell for everything, email from warning up; webhook for critical only
+    expect(resolveNotificationDeliveries({ source: 'kpi', severity: 'warning' }, recipients, { webhook: true, now })).toEqual([
+      { recipient: 'chad@arcvest.com', channel: 'in_app' },
+      { recipient: 'chad@arcvest.com', channel: 'email' },
+    ]);
+    expect(resolveNotificationDeliveries({ source: 'job', severity: 'critical' }, recipients, { webhook: true, now })).toEqual([
+      { recipient: 'chad@arcvest.com', channel: 'in_app' },
+      { recipient: 'chad@arcvest.com', channel: 'email' },
+      { recipient: 'erik@arcvest.com', channel: 'email' },
+      { recipient: null, channel: 'webhook' },
+    ]);
+
+    // A timed mute leaves only the bell
+    const muted = [{ ...recipients[0]!, muted_until: '2026-03-02T13:00:00Z' }];
+    expect(resolveNotificationDeliveries({ source: 'budget', severity: 'critical' }, muted, { now })).toEqual([
+      { recipient: 'chad@arcvest.com', channel: 'in_app' },
+    ]);
+  });
+
+  it('should bump a repeat alert instead of delivering it again', async () => {
+    const { NotificationService } = await import('../notification-service');
+    const existing = {
+      id: 'n1', source: 'job', severity: 'critical', title: 'Job failed: news_scan', message: 'old',
+      details: {}, dedup_key: 'job:news_scan', occurrence_count: 2, created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    };
+    const deliver = vi.fn(async () => 'sent' as const);
+    const supabase = fakeSupabase((q) =>
+      q.single ? { data: { ...existing, ...(supabase.written('update')[0] as object | undefined) } } : {}
+    );
+
+    const service = new NotificationService(supabase.client, [{ type: 'in_app', deliver }]);
+    const result = await service.notify({
+      source: 'job', severity: 'warning', title: 'Job failed: news_scan', message: 'new', dedupKey: 'job:news_scan',
+    });
+
+    expect(result).toMatchObject({ deduplicated: true, deliveries: 0 });
+    expect(result?.notification).toMatchObject({ occurrence_count: 3, message: 'new', severity: 'critical' });
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('should resolve an alert older than the dedup window and raise the repeat again', async () => {
+    const { NotificationService } = await import('../notification-service');
+    const open = {
+      id: 'n1', source: 'job', severity: 'warning', title: 'Job failed: news_scan', message: 'old', details: {},
+      dedup_key: 'job:news_scan', occurrence_count: 40, created_at: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
+    };
+    const deliver = vi.fn(async () => 'sent' as const);
+    const supabase = fakeSupabase((q) => {
+      if (!q.single || q.table !== 'notifications') return {};
+      if (q.op === 'insert') return { data: { id: 'n2', created_at: new Date().toISOString(), occurrence_count: 1, ...(q.values as object) } };
+      return { data: open };
+    });
+
+    const service = new NotificationService(supabase.client, [{ type: 'in_app', deliver }]);
+    const result = await service.notify({
+      source: 'job', severity: 'warning', title: 'Job failed: news_scan', message: 'new', dedupKey: 'job:news_scan',
+    });
+
+    expect(result).toMatchObject({ deduplicated: false, notification: { id: 'n2', occurrence_count: 1 } });
+    expect(supabase.queries.filter((q) => q.table === 'notifications' && q.op !== 'select').map((q) => [q.op, q.values])).toEqual([
+      ['update', { resolved_at: expect.any(String) }],
+      ['insert', expect.objectContaining({ dedup_key: 'job:news_scan', message: 'new' })],
+    ]);
+  });
+});
+
+describe('Meta Campaign Builder', () => {
+  it('should hold targeting to the special ad category rules', async () => {
+    const { enforceSpecialAdTargeting } = await import('../meta-campaign-builder');
+
+    const allowed = enforceSpecialAdTargeting({ geo_locations: { countries: ['US'] } });
+    expect(allowed.violations).toEqual([]);
+    expect(allowed.targeting).toMatchObject({ age_min: 18, age_max: 65 });
+
+    const { violations } = enforceSpecialAdTargeting({
+      age_min: 55,
+      genders: [2],
+      flexible_spec: [{ income: [{ id: '6107813079183' }] }],
+      geo_locations: {
+        zips: [{ key: 'US:77002' }],
+        custom_locations: [{ name: 'Houston', latitude: 29.76, longitude: -95.37, radius: 10, distance_unit: 'kilometer' }],
+      },
+    });
+    expect(violations).toHaveLength(5);
+    expect(violations.join('\n')).toMatch(/Minimum age must be 18/);
+    expect(violations.join('\n')).toMatch(/Radius around Houston must be at least 15 miles/);
+  });
+
+  it('should roll back created Meta objects when a later step fails', async () => {
+    const { MetaCampaignBuilder } = await import('../meta-campaign-builder');
+    const deleted: string[] = [];
+    const meta = {
+      isConfigured: () => true,
+      initializeFromEnv: () => undefined,
+      getPageId: () => 'page_1',
+      createLeadForm: async () => ({ id: 'form_1' }),
+      createCampaign: async () => ({ id: 'camp_1' }),
+      createAdSet: async () => ({ id: 'adset_1' }),
+      uploadImage: async () => ({ hash: 'hash_1' }),
+      createAdCreative: async () => ({ id: 'creative_1' }),
+      createAd: async () => { throw new Error('Invalid parameter'); },
+      deleteObject: async (id: string) => { deleted.push(id); },
+      archiveLeadForm: async (id: string) => { deleted.push(`archived:${id}`); },
+    };
+    const supabase = fakeSupabase((q) => (q.single ? { error: { code: 'PGRST116', message: 'No rows' } } : {}));
+
+    const builder = new MetaCampaignBuilder(supabase.client, stub<MetaAdsService>(meta));
+    const result = await builder.build({
+      name: 'Retirement Checklist',
+      dailyBudget: 20,
+      targeting: { geo_locations: { countries: ['US'] } },
+      leadForm: { name: 'Checklist Form' },
+      ads: [{ name: 'Ad 1', headline: 'Plan your retirement', primaryText: 'Get the free checklist.', description: 'Fee-only advice' }],
+    }, 'chad@arcvest.com');
+
+    expect(result.success).toBe(false);
+    expect(result.issues[0]).toMatch(/Invalid parameter/);
+    expect(deleted).toEqual(['creative_1', 'adset_1', 'camp_1', 'archived:form_1']);
+    expect(result.orphaned).toEqual([]);
+    expect(supabase.written('insert')).toEqual([]);
+  });
+
+  it('should record each ad\'s compliance check against its creative', async () => {
+    const { MetaCampaignBuilder } = await import('../meta-campaign-builder');
+    let creatives = 0;
+    const meta = {
+      isConfigured: () => true,
+      initializeFromEnv: () => undefined,
+      getPageId: () => 'page_1',
+      createLeadForm: async () => ({ id: 'form_1' }),
+      createCampaign: async () => ({ id: 'camp_1' }),
+      createAdSet: async () => ({ id: 'adset_1' }),
+      createAdCreative: async () => ({ id: `creative_${++creatives}` }),
+      createAd: async () => ({ id: `ad_${creatives}` }),
+    };
+    const supabase = fakeSupabase((q) => (q.single ? { data: { id: `${q.table}_1` } } : {}));
+    const compliance = {
+      check: async (text: string) => ({ passed: true, findings: [], missingDisclosures: [], text }),
+      record: vi.fn(async () => undefined),
+    };
+
+    const builder = new MetaCampaignBuilder(supabase.client, stub<MetaAdsService>(meta));
+    Object.assign(builder, { compliance });
+    const result = await builder.build({
+      name: 'Retirement Checklist',
+      dailyBudget: 20,
+      targeting: { geo_locations: { countries: ['US'] } },
+      leadForm: { name: 'Checklist Form' },
+      ads: [
+        { name: 'Ad 1', headline: 'Plan your retirement', primaryText: 'Get the checklist.', description: 'Fee-only advice' },
+        { name: 'Ad 2', headline: 'Retire with a plan', primaryText: 'See what to check first.', description: 'Fee-only advice' },
+      ],
+    }, 'chad@arcvest.com');
+
+    expect(result).toMatchObject({ success: true, approvalId: 'approval_queue_1' });
+    expect(compliance.record.mock.calls).toEqual([
+      ['meta_ad_creative', 'creative_1', expect.objectContaining({ text: expect.stringContaining('Plan your retirement') })],
+      ['meta_ad_creative', 'creative_2', expect.objectContaining({ text: expect.stringContaining('Retire with a plan') })],
+    ]);
+  });
+
+  it('should keep a draft whose activation fails and record the error', async () => {
+    const { MetaCampaignBuilder } = await import('../meta-campaign-builder');
+    const meta = {
+      isConfigured: () => true,
+      initializeFromEnv: () => undefined,
+      getPageId: () => 'page_1',
+      updateStatus: async (id: string) => {
+        if (id === 'adset_1') throw new Error('Ad set is in review');
+      },
+    };
+    const draft = {
+      id: 'c1', status: 'draft', meta_campaign_id: 'camp_1', metadata: { lead_form_id: 'form_1' },
+      meta_ad_sets: [{ id: 's1', meta_ad_set_id: 'adset_1', meta_ads: [{ id: 'a1', meta_ad_id: 'ad_1', creative: null }] }],
+    };
+    const supabase = fakeSupabase((q) => (q.single ? { data: draft } : {}));
+
+    const builder = new MetaCampaignBuilder(supabase.client, stub<MetaAdsService>(meta));
+    await expect(builder.resolveApproval('c1', true, 'chad@arcvest.com')).rejects.toThrow('Ad set is in review');
+
+    expect(supabase.queries.filter((q) => q.op === 'update').map((q) => [q.table, q.values])).toEqual([
+      ['campaigns', { metadata: { lead_form_id: 'form_1', activation_error: 'Ad set is in review', activation_failed_at: expect.any(String) } }],
+    ]);
+  });
+});
+
+describe('Meta Lead Sync', () => {
+  it('should map lead form answers onto contact fields', async () => {
+    const { mapMetaLeadFields } = await import('../meta-lead-sync-service');
+    const mapped = mapMetaLeadFields({
+      id: 'lead_1',
+      created_time: '2026-03-02T12:00:00+0000',
+      field_data: [
+        { name: 'full_name', values: ['Pat Van Dyke'] },
+        { name: 'email', values: ['Pat@Example.com'] },
+        { name: 'phone_number', values: ['+15125550100'] },
+        { name: 'what_is_your_approximate_investable_asset_level?', values: ['$500K - $1M'] },
+      ],
+    });
+
+    expect(mapped).toMatchObject({
+      email: 'pat@example.com',
+      firstName: 'Pat',
+      lastName: 'Van Dyke',
+      phone: '+15125550100',
+      estimatedAssets: '500k_to_2m',
+    });
+  });
+
+  it('should skip leads that were already processed', async () => {
+    const { MetaLeadSyncService } = await import('../meta-lead-sync-service');
+    const lead = (id: string) => ({
+      id,
+      created_time: '2026-03-02T12:00:00+0000',
+      ad_id: 'ad_1',
+      adset_id: 'adset_1',
+      campaign_id: 'camp_1',
+      field_data: [{ name: 'email', values: [`${id}@example.com`] }],
+    });
+    const meta = {
+      isConfigured: () => true,
+      initializeFromEnv: () => undefined,
+      getLeads: async () => [lead('lead_1'), lead('lead_2')],
+    };
+    const intake = {
+      intake: vi.fn(async () => ({ contact: { id: 'contact_2' }, created: true, ghlStatus: 'synced', errors: [] })),
+    };
+    const supabase = fakeSupabase((q) =>
+      q.in['meta_lead_id'] ? { data: [{ meta_lead_id: 'lead_1', status: 'processed', attempts: 1 }] } : {}
+    );
+
+    const service = new MetaLeadSyncService(supabase.client, stub<MetaAdsService>(meta), stub<LeadIntakeService>(intake));
+    const result = await service.sync(['form_1']);
+
+    expect(result).toMatchObject({ leadsFound: 2, alreadyProcessed: 1, processed: 1, contactsCreated: 1 });
+    expect(intake.intake).toHaveBeenCalledTimes(1);
+    expect(intake.intake.mock.calls[0]![0]).toMatchObject({
+      email: 'lead_2@example.com',
+      matchPhone: true,
+      formData: { ad_id: 'ad_1', adset_id: 'adset_1', campaign_id: 'camp_1' },
+    });
+    expect(supabase.written('upsert')).toEqual([expect.objectContaining({ meta_lead_id: 'lead_2', status: 'processed', contact_id: 'contact_2' })]);
+  });
+});
+
+describe('Sequence Dispatcher', () => {
+  const item = (enrollmentId: string) => ({
+    enrollment_id: enrollmentId,
+    contact_id: 'contact_1',
+    email: 'pat@example.com',
+    first_name: 'Pat',
+    last_name: null,
+    sequence_name: 'Nurture',
+    sequence_id: 'seq_1',
+    subject: 'Hello',
+    body: 'Body',
+    step_order: 1,
+    next_email_at: '2026-03-03T12:00:00Z',
+  });
+
+  // sequence_step_sends rows keyed by enrollment_id; every other table is a no-op
+  const dispatcherSupabase = (steps: Map<string, { status: string; claimed_until?: string | null }>) =>
+    fakeSupabase((q) => {
+      if (q.table !== 'sequence_step_sends') return { count: 0 };
+
+      if (q.op === 'insert') {
+        const row = q.values as { enrollment_id: string; status: string; claimed_until: string };
+        if (steps.has(row.enrollment_id)) return { error: { code: '23505', message: 'duplicate key' } };
+        steps.set(row.enrollment_id, { status: row.status, claimed_until: row.claimed_until });
+        return {};
+      }
+
+      const enrollmentId = q.eq['enrollment_id'] as string;
+      const row = steps.get(enrollmentId);
+      if (q.single) return { data: row };
+
+      const matches =
+        !!row &&
+        (q.eq['status'] === undefined || row.status === q.eq['status']) &&
+        (!q.or ||
+          (row.status === 'failed' && q.or.includes('status.eq.failed')) ||
+          (row.status === 'sending' && (row.claimed_until || '') < new Date().toISOString()));
+      if (q.op === 'update' && matches) Object.assign(row, q.values);
+      if (q.op === 'delete' && row && row.status !== 'sent') steps.delete(enrollmentId);
+      return { data: matches ? [row] : [] };
+    });
+
+  const createDispatcher = async (
+    steps: Map<string, { status: string; claimed_until?: string | null }>,
+    queue: ReturnType<typeof item>[]
+  ) => {
+    const { SequenceDispatcher } = await import('../sequence-dispatcher');
+    const gmail = {
+      sendEmail: vi.fn(async (params: { to: string }) => {
+        if (params.to === 'fail@example.com') throw new Error('Gmail unavailable');
+        return { id: 'msg_1', threadId: 'thread_1' };
+      }),
+    };
+    const jobQueue = { enqueue: vi.fn(async () => ({ id: 'job_1' })) };
+    const dispatcher = new SequenceDispatcher(
+      dispatcherSupabase(steps).client,
+      stub<GmailService>(gmail),
+      stub<JobQueueService>(jobQueue)
+    );
+    const sequenceService = {
+      processEmailQueue: async () => queue,
+      getEmailQueueItem: async (enrollmentId: string) => queue.find((q) => q.enrollment_id === enrollmentId) || null,
+      mergeTemplateFields: (template: string) => template,
+      advance: vi.fn(async () => undefined),
+      pause: vi.fn(async () => undefined),
+    };
+    const compliance = {
+      check: async (text: string) => ({ passed: !text.includes('guaranteed'), findings: [] }),
+      record: vi.fn(async () => undefined),
+    };
+    const notifications = { notify: vi.fn(async () => null) };
+    Object.assign(dispatcher, {
+      sequenceService,
+      contactService: {
+        getById: async (id: string) => ({ id, email: id === 'contact_fail' ? 'fail@example.com' : 'pat@example.com' }),
+      },
+      interactionService: { logEmailSent: vi.fn(async () => undefined) },
+      archive: { archiveSafely: vi.fn(async () => undefined) },
+      compliance,
+      notifications,
+    });
+    return { dispatcher, gmail, jobQueue, sequenceService, compliance, notifications };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-03T18:00:00Z')); // Noon in Chicago, outside quiet hours
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should skip claimed steps and leave failed sends to the retry job', async () => {
+    const steps = new Map([['enr_busy', { status: 'sending', claimed_until: '2026-03-03T18:20:00Z' }]]);
+    const queue = [item('enr_busy'), { ...item('enr_fail'), contact_id: 'contact_fail' }, item('enr_ok')];
+    const { dispatcher, gmail, jobQueue, sequenceService } = await createDispatcher(steps, queue);
+
+    const first = await dispatcher.dispatch();
+    expect(first).toMatchObject({ sent: 1, failed: 1, retriesQueued: 1, claimed: 1 });
+    expect(steps.get('enr_fail')?.status).toBe('failed');
+    expect(steps.get('enr_ok')?.status).toBe('sent');
+    expect(sequenceService.advance).toHaveBeenCalledWith('enr_ok', 1);
+
+    // The enrollments are still due; neither is sent again nor retried twice
+    const second = await dispatcher.dispatch();
+    expect(second).toMatchObject({ sent: 0, failed: 0, retriesQueued: 0, claimed: 2 });
+    expect(gmail.sendEmail).toHaveBeenCalledTimes(2);
+    expect(jobQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(sequenceService.advance).toHaveBeenLastCalledWith('enr_ok', 1);
+  });
+
+  it('should pause an enrollment whose email fails compliance instead of sending it', async () => {
+    const steps = new Map<string, { status: string; claimed_until?: string | null }>();
+    const { dispatcher, gmail, jobQueue, sequenceService, compliance } = await createDispatcher(steps, [
+      { ...item('enr_1'), body: 'Returns guaranteed' },
+    ]);
+
+    const result = await dispatcher.dispatch();
+    expect(result).toMatchObject({ sent: 0, failed: 0, blocked: 1 });
+    expect(gmail.sendEmail).not.toHaveBeenCalled();
+    expect(jobQueue.enqueue).not.toHaveBeenCalled();
+    expect(compliance.record).toHaveBeenCalledTimes(1);
+    expect(sequenceService.pause).toHaveBeenCalledWith('enr_1');
+    expect(steps.has('enr_1')).toBe(false);
+  });
+
+  it('should take over a stale claim', async () => {
+    const steps = new Map([['enr_1', { status: 'sending', claimed_until: '2026-03-03T17:00:00Z' }]]);
+    const { dispatcher, gmail } = await createDispatcher(steps, [item('enr_1')]);
+
+    const result = await dispatcher.dispatch();
+    expect(result).toMatchObject({ sent: 1, claimed: 0 });
+    expect(gmail.sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only send a retry that no dispatcher holds', async () => {
+    const steps = new Map([['enr_1', { status: 'sending', claimed_until: '2026-03-03T18:20:00Z' }]]);
+    const { dispatcher, gmail } = await createDispatcher(steps, [item('enr_1')]);
+
+    expect(await dispatcher.retrySend({ enrollment_id: 'enr_1', step_order: 1 })).toEqual({ sent: false, reason: 'claimed' });
+    expect(gmail.sendEmail).not.toHaveBeenCalled();
+
+    steps.set('enr_1', { status: 'failed', claimed_until: null });
+    expect(await dispatcher.retrySend({ enrollment_id: 'enr_1', step_order: 1 })).toEqual({ sent: true });
+    expect(steps.get('enr_1')?.status).toBe('sent');
+
+    expect(await dispatcher.retrySend({ enrollment_id: 'enr_1', step_order: 1 })).toEqual({ sent: false, reason: 'no_longer_due' });
+    expect(gmail.sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the step and pause the enrollment once its retries run out', async () => {
+    const steps = new Map<string, { status: string; claimed_until?: string | null }>();
+    const { dispatcher, gmail, sequenceService, notifications } = await createDispatcher(steps, [
+      { ...item('enr_1'), contact_id: 'contact_fail' },
+    ]);
+
+    expect(await dispatcher.dispatch()).toMatchObject({ failed: 1, retriesQueued: 1 });
+
+    // The job's first attempts leave the step failed for the next one
+    for (let attempt = 1; attempt < 3; attempt++) {
+      await expect(dispatcher.retrySend({ enrollment_id: 'enr_1', step_order: 1 })).rejects.toThrow('Gmail unavailable');
+      expect(steps.get('enr_1')?.status).toBe('failed');
+    }
+    expect(sequenceService.pause).not.toHaveBeenCalled();
+
+    await expect(
+      dispatcher.retrySend({ enrollment_id: 'enr_1', step_order: 1 }, { finalAttempt: true })
+    ).rejects.toThrow('Gmail unavailable');
+    expect(gmail.sendEmail).toHaveBeenCalledTimes(4);
+    expect(steps.has('enr_1')).toBe(false);
+    expect(sequenceService.pause).toHaveBeenCalledWith('enr_1');
+    expect(notifications.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'job', dedupKey: 'sequence_send:enr_1:1' })
+    );
+  });
+});
+
+describe('Lead Intake', () => {
+  const createIntake = async () => {
+    const { LeadIntakeService } = await import('../lead-intake-service');
+    const service = new LeadIntakeService(fakeSupabase().client);
+    const contactService = {
+      getOrCreate: vi.fn(async (email: string, fields: Record<string, unknown>) => ({
+        contact: { id: 'contact_1', email, assigned_to: 'advisor_1', tags: [], ...fields },
+        created: true,
+      })),
+    };
+    Object.assign(service, {
+      contactService,
+      interactionService: { logFormSubmission: async () => undefined },
+      attributionService: { recordTouches: async () => undefined },
+      sequenceService: { checkTriggers: async () => undefined },
+    });
+    return { service, contactService };
+  };
+
+  const lead = { email: 'pat@example.com', formType: 'landing_retirement' };
+  const touch = (fields: Record<string, string>) => ({ ...fields, timestamp: '2026-03-03T12:00:00Z' });
+
+  it('should take the contact source from the visit that brought the lead in', async () => {
+    const { service, contactService } = await createIntake();
+
+    await service.intake({ ...lead, attribution: { firstTouch: touch({ gclid: 'abc' }), lastTouch: touch({ fbclid: 'xyz' }) } });
+    await service.intake({ ...lead, attribution: { lastTouch: touch({ utm_source: 'facebook', utm_medium: 'paid_social' }) } });
+    await service.intake(lead);
+    await service.intake({ ...lead, source: 'meta_lead_ads', attribution: { firstTouch: touch({ gclid: 'abc' }) } });
+
+    expect(contactService.getOrCreate.mock.calls.map((call) => call[1]['source'])).toEqual([
+      'google_ads_search',
+      'meta_ads',
+      'landing_page',
+      'meta_lead_ads',
+    ]);
+  });
+
+  it('should queue a submission for the worker when intake cannot run', async () => {
+    const { service } = await createIntake();
+    const jobQueue = { enqueue: vi.fn(async () => ({ id: 'job_1' })) };
+    Object.assign(service, { jobQueue });
+
+    const submission = { ...lead, firstName: 'Pat', tags: ['retirement-planning-lead', 'meta-ads'] };
+    expect(await service.queueIntake(submission)).toBe(true);
+    expect(jobQueue.enqueue).toHaveBeenCalledWith('lead_intake', submission, expect.objectContaining({ maxAttempts: 5 }));
+
+    jobQueue.enqueue.mockRejectedValueOnce(new Error('Database unavailable'));
+    expect(await service.queueIntake(submission)).toBe(false);
+  });
+});
+
+describe('Attribution Reporting', () => {
+  it('should count a campaign\'s spend once, on its paid channel', async () => {
+    const { AttributionService } = await import('../attribution-service');
+    const tables: Record<string, unknown[]> = {
+      contacts: [
+        { id: 'c1', status: 'client', lead_score: 80 },
+        { id: 'c2', status: 'lead', lead_score: 40 },
+      ],
+      website_sessions: [
+        { contact_id: 'c1', created_at: '2026-03-01T00:00:00Z', channel: 'google_ads', campaign_id: 'camp_g' },
+        { contact_id: 'c2', created_at: '2026-03-02T00:00:00Z', channel: 'email', campaign_id: 'camp_g' },
+      ],
+      campaigns: [
+        { id: 'camp_g', name: 'Retirement Search', platform: 'google_ads' },
+        { id: 'camp_m', name: 'Retirement Social', platform: 'meta' },
+      ],
+      campaign_metrics: [
+        { campaign_id: 'camp_g', cost: '300' },
+        { campaign_id: 'camp_m', cost: 120 },
+      ],
+    };
+    const supabase = fakeSupabase((q) => ({ data: tables[q.table] }));
+
+    const rows = await new AttributionService(supabase.client).getPerformance();
+    const spendBy = Object.fromEntries(rows.map((r) => [`${r.source}:${r.campaign_id}`, r.spend]));
+
+    expect(spendBy).toEqual({ 'google_ads:camp_g': 300, 'email:camp_g': 0, 'meta_ads:camp_m': 120 });
+    expect(rows.reduce((sum, r) => sum + r.spend, 0)).toBe(420);
+    expect(rows.find((r) => r.source === 'google_ads')).toMatchObject({ cpa: 300, cost_per_client: 300 });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Attribution Service
+ *
+ * Links landing page visits to contacts and credits leads and clients to
+ * channels and campaigns:
+ * - Stores the first and last touch submitted with a lead as website_sessions
+ * - Resolves utm_campaign to a campaigns row (name, Google Ads or Meta ID)
+ * - Computes first-touch, last-touch and linear attribution
+ * - Reports CPA and cost per client from campaign_metrics spend
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  classifyTouchChannel,
+  attributeCredit,
+  type AttributionChannel,
+  type AttributionModel,
+  type TouchPoint,
+  type WebsiteSession,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+
+const logger = createLogger('attribution');
+
+export interface AttributionInput {
+  anonymousId?: string | null;
+  firstTouch?: TouchPoint | null;
+  lastTouch?: TouchPoint | null;
+  conversionType?: string; // e.g. landing_retirement
+}
+
+export interface AttributionReportOptions {
+  model?: AttributionModel;
+  startDate?: string; // YYYY-MM-DD, contacts created on or after
+  endDate?: string;   // YYYY-MM-DD, contacts created on or before
+}
+
+export interface AttributedPerformance {
+  source: string; // Channel, or 'unattributed' for contacts with no recorded touches
+  campaign_id: string | null;
+  campaign_name: string | null;
+  total_leads: number; // Fractional under the linear model
+  clients_won: number;
+  conversion_rate: number;
+  avg_lead_score: number;
+  spend: number;
+  cpa: number | null;
+  cost_per_client: number | null;
+}
+
+interface CampaignRef {
+  id: string;
+  name: string;
+  platform: string | null;
+  google_ads_campaign_id: string | null;
+  meta_campaign_id: string | null;
+}
+
+interface AttributedContact {
+  id: string;
+  status: string;
+  lead_score: number | null;
+}
+
+type SessionTouch = Pick<WebsiteSession, 'contact_id' | 'created_at' | 'channel' | 'campaign_id'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export class AttributionService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+  }
+
+  /**
+   * Store a lead's touches as sessions and link earlier anonymous sessions
+   * to the contact. Repeat submissions don't duplicate touches.
+   */
+  async recordTouches(contactId: string, input: AttributionInput): Promise<number> {
+    const touches = [input.firstTouch, input.lastTouch].filter((t): t is TouchPoint => !!t?.timestamp);
+    const unique = touches.filter((t, i) => touches.findIndex((o) => o.timestamp === t.timestamp) === i);
+
+    if (input.anonymousId) {
+      const { error: linkError } = await this.supabase
+        .from('website_sessions')
+        .update({ contact_id: contactId })
+        .eq('anonymous_id', input.anonymousId)
+        .is('contact_id', null);
+
+      if (linkError) {
+        throw new Error(`Failed to link website sessions: ${linkError.message}`);
+      }
+
+      await this.supabase
+        .from('contacts')
+        .update({ anonymous_id: input.anonymousId })
+        .eq('id', contactId)
+        .is('anonymous_id', null);
+    }
+
+    if (unique.length === 0) {
+      return 0;
+    }
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('website_sessions')
+      .select('created_at')
+      .eq('contact_id', contactId)
+      .in('created_at', unique.map((t) => new Date(t.timestamp).toISOString()));
+
+    if (existingError) {
+      throw new Error(`Failed to check existing touches: ${existingError.message}`);
+    }
+
+    const seen = new Set((existing || []).map((row: { created_at: string }) => new Date(row.created_at).getTime()));
+    const campaigns = await this.getCampaigns();
+    const lastTimestamp = unique[unique.length - 1]!.timestamp;
+
+    const rows = unique
+      .filter((touch) => !seen.has(new Date(touch.timestamp).getTime()))
+      .map((touch) => ({
+        created_at: new Date(touch.timestamp).toISOString(),
+        anonymous_id: input.anonymousId || `contact:${contactId}`,
+        contact_id: contactId,
+        landing_page: touch.landing_page || null,
+        source: touch.utm_source || null,
+        medium: touch.utm_medium || null,
+        campaign: touch.utm_campaign || null,
+        keyword: touch.utm_term || null,
+        content: touch.utm_content || null,
+        referrer: touch.referrer || null,
+        gclid: touch.gclid || null,
+        gbraid: touch.gbraid || null,
+        wbraid: touch.wbraid || null,
+        fbclid: touch.fbclid || null,
+        channel: classifyTouchChannel(touch),
+        campaign_id: this.resolveCampaign(touch, campaigns),
+        converted: touch.timestamp === lastTimestamp,
+        conversion_type: touch.timestamp === lastTimestamp ? input.conversionType || null : null,
+      }));
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const { error } = await this.supabase.from('website_sessions').insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to record touches: ${error.message}`);
+    }
+
+    logger.info('Recorded attribution touches', {
+      contactId,
+      channels: rows.map((r) => r.channel),
+    });
+    return rows.length;
+  }
+
+  /**
+   * A contact's touches, oldest first
+   */
+  async getContactTouches(contactId: string): Promise<WebsiteSession[]> {
+    const { data, error } = await this.supabase
+      .from('website_sessions')
+      .select('*')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get contact touches: ${error.message}`);
+    }
+
+    return (data || []) as WebsiteSession[];
+  }
+
+  /**
+   * Leads, clients, spend, CPA and cost per client by channel and campaign
+   */
+  async getPerformance(options: AttributionReportOptions = {}): Promise<AttributedPerformance[]> {
+    const model = options.model || 'last_touch';
+    const endDate = options.endDate || new Date().toISOString().split('T')[0]!;
+    const startDate = options.startDate || new Date(Date.now() - 90 * DAY_MS).toISOString().split('T')[0]!;
+
+    const { data: contacts, error: contactsError } = await this.supabase
+      .from('contacts')
+      .select('id, status, lead_score')
+      .is('deleted_at', null)
+      .gte('created_at', `${startDate}T00:00:00Z`)
+      .lte('created_at', `${endDate}T23:59:59Z`);
+
+    if (contactsError) {
+      throw new Error(`Failed to get contacts for attribution: ${contactsError.message}`);
+    }
+
+    const contactList = (contacts || []) as AttributedContact[];
+    const touchesByContact = await this.getTouchesByContact(contactList.map((c) => c.id));
+    const campaigns = await this.getCampaigns();
+    const spendByCampaign = await this.getSpend(startDate, endDate);
+
+    // A campaign's spend is reported once, on its platform's paid channel; other
+    // channels that carry the campaign's utm tag get its leads but not its cost
+    const paidChannelFor = (campaignId: string) =>
+      campaigns.find((c) => c.id === campaignId)?.platform === 'meta' ? 'meta_ads' : 'google_ads';
+
+    const rows = new Map<string, AttributedPerformance & { score_total: number }>();
+    const rowFor = (source: string, campaignId: string | null) => {
+      const key = `${source}:${campaignId || ''}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          source,
+          campaign_id: campaignId,
+          campaign_name: campaigns.find((c) => c.id === campaignId)?.name || null,
+          total_leads: 0,
+          clients_won: 0,
+          conversion_rate: 0,
+          avg_lead_score: 0,
+          spend: campaignId && source === paidChannelFor(campaignId) ? spendByCampaign.get(campaignId) || 0 : 0,
+          cpa: null,
+          cost_per_client: null,
+          score_total: 0,
+        };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    for (const contact of contactList) {
+      const touches = touchesByContact.get(contact.id) || [];
+      const isClient = contact.status === 'client';
+
+      if (touches.length === 0) {
+        const row = rowFor('unattributed', null);
+        row.total_leads += 1;
+        row.clients_won += isClient ? 1 : 0;
+        row.score_total += contact.lead_score || 0;
+        continue;
+      }
+
+      const credit = attributeCredit(touches.map((t) => (t.channel || 'direct') as AttributionChannel), model);
+      touches.forEach((touch, i) => {
+        const weight = credit[i] || 0;
+        if (weight === 0) return;
+        const row = rowFor(touch.channel || 'direct', touch.campaign_id);
+        row.total_leads += weight;
+        row.clients_won += isClient ? weight : 0;
+        row.score_total += (contact.lead_score || 0) * weight;
+      });
+    }
+
+    // Campaigns that spent money without producing a paid lead still belong in the report
+    for (const [campaignId, spend] of spendByCampaign) {
+      if (spend > 0) rowFor(paidChannelFor(campaignId), campaignId);
+    }
+
+    return [...rows.values()]
+      .map(({ score_total, ...row }) => ({
+        ...row,
+        total_leads: round(row.total_leads),
+        clients_won: round(row.clients_won),
+        conversion_rate: row.total_leads > 0 ? round((100 * row.clients_won) / row.total_leads) : 0,
+        avg_lead_score: row.total_leads > 0 ? round(score_total / row.total_leads, 1) : 0,
+        spend: round(row.spend),
+        cpa: row.total_leads > 0 && row.spend > 0 ? round(row.spend / row.total_leads) : null,
+        cost_per_client: row.clients_won > 0 && row.spend > 0 ? round(row.spend / row.clients_won) : null,
+      }))
+      .sort((a, b) => b.total_leads - a.total_leads || b.spend - a.spend);
+  }
+
+  /**
+   * Match a touch's utm_campaign to a campaign by platform ID or name
+   */
+  private resolveCampaign(touch: TouchPoint, campaigns: CampaignRef[]): string | null {
+    const value = touch.utm_campaign?.trim().toLowerCase();
+    if (!value) return null;
+
+    const match = campaigns.find(
+      (c) =>
+        c.google_ads_campaign_id === value ||
+        c.meta_campaign_id === value ||
+        c.name.trim().toLowerCase() === value
+    );
+    return match?.id || null;
+  }
+
+  private async getCampaigns(): Promise<CampaignRef[]> {
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .select('id, name, platform, google_ads_campaign_id, meta_campaign_id');
+
+    if (error) {
+      throw new Error(`Failed to get campaigns: ${error.message}`);
+    }
+
+    return (data || []) as CampaignRef[];
+  }
+
+  private async getTouchesByContact(contactIds: string[]): Promise<Map<string, SessionTouch[]>> {
+    const byContact = new Map<string, SessionTouch[]>();
+
+    // Chunked to keep the IN list within URL limits
+    for (let i = 0; i < contactIds.length; i += 200) {
+      const { data, error } = await this.supabase
+        .from('website_sessions')
+        .select('contact_id, created_at, channel, campaign_id')
+        .in('contact_id', contactIds.slice(i, i + 200))
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get touches: ${error.message}`);
+      }
+
+      for (const touch of (data || []) as SessionTouch[]) {
+        const list = byContact.get(touch.contact_id!) || [];
+        list.push(touch);
+        byContact.set(touch.contact_id!, list);
+      }
+    }
+
+    return byContact;
+  }
+
+  private async getSpend(startDate: string, endDate: string): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('campaign_metrics')
+      .select('campaign_id, cost')
+      .gte('date', startDate)
+      .lte('date', endDate);
+
+    if (error) {
+      throw new Error(`Failed to get campaign spend: ${error.message}`);
+    }
+
+    const spend = new Map<string, number>();
+    for (const row of (data || []) as { campaign_id: string; cost: number | string | null }[]) {
+      spend.set(row.campaign_id, (spend.get(row.campaign_id) || 0) + Number(row.cost || 0));
+    }
+    return spend;
+  }
+}
+
+// Singleton
+let attributionInstance: AttributionService | null = null;
+
+export function getAttributionService(): AttributionService {
+  if (!attributionInstance) {
+    attributionInstance = new AttributionService();
+  }
+  return attributionInstance;
+}
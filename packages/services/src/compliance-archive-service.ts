@@ -0,0 +1,337 @@
+/**
+ * Compliance Archive Service
+ *
+ * Append-only record of every marketing piece at the moment it is released
+ * (WordPress publish, RSA export, Meta creative, Gmail send). Each snapshot
+ * stores the final content, its SHA-256 hash, the approver from
+ * approval_queue and the compliance check result, for regulator requests.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  isValidUuid,
+  type ComplianceContentType,
+  type ComplianceResult,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { ComplianceService, hashComplianceText, type ComplianceArtifactType } from './compliance-service';
+
+const logger = createLogger('compliance-archive');
+
+export type ArchiveChannel = 'wordpress' | 'google_ads' | 'meta_ads' | 'gmail';
+
+// Content type used when no stored check exists and one has to be run at release
+const CHANNEL_CONTENT_TYPES: Record<ArchiveChannel, ComplianceContentType> = {
+  wordpress: 'blog_post',
+  google_ads: 'rsa',
+  meta_ads: 'meta_ad',
+  gmail: 'outreach_email',
+};
+
+export interface ArchiveInput {
+  channel: ArchiveChannel;
+  artifactType: ComplianceArtifactType | 'email';
+  artifactId?: string | null;
+  title?: string | null;
+  content: Record<string, unknown>; // Exactly what was released
+  contentText: string; // Flattened text used for search and compliance checks
+  contentType?: ComplianceContentType;
+  complianceCheck?: ComplianceResult | null;
+  approvalId?: string | null;
+  publishedAt?: string;
+  publishedBy?: string | null;
+  externalId?: string | null;
+  externalUrl?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ComplianceArchiveRecord {
+  id: string;
+  archived_at: string;
+  channel: ArchiveChannel;
+  artifact_type: string;
+  artifact_id: string | null;
+  title: string | null;
+  content: Record<string, unknown>;
+  content_text: string;
+  content_hash: string;
+  approval_id: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  compliance_check: ComplianceResult | null;
+  compliance_passed: boolean | null;
+  rules_version: string | null;
+  published_at: string;
+  published_by: string | null;
+  external_id: string | null;
+  external_url: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface ArchiveSearchParams {
+  query?: string;
+  channel?: ArchiveChannel;
+  from?: string;
+  to?: string;
+  compliancePassed?: boolean;
+  ids?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArchiveSearchResult {
+  records: ComplianceArchiveRecord[];
+  total: number;
+}
+
+/**
+ * JSON with sorted keys, so the same content always hashes the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * SHA-256 of the canonical JSON snapshot
+ */
+export function hashArchiveContent(content: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+export class ComplianceArchiveService {
+  private supabase: SupabaseClient;
+  private compliance: ComplianceService;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.compliance = new ComplianceService(this.supabase);
+  }
+
+  /**
+   * Snapshot a released piece. Call right after the channel accepts it.
+   */
+  async archive(input: ArchiveInput): Promise<ComplianceArchiveRecord> {
+    const artifactId = input.artifactId || null;
+    const approval = await this.findApproval(artifactId, input.approvalId || null);
+    const complianceCheck =
+      input.complianceCheck ??
+      (await this.findLatestCheck(input.artifactType, artifactId, input.contentText)) ??
+      (await this.compliance.check(input.contentText, input.contentType || CHANNEL_CONTENT_TYPES[input.channel]));
+
+    const { data, error } = await this.supabase
+      .from('compliance_archive')
+      .insert({
+        channel: input.channel,
+        artifact_type: input.artifactType,
+        artifact_id: artifactId,
+        title: input.title || null,
+        content: input.content,
+        content_text: input.contentText,
+        content_hash: hashArchiveContent(input.content),
+        approval_id: approval?.id || null,
+        approved_by: approval?.reviewed_by || null,
+        approved_at: approval?.reviewed_at || null,
+        compliance_check: complianceCheck,
+        compliance_passed: complianceCheck.passed,
+        rules_version: complianceCheck.rulesVersion,
+        published_at: input.publishedAt || new Date().toISOString(),
+        published_by: input.publishedBy || null,
+        external_id: input.externalId || null,
+        external_url: input.externalUrl || null,
+        metadata: input.metadata || {},
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to archive ${input.channel} release: ${error.message}`);
+    }
+
+    logger.info('Archived release', {
+      id: data.id,
+      channel: input.channel,
+      artifactId,
+      approved: !!approval,
+      compliancePassed: complianceCheck.passed,
+    });
+
+    return data as ComplianceArchiveRecord;
+  }
+
+  /**
+   * Archive without throwing; used where the release has already happened
+   * and a failed snapshot must not be reported as a failed publish.
+   */
+  async archiveSafely(input: ArchiveInput): Promise<ComplianceArchiveRecord | null> {
+    try {
+      return await this.archive(input);
+    } catch (error) {
+      logger.error('Compliance archive write failed', {
+        channel: input.channel,
+        artifactId: input.artifactId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Search the archive (full text over title and content)
+   */
+  async search(params: ArchiveSearchParams = {}): Promise<ArchiveSearchResult> {
+    const { limit = 50, offset = 0 } = params;
+
+    let query = this.supabase
+      .from('compliance_archive')
+      .select('*', { count: 'exact' })
+      .order('published_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (params.query) {
+      query = query.textSearch('search_vector', params.query, { type: 'websearch', config: 'english' });
+    }
+    if (params.channel) {
+      query = query.eq('channel', params.channel);
+    }
+    if (params.from) {
+      query = query.gte('published_at', params.from);
+    }
+    if (params.to) {
+      query = query.lte('published_at', params.to);
+    }
+    if (params.compliancePassed !== undefined) {
+      query = query.eq('compliance_passed', params.compliancePassed);
+    }
+    if (params.ids && params.ids.length > 0) {
+      query = query.in('id', params.ids);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to search compliance archive: ${error.message}`);
+    }
+
+    return {
+      records: (data || []) as ComplianceArchiveRecord[],
+      total: count || 0,
+    };
+  }
+
+  /**
+   * Get a single archived record
+   */
+  async getById(id: string): Promise<ComplianceArchiveRecord | null> {
+    const { data, error } = await this.supabase
+      .from('compliance_archive')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get archive record: ${error.message}`);
+    }
+
+    return data as ComplianceArchiveRecord | null;
+  }
+
+  /**
+   * Check a record's content still matches the hash taken at release
+   */
+  verify(record: ComplianceArchiveRecord): boolean {
+    return hashArchiveContent(record.content) === record.content_hash;
+  }
+
+  /**
+   * Latest approved approval_queue item for the artifact
+   */
+  private async findApproval(
+    artifactId: string | null,
+    approvalId: string | null
+  ): Promise<{ id: string; reviewed_by: string | null; reviewed_at: string | null } | null> {
+    let query = this.supabase
+      .from('approval_queue')
+      .select('id, reviewed_by, reviewed_at')
+      .eq('status', 'approved')
+      .order('reviewed_at', { ascending: false })
+      .limit(1);
+
+    if (approvalId) {
+      query = query.eq('id', approvalId);
+    } else if (artifactId && isValidUuid(artifactId)) {
+      query = query.or(
+        `content_id.eq.${artifactId},content->>contentId.eq.${artifactId},content->>assetId.eq.${artifactId}`
+      );
+    } else {
+      return null;
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.warn('Failed to look up approval', { artifactId, error: error.message });
+      return null;
+    }
+
+    return data?.[0] || null;
+  }
+
+  /**
+   * Most recent stored compliance check of exactly this text; a check of an
+   * earlier revision does not count, so the caller re-runs the check
+   */
+  private async findLatestCheck(
+    artifactType: string,
+    artifactId: string | null,
+    contentText: string
+  ): Promise<ComplianceResult | null> {
+    if (!artifactId) return null;
+
+    const { data, error } = await this.supabase
+      .from('compliance_checks')
+      .select('*')
+      .eq('artifact_type', artifactType)
+      .eq('artifact_id', artifactId)
+      .eq('content_hash', hashComplianceText(contentText))
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error || !data?.[0]) {
+      return null;
+    }
+
+    const row = data[0];
+    return {
+      passed: row.passed,
+      rulesVersion: row.rules_version,
+      contentType: row.content_type,
+      highestSeverity: row.highest_severity,
+      findings: row.findings || [],
+      missingDisclosures: row.missing_disclosures || [],
+      suggestedFix: row.suggested_fix,
+      checkedAt: row.created_at,
+      contentHash: row.content_hash,
+    };
+  }
+}
+
+// Singleton
+let archiveInstance: ComplianceArchiveService | null = null;
+
+export function getComplianceArchiveService(): ComplianceArchiveService {
+  if (!archiveInstance) {
+    archiveInstance = new ComplianceArchiveService();
+  }
+  return archiveInstance;
+}
@@ -0,0 +1,316 @@
+/**
+ * Compliance Service
+ *
+ * Runs the shared compliance engine against the active rule set and
+ * records every check in compliance_checks for audit.
+ *
+ * Rule sets are versioned in compliance_rule_sets; when none is active
+ * the default complianceRulesConfig from @arcvest/shared is used.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  complianceRulesConfig,
+  evaluateCompliance,
+  type ComplianceContentType,
+  type ComplianceResult,
+  type ComplianceRule,
+  type ComplianceRuleSet,
+  type RequiredDisclosure,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+
+const logger = createLogger('compliance-service');
+
+const RULE_SET_CACHE_MS = 5 * 60 * 1000;
+
+export type ComplianceArtifactType =
+  | 'content_calendar'
+  | 'creative_assets'
+  | 'lead_finder_emails'
+  | 'meta_ad_creative'
+  | 'email_sequence_steps';
+
+export interface ComplianceCheckRecord {
+  id: string;
+  artifact_type: ComplianceArtifactType;
+  artifact_id: string | null;
+  content_type: ComplianceContentType;
+  rules_version: string;
+  passed: boolean;
+  highest_severity: string | null;
+  findings: ComplianceResult['findings'];
+  missing_disclosures: ComplianceResult['missingDisclosures'];
+  suggested_fix: string | null;
+  content_hash: string | null;
+  created_at: string;
+}
+
+/**
+ * SHA-256 of checked text, ignoring whitespace differences
+ */
+export function hashComplianceText(text: string): string {
+  return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+/**
+ * Throw if any rule pattern is not a valid RegExp; a bad pattern would
+ * otherwise be skipped silently at check time
+ */
+export function validateRuleSet(ruleSet: ComplianceRuleSet): void {
+  for (const rule of ruleSet.rules) {
+    try {
+      new RegExp(rule.pattern, rule.flags ?? 'i');
+    } catch (err) {
+      throw new Error(`Invalid pattern for rule ${rule.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  for (const disclosure of ruleSet.disclosures) {
+    try {
+      new RegExp(disclosure.pattern, 'i');
+    } catch (err) {
+      throw new Error(`Invalid pattern for disclosure ${disclosure.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+export class ComplianceService {
+  private supabase: SupabaseClient;
+  private cachedRuleSet: ComplianceRuleSet | null = null;
+  private cachedAt = 0;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+  }
+
+  /**
+   * Get the active rule set, falling back to the built-in default
+   */
+  async getActiveRuleSet(): Promise<ComplianceRuleSet> {
+    if (this.cachedRuleSet && Date.now() - this.cachedAt < RULE_SET_CACHE_MS) {
+      return this.cachedRuleSet;
+    }
+
+    const { data, error } = await this.supabase
+      .from('compliance_rule_sets')
+      .select('version, rules, disclosures')
+      .eq('is_active', true)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      // Never skip checks because the table is unreachable
+      logger.warn('Failed to load active rule set, using default', { error: error.message });
+      return complianceRulesConfig;
+    }
+
+    this.cachedRuleSet = data
+      ? {
+          version: data.version,
+          rules: data.rules as ComplianceRule[],
+          disclosures: data.disclosures as RequiredDisclosure[],
+        }
+      : complianceRulesConfig;
+    this.cachedAt = Date.now();
+
+    return this.cachedRuleSet;
+  }
+
+  /**
+   * Check text against the active rule set
+   */
+  async check(text: string, contentType: ComplianceContentType): Promise<ComplianceResult> {
+    const ruleSet = await this.getActiveRuleSet();
+    return { ...evaluateCompliance(text, contentType, ruleSet), contentHash: hashComplianceText(text) };
+  }
+
+  /**
+   * Store a check result against the artifact it was run on.
+   * Logged rather than thrown so a failed audit write doesn't drop the artifact.
+   */
+  async record(
+    artifactType: ComplianceArtifactType,
+    artifactId: string | null,
+    result: ComplianceResult
+  ): Promise<void> {
+    const { error } = await this.supabase.from('compliance_checks').insert({
+      artifact_type: artifactType,
+      artifact_id: artifactId,
+      content_type: result.contentType,
+      rules_version: result.rulesVersion,
+      passed: result.passed,
+      highest_severity: result.highestSeverity,
+      findings: result.findings,
+      missing_disclosures: result.missingDisclosures,
+      suggested_fix: result.suggestedFix,
+      content_hash: result.contentHash || null,
+      created_at: result.checkedAt,
+    });
+
+    if (error) {
+      logger.error('Failed to record compliance check', {
+        artifactType,
+        artifactId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Check text and record the result in one step
+   */
+  async checkAndRecord(
+    text: string,
+    contentType: ComplianceContentType,
+    artifactType: ComplianceArtifactType,
+    artifactId: string | null
+  ): Promise<ComplianceResult> {
+    const result = await this.check(text, contentType);
+    await this.record(artifactType, artifactId, result);
+    return result;
+  }
+
+  /**
+   * Get the check history for an artifact, newest first
+   */
+  async getChecks(artifactType: ComplianceArtifactType, artifactId: string): Promise<ComplianceCheckRecord[]> {
+    const { data, error } = await this.supabase
+      .from('compliance_checks')
+      .select('*')
+      .eq('artifact_type', artifactType)
+      .eq('artifact_id', artifactId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get compliance checks: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceCheckRecord[];
+  }
+
+  /**
+   * Publish a new rule set version and make it the active one
+   */
+  async publishRuleSet(ruleSet: ComplianceRuleSet, options: { notes?: string; createdBy?: string } = {}): Promise<void> {
+    validateRuleSet(ruleSet);
+
+    const { error: deactivateError } = await this.supabase
+      .from('compliance_rule_sets')
+      .update({ is_active: false })
+      .eq('is_active', true);
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate rule set: ${deactivateError.message}`);
+    }
+
+    const { error } = await this.supabase.from('compliance_rule_sets').insert({
+      version: ruleSet.version,
+      rules: ruleSet.rules,
+      disclosures: ruleSet.disclosures,
+      is_active: true,
+      notes: options.notes || null,
+      created_by: options.createdBy || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to publish rule set: ${error.message}`);
+    }
+
+    this.cachedRuleSet = ruleSet;
+    this.cachedAt = Date.now();
+    logger.info('Published compliance rule set', { version: ruleSet.version, rules: ruleSet.rules.length });
+  }
+
+  /**
+   * Version of the active rule set, read from the table rather than the
+   * cache so it reflects activations made by other instances
+   */
+  async getActiveRuleSetVersion(): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('compliance_rule_sets')
+      .select('version')
+      .eq('is_active', true)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get active rule set: ${error.message}`);
+    }
+
+    return data ? data.version : complianceRulesConfig.version;
+  }
+
+  /**
+   * Store a rule set version without activating it (for review)
+   */
+  async saveDraftRuleSet(ruleSet: ComplianceRuleSet, options: { notes?: string; createdBy?: string } = {}): Promise<void> {
+    validateRuleSet(ruleSet);
+
+    const { error } = await this.supabase.from('compliance_rule_sets').insert({
+      version: ruleSet.version,
+      rules: ruleSet.rules,
+      disclosures: ruleSet.disclosures,
+      is_active: false,
+      notes: options.notes || null,
+      created_by: options.createdBy || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to save draft rule set: ${error.message}`);
+    }
+
+    logger.info('Saved draft compliance rule set', { version: ruleSet.version });
+  }
+
+  /**
+   * Make a stored rule set version the active one
+   */
+  async activateRuleSet(version: string): Promise<void> {
+    const { data, error: fetchError } = await this.supabase
+      .from('compliance_rule_sets')
+      .select('version, rules, disclosures')
+      .eq('version', version)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to get rule set ${version}: ${fetchError.message}`);
+    }
+
+    const { error: deactivateError } = await this.supabase
+      .from('compliance_rule_sets')
+      .update({ is_active: false })
+      .eq('is_active', true);
+
+    if (deactivateError) {
+      throw new Error(`Failed to deactivate rule set: ${deactivateError.message}`);
+    }
+
+    const { error } = await this.supabase
+      .from('compliance_rule_sets')
+      .update({ is_active: true })
+      .eq('version', version);
+
+    if (error) {
+      throw new Error(`Failed to activate rule set ${version}: ${error.message}`);
+    }
+
+    this.cachedRuleSet = {
+      version: data.version,
+      rules: data.rules as ComplianceRule[],
+      disclosures: data.disclosures as RequiredDisclosure[],
+    };
+    this.cachedAt = Date.now();
+    logger.info('Activated compliance rule set', { version });
+  }
+}
+
+// Singleton
+let complianceInstance: ComplianceService | null = null;
+
+export function getComplianceService(): ComplianceService {
+  if (!complianceInstance) {
+    complianceInstance = new ComplianceService();
+  }
+  return complianceInstance;
+}
@@ -1,7 +1,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Contact, ContactInsert, ContactUpdate } from '@arcvest/shared';
+import { createLogger, isOfflineConversionStage } from '@arcvest/shared';
 import { getSupabase } from './supabase';
 import { EventBus } from './event-bus';
+import {
+  AttributionService,
+  type AttributionReportOptions,
+  type AttributedPerformance,
+} from './attribution-service';
+import { OfflineConversionService } from './offline-conversion-service';
+
+const logger = createLogger('contact-service');
 
 export interface ContactSearchParams {
   query?: string;
@@ -20,6 +29,27 @@ export interface ContactSearchResult {
   total: number;
 }
 
+/**
+ * Common ways a US phone number is written, so a lookup matches however
+ * the form that collected it formatted the number.
+ */
+function phoneVariants(phone: string): string[] {
+  const digits = phone.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  const variants = new Set([phone.trim(), digits, national]);
+
+  if (national.length === 10) {
+    const [area, prefix, line] = [national.slice(0, 3), national.slice(3, 6), national.slice(6)];
+    variants.add(`+1${national}`);
+    variants.add(`1${national}`);
+    variants.add(`${area}-${prefix}-${line}`);
+    variants.add(`(${area}) ${prefix}-${line}`);
+    variants.add(`${area}.${prefix}.${line}`);
+  }
+
+  return [...variants].filter(Boolean);
+}
+
 export class ContactService {
   private supabase: SupabaseClient;
 
@@ -83,6 +113,31 @@ export class ContactService {
     return data;
   }
 
+  /**
+   * Get a contact by phone number, in any of the usual formats.
+   * Returns the oldest match when several contacts share the number.
+   */
+  async getByPhone(phone: string): Promise<Contact | null> {
+    const variants = phoneVariants(phone);
+    if (variants.length === 0) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from('contacts')
+      .select()
+      .in('phone', variants)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to get contact by phone: ${error.message}`);
+    }
+
+    return data?.[0] || null;
+  }
+
   /**
    * Get or create a contact by email.
    * Returns existing contact if found, otherwise creates a new one.
@@ -137,6 +192,18 @@ export class ContactService {
       });
     }
 
+    // Report consultations and new clients to the ad platforms
+    if (data.status && data.status !== current.status && isOfflineConversionStage(data.status)) {
+      try {
+        await new OfflineConversionService(this.supabase).queueForStatusChange(id, data.status);
+      } catch (conversionError) {
+        logger.error('Failed to queue offline conversions', {
+          contactId: id,
+          error: conversionError instanceof Error ? conversionError.message : String(conversionError),
+        });
+      }
+    }
+
     if (data.lead_score !== undefined && data.lead_score !== current.lead_score) {
       EventBus.emit('contact:score_changed', {
         contact,
@@ -339,17 +406,10 @@ export class ContactService {
   }
 
   /**
-   * Get source performance summary.
+   * Get source performance by channel and campaign, with CPA and cost per
+   * client from campaign spend. Defaults to last-touch over the last 90 days.
    */
-  async getSourcePerformance(): Promise<{ source: string; total_leads: number; clients_won: number; conversion_rate: number; avg_lead_score: number }[]> {
-    const { data, error } = await this.supabase
-      .from('source_performance')
-      .select('*');
-
-    if (error) {
-      throw new Error(`Failed to get source performance: ${error.message}`);
-    }
-
-    return data || [];
+  async getSourcePerformance(options?: AttributionReportOptions): Promise<AttributedPerformance[]> {
+    return new AttributionService(this.supabase).getPerformance(options);
   }
 }
@@ -0,0 +1,451 @@
+/**
+ * Content Sync Service
+ *
+ * Keeps content_calendar and WordPress in step (see contentSyncConfig):
+ * - Pulls posts modified in WordPress since the last pull (modified_after)
+ *   and copies their content back when only WordPress changed. When the
+ *   calendar entry changed too, the entry is flagged as a conflict and the
+ *   WordPress version is kept in metadata until someone resolves it.
+ * - Fills views, engagements and leads_attributed for published entries by
+ *   joining GA4 page metrics and converting website sessions on the page
+ *   path of published_url.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  contentSyncConfig,
+  type ContentCalendarEntry,
+  type ContentSyncConfig,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { WordPressService, getWordPressService, type WordPressPostResponse } from './wordpress-service';
+import { GoogleAnalyticsService, getGoogleAnalyticsService } from './google-analytics-service';
+import { buildPostPayload, hashPostPayload } from './publish-scheduler-service';
+
+const logger = createLogger('content-sync');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WordPressPullDecision = 'unchanged' | 'baseline' | 'pull' | 'conflict';
+
+export interface WordPressPullState {
+  remoteModifiedAt: string;
+  remoteHash: string;
+  localHash: string;
+  lastModifiedAt: string | null; // wordpress_modified_at
+  lastHash: string | null; // wordpress_content_hash
+}
+
+export interface WordPressConflict {
+  modified_at: string;
+  title: string;
+  content: string;
+  detected_at: string;
+}
+
+export interface WordPressPullResult {
+  checked: number;
+  pulled: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export interface PerformanceSyncResult {
+  entries: number;
+  updated: number;
+  pagesFetched: number;
+}
+
+// ===========================================
+// Decisions (pure)
+// ===========================================
+
+/**
+ * Hash of post content, ignoring line endings and surrounding whitespace
+ */
+export function hashContentBody(content: string | null | undefined): string {
+  return createHash('sha256')
+    .update((content || '').replace(/\r\n/g, '\n').trim())
+    .digest('hex');
+}
+
+/**
+ * Decide what to do with a post WordPress reports as modified:
+ * - same content on both sides: record it as the new baseline
+ * - only WordPress changed since the last pull: pull it
+ * - both changed: conflict
+ * An entry never pulled before has no local edits to protect.
+ */
+export function decideWordPressPull(state: WordPressPullState): WordPressPullDecision {
+  if (state.remoteHash === state.localHash) {
+    return state.lastHash === state.localHash && state.lastModifiedAt === state.remoteModifiedAt
+      ? 'unchanged'
+      : 'baseline';
+  }
+
+  const remoteChanged = !state.lastModifiedAt
+    || new Date(state.remoteModifiedAt).getTime() > new Date(state.lastModifiedAt).getTime();
+  if (!remoteChanged) {
+    return 'unchanged';
+  }
+
+  const localChanged = !!state.lastHash && state.localHash !== state.lastHash;
+  return localChanged ? 'conflict' : 'pull';
+}
+
+/**
+ * Lowercased path without a trailing slash, for joining URLs to GA4 page paths
+ */
+export function normalizePagePath(url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  try {
+    const path = new URL(url, 'https://placeholder.local').pathname.toLowerCase();
+    return path.length > 1 ? path.replace(/\/+$/, '') : path;
+  } catch {
+    return null;
+  }
+}
+
+function getRawField(field: { rendered: string; raw?: string } | undefined): string {
+  return field?.raw ?? field?.rendered ?? '';
+}
+
+function toGmtIso(gmt: string): string {
+  // The REST API returns *_gmt fields without a zone designator
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(gmt) ? gmt : `${gmt}Z`).toISOString();
+}
+
+// ===========================================
+// Service
+// ===========================================
+
+export class ContentSyncService {
+  private supabase: SupabaseClient;
+  private wordpress: WordPressService;
+  private analytics: GoogleAnalyticsService;
+  private config: ContentSyncConfig;
+
+  constructor(
+    supabase?: SupabaseClient,
+    wordpress?: WordPressService,
+    analytics?: GoogleAnalyticsService,
+    config: ContentSyncConfig = contentSyncConfig
+  ) {
+    this.supabase = supabase || getSupabase();
+    this.wordpress = wordpress || getWordPressService();
+    this.analytics = analytics || getGoogleAnalyticsService();
+    this.config = config;
+  }
+
+  /**
+   * Pull posts modified in WordPress since the last pull
+   */
+  async pullWordPressEdits(): Promise<WordPressPullResult> {
+    await this.wordpress.ensureConfigured();
+
+    const modifiedAfter = await this.getPullCursor();
+    const result: WordPressPullResult = { checked: 0, pulled: 0, conflicts: 0, errors: [] };
+
+    for (let page = 1; page <= this.config.wordpress.max_pages; page++) {
+      const posts = await this.wordpress.getPosts({
+        status: this.config.wordpress.statuses,
+        modified_after: modifiedAfter,
+        orderby: 'modified',
+        order: 'asc',
+        context: 'edit',
+        per_page: this.config.wordpress.per_page,
+        page,
+      });
+
+      if (posts.length === 0) break;
+
+      const { data: entries, error } = await this.supabase
+        .from('content_calendar')
+        .select('*')
+        .in('wordpress_post_id', posts.map((p) => p.id));
+
+      if (error) {
+        throw new Error(`Failed to fetch content for posts: ${error.message}`);
+      }
+
+      const byPostId = new Map(((entries || []) as ContentCalendarEntry[]).map((e) => [e.wordpress_post_id, e]));
+
+      for (const post of posts) {
+        const entry = byPostId.get(post.id);
+        if (!entry) continue;
+
+        result.checked++;
+        try {
+          const decision = await this.applyPost(entry, post);
+          if (decision === 'pull') result.pulled++;
+          if (decision === 'conflict') result.conflicts++;
+        } catch (applyError) {
+          const message = applyError instanceof Error ? applyError.message : String(applyError);
+          result.errors.push(`${entry.id}: ${message}`);
+          logger.error('Failed to apply WordPress edit', { entryId: entry.id, postId: post.id, error: message });
+        }
+      }
+
+      if (posts.length < this.config.wordpress.per_page) break;
+    }
+
+    logger.info('WordPress edits pulled', {
+      modifiedAfter,
+      checked: result.checked,
+      pulled: result.pulled,
+      conflicts: result.conflicts,
+    });
+
+    return result;
+  }
+
+  /**
+   * Settle a conflict by keeping one side; the other is overwritten
+   */
+  async resolveConflict(entryId: string, keep: 'local' | 'wordpress'): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('content_calendar')
+      .select('*')
+      .eq('id', entryId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get content: ${error.message}`);
+    }
+
+    const entry = data as ContentCalendarEntry;
+    const conflict = entry.metadata?.['wordpress_conflict'] as WordPressConflict | undefined;
+    if (!entry.wordpress_sync_conflict || !conflict || !entry.wordpress_post_id) {
+      throw new Error(`Content ${entryId} has no WordPress conflict`);
+    }
+
+    const { wordpress_conflict: _resolved, ...metadata } = entry.metadata;
+    let content = entry.final_content || entry.draft || '';
+    let modifiedAt = conflict.modified_at;
+    const updates: Record<string, unknown> = {};
+
+    if (keep === 'wordpress') {
+      content = conflict.content;
+      updates['final_content'] = conflict.content;
+      updates['title'] = conflict.title;
+    } else {
+      await this.wordpress.ensureConfigured();
+      const updated = await this.wordpress.updatePost(entry.wordpress_post_id, {
+        title: entry.title || 'Untitled',
+        content,
+      });
+
+      // WordPress's own time, so the pull cursor never runs ahead of its clock
+      modifiedAt = toGmtIso(updated.modified_gmt);
+    }
+
+    await this.updateEntry(entryId, {
+      ...updates,
+      metadata,
+      wordpress_sync_conflict: false,
+      wordpress_modified_at: modifiedAt,
+      wordpress_content_hash: hashContentBody(content),
+    });
+
+    logger.info('Resolved WordPress conflict', { entryId, keep });
+  }
+
+  /**
+   * Fill performance fields for published entries from GA4 and website sessions
+   */
+  async syncPerformance(): Promise<PerformanceSyncResult> {
+    const since = new Date(Date.now() - this.config.performance.lookback_days * DAY_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('content_calendar')
+      .select('id, published_url, published_at, views, engagements, leads_attributed')
+      .eq('status', 'published')
+      .not('published_url', 'is', null)
+      .gte('published_at', since);
+
+    if (error) {
+      throw new Error(`Failed to fetch published content: ${error.message}`);
+    }
+
+    const entries = (data || []) as Array<Pick<
+      ContentCalendarEntry,
+      'id' | 'published_url' | 'published_at' | 'views' | 'engagements' | 'leads_attributed'
+    >>;
+    const result: PerformanceSyncResult = { entries: entries.length, updated: 0, pagesFetched: 0 };
+    if (entries.length === 0) return result;
+
+    const startDate = entries
+      .map((e) => e.published_at!.slice(0, 10))
+      .reduce((min, date) => (date < min ? date : min));
+
+    const pages = await this.analytics.getTopPages(startDate, 'today', this.config.performance.page_limit);
+    result.pagesFetched = pages.length;
+
+    const metricsByPath = new Map<string, { views: number; engagements: number }>();
+    for (const page of pages) {
+      const path = normalizePagePath(page.pagePath);
+      if (!path) continue;
+      const current = metricsByPath.get(path) || { views: 0, engagements: 0 };
+      metricsByPath.set(path, {
+        views: current.views + page.pageviews,
+        engagements: current.engagements + page.engagedSessions,
+      });
+    }
+
+    const leadsByPath = await this.getLeadsByLandingPage(`${startDate}T00:00:00Z`);
+
+    for (const entry of entries) {
+      const path = normalizePagePath(entry.published_url);
+
+      // '/' is the home page (or a ?p= link); it can't be credited to one post
+      if (!path || path === '/') continue;
+
+      const metrics = metricsByPath.get(path) || { views: 0, engagements: 0 };
+      const leads = leadsByPath.get(path) || 0;
+
+      if (metrics.views === entry.views && metrics.engagements === entry.engagements && leads === entry.leads_attributed) {
+        continue;
+      }
+
+      await this.updateEntry(entry.id, {
+        views: metrics.views,
+        engagements: metrics.engagements,
+        leads_attributed: leads,
+      });
+      result.updated++;
+    }
+
+    logger.info('Content performance synced', {
+      entries: result.entries,
+      updated: result.updated,
+      pagesFetched: result.pagesFetched,
+    });
+
+    return result;
+  }
+
+  private async applyPost(entry: ContentCalendarEntry, post: WordPressPostResponse): Promise<WordPressPullDecision> {
+    const remoteContent = getRawField(post.content);
+    const remoteModifiedAt = toGmtIso(post.modified_gmt);
+    const localContent = entry.final_content || entry.draft || '';
+
+    const decision = decideWordPressPull({
+      remoteModifiedAt,
+      remoteHash: hashContentBody(remoteContent),
+      localHash: hashContentBody(localContent),
+      lastModifiedAt: entry.wordpress_modified_at,
+      lastHash: entry.wordpress_content_hash,
+    });
+
+    // Published posts get their permalink in place of the ?p= link used at publish time
+    const link = post.status === 'publish' && post.link !== entry.published_url ? { published_url: post.link } : {};
+
+    if (decision === 'unchanged') {
+      if (link.published_url) await this.updateEntry(entry.id, link);
+      return decision;
+    }
+
+    if (decision === 'conflict') {
+      const conflict: WordPressConflict = {
+        modified_at: remoteModifiedAt,
+        title: getRawField(post.title),
+        content: remoteContent,
+        detected_at: new Date().toISOString(),
+      };
+
+      await this.updateEntry(entry.id, {
+        ...link,
+        wordpress_sync_conflict: true,
+        metadata: { ...(entry.metadata || {}), wordpress_conflict: conflict },
+      });
+
+      logger.warn('WordPress edit conflicts with calendar edit', { entryId: entry.id, postId: post.id });
+      return decision;
+    }
+
+    const updates: Record<string, unknown> = {
+      ...link,
+      wordpress_modified_at: remoteModifiedAt,
+      wordpress_content_hash: hashContentBody(remoteContent),
+    };
+
+    if (decision === 'pull') {
+      const title = getRawField(post.title);
+      updates['final_content'] = remoteContent;
+      if (title) updates['title'] = title;
+
+      // Keep the scheduler from pushing the pulled content straight back
+      if (entry.wordpress_status === 'future') {
+        updates['wordpress_sync_hash'] = hashPostPayload(
+          buildPostPayload({ ...entry, final_content: remoteContent, title: title || entry.title })
+        );
+      }
+
+      logger.info('Pulled WordPress edit', { entryId: entry.id, postId: post.id });
+    }
+
+    await this.updateEntry(entry.id, updates);
+    return decision;
+  }
+
+  private async getPullCursor(): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('content_calendar')
+      .select('wordpress_modified_at')
+      .not('wordpress_modified_at', 'is', null)
+      .order('wordpress_modified_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to get WordPress sync cursor: ${error.message}`);
+    }
+
+    const latest = data?.[0]?.wordpress_modified_at as string | undefined;
+    return latest || new Date(Date.now() - this.config.wordpress.lookback_days * DAY_MS).toISOString();
+  }
+
+  private async getLeadsByLandingPage(since: string): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('website_sessions')
+      .select('landing_page')
+      .eq('converted', true)
+      .not('landing_page', 'is', null)
+      .gte('created_at', since);
+
+    if (error) {
+      throw new Error(`Failed to fetch converted sessions: ${error.message}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of (data || []) as Array<{ landing_page: string }>) {
+      const path = normalizePagePath(row.landing_page);
+      if (path) counts.set(path, (counts.get(path) || 0) + 1);
+    }
+
+    return counts;
+  }
+
+  private async updateEntry(id: string, updates: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('content_calendar')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update content: ${error.message}`);
+    }
+  }
+}
+
+// Singleton instance
+let contentSyncInstance: ContentSyncService | null = null;
+
+export function getContentSyncService(): ContentSyncService {
+  if (!contentSyncInstance) {
+    contentSyncInstance = new ContentSyncService();
+  }
+  return contentSyncInstance;
+}
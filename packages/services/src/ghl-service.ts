@@ -0,0 +1,135 @@
+/**
+ * GoHighLevel Service
+ *
+ * Pushes leads into GoHighLevel (LeadConnector API) and links the
+ * resulting GHL contact ID back onto our contact record.
+ *
+ * Requires:
+ * - GHL_API_KEY
+ * - GHL_LOCATION_ID
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLogger } from '@arcvest/shared';
+import { getSupabase } from './supabase';
+
+const logger = createLogger('ghl-service');
+
+const GHL_BASE_URL = 'https://services.leadconnectorhq.com';
+const GHL_API_VERSION = '2021-07-28';
+
+export interface GhlContactParams {
+  firstName: string;
+  email: string;
+  phone: string;
+  tags: string[];
+  source: string;
+}
+
+// Payload for ghl_sync jobs (retries after a GHL outage)
+export interface GhlSyncPayload extends GhlContactParams {
+  contact_id?: string; // Our contact ID, so the GHL ID can be linked once created
+}
+
+export class GhlService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+  }
+
+  /**
+   * Check if GHL credentials are present
+   */
+  isConfigured(): boolean {
+    return !!process.env['GHL_API_KEY'] && !!process.env['GHL_LOCATION_ID'];
+  }
+
+  /**
+   * Create (or upsert by email, per GHL's duplicate rules) a contact in GHL.
+   */
+  async createContact(params: GhlContactParams): Promise<{ contact: { id: string } }> {
+    const apiKey = process.env['GHL_API_KEY'];
+    const locationId = process.env['GHL_LOCATION_ID'];
+    if (!apiKey || !locationId) {
+      throw new Error('GHL_API_KEY or GHL_LOCATION_ID not set');
+    }
+
+    const response = await fetch(`${GHL_BASE_URL}/contacts/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        Version: GHL_API_VERSION,
+      },
+      body: JSON.stringify({
+        locationId,
+        firstName: params.firstName,
+        email: params.email,
+        phone: params.phone,
+        tags: params.tags,
+        source: params.source,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`GHL createContact failed (${response.status}): ${error}`);
+    }
+
+    return response.json() as Promise<{ contact: { id: string } }>;
+  }
+
+  /**
+   * Push a lead to GHL and store the GHL contact ID on our contact.
+   * Throws if GHL rejects the request so the job queue can retry.
+   */
+  async syncContact(payload: GhlSyncPayload): Promise<string> {
+    const { contact_id, ...params } = payload;
+    const result = await this.createContact(params);
+    const ghlContactId = result.contact.id;
+
+    if (contact_id) {
+      await this.linkContact(contact_id, ghlContactId);
+    }
+
+    return ghlContactId;
+  }
+
+  /**
+   * Record the GHL contact ID in contact metadata.
+   */
+  private async linkContact(contactId: string, ghlContactId: string): Promise<void> {
+    const { data: contact, error: fetchError } = await this.supabase
+      .from('contacts')
+      .select('metadata')
+      .eq('id', contactId)
+      .single();
+
+    if (fetchError) {
+      logger.warn('Could not load contact to link GHL ID', { contactId, error: fetchError.message });
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('contacts')
+      .update({
+        metadata: { ...(contact?.metadata || {}), ghl_contact_id: ghlContactId },
+      })
+      .eq('id', contactId);
+
+    if (error) {
+      logger.warn('Failed to link GHL contact ID', { contactId, error: error.message });
+    }
+  }
+}
+
+// Singleton
+let ghlInstance: GhlService | null = null;
+
+export function getGhlService(): GhlService {
+  if (!ghlInstance) {
+    ghlInstance = new GhlService();
+  }
+  return ghlInstance;
+}
@@ -10,6 +10,7 @@ import { getSupabase } from './supabase';
 import { EventBus } from './event-bus';
 import { ContactService } from './contact-service';
 import { InteractionService } from './interaction-service';
+import { getLeadOutreachService } from './lead-finder/lead-outreach-service';
 
 const logger = createLogger('gmail-service');
 
@@ -59,12 +60,15 @@ export interface SendEmailParams {
   bcc?: string[];
   replyToMessageId?: string;
   threadId?: string;
+  skipInteractionLog?: boolean; // Caller logs its own interaction (e.g. sequence sends)
 }
 
 export interface GmailSyncResult {
   processed: number;
   newContacts: number;
   newInteractions: number;
+  outreachReplies: number;
+  outreachBounces: number;
   errors: string[];
 }
 
@@ -515,6 +519,10 @@ export class GmailService {
 
     logger.info('Email sent', { messageId: result.id, threadId: result.threadId });
 
+    if (params.skipInteractionLog) {
+      return result;
+    }
+
     // Log the interaction
     for (const recipient of toArray) {
       const contact = await this.contactService.getByEmail(recipient);
@@ -541,12 +549,25 @@ export class GmailService {
       processed: 0,
       newContacts: 0,
       newInteractions: 0,
+      outreachReplies: 0,
+      outreachBounces: 0,
       errors: [],
     };
 
     try {
       const messages = await this.fetchNewMessages();
 
+      // Replies, bounces and opt-outs on lead finder outreach threads
+      try {
+        const outreach = await getLeadOutreachService().processMessages(messages);
+        result.outreachReplies = outreach.replies;
+        result.outreachBounces = outreach.bounces;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Outreach tracking: ${errorMsg}`);
+        logger.error('Lead outreach tracking failed', error);
+      }
+
       for (const message of messages) {
         try {
           await this.processInboundMessage(message, result);
@@ -49,6 +49,7 @@ export interface TopPage {
   pageTitle: string;
   pageviews: number;
   avgTimeOnPage: number;
+  engagedSessions: number;
 }
 
 export class GoogleAnalyticsService {
@@ -383,7 +384,7 @@ export class GoogleAnalyticsService {
         property: this.propertyId!,
         dateRanges: [{ startDate, endDate }],
         dimensions: [{ name: 'pagePath' }, { name: 'pageTitle' }],
-        metrics: [{ name: 'screenPageViews' }, { name: 'averageSessionDuration' }],
+        metrics: [{ name: 'screenPageViews' }, { name: 'averageSessionDuration' }, { name: 'engagedSessions' }],
         orderBys: [{ metric: { metricName: 'screenPageViews' }, desc: true }],
         limit,
       });
@@ -393,6 +394,7 @@ export class GoogleAnalyticsService {
         pageTitle: row.dimensionValues?.[1]?.value || '',
         pageviews: parseInt(row.metricValues?.[0]?.value || '0'),
         avgTimeOnPage: parseFloat(row.metricValues?.[1]?.value || '0'),
+        engagedSessions: parseInt(row.metricValues?.[2]?.value || '0'),
       }));
     } catch (error) {
       console.error('[GA4] Failed to fetch top pages:', error);
@@ -16,6 +16,59 @@ export {
   type EnrollmentWithDetails,
   type EmailQueueItem,
 } from './sequence-service';
+export {
+  SequenceDispatcher,
+  getSequenceDispatcher,
+  type DispatchOptions,
+  type DispatchResult,
+  type SequenceSendPayload,
+  type RetrySendResult,
+} from './sequence-dispatcher';
+export {
+  GhlService,
+  getGhlService,
+  type GhlContactParams,
+  type GhlSyncPayload,
+} from './ghl-service';
+export {
+  LeadIntakeService,
+  getLeadIntakeService,
+  type LeadIntakeInput,
+  type LeadIntakeResult,
+} from './lead-intake-service';
+export {
+  AttributionService,
+  getAttributionService,
+  type AttributionInput,
+  type AttributionReportOptions,
+  type AttributedPerformance,
+} from './attribution-service';
+export {
+  ComplianceService,
+  getComplianceService,
+  validateRuleSet,
+  type ComplianceArtifactType,
+  type ComplianceCheckRecord,
+} from './compliance-service';
+export {
+  ComplianceArchiveService,
+  getComplianceArchiveService,
+  hashArchiveContent,
+  type ArchiveChannel,
+  type ArchiveInput,
+  type ArchiveSearchParams,
+  type ArchiveSearchResult,
+  type ComplianceArchiveRecord,
+} from './compliance-archive-service';
+export {
+  SourceHealthService,
+  getSourceHealthService,
+  evaluateSourceHealth,
+  EMAIL_SOURCES_ALERT_ID,
+  type SourceHealthAlert,
+  type SourceHealthSnapshot,
+  type HealthEvaluation,
+} from './source-health-service';
 export {
   GmailService,
   type GmailConfig,
@@ -44,14 +97,59 @@ export {
   type MetaAdsConfig,
   type MetaSyncResult,
   type MetaPerformanceSummary,
+  type MetaUserData,
+  type MetaConversionEvent,
+  type MetaConversionResult,
+  type MetaLead,
+  normalizeMetaEmail,
+  normalizeMetaPhone,
+  hashMetaUserData,
 } from './meta-ads-service';
+export {
+  OfflineConversionService,
+  getOfflineConversionService,
+  formatGoogleConversionDateTime,
+  buildMetaFbc,
+  type GoogleClickConversion,
+  type GoogleConversionUploader,
+  type UploadOutcome,
+} from './offline-conversion-service';
 export {
   WordPressService,
   getWordPressService,
   type WordPressConfig,
   type WordPressPost,
+  type WordPressPostResponse,
   type WordPressCategory,
 } from './wordpress-service';
+export {
+  PublishSchedulerService,
+  getPublishSchedulerService,
+  getPublishingWeek,
+  listPublishingSlots,
+  allocatePublishSlots,
+  summarizeWeeklyCoverage,
+  type PublishSlot,
+  type SchedulableEntry,
+  type ScheduledEntry,
+  type SlotAssignment,
+  type SlotAllocation,
+  type WeeklyCoverage,
+  type PublishAllocationResult,
+  type PublishSyncResult,
+} from './publish-scheduler-service';
+export {
+  ContentSyncService,
+  getContentSyncService,
+  hashContentBody,
+  decideWordPressPull,
+  normalizePagePath,
+  type WordPressPullDecision,
+  type WordPressPullState,
+  type WordPressConflict,
+  type WordPressPullResult,
+  type PerformanceSyncResult,
+} from './content-sync-service';
 
 // Source Adapters
 export {
@@ -65,12 +163,46 @@ export {
   MichaelGreenAdapter,
   GeneralInboxAdapter,
   RSSAdapter,
+  WebsiteAdapter,
+  RegulatoryAdapter,
   generateContentHash,
   ideaToRecord,
 } from './source-adapters';
 
 // Scoring
-export { IdeaScorer, getIdeaScorer } from './scoring';
+export {
+  IdeaScorer,
+  getIdeaScorer,
+  IdeaDeduplicator,
+  getIdeaDeduplicator,
+  type IdeaCluster,
+  type ClusterSourceLink,
+  type DedupResult,
+} from './scoring';
+
+// LLM Gateway
+export {
+  LlmGateway,
+  getLlmGateway,
+  resolveLlmTargets,
+  estimateLlmCost,
+  getLlmRetryDelay,
+  summarizeLlmSpend,
+  AnthropicProvider,
+  OpenAIProvider,
+  GeminiProvider,
+  MockLLMProvider,
+  LlmProviderError,
+  type LlmDailySpend,
+  type LlmSpendSummary,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmCallContext,
+  type LlmCompletionInput,
+  type LlmCompletion,
+  type MockLlmProviderOptions,
+} from './llm';
 
 // Selection
 export { DailySelectionService, getDailySelectionService } from './selection';
@@ -83,9 +215,118 @@ export {
   type JobType,
   type JobStatus,
   type EnqueueOptions,
+  type ClaimOptions,
   type JobResult,
 } from './job-queue-service';
 
+// Scheduler
+export {
+  SchedulerService,
+  getSchedulerService,
+  planScheduleRuns,
+  type ScheduleRecord,
+  type ScheduleUpdate,
+  type RunPlan,
+  type TickResult,
+  type ScheduledRun,
+  type SchedulePreview,
+} from './scheduler-service';
+
+// Workflow Engine
+export {
+  WorkflowEngine,
+  getWorkflowEngine,
+  resolveWorkflowRef,
+  resolveWorkflowValue,
+  evaluateWorkflowCondition,
+  planWorkflowSteps,
+  getWorkflowOutcome,
+  type WorkflowContext,
+  type WorkflowStepPlan,
+  type WorkflowListOptions,
+  type WorkflowTickResult,
+} from './workflow-engine';
+
+// Rank Tracking
+export {
+  SearchConsoleClient,
+  getSearchConsoleClient,
+  type SearchAnalyticsDimension,
+  type SearchAnalyticsFilter,
+  type SearchAnalyticsQuery,
+  type SearchAnalyticsRow,
+} from './search-console-client';
+export {
+  RankTrackingService,
+  getRankTrackingService,
+  SearchConsoleSerpProvider,
+  FixtureSerpProvider,
+  normalizeKeyword,
+  summarizeDailyRankings,
+  detectRankChanges,
+  detectCannibalization,
+  type SerpObservation,
+  type SerpProvider,
+  type DailyKeywordRanking,
+  type CannibalizationIssue,
+  type RankAlert,
+  type RankCheckResult,
+  type RankingTrend,
+} from './rank-tracking-service';
+
+// Regulatory Monitor
+export {
+  RegulatoryMonitorService,
+  getRegulatoryMonitorService,
+  classifyRegulatoryItem,
+  applyRuleChangeProposal,
+  StaleRuleChangeError,
+  type RegulatoryClassification,
+  type RegulatoryUpdate,
+  type RuleChangeProposal,
+  type RegulatoryScanResult,
+} from './regulatory-monitor-service';
+
+// Notifications
+export {
+  NotificationService,
+  getNotificationService,
+  resolveNotificationDeliveries,
+  InAppChannel,
+  EmailDigestChannel,
+  WebhookChannel,
+  type NotificationChannel,
+  type NotificationInput,
+  type NotificationRecord,
+  type NotificationPreferences,
+  type NotificationDelivery,
+  type InboxItem,
+  type NotifyResult,
+} from './notification-service';
+
+// Meta Campaign Builder
+export {
+  MetaCampaignBuilder,
+  getMetaCampaignBuilder,
+  enforceSpecialAdTargeting,
+  validateMetaCampaignDraft,
+  type MetaAdDraft,
+  type MetaCampaignDraft,
+  type MetaCampaignBuildResult,
+  type MetaCreatedObject,
+  type MetaDraftValidation,
+  type SpecialAdTargetingResult,
+} from './meta-campaign-builder';
+
+// Meta Lead Sync
+export {
+  MetaLeadSyncService,
+  getMetaLeadSyncService,
+  mapMetaLeadFields,
+  type MappedMetaLead,
+  type MetaLeadSyncResult,
+} from './meta-lead-sync-service';
+
 // Pipeline Logging
 export { PipelineLogger, logPipelineEvent } from './pipeline-logger';
 
@@ -97,6 +338,9 @@ export {
   getPageFetcherService,
   LeadScorerService,
   getLeadScorerService,
+  LeadOutreachService,
+  getLeadOutreachService,
+  pickOutreachRecipient,
 } from './lead-finder';
 export type {
   SearchResult,
@@ -105,6 +349,11 @@ export type {
   FetchOptions,
   ScoredLead,
   ScoreWeights,
+  SuppressionType,
+  SuppressionReason,
+  SendOutreachOptions,
+  SendOutreachResult,
+  OutreachSyncResult,
 } from './lead-finder';
 
 export type {
@@ -116,6 +365,7 @@ export type {
   SourceAdapter,
   EmailSourceConfig,
   RSSSourceConfig,
+  WebsiteSourceConfig,
   IdeaQueueRecord,
   SourceStats,
 } from './source-adapters';
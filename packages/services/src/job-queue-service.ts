@@ -11,6 +11,7 @@
 
 import { createLogger } from '@arcvest/shared';
 import { getSupabase } from './supabase';
+import { NotificationService } from './notification-service';
 
 const logger = createLogger('job-queue-service');
 
@@ -19,9 +20,16 @@ export type JobType =
   | 'news_scan'
   | 'email_scan'
   | 'bloomberg_scan'
+  | 'website_scan'
   | 'score_ideas'
   | 'select_daily'
-  | 'process_pipeline';
+  | 'process_pipeline'
+  | 'sequence_send'
+  | 'ghl_sync'
+  | 'lead_intake'
+  | 'offline_conversion_upload'
+  | 'cron_route'   // Worker calls a cron route (schedule registry)
+  | 'agent_task';  // Run by the agents runner, not the dashboard worker
 
 // Job status
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
@@ -54,6 +62,12 @@ export interface EnqueueOptions {
   delaySeconds?: number;
 }
 
+// Claim filters (the agent runner and dashboard worker split job types)
+export interface ClaimOptions {
+  jobTypes?: JobType[];
+  excludeJobTypes?: JobType[];
+}
+
 // Job result
 export interface JobResult {
   success: boolean;
@@ -153,10 +167,14 @@ export class JobQueueService {
   /**
    * Claim the next available job (atomic operation)
    */
-  async claimNextJob(workerId: string = 'default'): Promise<Job | null> {
+  async claimNextJob(workerId: string = 'default', options: ClaimOptions = {}): Promise<Job | null> {
     // Try using the RPC function first
     const { data: rpcData, error: rpcError } = await this.supabase
-      .rpc('claim_next_job', { p_worker_id: workerId });
+      .rpc('claim_next_job', {
+        p_worker_id: workerId,
+        p_job_types: options.jobTypes || null,
+        p_exclude_job_types: options.excludeJobTypes || null,
+      });
 
     if (!rpcError && rpcData && rpcData.length > 0) {
       logger.info('Job claimed via RPC', { jobId: rpcData[0].id, jobType: rpcData[0].job_type });
@@ -164,11 +182,20 @@ export class JobQueueService {
     }
 
     // Fallback: Manual claim (less atomic but works if function doesn't exist)
-    const { data: pendingJob, error: selectError } = await this.supabase
+    let query = this.supabase
       .from('job_queue')
       .select('*')
       .eq('status', 'pending')
-      .lte('next_run_at', new Date().toISOString())
+      .lte('next_run_at', new Date().toISOString());
+
+    if (options.jobTypes) {
+      query = query.in('job_type', options.jobTypes);
+    }
+    if (options.excludeJobTypes) {
+      query = query.not('job_type', 'in', `(${options.excludeJobTypes.join(',')})`);
+    }
+
+    const { data: pendingJob, error: selectError } = await query
       .order('priority', { ascending: false })
       .order('next_run_at', { ascending: true })
       .limit(1)
@@ -193,7 +220,7 @@ export class JobQueueService {
 
     if (updateError || !claimedJob) {
       // Someone else claimed it, try again
-      return this.claimNextJob(workerId);
+      return this.claimNextJob(workerId, options);
     }
 
     logger.info('Job claimed via fallback', { jobId: claimedJob.id, jobType: claimedJob.job_type });
@@ -266,6 +293,16 @@ export class JobQueueService {
           error
         }
       });
+
+      await new NotificationService(this.supabase).notify({
+        source: 'job',
+        severity: 'critical',
+        title: `Job failed: ${job.job_type}`,
+        message: `${job.job_type} failed permanently after ${job.attempts} attempts: ${error}`,
+        dedupKey: `job:${job.job_type}`,
+        link: '/dashboard/pipeline-logs',
+        details: { jobId, jobType: job.job_type, attempts: job.attempts, error }
+      });
     } else {
       // Schedule retry with exponential backoff
       const backoffSeconds = Math.min(
@@ -13,3 +13,11 @@ export type { FetchedPage, FetchOptions } from './page-fetcher-service';
 export { LeadScorerService, getLeadScorerService } from './lead-scorer-service';
 export type { ScoredLead, ScoreWeights } from './lead-scorer-service';
 
+export { LeadOutreachService, getLeadOutreachService, pickOutreachRecipient } from './lead-outreach-service';
+export type {
+  SuppressionType,
+  SuppressionReason,
+  SendOutreachOptions,
+  SendOutreachResult,
+  OutreachSyncResult,
+} from './lead-outreach-service';
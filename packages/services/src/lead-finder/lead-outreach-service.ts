@@ -0,0 +1,398 @@
+/**
+ * Lead Outreach Service
+ *
+ * Sends lead finder drafts through Gmail and follows up on the thread:
+ * - Checks the suppression list and the daily outreach cap before sending
+ * - Records the Gmail thread so replies and bounces can be matched later
+ * - Marks leads responded/bounced during Gmail sync
+ * - Adds bounces and opt-out replies to lead_finder_suppression
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  leadOutreachConfig,
+  isBounceNotification,
+  isOptOutReply,
+  stripQuotedReply,
+  type ComplianceResult,
+} from '@arcvest/shared';
+import { getSupabase } from '../supabase';
+import { GmailService, type GmailMessage } from '../gmail-service';
+import { ComplianceArchiveService } from '../compliance-archive-service';
+
+const logger = createLogger('lead-outreach');
+
+export type SuppressionType = 'person_key' | 'email' | 'domain' | 'company';
+export type SuppressionReason = 'unsubscribe' | 'bounce' | 'complaint' | 'manual' | 'converted' | 'existing_client';
+
+export interface SendOutreachOptions {
+  emailId?: string; // Draft to send; defaults to the latest version
+  to?: string;      // Recipient; defaults to the best email in contact_paths
+}
+
+export interface SendOutreachResult {
+  sent: boolean;
+  reason?: 'no_draft' | 'no_recipient' | 'already_sent' | 'suppressed' | 'daily_cap_reached' | 'compliance_blocked';
+  to?: string;
+  messageId?: string;
+  threadId?: string;
+}
+
+export interface OutreachSyncResult {
+  replies: number;
+  bounces: number;
+  optOuts: number;
+}
+
+interface OutreachLead {
+  id: string;
+  person_key: string;
+  full_name: string;
+  company: string | null;
+  contact_paths: Array<{ type: string; value: string }> | null;
+  outreach_status: string;
+  sent_to_email: string | null;
+}
+
+interface OutreachDraft {
+  id: string;
+  version: number;
+  subject: string;
+  body_html: string;
+  body_plain: string;
+  edited_by_user: boolean;
+  compliance_check: ComplianceResult | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Best address to send to: found on a page beats AI-predicted
+ */
+export function pickOutreachRecipient(contactPaths: OutreachLead['contact_paths']): string | null {
+  const paths = contactPaths || [];
+  const found = paths.find((p) => p.type === 'generic_email' && EMAIL_PATTERN.test(p.value));
+  const predicted = paths.find((p) => p.type === 'predicted_email' && EMAIL_PATTERN.test(p.value));
+  return (found || predicted)?.value.toLowerCase() || null;
+}
+
+export class LeadOutreachService {
+  private supabase: SupabaseClient;
+  private archive: ComplianceArchiveService;
+  private _gmail: GmailService | null = null;
+  private config = leadOutreachConfig;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.archive = new ComplianceArchiveService(this.supabase);
+  }
+
+  // Created on first send; sync passes messages in and never needs it
+  private get gmail(): GmailService {
+    if (!this._gmail) {
+      this._gmail = new GmailService();
+    }
+    return this._gmail;
+  }
+
+  /**
+   * Send a lead's draft through Gmail.
+   * Only the Gmail send can throw once checks pass; bookkeeping errors after
+   * the email is out are logged so the lead is never sent to twice.
+   */
+  async send(leadId: string, options: SendOutreachOptions = {}): Promise<SendOutreachResult> {
+    const { data: lead, error: leadError } = await this.supabase
+      .from('lead_finder_leads')
+      .select('id, person_key, full_name, company, contact_paths, outreach_status, sent_to_email')
+      .eq('id', leadId)
+      .single();
+
+    if (leadError) {
+      if (leadError.code === 'PGRST116') {
+        throw new Error(`Lead not found: ${leadId}`);
+      }
+      throw new Error(`Failed to get lead: ${leadError.message}`);
+    }
+
+    const outreachLead = lead as OutreachLead;
+    if (['sent', 'responded', 'converted', 'bounced'].includes(outreachLead.outreach_status)) {
+      return { sent: false, reason: 'already_sent', to: outreachLead.sent_to_email || undefined };
+    }
+
+    const draft = await this.getDraft(leadId, options.emailId);
+    if (!draft) {
+      return { sent: false, reason: 'no_draft' };
+    }
+
+    const to = options.to?.trim().toLowerCase() || pickOutreachRecipient(outreachLead.contact_paths);
+    if (!to || !EMAIL_PATTERN.test(to)) {
+      return { sent: false, reason: 'no_recipient' };
+    }
+
+    if (await this.isSuppressed(outreachLead, to)) {
+      logger.info('Outreach recipient is suppressed', { leadId, to });
+      return { sent: false, reason: 'suppressed', to };
+    }
+
+    if (draft.compliance_check && !draft.compliance_check.passed) {
+      return { sent: false, reason: 'compliance_blocked', to };
+    }
+
+    if ((await this.getRemainingDailyCapacity()) <= 0) {
+      logger.warn('Daily outreach cap reached', { cap: this.config.daily_send_cap });
+      return { sent: false, reason: 'daily_cap_reached', to };
+    }
+
+    // Edits are saved to body_plain only, so the HTML version would be stale
+    const sent = await this.gmail.sendEmail({
+      to,
+      subject: draft.subject,
+      body: draft.body_plain,
+      bodyHtml: draft.edited_by_user ? undefined : draft.body_html,
+      skipInteractionLog: true,
+    });
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await this.supabase
+      .from('lead_finder_leads')
+      .update({
+        outreach_status: 'sent',
+        sent_at: now,
+        sent_email_id: draft.id,
+        sent_to_email: to,
+        gmail_message_id: sent.id,
+        gmail_thread_id: sent.threadId,
+      })
+      .eq('id', leadId);
+
+    if (updateError) {
+      logger.error('Outreach sent but lead update failed', {
+        leadId,
+        messageId: sent.id,
+        error: updateError.message,
+      });
+    }
+
+    await this.archive.archiveSafely({
+      channel: 'gmail',
+      artifactType: 'lead_finder_emails',
+      artifactId: draft.id,
+      title: draft.subject,
+      content: { to, subject: draft.subject, body: draft.body_plain },
+      contentText: `${draft.subject}\n\n${draft.body_plain}`,
+      contentType: 'outreach_email',
+      complianceCheck: draft.compliance_check,
+      externalId: sent.id,
+      publishedBy: 'lead_finder',
+      metadata: { lead_id: leadId, thread_id: sent.threadId, version: draft.version },
+    });
+
+    logger.info('Outreach sent', { leadId, to, threadId: sent.threadId });
+    return { sent: true, to, messageId: sent.id, threadId: sent.threadId };
+  }
+
+  /**
+   * Match synced Gmail messages to outreach threads and record replies,
+   * bounces and opt-outs.
+   */
+  async processMessages(messages: GmailMessage[]): Promise<OutreachSyncResult> {
+    const result: OutreachSyncResult = { replies: 0, bounces: 0, optOuts: 0 };
+
+    const threadIds = [...new Set(messages.map((m) => m.threadId))];
+    if (threadIds.length === 0) {
+      return result;
+    }
+
+    const { data: leads, error } = await this.supabase
+      .from('lead_finder_leads')
+      .select('id, person_key, full_name, company, contact_paths, outreach_status, sent_to_email, gmail_thread_id')
+      .in('gmail_thread_id', threadIds);
+
+    if (error) {
+      throw new Error(`Failed to match outreach threads: ${error.message}`);
+    }
+
+    const byThread = new Map<string, OutreachLead>();
+    for (const lead of leads || []) {
+      byThread.set(lead.gmail_thread_id, lead as OutreachLead);
+    }
+
+    for (const message of messages) {
+      const lead = byThread.get(message.threadId);
+      if (!lead || !lead.sent_to_email) continue;
+
+      try {
+        if (isBounceNotification(message.from.email, message.subject)) {
+          if (lead.outreach_status === 'bounced') continue;
+          await this.markBounced(lead, message);
+          lead.outreach_status = 'bounced';
+          result.bounces++;
+          continue;
+        }
+
+        // Our own sent copy shows up on the thread too
+        if (!message.isInbound) continue;
+
+        if (isOptOutReply(message.body)) {
+          await this.markOptedOut(lead, message);
+          result.optOuts++;
+        }
+
+        if (lead.outreach_status === 'sent') {
+          await this.markResponded(lead, message);
+          lead.outreach_status = 'responded';
+          result.replies++;
+        }
+      } catch (err) {
+        logger.error(`Failed to process outreach message ${message.id}`, err);
+      }
+    }
+
+    if (result.replies || result.bounces || result.optOuts) {
+      logger.info('Outreach thread activity recorded', result);
+    }
+    return result;
+  }
+
+  /**
+   * Add a value to the suppression list (no-op if already present)
+   */
+  async suppress(
+    type: SuppressionType,
+    value: string,
+    reason: SuppressionReason,
+    notes?: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('lead_finder_suppression')
+      .upsert(
+        { type, value: value.toLowerCase(), reason, notes: notes || null },
+        { onConflict: 'type,value', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to add suppression: ${error.message}`);
+    }
+  }
+
+  /**
+   * Outreach emails sent in the last 24 hours count against the cap
+   */
+  async getRemainingDailyCapacity(): Promise<number> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    const { count, error } = await this.supabase
+      .from('lead_finder_leads')
+      .select('id', { count: 'exact', head: true })
+      .not('gmail_message_id', 'is', null)
+      .gte('sent_at', since);
+
+    if (error) {
+      throw new Error(`Failed to count outreach sends: ${error.message}`);
+    }
+
+    return this.config.daily_send_cap - (count || 0);
+  }
+
+  private async getDraft(leadId: string, emailId?: string): Promise<OutreachDraft | null> {
+    let query = this.supabase
+      .from('lead_finder_emails')
+      .select('id, version, subject, body_html, body_plain, edited_by_user, compliance_check')
+      .eq('lead_id', leadId);
+
+    query = emailId ? query.eq('id', emailId) : query.order('version', { ascending: false });
+
+    const { data, error } = await query.limit(1);
+
+    if (error) {
+      throw new Error(`Failed to get outreach draft: ${error.message}`);
+    }
+
+    return (data?.[0] as OutreachDraft | undefined) || null;
+  }
+
+  /**
+   * Suppressed by person, exact address, email domain or company
+   */
+  private async isSuppressed(lead: OutreachLead, to: string): Promise<boolean> {
+    const checks: Array<{ type: SuppressionType; value: string }> = [
+      { type: 'person_key', value: lead.person_key },
+      { type: 'email', value: to },
+      { type: 'domain', value: to.split('@')[1] || '' },
+    ];
+    if (lead.company) {
+      checks.push({ type: 'company', value: lead.company.toLowerCase() });
+    }
+
+    const { data, error } = await this.supabase
+      .from('lead_finder_suppression')
+      .select('type, value')
+      .in('value', checks.map((c) => c.value));
+
+    if (error) {
+      throw new Error(`Failed to check suppression: ${error.message}`);
+    }
+
+    return (data || []).some((row: { type: string; value: string }) =>
+      checks.some((c) => c.type === row.type && c.value === row.value.toLowerCase())
+    );
+  }
+
+  private async markBounced(lead: OutreachLead, message: GmailMessage): Promise<void> {
+    const { error } = await this.supabase
+      .from('lead_finder_leads')
+      .update({ outreach_status: 'bounced', bounced_at: message.date.toISOString() })
+      .eq('id', lead.id);
+
+    if (error) {
+      throw new Error(`Failed to mark lead bounced: ${error.message}`);
+    }
+
+    await this.suppress('email', lead.sent_to_email!, 'bounce', `Bounced: ${message.subject}`);
+    logger.info('Outreach bounced', { leadId: lead.id, to: lead.sent_to_email });
+  }
+
+  private async markResponded(lead: OutreachLead, message: GmailMessage): Promise<void> {
+    const { error } = await this.supabase
+      .from('lead_finder_leads')
+      .update({ outreach_status: 'responded', response_at: message.date.toISOString() })
+      .eq('id', lead.id);
+
+    if (error) {
+      throw new Error(`Failed to mark lead responded: ${error.message}`);
+    }
+
+    logger.info('Outreach reply received', { leadId: lead.id, from: message.from.email });
+  }
+
+  private async markOptedOut(lead: OutreachLead, message: GmailMessage): Promise<void> {
+    const { error } = await this.supabase
+      .from('lead_finder_leads')
+      .update({ opted_out_at: message.date.toISOString() })
+      .eq('id', lead.id);
+
+    if (error) {
+      throw new Error(`Failed to record opt-out: ${error.message}`);
+    }
+
+    const note = stripQuotedReply(message.body).substring(0, 200);
+    await this.suppress('person_key', lead.person_key, 'unsubscribe', note);
+    await this.suppress('email', lead.sent_to_email!, 'unsubscribe', note);
+    if (message.from.email.toLowerCase() !== lead.sent_to_email) {
+      await this.suppress('email', message.from.email, 'unsubscribe', note);
+    }
+
+    logger.info('Outreach opt-out recorded', { leadId: lead.id, from: message.from.email });
+  }
+}
+
+// Singleton
+let leadOutreachInstance: LeadOutreachService | null = null;
+
+export function getLeadOutreachService(): LeadOutreachService {
+  if (!leadOutreachInstance) {
+    leadOutreachInstance = new LeadOutreachService();
+  }
+  return leadOutreachInstance;
+}
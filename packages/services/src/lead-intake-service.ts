@@ -0,0 +1,261 @@
+/**
+ * Lead Intake Service
+ *
+ * Single entry point for inbound form leads (landing pages, lead ads):
+ * - Creates or merges the contact by email (or phone, when asked)
+ * - Logs a form_submission interaction (which awards lead score points)
+ * - Re-scores with the asset-level fit bonus when the form asked about assets
+ * - Assigns an advisor if the contact is unassigned
+ * - Records first/last touch attribution and links earlier website sessions
+ * - Fires form_submission sequence triggers
+ * - Pushes the lead to GoHighLevel, queueing a ghl_sync retry if GHL is down
+ * - Queues the whole submission as a lead_intake job when intake can't run
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AssetRange, Contact, ContactUpdate } from '@arcvest/shared';
+import { createLogger, getLeadSourceForTouch } from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { ContactService } from './contact-service';
+import { InteractionService } from './interaction-service';
+import { LeadScoringService } from './lead-scoring-service';
+import { AssignmentService } from './assignment-service';
+import { SequenceService } from './sequence-service';
+import { GhlService, type GhlSyncPayload } from './ghl-service';
+import { JobQueueService } from './job-queue-service';
+import { AttributionService, type AttributionInput } from './attribution-service';
+
+const logger = createLogger('lead-intake');
+
+export interface LeadIntakeInput {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  matchPhone?: boolean;        // Merge into a contact with the same phone when the email is new
+  estimatedAssets?: AssetRange;
+  source?: string;             // contacts.source; derived from the first touch when omitted
+  sourceDetail?: string;
+  tags?: string[];
+  formType: string;            // Matched against trigger_config.form_type on sequences
+  formData?: Record<string, unknown>;
+  attribution?: AttributionInput;
+  ghl?: {
+    tags: string[];
+    source: string;
+  };
+}
+
+export interface LeadIntakeResult {
+  contact: Contact;
+  created: boolean;
+  ghlStatus: 'synced' | 'queued' | 'failed' | 'skipped';
+  errors: string[];
+}
+
+export class LeadIntakeService {
+  private supabase: SupabaseClient;
+  private contactService: ContactService;
+  private interactionService: InteractionService;
+  private scoringService: LeadScoringService;
+  private assignmentService: AssignmentService;
+  private sequenceService: SequenceService;
+  private ghlService: GhlService;
+  private jobQueue: JobQueueService;
+  private attributionService: AttributionService;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.contactService = new ContactService(this.supabase);
+    this.interactionService = new InteractionService(this.supabase);
+    this.scoringService = new LeadScoringService(this.supabase);
+    this.assignmentService = new AssignmentService(this.supabase);
+    this.sequenceService = new SequenceService(this.supabase);
+    this.ghlService = new GhlService(this.supabase);
+    this.jobQueue = new JobQueueService();
+    this.attributionService = new AttributionService(this.supabase);
+  }
+
+  /**
+   * Record an inbound lead.
+   * Only contact creation can throw; later steps are logged and collected in
+   * `errors` so a failure in scoring or assignment never loses the lead.
+   */
+  async intake(input: LeadIntakeInput): Promise<LeadIntakeResult> {
+    const matched = input.matchPhone && input.phone ? await this.findByEmailOrPhone(input.email, input.phone) : null;
+    const { contact: found, created } = matched
+      ? { contact: matched, created: false }
+      : await this.contactService.getOrCreate(input.email, {
+          first_name: input.firstName || null,
+          last_name: input.lastName || null,
+          phone: input.phone || null,
+          estimated_assets: input.estimatedAssets || null,
+          source: input.source || getLeadSourceForTouch(input.attribution?.firstTouch || input.attribution?.lastTouch),
+          source_detail: input.sourceDetail || null,
+          tags: input.tags || [],
+        });
+
+    const errors: string[] = [];
+    let contact = found;
+
+    if (!created) {
+      contact = await this.runStep('merge', errors, () => this.mergeContact(found, input)) ?? found;
+    }
+
+    await this.runStep('interaction', errors, () =>
+      this.interactionService.logFormSubmission(contact.id, input.formType, {
+        ...input.formData,
+        source_detail: input.sourceDetail,
+      })
+    );
+
+    // The interaction only adds action points; a full recalculation adds the fit bonus
+    if (input.estimatedAssets) {
+      await this.runStep('fit_score', errors, () => this.scoringService.recalculateScore(contact.id));
+    }
+
+    if (input.attribution) {
+      await this.runStep('attribution', errors, () =>
+        this.attributionService.recordTouches(contact.id, {
+          ...input.attribution,
+          conversionType: input.attribution?.conversionType || input.formType,
+        })
+      );
+    }
+
+    if (!contact.assigned_to) {
+      await this.runStep('assignment', errors, async () => {
+        // Re-read so assignment rules see the score from the interaction above
+        const latest = await this.contactService.getById(contact.id);
+        return this.assignmentService.assignContact(latest || contact);
+      });
+    }
+
+    await this.runStep('sequence_triggers', errors, () =>
+      this.sequenceService.checkTriggers(contact, {
+        type: 'form_submission',
+        data: { form_type: input.formType },
+      })
+    );
+
+    const ghlStatus = input.ghl
+      ? await this.pushToGhl({
+          contact_id: contact.id,
+          firstName: input.firstName || '',
+          email: contact.email,
+          phone: input.phone || '',
+          tags: input.ghl.tags,
+          source: input.ghl.source,
+        }, errors)
+      : 'skipped';
+
+    logger.info('Lead intake complete', {
+      contactId: contact.id,
+      created,
+      formType: input.formType,
+      ghlStatus,
+      errors: errors.length,
+    });
+
+    return { contact, created, ghlStatus, errors };
+  }
+
+  /**
+   * Fill in blank fields and add new tags on a returning contact.
+   * Existing values are never overwritten.
+   */
+  private async mergeContact(contact: Contact, input: LeadIntakeInput): Promise<Contact> {
+    const updates: ContactUpdate = {};
+
+    if (!contact.first_name && input.firstName) updates.first_name = input.firstName;
+    if (!contact.last_name && input.lastName) updates.last_name = input.lastName;
+    if (!contact.phone && input.phone) updates.phone = input.phone;
+    if (!contact.estimated_assets && input.estimatedAssets) updates.estimated_assets = input.estimatedAssets;
+
+    const newTags = (input.tags || []).filter((tag) => !contact.tags.includes(tag));
+    if (newTags.length > 0) updates.tags = [...contact.tags, ...newTags];
+
+    if (Object.keys(updates).length === 0) {
+      return contact;
+    }
+
+    return this.contactService.update(contact.id, updates);
+  }
+
+  private async findByEmailOrPhone(email: string, phone: string): Promise<Contact | null> {
+    return (await this.contactService.getByEmail(email)) || (await this.contactService.getByPhone(phone));
+  }
+
+  /**
+   * Queue a lead_intake job holding the submission, for a form whose intake
+   * failed outright, so the worker retries it instead of the lead being lost.
+   * Returns false if the job couldn't be queued either.
+   */
+  async queueIntake(input: LeadIntakeInput): Promise<boolean> {
+    try {
+      await this.jobQueue.enqueue('lead_intake', { ...input }, {
+        maxAttempts: 5,
+        delaySeconds: 300,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to queue lead intake retry', {
+        email: input.email,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Push to GHL now; on failure queue a ghl_sync job so the lead still lands there.
+   */
+  private async pushToGhl(
+    payload: GhlSyncPayload,
+    errors: string[]
+  ): Promise<LeadIntakeResult['ghlStatus']> {
+    try {
+      await this.ghlService.syncContact(payload);
+      return 'synced';
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.warn('GHL sync failed, queueing retry', { contactId: payload.contact_id, error: errorMsg });
+
+      try {
+        await this.jobQueue.enqueue('ghl_sync', { ...payload }, {
+          maxAttempts: 5,
+          delaySeconds: 300,
+        });
+        return 'queued';
+      } catch (queueError) {
+        errors.push(`ghl: ${errorMsg}`);
+        logger.error('Failed to queue GHL sync retry', {
+          contactId: payload.contact_id,
+          error: queueError instanceof Error ? queueError.message : String(queueError),
+        });
+        return 'failed';
+      }
+    }
+  }
+
+  private async runStep<T>(step: string, errors: string[], fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`${step}: ${errorMsg}`);
+      logger.error(`Lead intake step failed: ${step}`, { error: errorMsg });
+      return undefined;
+    }
+  }
+}
+
+// Singleton
+let leadIntakeInstance: LeadIntakeService | null = null;
+
+export function getLeadIntakeService(): LeadIntakeService {
+  if (!leadIntakeInstance) {
+    leadIntakeInstance = new LeadIntakeService();
+  }
+  return leadIntakeInstance;
+}
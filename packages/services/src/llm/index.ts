@@ -0,0 +1,25 @@
+/**
+ * LLM Module
+ */
+
+export {
+  LlmGateway,
+  getLlmGateway,
+  resolveLlmTargets,
+  estimateLlmCost,
+  getLlmRetryDelay,
+  summarizeLlmSpend,
+  type LlmDailySpend,
+  type LlmSpendSummary,
+} from './llm-gateway';
+export { AnthropicProvider, OpenAIProvider, GeminiProvider, isRetryableStatus } from './providers';
+export { MockLLMProvider, estimateTokens, type MockLlmProviderOptions } from './mock-provider';
+export {
+  LlmProviderError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+  type LlmCallContext,
+  type LlmCompletionInput,
+  type LlmCompletion,
+} from './types';
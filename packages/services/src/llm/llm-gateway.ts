@@ -0,0 +1,335 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for AI completions. Callers name a task
+ * (llmConfig.tasks) instead of a model; the gateway sends the prompt to
+ * the task's provider, retries outages with backoff, then falls back down
+ * the task's chain. Every call is priced and recorded in llm_usage with its
+ * pipeline, feature, job and correlation ID.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  llmConfig,
+  type LlmConfig,
+  type LlmModelPricing,
+  type LlmProviderName,
+  type LlmTarget,
+  type LlmTask,
+} from '@arcvest/shared';
+import { getSupabase } from '../supabase';
+import { AnthropicProvider, GeminiProvider, OpenAIProvider } from './providers';
+import { MockLLMProvider } from './mock-provider';
+import {
+  LlmProviderError,
+  type LlmCallContext,
+  type LlmCompletion,
+  type LlmCompletionInput,
+  type LlmProvider,
+} from './types';
+
+const logger = createLogger('llm-gateway');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LlmDailySpend {
+  day: string;
+  pipeline: string;
+  calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface LlmSpendSummary {
+  pipelines: string[];
+  days: Array<{ day: string; total: number; byPipeline: Record<string, number> }>;
+  totals: Array<{ pipeline: string; calls: number; failedCalls: number; tokens: number; costUsd: number }>;
+  totalCostUsd: number;
+}
+
+// ===== Routing & pricing (pure) =====
+
+/**
+ * Provider/model chain for a task: the primary followed by its fallbacks
+ */
+export function resolveLlmTargets(task: LlmTask, config: LlmConfig = llmConfig): LlmTarget[] {
+  const route = config.tasks[task];
+  if (!route) {
+    throw new Error(`Unknown LLM task: ${task}`);
+  }
+
+  const chain: LlmTarget[] = [
+    { provider: route.provider, model: route.model, reasoning_effort: route.reasoning_effort },
+    ...route.fallbacks,
+  ];
+
+  return chain.filter(
+    (target, i) => chain.findIndex((t) => t.provider === target.provider && t.model === target.model) === i
+  );
+}
+
+/**
+ * USD cost of a call. Unpriced models cost 0 so a missing price never
+ * blocks a call; the gateway warns about them instead.
+ */
+export function estimateLlmCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  pricing: Record<string, LlmModelPricing> = llmConfig.pricing
+): number {
+  const price = pricing[model];
+  if (!price) return 0;
+
+  const cost = (inputTokens * price.input_per_million + outputTokens * price.output_per_million) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Backoff before the next attempt on the same provider
+ */
+export function getLlmRetryDelay(attempt: number, retry: LlmConfig['retry'] = llmConfig.retry): number {
+  return Math.min(retry.base_delay_ms * 2 ** (attempt - 1), retry.max_delay_ms);
+}
+
+/**
+ * Pivot llm_daily_spend rows into one row per day (cost by pipeline) plus
+ * per-pipeline totals, most recent day first
+ */
+export function summarizeLlmSpend(rows: LlmDailySpend[]): LlmSpendSummary {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const days = new Map<string, Record<string, number>>();
+  const totals = new Map<string, { calls: number; failedCalls: number; tokens: number; costUsd: number }>();
+
+  for (const row of rows) {
+    const cost = Number(row.cost_usd) || 0;
+    const day = days.get(row.day) || {};
+    day[row.pipeline] = (day[row.pipeline] || 0) + cost;
+    days.set(row.day, day);
+
+    const total = totals.get(row.pipeline) || { calls: 0, failedCalls: 0, tokens: 0, costUsd: 0 };
+    total.calls += Number(row.calls) || 0;
+    total.failedCalls += Number(row.failed_calls) || 0;
+    total.tokens += (Number(row.input_tokens) || 0) + (Number(row.output_tokens) || 0);
+    total.costUsd += cost;
+    totals.set(row.pipeline, total);
+  }
+
+  const pipelineTotals = Array.from(totals.entries())
+    .map(([pipeline, t]) => ({ pipeline, ...t, costUsd: round(t.costUsd) }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    pipelines: pipelineTotals.map((t) => t.pipeline),
+    days: Array.from(days.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([day, byPipeline]) => ({
+        day,
+        total: round(Object.values(byPipeline).reduce((sum, c) => sum + c, 0)),
+        byPipeline: Object.fromEntries(Object.entries(byPipeline).map(([p, c]) => [p, round(c)])),
+      })),
+    totals: pipelineTotals,
+    totalCostUsd: round(pipelineTotals.reduce((sum, t) => sum + t.costUsd, 0)),
+  };
+}
+
+// ===== Gateway =====
+
+export class LlmGateway {
+  private supabase: SupabaseClient;
+  private config: LlmConfig;
+  private providers = new Map<LlmProviderName, LlmProvider>();
+
+  constructor(supabase?: SupabaseClient, providers?: LlmProvider[], config: LlmConfig = llmConfig) {
+    this.supabase = supabase || getSupabase();
+    this.config = config;
+
+    const defaults = providers || [
+      new AnthropicProvider(),
+      new OpenAIProvider(),
+      new GeminiProvider(),
+      new MockLLMProvider(),
+    ];
+    for (const provider of defaults) {
+      this.providers.set(provider.name, provider);
+    }
+  }
+
+  /**
+   * Run a completion for a task. Throws when every provider in the chain
+   * failed or a provider rejected the request outright.
+   */
+  async complete(
+    task: LlmTask,
+    input: LlmCompletionInput,
+    context: LlmCallContext = {}
+  ): Promise<LlmCompletion> {
+    const route = this.config.tasks[task];
+    const targets = resolveLlmTargets(task, this.config);
+    const startTime = Date.now();
+    let attempts = 0;
+    let lastTarget = targets[0]!;
+    let lastError: unknown = null;
+
+    for (const [index, target] of targets.entries()) {
+      const provider = this.providers.get(target.provider);
+      if (!provider || !provider.isConfigured()) {
+        logger.warn(`Skipping unconfigured LLM provider ${target.provider}`, { task });
+        lastError = new Error(`${target.provider} is not configured`);
+        continue;
+      }
+      lastTarget = target;
+
+      for (let attempt = 1; attempt <= this.config.retry.max_attempts; attempt++) {
+        attempts++;
+        try {
+          const response = await provider.complete({
+            model: target.model,
+            prompt: input.prompt,
+            system: input.system,
+            maxTokens: input.maxTokens ?? route.max_tokens,
+            temperature: input.temperature ?? route.temperature,
+            reasoningEffort: target.reasoning_effort,
+            timeoutMs: this.config.retry.timeout_ms,
+          });
+
+          if (!this.config.pricing[target.model]) {
+            logger.warn(`No pricing for LLM model ${target.model}; recording cost as 0`);
+          }
+
+          const completion: LlmCompletion = {
+            task,
+            text: response.text,
+            provider: target.provider,
+            model: response.model,
+            inputTokens: response.inputTokens,
+            outputTokens: response.outputTokens,
+            totalTokens: response.inputTokens + response.outputTokens,
+            // Priced by the configured model; providers may return a dated variant
+            costUsd: estimateLlmCost(target.model, response.inputTokens, response.outputTokens, this.config.pricing),
+            attempts,
+            fallbackUsed: index > 0,
+            latencyMs: Date.now() - startTime,
+          };
+
+          await this.recordUsage(completion, route.pipeline, context);
+          return completion;
+        } catch (error) {
+          lastError = error;
+          const retryable = error instanceof LlmProviderError && error.retryable;
+
+          if (!retryable) {
+            await this.recordFailure(task, route.pipeline, target, attempts, startTime, error, context);
+            throw error;
+          }
+
+          logger.warn(`LLM call failed (${target.provider}, attempt ${attempt})`, {
+            task,
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          if (attempt < this.config.retry.max_attempts) {
+            await new Promise((resolve) => setTimeout(resolve, getLlmRetryDelay(attempt, this.config.retry)));
+          }
+        }
+      }
+
+      if (index < targets.length - 1) {
+        logger.warn(`Falling back from ${target.provider} for ${task}`);
+      }
+    }
+
+    await this.recordFailure(task, route.pipeline, lastTarget, attempts, startTime, lastError, context);
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(`LLM task ${task} failed on all providers: ${message}`);
+  }
+
+  /**
+   * Daily spend per pipeline for the last N days
+   */
+  async getDailySpend(days: number = 30): Promise<LlmDailySpend[]> {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString().split('T')[0];
+
+    const { data, error } = await this.supabase
+      .from('llm_daily_spend')
+      .select('*')
+      .gte('day', since)
+      .order('day', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get LLM spend: ${error.message}`);
+    }
+
+    return (data || []) as LlmDailySpend[];
+  }
+
+  /**
+   * Accounting failures are logged, never thrown; the completion already happened
+   */
+  private async recordUsage(completion: LlmCompletion, pipeline: string, context: LlmCallContext): Promise<void> {
+    const { error } = await this.supabase.from('llm_usage').insert({
+      task: completion.task,
+      pipeline,
+      feature: context.feature || completion.task,
+      job_id: context.jobId || null,
+      correlation_id: context.correlationId || null,
+      provider: completion.provider,
+      model: completion.model,
+      input_tokens: completion.inputTokens,
+      output_tokens: completion.outputTokens,
+      cost_usd: completion.costUsd,
+      latency_ms: completion.latencyMs,
+      attempts: completion.attempts,
+      fallback_used: completion.fallbackUsed,
+      status: 'success',
+    });
+
+    if (error) {
+      logger.warn('Failed to record LLM usage', { task: completion.task, error: error.message });
+    }
+  }
+
+  private async recordFailure(
+    task: LlmTask,
+    pipeline: string,
+    target: LlmTarget,
+    attempts: number,
+    startTime: number,
+    failure: unknown,
+    context: LlmCallContext
+  ): Promise<void> {
+    const { error } = await this.supabase.from('llm_usage').insert({
+      task,
+      pipeline,
+      feature: context.feature || task,
+      job_id: context.jobId || null,
+      correlation_id: context.correlationId || null,
+      provider: target.provider,
+      model: target.model,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0,
+      latency_ms: Date.now() - startTime,
+      attempts,
+      fallback_used: false,
+      status: 'error',
+      error: failure instanceof Error ? failure.message : String(failure),
+    });
+
+    if (error) {
+      logger.warn('Failed to record LLM failure', { task, error: error.message });
+    }
+  }
+}
+
+let llmGatewayInstance: LlmGateway | null = null;
+
+export function getLlmGateway(): LlmGateway {
+  if (!llmGatewayInstance) {
+    llmGatewayInstance = new LlmGateway();
+  }
+  return llmGatewayInstance;
+}
@@ -0,0 +1,70 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic stand-in for tests: the same request always produces the
+ * same text and token counts, and outages can be simulated. Pass
+ * { name: 'anthropic' } etc. to stand in for a real provider in a route.
+ */
+
+import { createHash } from 'crypto';
+import type { LlmProviderName } from '@arcvest/shared';
+import { LlmProviderError, type LlmProvider, type LlmRequest, type LlmResponse } from './types';
+
+export interface MockLlmProviderOptions {
+  name?: LlmProviderName;
+  respond?: (request: LlmRequest) => string;
+  failures?: number;      // Fail this many calls before succeeding (-1 = always)
+  retryable?: boolean;    // Whether simulated failures count as outages
+  configured?: boolean;
+}
+
+/**
+ * Rough token count (~4 characters per token) so usage and cost are non-zero
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class MockLLMProvider implements LlmProvider {
+  readonly name: LlmProviderName;
+  readonly calls: LlmRequest[] = [];
+  private remainingFailures: number;
+
+  constructor(private options: MockLlmProviderOptions = {}) {
+    this.name = options.name || 'mock';
+    this.remainingFailures = options.failures ?? 0;
+  }
+
+  isConfigured(): boolean {
+    return this.options.configured ?? true;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.calls.push(request);
+
+    if (this.remainingFailures !== 0) {
+      if (this.remainingFailures > 0) this.remainingFailures--;
+      const retryable = this.options.retryable ?? true;
+      throw new LlmProviderError(
+        `${this.name} API error ${retryable ? 503 : 400}: simulated failure`,
+        this.name,
+        retryable ? 503 : 400,
+        retryable
+      );
+    }
+
+    const text = this.options.respond
+      ? this.options.respond(request)
+      : `[${this.name}:${request.model}] ${createHash('sha256')
+          .update(`${request.system || ''}\n${request.prompt}`)
+          .digest('hex')
+          .slice(0, 16)}`;
+
+    return {
+      text,
+      model: request.model,
+      inputTokens: estimateTokens(`${request.system || ''}${request.prompt}`),
+      outputTokens: estimateTokens(text),
+    };
+  }
+}
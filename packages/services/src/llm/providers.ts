@@ -0,0 +1,186 @@
+/**
+ * LLM Provider Adapters
+ *
+ * Thin REST clients for Anthropic, OpenAI and Gemini. Each turns a single
+ * prompt into text plus token usage and reports failures as
+ * LlmProviderError; retries and fallbacks are left to the gateway.
+ */
+
+import { llmConfig, type LlmProviderName } from '@arcvest/shared';
+import { LlmProviderError, type LlmProvider, type LlmRequest, type LlmResponse } from './types';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const OPENAI_URL = 'https://api.openai.com/v1/responses';
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Rate limits, overloads and server errors clear up on their own;
+ * other 4xx responses will fail the same way on every attempt
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+async function postJson(
+  provider: LlmProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number = llmConfig.retry.timeout_ms
+): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    // Network failures and timeouts
+    throw new LlmProviderError(
+      `${provider} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      provider
+    );
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = data?.error?.message || response.statusText;
+    throw new LlmProviderError(
+      `${provider} API error ${response.status}: ${message}`,
+      provider,
+      response.status,
+      isRetryableStatus(response.status)
+    );
+  }
+
+  return data;
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private apiKey: string | undefined = process.env[llmConfig.api_key_env.anthropic]) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const data = await postJson(
+      this.name,
+      ANTHROPIC_URL,
+      { 'x-api-key': this.apiKey || '', 'anthropic-version': ANTHROPIC_VERSION },
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+      },
+      request.timeoutMs
+    );
+
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    return {
+      text,
+      model: data.model || request.model,
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0,
+    };
+  }
+}
+
+/**
+ * Uses the Responses API, which serves both chat models (gpt-4o) and
+ * reasoning models (gpt-5.2)
+ */
+export class OpenAIProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private apiKey: string | undefined = process.env[llmConfig.api_key_env.openai]) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const data = await postJson(
+      this.name,
+      OPENAI_URL,
+      { Authorization: `Bearer ${this.apiKey || ''}` },
+      {
+        model: request.model,
+        input: request.prompt,
+        instructions: request.system,
+        max_output_tokens: request.maxTokens,
+        // Reasoning models reject a temperature
+        ...(request.reasoningEffort
+          ? { reasoning: { effort: request.reasoningEffort } }
+          : { temperature: request.temperature }),
+      },
+      request.timeoutMs
+    );
+
+    const text = (data.output || [])
+      .filter((item: { type: string }) => item.type === 'message')
+      .flatMap((item: { content?: Array<{ type: string; text?: string }> }) => item.content || [])
+      .filter((part: { type: string }) => part.type === 'output_text')
+      .map((part: { text?: string }) => part.text || '')
+      .join('');
+
+    return {
+      text,
+      model: data.model || request.model,
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0,
+    };
+  }
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(private apiKey: string | undefined = process.env[llmConfig.api_key_env.gemini]) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const data = await postJson(
+      this.name,
+      `${GEMINI_URL}/${request.model}:generateContent`,
+      { 'x-goog-api-key': this.apiKey || '' },
+      {
+        contents: [{ parts: [{ text: request.prompt }] }],
+        ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+        },
+      },
+      request.timeoutMs
+    );
+
+    const text = (data.candidates?.[0]?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || '')
+      .join('');
+    const usage = data.usageMetadata || {};
+
+    return {
+      text,
+      model: data.modelVersion || request.model,
+      inputTokens: usage.promptTokenCount || 0,
+      // Thinking tokens are billed as output
+      outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * LLM Gateway Types
+ */
+
+import type { LlmProviderName, LlmTask } from '@arcvest/shared';
+
+/**
+ * One completion request, already resolved to a provider's model
+ */
+export interface LlmRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  maxTokens: number;
+  temperature?: number;
+  reasoningEffort?: 'low' | 'medium' | 'high';
+  timeoutMs?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  isConfigured(): boolean;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * What a call is for, recorded with its usage so spend can be traced back
+ * to a job, a request chain (correlationId) or a product feature.
+ */
+export interface LlmCallContext {
+  feature?: string;
+  jobId?: string;
+  correlationId?: string;
+}
+
+/**
+ * Caller input; anything left unset comes from the task's route
+ */
+export interface LlmCompletionInput {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmCompletion {
+  task: LlmTask;
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  attempts: number;
+  fallbackUsed: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Thrown by providers. retryable marks outages (rate limits, 5xx, timeouts,
+ * network errors) that justify another attempt or a fallback provider.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LlmProviderName,
+    readonly status?: number,
+    readonly retryable: boolean = true
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
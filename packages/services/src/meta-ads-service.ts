@@ -1,5 +1,8 @@
+import { createHash } from 'crypto';
 import { getSupabase } from './supabase';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { ComplianceService } from './compliance-service';
+import { ComplianceArchiveService } from './compliance-archive-service';
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -100,6 +103,45 @@ export interface MetaPerformanceSummary {
   avgCpc: number;
 }
 
+/**
+ * Customer information for a Conversions API event. Values must already be
+ * normalized and SHA-256 hashed (see hashMetaUserData); fbc is sent as-is.
+ */
+export interface MetaUserData {
+  em?: string[];
+  ph?: string[];
+  fn?: string[];
+  ln?: string[];
+  external_id?: string[];
+  fbc?: string;
+}
+
+export interface MetaConversionEvent {
+  event_name: string; // Standard event, e.g. "Schedule" or "Purchase"
+  event_time: number; // Unix seconds
+  event_id: string;   // Meta deduplicates repeat events with the same name and ID
+  action_source: 'system_generated' | 'crm' | 'website' | 'email' | 'phone_call' | 'other';
+  user_data: MetaUserData;
+  custom_data?: { value?: number; currency?: string; [key: string]: unknown };
+}
+
+export interface MetaConversionResult {
+  events_received: number;
+  fbtrace_id?: string;
+  messages?: string[];
+}
+
+export interface MetaLead {
+  id: string;
+  created_time: string;
+  field_data: Array<{ name: string; values: string[] }>;
+  form_id?: string;
+  ad_id?: string;      // Ad, ad set and campaign are absent for organic leads
+  adset_id?: string;
+  campaign_id?: string;
+  is_organic?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -142,6 +184,51 @@ function mapStatus(metaStatus: string): string {
   return map[metaStatus] || 'paused';
 }
 
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Normalize an email the way Meta expects before hashing.
+ */
+export function normalizeMetaEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes('@') ? normalized : null;
+}
+
+/**
+ * Normalize a phone number to digits with country code (US numbers get a leading 1).
+ */
+export function normalizeMetaPhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length === 10) return `1${digits}`;
+  return digits.length >= 11 ? digits : null;
+}
+
+/**
+ * Build hashed Conversions API user data from a contact's details.
+ */
+export function hashMetaUserData(contact: {
+  email?: string | null;
+  phone?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  id?: string | null;
+}): MetaUserData {
+  const userData: MetaUserData = {};
+  const email = normalizeMetaEmail(contact.email);
+  const phone = normalizeMetaPhone(contact.phone);
+  const firstName = contact.first_name?.trim().toLowerCase();
+  const lastName = contact.last_name?.trim().toLowerCase();
+
+  if (email) userData.em = [sha256(email)];
+  if (phone) userData.ph = [sha256(phone)];
+  if (firstName) userData.fn = [sha256(firstName)];
+  if (lastName) userData.ln = [sha256(lastName)];
+  if (contact.id) userData.external_id = [sha256(contact.id)];
+  return userData;
+}
+
 // ---------------------------------------------------------------------------
 // MetaAdsService
 // ---------------------------------------------------------------------------
@@ -150,9 +237,13 @@ export class MetaAdsService {
   private supabase: SupabaseClient;
   private config: MetaAdsConfig | null = null;
   private baseUrl = '';
+  private compliance: ComplianceService;
+  private archive: ComplianceArchiveService;
 
   constructor(supabase?: SupabaseClient) {
     this.supabase = supabase || getSupabase();
+    this.compliance = new ComplianceService(this.supabase);
+    this.archive = new ComplianceArchiveService(this.supabase);
   }
 
   // -----------------------------------------------------------------------
@@ -199,6 +290,20 @@ export class MetaAdsService {
     );
   }
 
+  /**
+   * Returns true if the service has a token and pixel ID for the Conversions API.
+   */
+  canSendConversions(): boolean {
+    return this.config !== null && !!this.config.accessToken && !!this.config.pixelId;
+  }
+
+  /**
+   * The Facebook Page that ads and lead forms are published under.
+   */
+  getPageId(): string {
+    return this.config?.pageId || '';
+  }
+
   // -----------------------------------------------------------------------
   // Private helpers – Graph API HTTP layer
   // -----------------------------------------------------------------------
@@ -306,6 +411,27 @@ export class MetaAdsService {
     return json;
   }
 
+  /**
+   * Single DELETE request to the Graph API.
+   */
+  private async graphDelete(path: string): Promise<void> {
+    if (!this.config) {
+      throw new Error('MetaAdsService not configured. Call initialize() first.');
+    }
+
+    const url = new URL(`${this.baseUrl}${path}`);
+    url.searchParams.set('access_token', this.config.accessToken);
+
+    const res = await fetch(url.toString(), { method: 'DELETE' });
+    const json = (await res.json()) as { success?: boolean; error?: { message: string; type: string; code: number; fbtrace_id: string } };
+
+    if (json.error) {
+      throw new Error(
+        `Meta API error [${json.error.code}]: ${json.error.message} (type: ${json.error.type}, fbtrace: ${json.error.fbtrace_id})`,
+      );
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Write methods — Campaign Management
   // -----------------------------------------------------------------------
@@ -393,6 +519,8 @@ export class MetaAdsService {
 
   /**
    * Create an ad creative (link ad with optional lead form).
+   * Copy is checked against the compliance rules first; blocking
+   * findings throw before anything is sent to Meta.
    */
   async createAdCreative(params: {
     name: string;
@@ -409,6 +537,16 @@ export class MetaAdsService {
       throw new Error('MetaAdsService not configured. Call initialize() first.');
     }
 
+    const compliance = await this.compliance.check(
+      [params.headline, params.primaryText, params.description].join('\n'),
+      'meta_ad'
+    );
+    if (!compliance.passed) {
+      await this.compliance.record('meta_ad_creative', null, compliance);
+      const blocking = compliance.findings.filter((f) => f.severity === 'block').map((f) => f.message);
+      throw new Error(`Ad creative failed compliance: ${blocking.join('; ') || 'missing required disclosure'}`);
+    }
+
     const linkData: Record<string, unknown> = {
       link: params.linkUrl,
       message: params.primaryText,
@@ -428,7 +566,7 @@ export class MetaAdsService {
       };
     }
 
-    return this.graphPost<{ id: string }>(
+    const creative = await this.graphPost<{ id: string }>(
       `/${this.config.adAccountId}/adcreatives`,
       {
         name: params.name,
@@ -438,6 +576,21 @@ export class MetaAdsService {
         },
       },
     );
+
+    await this.compliance.record('meta_ad_creative', creative.id, compliance);
+    await this.archive.archiveSafely({
+      channel: 'meta_ads',
+      artifactType: 'meta_ad_creative',
+      artifactId: creative.id,
+      title: params.name,
+      content: { ...params },
+      contentText: [params.headline, params.primaryText, params.description].join('\n'),
+      complianceCheck: compliance,
+      externalId: creative.id,
+      metadata: { page_id: params.pageId, ad_account_id: this.config.adAccountId },
+    });
+
+    return creative;
   }
 
   /**
@@ -497,25 +650,59 @@ export class MetaAdsService {
     );
   }
 
+  /**
+   * Set the status of a campaign, ad set or ad (ACTIVE, PAUSED, ARCHIVED).
+   */
+  async updateStatus(objectId: string, status: string): Promise<void> {
+    await this.graphPost(`/${objectId}`, { status });
+  }
+
+  /**
+   * Delete a campaign, ad set, ad or creative. Deleting a campaign also
+   * deletes its ad sets and ads.
+   */
+  async deleteObject(objectId: string): Promise<void> {
+    await this.graphDelete(`/${objectId}`);
+  }
+
+  /**
+   * Archive a lead form. Forms can't be deleted once created.
+   */
+  async archiveLeadForm(formId: string): Promise<void> {
+    await this.graphPost(`/${formId}`, { status: 'ARCHIVED' });
+  }
+
   /**
    * Retrieve submitted leads from a lead form.
    * @param formId - The lead form ID
    * @param since - Optional Unix timestamp to filter leads after this time
    */
-  async getLeads(
-    formId: string,
-    since?: number,
-  ): Promise<Array<{ id: string; created_time: string; field_data: Array<{ name: string; values: string[] }> }>> {
-    type LeadEntry = { id: string; created_time: string; field_data: Array<{ name: string; values: string[] }> };
-
+  async getLeads(formId: string, since?: number): Promise<MetaLead[]> {
     const params: Record<string, string> = {
-      fields: 'id,created_time,field_data',
+      fields: 'id,created_time,field_data,form_id,ad_id,adset_id,campaign_id,is_organic',
     };
     if (since) {
       params.filtering = JSON.stringify([{ field: 'time_created', operator: 'GREATER_THAN', value: since }]);
     }
 
-    return this.graphGetAll<LeadEntry>(`/${formId}/leads`, params);
+    return this.graphGetAll<MetaLead>(`/${formId}/leads`, params);
+  }
+
+  // -----------------------------------------------------------------------
+  // Write methods — Conversions API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Send server-side conversion events to the configured pixel.
+   */
+  async sendConversionEvents(events: MetaConversionEvent[]): Promise<MetaConversionResult> {
+    if (!this.config?.pixelId) {
+      throw new Error('META_PIXEL_ID not configured');
+    }
+
+    return this.graphPost<MetaConversionResult>(`/${this.config.pixelId}/events`, {
+      data: events,
+    });
   }
 
   // -----------------------------------------------------------------------
@@ -680,6 +867,20 @@ export class MetaAdsService {
   // Sync methods — Meta -> Supabase
   // -----------------------------------------------------------------------
 
+  /**
+   * Meta ids of local rows still awaiting approval. They sit PAUSED in
+   * Meta; sync leaves them alone until the approval goes through.
+   */
+  private async getDraftIds(table: string, column: string, metaIds: string[]): Promise<Set<string>> {
+    const { data } = await this.supabase
+      .from(table)
+      .select(column)
+      .eq('status', 'draft')
+      .in(column, metaIds);
+
+    return new Set(((data || []) as unknown as Array<Record<string, string>>).map((row) => row[column]!));
+  }
+
   /**
    * Sync campaigns from Meta to the local `campaigns` table.
    * Meta budgets are in cents — divide by 100 before storing.
@@ -688,7 +889,9 @@ export class MetaAdsService {
     const campaigns = await this.getCampaigns();
     if (campaigns.length === 0) return 0;
 
-    const rows = campaigns.map((c) => ({
+    const drafts = await this.getDraftIds('campaigns', 'meta_campaign_id', campaigns.map((c) => c.id));
+
+    const rows = campaigns.filter((c) => !drafts.has(c.id)).map((c) => ({
       meta_campaign_id: c.id,
       name: c.name,
       status: mapStatus(c.status),
@@ -734,8 +937,10 @@ export class MetaAdsService {
       campaignMap.set(lc.meta_campaign_id, lc.id);
     }
 
+    const drafts = await this.getDraftIds('meta_ad_sets', 'meta_ad_set_id', adSets.map((a) => a.id));
+
     const rows = adSets
-      .filter((a) => campaignMap.has(a.campaign_id))
+      .filter((a) => campaignMap.has(a.campaign_id) && !drafts.has(a.id))
       .map((a) => ({
         meta_ad_set_id: a.id,
         campaign_id: campaignMap.get(a.campaign_id)!,
@@ -783,8 +988,10 @@ export class MetaAdsService {
       adSetMap.set(la.meta_ad_set_id, la.id);
     }
 
+    const drafts = await this.getDraftIds('meta_ads', 'meta_ad_id', ads.map((a) => a.id));
+
     const rows = ads
-      .filter((a) => adSetMap.has(a.adset_id))
+      .filter((a) => adSetMap.has(a.adset_id) && !drafts.has(a.id))
       .map((a) => ({
         meta_ad_id: a.id,
         ad_set_id: adSetMap.get(a.adset_id)!,
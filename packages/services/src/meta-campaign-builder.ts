@@ -0,0 +1,591 @@
+/**
+ * Meta Campaign Builder
+ *
+ * Builds a lead-gen campaign from the dashboard: lead form, campaign, ad
+ * set, creatives and ads are created in Meta one after another, paused,
+ * and anything already created is rolled back if a later step fails.
+ * Targeting is held to the Financial Products and Services special ad
+ * category rules and ad copy goes through the compliance checks before
+ * the first Graph API call. The result is recorded as a draft and goes
+ * live only once its approval is granted.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  metaCampaignBuilderConfig,
+  type ComplianceResult,
+  type MetaCampaignBuilderConfig,
+  type MetaLeadFormQuestion,
+  type MetaSpecialAdRestrictions,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { MetaAdsService, getMetaAdsService } from './meta-ads-service';
+import { ComplianceService } from './compliance-service';
+
+const logger = createLogger('meta-campaign-builder');
+
+const KM_PER_MILE = 1.609344;
+
+export interface MetaAdDraft {
+  name: string;
+  headline: string;
+  primaryText: string;
+  description: string;
+  ctaType?: string;
+  imageUrl?: string;
+}
+
+export interface MetaCampaignDraft {
+  name: string;
+  dailyBudget: number; // USD
+  targeting: Record<string, unknown>;
+  startTime?: string;
+  linkUrl?: string;
+  leadForm: {
+    name: string;
+    questions?: MetaLeadFormQuestion[];
+    privacyPolicyUrl?: string;
+    thankYouTitle?: string;
+    thankYouBody?: string;
+  };
+  ads: MetaAdDraft[];
+}
+
+export interface SpecialAdTargetingResult {
+  targeting: Record<string, unknown>; // Age range filled in when omitted
+  violations: string[];
+}
+
+export interface MetaDraftValidation {
+  valid: boolean;
+  issues: string[];
+  targeting: Record<string, unknown>;
+}
+
+type MetaObjectType = 'lead_form' | 'campaign' | 'ad_set' | 'creative' | 'ad';
+
+export interface MetaCreatedObject {
+  type: MetaObjectType;
+  id: string;
+}
+
+export interface MetaCampaignBuildResult {
+  success: boolean;
+  issues: string[];
+  campaignId?: string; // campaigns.id of the draft
+  approvalId?: string;
+  metaCampaignId?: string;
+  rolledBack?: MetaCreatedObject[];
+  orphaned?: MetaCreatedObject[]; // Rollback failed; clean up in Ads Manager
+}
+
+function radiusInMiles(location: Record<string, unknown>): number | null {
+  if (typeof location['radius'] !== 'number') return null;
+  return location['distance_unit'] === 'kilometer' ? location['radius'] / KM_PER_MILE : location['radius'];
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null;
+}
+
+/**
+ * Check a targeting spec against the special ad category restrictions.
+ * Meta rejects these at ad set creation anyway, but only after the
+ * campaign exists; catching them here keeps the draft from starting.
+ */
+export function enforceSpecialAdTargeting(
+  targeting: Record<string, unknown>,
+  restrictions: MetaSpecialAdRestrictions = metaCampaignBuilderConfig.restrictions
+): SpecialAdTargetingResult {
+  const violations: string[] = [];
+  const result: Record<string, unknown> = { ...targeting };
+
+  if (targeting['age_min'] === undefined) {
+    result['age_min'] = restrictions.age_min;
+  } else if (targeting['age_min'] !== restrictions.age_min) {
+    violations.push(`Minimum age must be ${restrictions.age_min}; financial services ads can't target by age`);
+  }
+
+  if (targeting['age_max'] === undefined) {
+    result['age_max'] = restrictions.age_max;
+  } else if (targeting['age_max'] !== restrictions.age_max) {
+    violations.push(`Maximum age must be ${restrictions.age_max}+; financial services ads can't target by age`);
+  }
+
+  for (const key of restrictions.blocked_targeting_keys) {
+    if (hasValue(targeting[key])) {
+      violations.push(`Targeting by ${key.replace(/_/g, ' ')} isn't allowed for financial services ads`);
+    }
+  }
+
+  // Detailed targeting can also sit inside flexible_spec groups and exclusions
+  const nested = [
+    ...(Array.isArray(targeting['flexible_spec']) ? targeting['flexible_spec'] : []),
+    ...(targeting['exclusions'] && typeof targeting['exclusions'] === 'object' ? [targeting['exclusions']] : []),
+  ] as Array<Record<string, unknown>>;
+  for (const spec of nested) {
+    for (const key of restrictions.blocked_targeting_keys) {
+      if (hasValue(spec[key])) {
+        violations.push(`Detailed targeting by ${key.replace(/_/g, ' ')} isn't allowed for financial services ads`);
+      }
+    }
+  }
+
+  const geo = targeting['geo_locations'] as Record<string, unknown> | undefined;
+  if (!geo || Object.keys(geo).length === 0) {
+    violations.push('Targeting needs at least one location');
+  } else {
+    for (const type of restrictions.blocked_location_types) {
+      if (hasValue(geo[type])) {
+        violations.push(`Location targeting by ${type} isn't allowed for financial services ads`);
+      }
+    }
+
+    for (const type of ['cities', 'custom_locations']) {
+      const locations = Array.isArray(geo[type]) ? (geo[type] as Array<Record<string, unknown>>) : [];
+      for (const location of locations) {
+        const miles = radiusInMiles(location);
+        if (miles !== null && miles < restrictions.min_radius_miles) {
+          const label = location['name'] || location['key'] || `${location['latitude']},${location['longitude']}`;
+          violations.push(`Radius around ${label} must be at least ${restrictions.min_radius_miles} miles`);
+        }
+      }
+    }
+  }
+
+  return { targeting: result, violations };
+}
+
+/**
+ * Validate a draft before anything is created in Meta.
+ */
+export function validateMetaCampaignDraft(
+  draft: MetaCampaignDraft,
+  config: MetaCampaignBuilderConfig = metaCampaignBuilderConfig
+): MetaDraftValidation {
+  const issues: string[] = [];
+
+  if (!draft.name?.trim()) issues.push('Campaign name is required');
+  if (!draft.leadForm?.name?.trim()) issues.push('Lead form name is required');
+
+  if (typeof draft.dailyBudget !== 'number' || Number.isNaN(draft.dailyBudget)) {
+    issues.push('Daily budget is required');
+  } else if (draft.dailyBudget < config.min_daily_budget || draft.dailyBudget > config.max_daily_budget) {
+    issues.push(`Daily budget must be between $${config.min_daily_budget} and $${config.max_daily_budget}`);
+  }
+
+  if (!draft.ads?.length) {
+    issues.push('Add at least one ad');
+  } else if (draft.ads.length > config.max_ads) {
+    issues.push(`No more than ${config.max_ads} ads per campaign`);
+  }
+
+  for (const [i, ad] of (draft.ads || []).entries()) {
+    const label = ad.name?.trim() || `Ad ${i + 1}`;
+    if (!ad.name?.trim()) issues.push(`${label}: name is required`);
+    if (!ad.headline?.trim()) issues.push(`${label}: headline is required`);
+    if (!ad.primaryText?.trim()) issues.push(`${label}: primary text is required`);
+    if (ad.ctaType && !config.cta_types.includes(ad.ctaType)) {
+      issues.push(`${label}: call to action ${ad.ctaType} isn't supported`);
+    }
+  }
+
+  const { targeting, violations } = enforceSpecialAdTargeting(draft.targeting || {}, config.restrictions);
+  issues.push(...violations);
+
+  return { valid: issues.length === 0, issues, targeting };
+}
+
+export class MetaCampaignBuilder {
+  private supabase: SupabaseClient;
+  private meta: MetaAdsService;
+  private compliance: ComplianceService;
+  private config: MetaCampaignBuilderConfig;
+
+  constructor(supabase?: SupabaseClient, meta?: MetaAdsService) {
+    this.supabase = supabase || getSupabase();
+    this.meta = meta || getMetaAdsService();
+    this.compliance = new ComplianceService(this.supabase);
+    this.config = metaCampaignBuilderConfig;
+  }
+
+  private ensureConfigured(): boolean {
+    if (!this.meta.isConfigured()) {
+      this.meta.initializeFromEnv();
+    }
+    return this.meta.isConfigured() && !!this.meta.getPageId();
+  }
+
+  /**
+   * Run every ad's copy through the compliance checks. Returns one issue per
+   * blocking finding or missing disclosure, and each ad's result. Failed
+   * checks are recorded here since no creative will exist for them; passed
+   * ones are recorded against their creative once the draft is built.
+   */
+  private async checkCopy(ads: MetaAdDraft[]): Promise<{ issues: string[]; results: ComplianceResult[] }> {
+    const issues: string[] = [];
+    const results: ComplianceResult[] = [];
+
+    for (const ad of ads) {
+      const result = await this.compliance.check(
+        [ad.headline, ad.primaryText, ad.description].join('\n'),
+        'meta_ad'
+      );
+      results.push(result);
+      if (result.passed) continue;
+
+      await this.compliance.record('meta_ad_creative', null, result);
+      for (const finding of result.findings.filter((f) => f.severity === 'block')) {
+        issues.push(`${ad.name}: ${finding.message}`);
+      }
+      for (const missing of result.missingDisclosures.filter((d) => d.severity === 'block')) {
+        issues.push(`${ad.name}: missing disclosure "${missing.text}"`);
+      }
+    }
+
+    return { issues, results };
+  }
+
+  /**
+   * Undo created objects newest first. Lead forms can only be archived.
+   */
+  private async rollback(created: MetaCreatedObject[]): Promise<{
+    rolledBack: MetaCreatedObject[];
+    orphaned: MetaCreatedObject[];
+  }> {
+    const rolledBack: MetaCreatedObject[] = [];
+    const orphaned: MetaCreatedObject[] = [];
+
+    for (const object of [...created].reverse()) {
+      try {
+        if (object.type === 'lead_form') {
+          await this.meta.archiveLeadForm(object.id);
+        } else {
+          await this.meta.deleteObject(object.id);
+        }
+        rolledBack.push(object);
+      } catch (error) {
+        logger.error('Rollback failed', {
+          type: object.type,
+          id: object.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        orphaned.push(object);
+      }
+    }
+
+    return { rolledBack, orphaned };
+  }
+
+  /**
+   * Create the campaign in Meta (paused) and record it as a draft
+   * awaiting approval.
+   */
+  async build(draft: MetaCampaignDraft, requestedBy: string): Promise<MetaCampaignBuildResult> {
+    const validation = validateMetaCampaignDraft(draft, this.config);
+    if (!validation.valid) {
+      return { success: false, issues: validation.issues };
+    }
+
+    const { issues: complianceIssues, results: complianceResults } = await this.checkCopy(draft.ads);
+    if (complianceIssues.length > 0) {
+      return { success: false, issues: complianceIssues };
+    }
+
+    if (!this.ensureConfigured()) {
+      return { success: false, issues: ['Meta Ads is not configured (access token, ad account and page are required)'] };
+    }
+
+    const pageId = this.meta.getPageId();
+    const linkUrl = draft.linkUrl || this.config.link_url;
+    const defaultCta = this.config.cta_types[0] || 'LEARN_MORE';
+    const budgetCents = Math.round(draft.dailyBudget * 100);
+    const created: MetaCreatedObject[] = [];
+    const ads: Array<{
+      id: string;
+      creativeId: string;
+      imageHash?: string;
+      draft: MetaAdDraft;
+      compliance: ComplianceResult;
+    }> = [];
+    let leadFormId = '';
+    let metaCampaignId = '';
+    let metaAdSetId = '';
+
+    try {
+      const form = await this.meta.createLeadForm({
+        pageId,
+        formName: draft.leadForm.name,
+        questions: draft.leadForm.questions?.length ? draft.leadForm.questions : this.config.lead_form.questions,
+        privacyPolicyUrl: draft.leadForm.privacyPolicyUrl || this.config.lead_form.privacy_policy_url,
+        thankYouTitle: draft.leadForm.thankYouTitle || this.config.lead_form.thank_you_title,
+        thankYouBody: draft.leadForm.thankYouBody || this.config.lead_form.thank_you_body,
+        formType: this.config.lead_form.form_type,
+      });
+      leadFormId = form.id;
+      created.push({ type: 'lead_form', id: form.id });
+
+      const campaign = await this.meta.createCampaign({
+        name: draft.name,
+        objective: this.config.objective,
+        dailyBudget: budgetCents,
+        specialAdCategories: [this.config.special_ad_category],
+        status: 'PAUSED',
+      });
+      metaCampaignId = campaign.id;
+      created.push({ type: 'campaign', id: campaign.id });
+
+      const adSet = await this.meta.createAdSet({
+        campaignId: campaign.id,
+        name: `${draft.name} - Ad Set`,
+        dailyBudget: budgetCents,
+        optimizationGoal: this.config.optimization_goal,
+        targeting: validation.targeting,
+        billingEvent: this.config.billing_event,
+        startTime: draft.startTime,
+        status: 'PAUSED',
+        promotedObject: { page_id: pageId },
+      });
+      metaAdSetId = adSet.id;
+      created.push({ type: 'ad_set', id: adSet.id });
+
+      for (const [i, ad] of draft.ads.entries()) {
+        const imageHash = ad.imageUrl ? (await this.meta.uploadImage(ad.imageUrl)).hash : undefined;
+
+        const creative = await this.meta.createAdCreative({
+          name: `${ad.name} - Creative`,
+          pageId,
+          headline: ad.headline,
+          primaryText: ad.primaryText,
+          description: ad.description || '',
+          linkUrl,
+          ctaType: ad.ctaType || defaultCta,
+          leadFormId: form.id,
+          imageHash,
+        });
+        created.push({ type: 'creative', id: creative.id });
+
+        const metaAd = await this.meta.createAd({
+          adSetId: adSet.id,
+          creativeId: creative.id,
+          name: ad.name,
+          status: 'PAUSED',
+        });
+        created.push({ type: 'ad', id: metaAd.id });
+        ads.push({ id: metaAd.id, creativeId: creative.id, imageHash, draft: ad, compliance: complianceResults[i]! });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Meta campaign build failed, rolling back', { name: draft.name, created: created.length, error: message });
+      const { rolledBack, orphaned } = await this.rollback(created);
+      return { success: false, issues: [`Meta rejected the campaign: ${message}`], rolledBack, orphaned };
+    }
+
+    let campaignId: string | undefined;
+    try {
+      const { data: campaignRow, error: campaignError } = await this.supabase
+        .from('campaigns')
+        .insert({
+          name: draft.name,
+          type: 'meta_leads',
+          status: 'draft',
+          platform: 'meta',
+          meta_campaign_id: metaCampaignId,
+          objective: this.config.objective,
+          daily_budget: draft.dailyBudget,
+          budget_monthly: Math.round(draft.dailyBudget * 30 * 100) / 100,
+          start_date: draft.startTime ? draft.startTime.split('T')[0] : null,
+          metadata: {
+            special_ad_categories: [this.config.special_ad_category],
+            lead_form_id: leadFormId,
+            built_by: requestedBy,
+          },
+        })
+        .select('id')
+        .single();
+      if (campaignError) throw new Error(`Failed to record campaign: ${campaignError.message}`);
+      campaignId = campaignRow.id as string;
+
+      const { data: adSetRow, error: adSetError } = await this.supabase
+        .from('meta_ad_sets')
+        .insert({
+          campaign_id: campaignId,
+          meta_ad_set_id: metaAdSetId,
+          name: `${draft.name} - Ad Set`,
+          status: 'draft',
+          daily_budget: draft.dailyBudget,
+          optimization_goal: this.config.optimization_goal,
+          targeting: validation.targeting,
+          start_time: draft.startTime || null,
+        })
+        .select('id')
+        .single();
+      if (adSetError) throw new Error(`Failed to record ad set: ${adSetError.message}`);
+
+      const { error: adsError } = await this.supabase.from('meta_ads').insert(
+        ads.map((ad) => ({
+          ad_set_id: adSetRow.id,
+          meta_ad_id: ad.id,
+          name: ad.draft.name,
+          status: 'draft',
+          creative: {
+            id: ad.creativeId,
+            headline: ad.draft.headline,
+            primary_text: ad.draft.primaryText,
+            description: ad.draft.description,
+            cta_type: ad.draft.ctaType || defaultCta,
+            link_url: linkUrl,
+            image_hash: ad.imageHash || null,
+            lead_form_id: leadFormId,
+          },
+        }))
+      );
+      if (adsError) throw new Error(`Failed to record ads: ${adsError.message}`);
+
+      const { data: approval, error: approvalError } = await this.supabase
+        .from('approval_queue')
+        .insert({
+          type: 'campaign_new',
+          status: 'pending',
+          priority: 'medium',
+          title: `New Meta campaign: ${draft.name}`,
+          summary: `${ads.length} ad${ads.length === 1 ? '' : 's'} at $${draft.dailyBudget}/day, collecting leads with "${draft.leadForm.name}"`,
+          content: {
+            builder: 'meta',
+            campaignId,
+            metaCampaignId,
+            leadFormId,
+            dailyBudget: draft.dailyBudget,
+            targeting: validation.targeting,
+            ads: draft.ads.map((ad) => ({
+              name: ad.name,
+              headline: ad.headline,
+              primaryText: ad.primaryText,
+              description: ad.description,
+            })),
+            requestedBy,
+          },
+          created_by: 'paid_media_agent',
+        })
+        .select('id')
+        .single();
+      if (approvalError) throw new Error(`Failed to queue approval: ${approvalError.message}`);
+
+      for (const ad of ads) {
+        await this.compliance.record('meta_ad_creative', ad.creativeId, ad.compliance);
+      }
+
+      logger.info('Meta campaign draft built', { campaignId, metaCampaignId, ads: ads.length });
+      return {
+        success: true,
+        issues: [],
+        campaignId,
+        approvalId: approval.id as string,
+        metaCampaignId,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Recording Meta campaign draft failed, rolling back', { name: draft.name, error: message });
+
+      // Ad sets and ads cascade with the campaign row
+      if (campaignId) {
+        await this.supabase.from('campaigns').delete().eq('id', campaignId);
+      }
+      const { rolledBack, orphaned } = await this.rollback(created);
+      return { success: false, issues: [message], rolledBack, orphaned };
+    }
+  }
+
+  /**
+   * Launch or discard a draft once its approval is decided. Approved
+   * drafts are set ACTIVE in Meta; rejected ones are deleted there and
+   * kept locally as rejected.
+   */
+  async resolveApproval(campaignId: string, approved: boolean, reviewedBy: string): Promise<void> {
+    const { data: campaign, error } = await this.supabase
+      .from('campaigns')
+      .select('id, status, meta_campaign_id, metadata, meta_ad_sets(id, meta_ad_set_id, meta_ads(id, meta_ad_id, creative))')
+      .eq('id', campaignId)
+      .single();
+
+    if (error || !campaign) {
+      throw new Error(`Draft campaign ${campaignId} not found`);
+    }
+    if (campaign.status !== 'draft') {
+      logger.info('Campaign is no longer a draft, skipping', { campaignId, status: campaign.status });
+      return;
+    }
+    if (!this.ensureConfigured()) {
+      throw new Error('Meta Ads is not configured');
+    }
+
+    const adSets = (campaign.meta_ad_sets || []) as Array<{
+      id: string;
+      meta_ad_set_id: string;
+      meta_ads: Array<{ id: string; meta_ad_id: string; creative: { id?: string } | null }>;
+    }>;
+    const ads = adSets.flatMap((adSet) => adSet.meta_ads || []);
+    const metadata = (campaign.metadata || {}) as Record<string, unknown>;
+    const now = new Date().toISOString();
+
+    if (approved) {
+      try {
+        // Parents first so ads never run under a paused ad set
+        await this.meta.updateStatus(campaign.meta_campaign_id, 'ACTIVE');
+        for (const adSet of adSets) await this.meta.updateStatus(adSet.meta_ad_set_id, 'ACTIVE');
+        for (const ad of ads) await this.meta.updateStatus(ad.meta_ad_id, 'ACTIVE');
+      } catch (activationError) {
+        // The campaign stays a draft; approving again retries (activating is idempotent)
+        const message = activationError instanceof Error ? activationError.message : String(activationError);
+        await this.supabase
+          .from('campaigns')
+          .update({ metadata: { ...metadata, activation_error: message, activation_failed_at: now } })
+          .eq('id', campaignId);
+        logger.error('Failed to activate Meta campaign draft', { campaignId, error: message });
+        throw new Error(`Failed to activate Meta campaign: ${message}`);
+      }
+      delete metadata['activation_error'];
+      delete metadata['activation_failed_at'];
+    } else {
+      const created: MetaCreatedObject[] = [
+        { type: 'lead_form' as const, id: metadata['lead_form_id'] as string },
+        { type: 'campaign' as const, id: campaign.meta_campaign_id as string },
+        ...ads.filter((ad) => ad.creative?.id).map((ad) => ({ type: 'creative' as const, id: ad.creative!.id! })),
+      ].filter((object) => object.id);
+      const { orphaned } = await this.rollback(created);
+      if (orphaned.length > 0) {
+        metadata['orphaned'] = orphaned;
+      }
+    }
+
+    const status = approved ? 'active' : 'rejected';
+    const childStatus = approved ? 'active' : 'deleted';
+
+    await this.supabase
+      .from('campaigns')
+      .update({ status, metadata: { ...metadata, reviewed_by: reviewedBy, reviewed_at: now } })
+      .eq('id', campaignId);
+    await this.supabase
+      .from('meta_ad_sets')
+      .update({ status: childStatus })
+      .in('id', adSets.map((adSet) => adSet.id));
+    await this.supabase
+      .from('meta_ads')
+      .update({ status: childStatus })
+      .in('id', ads.map((ad) => ad.id));
+
+    logger.info('Meta campaign draft resolved', { campaignId, approved, reviewedBy });
+  }
+}
+
+// Singleton
+let builderInstance: MetaCampaignBuilder | null = null;
+
+export function getMetaCampaignBuilder(): MetaCampaignBuilder {
+  if (!builderInstance) {
+    builderInstance = new MetaCampaignBuilder();
+  }
+  return builderInstance;
+}
@@ -0,0 +1,308 @@
+/**
+ * Meta Lead Sync Service
+ *
+ * Pulls lead form submissions from Meta and records each one through
+ * LeadIntakeService: contacts are deduplicated by email and phone, the
+ * investable assets answer becomes estimated_assets (and its fit bonus),
+ * and the form_submission interaction carries the ad, ad set and campaign
+ * IDs for attribution. Every lead ID is tracked in meta_leads so a lead
+ * is never processed twice.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  getAssetRangeFromAnswer,
+  metaLeadSyncConfig,
+  type AssetRange,
+  type MetaLeadSyncConfig,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { MetaAdsService, getMetaAdsService, type MetaLead } from './meta-ads-service';
+import { LeadIntakeService } from './lead-intake-service';
+
+const logger = createLogger('meta-lead-sync');
+
+export interface MappedMetaLead {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  estimatedAssets: AssetRange | null;
+  answers: Record<string, string>;
+}
+
+export interface MetaLeadSyncResult {
+  forms: number;
+  leadsFound: number;
+  processed: number;
+  contactsCreated: number;
+  skipped: number;           // No email on the lead
+  alreadyProcessed: number;
+  failed: number;
+  errors: string[];
+}
+
+type MetaLeadStatus = 'processed' | 'skipped' | 'failed';
+
+/**
+ * Map a lead's form answers onto contact fields.
+ */
+export function mapMetaLeadFields(lead: MetaLead, config: MetaLeadSyncConfig = metaLeadSyncConfig): MappedMetaLead {
+  const answers: Record<string, string> = {};
+  for (const field of lead.field_data || []) {
+    answers[field.name] = field.values?.[0]?.trim() || '';
+  }
+
+  const pick = (names: string[]): string | null => {
+    const name = names.find((n) => answers[n]);
+    return name ? answers[name]! : null;
+  };
+
+  const fullName = pick(config.field_map.full_name);
+  const [fullFirst, ...fullRest] = fullName ? fullName.split(/\s+/) : [];
+
+  const assetPattern = new RegExp(config.asset_field_pattern, 'i');
+  const assetField =
+    config.asset_fields.find((name) => answers[name]) ||
+    Object.keys(answers).find((name) => assetPattern.test(name) && answers[name]);
+
+  return {
+    email: pick(config.field_map.email)?.toLowerCase() || null,
+    firstName: pick(config.field_map.first_name) || fullFirst || null,
+    lastName: pick(config.field_map.last_name) || (fullRest.length > 0 ? fullRest.join(' ') : null),
+    phone: pick(config.field_map.phone),
+    estimatedAssets: assetField ? getAssetRangeFromAnswer(answers[assetField]!) : null,
+    answers,
+  };
+}
+
+export class MetaLeadSyncService {
+  private supabase: SupabaseClient;
+  private meta: MetaAdsService;
+  private intake: LeadIntakeService;
+  private config = metaLeadSyncConfig;
+
+  constructor(supabase?: SupabaseClient, meta?: MetaAdsService, intake?: LeadIntakeService) {
+    this.supabase = supabase || getSupabase();
+    this.meta = meta || getMetaAdsService();
+    this.intake = intake || new LeadIntakeService(this.supabase);
+  }
+
+  /**
+   * Forms to poll: META_LEAD_FORM_ID (comma-separated) plus the forms of
+   * live campaigns built in the dashboard.
+   */
+  async getFormIds(): Promise<string[]> {
+    const formIds = new Set(
+      (process.env['META_LEAD_FORM_ID'] || '').split(',').map((id) => id.trim()).filter(Boolean)
+    );
+
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .select('metadata')
+      .eq('platform', 'meta')
+      .in('status', ['active', 'paused']);
+
+    if (error) {
+      logger.warn('Failed to load builder lead forms', { error: error.message });
+    }
+
+    for (const campaign of data || []) {
+      const formId = (campaign.metadata as Record<string, unknown> | null)?.['lead_form_id'];
+      if (typeof formId === 'string' && formId) formIds.add(formId);
+    }
+
+    return [...formIds];
+  }
+
+  /**
+   * Pull new leads from every form and record them.
+   */
+  async sync(formIds?: string[]): Promise<MetaLeadSyncResult> {
+    if (!this.meta.isConfigured()) {
+      this.meta.initializeFromEnv();
+    }
+
+    const forms = formIds || (await this.getFormIds());
+    const result: MetaLeadSyncResult = {
+      forms: forms.length,
+      leadsFound: 0,
+      processed: 0,
+      contactsCreated: 0,
+      skipped: 0,
+      alreadyProcessed: 0,
+      failed: 0,
+      errors: [],
+    };
+
+    for (const formId of forms) {
+      try {
+        await this.syncForm(formId, result);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error('Lead form sync failed', { formId, error: errorMsg });
+        result.errors.push(`form ${formId}: ${errorMsg}`);
+      }
+    }
+
+    logger.info('Meta lead sync complete', { ...result, errors: result.errors.length });
+    return result;
+  }
+
+  private async syncForm(formId: string, result: MetaLeadSyncResult): Promise<void> {
+    const since = await this.getSince(formId);
+    const leads = await this.meta.getLeads(formId, since);
+    result.leadsFound += leads.length;
+
+    if (leads.length === 0) {
+      return;
+    }
+
+    const { data: existing, error } = await this.supabase
+      .from('meta_leads')
+      .select('meta_lead_id, status, attempts')
+      .in('meta_lead_id', leads.map((lead) => lead.id));
+
+    if (error) {
+      throw new Error(`Failed to load processed leads: ${error.message}`);
+    }
+
+    const seen = new Map(
+      (existing || []).map((row: { meta_lead_id: string; status: MetaLeadStatus; attempts: number }) => [row.meta_lead_id, row])
+    );
+
+    for (const lead of leads) {
+      const previous = seen.get(lead.id);
+      if (previous && previous.status !== 'failed') {
+        result.alreadyProcessed++;
+        continue;
+      }
+
+      const attempts = (previous?.attempts || 0) + 1;
+
+      try {
+        const mapped = mapMetaLeadFields(lead, this.config);
+
+        if (!mapped.email) {
+          await this.record(lead, formId, { status: 'skipped', error_message: 'No email on lead', attempts });
+          result.skipped++;
+          continue;
+        }
+
+        const intake = await this.intake.intake({
+          email: mapped.email,
+          firstName: mapped.firstName || undefined,
+          lastName: mapped.lastName || undefined,
+          phone: mapped.phone || undefined,
+          matchPhone: true,
+          estimatedAssets: mapped.estimatedAssets || undefined,
+          source: this.config.source,
+          sourceDetail: `Meta lead form ${formId}`,
+          tags: this.config.tags,
+          formType: this.config.form_type,
+          formData: {
+            meta_lead_id: lead.id,
+            form_id: formId,
+            ad_id: lead.ad_id || null,
+            adset_id: lead.adset_id || null,
+            campaign_id: lead.campaign_id || null,
+            is_organic: lead.is_organic ?? !lead.ad_id,
+            answers: mapped.answers,
+          },
+          attribution: lead.campaign_id
+            ? {
+                lastTouch: {
+                  utm_source: 'facebook',
+                  utm_medium: 'paid_social',
+                  utm_campaign: lead.campaign_id,
+                  utm_content: lead.ad_id || null,
+                  timestamp: lead.created_time,
+                },
+                conversionType: this.config.form_type,
+              }
+            : undefined,
+          ghl: this.config.ghl,
+        });
+
+        await this.record(lead, formId, {
+          status: 'processed',
+          contact_id: intake.contact.id,
+          contact_created: intake.created,
+          error_message: intake.errors.length > 0 ? intake.errors.join('; ') : null,
+          attempts,
+        });
+
+        result.processed++;
+        if (intake.created) result.contactsCreated++;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error('Failed to process Meta lead', { leadId: lead.id, formId, error: errorMsg });
+        result.failed++;
+        result.errors.push(`lead ${lead.id}: ${errorMsg}`);
+        await this.record(lead, formId, { status: 'failed', error_message: errorMsg, attempts });
+      }
+    }
+  }
+
+  /**
+   * Unix time to read from: shortly before the newest lead already seen on
+   * the form, or the initial lookback on a form's first sync.
+   */
+  private async getSince(formId: string): Promise<number> {
+    const { data } = await this.supabase
+      .from('meta_leads')
+      .select('lead_created_at')
+      .eq('form_id', formId)
+      .order('lead_created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const from = data
+      ? new Date(data.lead_created_at).getTime() - this.config.overlap_hours * 60 * 60 * 1000
+      : Date.now() - this.config.initial_lookback_days * 24 * 60 * 60 * 1000;
+
+    return Math.floor(from / 1000);
+  }
+
+  private async record(
+    lead: MetaLead,
+    formId: string,
+    outcome: {
+      status: MetaLeadStatus;
+      contact_id?: string;
+      contact_created?: boolean;
+      error_message?: string | null;
+      attempts: number;
+    }
+  ): Promise<void> {
+    const { error } = await this.supabase.from('meta_leads').upsert(
+      {
+        meta_lead_id: lead.id,
+        form_id: formId,
+        lead_created_at: new Date(lead.created_time).toISOString(),
+        meta_ad_id: lead.ad_id || null,
+        meta_ad_set_id: lead.adset_id || null,
+        meta_campaign_id: lead.campaign_id || null,
+        field_data: lead.field_data || [],
+        ...outcome,
+      },
+      { onConflict: 'meta_lead_id' }
+    );
+
+    if (error) {
+      // The lead is already in contacts; worst case it is seen again next run
+      logger.error('Failed to record Meta lead', { leadId: lead.id, error: error.message });
+    }
+  }
+}
+
+// Singleton
+let metaLeadSyncInstance: MetaLeadSyncService | null = null;
+
+export function getMetaLeadSyncService(): MetaLeadSyncService {
+  if (!metaLeadSyncInstance) {
+    metaLeadSyncInstance = new MetaLeadSyncService();
+  }
+  return metaLeadSyncInstance;
+}
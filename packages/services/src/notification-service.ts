@@ -0,0 +1,565 @@
+/**
+ * Notification Service
+ *
+ * Records KPI, budget, job and optimizer alerts with a severity and a
+ * dedup key, and routes each one to the team through pluggable channels:
+ * the in-app bell, an email digest sent with GmailService, and a webhook.
+ * Team members can mute sources or override the default routing rules.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  assignmentRulesConfig,
+  notificationsConfig,
+  NOTIFICATION_SEVERITY_ORDER,
+  type NotificationChannelType,
+  type NotificationRoutingRule,
+  type NotificationSeverity,
+  type NotificationSource,
+  type NotificationsConfig,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { GmailService } from './gmail-service';
+
+const logger = createLogger('notification-service');
+
+export interface NotificationInput {
+  source: NotificationSource;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  dedupKey: string;
+  link?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface NotificationRecord {
+  id: string;
+  created_at: string;
+  source: NotificationSource;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  link: string | null;
+  details: Record<string, unknown>;
+  dedup_key: string;
+  occurrence_count: number;
+  last_occurred_at: string;
+  resolved_at: string | null;
+}
+
+export interface NotificationPreferences {
+  user_email: string;
+  muted_until: string | null;
+  muted_sources: NotificationSource[];
+  rules: NotificationRoutingRule[];
+}
+
+export interface NotificationDelivery {
+  recipient: string | null; // null for the webhook
+  channel: NotificationChannelType;
+}
+
+export interface InboxItem {
+  id: string;                 // Delivery id
+  read_at: string | null;
+  notification: NotificationRecord;
+}
+
+export interface NotifyResult {
+  notification: NotificationRecord;
+  deduplicated: boolean;
+  deliveries: number;
+}
+
+/**
+ * A way of getting notifications to people. deliver() either sends right
+ * away or returns 'pending' to leave the notification for flush(), which
+ * sends everything pending for one recipient at once (the email digest).
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  deliver(notification: NotificationRecord, recipient: string | null): Promise<'sent' | 'pending'>;
+  flush?(recipient: string, notifications: NotificationRecord[]): Promise<void>;
+}
+
+/**
+ * Who gets a notification and how, given everyone's preferences.
+ * Muted sources are dropped entirely; a muted_until mute leaves only the
+ * bell. The webhook is system-wide and has no recipient.
+ */
+export function resolveNotificationDeliveries(
+  notification: Pick<NotificationInput, 'source' | 'severity'>,
+  recipients: NotificationPreferences[],
+  options: { webhook?: boolean; now?: Date; config?: NotificationsConfig } = {}
+): NotificationDelivery[] {
+  const { webhook = false, now = new Date(), config = notificationsConfig } = options;
+  const severity = NOTIFICATION_SEVERITY_ORDER[notification.severity];
+  const matches = (rule: { sources?: NotificationSource[]; min_severity: NotificationSeverity }) =>
+    (!rule.sources || rule.sources.length === 0 || rule.sources.includes(notification.source)) &&
+    severity >= NOTIFICATION_SEVERITY_ORDER[rule.min_severity];
+
+  const deliveries: NotificationDelivery[] = [];
+
+  for (const preferences of recipients) {
+    if (preferences.muted_sources?.includes(notification.source)) continue;
+
+    const rules = preferences.rules?.length ? preferences.rules : config.default_rules;
+    const channels = new Set<NotificationChannelType>();
+    for (const rule of rules.filter(matches)) {
+      for (const channel of rule.channels) {
+        if (channel !== 'webhook') channels.add(channel);
+      }
+    }
+
+    const muted = !!preferences.muted_until && new Date(preferences.muted_until) > now;
+    for (const channel of channels) {
+      if (muted && channel !== 'in_app') continue;
+      deliveries.push({ recipient: preferences.user_email, channel });
+    }
+  }
+
+  if (webhook && matches(config.webhook)) {
+    deliveries.push({ recipient: null, channel: 'webhook' });
+  }
+
+  return deliveries;
+}
+
+/**
+ * The bell reads delivery rows directly, so there's nothing to send
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly type = 'in_app' as const;
+
+  async deliver(): Promise<'sent'> {
+    return 'sent';
+  }
+}
+
+/**
+ * Emails are held for a digest per recipient
+ */
+export class EmailDigestChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private _gmail: GmailService | null = null;
+
+  private get gmail(): GmailService {
+    if (!this._gmail) {
+      this._gmail = new GmailService();
+    }
+    return this._gmail;
+  }
+
+  async deliver(): Promise<'pending'> {
+    return 'pending';
+  }
+
+  async flush(recipient: string, notifications: NotificationRecord[]): Promise<void> {
+    const critical = notifications.filter((n) => n.severity === 'critical').length;
+
+    const lines = notifications.map((n) => {
+      const repeats = n.occurrence_count > 1 ? ` (x${n.occurrence_count})` : '';
+      const link = n.link ? `\n  Dashboard: ${n.link}` : '';
+      return `[${n.severity.toUpperCase()}] ${n.title}${repeats}\n  ${n.message}${link}`;
+    });
+
+    await this.gmail.sendEmail({
+      to: recipient,
+      subject: `ArcVest alerts: ${notifications.length} new${critical > 0 ? ` (${critical} critical)` : ''}`,
+      body: `${lines.join('\n\n')}\n\nManage alert settings in the dashboard under Settings.`,
+      skipInteractionLog: true,
+    });
+  }
+}
+
+/**
+ * POSTs each notification as JSON; `text` makes it readable in Slack-style hooks
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook' as const;
+
+  constructor(private url: string) {}
+
+  async deliver(notification: NotificationRecord): Promise<'sent'> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `[${notification.severity.toUpperCase()}] ${notification.title}: ${notification.message}`,
+        id: notification.id,
+        source: notification.source,
+        severity: notification.severity,
+        title: notification.title,
+        message: notification.message,
+        link: notification.link,
+        details: notification.details,
+        occurrence_count: notification.occurrence_count,
+        created_at: notification.created_at,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+    return 'sent';
+  }
+}
+
+export class NotificationService {
+  private supabase: SupabaseClient;
+  private channels = new Map<NotificationChannelType, NotificationChannel>();
+  private config = notificationsConfig;
+
+  constructor(supabase?: SupabaseClient, channels?: NotificationChannel[]) {
+    this.supabase = supabase || getSupabase();
+
+    const defaults: NotificationChannel[] = [new InAppChannel(), new EmailDigestChannel()];
+    const webhookUrl = process.env['NOTIFICATION_WEBHOOK_URL'];
+    if (webhookUrl) {
+      defaults.push(new WebhookChannel(webhookUrl));
+    }
+
+    for (const channel of channels || defaults) {
+      this.channels.set(channel.type, channel);
+    }
+  }
+
+  /**
+   * Record an alert and deliver it, or bump the open one with the same dedup key.
+   * The dedup window runs from the open alert's first occurrence: once it has
+   * passed, that alert is resolved and a repeat is raised (and delivered) anew,
+   * so a recurring problem is re-announced at most once per window.
+   * Never throws: alerting must not break the job that raised the alert.
+   */
+  async notify(input: NotificationInput): Promise<NotifyResult | null> {
+    try {
+      const now = new Date();
+      const windowStart = new Date(now.getTime() - this.config.dedup_window_hours * 60 * 60 * 1000);
+
+      let notification: NotificationRecord;
+      const open = await this.findOpen(input.dedupKey);
+
+      if (open && new Date(open.created_at) >= windowStart) {
+        const bumped = await this.bump(open, input, now);
+        // Only an escalation goes out again
+        if (!bumped.escalated) {
+          return { notification: bumped.notification, deduplicated: true, deliveries: 0 };
+        }
+        notification = bumped.notification;
+      } else {
+        if (open) {
+          await this.resolve(open.id, now);
+        }
+
+        const { data: created, error } = await this.supabase
+          .from('notifications')
+          .insert({
+            source: input.source,
+            severity: input.severity,
+            title: input.title,
+            message: input.message,
+            link: input.link || null,
+            details: input.details || {},
+            dedup_key: input.dedupKey,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          // Another run raised the same alert first (one open alert per dedup key)
+          const raced = error.code === '23505' ? await this.findOpen(input.dedupKey) : null;
+          if (!raced) throw new Error(error.message);
+
+          const bumped = await this.bump(raced, input, now);
+          if (!bumped.escalated) {
+            return { notification: bumped.notification, deduplicated: true, deliveries: 0 };
+          }
+          notification = bumped.notification;
+        } else {
+          notification = created as NotificationRecord;
+        }
+      }
+
+      const deliveries = resolveNotificationDeliveries(notification, await this.loadRecipients(), {
+        webhook: this.channels.has('webhook'),
+        now,
+      });
+
+      const rows = [];
+      for (const delivery of deliveries) {
+        const channel = this.channels.get(delivery.channel);
+        if (!channel) continue;
+
+        try {
+          const status = await channel.deliver(notification, delivery.recipient);
+          rows.push({
+            notification_id: notification.id,
+            recipient: delivery.recipient,
+            channel: delivery.channel,
+            status,
+            sent_at: status === 'sent' ? new Date().toISOString() : null,
+          });
+        } catch (error) {
+          rows.push({
+            notification_id: notification.id,
+            recipient: delivery.recipient,
+            channel: delivery.channel,
+            status: 'failed',
+            error_message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      if (rows.length > 0) {
+        const { error } = await this.supabase.from('notification_deliveries').insert(rows);
+        if (error) throw new Error(error.message);
+      }
+
+      logger.info('Notification raised', {
+        source: input.source,
+        severity: notification.severity,
+        dedupKey: input.dedupKey,
+        deliveries: rows.length,
+      });
+
+      return { notification, deduplicated: false, deliveries: rows.length };
+    } catch (error) {
+      logger.error('Failed to raise notification', {
+        dedupKey: input.dedupKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async findOpen(dedupKey: string): Promise<NotificationRecord | null> {
+    const { data, error } = await this.supabase
+      .from('notifications')
+      .select('*')
+      .eq('dedup_key', dedupKey)
+      .is('resolved_at', null)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data as NotificationRecord | null;
+  }
+
+  /**
+   * Count a repeat on the open alert; a higher severity takes over its title.
+   */
+  private async bump(
+    previous: NotificationRecord,
+    input: NotificationInput,
+    now: Date
+  ): Promise<{ notification: NotificationRecord; escalated: boolean }> {
+    const escalated = NOTIFICATION_SEVERITY_ORDER[input.severity] > NOTIFICATION_SEVERITY_ORDER[previous.severity];
+
+    const { data: updated, error } = await this.supabase
+      .from('notifications')
+      .update({
+        occurrence_count: previous.occurrence_count + 1,
+        last_occurred_at: now.toISOString(),
+        message: input.message,
+        details: input.details || previous.details,
+        ...(escalated ? { severity: input.severity, title: input.title } : {}),
+      })
+      .eq('id', previous.id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return { notification: updated as NotificationRecord, escalated };
+  }
+
+  private async resolve(notificationId: string, now: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('notifications')
+      .update({ resolved_at: now.toISOString() })
+      .eq('id', notificationId)
+      .is('resolved_at', null);
+
+    if (error) throw new Error(error.message);
+  }
+
+  /**
+   * Team members to route to: active advisors plus anyone with saved preferences
+   */
+  private async loadRecipients(): Promise<NotificationPreferences[]> {
+    const { data, error } = await this.supabase.from('notification_preferences').select('*');
+
+    if (error) {
+      logger.error('Failed to load notification preferences', { error: error.message });
+    }
+
+    const recipients = new Map<string, NotificationPreferences>();
+    for (const advisor of assignmentRulesConfig.advisorInfo.filter((a) => a.active)) {
+      recipients.set(advisor.email, {
+        user_email: advisor.email,
+        muted_until: null,
+        muted_sources: [],
+        rules: [],
+      });
+    }
+    for (const preferences of (data || []) as NotificationPreferences[]) {
+      recipients.set(preferences.user_email, preferences);
+    }
+
+    return Array.from(recipients.values());
+  }
+
+  /**
+   * Flush pending deliveries (the email digest), one send per recipient
+   */
+  async sendPending(): Promise<{ recipients: number; sent: number; failed: number }> {
+    const result = { recipients: 0, sent: 0, failed: 0 };
+
+    for (const channel of this.channels.values()) {
+      if (!channel.flush) continue;
+
+      const { data, error } = await this.supabase
+        .from('notification_deliveries')
+        .select('id, recipient, notification:notifications(*)')
+        .eq('channel', channel.type)
+        .eq('status', 'pending')
+        .not('recipient', 'is', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error(`Failed to load pending ${channel.type} deliveries`, { error: error.message });
+        continue;
+      }
+
+      const byRecipient = new Map<string, Array<{ id: string; notification: NotificationRecord }>>();
+      for (const row of (data || []) as unknown as Array<{ id: string; recipient: string; notification: NotificationRecord }>) {
+        const pending = byRecipient.get(row.recipient) || [];
+        pending.push({ id: row.id, notification: row.notification });
+        byRecipient.set(row.recipient, pending);
+      }
+
+      for (const [recipient, pending] of byRecipient) {
+        // Most severe first; anything past the cap still counts as delivered
+        const notifications = pending
+          .map((p) => p.notification)
+          .sort((a, b) => NOTIFICATION_SEVERITY_ORDER[b.severity] - NOTIFICATION_SEVERITY_ORDER[a.severity])
+          .slice(0, this.config.digest_max_items);
+        const ids = pending.map((p) => p.id);
+        result.recipients++;
+
+        try {
+          await channel.flush(recipient, notifications);
+          await this.supabase
+            .from('notification_deliveries')
+            .update({ status: 'sent', sent_at: new Date().toISOString() })
+            .in('id', ids);
+          result.sent += ids.length;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          logger.error(`Failed to send ${channel.type} digest`, { recipient, error: message });
+          await this.supabase
+            .from('notification_deliveries')
+            .update({ status: 'failed', error_message: message })
+            .in('id', ids);
+          result.failed += ids.length;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A team member's bell: latest in-app notifications and the unread count
+   */
+  async getInbox(recipient: string, limit: number = this.config.in_app_limit): Promise<{ items: InboxItem[]; unreadCount: number }> {
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      this.supabase
+        .from('notification_deliveries')
+        .select('id, read_at, notification:notifications(*)')
+        .eq('recipient', recipient)
+        .eq('channel', 'in_app')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      this.supabase
+        .from('notification_deliveries')
+        .select('id', { count: 'exact', head: true })
+        .eq('recipient', recipient)
+        .eq('channel', 'in_app')
+        .is('read_at', null),
+    ]);
+
+    if (error || countError) {
+      throw new Error(`Failed to load notifications: ${(error || countError)!.message}`);
+    }
+
+    return { items: (data || []) as unknown as InboxItem[], unreadCount: count || 0 };
+  }
+
+  /**
+   * Mark some (or all) of a team member's in-app notifications read
+   */
+  async markRead(recipient: string, deliveryIds?: string[]): Promise<void> {
+    let query = this.supabase
+      .from('notification_deliveries')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient', recipient)
+      .eq('channel', 'in_app')
+      .is('read_at', null);
+
+    if (deliveryIds) {
+      query = query.in('id', deliveryIds);
+    }
+
+    const { error } = await query;
+    if (error) {
+      throw new Error(`Failed to mark notifications read: ${error.message}`);
+    }
+  }
+
+  async getPreferences(userEmail: string): Promise<NotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .select('user_email, muted_until, muted_sources, rules')
+      .eq('user_email', userEmail)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load notification preferences: ${error.message}`);
+    }
+
+    return (data as NotificationPreferences) || {
+      user_email: userEmail,
+      muted_until: null,
+      muted_sources: [],
+      rules: [],
+    };
+  }
+
+  async updatePreferences(
+    userEmail: string,
+    updates: Partial<Omit<NotificationPreferences, 'user_email'>>
+  ): Promise<NotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('notification_preferences')
+      .upsert({ user_email: userEmail, ...updates }, { onConflict: 'user_email' })
+      .select('user_email, muted_until, muted_sources, rules')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save notification preferences: ${error.message}`);
+    }
+
+    return data as NotificationPreferences;
+  }
+}
+
+// Singleton
+let notificationInstance: NotificationService | null = null;
+
+export function getNotificationService(): NotificationService {
+  if (!notificationInstance) {
+    notificationInstance = new NotificationService();
+  }
+  return notificationInstance;
+}
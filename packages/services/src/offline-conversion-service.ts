@@ -0,0 +1,411 @@
+/**
+ * Offline Conversion Service
+ *
+ * Reports pipeline progress back to the ad platforms so bidding can optimize
+ * toward consultations and clients rather than form fills:
+ * - Queues one conversion per contact, platform and stage when a contact
+ *   reaches consultation_scheduled or client; a platform that isn't
+ *   configured gets no row, so it doesn't block a later report of the stage
+ * - Google Ads: click conversion keyed by the contact's gclid/gbraid/wbraid
+ * - Meta: Conversions API event with hashed email and phone (plus fbc when
+ *   the contact arrived from a Meta click)
+ * - Uploads run as offline_conversion_upload jobs and are retried on failure
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  offlineConversionConfig,
+  isOfflineConversionStage,
+  type OfflineConversion,
+  type OfflineConversionPlatform,
+  type OfflineConversionStage,
+  type WebsiteSession,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { JobQueueService } from './job-queue-service';
+import { MetaAdsService, hashMetaUserData, type MetaConversionEvent } from './meta-ads-service';
+
+const logger = createLogger('offline-conversions');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Google Ads click conversion, as sent to customers:uploadClickConversions
+ */
+export interface GoogleClickConversion {
+  conversionAction: string;
+  conversionDateTime: string;
+  conversionValue?: number;
+  currencyCode?: string;
+  orderId: string;
+  gclid?: string;
+  gbraid?: string;
+  wbraid?: string;
+}
+
+/**
+ * Uploads a Google click conversion and returns the API response.
+ * Google Ads credentials live with the dashboard's GoogleAdsClient, so the
+ * caller supplies the upload.
+ */
+export type GoogleConversionUploader = (conversion: GoogleClickConversion) => Promise<Record<string, unknown>>;
+
+export interface UploadOutcome {
+  status: OfflineConversion['status'];
+  reason?: string;
+}
+
+type ClickSession = Pick<WebsiteSession, 'created_at' | 'gclid' | 'gbraid' | 'wbraid' | 'fbclid'>;
+
+/**
+ * Google expects "yyyy-mm-dd hh:mm:ss+00:00"
+ */
+export function formatGoogleConversionDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace('T', ' ')}+00:00`;
+}
+
+/**
+ * Meta's fbc parameter: fb.<subdomain index>.<click time ms>.<fbclid>
+ */
+export function buildMetaFbc(fbclid: string, clickAt: string | null): string {
+  const clickMs = clickAt ? new Date(clickAt).getTime() : Date.now();
+  return `fb.1.${clickMs}.${fbclid}`;
+}
+
+export class OfflineConversionService {
+  private supabase: SupabaseClient;
+  private jobQueue: JobQueueService;
+  private meta: MetaAdsService | null = null;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.jobQueue = new JobQueueService();
+  }
+
+  /**
+   * Queue uploads for a contact that just moved to a new status.
+   * Stages already reported are left alone, and platforms without
+   * credentials (or a conversion action) are left out; returns the newly
+   * queued rows.
+   */
+  async queueForStatusChange(contactId: string, status: string): Promise<OfflineConversion[]> {
+    if (!isOfflineConversionStage(status)) {
+      return [];
+    }
+
+    const stage: OfflineConversionStage = status;
+    const stageConfig = offlineConversionConfig.stages[stage];
+    const conversionAction = process.env[stageConfig.google_conversion_action_env] || '';
+    const metaConfigured = this.getMeta().canSendConversions();
+
+    if (!conversionAction && !metaConfigured) {
+      logger.info('No ad platform configured for offline conversions', { contactId, stage });
+      return [];
+    }
+
+    const now = new Date();
+    const clicks = await this.getLatestClicks(contactId);
+
+    const google = clicks.google;
+    const clickAge = google ? now.getTime() - new Date(google.created_at).getTime() : 0;
+    const googleSkipReason = !google
+      ? 'no_click_id'
+      : clickAge > offlineConversionConfig.google_click_window_days * DAY_MS
+        ? 'click_outside_window'
+        : null;
+
+    const rows = [];
+
+    if (conversionAction) {
+      rows.push({
+        contact_id: contactId,
+        platform: 'google_ads' as OfflineConversionPlatform,
+        stage,
+        event_name: conversionAction,
+        event_time: now.toISOString(),
+        value: stageConfig.value,
+        currency: offlineConversionConfig.currency,
+        gclid: google?.gclid || null,
+        gbraid: google?.gbraid || null,
+        wbraid: google?.wbraid || null,
+        fbclid: null,
+        click_at: google?.created_at || null,
+        status: googleSkipReason ? 'skipped' : 'pending',
+        skip_reason: googleSkipReason,
+      });
+    }
+
+    if (metaConfigured) {
+      rows.push({
+        contact_id: contactId,
+        platform: 'meta' as OfflineConversionPlatform,
+        stage,
+        event_name: stageConfig.meta_event_name,
+        event_time: now.toISOString(),
+        value: stageConfig.value,
+        currency: offlineConversionConfig.currency,
+        gclid: null,
+        gbraid: null,
+        wbraid: null,
+        fbclid: clicks.meta?.fbclid || null,
+        click_at: clicks.meta?.created_at || null,
+        status: 'pending',
+        skip_reason: null,
+      });
+    }
+
+    const { data, error } = await this.supabase
+      .from('offline_conversions')
+      .upsert(rows, { onConflict: 'contact_id,platform,stage', ignoreDuplicates: true })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to queue offline conversions: ${error.message}`);
+    }
+
+    const queued = (data || []) as OfflineConversion[];
+
+    for (const conversion of queued.filter((c) => c.status === 'pending')) {
+      await this.jobQueue.enqueue(
+        'offline_conversion_upload',
+        { conversion_id: conversion.id },
+        { maxAttempts: offlineConversionConfig.max_upload_attempts }
+      );
+    }
+
+    if (queued.length > 0) {
+      logger.info('Queued offline conversions', {
+        contactId,
+        stage,
+        conversions: queued.map((c) => ({ platform: c.platform, status: c.status, skipReason: c.skip_reason })),
+      });
+    }
+
+    return queued;
+  }
+
+  /**
+   * Upload one queued conversion. Throws after recording the failure so the
+   * job queue retries it.
+   */
+  async upload(conversionId: string, uploadGoogle: GoogleConversionUploader): Promise<UploadOutcome> {
+    const conversion = await this.get(conversionId);
+    if (!conversion) {
+      throw new Error(`Offline conversion not found: ${conversionId}`);
+    }
+
+    if (conversion.status === 'uploaded' || conversion.status === 'skipped') {
+      return { status: conversion.status, reason: conversion.skip_reason || undefined };
+    }
+
+    try {
+      if (conversion.platform === 'google_ads') {
+        const response = await uploadGoogle(this.buildGoogleClickConversion(conversion));
+        await this.markUploaded(conversion, response);
+        return { status: 'uploaded' };
+      }
+
+      const eventAge = Date.now() - new Date(conversion.event_time).getTime();
+      if (eventAge > offlineConversionConfig.meta_event_window_days * DAY_MS) {
+        await this.markSkipped(conversion.id, 'event_outside_window');
+        return { status: 'skipped', reason: 'event_outside_window' };
+      }
+
+      const meta = this.getMeta();
+      if (!meta.canSendConversions()) {
+        await this.markSkipped(conversion.id, 'not_configured');
+        return { status: 'skipped', reason: 'not_configured' };
+      }
+
+      const event = await this.buildMetaEvent(conversion);
+      const response = await meta.sendConversionEvents([event]);
+      await this.markUploaded(conversion, { ...response });
+      return { status: 'uploaded' };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await this.markFailed(conversion, errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a conversion by ID
+   */
+  async get(id: string): Promise<OfflineConversion | null> {
+    const { data, error } = await this.supabase
+      .from('offline_conversions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get offline conversion: ${error.message}`);
+    }
+
+    return data as OfflineConversion;
+  }
+
+  /**
+   * A contact's conversions, oldest first
+   */
+  async getForContact(contactId: string): Promise<OfflineConversion[]> {
+    const { data, error } = await this.supabase
+      .from('offline_conversions')
+      .select('*')
+      .eq('contact_id', contactId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get offline conversions: ${error.message}`);
+    }
+
+    return (data || []) as OfflineConversion[];
+  }
+
+  /**
+   * The conversion as Google expects it; the row ID doubles as the order ID
+   * so a retried upload is never counted twice.
+   */
+  buildGoogleClickConversion(conversion: OfflineConversion): GoogleClickConversion {
+    const click: Pick<GoogleClickConversion, 'gclid' | 'gbraid' | 'wbraid'> = conversion.gclid
+      ? { gclid: conversion.gclid }
+      : conversion.gbraid
+        ? { gbraid: conversion.gbraid }
+        : { wbraid: conversion.wbraid || undefined };
+
+    return {
+      conversionAction: conversion.event_name,
+      conversionDateTime: formatGoogleConversionDateTime(new Date(conversion.event_time)),
+      conversionValue: conversion.value ?? undefined,
+      currencyCode: conversion.currency,
+      orderId: conversion.id,
+      ...click,
+    };
+  }
+
+  private async buildMetaEvent(conversion: OfflineConversion): Promise<MetaConversionEvent> {
+    const { data: contact, error } = await this.supabase
+      .from('contacts')
+      .select('id, email, phone, first_name, last_name')
+      .eq('id', conversion.contact_id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to get contact for conversion: ${error.message}`);
+    }
+
+    const userData = hashMetaUserData(contact);
+    if (conversion.fbclid) {
+      userData.fbc = buildMetaFbc(conversion.fbclid, conversion.click_at);
+    }
+
+    return {
+      event_name: conversion.event_name,
+      event_time: Math.floor(new Date(conversion.event_time).getTime() / 1000),
+      event_id: conversion.id,
+      action_source: 'system_generated',
+      user_data: userData,
+      custom_data: conversion.value !== null
+        ? { value: conversion.value, currency: conversion.currency }
+        : undefined,
+    };
+  }
+
+  private async markUploaded(conversion: OfflineConversion, response: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('offline_conversions')
+      .update({
+        status: 'uploaded',
+        attempts: conversion.attempts + 1,
+        last_error: null,
+        uploaded_at: new Date().toISOString(),
+        response,
+      })
+      .eq('id', conversion.id);
+
+    if (error) {
+      logger.error('Failed to mark conversion uploaded', { conversionId: conversion.id, error: error.message });
+      return;
+    }
+
+    logger.info('Offline conversion uploaded', {
+      conversionId: conversion.id,
+      platform: conversion.platform,
+      stage: conversion.stage,
+    });
+  }
+
+  private async markFailed(conversion: OfflineConversion, errorMsg: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('offline_conversions')
+      .update({
+        status: 'failed',
+        attempts: conversion.attempts + 1,
+        last_error: errorMsg,
+      })
+      .eq('id', conversion.id);
+
+    if (error) {
+      logger.error('Failed to record conversion failure', { conversionId: conversion.id, error: error.message });
+    }
+
+    logger.warn('Offline conversion upload failed', {
+      conversionId: conversion.id,
+      platform: conversion.platform,
+      error: errorMsg,
+    });
+  }
+
+  private async markSkipped(conversionId: string, reason: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('offline_conversions')
+      .update({ status: 'skipped', skip_reason: reason })
+      .eq('id', conversionId);
+
+    if (error) {
+      logger.error('Failed to mark conversion skipped', { conversionId, error: error.message });
+    }
+  }
+
+  /**
+   * The contact's most recent Google click and Meta click
+   */
+  private async getLatestClicks(contactId: string): Promise<{ google: ClickSession | null; meta: ClickSession | null }> {
+    const { data, error } = await this.supabase
+      .from('website_sessions')
+      .select('created_at, gclid, gbraid, wbraid, fbclid')
+      .eq('contact_id', contactId)
+      .or('gclid.not.is.null,gbraid.not.is.null,wbraid.not.is.null,fbclid.not.is.null')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get click IDs: ${error.message}`);
+    }
+
+    const sessions = (data || []) as ClickSession[];
+    return {
+      google: sessions.find((s) => s.gclid || s.gbraid || s.wbraid) || null,
+      meta: sessions.find((s) => s.fbclid) || null,
+    };
+  }
+
+  private getMeta(): MetaAdsService {
+    if (!this.meta) {
+      this.meta = new MetaAdsService(this.supabase);
+      this.meta.initializeFromEnv();
+    }
+    return this.meta;
+  }
+}
+
+// Singleton
+let offlineConversionInstance: OfflineConversionService | null = null;
+
+export function getOfflineConversionService(): OfflineConversionService {
+  if (!offlineConversionInstance) {
+    offlineConversionInstance = new OfflineConversionService();
+  }
+  return offlineConversionInstance;
+}
@@ -0,0 +1,672 @@
+/**
+ * Rank Tracking Service
+ *
+ * Tracks keyword rankings from Search Console data (see rankTrackingConfig):
+ * - A SERP provider returns per-day, per-page positions for tracked queries
+ * - A keyword's rank for the day is its best-placed page
+ * - Each check re-fetches the last few days (Search Console fills data in
+ *   late), records history per keyword and per page, and raises alerts for
+ *   significant moves and for cannibalization (two of our URLs splitting a query)
+ *
+ * Providers are pluggable; FixtureSerpProvider serves fixed observations for
+ * tests and local runs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  rankTrackingConfig,
+  type RankAlertType,
+  type RankTrackingConfig,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { SearchConsoleClient, getSearchConsoleClient } from './search-console-client';
+
+const logger = createLogger('rank-tracking');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_10 = 10;
+
+// Keeps each includingRegex filter well under the API's expression limit
+const QUERY_FILTER_CHUNK = 50;
+
+export interface SerpObservation {
+  date: string;   // YYYY-MM-DD
+  query: string;
+  page: string;
+  position: number;
+  clicks: number;
+  impressions: number;
+}
+
+export interface SerpProvider {
+  readonly name: string;
+  getObservations(keywords: string[], startDate: string, endDate: string): Promise<SerpObservation[]>;
+}
+
+export interface DailyKeywordRanking {
+  date: string;
+  query: string;
+  position: number;   // Best-placed page
+  page: string;
+  clicks: number;     // Summed across pages
+  impressions: number;
+  pages: SerpObservation[];
+}
+
+export interface CannibalizationIssue {
+  query: string;
+  totalImpressions: number;
+  pages: Array<{
+    page: string;
+    position: number;   // Impression-weighted average
+    clicks: number;
+    impressions: number;
+    share: number;
+  }>;
+}
+
+export interface RankAlert {
+  id: string;
+  created_at: string;
+  keyword_id: string;
+  alert_type: RankAlertType;
+  date: string;
+  previous_position: number | null;
+  current_position: number | null;
+  pages: string[] | null;
+  details: Record<string, unknown>;
+  acknowledged_at: string | null;
+}
+
+export interface RankCheckResult {
+  provider: string;
+  startDate: string;
+  endDate: string;
+  updated: number;
+  changes: number;
+  alerts: number;
+  cannibalized: number;
+}
+
+export interface RankingTrend {
+  keyword: string;
+  history: Array<{
+    date: string;
+    rank: number | null;
+    position: number | null;
+    url: string | null;
+    clicks: number;
+    impressions: number;
+  }>;
+}
+
+interface TrackedKeywordRow {
+  id: string;
+  keyword: string;
+  current_rank: number | null;
+  current_position: number | null;
+  previous_rank: number | null;
+  data_date: string | null;
+}
+
+// ===========================================
+// Providers
+// ===========================================
+
+/**
+ * Daily average position per query and page from Search Console.
+ */
+export class SearchConsoleSerpProvider implements SerpProvider {
+  readonly name = 'search_console';
+  private client: SearchConsoleClient;
+
+  constructor(client?: SearchConsoleClient) {
+    this.client = client || getSearchConsoleClient();
+  }
+
+  async getObservations(keywords: string[], startDate: string, endDate: string): Promise<SerpObservation[]> {
+    const queries = [...new Set(keywords.map(normalizeKeyword))];
+    const observations: SerpObservation[] = [];
+
+    for (let i = 0; i < queries.length; i += QUERY_FILTER_CHUNK) {
+      const chunk = queries.slice(i, i + QUERY_FILTER_CHUNK);
+      const rows = await this.client.queryAllRows({
+        startDate,
+        endDate,
+        dimensions: ['date', 'query', 'page'],
+        filters: [{
+          dimension: 'query',
+          operator: 'includingRegex',
+          expression: `^(${chunk.map(escapeRegex).join('|')})$`,
+        }],
+      });
+
+      for (const row of rows) {
+        const [date, query, page] = row.keys || [];
+        if (!date || !query || !page || row.position === undefined) continue;
+
+        observations.push({
+          date,
+          query,
+          page,
+          position: row.position,
+          clicks: row.clicks || 0,
+          impressions: row.impressions || 0,
+        });
+      }
+    }
+
+    return observations;
+  }
+}
+
+/**
+ * Serves a fixed set of observations (tests, local development).
+ */
+export class FixtureSerpProvider implements SerpProvider {
+  readonly name = 'fixture';
+
+  constructor(private observations: SerpObservation[]) {}
+
+  async getObservations(keywords: string[], startDate: string, endDate: string): Promise<SerpObservation[]> {
+    const queries = new Set(keywords.map(normalizeKeyword));
+
+    return this.observations.filter((o) =>
+      queries.has(normalizeKeyword(o.query)) && o.date >= startDate && o.date <= endDate
+    );
+  }
+}
+
+// ===========================================
+// Analysis (pure)
+// ===========================================
+
+export function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Collapse per-page observations into one ranking per query per day.
+ * Pages below the impression floor don't count as ranking.
+ */
+export function summarizeDailyRankings(
+  observations: SerpObservation[],
+  minImpressions: number = rankTrackingConfig.min_impressions
+): DailyKeywordRanking[] {
+  const groups = new Map<string, SerpObservation[]>();
+
+  for (const observation of observations) {
+    if (observation.impressions < minImpressions) continue;
+    const key = `${normalizeKeyword(observation.query)}|${observation.date}`;
+    const group = groups.get(key) || [];
+    group.push(observation);
+    groups.set(key, group);
+  }
+
+  const rankings: DailyKeywordRanking[] = [];
+  for (const pages of groups.values()) {
+    const sorted = [...pages].sort((a, b) => a.position - b.position);
+    const best = sorted[0]!;
+
+    rankings.push({
+      date: best.date,
+      query: normalizeKeyword(best.query),
+      position: best.position,
+      page: best.page,
+      clicks: sorted.reduce((sum, p) => sum + p.clicks, 0),
+      impressions: sorted.reduce((sum, p) => sum + p.impressions, 0),
+      pages: sorted,
+    });
+  }
+
+  return rankings.sort((a, b) => a.query.localeCompare(b.query) || a.date.localeCompare(b.date));
+}
+
+/**
+ * Alerts for a move between two positions (null = not ranking).
+ */
+export function detectRankChanges(
+  previous: number | null,
+  current: number | null,
+  significantChange: number = rankTrackingConfig.significant_change
+): RankAlertType[] {
+  const alerts: RankAlertType[] = [];
+
+  if (previous !== null && current === null) {
+    alerts.push('lost_ranking');
+    if (previous <= TOP_10) alerts.push('left_top_10');
+    return alerts;
+  }
+
+  if (current === null) return alerts;
+
+  if (previous !== null) {
+    const change = previous - current;
+    if (change >= significantChange) alerts.push('rank_gain');
+    if (change <= -significantChange) alerts.push('rank_drop');
+  }
+
+  if (current <= TOP_10 && (previous === null || previous > TOP_10)) alerts.push('entered_top_10');
+  if (previous !== null && previous <= TOP_10 && current > TOP_10) alerts.push('left_top_10');
+
+  return alerts;
+}
+
+/**
+ * Queries where two or more of our URLs each take a meaningful share of
+ * impressions over the window.
+ */
+export function detectCannibalization(
+  observations: SerpObservation[],
+  options: RankTrackingConfig['cannibalization'] = rankTrackingConfig.cannibalization
+): CannibalizationIssue[] {
+  const byQuery = new Map<string, Map<string, { clicks: number; impressions: number; weighted: number }>>();
+
+  for (const o of observations) {
+    const query = normalizeKeyword(o.query);
+    const pages = byQuery.get(query) || new Map();
+    const totals = pages.get(o.page) || { clicks: 0, impressions: 0, weighted: 0 };
+
+    totals.clicks += o.clicks;
+    totals.impressions += o.impressions;
+    totals.weighted += o.position * o.impressions;
+    pages.set(o.page, totals);
+    byQuery.set(query, pages);
+  }
+
+  const issues: CannibalizationIssue[] = [];
+
+  for (const [query, pages] of byQuery) {
+    const totalImpressions = [...pages.values()].reduce((sum, p) => sum + p.impressions, 0);
+    if (totalImpressions === 0) continue;
+
+    const competing = [...pages.entries()]
+      .map(([page, totals]) => ({
+        page,
+        position: Math.round((totals.weighted / totals.impressions) * 100) / 100,
+        clicks: totals.clicks,
+        impressions: totals.impressions,
+        share: Math.round((totals.impressions / totalImpressions) * 1000) / 1000,
+      }))
+      .filter((p) => p.impressions >= options.min_impressions && p.share >= options.min_share)
+      .sort((a, b) => b.impressions - a.impressions);
+
+    if (competing.length >= 2) {
+      issues.push({ query, totalImpressions, pages: competing });
+    }
+  }
+
+  return issues.sort((a, b) => b.totalImpressions - a.totalImpressions);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0]!;
+}
+
+function dateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function roundPosition(position: number | null): number | null {
+  return position === null ? null : Math.round(position * 100) / 100;
+}
+
+// ===========================================
+// Service
+// ===========================================
+
+export class RankTrackingService {
+  private supabase: SupabaseClient;
+  private provider: SerpProvider;
+  private config: RankTrackingConfig;
+
+  constructor(supabase?: SupabaseClient, provider?: SerpProvider, config: RankTrackingConfig = rankTrackingConfig) {
+    this.supabase = supabase || getSupabase();
+    this.provider = provider || new SearchConsoleSerpProvider();
+    this.config = config;
+  }
+
+  /**
+   * Pull rankings for every tracked keyword. days widens the window for a
+   * backfill; the window always ends data_lag_days ago.
+   */
+  async checkRankings(options: { days?: number; now?: Date } = {}): Promise<RankCheckResult> {
+    const today = (options.now || new Date()).toISOString().split('T')[0]!;
+    const endDate = addDays(today, -this.config.data_lag_days);
+    const startDate = addDays(endDate, -((options.days || this.config.lookback_days) - 1));
+
+    const { data: keywords, error } = await this.supabase
+      .from('tracked_keywords')
+      .select('id, keyword, current_rank, current_position, previous_rank, data_date')
+      .order('priority', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get tracked keywords: ${error.message}`);
+    }
+
+    const tracked = (keywords || []) as TrackedKeywordRow[];
+    const result: RankCheckResult = {
+      provider: this.provider.name,
+      startDate,
+      endDate,
+      updated: 0,
+      changes: 0,
+      alerts: 0,
+      cannibalized: 0,
+    };
+
+    if (tracked.length === 0) return result;
+
+    const observations = await this.provider.getObservations(tracked.map((k) => k.keyword), startDate, endDate);
+    const rankings = summarizeDailyRankings(observations, this.config.min_impressions);
+
+    const byQuery = new Map<string, Map<string, DailyKeywordRanking>>();
+    for (const ranking of rankings) {
+      const days = byQuery.get(ranking.query) || new Map();
+      days.set(ranking.date, ranking);
+      byQuery.set(ranking.query, days);
+    }
+
+    for (const keyword of tracked) {
+      try {
+        const days = byQuery.get(normalizeKeyword(keyword.keyword)) || new Map<string, DailyKeywordRanking>();
+        await this.recordHistory(keyword.id, dateRange(startDate, endDate), days);
+
+        // Re-running a check for the same data day keeps the earlier baseline
+        const latest = days.get(endDate) || null;
+        const current = roundPosition(latest?.position ?? null);
+        const isNewDay = keyword.data_date !== endDate;
+        const previous = isNewDay
+          ? keyword.current_position ?? keyword.current_rank
+          : keyword.previous_rank;
+
+        const { error: updateError } = await this.supabase
+          .from('tracked_keywords')
+          .update({
+            ...(isNewDay ? { previous_rank: keyword.current_rank } : {}),
+            current_rank: current === null ? null : Math.round(current),
+            current_position: current,
+            url_ranking: latest?.page || null,
+            data_date: endDate,
+            last_checked: new Date().toISOString(),
+          })
+          .eq('id', keyword.id);
+
+        if (updateError) {
+          throw new Error(`Failed to update keyword: ${updateError.message}`);
+        }
+
+        result.updated++;
+        if (isNewDay && current !== previous) result.changes++;
+
+        // A keyword that has never been checked has no baseline to move from
+        if (isNewDay && keyword.data_date) {
+          const alertTypes = detectRankChanges(previous, current, this.config.significant_change);
+          for (const alertType of alertTypes) {
+            const created = await this.raiseAlert({
+              keyword_id: keyword.id,
+              alert_type: alertType,
+              date: endDate,
+              previous_position: previous,
+              current_position: current,
+              pages: latest ? [latest.page] : null,
+              details: { keyword: keyword.keyword, provider: this.provider.name },
+            });
+            if (created) result.alerts++;
+          }
+
+          if (alertTypes.length > 0) {
+            logger.info(`Rank change for "${keyword.keyword}": ${previous ?? '-'} -> ${current ?? '-'}`, { alertTypes });
+          }
+        }
+      } catch (error) {
+        logger.error(`Failed to record ranking for "${keyword.keyword}"`, error);
+      }
+    }
+
+    const issues = await this.getCannibalization(endDate);
+    result.cannibalized = issues.length;
+    result.alerts += await this.raiseCannibalizationAlerts(tracked, issues, endDate);
+
+    logger.info('Rankings checked', result);
+    return result;
+  }
+
+  /**
+   * Daily history for a keyword, oldest first.
+   */
+  async getRankingTrends(keywordId: string, days: number = 30): Promise<RankingTrend> {
+    const since = addDays(new Date().toISOString().split('T')[0]!, -days);
+
+    const { data: keyword, error: keywordError } = await this.supabase
+      .from('tracked_keywords')
+      .select('keyword')
+      .eq('id', keywordId)
+      .single();
+
+    if (keywordError && keywordError.code !== 'PGRST116') {
+      throw new Error(`Failed to get keyword: ${keywordError.message}`);
+    }
+
+    const { data: history, error } = await this.supabase
+      .from('keyword_history')
+      .select('date, rank, position, url, clicks, impressions')
+      .eq('keyword_id', keywordId)
+      .gte('date', since)
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get keyword history: ${error.message}`);
+    }
+
+    return {
+      keyword: keyword?.keyword || '',
+      history: (history || []).map((h) => ({
+        date: h.date,
+        rank: h.rank,
+        position: h.position === null || h.position === undefined ? null : Number(h.position),
+        url: h.url,
+        clicks: h.clicks || 0,
+        impressions: h.impressions || 0,
+      })),
+    };
+  }
+
+  /**
+   * Cannibalized queries over the configured window, from recorded page rankings.
+   */
+  async getCannibalization(endDate?: string): Promise<CannibalizationIssue[]> {
+    const end = endDate || addDays(new Date().toISOString().split('T')[0]!, -this.config.data_lag_days);
+    const start = addDays(end, -(this.config.cannibalization.window_days - 1));
+
+    const { data, error } = await this.supabase
+      .from('keyword_page_rankings')
+      .select('date, page, position, clicks, impressions, tracked_keywords(keyword)')
+      .gte('date', start)
+      .lte('date', end);
+
+    if (error) {
+      throw new Error(`Failed to get page rankings: ${error.message}`);
+    }
+
+    const observations: SerpObservation[] = (data || []).map((row) => {
+      const related = row.tracked_keywords as unknown as { keyword: string } | { keyword: string }[] | null;
+      const keyword = Array.isArray(related) ? related[0]?.keyword : related?.keyword;
+      return {
+        date: row.date,
+        query: keyword || '',
+        page: row.page,
+        position: Number(row.position),
+        clicks: row.clicks || 0,
+        impressions: row.impressions || 0,
+      };
+    });
+
+    return detectCannibalization(observations.filter((o) => o.query), this.config.cannibalization);
+  }
+
+  /**
+   * Alerts, newest first.
+   */
+  async getAlerts(options: { openOnly?: boolean; limit?: number } = {}): Promise<RankAlert[]> {
+    let query = this.supabase
+      .from('rank_alerts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 100);
+
+    if (options.openOnly) {
+      query = query.is('acknowledged_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get rank alerts: ${error.message}`);
+    }
+
+    return (data || []) as RankAlert[];
+  }
+
+  async acknowledgeAlert(alertId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('rank_alerts')
+      .update({ acknowledged_at: new Date().toISOString() })
+      .eq('id', alertId);
+
+    if (error) {
+      throw new Error(`Failed to acknowledge rank alert: ${error.message}`);
+    }
+  }
+
+  private async recordHistory(
+    keywordId: string,
+    dates: string[],
+    days: Map<string, DailyKeywordRanking>
+  ): Promise<void> {
+    // Days with no impressions are recorded as not ranking
+    const history = dates.map((date) => {
+      const ranking = days.get(date);
+      return {
+        keyword_id: keywordId,
+        date,
+        rank: ranking ? Math.round(ranking.position) : null,
+        position: ranking ? roundPosition(ranking.position) : null,
+        url: ranking?.page || null,
+        clicks: ranking?.clicks || 0,
+        impressions: ranking?.impressions || 0,
+        source: this.provider.name,
+      };
+    });
+
+    const { error: historyError } = await this.supabase
+      .from('keyword_history')
+      .upsert(history, { onConflict: 'keyword_id,date' });
+
+    if (historyError) {
+      throw new Error(`Failed to record keyword history: ${historyError.message}`);
+    }
+
+    const pages = [...days.values()].flatMap((ranking) =>
+      ranking.pages.map((p) => ({
+        keyword_id: keywordId,
+        date: p.date,
+        page: p.page,
+        position: roundPosition(p.position),
+        clicks: p.clicks,
+        impressions: p.impressions,
+      }))
+    );
+
+    if (pages.length === 0) return;
+
+    const { error: pagesError } = await this.supabase
+      .from('keyword_page_rankings')
+      .upsert(pages, { onConflict: 'keyword_id,date,page' });
+
+    if (pagesError) {
+      throw new Error(`Failed to record page rankings: ${pagesError.message}`);
+    }
+  }
+
+  /**
+   * Returns false when the same alert was already raised for that day.
+   */
+  private async raiseAlert(alert: Omit<RankAlert, 'id' | 'created_at' | 'acknowledged_at'>): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('rank_alerts')
+      .upsert(alert, { onConflict: 'keyword_id,alert_type,date', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to raise rank alert', { alert, error: error.message });
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * One open alert per cannibalized keyword; a new one is raised only after
+   * the previous one is acknowledged.
+   */
+  private async raiseCannibalizationAlerts(
+    tracked: TrackedKeywordRow[],
+    issues: CannibalizationIssue[],
+    date: string
+  ): Promise<number> {
+    if (issues.length === 0) return 0;
+
+    const { data: open, error } = await this.supabase
+      .from('rank_alerts')
+      .select('keyword_id')
+      .eq('alert_type', 'cannibalization')
+      .is('acknowledged_at', null);
+
+    if (error) {
+      logger.error('Failed to get open cannibalization alerts', error);
+      return 0;
+    }
+
+    const alreadyOpen = new Set((open || []).map((a) => a.keyword_id));
+    const keywordIds = new Map(tracked.map((k) => [normalizeKeyword(k.keyword), k.id]));
+    let raised = 0;
+
+    for (const issue of issues) {
+      const keywordId = keywordIds.get(issue.query);
+      if (!keywordId || alreadyOpen.has(keywordId)) continue;
+
+      const created = await this.raiseAlert({
+        keyword_id: keywordId,
+        alert_type: 'cannibalization',
+        date,
+        previous_position: null,
+        current_position: issue.pages[0]?.position ?? null,
+        pages: issue.pages.map((p) => p.page),
+        details: { keyword: issue.query, totalImpressions: issue.totalImpressions, pages: issue.pages },
+      });
+      if (created) raised++;
+    }
+
+    return raised;
+  }
+}
+
+// Singleton instance
+let rankTrackingInstance: RankTrackingService | null = null;
+
+export function getRankTrackingService(): RankTrackingService {
+  if (!rankTrackingInstance) {
+    rankTrackingInstance = new RankTrackingService();
+  }
+  return rankTrackingInstance;
+}
@@ -0,0 +1,510 @@
+/**
+ * Regulatory Monitor Service
+ *
+ * Watches SEC/FINRA sources (regulatoryMonitorConfig) through
+ * RegulatoryAdapter and records each new item in regulatory_updates,
+ * classified by its impact on advertising, testimonials and performance
+ * presentation.
+ *
+ * Items that affect our marketing rules get a draft compliance rule set
+ * (stored inactive in compliance_rule_sets) and a review task. Approving
+ * the change activates the draft; nothing is applied without review. A
+ * draft is a full rule-set snapshot, so it is only activated while the rule
+ * set it was built on is still active; otherwise it goes back for a re-draft.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  regulatoryMonitorConfig,
+  type ComplianceCategory,
+  type ComplianceRule,
+  type ComplianceRuleSet,
+  type RegulatoryImpactArea,
+  type RegulatoryMonitorConfig,
+  type RegulatorySource,
+  type RegulatoryUpdateStatus,
+  type RequiredDisclosure,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { ComplianceService } from './compliance-service';
+import { TaskService } from './task-service';
+import { RegulatoryAdapter } from './source-adapters/adapters/regulatory-adapter';
+import { generateContentHash } from './source-adapters/registry';
+import type { IdeaCandidate, SourceAdapter, SourceAdapterConfig } from './source-adapters/types';
+
+const logger = createLogger('regulatory-monitor');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RegulatoryClassification {
+  impactAreas: RegulatoryImpactArea[];
+  categories: ComplianceCategory[];
+  matchedTerms: string[];
+  appliesToAdvisers: boolean;
+  affectsMarketingRules: boolean;
+}
+
+export interface RegulatoryUpdate {
+  id: string;
+  created_at: string;
+  source_id: string;
+  source_name: string;
+  agency: string | null;
+  title: string;
+  url: string | null;
+  published_at: string | null;
+  summary: string | null;
+  content_hash: string;
+  impact_areas: RegulatoryImpactArea[];
+  affected_categories: ComplianceCategory[];
+  matched_terms: string[];
+  affects_marketing_rules: boolean;
+  status: RegulatoryUpdateStatus;
+  draft_rule_version: string | null;
+  base_rule_version: string | null;
+  task_id: string | null;
+  approval_id: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+/**
+ * Changes to the active rule set proposed for one regulatory update.
+ * update_rules replace rules with the same id.
+ */
+export interface RuleChangeProposal {
+  rationale: string;
+  add_rules?: ComplianceRule[];
+  update_rules?: ComplianceRule[];
+  remove_rule_ids?: string[];
+  add_disclosures?: RequiredDisclosure[];
+}
+
+/**
+ * Thrown when a draft is approved after another rule set was activated.
+ * The update is returned to 'new' so the change can be drafted again on
+ * top of the active set.
+ */
+export class StaleRuleChangeError extends Error {
+  constructor(
+    message: string,
+    readonly updateId: string,
+    readonly activeVersion: string
+  ) {
+    super(message);
+    this.name = 'StaleRuleChangeError';
+  }
+}
+
+export interface RegulatoryScanResult {
+  fetched: number;
+  recorded: RegulatoryUpdate[];
+  affecting: RegulatoryUpdate[];
+  errors: string[];
+}
+
+// ===========================================
+// Classification (pure)
+// ===========================================
+
+/**
+ * Decide which of our marketing rule areas an item touches. An item counts
+ * only when it is about advisers or comes from an always-relevant source.
+ */
+export function classifyRegulatoryItem(
+  text: string,
+  source?: Pick<RegulatorySource, 'always_relevant'>,
+  config: Pick<RegulatoryMonitorConfig, 'adviser_patterns' | 'impact_rules'> = regulatoryMonitorConfig
+): RegulatoryClassification {
+  const impactAreas: RegulatoryImpactArea[] = [];
+  const categories = new Set<ComplianceCategory>();
+  const matchedTerms = new Set<string>();
+
+  for (const rule of config.impact_rules) {
+    let matched = false;
+    for (const pattern of rule.patterns) {
+      const match = text.match(new RegExp(pattern, 'i'));
+      if (match) {
+        matched = true;
+        matchedTerms.add(match[0].toLowerCase());
+      }
+    }
+
+    if (matched) {
+      impactAreas.push(rule.area);
+      rule.categories.forEach((category) => categories.add(category));
+    }
+  }
+
+  const appliesToAdvisers = !!source?.always_relevant
+    || config.adviser_patterns.some((pattern) => new RegExp(pattern, 'i').test(text));
+
+  return {
+    impactAreas,
+    categories: [...categories],
+    matchedTerms: [...matchedTerms],
+    appliesToAdvisers,
+    affectsMarketingRules: appliesToAdvisers && impactAreas.length > 0,
+  };
+}
+
+/**
+ * Build the draft rule set for a proposal on top of the current one.
+ */
+export function applyRuleChangeProposal(
+  base: ComplianceRuleSet,
+  proposal: RuleChangeProposal,
+  version: string
+): ComplianceRuleSet {
+  const removed = new Set(proposal.remove_rule_ids || []);
+  const updates = new Map((proposal.update_rules || []).map((rule) => [rule.id, rule]));
+
+  const rules = base.rules
+    .filter((rule) => !removed.has(rule.id))
+    .map((rule) => updates.get(rule.id) || rule);
+
+  const existingIds = new Set(rules.map((rule) => rule.id));
+  for (const rule of proposal.add_rules || []) {
+    if (!existingIds.has(rule.id)) {
+      rules.push(rule);
+      existingIds.add(rule.id);
+    }
+  }
+
+  const disclosureIds = new Set(base.disclosures.map((d) => d.id));
+  const disclosures = [
+    ...base.disclosures,
+    ...(proposal.add_disclosures || []).filter((d) => !disclosureIds.has(d.id)),
+  ];
+
+  return { version, rules, disclosures };
+}
+
+function hashCandidate(idea: IdeaCandidate): string {
+  // Page sources change in place, so their versions are told apart by content
+  const pageHash = idea.metadata?.['contentHash'] as string | undefined;
+  return pageHash ? `${idea.sourceId}:${pageHash}` : generateContentHash(idea);
+}
+
+// ===========================================
+// Service
+// ===========================================
+
+export class RegulatoryMonitorService {
+  private supabase: SupabaseClient;
+  private adapter: SourceAdapter;
+  private config: RegulatoryMonitorConfig;
+  private compliance: ComplianceService;
+  private tasks: TaskService;
+
+  constructor(supabase?: SupabaseClient, adapter?: SourceAdapter, config: RegulatoryMonitorConfig = regulatoryMonitorConfig) {
+    this.supabase = supabase || getSupabase();
+    this.config = config;
+    this.adapter = adapter || new RegulatoryAdapter(config.sources);
+    this.compliance = new ComplianceService(this.supabase);
+    this.tasks = new TaskService(this.supabase);
+  }
+
+  /**
+   * Fetch the sources and record items not seen before.
+   */
+  async scan(): Promise<RegulatoryScanResult> {
+    const adapterConfig: SourceAdapterConfig = {
+      id: this.adapter.sourceId,
+      source_id: this.adapter.sourceId,
+      source_name: this.adapter.sourceName,
+      source_type: this.adapter.sourceType,
+      enabled: true,
+      priority: 0,
+      config: { lookbackDays: this.config.lookback_days },
+      last_fetch_at: null,
+      last_fetch_count: 0,
+      last_fetch_error: null,
+      is_healthy: true,
+    };
+
+    const fetched = await this.adapter.fetch(adapterConfig);
+    const result: RegulatoryScanResult = {
+      fetched: fetched.ideas.length,
+      recorded: [],
+      affecting: [],
+      errors: fetched.error ? [fetched.error] : [],
+    };
+
+    if (!fetched.success) {
+      logger.error('Regulatory sources could not be fetched', { error: fetched.error });
+      return result;
+    }
+
+    const candidates = fetched.ideas.map((idea) => ({ idea, hash: hashCandidate(idea) }));
+    if (candidates.length === 0) return result;
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('regulatory_updates')
+      .select('content_hash')
+      .in('content_hash', candidates.map((c) => c.hash));
+
+    if (existingError) {
+      throw new Error(`Failed to check regulatory updates: ${existingError.message}`);
+    }
+
+    const seen = new Set((existing || []).map((row) => row.content_hash));
+
+    for (const { idea, hash } of candidates) {
+      if (seen.has(hash)) continue;
+      seen.add(hash);
+
+      const source = this.config.sources.find((s) => s.id === idea.sourceId);
+      const classification = classifyRegulatoryItem(
+        [idea.title, idea.summary, idea.fullContent].filter(Boolean).join('\n'),
+        source,
+        this.config
+      );
+
+      const { data, error } = await this.supabase
+        .from('regulatory_updates')
+        .insert({
+          source_id: idea.sourceId,
+          source_name: idea.sourceName,
+          agency: (idea.metadata?.['agency'] as string | undefined) || null,
+          title: idea.title,
+          url: idea.originalUrl || null,
+          published_at: idea.publishedAt?.toISOString() || null,
+          summary: idea.summary || null,
+          content_hash: hash,
+          impact_areas: classification.impactAreas,
+          affected_categories: classification.categories,
+          matched_terms: classification.matchedTerms,
+          affects_marketing_rules: classification.affectsMarketingRules,
+          status: classification.affectsMarketingRules ? 'new' : 'not_applicable',
+        })
+        .select()
+        .single();
+
+      if (error) {
+        result.errors.push(`${idea.title}: ${error.message}`);
+        logger.error('Failed to record regulatory update', { title: idea.title, error: error.message });
+        continue;
+      }
+
+      const update = data as RegulatoryUpdate;
+      result.recorded.push(update);
+      if (update.affects_marketing_rules) result.affecting.push(update);
+    }
+
+    logger.info('Regulatory scan complete', {
+      fetched: result.fetched,
+      recorded: result.recorded.length,
+      affecting: result.affecting.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Save a draft rule set for an update and assign the review task.
+   */
+  async draftRuleChange(
+    updateId: string,
+    proposal: RuleChangeProposal,
+    options: { createdBy?: string } = {}
+  ): Promise<{ version: string; taskId: string | null }> {
+    const update = await this.get(updateId);
+    if (!update) {
+      throw new Error(`Regulatory update not found: ${updateId}`);
+    }
+
+    if (update.draft_rule_version) {
+      throw new Error(`Regulatory update ${updateId} already has draft ${update.draft_rule_version}`);
+    }
+
+    const base = await this.compliance.getActiveRuleSet();
+    const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const version = `${base.version}+reg.${stamp}.${updateId.slice(0, 8)}`;
+    const draft = applyRuleChangeProposal(base, proposal, version);
+
+    await this.compliance.saveDraftRuleSet(draft, {
+      notes: `${proposal.rationale}\n\nSource: ${update.title}${update.url ? ` (${update.url})` : ''}`,
+      createdBy: options.createdBy || 'regulatory-monitor',
+    });
+
+    let taskId: string | null = null;
+    try {
+      const task = await this.tasks.create({
+        assigned_to: this.config.review_assignee,
+        title: `Review compliance rule change: ${update.title}`.slice(0, 200),
+        description: [
+          proposal.rationale,
+          `Impact: ${update.impact_areas.join(', ')}`,
+          `Draft rule set: ${version} (based on ${base.version})`,
+          update.url ? `Source: ${update.url}` : null,
+        ].filter(Boolean).join('\n\n'),
+        priority: 'high',
+        due_date: new Date(Date.now() + this.config.review_due_days * DAY_MS).toISOString(),
+        created_by: 'system',
+        metadata: { regulatory_update_id: updateId, rule_set_version: version },
+      });
+      taskId = task.id;
+    } catch (error) {
+      logger.error('Failed to create rule review task', { updateId, error: String(error) });
+    }
+
+    await this.setFields(updateId, {
+      status: 'draft_pending',
+      draft_rule_version: version,
+      base_rule_version: base.version,
+      task_id: taskId,
+    });
+
+    logger.info('Drafted compliance rule change', { updateId, version });
+    return { version, taskId };
+  }
+
+  /**
+   * Link the approval raised for an update's draft.
+   */
+  async linkApproval(updateId: string, approvalId: string): Promise<void> {
+    await this.setFields(updateId, { approval_id: approvalId });
+  }
+
+  /**
+   * Apply (activate) or reject an update's draft rule set.
+   * Throws StaleRuleChangeError, without activating anything, if the rule
+   * set the draft was built on is no longer the active one.
+   */
+  async resolveRuleChange(updateId: string, approved: boolean, resolvedBy: string = 'system'): Promise<void> {
+    const update = await this.get(updateId);
+    if (!update) {
+      throw new Error(`Regulatory update not found: ${updateId}`);
+    }
+
+    if (update.status !== 'draft_pending' || !update.draft_rule_version) {
+      throw new Error(`Regulatory update ${updateId} has no pending rule change`);
+    }
+
+    if (approved) {
+      const activeVersion = await this.compliance.getActiveRuleSetVersion();
+      if (update.base_rule_version !== activeVersion) {
+        await this.setFields(updateId, {
+          status: 'new',
+          draft_rule_version: null,
+          base_rule_version: null,
+          approval_id: null,
+        });
+
+        logger.warn('Draft rule set is stale, returned for re-draft', {
+          updateId,
+          draft: update.draft_rule_version,
+          base: update.base_rule_version,
+          active: activeVersion,
+        });
+
+        throw new StaleRuleChangeError(
+          `Draft ${update.draft_rule_version} was built on ${update.base_rule_version || 'an unknown rule set'}, ` +
+            `but ${activeVersion} is now active. The change must be drafted again.`,
+          updateId,
+          activeVersion
+        );
+      }
+
+      await this.compliance.activateRuleSet(update.draft_rule_version);
+    }
+
+    await this.setFields(updateId, {
+      status: approved ? 'applied' : 'rejected',
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy,
+    });
+
+    if (update.task_id) {
+      try {
+        await this.tasks.complete(update.task_id);
+      } catch (error) {
+        logger.warn('Failed to complete rule review task', { taskId: update.task_id, error: String(error) });
+      }
+    }
+
+    logger.info(`Compliance rule change ${approved ? 'applied' : 'rejected'}`, {
+      updateId,
+      version: update.draft_rule_version,
+    });
+  }
+
+  async get(updateId: string): Promise<RegulatoryUpdate | null> {
+    const { data, error } = await this.supabase
+      .from('regulatory_updates')
+      .select('*')
+      .eq('id', updateId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get regulatory update: ${error.message}`);
+    }
+
+    return data as RegulatoryUpdate;
+  }
+
+  /**
+   * Updates that affect our rules but have no draft, e.g. because an
+   * earlier draft went stale or drafting failed.
+   */
+  async listAwaitingDraft(limit: number = 20): Promise<RegulatoryUpdate[]> {
+    const { data, error } = await this.supabase
+      .from('regulatory_updates')
+      .select('*')
+      .eq('status', 'new')
+      .eq('affects_marketing_rules', true)
+      .is('draft_rule_version', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list regulatory updates awaiting a draft: ${error.message}`);
+    }
+
+    return (data || []) as RegulatoryUpdate[];
+  }
+
+  async list(options: { status?: RegulatoryUpdateStatus; limit?: number } = {}): Promise<RegulatoryUpdate[]> {
+    let query = this.supabase
+      .from('regulatory_updates')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list regulatory updates: ${error.message}`);
+    }
+
+    return (data || []) as RegulatoryUpdate[];
+  }
+
+  private async setFields(updateId: string, fields: Partial<RegulatoryUpdate>): Promise<void> {
+    const { error } = await this.supabase
+      .from('regulatory_updates')
+      .update(fields)
+      .eq('id', updateId);
+
+    if (error) {
+      throw new Error(`Failed to update regulatory update: ${error.message}`);
+    }
+  }
+}
+
+// Singleton instance
+let regulatoryMonitorInstance: RegulatoryMonitorService | null = null;
+
+export function getRegulatoryMonitorService(): RegulatoryMonitorService {
+  if (!regulatoryMonitorInstance) {
+    regulatoryMonitorInstance = new RegulatoryMonitorService();
+  }
+  return regulatoryMonitorInstance;
+}
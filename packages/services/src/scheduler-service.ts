@@ -0,0 +1,340 @@
+/**
+ * Scheduler Service
+ *
+ * Reads the schedule registry (schedules table) and enqueues due runs into
+ * the job queue:
+ * - worker and route entries are picked up by the dashboard worker
+ * - agent entries are picked up by the @arcvest/agents runner
+ *
+ * Ticks are safe to run from several places (Vercel cron and the agent
+ * runner): each schedule's last_run_at is advanced with a compare-and-set,
+ * so only one ticker enqueues a given run.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  defaultSchedules,
+  schedulerConfig,
+  getCronRuns,
+  isValidCron,
+  parseCron,
+  type CatchUpPolicy,
+  type ScheduleDefinition,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { JobQueueService, type JobType } from './job-queue-service';
+
+const logger = createLogger('scheduler');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface ScheduleRecord extends ScheduleDefinition {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  last_run_at: string | null;
+  last_enqueued_at: string | null;
+  last_job_id: string | null;
+}
+
+export type ScheduleUpdate = Partial<Pick<ScheduleRecord, 'cron' | 'enabled' | 'catch_up' | 'priority' | 'payload' | 'description'>>;
+
+export interface RunPlan {
+  due: Date[];          // Runs to enqueue now
+  latest: Date | null;  // Most recent scheduled time at or before now
+  missed: number;       // Runs dropped by the catch-up policy
+}
+
+export interface TickResult {
+  checked: number;
+  enqueued: Array<{ key: string; jobId: string; scheduledFor: string }>;
+  missed: number;
+  errors: string[];
+}
+
+export interface ScheduledRun {
+  key: string;
+  target: ScheduleDefinition['target'];
+  description: string;
+  scheduledFor: string;
+}
+
+export interface SchedulePreview {
+  from: string;
+  until: string;
+  schedules: Array<{
+    key: string;
+    target: ScheduleDefinition['target'];
+    description: string;
+    cron: string;
+    enabled: boolean;
+    nextRun: string | null;
+    runCount: number;
+  }>;
+  // Runs of schedules firing at most hourly; frequent ones are only counted
+  runs: ScheduledRun[];
+}
+
+/**
+ * Which of a schedule's runs since its last handled run should be enqueued
+ * now, according to its catch-up policy.
+ */
+export function planScheduleRuns(
+  schedule: { cron: string; catch_up: CatchUpPolicy; last_run_at: string | null },
+  now: Date
+): RunPlan {
+  const graceMs = schedulerConfig.grace_minutes * MINUTE_MS;
+  const floor = now.getTime() - schedulerConfig.max_lookback_days * DAY_MS;
+  const after = schedule.last_run_at
+    ? Math.max(new Date(schedule.last_run_at).getTime(), floor)
+    : now.getTime() - graceMs; // First tick: only a run that is due right now
+
+  const runs = getCronRuns(schedule.cron, new Date(after), now, Infinity);
+  const latest = runs[runs.length - 1];
+  if (!latest) {
+    return { due: [], latest: null, missed: 0 };
+  }
+
+  let due: Date[];
+  switch (schedule.catch_up) {
+    case 'skip':
+      due = now.getTime() - latest.getTime() <= graceMs ? [latest] : [];
+      break;
+    case 'all':
+      due = runs.slice(-schedulerConfig.max_catch_up_runs);
+      break;
+    default:
+      due = [latest];
+  }
+
+  return { due, latest, missed: runs.length - due.length };
+}
+
+export class SchedulerService {
+  private supabase: SupabaseClient;
+  private jobQueue: JobQueueService;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.jobQueue = new JobQueueService();
+  }
+
+  /**
+   * Insert default schedules that are missing from the registry.
+   * Existing rows are never overwritten.
+   */
+  async syncDefaults(): Promise<void> {
+    const { error } = await this.supabase
+      .from('schedules')
+      .upsert(defaultSchedules, { onConflict: 'key', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to sync default schedules: ${error.message}`);
+    }
+  }
+
+  /**
+   * All schedules, by key
+   */
+  async list(): Promise<ScheduleRecord[]> {
+    await this.syncDefaults();
+
+    const { data, error } = await this.supabase
+      .from('schedules')
+      .select('*')
+      .order('target')
+      .order('key');
+
+    if (error) {
+      throw new Error(`Failed to list schedules: ${error.message}`);
+    }
+
+    return (data || []) as ScheduleRecord[];
+  }
+
+  /**
+   * Edit a schedule. Changing the cron or re-enabling starts counting from
+   * now, so runs missed in the meantime aren't caught up.
+   */
+  async update(key: string, updates: ScheduleUpdate): Promise<ScheduleRecord> {
+    if (updates.cron !== undefined && !isValidCron(updates.cron)) {
+      throw new Error(`Invalid cron expression: ${updates.cron}`);
+    }
+
+    const { data: current, error: getError } = await this.supabase
+      .from('schedules')
+      .select('*')
+      .eq('key', key)
+      .single();
+
+    if (getError) {
+      if (getError.code === 'PGRST116') {
+        throw new Error(`Schedule not found: ${key}`);
+      }
+      throw new Error(`Failed to get schedule: ${getError.message}`);
+    }
+
+    const schedule = current as ScheduleRecord;
+    const restart =
+      (updates.cron !== undefined && updates.cron.trim() !== schedule.cron) ||
+      (updates.enabled === true && !schedule.enabled);
+
+    const { data, error } = await this.supabase
+      .from('schedules')
+      .update({
+        ...updates,
+        ...(updates.cron !== undefined ? { cron: updates.cron.trim() } : {}),
+        ...(restart ? { last_run_at: new Date().toISOString() } : {}),
+      })
+      .eq('key', key)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update schedule: ${error.message}`);
+    }
+
+    logger.info('Schedule updated', { key, updates });
+    return data as ScheduleRecord;
+  }
+
+  /**
+   * Enqueue every due run
+   */
+  async tick(now: Date = new Date()): Promise<TickResult> {
+    const schedules = (await this.list()).filter((s) => s.enabled);
+    const result: TickResult = { checked: schedules.length, enqueued: [], missed: 0, errors: [] };
+
+    for (const schedule of schedules) {
+      try {
+        await this.tickSchedule(schedule, now, result);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.errors.push(`${schedule.key}: ${errorMsg}`);
+        logger.error('Schedule tick failed', { key: schedule.key, error: errorMsg });
+      }
+    }
+
+    if (result.enqueued.length > 0 || result.missed > 0) {
+      logger.info('Scheduler tick', {
+        enqueued: result.enqueued.map((e) => e.key),
+        missed: result.missed,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Dry run: every execution the registry would produce in the next `days`
+   */
+  async preview(days = schedulerConfig.preview_days, now: Date = new Date()): Promise<SchedulePreview> {
+    const until = new Date(now.getTime() + days * DAY_MS);
+    const schedules = await this.list();
+    const hourlyLimit = days * 24;
+
+    const preview: SchedulePreview = {
+      from: now.toISOString(),
+      until: until.toISOString(),
+      schedules: [],
+      runs: [],
+    };
+
+    for (const schedule of schedules) {
+      let runs: Date[] = [];
+      if (schedule.enabled && isValidCron(schedule.cron)) {
+        runs = getCronRuns(parseCron(schedule.cron), now, until, Infinity);
+      }
+
+      preview.schedules.push({
+        key: schedule.key,
+        target: schedule.target,
+        description: schedule.description,
+        cron: schedule.cron,
+        enabled: schedule.enabled,
+        nextRun: runs[0]?.toISOString() || null,
+        runCount: runs.length,
+      });
+
+      if (runs.length <= hourlyLimit) {
+        preview.runs.push(
+          ...runs.map((run) => ({
+            key: schedule.key,
+            target: schedule.target,
+            description: schedule.description,
+            scheduledFor: run.toISOString(),
+          }))
+        );
+      }
+    }
+
+    preview.runs.sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor) || a.key.localeCompare(b.key));
+    return preview;
+  }
+
+  private async tickSchedule(schedule: ScheduleRecord, now: Date, result: TickResult): Promise<void> {
+    if (!isValidCron(schedule.cron)) {
+      throw new Error(`Invalid cron expression: ${schedule.cron}`);
+    }
+
+    const plan = planScheduleRuns(schedule, now);
+    if (!plan.latest) {
+      return;
+    }
+
+    // Claim the runs; another ticker that got here first wins
+    let claim = this.supabase
+      .from('schedules')
+      .update({ last_run_at: plan.latest.toISOString() })
+      .eq('id', schedule.id);
+    claim = schedule.last_run_at ? claim.eq('last_run_at', schedule.last_run_at) : claim.is('last_run_at', null);
+
+    const { data: claimed, error: claimError } = await claim.select('id');
+
+    if (claimError) {
+      throw new Error(`Failed to claim schedule run: ${claimError.message}`);
+    }
+    if (!claimed || claimed.length === 0) {
+      return;
+    }
+
+    result.missed += plan.missed;
+    if (plan.missed > 0) {
+      logger.warn('Skipped missed runs', { key: schedule.key, missed: plan.missed, policy: schedule.catch_up });
+    }
+
+    let lastJobId: string | null = null;
+    for (const run of plan.due) {
+      const jobId = await this.jobQueue.enqueue(
+        schedule.job_type as JobType,
+        { ...schedule.payload, schedule_key: schedule.key, scheduled_for: run.toISOString() },
+        { priority: schedule.priority, maxAttempts: schedulerConfig.max_attempts }
+      );
+      lastJobId = jobId;
+      result.enqueued.push({ key: schedule.key, jobId, scheduledFor: run.toISOString() });
+    }
+
+    if (lastJobId) {
+      const { error } = await this.supabase
+        .from('schedules')
+        .update({ last_enqueued_at: new Date().toISOString(), last_job_id: lastJobId })
+        .eq('id', schedule.id);
+
+      if (error) {
+        logger.error('Failed to record enqueued run', { key: schedule.key, error: error.message });
+      }
+    }
+  }
+}
+
+// Singleton
+let schedulerInstance: SchedulerService | null = null;
+
+export function getSchedulerService(): SchedulerService {
+  if (!schedulerInstance) {
+    schedulerInstance = new SchedulerService();
+  }
+  return schedulerInstance;
+}
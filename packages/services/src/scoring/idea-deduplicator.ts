@@ -0,0 +1,357 @@
+/**
+ * Idea Deduplicator
+ *
+ * Cross-source dedup stage that runs before scoring. The per-source content
+ * hash only catches exact repeats; when Bloomberg, Abnormal Returns and an
+ * RSS feed cover the same story they arrive as separate ideas. This compares
+ * normalized titles and MinHash content fingerprints against recent ideas and
+ * folds near-duplicates into one cluster, so only the cluster head is scored.
+ */
+
+import {
+  createLogger,
+  ideaDedupConfig,
+  normalizeTitle,
+  shingle,
+  minhashSignature,
+  estimateSimilarity,
+  titleSimilarity,
+} from '@arcvest/shared';
+import { getSupabase } from '../supabase';
+
+const logger = createLogger('idea-deduplicator');
+
+export interface ClusterSourceLink {
+  idea_id: string;
+  source_id: string;
+  source_name: string;
+  title: string;
+  url: string | null;
+  similarity: number | null; // null for the head
+}
+
+export interface IdeaCluster {
+  id: string;
+  head_idea_id: string;
+  title: string;
+  member_count: number;
+  source_links: ClusterSourceLink[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DedupResult {
+  checked: number;
+  heads: number;
+  merged: number;
+  clustersCreated: number;
+}
+
+interface IdeaToCheck {
+  id: string;
+  title: string;
+  summary: string | null;
+  full_content: string | null;
+  source_id: string;
+  source_name: string;
+  original_url: string | null;
+}
+
+interface Candidate {
+  id: string;
+  title: string;
+  source_id: string;
+  source_name: string;
+  original_url: string | null;
+  normalized_title: string | null;
+  minhash_signature: number[] | null;
+  cluster_id: string | null;
+}
+
+interface Fingerprint {
+  normalizedTitle: string;
+  signature: number[];
+}
+
+/**
+ * Fingerprint an idea from its title and the best text available
+ */
+function fingerprint(idea: Pick<IdeaToCheck, 'title' | 'summary' | 'full_content'>): Fingerprint {
+  const shingles = shingle(idea.full_content || idea.summary || '');
+  return {
+    normalizedTitle: normalizeTitle(idea.title),
+    signature: shingles.size >= ideaDedupConfig.min_content_shingles ? minhashSignature(shingles) : [],
+  };
+}
+
+/**
+ * Similarity to a candidate, or null if it isn't the same story
+ */
+function matchScore(print: Fingerprint, candidate: Candidate): number | null {
+  const titleScore = candidate.normalized_title
+    ? titleSimilarity(print.normalizedTitle, candidate.normalized_title)
+    : 0;
+  const contentScore =
+    print.signature.length > 0 && candidate.minhash_signature?.length
+      ? estimateSimilarity(print.signature, candidate.minhash_signature)
+      : 0;
+
+  if (titleScore >= ideaDedupConfig.title_threshold || contentScore >= ideaDedupConfig.content_threshold) {
+    return Math.max(titleScore, contentScore);
+  }
+  return null;
+}
+
+export class IdeaDeduplicator {
+  private _supabase: any = null;
+
+  private get supabase() {
+    if (!this._supabase) {
+      this._supabase = getSupabase();
+    }
+    return this._supabase;
+  }
+
+  constructor() {
+    // Dependencies are lazy-loaded on first access
+  }
+
+  /**
+   * Fingerprint unchecked pending ideas and merge near-duplicates into clusters
+   */
+  async dedupPendingIdeas(options?: { limit?: number; lookbackDays?: number }): Promise<DedupResult> {
+    const limit = options?.limit || 200;
+    const lookbackDays = options?.lookbackDays || ideaDedupConfig.lookback_days;
+    const result: DedupResult = { checked: 0, heads: 0, merged: 0, clustersCreated: 0 };
+
+    // Oldest first, so the first source to report a story stays the head
+    const { data: ideas, error } = await this.supabase
+      .from('idea_queue')
+      .select('id, title, summary, full_content, source_id, source_name, original_url')
+      .eq('status', 'pending')
+      .is('dedup_checked_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch ideas for dedup: ${error.message}`);
+    }
+
+    if (!ideas || ideas.length === 0) {
+      return result;
+    }
+
+    const candidates = await this.getRecentHeads(lookbackDays);
+    const clusters = new Map<string, IdeaCluster>();
+
+    for (const idea of ideas as IdeaToCheck[]) {
+      const print = fingerprint(idea);
+      const now = new Date().toISOString();
+
+      let best: { candidate: Candidate; score: number } | null = null;
+      for (const candidate of candidates) {
+        // Same-source repeats are already caught by the content hash
+        if (candidate.source_id === idea.source_id) continue;
+        const score = matchScore(print, candidate);
+        if (score !== null && (!best || score > best.score)) {
+          best = { candidate, score };
+        }
+      }
+
+      try {
+        if (best) {
+          const cluster = await this.getOrCreateCluster(best.candidate, clusters, result);
+          await this.addToCluster(cluster, idea, best.score);
+
+          const { error: updateError } = await this.supabase
+            .from('idea_queue')
+            .update({
+              normalized_title: print.normalizedTitle,
+              minhash_signature: print.signature,
+              dedup_checked_at: now,
+              cluster_id: cluster.id,
+              is_cluster_head: false,
+              status: 'merged',
+              updated_at: now,
+            })
+            .eq('id', idea.id);
+
+          if (updateError) throw new Error(updateError.message);
+
+          result.merged++;
+          logger.debug(`Merged "${idea.title}" into cluster "${cluster.title}"`, { score: best.score });
+        } else {
+          const { error: updateError } = await this.supabase
+            .from('idea_queue')
+            .update({
+              normalized_title: print.normalizedTitle,
+              minhash_signature: print.signature,
+              dedup_checked_at: now,
+              is_cluster_head: true,
+              updated_at: now,
+            })
+            .eq('id', idea.id);
+
+          if (updateError) throw new Error(updateError.message);
+
+          candidates.push({
+            id: idea.id,
+            title: idea.title,
+            source_id: idea.source_id,
+            source_name: idea.source_name,
+            original_url: idea.original_url,
+            normalized_title: print.normalizedTitle,
+            minhash_signature: print.signature,
+            cluster_id: null,
+          });
+          result.heads++;
+        }
+        result.checked++;
+      } catch (err) {
+        // Left unchecked; picked up again on the next run
+        logger.error(`Failed to dedup idea ${idea.id}`, err);
+      }
+    }
+
+    logger.info(`Dedup checked ${result.checked} ideas: ${result.heads} heads, ${result.merged} merged`);
+    return result;
+  }
+
+  /**
+   * Get a cluster with its source links
+   */
+  async getCluster(clusterId: string): Promise<IdeaCluster | null> {
+    const { data, error } = await this.supabase
+      .from('idea_clusters')
+      .select('*')
+      .eq('id', clusterId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get idea cluster: ${error.message}`);
+    }
+
+    return data as IdeaCluster | null;
+  }
+
+  /**
+   * Cluster heads from the lookback window that have been fingerprinted
+   */
+  private async getRecentHeads(lookbackDays: number): Promise<Candidate[]> {
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('idea_queue')
+      .select('id, title, source_id, source_name, original_url, normalized_title, minhash_signature, cluster_id')
+      .eq('is_cluster_head', true)
+      .not('dedup_checked_at', 'is', null)
+      .gte('created_at', since);
+
+    if (error) {
+      throw new Error(`Failed to fetch recent ideas for dedup: ${error.message}`);
+    }
+
+    return (data || []) as Candidate[];
+  }
+
+  /**
+   * The head's cluster, created on the first merge
+   */
+  private async getOrCreateCluster(
+    head: Candidate,
+    clusters: Map<string, IdeaCluster>,
+    result: DedupResult
+  ): Promise<IdeaCluster> {
+    if (head.cluster_id) {
+      const cached = clusters.get(head.cluster_id);
+      if (cached) return cached;
+
+      const existing = await this.getCluster(head.cluster_id);
+      if (existing) {
+        clusters.set(existing.id, existing);
+        return existing;
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('idea_clusters')
+      .insert({
+        head_idea_id: head.id,
+        title: head.title,
+        member_count: 1,
+        source_links: [
+          {
+            idea_id: head.id,
+            source_id: head.source_id,
+            source_name: head.source_name,
+            title: head.title,
+            url: head.original_url,
+            similarity: null,
+          },
+        ],
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create idea cluster: ${error.message}`);
+    }
+
+    const { error: headError } = await this.supabase
+      .from('idea_queue')
+      .update({ cluster_id: data.id, updated_at: new Date().toISOString() })
+      .eq('id', head.id);
+
+    if (headError) {
+      throw new Error(`Failed to link cluster head: ${headError.message}`);
+    }
+
+    head.cluster_id = data.id;
+    clusters.set(data.id, data as IdeaCluster);
+    result.clustersCreated++;
+    return data as IdeaCluster;
+  }
+
+  /**
+   * Append an idea's source link to the cluster
+   */
+  private async addToCluster(cluster: IdeaCluster, idea: IdeaToCheck, similarity: number): Promise<void> {
+    const sourceLinks = [
+      ...cluster.source_links,
+      {
+        idea_id: idea.id,
+        source_id: idea.source_id,
+        source_name: idea.source_name,
+        title: idea.title,
+        url: idea.original_url,
+        similarity: Math.round(similarity * 100) / 100,
+      },
+    ];
+
+    const { error } = await this.supabase
+      .from('idea_clusters')
+      .update({
+        source_links: sourceLinks,
+        member_count: cluster.member_count + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', cluster.id);
+
+    if (error) {
+      throw new Error(`Failed to update idea cluster: ${error.message}`);
+    }
+
+    cluster.source_links = sourceLinks;
+    cluster.member_count += 1;
+  }
+}
+
+// Singleton
+let deduplicatorInstance: IdeaDeduplicator | null = null;
+
+export function getIdeaDeduplicator(): IdeaDeduplicator {
+  if (!deduplicatorInstance) {
+    deduplicatorInstance = new IdeaDeduplicator();
+  }
+  return deduplicatorInstance;
+}
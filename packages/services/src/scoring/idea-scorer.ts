@@ -1,13 +1,14 @@
 /**
  * Idea Scorer Service
  *
- * Uses Claude AI to score content ideas on relevance to ArcVest's audience.
+ * Uses the LLM gateway (task 'ideas.score') to score content ideas on relevance to ArcVest's audience.
  * Scores are 0-100 with breakdown by criteria.
  */
 
 import { createLogger } from '@arcvest/shared';
 import { getSupabase } from '../supabase';
-import Anthropic from '@anthropic-ai/sdk';
+import { getIdeaDeduplicator } from './idea-deduplicator';
+import { getLlmGateway, type LlmGateway } from '../llm';
 
 const logger = createLogger('idea-scorer');
 
@@ -31,11 +32,13 @@ interface IdeaToScore {
   source_name: string;
   original_url: string | null;
   tags: string[] | null;
+  cluster_id?: string | null;
+  also_covered_by?: string[]; // Other sources in the idea's cluster
 }
 
 export class IdeaScorer {
   private _supabase: any = null;
-  private _anthropic: Anthropic | null = null;
+  private _llm: LlmGateway | null = null;
 
   private get supabase() {
     if (!this._supabase) {
@@ -44,13 +47,11 @@ export class IdeaScorer {
     return this._supabase;
   }
 
-  private get anthropic(): Anthropic {
-    if (!this._anthropic) {
-      this._anthropic = new Anthropic({
-        apiKey: process.env['ANTHROPIC_API_KEY'],
-      });
+  private get llm(): LlmGateway {
+    if (!this._llm) {
+      this._llm = getLlmGateway();
     }
-    return this._anthropic;
+    return this._llm;
   }
 
   constructor() {
@@ -72,7 +73,8 @@ Title: ${idea.title}
 Source: ${idea.source_name}
 Content: ${truncatedContent}
 Tags: ${(idea.tags || []).join(', ')}
-URL: ${idea.original_url || 'N/A'}
+URL: ${idea.original_url || 'N/A'}${idea.also_covered_by?.length ? `
+Also covered by: ${idea.also_covered_by.join(', ')}` : ''}
 
 ArcVest focuses on:
 - Evidence-based investing (index funds, factor investing)
@@ -101,15 +103,11 @@ Respond with JSON only:
 }`;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-haiku-20241022',
-        max_tokens: 500,
-        messages: [{ role: 'user', content: prompt }],
+      const { text } = await this.llm.complete('ideas.score', { prompt }, {
+        feature: 'idea_scoring',
+        correlationId: idea.id,
       });
 
-      const firstContent = response.content[0];
-      const text = firstContent && firstContent.type === 'text' ? firstContent.text : '';
-
       // Parse JSON from response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
@@ -127,7 +125,7 @@ Respond with JSON only:
         };
       }
 
-      throw new Error('Failed to parse Claude response');
+      throw new Error('Failed to parse scoring response');
     } catch (error) {
       logger.error('Failed to score idea', { ideaId: idea.id, error });
       // Return a default low score on error
@@ -141,19 +139,32 @@ Respond with JSON only:
   }
 
   /**
-   * Score all pending ideas
+   * Score all pending ideas. Near-duplicates are merged into clusters first,
+   * so only cluster heads are sent for scoring.
    */
-  async scorePendingIdeas(options?: { limit?: number }): Promise<{
+  async scorePendingIdeas(options?: { limit?: number; skipDedup?: boolean }): Promise<{
     scored: number;
     errors: number;
+    merged: number;
     results: Array<{ id: string; title: string; score: number }>;
   }> {
     const limit = options?.limit || 50;
+    let merged = 0;
+
+    if (!options?.skipDedup) {
+      try {
+        const dedup = await getIdeaDeduplicator().dedupPendingIdeas();
+        merged = dedup.merged;
+      } catch (error) {
+        // Scoring duplicates costs tokens but is better than scoring nothing
+        logger.error('Dedup failed, scoring without it', error);
+      }
+    }
 
-    // Fetch pending ideas
+    // Fetch pending ideas (merged duplicates have status 'merged')
     const { data: ideas, error } = await this.supabase
       .from('idea_queue')
-      .select('id, title, summary, full_content, source_name, original_url, tags')
+      .select('id, title, summary, full_content, source_name, original_url, tags, cluster_id')
       .eq('status', 'pending')
       .order('created_at', { ascending: false })
       .limit(limit);
@@ -165,9 +176,11 @@ Respond with JSON only:
 
     if (!ideas || ideas.length === 0) {
       logger.info('No pending ideas to score');
-      return { scored: 0, errors: 0, results: [] };
+      return { scored: 0, errors: 0, merged, results: [] };
     }
 
+    await this.attachClusterSources(ideas);
+
     logger.info(`Scoring ${ideas.length} pending ideas`);
 
     const results: Array<{ id: string; title: string; score: number }> = [];
@@ -211,7 +224,33 @@ Respond with JSON only:
     }
 
     logger.info(`Scored ${results.length} ideas, ${errors} errors`);
-    return { scored: results.length, errors, results };
+    return { scored: results.length, errors, merged, results };
+  }
+
+  /**
+   * Fill in the other sources covering each clustered idea
+   */
+  private async attachClusterSources(ideas: IdeaToScore[]): Promise<void> {
+    const clusterIds = [...new Set(ideas.map((i) => i.cluster_id).filter((id): id is string => !!id))];
+    if (clusterIds.length === 0) return;
+
+    const { data, error } = await this.supabase
+      .from('idea_clusters')
+      .select('id, head_idea_id, source_links')
+      .in('id', clusterIds);
+
+    if (error) {
+      logger.warn('Failed to load idea clusters', { error: error.message });
+      return;
+    }
+
+    for (const idea of ideas) {
+      const cluster = (data || []).find((c: { id: string }) => c.id === idea.cluster_id);
+      if (!cluster) continue;
+      idea.also_covered_by = (cluster.source_links as Array<{ idea_id: string; source_name: string }>)
+        .filter((link) => link.idea_id !== idea.id)
+        .map((link) => link.source_name);
+    }
   }
 
   /**
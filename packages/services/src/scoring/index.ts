@@ -3,3 +3,10 @@
  */
 
 export { IdeaScorer, getIdeaScorer } from './idea-scorer';
+export {
+  IdeaDeduplicator,
+  getIdeaDeduplicator,
+  type IdeaCluster,
+  type ClusterSourceLink,
+  type DedupResult,
+} from './idea-deduplicator';
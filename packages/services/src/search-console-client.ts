@@ -0,0 +1,159 @@
+/**
+ * Google Search Console API Client
+ *
+ * Uses the shared Google OAuth refresh token to query Search Analytics.
+ * Used by rank tracking from outside the dashboard (agents, workers).
+ */
+
+import { rankTrackingConfig } from '@arcvest/shared';
+
+export type SearchAnalyticsDimension = 'date' | 'query' | 'page' | 'device' | 'country';
+
+export interface SearchAnalyticsFilter {
+  dimension: SearchAnalyticsDimension;
+  operator: 'equals' | 'notEquals' | 'contains' | 'notContains' | 'includingRegex' | 'excludingRegex';
+  expression: string;
+}
+
+export interface SearchAnalyticsQuery {
+  startDate: string;   // YYYY-MM-DD
+  endDate: string;
+  dimensions: SearchAnalyticsDimension[];
+  filters?: SearchAnalyticsFilter[];
+  rowLimit?: number;   // API maximum is 25000
+  startRow?: number;
+}
+
+export interface SearchAnalyticsRow {
+  keys?: string[];
+  clicks?: number;
+  impressions?: number;
+  ctr?: number;
+  position?: number;
+}
+
+interface SearchAnalyticsResponse {
+  rows?: SearchAnalyticsRow[];
+  responseAggregationType?: string;
+}
+
+export class SearchConsoleClient {
+  private accessToken: string | null = null;
+  private tokenExpiry: number = 0;
+  private siteUrl: string;
+
+  constructor(siteUrl?: string) {
+    this.siteUrl = siteUrl || process.env['SEARCH_CONSOLE_SITE_URL'] || rankTrackingConfig.site_url;
+  }
+
+  isConfigured(): boolean {
+    return !!(
+      process.env['GOOGLE_CLIENT_ID'] &&
+      process.env['GOOGLE_CLIENT_SECRET'] &&
+      process.env['GOOGLE_REFRESH_TOKEN']
+    );
+  }
+
+  /**
+   * Get a valid access token, refreshing if necessary
+   */
+  private async getAccessToken(): Promise<string> {
+    // Return cached token if still valid (with 5 min buffer)
+    if (this.accessToken && Date.now() < this.tokenExpiry - 300000) {
+      return this.accessToken;
+    }
+
+    const clientId = process.env['GOOGLE_CLIENT_ID'];
+    const clientSecret = process.env['GOOGLE_CLIENT_SECRET'];
+    const refreshToken = process.env['GOOGLE_REFRESH_TOKEN'];
+
+    if (!clientId || !clientSecret || !refreshToken) {
+      throw new Error('Google OAuth credentials not configured');
+    }
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: refreshToken,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.error) {
+      throw new Error(`Token refresh failed: ${data.error_description || data.error}`);
+    }
+
+    this.accessToken = data.access_token;
+    this.tokenExpiry = Date.now() + (data.expires_in * 1000);
+
+    return this.accessToken as string;
+  }
+
+  /**
+   * Query the Search Analytics API
+   */
+  async querySearchAnalytics(query: SearchAnalyticsQuery): Promise<SearchAnalyticsRow[]> {
+    const accessToken = await this.getAccessToken();
+    const encodedSiteUrl = encodeURIComponent(this.siteUrl);
+
+    const response = await fetch(
+      `https://www.googleapis.com/webmasters/v3/sites/${encodedSiteUrl}/searchAnalytics/query`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          startDate: query.startDate,
+          endDate: query.endDate,
+          dimensions: query.dimensions,
+          rowLimit: query.rowLimit || 1000,
+          startRow: query.startRow || 0,
+          ...(query.filters && query.filters.length > 0
+            ? { dimensionFilterGroups: [{ groupType: 'and', filters: query.filters }] }
+            : {}),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Search Console API error: ${error}`);
+    }
+
+    const data = (await response.json()) as SearchAnalyticsResponse;
+    return data.rows || [];
+  }
+
+  /**
+   * Page through every row of a query
+   */
+  async queryAllRows(query: SearchAnalyticsQuery, maxRows = 100000): Promise<SearchAnalyticsRow[]> {
+    const pageSize = 25000;
+    const rows: SearchAnalyticsRow[] = [];
+
+    while (rows.length < maxRows) {
+      const page = await this.querySearchAnalytics({ ...query, rowLimit: pageSize, startRow: rows.length });
+      rows.push(...page);
+      if (page.length < pageSize) break;
+    }
+
+    return rows;
+  }
+}
+
+// Singleton instance
+let clientInstance: SearchConsoleClient | null = null;
+
+export function getSearchConsoleClient(): SearchConsoleClient {
+  if (!clientInstance) {
+    clientInstance = new SearchConsoleClient();
+  }
+  return clientInstance;
+}
@@ -0,0 +1,513 @@
+/**
+ * Sequence Dispatcher
+ *
+ * Delivers due email sequence steps through Gmail:
+ * - Merges step templates with contact fields
+ * - Checks each merged email against the active compliance rules; a blocked
+ *   step pauses the enrollment until the template is fixed
+ * - Claims each step in sequence_step_sends before sending, so concurrent
+ *   runs and retry jobs never send the same step twice
+ * - Logs each send as an interaction and advances the enrollment
+ * - Enforces the daily send cap and quiet hours
+ * - Retries failed sends through the job queue (sequence_send jobs); once
+ *   the last retry fails, the step is released, the enrollment paused and
+ *   the team notified
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  sequenceSendingConfig,
+  getLocalHour,
+  isWithinQuietHours,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { EventBus } from './event-bus';
+import { SequenceService, type EmailQueueItem } from './sequence-service';
+import { ContactService } from './contact-service';
+import { InteractionService } from './interaction-service';
+import { GmailService } from './gmail-service';
+import { JobQueueService } from './job-queue-service';
+import { ComplianceArchiveService } from './compliance-archive-service';
+import { ComplianceService } from './compliance-service';
+import { NotificationService } from './notification-service';
+
+const logger = createLogger('sequence-dispatcher');
+
+export interface DispatchOptions {
+  limit?: number;             // Max emails to send this run (still bounded by the daily cap)
+  ignoreQuietHours?: boolean; // For manual sends from the dashboard
+}
+
+export interface DispatchResult {
+  sent: number;
+  failed: number;
+  retriesQueued: number;
+  deferred: number;           // Due emails left for a later run because of the cap or limit
+  claimed: number;            // Due emails another run or a retry job is handling
+  blocked: number;            // Enrollments paused because the email failed compliance
+  skippedReason?: 'quiet_hours' | 'daily_cap_reached';
+  errors: string[];
+}
+
+export interface SequenceSendPayload {
+  enrollment_id: string;
+  step_order: number;
+}
+
+export interface RetrySendOptions {
+  finalAttempt?: boolean;     // The job has no attempts left after this one
+}
+
+export interface RetrySendResult {
+  sent: boolean;
+  reason?: 'no_longer_due' | 'claimed' | 'compliance_blocked' | 'quiet_hours' | 'daily_cap_reached';
+}
+
+// Outcome of trying to claim a step: ours to send, already sent, or held elsewhere
+type StepClaim = 'claimed' | 'sent' | 'busy';
+
+export class SequenceDispatcher {
+  private supabase: SupabaseClient;
+  private sequenceService: SequenceService;
+  private contactService: ContactService;
+  private interactionService: InteractionService;
+  private gmailService: GmailService;
+  private jobQueue: JobQueueService;
+  private archive: ComplianceArchiveService;
+  private compliance: ComplianceService;
+  private notifications: NotificationService;
+  private config = sequenceSendingConfig;
+
+  constructor(supabase?: SupabaseClient, gmailService?: GmailService, jobQueue?: JobQueueService) {
+    this.supabase = supabase || getSupabase();
+    this.sequenceService = new SequenceService(this.supabase);
+    this.contactService = new ContactService(this.supabase);
+    this.interactionService = new InteractionService(this.supabase);
+    this.gmailService = gmailService || new GmailService();
+    this.jobQueue = jobQueue || new JobQueueService();
+    this.archive = new ComplianceArchiveService(this.supabase);
+    this.compliance = new ComplianceService(this.supabase);
+    this.notifications = new NotificationService(this.supabase);
+  }
+
+  /**
+   * Send every due sequence email, up to the remaining daily cap.
+   */
+  async dispatch(options: DispatchOptions = {}): Promise<DispatchResult> {
+    const result: DispatchResult = {
+      sent: 0,
+      failed: 0,
+      retriesQueued: 0,
+      deferred: 0,
+      claimed: 0,
+      blocked: 0,
+      errors: [],
+    };
+
+    if (!options.ignoreQuietHours && this.inQuietHours()) {
+      logger.info('Quiet hours in effect, skipping sequence dispatch');
+      result.skippedReason = 'quiet_hours';
+      return result;
+    }
+
+    const remaining = await this.getRemainingDailyCapacity();
+    const queue = await this.sequenceService.processEmailQueue();
+
+    if (remaining <= 0) {
+      logger.warn('Daily sequence send cap reached', { cap: this.config.daily_send_cap });
+      result.skippedReason = 'daily_cap_reached';
+      result.deferred = queue.length;
+      return result;
+    }
+
+    const batchSize = Math.min(remaining, options.limit ?? remaining);
+    const batch = queue.slice(0, batchSize);
+    result.deferred = queue.length - batch.length;
+
+    for (const item of batch) {
+      let claim: StepClaim;
+      try {
+        claim = await this.claimStep(item, false);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Enrollment ${item.enrollment_id}: ${errorMsg}`);
+        logger.error('Failed to claim sequence step', { enrollmentId: item.enrollment_id, error: errorMsg });
+        continue;
+      }
+
+      if (claim === 'sent') {
+        // Sent on an earlier run whose bookkeeping failed; only advance
+        await this.advanceSafely(item);
+        continue;
+      }
+      if (claim === 'busy') {
+        result.claimed++;
+        continue;
+      }
+
+      try {
+        if (await this.sendQueueItem(item)) {
+          result.sent++;
+        } else {
+          result.blocked++;
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.failed++;
+        result.errors.push(`Enrollment ${item.enrollment_id}: ${errorMsg}`);
+        logger.error('Sequence send failed', { enrollmentId: item.enrollment_id, error: errorMsg });
+
+        // Hand the step to the retry job; if it can't be queued, release it for the next run
+        await this.markStepFailed(item, errorMsg);
+        if (await this.queueRetry(item)) {
+          result.retriesQueued++;
+        } else {
+          await this.releaseStep(item);
+        }
+      }
+    }
+
+    logger.info('Sequence dispatch complete', {
+      sent: result.sent,
+      failed: result.failed,
+      deferred: result.deferred,
+      claimed: result.claimed,
+      blocked: result.blocked,
+    });
+
+    return result;
+  }
+
+  /**
+   * Retry a single failed step (handler for sequence_send jobs).
+   * Throws if the send fails again so the job queue applies its backoff.
+   * On the job's final attempt a failure gives the step up instead of
+   * leaving it 'failed', which no dispatch run would ever claim again.
+   */
+  async retrySend(payload: SequenceSendPayload, options: RetrySendOptions = {}): Promise<RetrySendResult> {
+    const item = await this.sequenceService.getEmailQueueItem(payload.enrollment_id);
+
+    // Enrollment was paused, unsubscribed, or already advanced past this step
+    if (!item || item.step_order !== payload.step_order) {
+      return { sent: false, reason: 'no_longer_due' };
+    }
+
+    if (this.inQuietHours()) {
+      await this.queueRetry(item, this.secondsUntilQuietHoursEnd());
+      return { sent: false, reason: 'quiet_hours' };
+    }
+
+    if ((await this.getRemainingDailyCapacity()) <= 0) {
+      await this.queueRetry(item, 60 * 60);
+      return { sent: false, reason: 'daily_cap_reached' };
+    }
+
+    const claim = await this.claimStep(item, true);
+    if (claim === 'sent') {
+      await this.advanceSafely(item);
+      return { sent: false, reason: 'no_longer_due' };
+    }
+    if (claim === 'busy') {
+      return { sent: false, reason: 'claimed' };
+    }
+
+    try {
+      return (await this.sendQueueItem(item)) ? { sent: true } : { sent: false, reason: 'compliance_blocked' };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (options.finalAttempt) {
+        await this.giveUpStep(item, errorMsg);
+      } else {
+        await this.markStepFailed(item, errorMsg);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim a step before sending it. The insert into sequence_step_sends is
+   * unique per enrollment step, so only one run holds a step at a time.
+   * A 'sending' claim past claimed_until (its run died) can be taken over;
+   * 'failed' steps can only be claimed back by the retry job.
+   */
+  private async claimStep(item: EmailQueueItem, forRetry: boolean): Promise<StepClaim> {
+    const now = new Date();
+    const claimedUntil = new Date(now.getTime() + this.config.claim_ttl_minutes * 60 * 1000).toISOString();
+
+    const { error } = await this.supabase.from('sequence_step_sends').insert({
+      enrollment_id: item.enrollment_id,
+      step_order: item.step_order,
+      status: 'sending',
+      claimed_until: claimedUntil,
+    });
+
+    if (!error) {
+      return 'claimed';
+    }
+    if (error.code !== '23505') {
+      throw new Error(`Failed to claim sequence step: ${error.message}`);
+    }
+
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('sequence_step_sends')
+      .select('status')
+      .eq('enrollment_id', item.enrollment_id)
+      .eq('step_order', item.step_order)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to read sequence step claim: ${fetchError.message}`);
+    }
+    if (existing.status === 'sent') {
+      return 'sent';
+    }
+
+    const stale = `and(status.eq.sending,claimed_until.lt.${now.toISOString()})`;
+    const { data: taken, error: takeError } = await this.supabase
+      .from('sequence_step_sends')
+      .update({ status: 'sending', claimed_until: claimedUntil, error_message: null })
+      .eq('enrollment_id', item.enrollment_id)
+      .eq('step_order', item.step_order)
+      .or(forRetry ? `status.eq.failed,${stale}` : stale)
+      .select('id');
+
+    if (takeError) {
+      throw new Error(`Failed to take over sequence step claim: ${takeError.message}`);
+    }
+
+    return taken && taken.length > 0 ? 'claimed' : 'busy';
+  }
+
+  private async markStepFailed(item: EmailQueueItem, errorMessage: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('sequence_step_sends')
+      .update({ status: 'failed', claimed_until: null, error_message: errorMessage })
+      .eq('enrollment_id', item.enrollment_id)
+      .eq('step_order', item.step_order)
+      .eq('status', 'sending');
+
+    if (error) {
+      logger.error('Failed to mark sequence step failed', { enrollmentId: item.enrollment_id, error: error.message });
+    }
+  }
+
+  private async releaseStep(item: EmailQueueItem): Promise<void> {
+    await this.supabase
+      .from('sequence_step_sends')
+      .delete()
+      .eq('enrollment_id', item.enrollment_id)
+      .eq('step_order', item.step_order)
+      .neq('status', 'sent');
+  }
+
+  /**
+   * Out of retries: release the step so it is sent again once the enrollment
+   * is resumed, pause the enrollment so dispatch stops picking it up, and
+   * tell the team.
+   */
+  private async giveUpStep(item: EmailQueueItem, errorMessage: string): Promise<void> {
+    await this.releaseStep(item);
+
+    try {
+      await this.sequenceService.pause(item.enrollment_id);
+    } catch (error) {
+      logger.error('Failed to pause sequence enrollment', {
+        enrollmentId: item.enrollment_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.warn('Sequence step out of retries, enrollment paused', {
+      enrollmentId: item.enrollment_id,
+      stepOrder: item.step_order,
+      error: errorMessage,
+    });
+
+    await this.notifications.notify({
+      source: 'job',
+      severity: 'warning',
+      title: 'Sequence email could not be sent',
+      message: `Step ${item.step_order} of "${item.sequence_name}" to ${item.email} failed after ${this.config.retry.max_attempts} retries: ${errorMessage}. The enrollment is paused.`,
+      dedupKey: `sequence_send:${item.enrollment_id}:${item.step_order}`,
+      details: { enrollmentId: item.enrollment_id, sequenceId: item.sequence_id, stepOrder: item.step_order, error: errorMessage },
+    });
+  }
+
+  private async advanceSafely(item: EmailQueueItem): Promise<void> {
+    try {
+      await this.sequenceService.advance(item.enrollment_id, item.step_order);
+    } catch (error) {
+      logger.error('Failed to advance sequence enrollment', {
+        enrollmentId: item.enrollment_id,
+        stepOrder: item.step_order,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Send one claimed step and record it. Returns false, without sending, if
+   * the merged email fails compliance: the check is recorded, the claim
+   * released and the enrollment paused, since a retry would fail the same way.
+   * Only the Gmail send can throw. The step is marked sent straight after,
+   * so if logging or advancing then fails the next run only advances it.
+   */
+  private async sendQueueItem(item: EmailQueueItem): Promise<boolean> {
+    const contact = await this.contactService.getById(item.contact_id);
+    if (!contact) {
+      throw new Error(`Contact not found: ${item.contact_id}`);
+    }
+
+    const subject = this.sequenceService.mergeTemplateFields(item.subject, contact);
+    const body = this.sequenceService.mergeTemplateFields(item.body, contact);
+
+    const compliance = await this.compliance.check(`${subject}\n\n${body}`, 'sequence_email');
+    if (!compliance.passed) {
+      await this.compliance.record('email_sequence_steps', null, compliance);
+      await this.releaseStep(item);
+      await this.sequenceService.pause(item.enrollment_id);
+
+      logger.warn('Sequence email failed compliance, enrollment paused', {
+        enrollmentId: item.enrollment_id,
+        sequenceId: item.sequence_id,
+        stepOrder: item.step_order,
+        findings: compliance.findings.map((f) => f.message),
+      });
+      return false;
+    }
+
+    const sent = await this.gmailService.sendEmail({
+      to: contact.email,
+      subject,
+      body,
+      skipInteractionLog: true,
+    });
+
+    const { error: markError } = await this.supabase
+      .from('sequence_step_sends')
+      .update({ status: 'sent', sent_at: new Date().toISOString(), gmail_message_id: sent.id, claimed_until: null })
+      .eq('enrollment_id', item.enrollment_id)
+      .eq('step_order', item.step_order);
+
+    if (markError) {
+      logger.error('Sequence email sent but not marked sent', {
+        enrollmentId: item.enrollment_id,
+        messageId: sent.id,
+        error: markError.message,
+      });
+    }
+
+    try {
+      await this.interactionService.logEmailSent(contact.id, subject, {
+        gmailMessageId: sent.id,
+        gmailThreadId: sent.threadId,
+        summary: body.substring(0, 500),
+        metadata: {
+          sequence_id: item.sequence_id,
+          enrollment_id: item.enrollment_id,
+          step_order: item.step_order,
+        },
+      });
+
+      await this.sequenceService.advance(item.enrollment_id, item.step_order);
+    } catch (error) {
+      logger.error('Sequence email sent but bookkeeping failed', {
+        enrollmentId: item.enrollment_id,
+        messageId: sent.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await this.archive.archiveSafely({
+      channel: 'gmail',
+      artifactType: 'email',
+      artifactId: sent.id,
+      title: subject,
+      content: { to: contact.email, subject, body },
+      contentText: `${subject}\n\n${body}`,
+      contentType: 'sequence_email',
+      complianceCheck: compliance,
+      externalId: sent.id,
+      publishedBy: 'sequence_dispatcher',
+      metadata: {
+        sequence_id: item.sequence_id,
+        enrollment_id: item.enrollment_id,
+        step_order: item.step_order,
+        thread_id: sent.threadId,
+      },
+    });
+
+    EventBus.emit('sequence:email_sent', {
+      contactId: contact.id,
+      sequenceId: item.sequence_id,
+      stepOrder: item.step_order,
+    });
+
+    return true;
+  }
+
+  /**
+   * Queue a sequence_send job for a failed or deferred step.
+   */
+  private async queueRetry(item: EmailQueueItem, delaySeconds?: number): Promise<boolean> {
+    const payload: SequenceSendPayload = {
+      enrollment_id: item.enrollment_id,
+      step_order: item.step_order,
+    };
+
+    try {
+      await this.jobQueue.enqueue('sequence_send', { ...payload }, {
+        maxAttempts: this.config.retry.max_attempts,
+        delaySeconds: delaySeconds ?? this.config.retry.delay_seconds,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to queue sequence send retry', {
+        enrollmentId: item.enrollment_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Sequence emails sent in the last 24 hours count against the cap.
+   */
+  private async getRemainingDailyCapacity(): Promise<number> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+    const { count, error } = await this.supabase
+      .from('interactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('type', 'email_outbound')
+      .not('metadata->>sequence_id', 'is', null)
+      .gte('created_at', since);
+
+    if (error) {
+      throw new Error(`Failed to count sequence sends: ${error.message}`);
+    }
+
+    return this.config.daily_send_cap - (count || 0);
+  }
+
+  private inQuietHours(): boolean {
+    return isWithinQuietHours(new Date(), this.config.quiet_hours, this.config.timezone);
+  }
+
+  private secondsUntilQuietHoursEnd(): number {
+    const hour = getLocalHour(new Date(), this.config.timezone);
+    const hoursLeft = (this.config.quiet_hours.end - hour + 24) % 24 || 24;
+    return hoursLeft * 60 * 60;
+  }
+}
+
+// Singleton
+let dispatcherInstance: SequenceDispatcher | null = null;
+
+export function getSequenceDispatcher(): SequenceDispatcher {
+  if (!dispatcherInstance) {
+    dispatcherInstance = new SequenceDispatcher();
+  }
+  return dispatcherInstance;
+}
@@ -214,8 +214,11 @@ export class SequenceService {
 
   /**
    * Advance an enrollment to the next step after sending an email.
+   * The sender is responsible for emitting sequence:email_sent.
+   * With `fromStep`, an enrollment already past that step is returned
+   * unchanged, so repeating the call for the same sent step is harmless.
    */
-  async advance(enrollmentId: string): Promise<SequenceEnrollment> {
+  async advance(enrollmentId: string, fromStep?: number): Promise<SequenceEnrollment> {
     // Get current enrollment
     const { data: current, error: fetchError } = await this.supabase
       .from('sequence_enrollments')
@@ -227,6 +230,10 @@ export class SequenceService {
       throw new Error(`Enrollment not found: ${enrollmentId}`);
     }
 
+    if (fromStep !== undefined && (current.current_step !== fromStep || current.status !== 'active')) {
+      return current;
+    }
+
     // Get total steps in sequence
     const { data: steps, error: stepsError } = await this.supabase
       .from('email_sequence_steps')
@@ -250,6 +257,7 @@ export class SequenceService {
           last_email_sent_at: new Date().toISOString(),
         })
         .eq('id', enrollmentId)
+        .eq('current_step', current.current_step)
         .select()
         .single();
 
@@ -279,6 +287,7 @@ export class SequenceService {
         last_email_sent_at: new Date().toISOString(),
       })
       .eq('id', enrollmentId)
+      .eq('current_step', current.current_step)
       .select()
       .single();
 
@@ -286,12 +295,6 @@ export class SequenceService {
       throw new Error(`Failed to advance enrollment: ${error.message}`);
     }
 
-    EventBus.emit('sequence:email_sent', {
-      contactId: current.contact_id,
-      sequenceId: current.sequence_id,
-      stepOrder: current.current_step,
-    });
-
     return enrollment;
   }
 
@@ -353,9 +356,26 @@ export class SequenceService {
     return data || [];
   }
 
+  /**
+   * Get the queued email for a single enrollment, if it is due.
+   */
+  async getEmailQueueItem(enrollmentId: string): Promise<EmailQueueItem | null> {
+    const { data, error } = await this.supabase
+      .from('sequence_email_queue')
+      .select('*')
+      .eq('enrollment_id', enrollmentId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Failed to get email queue item: ${error.message}`);
+    }
+
+    return data;
+  }
+
   /**
    * Process the email queue (called by scheduler).
-   * Returns the list of emails that should be sent.
+   * Returns the list of emails that should be sent; SequenceDispatcher does the sending.
    */
   async processEmailQueue(): Promise<EmailQueueItem[]> {
     const queue = await this.getEmailQueue();
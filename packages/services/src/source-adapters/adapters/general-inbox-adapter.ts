@@ -10,7 +10,7 @@ import { createLogger } from '@arcvest/shared';
 import { GmailMessage } from '../../gmail-service';
 import { BaseEmailAdapter } from './base-email-adapter';
 import type { IdeaCandidate, SourceAdapterConfig, FetchResult, EmailSourceConfig } from '../types';
-import Anthropic from '@anthropic-ai/sdk';
+import { getLlmGateway } from '../../llm';
 
 const logger = createLogger('general-inbox-adapter');
 
@@ -18,17 +18,6 @@ export class GeneralInboxAdapter extends BaseEmailAdapter {
   readonly sourceId = 'email-general';
   readonly sourceName = 'General Inbox';
 
-  private anthropic: Anthropic | null = null;
-
-  private getAnthropic(): Anthropic {
-    if (!this.anthropic) {
-      this.anthropic = new Anthropic({
-        apiKey: process.env['ANTHROPIC_API_KEY'],
-      });
-    }
-    return this.anthropic;
-  }
-
   /**
    * Override fetch to apply exclude filters
    */
@@ -206,20 +195,15 @@ export class GeneralInboxAdapter extends BaseEmailAdapter {
     summary?: string;
     tags?: string[];
   }> {
-    const claude = this.getAnthropic();
-
     // Truncate content if too long
     const truncatedContent = content.length > 3000
       ? content.substring(0, 3000) + '...[truncated]'
       : content;
 
-    const response = await claude.messages.create({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 500,
-      messages: [
-        {
-          role: 'user',
-          content: `Analyze this email for investment/finance content relevance. ArcVest is a wealth management firm that writes blog posts about investing, markets, retirement planning, and financial planning.
+    const { text } = await getLlmGateway().complete(
+      'ideas.inbox_triage',
+      {
+        prompt: `Analyze this email for investment/finance content relevance. ArcVest is a wealth management firm that writes blog posts about investing, markets, retirement planning, and financial planning.
 
 From: ${fromEmail}
 Subject: ${subject}
@@ -236,12 +220,9 @@ Respond with JSON only:
   "summary": "2-3 sentence summary if relevant",
   "tags": ["tag1", "tag2"] (investment-related tags if relevant)
 }`,
-        },
-      ],
-    });
-
-    const firstContent = response.content[0];
-    const text = firstContent && firstContent.type === 'text' ? firstContent.text : '';
+      },
+      { feature: 'inbox_triage' }
+    );
 
     // Parse JSON from response
     try {
@@ -11,6 +11,8 @@ export { LarrySwedroeAdapter } from './larry-swedroe-adapter';
 export { MichaelGreenAdapter } from './michael-green-adapter';
 export { GeneralInboxAdapter } from './general-inbox-adapter';
 export { RSSAdapter } from './rss-adapter';
+export { WebsiteAdapter } from './website-adapter';
+export { RegulatoryAdapter } from './regulatory-adapter';
 
 import { getSourceRegistry } from '../registry';
 import { BloombergAdapter } from './bloomberg-adapter';
@@ -34,6 +36,7 @@ export function initializeAdapters(): void {
   registry.register(new MichaelGreenAdapter());
   registry.register(new GeneralInboxAdapter());
   registry.register(new RSSAdapter());
+  // Website sources are built from their source_adapters rows when fetched
 
   console.log(`[SourceAdapters] Registered ${registry.getAll().length} adapters`);
 }
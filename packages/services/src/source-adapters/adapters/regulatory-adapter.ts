@@ -0,0 +1,145 @@
+/**
+ * Regulatory Adapter
+ *
+ * Reads the SEC/FINRA sources in regulatoryMonitorConfig:
+ * - rss sources (press releases) yield one candidate per recent item
+ * - website sources (the Marketing Rule FAQ) yield the whole page with its
+ *   content hash, so a new candidate appears whenever the page changes
+ *
+ * Used by RegulatoryMonitorService rather than the idea registry; these
+ * items feed compliance review, not the content queue.
+ */
+
+import { createLogger, regulatoryMonitorConfig, type RegulatorySource } from '@arcvest/shared';
+import { getPageFetcherService } from '../../lead-finder/page-fetcher-service';
+import { parseRSSXml } from './rss-adapter';
+import type {
+  SourceAdapter,
+  SourceAdapterConfig,
+  IdeaCandidate,
+  FetchResult,
+  SourceType,
+} from '../types';
+
+const logger = createLogger('regulatory-adapter');
+
+const USER_AGENT = 'ArcVest-Compliance-Monitor/1.0 (compliance@arcvest.com)';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RegulatoryAdapter implements SourceAdapter {
+  readonly sourceId = 'regulatory';
+  readonly sourceName = 'SEC/FINRA Regulatory Sources';
+  readonly sourceType: SourceType = 'rss';
+
+  constructor(private sources: RegulatorySource[] = regulatoryMonitorConfig.sources) {}
+
+  async fetch(config: SourceAdapterConfig): Promise<FetchResult> {
+    const startTime = Date.now();
+    const lookbackDays = (config.config['lookbackDays'] as number | undefined) ?? regulatoryMonitorConfig.lookback_days;
+    const cutoff = new Date(Date.now() - lookbackDays * DAY_MS);
+    const ideas: IdeaCandidate[] = [];
+    const errors: string[] = [];
+
+    for (const source of this.sources) {
+      try {
+        const items = source.type === 'rss'
+          ? await this.fetchFeed(source, cutoff)
+          : await this.fetchPage(source);
+        ideas.push(...items);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${source.name}: ${message}`);
+        logger.warn(`Failed to fetch regulatory source ${source.name}`, { error: message });
+      }
+    }
+
+    // Partial results are still useful; only fail when every source failed
+    const success = errors.length < this.sources.length;
+
+    return {
+      success,
+      ideas,
+      error: errors.length > 0 ? errors.join('; ') : undefined,
+      fetchedAt: new Date(),
+      duration: Date.now() - startTime,
+    };
+  }
+
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    const source = this.sources.find((s) => s.type === 'rss');
+    if (!source) {
+      return { healthy: false, message: 'No regulatory feeds configured' };
+    }
+
+    try {
+      const response = await fetch(source.url, { headers: { 'User-Agent': USER_AGENT } });
+      return response.ok
+        ? { healthy: true, message: `Tested ${source.name}` }
+        : { healthy: false, message: `${source.name} returned ${response.status}` };
+    } catch (error) {
+      return { healthy: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async fetchFeed(source: RegulatorySource, cutoff: Date): Promise<IdeaCandidate[]> {
+    // sec.gov rejects requests without a descriptive User-Agent
+    const response = await fetch(source.url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'application/rss+xml, application/xml, text/xml',
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const items = parseRSSXml(await response.text());
+
+    return items
+      .map((item) => ({ item, publishedAt: item.pubDate ? new Date(item.pubDate) : undefined }))
+      .filter(({ publishedAt }) => !publishedAt || isNaN(publishedAt.getTime()) || publishedAt >= cutoff)
+      .map(({ item, publishedAt }) => ({
+        sourceId: source.id,
+        sourceName: source.name,
+        sourceType: 'rss' as const,
+        title: item.title!,
+        summary: item.description,
+        fullContent: item['content:encoded'],
+        originalUrl: item.link,
+        discoveredAt: new Date(),
+        publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : undefined,
+        author: source.agency,
+        tags: ['regulatory', source.agency.toLowerCase()],
+        metadata: { agency: source.agency, regulatorySourceId: source.id },
+      }));
+  }
+
+  private async fetchPage(source: RegulatorySource): Promise<IdeaCandidate[]> {
+    const page = await getPageFetcherService().fetchPage(source.url, { maxRetries: 1 });
+
+    if (page.error || !page.extractedText) {
+      throw new Error(page.error || 'Empty page');
+    }
+
+    return [{
+      sourceId: source.id,
+      sourceName: source.name,
+      sourceType: 'website',
+      title: page.pageTitle || source.name,
+      summary: `${source.name} was updated`,
+      fullContent: page.extractedText,
+      originalUrl: page.finalUrl,
+      discoveredAt: new Date(),
+      publishedAt: page.publishedAtGuess ? new Date(page.publishedAtGuess) : undefined,
+      author: source.agency,
+      tags: ['regulatory', source.agency.toLowerCase()],
+      metadata: {
+        agency: source.agency,
+        regulatorySourceId: source.id,
+        contentHash: page.contentHash, // Page versions are told apart by content
+      },
+    }];
+  }
+}
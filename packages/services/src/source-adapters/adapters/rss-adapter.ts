@@ -26,7 +26,7 @@ interface NewsSource {
   enabled: boolean;
 }
 
-interface RSSItem {
+export interface RSSItem {
   title?: string;
   description?: string;
   link?: string;
@@ -35,6 +35,57 @@ interface RSSItem {
   guid?: string;
 }
 
+/**
+ * Parse RSS 2.0 items (title, link, description, pubDate, content, guid)
+ */
+export function parseRSSXml(xml: string): RSSItem[] {
+  const items: RSSItem[] = [];
+  const itemMatches = xml.match(/<item[^>]*>[\s\S]*?<\/item>/gi) || [];
+
+  for (const itemXml of itemMatches) {
+    const item: RSSItem = {};
+
+    const titleMatch = itemXml.match(/<title[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/title>/i);
+    if (titleMatch?.[1]) item.title = decodeEntities(titleMatch[1].trim());
+
+    const descMatch = itemXml.match(/<description[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/description>/i);
+    if (descMatch?.[1]) item.description = decodeEntities(descMatch[1].trim());
+
+    const linkMatch = itemXml.match(/<link[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/link>/i);
+    if (linkMatch?.[1]) item.link = linkMatch[1].trim();
+
+    const dateMatch = itemXml.match(/<pubDate[^>]*>([\s\S]*?)<\/pubDate>/i);
+    if (dateMatch?.[1]) item.pubDate = dateMatch[1].trim();
+
+    const contentMatch = itemXml.match(/<content:encoded[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/content:encoded>/i);
+    if (contentMatch?.[1]) item['content:encoded'] = contentMatch[1].trim();
+
+    const guidMatch = itemXml.match(/<guid[^>]*>([\s\S]*?)<\/guid>/i);
+    if (guidMatch?.[1]) item.guid = guidMatch[1].trim();
+
+    if (item.title && item.link) {
+      items.push(item);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Decode XML entities and strip markup
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/<[^>]*>/g, '')
+    .trim();
+}
+
 // Embedded news sources configuration
 const NEWS_SOURCES: NewsSource[] = [
   {
@@ -287,7 +338,7 @@ export class RSSAdapter implements SourceAdapter {
       }
 
       const xml = await response.text();
-      const items = this.parseRSSXml(xml);
+      const items = parseRSSXml(xml);
 
       return items.map((item, index) => ({
         id: item.guid || `${source.id}-${Date.now()}-${index}`,
@@ -306,51 +357,6 @@ export class RSSAdapter implements SourceAdapter {
     }
   }
 
-  private parseRSSXml(xml: string): RSSItem[] {
-    const items: RSSItem[] = [];
-    const itemMatches = xml.match(/<item[^>]*>[\s\S]*?<\/item>/gi) || [];
-
-    for (const itemXml of itemMatches) {
-      const item: RSSItem = {};
-
-      const titleMatch = itemXml.match(/<title[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/title>/i);
-      if (titleMatch?.[1]) item.title = this.decodeEntities(titleMatch[1].trim());
-
-      const descMatch = itemXml.match(/<description[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/description>/i);
-      if (descMatch?.[1]) item.description = this.decodeEntities(descMatch[1].trim());
-
-      const linkMatch = itemXml.match(/<link[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/link>/i);
-      if (linkMatch?.[1]) item.link = linkMatch[1].trim();
-
-      const dateMatch = itemXml.match(/<pubDate[^>]*>([\s\S]*?)<\/pubDate>/i);
-      if (dateMatch?.[1]) item.pubDate = dateMatch[1].trim();
-
-      const contentMatch = itemXml.match(/<content:encoded[^>]*>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/content:encoded>/i);
-      if (contentMatch?.[1]) item['content:encoded'] = contentMatch[1].trim();
-
-      const guidMatch = itemXml.match(/<guid[^>]*>([\s\S]*?)<\/guid>/i);
-      if (guidMatch?.[1]) item.guid = guidMatch[1].trim();
-
-      if (item.title && item.link) {
-        items.push(item);
-      }
-    }
-
-    return items;
-  }
-
-  private decodeEntities(text: string): string {
-    return text
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/&apos;/g, "'")
-      .replace(/<[^>]*>/g, '')
-      .trim();
-  }
-
   private buildTags(article: {
     sourceId: string;
     category: string;
@@ -0,0 +1,437 @@
+/**
+ * Website Adapter
+ *
+ * Generic adapter for sites without a usable RSS feed (Kitces, Vanguard
+ * insights, ...). Configured per row in source_adapters with
+ * source_type 'website'. Discovers article URLs from a sitemap.xml or a
+ * blog index page, keeps those new since the last successful fetch
+ * (by lastmod for sitemaps, by the source_seen_urls history for index
+ * pages), checks robots.txt, and extracts the body with Readability via
+ * PageFetcherService.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLogger } from '@arcvest/shared';
+import { getSupabase } from '../../supabase';
+import { getPageFetcherService } from '../../lead-finder/page-fetcher-service';
+import type {
+  SourceAdapter,
+  SourceAdapterConfig,
+  IdeaCandidate,
+  FetchResult,
+  SourceType,
+  WebsiteSourceConfig,
+} from '../types';
+
+const logger = createLogger('website-adapter');
+
+const USER_AGENT = 'ArcVest-Marketing-Bot/1.0';
+const ROBOTS_AGENT = 'arcvest-marketing-bot';
+const MAX_CHILD_SITEMAPS = 5;
+const MIN_ARTICLE_LENGTH = 300;
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: Date;
+}
+
+export interface ParsedSitemap {
+  type: 'index' | 'urlset';
+  entries: SitemapEntry[];
+}
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+interface DiscoveredLink {
+  url: string;
+  lastmod?: Date;
+}
+
+/**
+ * Parse a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const isIndex = /<sitemapindex[\s>]/i.test(xml);
+  const blockPattern = isIndex ? /<sitemap[\s>][\s\S]*?<\/sitemap>/gi : /<url[\s>][\s\S]*?<\/url>/gi;
+  const entries: SitemapEntry[] = [];
+
+  for (const block of xml.match(blockPattern) || []) {
+    const loc = block.match(/<loc[^>]*>(?:<!\[CDATA\[)?\s*([\s\S]*?)\s*(?:\]\]>)?<\/loc>/i)?.[1];
+    if (!loc) continue;
+
+    const lastmodText = block.match(/<lastmod[^>]*>\s*([\s\S]*?)\s*<\/lastmod>/i)?.[1];
+    const lastmod = lastmodText ? new Date(lastmodText) : undefined;
+
+    entries.push({
+      loc: loc.replace(/&amp;/g, '&'),
+      lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : undefined,
+    });
+  }
+
+  return { type: isIndex ? 'index' : 'urlset', entries };
+}
+
+/**
+ * Parse robots.txt, keeping the group for our agent (or * if there isn't one)
+ */
+export function parseRobotsTxt(text: string, agent: string = ROBOTS_AGENT): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    // An empty Disallow means everything is allowed
+    if (field === 'disallow' && value) current.rules.disallow.push(value);
+  }
+
+  const agentLower = agent.toLowerCase();
+  const specific = groups.find((g) => g.agents.some((a) => a !== '*' && agentLower.includes(a)));
+  const wildcard = groups.find((g) => g.agents.includes('*'));
+
+  return (specific || wildcard)?.rules || { allow: [], disallow: [] };
+}
+
+/**
+ * Whether a path is allowed; the longest matching rule wins, Allow on ties
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const matchLength = (pattern: string): number => {
+    const endAnchored = pattern.endsWith('$');
+    const body = (endAnchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${endAnchored ? '$' : ''}`).test(path) ? pattern.length : -1;
+  };
+
+  const allow = Math.max(-1, ...rules.allow.map(matchLength));
+  const disallow = Math.max(-1, ...rules.disallow.map(matchLength));
+
+  return disallow === -1 || allow >= disallow;
+}
+
+export class WebsiteAdapter implements SourceAdapter {
+  readonly sourceId: string;
+  readonly sourceName: string;
+  readonly sourceType: SourceType = 'website';
+
+  private supabase: SupabaseClient;
+  private settings: WebsiteSourceConfig;
+  private robotsCache = new Map<string, RobotsRules>();
+
+  constructor(config: Pick<SourceAdapterConfig, 'source_id' | 'source_name' | 'config'>, supabase?: SupabaseClient) {
+    this.sourceId = config.source_id;
+    this.sourceName = config.source_name;
+    this.settings = config.config as WebsiteSourceConfig;
+    this.supabase = supabase || getSupabase();
+  }
+
+  async fetch(config: SourceAdapterConfig): Promise<FetchResult> {
+    const startTime = Date.now();
+    this.settings = config.config as WebsiteSourceConfig;
+    const { sitemapUrl, indexUrl, maxItems = 10, hoursBack = 72 } = this.settings;
+
+    if (!sitemapUrl && !indexUrl) {
+      return {
+        success: false,
+        ideas: [],
+        error: `Website source ${this.sourceId} needs a sitemapUrl or indexUrl`,
+        fetchedAt: new Date(),
+        duration: Date.now() - startTime,
+      };
+    }
+
+    try {
+      const lastSuccess = config.last_success_at || config.last_fetch_at;
+      const since = lastSuccess
+        ? new Date(lastSuccess)
+        : new Date(Date.now() - hoursBack * 60 * 60 * 1000);
+
+      const discovered = sitemapUrl
+        ? await this.discoverFromSitemap(sitemapUrl)
+        : await this.discoverFromIndex(indexUrl as string);
+
+      // Index links carry no dates; links read on an earlier fetch aren't new
+      const seen = sitemapUrl ? new Set<string>() : await this.getSeenUrls(discovered.map((l) => l.url));
+
+      const candidates: DiscoveredLink[] = [];
+      for (const link of discovered) {
+        if (link.lastmod && link.lastmod <= since) continue;
+        if (seen.has(link.url)) continue;
+        if (!this.matchesPatterns(link.url)) continue;
+        if (!(await this.isAllowed(link.url))) {
+          logger.debug(`Skipping ${link.url}: disallowed by robots.txt`);
+          continue;
+        }
+        candidates.push(link);
+      }
+
+      // Sitemaps aren't ordered; newest first so the cap keeps the latest articles
+      candidates.sort((a, b) => (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0));
+      const toFetch = candidates.slice(0, maxItems);
+
+      logger.info(`${this.sourceName}: ${discovered.length} links, ${toFetch.length} new to fetch`);
+
+      const pages = await getPageFetcherService().fetchPages(
+        toFetch.map((l) => l.url),
+        { respectRobots: false }, // Checked above with the full robots.txt rules
+        2
+      );
+
+      const ideas: IdeaCandidate[] = [];
+      const read: string[] = [];
+      for (const [index, page] of pages.entries()) {
+        const link = toFetch[index];
+        // Failed fetches stay unseen and are retried next run
+        if (!page.error && link) read.push(link.url);
+        if (page.error || page.extractedText.length < MIN_ARTICLE_LENGTH) {
+          logger.debug(`Skipping ${page.url}: ${page.error || 'too little text'}`);
+          continue;
+        }
+
+        const publishedAt = link?.lastmod || (page.publishedAtGuess ? new Date(page.publishedAtGuess) : undefined);
+        // Index pages carry no dates, so the article's own date decides whether it's new
+        if (!link?.lastmod && publishedAt && publishedAt <= since) continue;
+
+        ideas.push({
+          sourceId: this.sourceId,
+          sourceName: this.sourceName,
+          sourceType: 'website',
+          title: page.pageTitle || page.finalUrl,
+          summary: page.extractedText.slice(0, 500),
+          fullContent: page.extractedText,
+          originalUrl: page.finalUrl,
+          discoveredAt: new Date(),
+          publishedAt,
+          author: this.sourceName,
+          tags: ['website', ...(this.settings.tags || [])],
+          metadata: {
+            discoveredVia: sitemapUrl ? 'sitemap' : 'index',
+            domain: page.domain,
+          },
+        });
+      }
+
+      if (!sitemapUrl) {
+        await this.markSeen(read);
+      }
+
+      logger.info(`Fetched ${ideas.length} articles from ${this.sourceName}`);
+
+      return {
+        success: true,
+        ideas,
+        fetchedAt: new Date(),
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to fetch website ${this.sourceName}`, error);
+
+      return {
+        success: false,
+        ideas: [],
+        error: errorMsg,
+        fetchedAt: new Date(),
+        duration: Date.now() - startTime,
+      };
+    }
+  }
+
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    const url = this.settings.sitemapUrl || this.settings.indexUrl;
+    if (!url) {
+      return { healthy: false, message: 'No sitemapUrl or indexUrl configured' };
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.ok) {
+        return { healthy: true, message: `Reached ${url}` };
+      }
+      return { healthy: false, message: `${url} returned ${response.status}` };
+    } catch (error) {
+      return {
+        healthy: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Article URLs from a sitemap, following a sitemap index to its newest children
+   */
+  private async discoverFromSitemap(sitemapUrl: string): Promise<DiscoveredLink[]> {
+    const sitemap = parseSitemap(await this.fetchText(sitemapUrl));
+
+    if (sitemap.type === 'urlset') {
+      return sitemap.entries.map((e) => ({ url: e.loc, lastmod: e.lastmod }));
+    }
+
+    const children = [...sitemap.entries]
+      .sort((a, b) => (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0))
+      .slice(0, MAX_CHILD_SITEMAPS);
+
+    const links: DiscoveredLink[] = [];
+    for (const child of children) {
+      try {
+        const childSitemap = parseSitemap(await this.fetchText(child.loc));
+        links.push(...childSitemap.entries.map((e) => ({ url: e.loc, lastmod: e.lastmod })));
+      } catch (error) {
+        logger.warn(`Failed to read child sitemap ${child.loc}`, error);
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Same-site links from a blog index page, in page order
+   */
+  private async discoverFromIndex(indexUrl: string): Promise<DiscoveredLink[]> {
+    const html = await this.fetchText(indexUrl);
+    const base = new URL(indexUrl);
+    const seen = new Set<string>();
+    const links: DiscoveredLink[] = [];
+
+    for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"'#]+)[^"']*["']/gi)) {
+      const href = match[1];
+      if (!href) continue;
+
+      let url: URL;
+      try {
+        url = new URL(href.replace(/&amp;/g, '&'), base);
+      } catch {
+        continue;
+      }
+
+      if (url.hostname !== base.hostname || !/^https?:$/.test(url.protocol)) continue;
+      url.hash = '';
+      const normalized = url.toString();
+      if (normalized === base.toString() || seen.has(normalized)) continue;
+
+      seen.add(normalized);
+      links.push({ url: normalized });
+    }
+
+    return links;
+  }
+
+  /**
+   * Which of these URLs the source has already read from its index page
+   */
+  private async getSeenUrls(urls: string[]): Promise<Set<string>> {
+    const seen = new Set<string>();
+
+    // Chunked to keep the IN list within URL limits
+    for (let i = 0; i < urls.length; i += 100) {
+      const { data, error } = await this.supabase
+        .from('source_seen_urls')
+        .select('url')
+        .eq('source_id', this.sourceId)
+        .in('url', urls.slice(i, i + 100));
+
+      if (error) {
+        throw new Error(`Failed to load seen URLs: ${error.message}`);
+      }
+
+      for (const row of (data || []) as { url: string }[]) {
+        seen.add(row.url);
+      }
+    }
+
+    return seen;
+  }
+
+  private async markSeen(urls: string[]): Promise<void> {
+    if (urls.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('source_seen_urls')
+      .upsert(
+        urls.map((url) => ({ source_id: this.sourceId, url })),
+        { onConflict: 'source_id,url', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      // The ideas are deduplicated by content hash, so a re-read is harmless
+      logger.warn(`Failed to record seen URLs for ${this.sourceId}`, { error: error.message });
+    }
+  }
+
+  private matchesPatterns(url: string): boolean {
+    const { articlePattern, excludePatterns = [] } = this.settings;
+
+    try {
+      if (articlePattern && !new RegExp(articlePattern, 'i').test(url)) return false;
+      return !excludePatterns.some((pattern) => new RegExp(pattern, 'i').test(url));
+    } catch (error) {
+      logger.warn(`Invalid URL pattern for ${this.sourceId}`, error);
+      return false;
+    }
+  }
+
+  private async isAllowed(url: string): Promise<boolean> {
+    const { origin, pathname, search } = new URL(url);
+
+    let rules = this.robotsCache.get(origin);
+    if (!rules) {
+      try {
+        const response = await fetch(`${origin}/robots.txt`, {
+          headers: { 'User-Agent': USER_AGENT },
+          signal: AbortSignal.timeout(5000),
+        });
+        // No robots.txt (or an error page) means no restrictions
+        rules = response.ok ? parseRobotsTxt(await response.text()) : { allow: [], disallow: [] };
+      } catch {
+        rules = { allow: [], disallow: [] };
+      }
+      this.robotsCache.set(origin, rules);
+    }
+
+    return isPathAllowed(rules, `${pathname}${search}`);
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} returned ${response.status}`);
+    }
+
+    return response.text();
+  }
+}
@@ -14,6 +14,7 @@ export type {
   SourceAdapter,
   EmailSourceConfig,
   RSSSourceConfig,
+  WebsiteSourceConfig,
   IdeaQueueRecord,
   SourceStats,
 } from './types';
@@ -36,5 +37,7 @@ export {
   MichaelGreenAdapter,
   GeneralInboxAdapter,
   RSSAdapter,
+  WebsiteAdapter,
+  RegulatoryAdapter,
   initializeAdapters,
 } from './adapters';
@@ -14,6 +14,8 @@ import type {
   IdeaQueueRecord,
   FetchResult,
 } from './types';
+import { WebsiteAdapter } from './adapters/website-adapter';
+import { getSourceHealthService } from '../source-health-service';
 import { createHash } from 'crypto';
 
 const logger = createLogger('source-registry');
@@ -84,6 +86,21 @@ export class SourceRegistry {
     return this.adapters.get(sourceId);
   }
 
+  /**
+   * Get the adapter for a source. Website sources are configured entirely
+   * in source_adapters, so their adapter is created from the row on demand.
+   */
+  private resolveAdapter(config: SourceAdapterConfig | null, sourceId: string): SourceAdapter | undefined {
+    const registered = this.adapters.get(sourceId);
+    if (registered || !config || config.source_type !== 'website') {
+      return registered;
+    }
+
+    const adapter = new WebsiteAdapter(config);
+    this.adapters.set(sourceId, adapter);
+    return adapter;
+  }
+
   /**
    * Get enabled adapters from database, ordered by priority
    */
@@ -121,41 +138,13 @@ export class SourceRegistry {
   }
 
   /**
-   * Update adapter stats after a fetch
+   * Update adapter stats and health after a fetch
    */
   async updateStats(
     sourceId: string,
     result: FetchResult
   ): Promise<void> {
-    const updates: Record<string, unknown> = {
-      last_fetch_at: result.fetchedAt.toISOString(),
-      last_fetch_count: result.ideas.length,
-      updated_at: new Date().toISOString(),
-    };
-
-    if (result.success) {
-      updates['last_fetch_error'] = null;
-      updates['consecutive_failures'] = 0;
-      updates['is_healthy'] = true;
-      updates['last_success_at'] = result.fetchedAt.toISOString();
-    } else {
-      updates['last_fetch_error'] = result.error || 'Unknown error';
-      // Increment consecutive failures
-      const { data: current } = await this.supabase
-        .from('source_adapters')
-        .select('consecutive_failures')
-        .eq('source_id', sourceId)
-        .single();
-
-      const failures = ((current as { consecutive_failures?: number })?.consecutive_failures || 0) + 1;
-      updates['consecutive_failures'] = failures;
-      updates['is_healthy'] = failures < 3; // Mark unhealthy after 3 failures
-    }
-
-    await this.supabase
-      .from('source_adapters')
-      .update(updates)
-      .eq('source_id', sourceId);
+    await getSourceHealthService().recordFetch(sourceId, result);
   }
 
   /**
@@ -203,8 +192,9 @@ export class SourceRegistry {
   /**
    * Fetch from a specific source
    */
-  async fetchSource(sourceId: string): Promise<FetchResult> {
-    const adapter = this.adapters.get(sourceId);
+  async fetchSource(sourceId: string, options?: { force?: boolean }): Promise<FetchResult> {
+    const config = await this.getConfig(sourceId);
+    const adapter = this.resolveAdapter(config, sourceId);
     if (!adapter) {
       return {
         success: false,
@@ -215,7 +205,6 @@ export class SourceRegistry {
       };
     }
 
-    const config = await this.getConfig(sourceId);
     if (!config) {
       return {
         success: false,
@@ -236,6 +225,19 @@ export class SourceRegistry {
       };
     }
 
+    // Failing or flapping sources wait out their backoff unless fetched manually
+    if (!options?.force && getSourceHealthService().isBackingOff(config)) {
+      logger.info(`Skipping ${sourceId}: backing off until ${config.backoff_until}`);
+      return {
+        success: false,
+        ideas: [],
+        error: `Backing off until ${config.backoff_until}`,
+        skipped: true,
+        fetchedAt: new Date(),
+        duration: 0,
+      };
+    }
+
     const startTime = Date.now();
     logger.info(`Fetching from source: ${sourceId}`);
 
@@ -280,7 +282,7 @@ export class SourceRegistry {
     logger.info(`Fetching from ${configs.length} enabled sources`);
 
     for (const config of configs) {
-      if (this.adapters.has(config.source_id)) {
+      if (this.resolveAdapter(config, config.source_id)) {
         const result = await this.fetchSource(config.source_id);
         results.set(config.source_id, result);
       } else {
@@ -288,6 +290,15 @@ export class SourceRegistry {
       }
     }
 
+    const emailResults = new Map(
+      configs
+        .filter(c => c.source_type === 'email' && results.has(c.source_id))
+        .map(c => [c.source_id, results.get(c.source_id) as FetchResult])
+    );
+    if (emailResults.size > 0) {
+      await getSourceHealthService().checkEmailAuth(emailResults);
+    }
+
     // Summary
     let totalIdeas = 0;
     let totalErrors = 0;
@@ -317,6 +328,8 @@ export class SourceRegistry {
       }
     }
 
+    await getSourceHealthService().checkEmailAuth(results);
+
     return results;
   }
 
@@ -340,6 +353,24 @@ export class SourceRegistry {
     return results;
   }
 
+  /**
+   * Fetch from all website sources
+   */
+  async fetchWebsiteSources(): Promise<Map<string, FetchResult>> {
+    const results = new Map<string, FetchResult>();
+    const configs = await this.getEnabledConfigs();
+
+    const websiteConfigs = configs.filter(c => c.source_type === 'website');
+    logger.info(`Fetching from ${websiteConfigs.length} website sources`);
+
+    for (const config of websiteConfigs) {
+      const result = await this.fetchSource(config.source_id);
+      results.set(config.source_id, result);
+    }
+
+    return results;
+  }
+
   /**
    * Run health checks on all adapters
    */
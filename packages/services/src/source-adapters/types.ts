@@ -5,6 +5,8 @@
  * All adapters implement a common interface for fetching content ideas.
  */
 
+import type { SourceHealthStatus } from '@arcvest/shared';
+
 export type SourceType = 'email' | 'rss' | 'website' | 'database' | 'api' | 'manual';
 
 export type IdeaStatus =
@@ -14,7 +16,8 @@ export type IdeaStatus =
   | 'processing'
   | 'completed'
   | 'rejected'
-  | 'archived';
+  | 'archived'
+  | 'merged'; // Near-duplicate folded into another idea's cluster
 
 /**
  * Configuration for a source adapter (stored in DB)
@@ -28,9 +31,18 @@ export interface SourceAdapterConfig {
   priority: number;
   config: Record<string, unknown>;
   last_fetch_at: string | null;
+  last_success_at?: string | null;
   last_fetch_count: number;
   last_fetch_error: string | null;
   is_healthy: boolean;
+  consecutive_failures?: number;
+  health_status?: SourceHealthStatus;
+  zero_yield_streak?: number;
+  backoff_until?: string | null;
+  flap_count?: number;
+  last_state_change_at?: string | null;
+  auto_disabled_at?: string | null;
+  disabled_reason?: string | null;
 }
 
 /**
@@ -63,6 +75,7 @@ export interface FetchResult {
   success: boolean;
   ideas: IdeaCandidate[];
   error?: string;
+  skipped?: boolean; // Not fetched because the source is backing off
   fetchedAt: Date;
   duration: number; // milliseconds
 }
@@ -113,6 +126,20 @@ export interface RSSSourceConfig {
   description?: string;
 }
 
+/**
+ * Config for website/sitemap source adapters
+ */
+export interface WebsiteSourceConfig {
+  sitemapUrl?: string; // sitemap.xml or sitemap index
+  indexUrl?: string; // Blog index page to scan for article links
+  articlePattern?: string; // Regex article URLs must match (e.g. "/blog/[^/]+/?$")
+  excludePatterns?: string[];
+  maxItems?: number;
+  hoursBack?: number; // Window used before the first successful fetch
+  tags?: string[];
+  description?: string;
+}
+
 /**
  * Idea queue record (matches database schema)
  */
@@ -141,6 +168,11 @@ export interface IdeaQueueRecord {
   author?: string;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  normalized_title?: string;
+  minhash_signature?: number[];
+  dedup_checked_at?: string;
+  cluster_id?: string;
+  is_cluster_head?: boolean;
 }
 
 /**
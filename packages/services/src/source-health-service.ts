@@ -0,0 +1,385 @@
+/**
+ * Source Health Service
+ *
+ * Tracks fetch outcomes for each content source: consecutive failures,
+ * zero-yield streaks and healthy/failing flips. Backs off or auto-disables
+ * failing sources, raises an alert and a task when one goes unhealthy, and
+ * spots every email adapter failing at once (an expired Gmail OAuth token).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  sourceHealthConfig,
+  getSourceBackoffMinutes,
+  isOAuthError,
+  type SourceAlertType,
+  type SourceHealthConfig,
+  type SourceHealthStatus,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { TaskService } from './task-service';
+import type { FetchResult, SourceAdapterConfig } from './source-adapters/types';
+
+const logger = createLogger('source-health');
+
+// Pseudo source id for alerts that cover every email adapter
+export const EMAIL_SOURCES_ALERT_ID = 'email';
+
+export interface SourceHealthAlert {
+  id: string;
+  created_at: string;
+  source_id: string;
+  alert_type: SourceAlertType;
+  severity: 'warning' | 'critical';
+  message: string;
+  details: Record<string, unknown>;
+  task_id: string | null;
+  resolved: boolean;
+  resolved_at: string | null;
+}
+
+export type SourceHealthSnapshot = Pick<
+  SourceAdapterConfig,
+  | 'source_name'
+  | 'enabled'
+  | 'consecutive_failures'
+  | 'zero_yield_streak'
+  | 'health_status'
+  | 'flap_count'
+  | 'last_state_change_at'
+>;
+
+export interface HealthEvaluation {
+  status: SourceHealthStatus;
+  updates: Record<string, unknown>;
+  raise: SourceAlertType[];
+  resolve: SourceAlertType[];
+}
+
+/**
+ * Work out a source's new health state from its previous state and the latest fetch
+ */
+export function evaluateSourceHealth(
+  previous: SourceHealthSnapshot,
+  result: Pick<FetchResult, 'success' | 'error'> & { ideaCount: number },
+  now: Date = new Date(),
+  config: SourceHealthConfig = sourceHealthConfig
+): HealthEvaluation {
+  const previousFailures = previous.consecutive_failures || 0;
+  const previousStatus = previous.health_status || 'healthy';
+  const failures = result.success ? 0 : previousFailures + 1;
+  const zeroYield = result.success
+    ? (result.ideaCount === 0 ? (previous.zero_yield_streak || 0) + 1 : 0)
+    : previous.zero_yield_streak || 0;
+
+  let status: SourceHealthStatus;
+  let enabled = previous.enabled;
+  let backoffUntil: Date | null = null;
+
+  if (!result.success) {
+    // Token errors are fixed by reconnecting Gmail, not by switching sources off
+    if (failures >= config.disable_after_failures && !isOAuthError(result.error)) {
+      status = 'disabled';
+      enabled = false;
+    } else {
+      status = failures >= config.unhealthy_after_failures ? 'unhealthy' : 'degraded';
+    }
+    backoffUntil = new Date(now.getTime() + getSourceBackoffMinutes(failures, config.backoff) * 60 * 1000);
+  } else {
+    status = zeroYield >= config.zero_yield_streak ? 'degraded' : 'healthy';
+  }
+
+  // A flip is a failure after a success or a success after a failure
+  const flipped = (previousFailures > 0) !== !result.success;
+  const windowStart = now.getTime() - config.flapping.window_hours * 60 * 60 * 1000;
+  const inWindow = previous.last_state_change_at
+    ? new Date(previous.last_state_change_at).getTime() >= windowStart
+    : false;
+  let flapCount = flipped ? (inWindow ? (previous.flap_count || 0) + 1 : 1) : previous.flap_count || 0;
+
+  if (flapCount >= config.flapping.max_transitions && status !== 'disabled') {
+    const flapBackoff = new Date(now.getTime() + config.flapping.backoff_minutes * 60 * 1000);
+    backoffUntil = !backoffUntil || flapBackoff > backoffUntil ? flapBackoff : backoffUntil;
+    if (status === 'healthy') status = 'degraded';
+    flapCount = 0;
+  }
+
+  const updates: Record<string, unknown> = {
+    consecutive_failures: failures,
+    zero_yield_streak: zeroYield,
+    health_status: status,
+    is_healthy: status === 'healthy' || status === 'degraded',
+    backoff_until: backoffUntil?.toISOString() || null,
+    flap_count: flapCount,
+  };
+  if (flipped) {
+    updates['last_state_change_at'] = now.toISOString();
+  }
+  if (enabled !== previous.enabled) {
+    updates['enabled'] = enabled;
+    updates['auto_disabled_at'] = now.toISOString();
+    updates['disabled_reason'] = `Auto-disabled after ${failures} consecutive failures: ${result.error || 'Unknown error'}`;
+  }
+
+  const raise: SourceAlertType[] = [];
+  if (status === 'unhealthy' && previousStatus !== 'unhealthy' && previousStatus !== 'disabled') {
+    raise.push('source_unhealthy');
+  }
+  if (status === 'disabled' && previousStatus !== 'disabled') {
+    raise.push('source_disabled');
+  }
+  if (result.success && zeroYield === config.zero_yield_streak) {
+    raise.push('zero_yield');
+  }
+
+  const resolve: SourceAlertType[] = result.success ? ['source_unhealthy', 'source_disabled'] : [];
+  if (result.success && result.ideaCount > 0) {
+    resolve.push('zero_yield');
+  }
+
+  return { status, updates, raise, resolve };
+}
+
+export class SourceHealthService {
+  private supabase: SupabaseClient;
+  private tasks: TaskService;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+    this.tasks = new TaskService(this.supabase);
+  }
+
+  /**
+   * Record a fetch outcome, update the source's health and raise or resolve alerts
+   */
+  async recordFetch(sourceId: string, result: FetchResult): Promise<HealthEvaluation | null> {
+    const { data: current, error } = await this.supabase
+      .from('source_adapters')
+      .select('source_name, enabled, consecutive_failures, zero_yield_streak, health_status, flap_count, last_state_change_at')
+      .eq('source_id', sourceId)
+      .single();
+
+    if (error) {
+      logger.error(`Failed to load health for ${sourceId}`, { error: error.message });
+      return null;
+    }
+
+    const evaluation = evaluateSourceHealth(current as SourceHealthSnapshot, {
+      success: result.success,
+      error: result.error,
+      ideaCount: result.ideas.length,
+    });
+
+    const updates: Record<string, unknown> = {
+      ...evaluation.updates,
+      last_fetch_at: result.fetchedAt.toISOString(),
+      last_fetch_count: result.ideas.length,
+      last_fetch_error: result.success ? null : result.error || 'Unknown error',
+      updated_at: new Date().toISOString(),
+    };
+    if (result.success) {
+      updates['last_success_at'] = result.fetchedAt.toISOString();
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('source_adapters')
+      .update(updates)
+      .eq('source_id', sourceId);
+
+    if (updateError) {
+      logger.error(`Failed to update health for ${sourceId}`, { error: updateError.message });
+    }
+
+    const name = (current as SourceHealthSnapshot).source_name || sourceId;
+    for (const alertType of evaluation.raise) {
+      await this.raiseAlert(sourceId, alertType, this.describeAlert(alertType, name, result, updates), {
+        consecutiveFailures: updates['consecutive_failures'],
+        zeroYieldStreak: updates['zero_yield_streak'],
+        lastError: result.error || null,
+      });
+    }
+    if (evaluation.resolve.length > 0) {
+      await this.resolveAlerts(sourceId, evaluation.resolve);
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Check an email scan for a Gmail OAuth problem: every email source failing
+   * together, or failing with a token error.
+   */
+  async checkEmailAuth(results: Map<string, FetchResult>): Promise<boolean> {
+    const attempted = [...results.entries()].filter(([, r]) => !r.skipped);
+    if (attempted.length === 0) return false;
+
+    const failed = attempted.filter(([, r]) => !r.success);
+
+    // Email adapters share one Gmail connection, so any success means the token is fine
+    if (failed.length < attempted.length) {
+      await this.resolveAlerts(EMAIL_SOURCES_ALERT_ID, ['oauth_expired']);
+      return false;
+    }
+
+    const tokenErrors = failed.filter(([, r]) => isOAuthError(r.error));
+    if (failed.length < 2 && tokenErrors.length === 0) {
+      return false;
+    }
+
+    await this.raiseAlert(
+      EMAIL_SOURCES_ALERT_ID,
+      'oauth_expired',
+      `${failed.length === 1 ? 'The email source' : `All ${failed.length} email sources`} failed. ` +
+        'The Gmail OAuth token has likely expired; reconnect Gmail in Settings.',
+      {
+        sources: failed.map(([sourceId]) => sourceId),
+        errors: [...new Set(failed.map(([, r]) => r.error || 'Unknown error'))],
+      }
+    );
+    return true;
+  }
+
+  /**
+   * Whether a source should be skipped because it's backing off
+   */
+  isBackingOff(config: Pick<SourceAdapterConfig, 'backoff_until'>, now: Date = new Date()): boolean {
+    return !!config.backoff_until && new Date(config.backoff_until) > now;
+  }
+
+  /**
+   * Open an alert and its follow-up task, unless one is already open
+   */
+  async raiseAlert(
+    sourceId: string,
+    alertType: SourceAlertType,
+    message: string,
+    details: Record<string, unknown> = {}
+  ): Promise<SourceHealthAlert | null> {
+    const { data: existing } = await this.supabase
+      .from('source_health_alerts')
+      .select('id')
+      .eq('source_id', sourceId)
+      .eq('alert_type', alertType)
+      .eq('resolved', false)
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      return null;
+    }
+
+    const severity = alertType === 'source_disabled' || alertType === 'oauth_expired' ? 'critical' : 'warning';
+
+    // The alert goes in first: only the run that opens it creates the task
+    const { data, error } = await this.supabase
+      .from('source_health_alerts')
+      .insert({
+        source_id: sourceId,
+        alert_type: alertType,
+        severity,
+        message,
+        details,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // 23505: another run opened the same alert first
+      if (error.code !== '23505') {
+        logger.error('Failed to raise source health alert', { sourceId, alertType, error: error.message });
+      }
+      return null;
+    }
+
+    const alert = data as SourceHealthAlert;
+
+    try {
+      const task = await this.tasks.create({
+        assigned_to: sourceHealthConfig.task_assignee,
+        title: alertType === 'oauth_expired' ? 'Reconnect Gmail: email sources are failing' : `Check content source: ${sourceId}`,
+        description: message,
+        priority: severity === 'critical' ? 'high' : 'medium',
+        due_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        created_by: 'system',
+        metadata: { source_id: sourceId, alert_type: alertType },
+      });
+
+      const { error: linkError } = await this.supabase
+        .from('source_health_alerts')
+        .update({ task_id: task.id })
+        .eq('id', alert.id);
+
+      if (linkError) {
+        logger.error('Failed to link source health task', { sourceId, alertType, error: linkError.message });
+      } else {
+        alert.task_id = task.id;
+      }
+    } catch (error) {
+      logger.error('Failed to create source health task', { sourceId, alertType, error: String(error) });
+    }
+
+    logger.warn(`Source health alert: ${message}`, { sourceId, alertType, severity });
+    return alert;
+  }
+
+  /**
+   * Resolve open alerts of the given types for a source
+   */
+  async resolveAlerts(sourceId: string, alertTypes: SourceAlertType[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('source_health_alerts')
+      .update({ resolved: true, resolved_at: new Date().toISOString() })
+      .eq('source_id', sourceId)
+      .in('alert_type', alertTypes)
+      .eq('resolved', false);
+
+    if (error) {
+      logger.error('Failed to resolve source health alerts', { sourceId, error: error.message });
+    }
+  }
+
+  /**
+   * Open alerts, newest first
+   */
+  async getOpenAlerts(): Promise<SourceHealthAlert[]> {
+    const { data, error } = await this.supabase
+      .from('source_health_alerts')
+      .select('*')
+      .eq('resolved', false)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get source health alerts: ${error.message}`);
+    }
+
+    return (data || []) as SourceHealthAlert[];
+  }
+
+  private describeAlert(
+    alertType: SourceAlertType,
+    name: string,
+    result: FetchResult,
+    updates: Record<string, unknown>
+  ): string {
+    switch (alertType) {
+      case 'source_disabled':
+        return `${name} was disabled after ${updates['consecutive_failures']} consecutive failures. Last error: ${result.error || 'Unknown error'}`;
+      case 'source_unhealthy':
+        return `${name} has failed ${updates['consecutive_failures']} times in a row. Last error: ${result.error || 'Unknown error'}`;
+      case 'zero_yield':
+        return `${name} has returned no ideas for ${updates['zero_yield_streak']} fetches in a row.`;
+      default:
+        return `${name}: ${result.error || 'source problem'}`;
+    }
+  }
+}
+
+// Singleton
+let sourceHealthInstance: SourceHealthService | null = null;
+
+export function getSourceHealthService(): SourceHealthService {
+  if (!sourceHealthInstance) {
+    sourceHealthInstance = new SourceHealthService();
+  }
+  return sourceHealthInstance;
+}
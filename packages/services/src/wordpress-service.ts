@@ -1,5 +1,6 @@
 import { getSupabase } from './supabase';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { ComplianceArchiveService } from './compliance-archive-service';
 
 /**
  * WordPress Service
@@ -31,6 +32,21 @@ export interface WordPressPost {
   tags?: number[];
   featured_media?: number;
   meta?: Record<string, string>;
+  link?: string; // Set on responses
+}
+
+/**
+ * Post as returned by the REST API (raw fields only with context=edit)
+ */
+export interface WordPressPostResponse {
+  id: number;
+  link: string;
+  status: WordPressPost['status'];
+  date_gmt: string;
+  modified_gmt: string;
+  title: { rendered: string; raw?: string };
+  content: { rendered: string; raw?: string };
+  excerpt: { rendered: string; raw?: string };
 }
 
 export interface WordPressCategory {
@@ -43,9 +59,11 @@ export interface WordPressCategory {
 export class WordPressService {
   private supabase: SupabaseClient;
   private config: WordPressConfig | null = null;
+  private archive: ComplianceArchiveService;
 
   constructor(supabase?: SupabaseClient) {
     this.supabase = supabase || getSupabase();
+    this.archive = new ComplianceArchiveService(this.supabase);
   }
 
   /**
@@ -63,6 +81,23 @@ export class WordPressService {
     }
   }
 
+  /**
+   * Initialize from WORDPRESS_* env vars unless already configured
+   */
+  async ensureConfigured(): Promise<void> {
+    if (this.isConfigured()) return;
+
+    const url = process.env['WORDPRESS_URL'];
+    const username = process.env['WORDPRESS_USERNAME'];
+    const applicationPassword = process.env['WORDPRESS_APP_PASSWORD'];
+
+    if (!url || !username || !applicationPassword) {
+      throw new Error('WordPress not configured');
+    }
+
+    await this.initialize({ url: url.replace(/\/$/, ''), username, applicationPassword });
+  }
+
   /**
    * Check if the service is configured
    */
@@ -124,21 +159,29 @@ export class WordPressService {
   async getPosts(params?: {
     page?: number;
     per_page?: number;
-    status?: string;
+    status?: string; // Comma-separated list, e.g. 'publish,future'
     search?: string;
-  }): Promise<WordPressPost[]> {
+    modified_after?: string; // ISO 8601
+    orderby?: 'date' | 'modified' | 'id';
+    order?: 'asc' | 'desc';
+    context?: 'view' | 'edit';
+  }): Promise<WordPressPostResponse[]> {
     const queryParams = new URLSearchParams();
     if (params?.page) queryParams.set('page', params.page.toString());
     if (params?.per_page) queryParams.set('per_page', params.per_page.toString());
     if (params?.status) queryParams.set('status', params.status);
     if (params?.search) queryParams.set('search', params.search);
+    if (params?.modified_after) queryParams.set('modified_after', params.modified_after);
+    if (params?.orderby) queryParams.set('orderby', params.orderby);
+    if (params?.order) queryParams.set('order', params.order);
+    if (params?.context) queryParams.set('context', params.context);
 
     const response = await this.wpRequest(`/posts?${queryParams}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch posts: ${response.statusText}`);
     }
 
-    return response.json() as Promise<WordPressPost[]>;
+    return response.json() as Promise<WordPressPostResponse[]>;
   }
 
   /**
@@ -184,7 +227,7 @@ export class WordPressService {
   /**
    * Update an existing post
    */
-  async updatePost(id: number, post: Partial<WordPressPost>): Promise<WordPressPost> {
+  async updatePost(id: number, post: Partial<WordPressPost>): Promise<WordPressPostResponse> {
     const response = await this.wpRequest(`/posts/${id}`, {
       method: 'PUT',
       body: JSON.stringify(post),
@@ -195,7 +238,7 @@ export class WordPressService {
       throw new Error(`Failed to update post: ${error}`);
     }
 
-    return response.json() as Promise<WordPressPost>;
+    return response.json() as Promise<WordPressPostResponse>;
   }
 
   /**
@@ -258,27 +301,42 @@ export class WordPressService {
     }
 
     // Create WordPress post
-    const post = await this.createPost({
+    const published = {
       title: content.title || 'Untitled',
       content: content.final_content || content.draft,
-      status: 'publish',
       excerpt: content.meta_description,
-    });
+    };
+    const post = await this.createPost({ ...published, status: 'publish' });
+    const url = `${this.config?.url}/?p=${post.id}`;
+    const publishedAt = new Date().toISOString();
 
     // Update content calendar with WordPress post ID
     await this.supabase
       .from('content_calendar')
       .update({
         wordpress_post_id: post.id,
-        published_url: `${this.config?.url}/?p=${post.id}`,
-        published_at: new Date().toISOString(),
+        published_url: url,
+        published_at: publishedAt,
         status: 'published',
       })
       .eq('id', contentId);
 
+    await this.archive.archiveSafely({
+      channel: 'wordpress',
+      artifactType: 'content_calendar',
+      artifactId: contentId,
+      title: published.title,
+      content: published,
+      contentText: published.content,
+      contentType: content.content_type,
+      publishedAt,
+      externalId: String(post.id),
+      externalUrl: url,
+    });
+
     return {
       wordpressPostId: post.id!,
-      url: `${this.config?.url}/?p=${post.id}`,
+      url,
     };
   }
 
@@ -0,0 +1,760 @@
+/**
+ * Workflow Engine
+ *
+ * Runs the declarative workflows in @arcvest/shared (workflowDefinitions).
+ * Each instance keeps one state per step in workflow_instances.step_results.
+ * An advance:
+ * 1. Picks up finished agent tasks and approval decisions for in-flight steps
+ * 2. Starts every step whose dependencies are done, skipping those whose
+ *    conditions fail (a step whose dependencies were all skipped is skipped too)
+ * 3. Marks the instance completed or failed once no step can move
+ *
+ * Advances are triggered when an agent finishes a workflow task, when an
+ * approval is decided, and by the orchestrator's periodic tick (for waits and
+ * retries). Instances are locked while advancing so triggers can overlap.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createLogger,
+  getWorkflowDefinition,
+  workflowEngineConfig,
+  type WorkflowCondition,
+  type WorkflowDefinition,
+  type WorkflowInstance,
+  type WorkflowStatus,
+  type WorkflowStep,
+  type WorkflowStepState,
+  type WorkflowType,
+} from '@arcvest/shared';
+import { getSupabase } from './supabase';
+import { EventBus } from './event-bus';
+
+const logger = createLogger('workflow-engine');
+
+const MINUTE_MS = 60 * 1000;
+const TERMINAL_STEP_STATUSES = ['completed', 'failed', 'skipped'];
+
+export interface WorkflowContext {
+  input: Record<string, unknown>;
+  steps: Record<string, { status: string; output: unknown }>;
+}
+
+export interface WorkflowStepPlan {
+  start: WorkflowStep[];
+  skip: string[];
+  finishWaits: string[];
+}
+
+export interface WorkflowListOptions {
+  status?: WorkflowStatus;
+  type?: string;
+  limit?: number;
+}
+
+export interface WorkflowTickResult {
+  checked: number;
+  advanced: number;
+  errors: string[];
+}
+
+// ===========================================
+// Planning (pure)
+// ===========================================
+
+/**
+ * Resolve a '$input.a.b' or '$steps.key.output.c' reference. Array items are
+ * addressed by index ('$steps.linkedin.output.contentIds.0').
+ */
+export function resolveWorkflowRef(ref: string, context: WorkflowContext): unknown {
+  const path = ref.replace(/^\$/, '').split('.');
+  let value: unknown = context;
+
+  for (const segment of path) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return value;
+}
+
+/**
+ * Resolve every reference inside a payload (strings starting with '$').
+ */
+export function resolveWorkflowValue(value: unknown, context: WorkflowContext): unknown {
+  if (typeof value === 'string') {
+    return value.startsWith('$') ? resolveWorkflowRef(value, context) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveWorkflowValue(item, context));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveWorkflowValue(item, context)])
+    );
+  }
+  return value;
+}
+
+export function evaluateWorkflowCondition(condition: WorkflowCondition, context: WorkflowContext): boolean {
+  const value = resolveWorkflowRef(condition.ref, context);
+
+  if (condition.exists !== undefined && (value !== undefined && value !== null) !== condition.exists) return false;
+  if ('equals' in condition && value !== condition.equals) return false;
+  if ('not_equals' in condition && value === condition.not_equals) return false;
+  if (condition.in && !condition.in.includes(value)) return false;
+  if (condition.gt !== undefined && !(typeof value === 'number' && value > condition.gt)) return false;
+  if (condition.lt !== undefined && !(typeof value === 'number' && value < condition.lt)) return false;
+
+  return true;
+}
+
+/**
+ * A step's dependencies: explicit depends_on, otherwise the previous step.
+ */
+export function getStepDependencies(definition: WorkflowDefinition, step: WorkflowStep): string[] {
+  if (step.depends_on) {
+    return step.depends_on;
+  }
+  const index = definition.steps.findIndex((s) => s.key === step.key);
+  const previous = definition.steps[index - 1];
+  return previous ? [previous.key] : [];
+}
+
+export function createStepStates(definition: WorkflowDefinition): WorkflowStepState[] {
+  return definition.steps.map((step) => ({
+    key: step.key,
+    status: 'pending',
+    attempts: 0,
+    task_id: null,
+    approval_id: null,
+    wait_until: null,
+    retry_at: null,
+    output: null,
+    error: null,
+    started_at: null,
+    completed_at: null,
+  }));
+}
+
+export function buildWorkflowContext(input: Record<string, unknown>, states: WorkflowStepState[]): WorkflowContext {
+  return {
+    input,
+    steps: Object.fromEntries(states.map((s) => [s.key, { status: s.status, output: s.output }])),
+  };
+}
+
+/**
+ * What can move right now: pending steps to start or skip, and waits that
+ * have elapsed.
+ */
+export function planWorkflowSteps(
+  definition: WorkflowDefinition,
+  states: WorkflowStepState[],
+  context: WorkflowContext,
+  now: Date
+): WorkflowStepPlan {
+  const byKey = new Map(states.map((s) => [s.key, s]));
+  const plan: WorkflowStepPlan = { start: [], skip: [], finishWaits: [] };
+
+  for (const step of definition.steps) {
+    const state = byKey.get(step.key);
+    if (!state) continue;
+
+    if (state.status === 'waiting') {
+      if (state.wait_until && new Date(state.wait_until) <= now) {
+        plan.finishWaits.push(step.key);
+      }
+      continue;
+    }
+
+    if (state.status !== 'pending') continue;
+    if (state.retry_at && new Date(state.retry_at) > now) continue;
+
+    const deps = getStepDependencies(definition, step).map((key) => byKey.get(key));
+    if (deps.some((dep) => !dep || !TERMINAL_STEP_STATUSES.includes(dep.status))) continue;
+    if (deps.some((dep) => dep!.status === 'failed')) continue;
+
+    const allSkipped = deps.length > 0 && deps.every((dep) => dep!.status === 'skipped');
+    const conditionsMet = (step.when || []).every((c) => evaluateWorkflowCondition(c, context));
+
+    if (allSkipped || !conditionsMet) {
+      plan.skip.push(step.key);
+    } else {
+      plan.start.push(step);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Failed as soon as any step fails; completed once every step has finished.
+ */
+export function getWorkflowOutcome(states: WorkflowStepState[]): 'running' | 'completed' | 'failed' {
+  if (states.some((s) => s.status === 'failed')) return 'failed';
+  if (states.every((s) => TERMINAL_STEP_STATUSES.includes(s.status))) return 'completed';
+  return 'running';
+}
+
+function getNextCheckAt(states: WorkflowStepState[]): string | null {
+  const times = states
+    .map((s) => (s.status === 'waiting' ? s.wait_until : s.status === 'pending' ? s.retry_at : null))
+    .filter((t): t is string => !!t)
+    .sort();
+  return times[0] || null;
+}
+
+function getWaitMs(wait: NonNullable<WorkflowStep['wait']>): number {
+  return ((wait.days || 0) * 24 * 60 + (wait.hours || 0) * 60 + (wait.minutes || 0)) * MINUTE_MS;
+}
+
+// ===========================================
+// Engine
+// ===========================================
+
+export class WorkflowEngine {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase || getSupabase();
+  }
+
+  /**
+   * Start a workflow and run its first steps.
+   */
+  async start(type: WorkflowType, input: Record<string, unknown> = {}): Promise<string> {
+    const definition = getWorkflowDefinition(type);
+    if (!definition) {
+      throw new Error(`Unknown workflow type: ${type}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .insert({
+        workflow_type: type,
+        status: 'running',
+        current_step: 0,
+        total_steps: definition.steps.length,
+        payload: input,
+        step_results: createStepStates(definition),
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create workflow: ${error.message}`);
+    }
+
+    logger.info(`Started workflow: ${definition.name} (${data.id})`);
+    await this.advance(data.id);
+
+    return data.id;
+  }
+
+  async get(id: string): Promise<WorkflowInstance | null> {
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw new Error(`Failed to get workflow: ${error.message}`);
+    }
+
+    return data as WorkflowInstance;
+  }
+
+  async list(options: WorkflowListOptions = {}): Promise<WorkflowInstance[]> {
+    let query = this.supabase
+      .from('workflow_instances')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 100);
+
+    if (options.status) query = query.eq('status', options.status);
+    if (options.type) query = query.eq('workflow_type', options.type);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list workflows: ${error.message}`);
+    }
+
+    return (data || []) as WorkflowInstance[];
+  }
+
+  /**
+   * Move a running workflow as far as it can go. Returns null when the
+   * instance isn't running or another advance holds it.
+   */
+  async advance(id: string): Promise<WorkflowInstance | null> {
+    const now = new Date();
+    const instance = await this.lock(id, now);
+    if (!instance) {
+      return null;
+    }
+
+    let states: WorkflowStepState[] | null = null;
+    try {
+      const definition = getWorkflowDefinition(instance.workflow_type);
+      if (!definition) {
+        return await this.save(instance, instance.step_results || [], 'failed', `Unknown workflow type: ${instance.workflow_type}`);
+      }
+
+      states = this.loadStates(definition, instance);
+      await this.refreshSteps(definition, states, now);
+
+      // Each pass can unblock later steps (skips, zero-length waits)
+      for (let pass = 0; pass <= definition.steps.length; pass++) {
+        const context = buildWorkflowContext(instance.payload || {}, states);
+        const plan = planWorkflowSteps(definition, states, context, now);
+        if (plan.start.length === 0 && plan.skip.length === 0 && plan.finishWaits.length === 0) {
+          break;
+        }
+
+        for (const key of plan.skip) {
+          Object.assign(states.find((s) => s.key === key)!, { status: 'skipped', completed_at: now.toISOString() });
+        }
+        for (const key of plan.finishWaits) {
+          Object.assign(states.find((s) => s.key === key)!, { status: 'completed', completed_at: now.toISOString() });
+        }
+        for (const step of plan.start) {
+          await this.startStep(instance, definition, step, states, context, now);
+        }
+      }
+
+      const outcome = getWorkflowOutcome(states);
+      const failed = states.find((s) => s.status === 'failed');
+      return await this.save(
+        instance,
+        states,
+        outcome,
+        failed ? `Step ${failed.key} failed: ${failed.error || 'unknown error'}` : null
+      );
+    } catch (error) {
+      // Keep what earlier steps started (e.g. task IDs) so the next advance doesn't start them again
+      try {
+        if (states) {
+          await this.saveStates(id, states);
+        } else {
+          await this.unlock(id);
+        }
+      } catch (saveError) {
+        logger.error('Failed to save workflow after advance error', { id, error: String(saveError) });
+        await this.unlock(id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Advance every running workflow. Runs on the orchestrator's cycle so
+   * waits and retries come due without an external trigger.
+   */
+  async tick(): Promise<WorkflowTickResult> {
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .select('id')
+      .eq('status', 'running')
+      .order('updated_at', { ascending: true })
+      .limit(workflowEngineConfig.tick_batch_size);
+
+    if (error) {
+      throw new Error(`Failed to list running workflows: ${error.message}`);
+    }
+
+    const result: WorkflowTickResult = { checked: data?.length || 0, advanced: 0, errors: [] };
+
+    for (const { id } of data || []) {
+      try {
+        if (await this.advance(id)) {
+          result.advanced++;
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        result.errors.push(`${id}: ${errorMsg}`);
+        logger.error('Workflow advance failed', { id, error: errorMsg });
+      }
+    }
+
+    return result;
+  }
+
+  async pause(id: string): Promise<void> {
+    await this.setStatus(id, 'paused', ['running']);
+    logger.info(`Paused workflow: ${id}`);
+  }
+
+  async resume(id: string): Promise<void> {
+    await this.setStatus(id, 'running', ['paused']);
+    logger.info(`Resumed workflow: ${id}`);
+    await this.advance(id);
+  }
+
+  async cancel(id: string): Promise<void> {
+    await this.setStatus(id, 'cancelled', ['running', 'paused']);
+    logger.info(`Cancelled workflow: ${id}`);
+  }
+
+  private async setStatus(id: string, status: WorkflowStatus, from: WorkflowStatus[]): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .update({
+        status,
+        ...(status === 'cancelled' ? { completed_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', id)
+      .in('status', from)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update workflow: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error(`Workflow ${id} is not ${from.join(' or ')}`);
+    }
+  }
+
+  /**
+   * Step states for the current definition; steps added since the instance
+   * started begin as pending.
+   */
+  private loadStates(definition: WorkflowDefinition, instance: WorkflowInstance): WorkflowStepState[] {
+    const existing = new Map((instance.step_results || []).map((s) => [s.key, s]));
+    return createStepStates(definition).map((fresh) => ({ ...fresh, ...existing.get(fresh.key) }));
+  }
+
+  /**
+   * Pick up finished tasks and approval decisions for in-flight steps.
+   */
+  private async refreshSteps(definition: WorkflowDefinition, states: WorkflowStepState[], now: Date): Promise<void> {
+    const steps = new Map(definition.steps.map((s) => [s.key, s]));
+
+    const running = states.filter((s) => s.status === 'running' && s.task_id);
+    if (running.length > 0) {
+      const { data: tasks, error } = await this.supabase
+        .from('agent_tasks')
+        .select('id, status, result, last_error')
+        .in('id', running.map((s) => s.task_id));
+
+      if (error) {
+        throw new Error(`Failed to get workflow tasks: ${error.message}`);
+      }
+
+      for (const task of tasks || []) {
+        const state = running.find((s) => s.task_id === task.id)!;
+        const step = steps.get(state.key);
+        if (!step) continue;
+
+        if (task.status === 'complete') {
+          Object.assign(state, { status: 'completed', output: task.result ?? null, error: null, completed_at: now.toISOString() });
+        } else if (task.status === 'failed') {
+          this.failTaskStep(step, state, task.last_error || 'Task failed', now);
+        }
+      }
+    }
+
+    const awaiting = states.filter((s) => s.status === 'awaiting_approval' && s.approval_id);
+    if (awaiting.length > 0) {
+      const { data: approvals, error } = await this.supabase
+        .from('approval_queue')
+        .select('id, status, feedback, reviewed_by, reviewed_at')
+        .in('id', awaiting.map((s) => s.approval_id));
+
+      if (error) {
+        throw new Error(`Failed to get workflow approvals: ${error.message}`);
+      }
+
+      for (const approval of approvals || []) {
+        const state = awaiting.find((s) => s.approval_id === approval.id)!;
+        const step = steps.get(state.key);
+        if (step) {
+          this.applyApprovalDecision(step, state, approval, now);
+        }
+      }
+    }
+  }
+
+  /**
+   * Retry a failed task step if it has retries left, otherwise fail it.
+   */
+  private failTaskStep(step: WorkflowStep, state: WorkflowStepState, message: string, now: Date): void {
+    if (state.attempts <= (step.retries || 0)) {
+      const delay = (step.retry_delay_minutes ?? workflowEngineConfig.default_retry_delay_minutes) * MINUTE_MS;
+      Object.assign(state, {
+        status: 'pending',
+        task_id: null,
+        error: message,
+        retry_at: new Date(now.getTime() + delay).toISOString(),
+      });
+      logger.warn(`Retrying workflow step ${step.key}`, { attempts: state.attempts, error: message });
+    } else {
+      Object.assign(state, { status: 'failed', error: message, completed_at: now.toISOString() });
+    }
+  }
+
+  private applyApprovalDecision(
+    step: WorkflowStep,
+    state: WorkflowStepState,
+    approval: { id: string; status: string; feedback?: string | null; reviewed_by?: string | null },
+    now: Date
+  ): void {
+    if (approval.status === 'pending') {
+      return;
+    }
+
+    const approved = approval.status === 'approved';
+    const output = {
+      approved,
+      status: approval.status,
+      approval_id: approval.id,
+      feedback: approval.feedback || null,
+      reviewed_by: approval.reviewed_by || null,
+    };
+
+    if (approved || step.approval?.on_reject === 'continue') {
+      Object.assign(state, { status: 'completed', output, completed_at: now.toISOString() });
+    } else {
+      Object.assign(state, { status: 'failed', output, error: `Approval ${approval.status}`, completed_at: now.toISOString() });
+    }
+  }
+
+  private async startStep(
+    instance: WorkflowInstance,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    states: WorkflowStepState[],
+    context: WorkflowContext,
+    now: Date
+  ): Promise<void> {
+    const state = states.find((s) => s.key === step.key)!;
+    Object.assign(state, { started_at: state.started_at || now.toISOString(), retry_at: null });
+
+    switch (step.kind) {
+      case 'task': {
+        if (!step.agent || !step.action) {
+          Object.assign(state, { status: 'failed', error: 'Task step needs an agent and action', completed_at: now.toISOString() });
+          return;
+        }
+
+        const payload = {
+          ...(resolveWorkflowValue(step.payload || {}, context) as Record<string, unknown>),
+          workflow_id: instance.id,
+          workflow_step: step.key,
+        };
+
+        const { data, error } = await this.supabase
+          .from('agent_tasks')
+          .insert({
+            type: step.action,
+            assigned_agent: step.agent,
+            payload,
+            priority: 3,
+            created_by: 'orchestrator',
+          })
+          .select('id')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create task for step ${step.key}: ${error.message}`);
+        }
+
+        EventBus.emit('agent:task_created', { taskId: data.id, type: step.action, assignedAgent: step.agent });
+        Object.assign(state, { status: 'running', task_id: data.id, attempts: state.attempts + 1 });
+        logger.info(`Workflow ${instance.id} step ${step.key}: created ${step.agent} task ${data.id}`);
+        return;
+      }
+
+      case 'wait': {
+        const after = step.wait?.after ? states.find((s) => s.key === step.wait!.after)?.completed_at : null;
+        const base = after ? new Date(after).getTime() : now.getTime();
+        const waitUntil = new Date(base + getWaitMs(step.wait || {}));
+
+        Object.assign(state, {
+          status: waitUntil <= now ? 'completed' : 'waiting',
+          wait_until: waitUntil.toISOString(),
+          ...(waitUntil <= now ? { completed_at: now.toISOString() } : {}),
+        });
+        return;
+      }
+
+      case 'approval': {
+        const approval = await this.openApproval(instance, definition, step, states, context);
+        Object.assign(state, { status: 'awaiting_approval', approval_id: approval.id });
+        this.applyApprovalDecision(step, state, approval, now);
+        return;
+      }
+    }
+  }
+
+  /**
+   * The approval a gate waits on: the one raised by `from_step`'s agent
+   * task if there is one, otherwise a new approval_queue item.
+   */
+  private async openApproval(
+    instance: WorkflowInstance,
+    definition: WorkflowDefinition,
+    step: WorkflowStep,
+    states: WorkflowStepState[],
+    context: WorkflowContext
+  ): Promise<{ id: string; status: string; feedback?: string | null; reviewed_by?: string | null }> {
+    const config = step.approval || {};
+    const source = config.from_step ? states.find((s) => s.key === config.from_step) : undefined;
+
+    if (source?.task_id) {
+      const { data: existing, error } = await this.supabase
+        .from('approval_queue')
+        .select('id, status, feedback, reviewed_by')
+        .eq('related_task_id', source.task_id)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        throw new Error(`Failed to find approval for step ${step.key}: ${error.message}`);
+      }
+
+      if (existing && existing[0]) {
+        const { error: linkError } = await this.supabase
+          .from('approval_queue')
+          .update({ workflow_id: instance.id, workflow_step: step.key })
+          .eq('id', existing[0].id);
+
+        if (linkError) {
+          throw new Error(`Failed to link approval: ${linkError.message}`);
+        }
+        return existing[0];
+      }
+    }
+
+    const content = config.content ? resolveWorkflowValue(config.content, context) : source?.output;
+
+    const { data, error } = await this.supabase
+      .from('approval_queue')
+      .insert({
+        type: config.type || 'workflow',
+        title: config.title || `${definition.name}: ${step.label}`,
+        summary: config.summary,
+        content: content || {},
+        priority: config.priority || 'medium',
+        created_by: 'orchestrator',
+        related_task_id: source?.task_id,
+        workflow_id: instance.id,
+        workflow_step: step.key,
+      })
+      .select('id, status')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create approval for step ${step.key}: ${error.message}`);
+    }
+
+    EventBus.emit('agent:approval_needed', { approvalId: data.id, type: config.type || 'workflow' });
+    return data;
+  }
+
+  private async lock(id: string, now: Date): Promise<WorkflowInstance | null> {
+    const lockedUntil = new Date(now.getTime() + workflowEngineConfig.lock_seconds * 1000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .update({ locked_until: lockedUntil })
+      .eq('id', id)
+      .eq('status', 'running')
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to lock workflow: ${error.message}`);
+    }
+
+    return (data && data[0]) ? (data[0] as WorkflowInstance) : null;
+  }
+
+  private async unlock(id: string): Promise<void> {
+    await this.supabase.from('workflow_instances').update({ locked_until: null }).eq('id', id);
+  }
+
+  /**
+   * Save the outcome of an advance. Only a still-running instance takes the
+   * new status; one paused or cancelled meanwhile keeps its status and only
+   * gets the step states.
+   */
+  private async save(
+    instance: WorkflowInstance,
+    states: WorkflowStepState[],
+    status: WorkflowStatus,
+    errorMessage: string | null
+  ): Promise<WorkflowInstance> {
+    const finished = status === 'completed' || status === 'failed';
+
+    const { data: rows, error } = await this.supabase
+      .from('workflow_instances')
+      .update({
+        status,
+        step_results: states,
+        current_step: states.filter((s) => TERMINAL_STEP_STATUSES.includes(s.status)).length,
+        total_steps: states.length,
+        error_message: errorMessage,
+        next_check_at: finished ? null : getNextCheckAt(states),
+        locked_until: null,
+        ...(finished ? { completed_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', instance.id)
+      .eq('status', 'running')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save workflow: ${error.message}`);
+    }
+
+    const data = rows && rows[0];
+    if (!data) {
+      logger.info(`Workflow ${instance.id} changed status during advance, keeping it`);
+      return this.saveStates(instance.id, states);
+    }
+
+    if (finished) {
+      logger.info(`Workflow ${status}: ${instance.id}`, { type: instance.workflow_type, error: errorMessage });
+    }
+
+    return data as WorkflowInstance;
+  }
+
+  /**
+   * Save step states and release the lock without touching the status.
+   */
+  private async saveStates(id: string, states: WorkflowStepState[]): Promise<WorkflowInstance> {
+    const { data, error } = await this.supabase
+      .from('workflow_instances')
+      .update({
+        step_results: states,
+        current_step: states.filter((s) => TERMINAL_STEP_STATUSES.includes(s.status)).length,
+        total_steps: states.length,
+        locked_until: null,
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save workflow steps: ${error.message}`);
+    }
+
+    return data as WorkflowInstance;
+  }
+}
+
+// Singleton
+let workflowEngineInstance: WorkflowEngine | null = null;
+
+export function getWorkflowEngine(): WorkflowEngine {
+  if (!workflowEngineInstance) {
+    workflowEngineInstance = new WorkflowEngine();
+  }
+  return workflowEngineInstance;
+}
@@ -9,6 +9,7 @@ import {
   leadScoringConfig,
   pipelineStagesConfig,
   assetRangesConfig,
+  getAssetRangeFromAnswer,
   budgetParametersConfig,
   contentRulesConfig,
   assignmentRulesConfig,
@@ -18,7 +19,39 @@ import {
   getFitBonus,
   classifyLead,
   checkThresholdCrossing,
+  sequenceSendingConfig,
+  isWithinQuietHours,
+  isBounceNotification,
+  isOptOutReply,
+  getTestedRate,
+  resolveConfidenceLevel,
+  applyAllocationGuardrails,
+  getAllocationCpcBid,
 } from '../config';
+import {
+  normalCdf,
+  twoProportionZTest,
+  wilsonInterval,
+  compareVariants,
+} from '../utils/experiment-stats';
+import { evaluateCompliance, summarizeCompliance } from '../utils/compliance';
+import { classifyTouchChannel, attributeCredit, getLeadSourceForTouch } from '../utils/attribution';
+import { parseCron, isValidCron, getCronRuns } from '../utils/cron';
+import {
+  aggregateSearchTerms,
+  matchNegativeRule,
+  buildNegativeProposals,
+  type SearchTermClassification,
+} from '../utils/search-terms';
+import { defaultSchedules } from '../config/schedules';
+import { workflowDefinitions } from '../config/workflows';
+import {
+  normalizeTitle,
+  shingle,
+  minhashSignature,
+  estimateSimilarity,
+  titleSimilarity,
+} from '../utils/text-fingerprint';
 import {
   contactInsertSchema,
   taskInsertSchema,
@@ -132,6 +165,15 @@ describe('Asset Ranges Configuration', () => {
       expect(range.id).toBeDefined();
     });
   });
+
+  it('should map lead form answers to ranges', () => {
+    expect(getAssetRangeFromAnswer('Under $250K')).toBe('under_500k');
+    expect(getAssetRangeFromAnswer('Under $1M')).toBe('500k_to_2m');
+    expect(getAssetRangeFromAnswer('$500K - $1M')).toBe('500k_to_2m');
+    expect(getAssetRangeFromAnswer('$1,500,000')).toBe('500k_to_2m');
+    expect(getAssetRangeFromAnswer('2m_plus')).toBe('over_2m');
+    expect(getAssetRangeFromAnswer('Prefer not to say')).toBeNull();
+  });
 });
 
 describe('Budget Parameters Configuration', () => {
@@ -154,6 +196,21 @@ describe('Budget Parameters Configuration', () => {
     expect(budgetParametersConfig.auto_pause).toBeDefined();
     expect(budgetParametersConfig.auto_pause.keyword_cpc_limit).toBeDefined();
   });
+
+  it('should limit bandit share moves and keep a floor', () => {
+    const shares = applyAllocationGuardrails([0.25, 0.25, 0.25, 0.25], [0.97, 0.01, 0.01, 0.01]);
+    const total = shares.reduce((sum, s) => sum + s, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(shares[0]).toBeLessThanOrEqual(0.25 + budgetParametersConfig.bandit_allocation.max_share_change + 0.01);
+    shares.forEach((s) => expect(s).toBeGreaterThanOrEqual(budgetParametersConfig.bandit_allocation.min_share));
+  });
+
+  it('should map allocation shares to clamped CPC bids', () => {
+    const { base_cpc_bid, max_cpc_bid, min_cpc_bid } = budgetParametersConfig.bandit_allocation;
+    expect(getAllocationCpcBid(0.25, 4)).toBe(base_cpc_bid);
+    expect(getAllocationCpcBid(1, 20)).toBe(max_cpc_bid);
+    expect(getAllocationCpcBid(0.01, 2)).toBe(min_cpc_bid);
+  });
 });
 
 describe('Content Rules Configuration', () => {
@@ -213,6 +270,347 @@ describe('Agent Schedules Configuration', () => {
   });
 });
 
+describe('Sequence Sending Configuration', () => {
+  it('should have a positive daily send cap', () => {
+    expect(sequenceSendingConfig.daily_send_cap).toBeGreaterThan(0);
+  });
+
+  it('should detect quiet hours that wrap past midnight', () => {
+    const quiet = { start: 20, end: 7 };
+    expect(isWithinQuietHours(new Date('2026-03-10T03:00:00Z'), quiet, 'UTC')).toBe(true);
+    expect(isWithinQuietHours(new Date('2026-03-10T21:00:00Z'), quiet, 'UTC')).toBe(true);
+    expect(isWithinQuietHours(new Date('2026-03-10T12:00:00Z'), quiet, 'UTC')).toBe(false);
+  });
+
+  it('should detect quiet hours within a single day', () => {
+    const quiet = { start: 12, end: 14 };
+    expect(isWithinQuietHours(new Date('2026-03-10T13:00:00Z'), quiet, 'UTC')).toBe(true);
+    expect(isWithinQuietHours(new Date('2026-03-10T14:00:00Z'), quiet, 'UTC')).toBe(false);
+  });
+
+  it('should evaluate quiet hours in the configured timezone', () => {
+    // 02:00 UTC is 20:00 or 21:00 in Chicago depending on DST
+    expect(isWithinQuietHours(new Date('2026-03-10T02:00:00Z'), { start: 20, end: 7 }, 'America/Chicago')).toBe(true);
+  });
+});
+
+describe('Lead Outreach Configuration', () => {
+  it('should detect opt-outs in the reply, not the quoted original', () => {
+    expect(isOptOutReply('Please remove me from your list.\n\nThanks')).toBe(true);
+    expect(isOptOutReply("Don't email me again")).toBe(true);
+    expect(isOptOutReply('Sounds interesting, happy to talk next week.')).toBe(false);
+    expect(
+      isOptOutReply('Sure, call me Tuesday.\n\nOn Mon, Jan 5, 2026 at 9:00 AM Chad wrote:\n> Reply to unsubscribe')
+    ).toBe(false);
+  });
+
+  it('should only treat delivery notices from mail daemons as bounces', () => {
+    expect(isBounceNotification('mailer-daemon@googlemail.com', 'Delivery Status Notification (Failure)')).toBe(true);
+    expect(isBounceNotification('postmaster@example.com', 'Undeliverable: Congratulations')).toBe(true);
+    expect(isBounceNotification('jane@example.com', 'Undeliverable: Congratulations')).toBe(false);
+  });
+});
+
+describe('Experiment Statistics', () => {
+  it('should compute the standard normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 5);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+  });
+
+  it('should find a significant difference with the z-test', () => {
+    const result = twoProportionZTest(
+      { successes: 50, trials: 1000 },
+      { successes: 80, trials: 1000 }
+    );
+    expect(result.z).toBeGreaterThan(2);
+    expect(result.pValue).toBeLessThan(0.05);
+    expect(result.confidence).toBeGreaterThan(0.99);
+  });
+
+  it('should compute a Wilson interval around the observed rate', () => {
+    const interval = wilsonInterval({ successes: 50, trials: 1000 }, 0.95);
+    expect(interval.lower).toBeLessThan(0.05);
+    expect(interval.upper).toBeGreaterThan(0.05);
+  });
+
+  it('should flag clear losers and a winner (Bayesian)', () => {
+    const result = compareVariants(
+      [
+        { id: 'a', successes: 40, trials: 1000 },
+        { id: 'b', successes: 90, trials: 1000 },
+        { id: 'c', successes: 45, trials: 1000 },
+      ],
+      { method: 'bayesian', confidence: 0.95, draws: 4000 }
+    );
+    expect(result.bestId).toBe('b');
+    expect(result.winnerId).toBe('b');
+    expect(result.loserIds.sort()).toEqual(['a', 'c']);
+    const total = result.variants.reduce((sum, v) => sum + v.probabilityBest, 0);
+    expect(total).toBeCloseTo(1, 5);
+  });
+
+  it('should not act on inconclusive data (z-test)', () => {
+    const result = compareVariants(
+      [
+        { id: 'a', successes: 50, trials: 1000 },
+        { id: 'b', successes: 55, trials: 1000 },
+      ],
+      { method: 'z_test', confidence: 0.95, draws: 2000 }
+    );
+    expect(result.bestId).toBe('b');
+    expect(result.winnerId).toBeNull();
+    expect(result.loserIds).toEqual([]);
+  });
+
+  it('should map optimization metrics to tested rates and clamp confidence', () => {
+    expect(getTestedRate('conversions')).toBe('conversion_rate');
+    expect(getTestedRate('cpc')).toBe('ctr');
+    expect(resolveConfidenceLevel(undefined)).toBe(0.95);
+    expect(resolveConfidenceLevel(0.5)).toBe(0.8);
+  });
+});
+
+describe('Compliance Engine', () => {
+  it('should block guaranteed returns and suggest a fix', () => {
+    const result = evaluateCompliance('We offer guaranteed returns for retirees.', 'linkedin_post');
+    expect(result.passed).toBe(false);
+    expect(result.highestSeverity).toBe('block');
+    expect(result.findings[0]?.ruleId).toBe('guaranteed_returns');
+    expect(result.suggestedFix).toBe('We offer potential results for retirees.');
+  });
+
+  it('should require the past-performance disclosure for specific returns', () => {
+    const text = 'Our balanced portfolio returned 8% last year.';
+    const missing = evaluateCompliance(text, 'linkedin_post');
+    expect(missing.passed).toBe(false);
+    expect(missing.missingDisclosures.map((d) => d.disclosureId)).toEqual(['past_performance']);
+    expect(missing.suggestedFix).toContain('Past performance is not indicative');
+
+    const disclosed = evaluateCompliance(`${text} Past performance is not indicative of future results.`, 'linkedin_post');
+    expect(disclosed.passed).toBe(true);
+    expect(disclosed.highestSeverity).toBe('warning');
+  });
+
+  it('should detect testimonials', () => {
+    const result = evaluateCompliance('"They made retirement simple for us." - Linda, Houston', 'linkedin_post');
+    expect(result.findings.some((f) => f.category === 'testimonial')).toBe(true);
+    expect(result.missingDisclosures.map((d) => d.disclosureId)).toContain('testimonial');
+
+    // The word alone is not a testimonial
+    expect(evaluateCompliance('Read our guide to the SEC testimonials rule.', 'linkedin_post').findings).toEqual([]);
+  });
+
+  it('should block a testimonial disclosure until the compensation statement is filled in', () => {
+    const quote = '"They made retirement simple for us." - Linda, Houston';
+    const result = evaluateCompliance(quote, 'linkedin_post');
+    expect(result.suggestedFix).toContain('[Compensation:');
+
+    const unfilled = evaluateCompliance(result.suggestedFix!, 'linkedin_post');
+    expect(unfilled.passed).toBe(false);
+    expect(unfilled.findings.map((f) => f.ruleId)).toContain('testimonial_compensation_placeholder');
+
+    const filled = evaluateCompliance(
+      result.suggestedFix!.replace(/\[Compensation:[^\]]*\]/, 'Linda is a current client and was not compensated.'),
+      'linkedin_post'
+    );
+    expect(filled.passed).toBe(true);
+  });
+
+  it('should require disclosures per content type but not append them to ads', () => {
+    const blog = evaluateCompliance('Five questions to ask before you retire.', 'blog_post');
+    expect(blog.passed).toBe(true);
+    expect(blog.missingDisclosures.map((d) => d.disclosureId)).toEqual(['adviser_registration']);
+
+    const ad = evaluateCompliance('Past results: earned 12% annual returns', 'meta_ad');
+    expect(ad.passed).toBe(false);
+    expect(ad.suggestedFix).toBeNull();
+  });
+
+  it('should skip invalid patterns in custom rule sets', () => {
+    const result = evaluateCompliance('risk free', 'rsa', {
+      version: 'test',
+      rules: [
+        { id: 'broken', category: 'guarantee', description: 'Broken', severity: 'block', pattern: '(', suggestion: '' },
+      ],
+      disclosures: [],
+    });
+    expect(result.passed).toBe(true);
+    expect(result.rulesVersion).toBe('test');
+  });
+
+  it('should summarize results for agent consumers', () => {
+    const summary = summarizeCompliance(evaluateCompliance('A risk-free plan', 'rsa'));
+    expect(summary.passed).toBe(false);
+    expect(summary.issues[0]).toContain('[block]');
+    expect(summary.suggestions.length).toBeGreaterThan(0);
+  });
+});
+
+describe('Text Fingerprints', () => {
+  it('should normalize titles across publishers', () => {
+    expect(normalizeTitle('The Fed Holds Rates Steady - Bloomberg')).toBe('fed holds rates steady');
+    expect(normalizeTitle('Fed holds rates steady | Abnormal Returns')).toBe('fed holds rates steady');
+    expect(titleSimilarity(normalizeTitle('Fed Holds Rates Steady'), normalizeTitle('Why the Fed holds rates'))).toBeCloseTo(0.75);
+  });
+
+  it('should build word shingles', () => {
+    expect([...shingle('one two three four', 3)]).toEqual(['one two three', 'two three four']);
+    expect([...shingle('short', 3)]).toEqual(['short']);
+  });
+
+  it('should estimate similarity from MinHash signatures', () => {
+    const story = 'The Federal Reserve left interest rates unchanged on Wednesday and signaled two cuts later this year as inflation cools';
+    const rewrite = 'The Federal Reserve left interest rates unchanged on Wednesday and signaled two cuts later this year, citing cooling inflation';
+    const other = 'Small cap value stocks have lagged large growth for a decade, but factor premiums tend to show up over long horizons';
+
+    const a = minhashSignature(shingle(story));
+    expect(a).toEqual(minhashSignature(shingle(story)));
+    expect(estimateSimilarity(a, minhashSignature(shingle(rewrite)))).toBeGreaterThan(0.5);
+    expect(estimateSimilarity(a, minhashSignature(shingle(other)))).toBeLessThan(0.1);
+    expect(minhashSignature([])).toEqual([]);
+  });
+});
+
+describe('Marketing Attribution', () => {
+  const at = '2026-01-05T12:00:00Z';
+
+  it('should classify touches by click ID, UTMs and referrer', () => {
+    expect(classifyTouchChannel({ gclid: 'abc', timestamp: at })).toBe('google_ads');
+    expect(classifyTouchChannel({ utm_source: 'facebook', utm_medium: 'paid_social', timestamp: at })).toBe('meta_ads');
+    expect(classifyTouchChannel({ fbclid: 'xyz', timestamp: at })).toBe('social');
+    expect(classifyTouchChannel({ referrer: 'https://www.google.co.uk/', timestamp: at })).toBe('organic_search');
+    expect(classifyTouchChannel({ referrer: 'https://l.facebook.com/l.php', timestamp: at })).toBe('social');
+    expect(classifyTouchChannel({ referrer: 'https://www.arcvest.com/blog', timestamp: at })).toBe('direct');
+    expect(classifyTouchChannel({ timestamp: at })).toBe('direct');
+  });
+
+  it('should derive the lead source from the visit', () => {
+    expect(getLeadSourceForTouch({ gclid: 'abc', timestamp: at })).toBe('google_ads_search');
+    expect(getLeadSourceForTouch({ utm_source: 'facebook', utm_medium: 'paid_social', timestamp: at })).toBe('meta_ads');
+    expect(getLeadSourceForTouch({ fbclid: 'xyz', timestamp: at })).toBe('organic_social');
+    expect(getLeadSourceForTouch({ utm_source: 'newsletter', timestamp: at })).toBe('email');
+    expect(getLeadSourceForTouch({ timestamp: at })).toBe('landing_page');
+    expect(getLeadSourceForTouch(null)).toBe('landing_page');
+  });
+
+  it('should split credit by model', () => {
+    const journey = ['organic_search', 'google_ads', 'direct'] as const;
+    expect(attributeCredit([...journey], 'first_touch')).toEqual([1, 0, 0]);
+    expect(attributeCredit([...journey], 'last_touch')).toEqual([0, 1, 0]);
+    expect(attributeCredit(['direct', 'direct'], 'last_touch')).toEqual([0, 1]);
+    expect(attributeCredit([...journey], 'linear').reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+});
+
+describe('Cron Schedules', () => {
+  it('should parse and validate cron expressions', () => {
+    expect(isValidCron('*/15 * * * *')).toBe(true);
+    expect(isValidCron('0 14,18,23 * * 1-5')).toBe(true);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('* * * *')).toBe(false);
+    expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+  });
+
+  it('should list runs between two times in UTC', () => {
+    const runs = getCronRuns('30 12 * * *', new Date('2026-01-05T12:30:00Z'), new Date('2026-01-07T12:30:00Z'));
+    expect(runs.map((r) => r.toISOString())).toEqual(['2026-01-06T12:30:00.000Z', '2026-01-07T12:30:00.000Z']);
+
+    // Monday-only schedule
+    expect(getCronRuns('0 15 * * 1', new Date('2026-01-01T00:00:00Z'), new Date('2026-01-31T00:00:00Z'))).toHaveLength(4);
+  });
+
+  it('should ship valid, unique default schedules', () => {
+    const keys = defaultSchedules.map((s) => s.key);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(defaultSchedules.every((s) => isValidCron(s.cron))).toBe(true);
+  });
+});
+
+describe('Search Terms', () => {
+  const row = (searchTerm: string, campaignId: string, cost: number) => ({
+    searchTerm,
+    campaignId,
+    campaignName: `Campaign ${campaignId}`,
+    impressions: 100,
+    clicks: 5,
+    cost,
+    conversions: 0,
+  });
+
+  it('should match negative rules on whole words, honoring exceptions', () => {
+    expect(matchNegativeRule('Financial Advisor JOBS near me')).toMatchObject({
+      category: 'employment',
+      negativeText: 'jobs',
+      matchType: 'PHRASE',
+      level: 'shared_list',
+    });
+    expect(matchNegativeRule('robinhood retirement account')?.category).toBe('competitor_platform');
+    expect(matchNegativeRule('free retirement calculator')?.category).toBe('free_or_cheap');
+
+    // A free consultation is a prospect; "jobsite" isn't "jobs"
+    expect(matchNegativeRule('free consultation fiduciary advisor')).toBeNull();
+    expect(matchNegativeRule('jobsite accident lawyer')).toBeNull();
+    expect(matchNegativeRule('fee only financial advisor')).toBeNull();
+  });
+
+  it('should group classified terms into campaign or shared-list proposals', () => {
+    const rows = aggregateSearchTerms([
+      row('Advisor Jobs', 'c1', 10),
+      row('advisor  jobs', 'c1', 5),
+      row('wealth manager jobs', 'c2', 20),
+      row('what is an annuity', 'c1', 8),
+      row('what is an annuity', 'c2', 4),
+      row('index fund ticker', 'c1', 6),
+      row('fee only advisor', 'c1', 50),
+    ]);
+    expect(rows).toHaveLength(6);
+
+    const llm = (category: SearchTermClassification['category'], text: string): SearchTermClassification => ({
+      category,
+      reason: 'Not a prospect',
+      classifiedBy: 'llm',
+      negativeText: text,
+      matchType: 'EXACT',
+      level: null,
+    });
+    const classifications = new Map<string, SearchTermClassification>([
+      ['advisor jobs', matchNegativeRule('advisor jobs')!],
+      ['wealth manager jobs', matchNegativeRule('wealth manager jobs')!],
+      ['what is an annuity', llm('education', 'what is an annuity')],
+      ['index fund ticker', llm('irrelevant', 'index fund ticker')],
+    ]);
+
+    const proposals = buildNegativeProposals(rows, classifications);
+    expect(proposals.map((p) => [p.negativeText, p.level, p.campaignId, p.cost])).toEqual([
+      ['jobs', 'shared_list', null, 35],
+      ['what is an annuity', 'shared_list', null, 12],
+      ['index fund ticker', 'campaign', 'c1', 6],
+    ]);
+    expect(proposals[0]!.searchTerms).toEqual(['advisor jobs', 'wealth manager jobs']);
+  });
+});
+
+describe('Workflow Definitions', () => {
+  it('should only reference earlier steps', () => {
+    for (const definition of Object.values(workflowDefinitions)) {
+      const seen = new Set<string>();
+      for (const step of definition!.steps) {
+        const refs = [
+          ...(step.depends_on || []),
+          ...(step.wait?.after ? [step.wait.after] : []),
+          ...(step.approval?.from_step ? [step.approval.from_step] : []),
+          ...JSON.stringify([step.payload, step.when]).match(/\$steps\.[a-z_0-9]+/g)?.map((r) => r.slice(7)) || [],
+        ];
+        for (const ref of refs) {
+          expect(seen.has(ref), `${definition!.type}.${step.key} -> ${ref}`).toBe(true);
+        }
+        expect(seen.has(step.key)).toBe(false);
+        seen.add(step.key);
+      }
+    }
+  });
+});
+
 describe('Validators', () => {
   describe('contactInsertSchema', () => {
     it('should validate a valid contact', () => {
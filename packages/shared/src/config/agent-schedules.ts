@@ -4,6 +4,9 @@
  *
  * Defines when each agent runs and what actions they perform.
  * Uses cron expressions for scheduling.
+ *
+ * Legacy: the agent runner now takes its schedule from the schedule registry
+ * (see schedules.ts); these entries are kept for reference only.
  */
 
 import type { AgentName } from '../types';
@@ -81,3 +81,22 @@ export function getAssetRangeOptions(): Array<{ value: AssetRange; label: string
     label: range.label,
   }));
 }
+
+/**
+ * Determine asset range from a form answer such as "$500K - $1M",
+ * "Under $250K" or an option key like "1m_2m". Ranges use their lower
+ * bound; "under" answers fall just below the amount. Returns null when
+ * the answer has no amount in it.
+ */
+export function getAssetRangeFromAnswer(answer: string): AssetRange | null {
+  const match = answer.toLowerCase().replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|m|mm)?/);
+  if (!match) {
+    return null;
+  }
+
+  const multiplier = match[2] === 'k' ? 1_000 : match[2] ? 1_000_000 : 1;
+  const amount = parseFloat(match[1]!) * multiplier;
+  const isUpperBound = /\b(under|less than|below)\b|^under_/.test(answer.toLowerCase());
+
+  return getAssetRangeFromAmount(isUpperBound ? amount - 1 : amount);
+}
@@ -34,12 +34,21 @@ export interface AutoPauseRules {
   ad_min_impressions: number;
 }
 
+export interface BanditAllocationRules {
+  min_share: number;
+  max_share_change: number;
+  base_cpc_bid: number;
+  min_cpc_bid: number;
+  max_cpc_bid: number;
+}
+
 export interface BudgetParametersConfig {
   monthly_budget: number;
   daily_budget_limit: number;
   scaling: ScalingConfig;
   requires_approval: ApprovalThresholds;
   auto_pause: AutoPauseRules;
+  bandit_allocation: BanditAllocationRules;
 }
 
 export const budgetParametersConfig: BudgetParametersConfig = {
@@ -80,6 +89,15 @@ export const budgetParametersConfig: BudgetParametersConfig = {
     ad_ctr_below: 0.01, // Pause ads with <1% CTR
     ad_min_impressions: 1000, // After this many impressions
   },
+
+  // Guardrails for Thompson sampling experiments (traffic moved via ad group CPC bids)
+  bandit_allocation: {
+    min_share: 0.05, // Every variation keeps at least 5% so it can keep learning
+    max_share_change: 0.15, // Share moves at most 15 points per optimizer run
+    base_cpc_bid: 2, // Bid at an even split (matches the experiment CPC ceiling)
+    min_cpc_bid: 0.5,
+    max_cpc_bid: 10, // Stays at the approval threshold for high-CPC keywords
+  },
 };
 
 /**
@@ -145,3 +163,46 @@ export function getRecommendedBudget(currentBudget: number, roas: number, cpa: n
 
   return currentBudget;
 }
+
+/**
+ * Move allocation shares toward target shares within the bandit guardrails.
+ * All moves are scaled by one factor so none exceeds max_share_change, then
+ * variations below min_share are topped up from the rest.
+ */
+export function applyAllocationGuardrails(currentShares: number[], targetShares: number[]): number[] {
+  const { min_share, max_share_change } = budgetParametersConfig.bandit_allocation;
+  const n = targetShares.length;
+  if (n === 0) return [];
+
+  const floor = Math.min(min_share, 1 / n);
+  const normalize = (shares: number[]) => {
+    const total = shares.reduce((sum, s) => sum + s, 0);
+    return total > 0 ? shares.map((s) => s / total) : shares.map(() => 1 / n);
+  };
+
+  const current = normalize(targetShares.map((_, i) => currentShares[i] ?? 1 / n));
+  const target = normalize(targetShares);
+
+  // Scaling every delta by the same factor keeps the total at 1
+  const deltas = target.map((t, i) => t - (current[i] ?? 0));
+  const largest = Math.max(...deltas.map(Math.abs));
+  const scale = largest > max_share_change ? max_share_change / largest : 1;
+  const moved = current.map((c, i) => c + (deltas[i] ?? 0) * scale);
+
+  // Top up starved variations, taking proportionally from those above the floor
+  const deficit = moved.reduce((sum, s) => sum + Math.max(0, floor - s), 0);
+  if (deficit === 0) return moved;
+
+  const surplus = moved.reduce((sum, s) => sum + Math.max(0, s - floor), 0);
+  return moved.map((s) => (s <= floor ? floor : s - ((s - floor) / surplus) * deficit));
+}
+
+/**
+ * Convert an allocation share to an ad group CPC bid.
+ * An even split bids base_cpc_bid; the result is clamped to the bid limits.
+ */
+export function getAllocationCpcBid(share: number, variationCount: number): number {
+  const { base_cpc_bid, min_cpc_bid, max_cpc_bid } = budgetParametersConfig.bandit_allocation;
+  const bid = base_cpc_bid * share * variationCount;
+  return Math.round(Math.min(max_cpc_bid, Math.max(min_cpc_bid, bid)) * 100) / 100;
+}
@@ -0,0 +1,226 @@
+/**
+ * ArcVest Marketing Automation System
+ * Compliance Rules Configuration
+ *
+ * Default SEC Marketing Rule checks applied to every generated artifact.
+ * Versioned rule sets stored in `compliance_rule_sets` override these;
+ * this set is the fallback when none is active.
+ */
+
+export type ComplianceSeverity = 'block' | 'warning' | 'info';
+
+export type ComplianceContentType =
+  | 'blog_post'
+  | 'linkedin_post'
+  | 'linkedin_article'
+  | 'twitter_thread'
+  | 'newsletter'
+  | 'whitepaper'
+  | 'rsa'
+  | 'meta_ad'
+  | 'outreach_email'
+  | 'sequence_email'
+  | 'video_script';
+
+export type ComplianceCategory =
+  | 'guarantee'
+  | 'superlative'
+  | 'performance_claim'
+  | 'testimonial'
+  | 'risk_claim'
+  | 'prediction';
+
+export interface ComplianceRule {
+  id: string;
+  category: ComplianceCategory;
+  description: string;
+  severity: ComplianceSeverity;
+  pattern: string; // RegExp source (stored as text so rule sets can live in the DB)
+  flags?: string; // Defaults to 'i'
+  content_types?: ComplianceContentType[]; // Omit to apply to every content type
+  suggestion: string;
+  replacement?: string; // Auto-fix text for the matched phrase
+}
+
+export interface RequiredDisclosure {
+  id: string;
+  text: string;
+  pattern: string; // Detects the disclosure (or an equivalent) already present
+  severity: ComplianceSeverity;
+  content_types?: ComplianceContentType[]; // Always required for these types
+  required_when?: ComplianceCategory[]; // Required whenever one of these is found
+}
+
+export interface ComplianceRuleSet {
+  version: string;
+  rules: ComplianceRule[];
+  disclosures: RequiredDisclosure[];
+}
+
+// Short-form ad formats can't carry appended disclosures (character limits)
+export const SHORT_FORM_CONTENT_TYPES: ComplianceContentType[] = ['rsa', 'meta_ad'];
+
+export const complianceRulesConfig: ComplianceRuleSet = {
+  version: '2026.2',
+
+  rules: [
+    // Guarantees and risk
+    {
+      id: 'guaranteed_returns',
+      category: 'guarantee',
+      description: 'No guaranteed returns',
+      severity: 'block',
+      pattern: 'guarantee[ds]?\\s+(return|performance|result|income)s?',
+      suggestion: 'Describe potential outcomes without promising them',
+      replacement: 'potential results',
+    },
+    {
+      id: 'risk_free',
+      category: 'risk_claim',
+      description: 'No risk-free claims',
+      severity: 'block',
+      pattern: 'risk[\\s-]?free',
+      suggestion: 'All investing involves risk; describe how risk is managed instead',
+      replacement: 'risk-managed',
+    },
+    {
+      id: 'never_lose',
+      category: 'risk_claim',
+      description: 'No loss prevention claims',
+      severity: 'block',
+      pattern: 'never\\s+lose',
+      suggestion: 'Describe risk management rather than promising no losses',
+    },
+    {
+      id: 'absolute_safety',
+      category: 'risk_claim',
+      description: 'No absolute safety claims',
+      severity: 'block',
+      pattern: '100%\\s+(safe|secure|guaranteed)',
+      suggestion: 'Remove absolute safety language',
+    },
+    {
+      id: 'get_rich',
+      category: 'guarantee',
+      description: 'No get-rich claims',
+      severity: 'block',
+      pattern: 'get\\s+rich|double\\s+your',
+      suggestion: 'Remove wealth-multiplying promises',
+    },
+
+    // Superlatives and rankings
+    {
+      id: 'best_superlative',
+      category: 'superlative',
+      description: 'No superlatives without proof',
+      severity: 'block',
+      pattern: 'best\\s+(advisor|adviser|firm|planner|financial)',
+      suggestion: 'Replace with a substantiated, specific description',
+    },
+    {
+      id: 'ranking_claim',
+      category: 'superlative',
+      description: 'No ranking claims',
+      severity: 'block',
+      pattern: 'top[\\s-]?(rated|performing|ranked)|highest\\s+(rated|returns|performing)',
+      suggestion: 'Rankings require the ranking source, date and criteria',
+    },
+    {
+      id: 'number_one',
+      category: 'superlative',
+      description: 'No #1 claims',
+      severity: 'block',
+      pattern: '#1|number\\s*(one|1)\\b',
+      suggestion: 'Remove unsubstantiated #1 claims',
+    },
+
+    // Performance
+    {
+      id: 'beat_market',
+      category: 'performance_claim',
+      description: 'No market-beating promises',
+      severity: 'block',
+      pattern: 'beat\\s+(the\\s+)?market|outperform',
+      suggestion: 'Remove promises of outperformance',
+    },
+    {
+      id: 'specific_return',
+      category: 'performance_claim',
+      description: 'Specific performance figures need the past-performance disclosure',
+      severity: 'warning',
+      pattern: '(returned|returns? of|gained|earned|averag(e|ed|ing))\\s+(an?\\s+)?\\d+(\\.\\d+)?\\s?%|\\d+(\\.\\d+)?\\s?%\\s+(annual(ized)?\\s+)?(returns?|gains?)',
+      suggestion: 'Show net-of-fee figures over standard periods with the past-performance disclosure',
+    },
+    {
+      id: 'market_prediction',
+      category: 'prediction',
+      description: 'Predictions presented as fact',
+      severity: 'warning',
+      pattern: '(will|is going to|are going to)\\s+(rise|soar|crash|outperform|double|recover)',
+      suggestion: 'Frame forward-looking views as opinion ("we believe", "may")',
+    },
+
+    // Testimonials and endorsements
+    {
+      id: 'client_endorsement',
+      category: 'testimonial',
+      description: 'Testimonial or client endorsement',
+      severity: 'warning',
+      pattern: '(our|my)\\s+clients?\\s+(say|said|love|rave|tell us)',
+      suggestion: 'Testimonials need the required disclosure and clear compensation status',
+    },
+    {
+      id: 'attributed_quote',
+      category: 'testimonial',
+      description: 'Quoted statement attributed to a person',
+      severity: 'warning',
+      pattern: '["“][^"”]{10,}["”]\\s*[-—–]\\s*[A-Z][a-z]+',
+      flags: '', // Case-sensitive: the attribution must look like a name
+      suggestion: 'Attributed quotes about the firm are testimonials and need the required disclosure',
+    },
+    {
+      id: 'testimonial_compensation_placeholder',
+      category: 'testimonial',
+      description: 'Testimonial disclosure with the compensation statement not filled in',
+      severity: 'block',
+      pattern: '\\[compensation:',
+      suggestion: 'Replace the placeholder with whether the client was compensated and any material conflicts',
+    },
+  ],
+
+  disclosures: [
+    {
+      id: 'past_performance',
+      text: 'Past performance is not indicative of future results.',
+      pattern: 'past performance (is|does) not',
+      severity: 'block',
+      required_when: ['performance_claim'],
+    },
+    {
+      id: 'testimonial',
+      text: 'Testimonials may not be representative of the experience of other clients and are not a guarantee of future performance or success. [Compensation: state whether the client was compensated for this testimonial and any material conflicts of interest]',
+      pattern: 'not (be )?representative of (the )?(experience|other clients)',
+      severity: 'block',
+      required_when: ['testimonial'],
+    },
+    {
+      id: 'adviser_registration',
+      text: 'ArcVest is a registered investment adviser. This content is for educational purposes only and is not individualized investment advice.',
+      pattern: 'registered investment advis[eo]r',
+      severity: 'warning',
+      content_types: ['blog_post', 'linkedin_article', 'newsletter', 'whitepaper', 'sequence_email'],
+    },
+  ],
+};
+
+/**
+ * Get the rules that apply to a content type
+ */
+export function getRulesForContentType(
+  contentType: ComplianceContentType,
+  ruleSet: ComplianceRuleSet = complianceRulesConfig
+): ComplianceRule[] {
+  return ruleSet.rules.filter(
+    (rule) => !rule.content_types || rule.content_types.includes(contentType)
+  );
+}
@@ -36,6 +36,9 @@ export interface ApprovalTierConfig {
 export interface ContentRulesConfig {
   weekly_targets: WeeklyTargets;
   publishing_schedules: PublishingSchedule[];
+  publishing_timezone: string;
+  wordpress_content_types: ContentType[]; // Scheduled as WordPress posts
+  scheduling_horizon_weeks: number;
   content_mix: ContentMix;
   evergreen_rotation_days: number;
   approval_tiers: ApprovalTierConfig;
@@ -74,6 +77,15 @@ export const contentRulesConfig: ContentRulesConfig = {
     },
   ],
 
+  // Schedule days and times are local to this timezone
+  publishing_timezone: 'America/Chicago',
+
+  // These types get a scheduled (status: future) WordPress post
+  wordpress_content_types: ['blog_post'],
+
+  // How far ahead approved content is placed into open slots
+  scheduling_horizon_weeks: 4,
+
   // Content mix percentages (should sum to 1.0)
   content_mix: {
     educational: 0.5, // 50% educational/research-based
@@ -109,6 +121,22 @@ export function getPublishingSchedule(contentType: ContentType): PublishingSched
   );
 }
 
+/**
+ * Weekly target for a content type (undefined when the type has none)
+ */
+export function getWeeklyTarget(
+  contentType: ContentType,
+  weeklyTargets: WeeklyTargets = contentRulesConfig.weekly_targets
+): number | undefined {
+  const targets: Partial<Record<ContentType, number>> = {
+    blog_post: weeklyTargets.blog_posts,
+    linkedin_post: weeklyTargets.linkedin_posts,
+    twitter_thread: weeklyTargets.twitter_threads,
+    newsletter: weeklyTargets.newsletter,
+  };
+  return targets[contentType];
+}
+
 /**
  * Check if content requires approval
  */
@@ -0,0 +1,37 @@
+/**
+ * ArcVest Marketing Automation System
+ * Content Sync Configuration
+ *
+ * Two-way sync between content_calendar and WordPress: edits made in
+ * WordPress are pulled back (flagged as a conflict when the calendar entry
+ * changed too), and GA4 page metrics fill each published entry's
+ * performance fields.
+ */
+
+export interface ContentSyncConfig {
+  wordpress: {
+    statuses: string;       // Post statuses polled (comma-separated)
+    lookback_days: number;  // First poll, before any post has been synced
+    per_page: number;
+    max_pages: number;
+  };
+  performance: {
+    lookback_days: number;  // Oldest publish date measured
+    page_limit: number;     // GA4 rows fetched per sync
+  };
+}
+
+export const contentSyncConfig: ContentSyncConfig = {
+  wordpress: {
+    statuses: 'publish,future',
+    lookback_days: 30,
+    per_page: 50,
+    max_pages: 10,
+  },
+
+  performance: {
+    // GA4 keeps event data for 14 months by default
+    lookback_days: 400,
+    page_limit: 10000,
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * ArcVest Marketing Automation System
+ * Experiment Optimization Configuration
+ *
+ * Defines data minimums and significance defaults for the experiment optimizer.
+ */
+
+import type { SignificanceMethod } from '../utils/experiment-stats';
+
+export type OptimizationMetric = 'ctr' | 'conversions' | 'cpc' | 'impressions';
+
+// Rate the significance test runs on: clicks/impressions or conversions/clicks
+export type TestedRate = 'ctr' | 'conversion_rate';
+
+export interface ExperimentMinimums {
+  impressions_per_variation: number;
+  clicks_per_variation: number;
+  experiment_age_days: number;
+}
+
+export interface ExperimentOptimizationConfig {
+  minimums: ExperimentMinimums;
+  default_method: SignificanceMethod;
+  default_confidence: number;
+  confidence_bounds: {
+    min: number;
+    max: number;
+  };
+  posterior_draws: number;
+}
+
+export const experimentOptimizationConfig: ExperimentOptimizationConfig = {
+  // Every active variation must reach these before the optimizer evaluates
+  minimums: {
+    impressions_per_variation: 200,
+    clicks_per_variation: 50,
+    experiment_age_days: 5,
+  },
+
+  // Used when an experiment doesn't set its own method/confidence
+  default_method: 'bayesian',
+  default_confidence: 0.95,
+
+  // Allowed range for per-experiment confidence
+  confidence_bounds: {
+    min: 0.8,
+    max: 0.999,
+  },
+
+  // Monte Carlo samples for probability-to-be-best and credible intervals
+  posterior_draws: 10000,
+};
+
+/**
+ * Get the rate tested for an optimization metric.
+ * CPC and impressions aren't proportions, so those experiments are tested on CTR.
+ */
+export function getTestedRate(metric: OptimizationMetric | string): TestedRate {
+  return metric === 'conversions' ? 'conversion_rate' : 'ctr';
+}
+
+/**
+ * Clamp a per-experiment confidence to the allowed range (falls back to the default)
+ */
+export function resolveConfidenceLevel(confidence: number | null | undefined): number {
+  const { min, max } = experimentOptimizationConfig.confidence_bounds;
+  if (confidence === null || confidence === undefined || Number.isNaN(Number(confidence))) {
+    return experimentOptimizationConfig.default_confidence;
+  }
+  return Math.min(max, Math.max(min, Number(confidence)));
+}
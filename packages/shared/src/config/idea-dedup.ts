@@ -0,0 +1,43 @@
+/**
+ * ArcVest Marketing Automation System
+ * Idea Dedup Configuration
+ *
+ * Defines fingerprinting and similarity thresholds used to merge the same
+ * story arriving from several sources into one idea cluster before scoring.
+ */
+
+export interface IdeaDedupConfig {
+  lookback_days: number;
+  shingle_size: number;
+  num_hashes: number;
+  content_threshold: number;
+  title_threshold: number;
+  min_content_shingles: number;
+  title_stopwords: string[];
+}
+
+export const ideaDedupConfig: IdeaDedupConfig = {
+  // Only compare against ideas discovered in the last week
+  lookback_days: 7,
+
+  // Word shingles (k consecutive words) used for content fingerprints
+  shingle_size: 3,
+
+  // MinHash signature length; error of the Jaccard estimate is ~1/sqrt(n)
+  num_hashes: 128,
+
+  // Estimated Jaccard similarity of content shingles to count as the same story
+  content_threshold: 0.5,
+
+  // Jaccard similarity of normalized title words to count as the same story
+  title_threshold: 0.7,
+
+  // Below this many shingles the content is too short to fingerprint; title only
+  min_content_shingles: 8,
+
+  // Dropped when normalizing titles so "The Fed Holds Rates" matches "Fed holds rates"
+  title_stopwords: [
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+    'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'why', 'will', 'with',
+  ],
+};
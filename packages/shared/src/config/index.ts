@@ -18,8 +18,59 @@ export * from './assignment-rules';
 // Agent Schedules
 export * from './agent-schedules';
 
+// Schedule Registry
+export * from './schedules';
+
 // Budget Parameters
 export * from './budget-parameters';
 
 // Content Rules
 export * from './content-rules';
+
+// Sequence Sending
+export * from './sequence-sending';
+
+// Experiment Optimization
+export * from './experiment-optimization';
+
+// Compliance Rules
+export * from './compliance-rules';
+
+// Idea Dedup
+export * from './idea-dedup';
+
+// Source Health
+export * from './source-health';
+
+// Lead Outreach
+export * from './lead-outreach';
+
+// Offline Conversions
+export * from './offline-conversions';
+
+// Workflows
+export * from './workflows';
+
+// Rank Tracking
+export * from './rank-tracking';
+
+// Regulatory Monitor
+export * from './regulatory-monitor';
+
+// Content Sync
+export * from './content-sync';
+
+// LLM Gateway
+export * from './llm';
+
+// Search Terms
+export * from './search-terms';
+
+// Notifications
+export * from './notifications';
+
+// Meta Campaign Builder
+export * from './meta-campaigns';
+
+// Meta Lead Sync
+export * from './meta-lead-sync';
@@ -0,0 +1,80 @@
+/**
+ * ArcVest Marketing Automation System
+ * Lead Outreach Configuration
+ *
+ * Defines the send cap for lead finder outreach and the patterns used to
+ * recognise bounces and opt-out replies on outreach threads.
+ */
+
+export interface LeadOutreachConfig {
+  daily_send_cap: number;
+  bounce_senders: string[];
+  bounce_subject_patterns: string[];
+  opt_out_patterns: string[];
+}
+
+export const leadOutreachConfig: LeadOutreachConfig = {
+  // Cold outreach sent in any rolling 24 hours (kept well below the sequence cap)
+  daily_send_cap: 20,
+
+  // Delivery failure notices come from these mailboxes
+  bounce_senders: ['mailer-daemon@', 'postmaster@'],
+
+  bounce_subject_patterns: [
+    'delivery status notification',
+    'undeliverable',
+    'undelivered mail',
+    'delivery has failed',
+    'mail delivery (failed|subsystem)',
+    'address not found',
+    'returned mail',
+  ],
+
+  // Replies matching any of these are treated as an opt-out
+  opt_out_patterns: [
+    'unsubscribe',
+    'opt(-| )?out',
+    'remove me',
+    'take me off',
+    'stop (emailing|contacting|sending)',
+    "(do not|don't|dont) (email|contact|reach out)",
+    'no further (emails|contact)',
+  ],
+};
+
+/**
+ * Reply text without the quoted original message
+ */
+export function stripQuotedReply(body: string): string {
+  const lines: string[] = [];
+  for (const line of body.split(/\r?\n/)) {
+    if (/^On .+wrote:\s*$/i.test(line.trim()) || /^-{2,}\s*Original Message/i.test(line.trim())) break;
+    if (line.trim().startsWith('>')) continue;
+    lines.push(line);
+  }
+  return lines.join('\n').trim();
+}
+
+/**
+ * Whether a message is a delivery failure notice
+ */
+export function isBounceNotification(
+  fromEmail: string,
+  subject: string,
+  config: LeadOutreachConfig = leadOutreachConfig
+): boolean {
+  const from = fromEmail.toLowerCase();
+  if (!config.bounce_senders.some((sender) => from.includes(sender))) return false;
+  return config.bounce_subject_patterns.some((pattern) => new RegExp(pattern, 'i').test(subject));
+}
+
+/**
+ * Whether a reply asks us to stop contacting the sender
+ */
+export function isOptOutReply(
+  body: string,
+  config: LeadOutreachConfig = leadOutreachConfig
+): boolean {
+  const reply = stripQuotedReply(body);
+  return config.opt_out_patterns.some((pattern) => new RegExp(pattern, 'i').test(reply));
+}
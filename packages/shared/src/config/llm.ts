@@ -0,0 +1,277 @@
+/**
+ * ArcVest Marketing Automation System
+ * LLM Gateway Configuration
+ *
+ * Every AI call goes through the LLM gateway in @arcvest/services, which
+ * picks the provider and model for a task from here, falls back down the
+ * task's chain when a provider is down, and prices each call for the spend
+ * dashboard.
+ */
+
+export const LLM_PROVIDERS = ['anthropic', 'openai', 'gemini', 'mock'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export const LLM_TASKS = [
+  'content.draft',
+  'content.compliance_review',
+  'content.edit',
+  'content.polish',
+  'content.package',
+  'content.assist',
+  'creative.rsa_draft',
+  'creative.rsa_edit',
+  'creative.rsa_polish',
+  'creative.rsa_finalize',
+  'creative.rsa_variations',
+  'creative.phrase_variations',
+  'ideas.score',
+  'ideas.inbox_triage',
+  'ideas.story_selection',
+  'ideas.newsletter_extract',
+  'lead_finder.extract',
+  'lead_finder.email',
+  'lead_finder.predict_email',
+  'agents.generate',
+  'ads.search_term_classify',
+] as const;
+
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export interface LlmTarget {
+  provider: LlmProviderName;
+  model: string;
+  reasoning_effort?: 'low' | 'medium' | 'high';  // OpenAI reasoning models only
+}
+
+export interface LlmTaskRoute extends LlmTarget {
+  pipeline: string;       // Spend is reported per pipeline
+  max_tokens: number;
+  temperature?: number;
+  fallbacks: LlmTarget[]; // Tried in order once the primary is out
+}
+
+export interface LlmModelPricing {
+  input_per_million: number;   // USD
+  output_per_million: number;  // USD
+}
+
+export interface LlmConfig {
+  api_key_env: Record<Exclude<LlmProviderName, 'mock'>, string>;
+  retry: {
+    max_attempts: number;   // Per provider, before falling back
+    base_delay_ms: number;  // Doubled after each failed attempt
+    max_delay_ms: number;
+    timeout_ms: number;
+  };
+  pricing: Record<string, LlmModelPricing>;
+  tasks: Record<LlmTask, LlmTaskRoute>;
+}
+
+const OPUS = 'claude-opus-4-5-20251101';
+const SONNET = 'claude-sonnet-4-20250514';
+const HAIKU = 'claude-3-5-haiku-20241022';
+
+export const llmConfig: LlmConfig = {
+  api_key_env: {
+    anthropic: 'ANTHROPIC_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    gemini: 'GOOGLE_GEMINI_API_KEY',
+  },
+
+  retry: {
+    max_attempts: 3,
+    base_delay_ms: 1000,
+    max_delay_ms: 15000,
+    // Long-form drafts on Opus regularly take over a minute
+    timeout_ms: 180000,
+  },
+
+  // List prices; update when a provider changes them
+  pricing: {
+    [OPUS]: { input_per_million: 5, output_per_million: 25 },
+    [SONNET]: { input_per_million: 3, output_per_million: 15 },
+    [HAIKU]: { input_per_million: 0.8, output_per_million: 4 },
+    'gpt-5.2': { input_per_million: 1.75, output_per_million: 14 },
+    'gpt-4o': { input_per_million: 2.5, output_per_million: 10 },
+    'gemini-2.5-pro': { input_per_million: 1.25, output_per_million: 10 },
+  },
+
+  tasks: {
+    // Multi-AI blog pipeline: Claude → ChatGPT → Gemini → Claude
+    'content.draft': {
+      pipeline: 'content',
+      provider: 'anthropic',
+      model: OPUS,
+      max_tokens: 8000,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'openai', model: 'gpt-5.2', reasoning_effort: 'medium' }],
+    },
+    'content.compliance_review': {
+      pipeline: 'content',
+      provider: 'anthropic',
+      model: OPUS,
+      max_tokens: 1024,
+      temperature: 0.3,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'content.edit': {
+      pipeline: 'content',
+      provider: 'openai',
+      model: 'gpt-5.2',
+      max_tokens: 16000,
+      reasoning_effort: 'medium',
+      fallbacks: [{ provider: 'anthropic', model: OPUS }],
+    },
+    'content.polish': {
+      pipeline: 'content',
+      provider: 'gemini',
+      model: 'gemini-2.5-pro',
+      max_tokens: 8000,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'content.package': {
+      pipeline: 'content',
+      provider: 'anthropic',
+      model: OPUS,
+      max_tokens: 8192,
+      temperature: 0.3,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    // Outlines, drafts and compliance checks requested from the content editor
+    'content.assist': {
+      pipeline: 'content',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 4096,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+
+    // RSA pipeline for Google Ads creative
+    'creative.rsa_draft': {
+      pipeline: 'creative',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 2048,
+      temperature: 0.8,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'creative.rsa_edit': {
+      pipeline: 'creative',
+      provider: 'openai',
+      model: 'gpt-4o',
+      max_tokens: 2048,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'anthropic', model: SONNET }],
+    },
+    'creative.rsa_polish': {
+      pipeline: 'creative',
+      provider: 'gemini',
+      model: 'gemini-2.5-pro',
+      max_tokens: 2048,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'creative.rsa_finalize': {
+      pipeline: 'creative',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 2048,
+      temperature: 0.5,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'creative.rsa_variations': {
+      pipeline: 'creative',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 8192,
+      temperature: 0.9,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'creative.phrase_variations': {
+      pipeline: 'creative',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 2048,
+      temperature: 0.9,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+
+    // Idea sourcing and scoring
+    'ideas.score': {
+      pipeline: 'ideas',
+      provider: 'anthropic',
+      model: HAIKU,
+      max_tokens: 500,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'ideas.inbox_triage': {
+      pipeline: 'ideas',
+      provider: 'anthropic',
+      model: HAIKU,
+      max_tokens: 500,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'ideas.story_selection': {
+      pipeline: 'ideas',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 4096,
+      temperature: 0.3,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'ideas.newsletter_extract': {
+      pipeline: 'ideas',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 4096,
+      temperature: 0.3,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+
+    'lead_finder.extract': {
+      pipeline: 'lead_finder',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 2000,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'lead_finder.email': {
+      pipeline: 'lead_finder',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 1000,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+    'lead_finder.predict_email': {
+      pipeline: 'lead_finder',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 300,
+      temperature: 0.3,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+
+    // Search terms report: is this query one of our prospects?
+    'ads.search_term_classify': {
+      pipeline: 'ads',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 4096,
+      temperature: 0.2,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+
+    // ClaudeClient, shared by the content, creative, SEO and research agents
+    'agents.generate': {
+      pipeline: 'agents',
+      provider: 'anthropic',
+      model: SONNET,
+      max_tokens: 4096,
+      temperature: 0.7,
+      fallbacks: [{ provider: 'openai', model: 'gpt-4o' }],
+    },
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * ArcVest Marketing Automation System
+ * Meta Campaign Builder Configuration
+ *
+ * Defaults and guardrails for lead-gen campaigns built from the dashboard.
+ * Our ads run under Meta's Financial Products and Services special ad
+ * category, which forbids narrowing audiences by age, gender or ZIP code
+ * and most detailed targeting; drafts breaking those rules are refused
+ * before anything is created in Meta.
+ */
+
+export type MetaSpecialAdCategory = 'FINANCIAL_PRODUCTS_AND_SERVICES';
+
+export interface MetaSpecialAdRestrictions {
+  age_min: number;                  // Audiences must span the full range
+  age_max: number;
+  min_radius_miles: number;         // Smallest radius around a city or address
+  blocked_location_types: string[]; // geo_locations keys that can't be used
+  blocked_targeting_keys: string[]; // Targeting spec keys that can't be used
+}
+
+export interface MetaLeadFormQuestion {
+  type: string;                     // FIRST_NAME, EMAIL, PHONE, CUSTOM...
+  key?: string;
+  label?: string;
+  options?: Array<{ value: string; key: string }>;
+}
+
+export interface MetaCampaignBuilderConfig {
+  special_ad_category: MetaSpecialAdCategory;
+  restrictions: MetaSpecialAdRestrictions;
+  objective: string;
+  optimization_goal: string;
+  billing_event: string;
+  min_daily_budget: number;         // USD
+  max_daily_budget: number;         // USD; more needs a second look outside the builder
+  max_ads: number;
+  cta_types: string[];
+  link_url: string;
+  lead_form: {
+    questions: MetaLeadFormQuestion[];
+    privacy_policy_url: string;
+    thank_you_title: string;
+    thank_you_body: string;
+    form_type: string;
+  };
+}
+
+export const metaCampaignBuilderConfig: MetaCampaignBuilderConfig = {
+  special_ad_category: 'FINANCIAL_PRODUCTS_AND_SERVICES',
+
+  restrictions: {
+    age_min: 18,
+    age_max: 65,
+    min_radius_miles: 15,
+    blocked_location_types: ['zips'],
+    blocked_targeting_keys: [
+      'genders',
+      'income',
+      'family_statuses',
+      'life_events',
+      'behaviors',
+      'education_statuses',
+      'relationship_statuses',
+      'work_positions',
+      'work_employers',
+      'industries',
+    ],
+  },
+
+  objective: 'OUTCOME_LEADS',
+  optimization_goal: 'LEAD_GENERATION',
+  billing_event: 'IMPRESSIONS',
+
+  min_daily_budget: 5,
+  max_daily_budget: 200,
+  max_ads: 6,
+
+  cta_types: ['LEARN_MORE', 'SIGN_UP', 'DOWNLOAD', 'GET_QUOTE', 'CONTACT_US'],
+  link_url: 'https://retire.arcvest.com',
+
+  // Matches the retiree checklist form that has been running
+  lead_form: {
+    questions: [
+      { type: 'FIRST_NAME' },
+      { type: 'EMAIL' },
+      { type: 'PHONE' },
+      {
+        type: 'CUSTOM',
+        key: 'investable_assets',
+        label: 'What is your approximate investable asset level?',
+        options: [
+          { value: 'Under $250K', key: 'under_250k' },
+          { value: '$250K - $500K', key: '250k_500k' },
+          { value: '$500K - $1M', key: '500k_1m' },
+          { value: '$1M - $2M', key: '1m_2m' },
+          { value: '$2M+', key: '2m_plus' },
+        ],
+      },
+    ],
+    privacy_policy_url: 'https://arcvest.com/privacy',
+    thank_you_title: 'Thank You!',
+    thank_you_body: 'Thanks for reaching out. We will be in touch shortly.',
+    form_type: 'MORE_VOLUME',
+  },
+};
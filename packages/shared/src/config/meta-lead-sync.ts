@@ -0,0 +1,53 @@
+/**
+ * ArcVest Marketing Automation System
+ * Meta Lead Sync Configuration
+ *
+ * Maps Meta lead form answers onto contact fields for the lead sync.
+ * Custom questions are matched by field name: Meta names them after the
+ * question key, or after the question text when no key was set.
+ */
+
+export interface MetaLeadSyncConfig {
+  field_map: {
+    email: string[];
+    first_name: string[];
+    last_name: string[];
+    full_name: string[];
+    phone: string[];
+  };
+  asset_fields: string[];           // Checked first, in order
+  asset_field_pattern: string;      // Fallback match on any other field name
+  source: string;                   // contacts.source (lead_sources.name)
+  form_type: string;                // Interaction form_type and sequence trigger
+  tags: string[];
+  ghl: {
+    tags: string[];
+    source: string;
+  };
+  initial_lookback_days: number;    // First run for a form
+  overlap_hours: number;            // Re-read before the newest lead; processed IDs are skipped
+}
+
+export const metaLeadSyncConfig: MetaLeadSyncConfig = {
+  field_map: {
+    email: ['email', 'work_email'],
+    first_name: ['first_name'],
+    last_name: ['last_name'],
+    full_name: ['full_name'],
+    phone: ['phone_number', 'phone'],
+  },
+
+  asset_fields: ['investable_assets'],
+  asset_field_pattern: 'asset',
+
+  source: 'meta_lead_ads',
+  form_type: 'meta_lead_form',
+  tags: ['fb-retirement-lead', 'facebook-ads'],
+  ghl: {
+    tags: ['fb-retirement-lead', 'facebook-ads'],
+    source: 'Facebook Lead Ad - Retirement Checklist',
+  },
+
+  initial_lookback_days: 7,
+  overlap_hours: 1,
+};
@@ -0,0 +1,58 @@
+/**
+ * ArcVest Marketing Automation System
+ * Notifications Configuration
+ *
+ * Defines how alerts from the agents, job queue and ads optimizer are
+ * deduplicated and routed to the in-app bell, the email digest and the
+ * webhook. Team members can override the default routing and mute
+ * sources from Settings.
+ */
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export type NotificationSource = 'kpi' | 'budget' | 'job' | 'optimizer';
+
+export type NotificationChannelType = 'in_app' | 'email' | 'webhook';
+
+export interface NotificationRoutingRule {
+  sources?: NotificationSource[];       // Omitted: every source
+  min_severity: NotificationSeverity;
+  channels: NotificationChannelType[];
+}
+
+export interface NotificationWebhookConfig {
+  min_severity: NotificationSeverity;
+  sources?: NotificationSource[];
+}
+
+export interface NotificationsConfig {
+  dedup_window_hours: number;           // A repeat within this long of the first occurrence bumps the open alert
+  default_rules: NotificationRoutingRule[];
+  webhook: NotificationWebhookConfig;   // System-wide; URL from NOTIFICATION_WEBHOOK_URL
+  digest_max_items: number;
+  in_app_limit: number;
+}
+
+export const NOTIFICATION_SEVERITY_ORDER: Record<NotificationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export const notificationsConfig: NotificationsConfig = {
+  dedup_window_hours: 24,
+
+  // Used for anyone without their own routing rules
+  default_rules: [
+    { min_severity: 'info', channels: ['in_app'] },
+    { min_severity: 'warning', channels: ['email'] },
+  ],
+
+  // Critical alerts page the team straight away; everything else waits for the digest
+  webhook: {
+    min_severity: 'critical',
+  },
+
+  digest_max_items: 50,
+  in_app_limit: 30,
+};
@@ -0,0 +1,56 @@
+/**
+ * ArcVest Marketing Automation System
+ * Offline Conversions Configuration
+ *
+ * Defines which pipeline stages are reported back to Google Ads and Meta,
+ * the value sent for each, and the platforms' upload windows.
+ */
+
+import type { OfflineConversionStage } from '../types';
+
+export interface OfflineConversionStageConfig {
+  meta_event_name: string;
+  google_conversion_action_env: string; // Env var holding the conversion action resource name
+  value: number;
+}
+
+export interface OfflineConversionConfig {
+  stages: Record<OfflineConversionStage, OfflineConversionStageConfig>;
+  currency: string;
+  google_click_window_days: number;
+  meta_event_window_days: number;
+  max_upload_attempts: number;
+}
+
+export const offlineConversionConfig: OfflineConversionConfig = {
+  stages: {
+    consultation_scheduled: {
+      meta_event_name: 'Schedule',
+      google_conversion_action_env: 'GOOGLE_ADS_CONVERSION_ACTION_CONSULTATION',
+      value: 250,
+    },
+    client: {
+      meta_event_name: 'Purchase',
+      google_conversion_action_env: 'GOOGLE_ADS_CONVERSION_ACTION_CLIENT',
+      value: 5000,
+    },
+  },
+
+  currency: 'USD',
+
+  // Google rejects conversions for clicks older than the conversion window
+  google_click_window_days: 90,
+
+  // Meta only accepts Conversions API events from the last 7 days
+  meta_event_window_days: 7,
+
+  // Failed uploads are retried through the job queue with backoff
+  max_upload_attempts: 5,
+};
+
+/**
+ * Whether moving a contact into this status should be reported to the ad platforms
+ */
+export function isOfflineConversionStage(status: string | null | undefined): status is OfflineConversionStage {
+  return !!status && status in offlineConversionConfig.stages;
+}
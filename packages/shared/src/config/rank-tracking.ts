@@ -0,0 +1,46 @@
+/**
+ * ArcVest Marketing Automation System
+ * Rank Tracking Configuration
+ *
+ * Keyword rankings come from Search Console: the daily average position of
+ * each of our pages for a tracked query. A keyword's rank for the day is its
+ * best-placed page.
+ */
+
+export type RankAlertType = 'rank_gain' | 'rank_drop' | 'entered_top_10' | 'left_top_10' | 'lost_ranking' | 'cannibalization';
+
+export interface RankTrackingConfig {
+  data_lag_days: number;
+  lookback_days: number;
+  significant_change: number;
+  min_impressions: number;
+  cannibalization: {
+    window_days: number;
+    min_impressions: number;
+    min_share: number;
+  };
+  site_url: string;
+}
+
+export const rankTrackingConfig: RankTrackingConfig = {
+  // Search Console data is incomplete for the most recent days
+  data_lag_days: 3,
+
+  // Days re-fetched on every check, so late-arriving data is filled in
+  lookback_days: 3,
+
+  // Positions moved before a gain/drop alert
+  significant_change: 5,
+
+  // A page needs this many impressions in a day to count as ranking
+  min_impressions: 1,
+
+  // Two of our URLs competing for one query over the window
+  cannibalization: {
+    window_days: 28,
+    min_impressions: 20, // Per URL
+    min_share: 0.2,      // Share of the query's impressions per URL
+  },
+
+  site_url: 'https://arcvest.com/',
+};
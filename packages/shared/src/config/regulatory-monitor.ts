@@ -0,0 +1,118 @@
+/**
+ * ArcVest Marketing Automation System
+ * Regulatory Monitor Configuration
+ *
+ * SEC and FINRA sources watched for changes to adviser marketing
+ * requirements, and the terms used to decide which of our compliance rule
+ * categories an item affects. Items that affect them get a draft rule set
+ * and a review task.
+ */
+
+import type { Advisor } from './assignment-rules';
+import type { ComplianceCategory } from './compliance-rules';
+
+export type RegulatoryImpactArea = 'advertising' | 'testimonials' | 'performance';
+
+export type RegulatoryUpdateStatus = 'new' | 'not_applicable' | 'draft_pending' | 'applied' | 'rejected';
+
+export interface RegulatorySource {
+  id: string;
+  name: string;
+  agency: 'SEC' | 'FINRA';
+  type: 'rss' | 'website'; // website sources are single pages checked for content changes
+  url: string;
+  always_relevant?: boolean; // Every change is about adviser marketing (e.g. the Marketing Rule FAQ)
+}
+
+export interface RegulatoryImpactRule {
+  area: RegulatoryImpactArea;
+  categories: ComplianceCategory[]; // Compliance rule categories a change here can affect
+  patterns: string[];               // RegExp sources, case-insensitive
+}
+
+export interface RegulatoryMonitorConfig {
+  sources: RegulatorySource[];
+  adviser_patterns: string[];
+  impact_rules: RegulatoryImpactRule[];
+  lookback_days: number;
+  review_assignee: Advisor;
+  review_due_days: number;
+}
+
+export const regulatoryMonitorConfig: RegulatoryMonitorConfig = {
+  sources: [
+    {
+      id: 'sec-press-releases',
+      name: 'SEC Press Releases',
+      agency: 'SEC',
+      type: 'rss',
+      url: 'https://www.sec.gov/news/pressreleases.rss',
+    },
+    {
+      id: 'sec-marketing-faq',
+      name: 'SEC Marketing Compliance FAQ',
+      agency: 'SEC',
+      type: 'website',
+      url: 'https://www.sec.gov/investment/marketing-faq',
+      always_relevant: true,
+    },
+    {
+      id: 'finra-news',
+      name: 'FINRA News Releases',
+      agency: 'FINRA',
+      type: 'rss',
+      url: 'https://www.finra.org/rss-feeds/news-releases',
+    },
+  ],
+
+  // An item must be about advisers (or come from an always-relevant source)
+  adviser_patterns: [
+    'investment advis[eo]rs?',
+    '\\bRIAs?\\b',
+    'advisers act',
+    'marketing rule',
+    'rule 206\\(4\\)-1',
+  ],
+
+  impact_rules: [
+    {
+      area: 'advertising',
+      categories: ['guarantee', 'superlative', 'risk_claim', 'prediction'],
+      patterns: [
+        'marketing rule',
+        'rule 206\\(4\\)-1',
+        'advertis(ing|ements?)',
+        'misleading (statements?|claims?|marketing)',
+        'untrue statements?',
+      ],
+    },
+    {
+      area: 'testimonials',
+      categories: ['testimonial'],
+      patterns: [
+        'testimonials?',
+        'endorsements?',
+        'third[- ]party ratings?',
+        'promoters?',
+      ],
+    },
+    {
+      area: 'performance',
+      categories: ['performance_claim'],
+      patterns: [
+        'hypothetical performance',
+        '(gross|net)[- ]of[- ]fees?',
+        'performance (advertising|presentation|results|information)',
+        'extracted performance',
+        'predecessor performance',
+      ],
+    },
+  ],
+
+  // Feed items older than this are ignored
+  lookback_days: 14,
+
+  // Rule changes are reviewed by the CCO
+  review_assignee: 'chad',
+  review_due_days: 7,
+};
@@ -0,0 +1,132 @@
+/**
+ * ArcVest Marketing Automation System
+ * Schedule Registry Configuration
+ *
+ * Default entries for the schedule registry (the `schedules` table). The
+ * scheduler inserts any default missing from the table; after that the table
+ * is the source of truth and is edited from the settings page. Every entry
+ * becomes a job_queue job when due:
+ * - worker: a dashboard worker job type (news_scan, score_ideas, ...)
+ * - route:  a cron route the worker calls (job type cron_route)
+ * - agent:  a task run by the @arcvest/agents runner (job type agent_task)
+ *
+ * Cron expressions are UTC. Central Time (UTC-6) is noted beside each.
+ */
+
+export type ScheduleTarget = 'worker' | 'route' | 'agent';
+
+/**
+ * What to do with runs missed while nothing was ticking:
+ * - skip:   drop them; only a run due within the grace window is enqueued
+ * - latest: enqueue one run for the most recent missed time
+ * - all:    enqueue every missed run (capped at max_catch_up_runs)
+ */
+export type CatchUpPolicy = 'skip' | 'latest' | 'all';
+
+export interface ScheduleDefinition {
+  key: string;
+  target: ScheduleTarget;
+  job_type: string;
+  payload: Record<string, unknown>;
+  cron: string;
+  priority: number;
+  enabled: boolean;
+  catch_up: CatchUpPolicy;
+  description: string;
+}
+
+export interface SchedulerConfig {
+  grace_minutes: number;
+  max_catch_up_runs: number;
+  max_lookback_days: number;
+  preview_days: number;
+  max_attempts: number;
+}
+
+export const schedulerConfig: SchedulerConfig = {
+  // A run is on time if enqueued within this long of its scheduled minute
+  grace_minutes: 10,
+
+  // Cap for the 'all' catch-up policy
+  max_catch_up_runs: 24,
+
+  // Missed runs older than this are never caught up
+  max_lookback_days: 7,
+
+  // Dry-run view on the settings page
+  preview_days: 7,
+
+  max_attempts: 3,
+};
+
+function workerJob(
+  key: string,
+  jobType: string,
+  cron: string,
+  priority: number,
+  description: string,
+  payload: Record<string, unknown> = {}
+): ScheduleDefinition {
+  return { key, target: 'worker', job_type: jobType, payload, cron, priority, enabled: true, catch_up: 'latest', description };
+}
+
+function cronRoute(key: string, path: string, cron: string, description: string, catchUp: CatchUpPolicy = 'latest'): ScheduleDefinition {
+  return { key, target: 'route', job_type: 'cron_route', payload: { path }, cron, priority: 5, enabled: true, catch_up: catchUp, description };
+}
+
+function agentTask(task: string, cron: string, description: string, catchUp: CatchUpPolicy = 'skip'): ScheduleDefinition {
+  return { key: task, target: 'agent', job_type: 'agent_task', payload: { task }, cron, priority: 3, enabled: true, catch_up: catchUp, description };
+}
+
+export const defaultSchedules: ScheduleDefinition[] = [
+  // Content pipeline — morning batch, 6:30am CT
+  workerJob('morning:news_scan', 'news_scan', '30 12 * * *', 10, 'Scan news sources'),
+  workerJob('morning:email_scan', 'email_scan', '30 12 * * *', 10, 'Scan newsletters', { sources: 'all' }),
+  workerJob('morning:bloomberg_scan', 'bloomberg_scan', '30 12 * * *', 9, 'Scan Bloomberg emails'),
+  workerJob('morning:website_scan', 'website_scan', '30 12 * * *', 9, 'Scan website sources'),
+  workerJob('morning:score_ideas', 'score_ideas', '30 12 * * *', 8, 'Score new ideas', { limit: 50 }),
+  workerJob('morning:select_daily', 'select_daily', '30 12 * * *', 7, 'Select 6 ideas for the pipeline', { count: 6 }),
+
+  // Content pipeline — evening batch, 5:30pm CT
+  workerJob('evening:email_scan', 'email_scan', '30 23 * * *', 10, 'Catch afternoon newsletters', { sources: 'all' }),
+  workerJob('evening:score_ideas', 'score_ideas', '30 23 * * *', 8, 'Score new ideas', { limit: 30 }),
+  workerJob('evening:select_daily', 'select_daily', '30 23 * * *', 7, 'Select 2 ideas for the pipeline', { count: 2 }),
+
+  // Cron routes
+  cronRoute('route:analytics_sync', '/api/cron/analytics-sync', '0 8 * * *', 'Sync GA4 and Search Console (2am CT)'),
+  cronRoute('route:ads_sync', '/api/cron/ads-sync', '0 */4 * * *', 'Sync Google Ads campaigns'),
+  cronRoute('route:meta_ads_sync', '/api/cron/meta-ads-sync', '30 */4 * * *', 'Sync Meta Ads campaigns'),
+  cronRoute('route:ads_optimize', '/api/cron/ads-optimize', '0 12 * * *', 'Run Google Ads optimization rules (6am CT)'),
+  cronRoute('route:lead_finder', '/api/cron/lead-finder', '30 18 * * *', 'Find and score new leads (12:30pm CT)'),
+  cronRoute('route:experiment_optimizer', '/api/cron/experiment-optimizer', '0 */6 * * *', 'Reallocate experiment traffic'),
+  cronRoute('route:sequence_send', '/api/cron/sequence-send', '*/15 * * * *', 'Send due sequence emails', 'skip'),
+  cronRoute('route:search_terms', '/api/cron/search-terms', '0 13 * * 1', 'Propose negative keywords from search terms (Monday 7am CT)'),
+  cronRoute('route:notification_digest', '/api/cron/notification-digest', '0 13 * * *', 'Email the notification digest (7am CT)'),
+
+  // Agent runner
+  agentTask('orchestrator:process_tasks', '*/5 * * * *', 'Process pending tasks in queue'),
+  agentTask('orchestrator:check_approvals', '0 15 * * *', 'Check for overdue approvals (9am CT)', 'latest'),
+  agentTask('content:process_tasks', '*/15 * * * *', 'Process content tasks'),
+  agentTask('content:suggest_topics', '0 15 * * 1', 'Suggest content topics (Monday 9am CT)', 'latest'),
+  agentTask('content:sync_wordpress', '10 * * * *', 'Pull WordPress edits into the content calendar', 'latest'),
+  agentTask('content:sync_performance', '30 8 * * *', 'Fill content performance from GA4 (2:30am CT)', 'latest'),
+  agentTask('creative:process_tasks', '*/30 * * * *', 'Process creative requests'),
+  agentTask('paid_media:process_tasks', '*/15 * * * *', 'Process paid media tasks'),
+  agentTask('paid_media:sync_google_ads', '0 */4 * * *', 'Sync campaign data from Google Ads'),
+  agentTask('paid_media:check_budget', '0 14,18,23 * * *', 'Check budget pacing (8am, 12pm, 5pm CT)'),
+  agentTask('paid_media:optimize_bids', '0 12 * * *', 'Run bid optimization (6am CT)', 'latest'),
+  agentTask('seo:process_tasks', '*/30 * * * *', 'Process SEO tasks'),
+  agentTask('seo:check_rankings', '0 11 * * *', 'Check keyword rankings (5am CT)', 'latest'),
+  agentTask('seo:weekly_report', '0 15 * * 1', 'Weekly SEO report (Monday 9am CT)', 'latest'),
+  agentTask('analytics:process_tasks', '*/30 * * * *', 'Process analytics tasks'),
+  agentTask('analytics:sync_ga4', '0 8 * * *', 'Sync Google Analytics (2am CT)', 'latest'),
+  agentTask('analytics:daily_digest', '0 13 * * *', 'Send daily digest (7am CT)', 'latest'),
+  agentTask('analytics:weekly_report', '0 14 * * 1', 'Send weekly report (Monday 8am CT)', 'latest'),
+  agentTask('analytics:check_kpis', '0 15,21 * * *', 'Check KPIs (9am, 3pm CT)'),
+  agentTask('research:process_tasks', '*/30 * * * *', 'Process research tasks'),
+  agentTask('research:scan_sources', '0 12 * * *', 'Scan industry sources (6am CT)', 'latest'),
+  agentTask('research:scan_competitors', '0 15 * * *', 'Scan competitor blogs (9am CT)', 'latest'),
+  agentTask('research:weekly_roundup', '0 16 * * 5', 'Weekly research roundup (Friday 10am CT)', 'latest'),
+  agentTask('research:check_regulatory', '0 14 * * *', 'Check regulatory updates (8am CT)', 'latest'),
+  agentTask('gmail:sync_inbox', '*/5 * * * *', 'Sync Gmail inbox'),
+];
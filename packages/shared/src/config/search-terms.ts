@@ -0,0 +1,91 @@
+/**
+ * ArcVest Marketing Automation System
+ * Search Terms Configuration
+ *
+ * Rules for mining the Google Ads search terms report for negative
+ * keywords. Terms matching a rule are proposed straight away; the rest of
+ * the costly, non-converting terms are classified against our personas by
+ * the LLM. Every proposal goes through the approval queue before it is
+ * added in Google Ads.
+ */
+
+export type SearchTermCategory =
+  | 'employment'
+  | 'free_or_cheap'
+  | 'competitor_platform'
+  | 'diy_trading'
+  | 'education'
+  | 'irrelevant';
+
+export type NegativeMatchType = 'EXACT' | 'PHRASE';
+
+// Shared lists are attached to every campaign; campaign negatives to one
+export type NegativeLevel = 'campaign' | 'shared_list';
+
+export interface NegativeKeywordRule {
+  category: SearchTermCategory;
+  terms: string[];        // Whole words/phrases, case-insensitive; the match becomes a phrase negative
+  except?: string[];      // A term containing any of these is left alone
+  level: NegativeLevel;
+  reason: string;
+}
+
+export interface SearchTermsConfig {
+  lookback_days: number;
+  min_impressions: number;         // Below this a term is ignored entirely
+  min_cost_for_llm: number;        // USD; cheaper unmatched terms aren't worth classifying
+  max_llm_terms: number;           // Per run, most expensive first
+  llm_batch_size: number;
+  shared_list_name: string;
+  shared_list_min_campaigns: number; // LLM negatives wasting spend in this many campaigns go to the shared list
+  rules: NegativeKeywordRule[];
+}
+
+export const searchTermsConfig: SearchTermsConfig = {
+  lookback_days: 30,
+  min_impressions: 10,
+  min_cost_for_llm: 5,
+  max_llm_terms: 200,
+  llm_batch_size: 50,
+
+  shared_list_name: 'ArcVest - Irrelevant Search Terms',
+  shared_list_min_campaigns: 2,
+
+  rules: [
+    {
+      category: 'employment',
+      terms: [
+        'job', 'jobs', 'career', 'careers', 'hiring', 'salary', 'salaries',
+        'internship', 'internships', 'resume', 'glassdoor', 'indeed',
+      ],
+      level: 'shared_list',
+      reason: 'Job seekers, not prospective clients',
+    },
+    {
+      category: 'free_or_cheap',
+      terms: ['free', 'cheap', 'cheapest', 'no fee', 'no fees'],
+      // A free consultation is how prospects start with us
+      except: ['consultation', 'consult', 'assessment', 'review'],
+      level: 'shared_list',
+      reason: 'Looking for free or discount products we do not offer',
+    },
+    {
+      category: 'competitor_platform',
+      terms: ['robinhood', 'webull', 'acorns', 'stash', 'coinbase', 'etrade', 'e trade', 'sofi'],
+      level: 'shared_list',
+      reason: 'Self-directed app or brokerage users looking for that platform',
+    },
+    {
+      category: 'diy_trading',
+      terms: ['day trading', 'stock tips', 'penny stocks', 'options trading', 'forex', 'crypto'],
+      level: 'shared_list',
+      reason: 'Active traders rather than planning clients',
+    },
+    {
+      category: 'education',
+      terms: ['series 65', 'series 66', 'series 7', 'cfp exam', 'certification', 'course', 'degree'],
+      level: 'shared_list',
+      reason: 'People studying to become advisors',
+    },
+  ],
+};
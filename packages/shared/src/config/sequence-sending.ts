@@ -0,0 +1,81 @@
+/**
+ * ArcVest Marketing Automation System
+ * Sequence Sending Configuration
+ *
+ * Defines send caps, quiet hours, and retry behavior for email sequences.
+ */
+
+export interface QuietHours {
+  start: number; // Hour (0-23) when sending stops
+  end: number; // Hour (0-23) when sending resumes
+}
+
+export interface SequenceRetryConfig {
+  max_attempts: number;
+  delay_seconds: number;
+}
+
+export interface SequenceSendingConfig {
+  daily_send_cap: number;
+  quiet_hours: QuietHours;
+  timezone: string;
+  retry: SequenceRetryConfig;
+  claim_ttl_minutes: number;
+}
+
+export const sequenceSendingConfig: SequenceSendingConfig = {
+  // Maximum sequence emails sent in any rolling 24 hours (protects Gmail sender reputation)
+  daily_send_cap: 50,
+
+  // No sequence emails between 8pm and 7am local time
+  quiet_hours: {
+    start: 20,
+    end: 7,
+  },
+
+  // Quiet hours are evaluated in the firm's local time
+  timezone: 'America/Chicago',
+
+  // Failed sends are retried through the job queue
+  retry: {
+    max_attempts: 3,
+    delay_seconds: 300, // 5 minutes before the first retry
+  },
+
+  // A step claimed by a run that died can be taken over after this long
+  claim_ttl_minutes: 30,
+};
+
+/**
+ * Get the local hour (0-23) for a date in the configured timezone
+ */
+export function getLocalHour(
+  date: Date = new Date(),
+  timezone: string = sequenceSendingConfig.timezone
+): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date);
+  return Number(hour);
+}
+
+/**
+ * Check if a date falls within quiet hours (handles windows that wrap past midnight)
+ */
+export function isWithinQuietHours(
+  date: Date = new Date(),
+  quietHours: QuietHours = sequenceSendingConfig.quiet_hours,
+  timezone: string = sequenceSendingConfig.timezone
+): boolean {
+  const { start, end } = quietHours;
+  if (start === end) return false;
+
+  const hour = getLocalHour(date, timezone);
+
+  if (start < end) {
+    return hour >= start && hour < end;
+  }
+  return hour >= start || hour < end;
+}
@@ -0,0 +1,91 @@
+/**
+ * ArcVest Marketing Automation System
+ * Source Health Configuration
+ *
+ * Defines when content sources are marked unhealthy, backed off or
+ * auto-disabled, and who gets the follow-up task.
+ */
+
+import type { Advisor } from './assignment-rules';
+
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'disabled';
+
+export type SourceAlertType = 'source_unhealthy' | 'source_disabled' | 'zero_yield' | 'oauth_expired';
+
+export interface SourceBackoffConfig {
+  base_minutes: number;
+  max_minutes: number;
+}
+
+export interface SourceFlapConfig {
+  window_hours: number;
+  max_transitions: number; // Healthy/unhealthy flips within the window before backing off
+  backoff_minutes: number;
+}
+
+export interface SourceHealthConfig {
+  unhealthy_after_failures: number;
+  disable_after_failures: number;
+  zero_yield_streak: number;
+  backoff: SourceBackoffConfig;
+  flapping: SourceFlapConfig;
+  oauth_error_patterns: string[];
+  task_assignee: Advisor;
+}
+
+export const sourceHealthConfig: SourceHealthConfig = {
+  // Consecutive failed fetches before a source is marked unhealthy
+  unhealthy_after_failures: 3,
+
+  // Consecutive failed fetches before a source is switched off
+  disable_after_failures: 6,
+
+  // Successful fetches in a row returning nothing before we alert
+  zero_yield_streak: 4,
+
+  // Exponential backoff between retries of a failing source
+  backoff: {
+    base_minutes: 30,
+    max_minutes: 24 * 60,
+  },
+
+  // Sources that keep flipping between healthy and failing are rested
+  flapping: {
+    window_hours: 48,
+    max_transitions: 4,
+    backoff_minutes: 12 * 60,
+  },
+
+  // Fetch errors that mean the Gmail OAuth token is expired or revoked
+  oauth_error_patterns: [
+    'invalid_grant',
+    'token refresh failed',
+    'no refresh token',
+    'no gmail tokens',
+    'expired or revoked',
+    'gmail api error: 40[13]',
+    'unauthenticated',
+  ],
+
+  // Source problems are operational; one owner handles them
+  task_assignee: 'chad',
+};
+
+/**
+ * Minutes to wait before retrying after the given number of consecutive failures
+ */
+export function getSourceBackoffMinutes(
+  consecutiveFailures: number,
+  config: SourceBackoffConfig = sourceHealthConfig.backoff
+): number {
+  if (consecutiveFailures <= 0) return 0;
+  return Math.min(config.base_minutes * 2 ** (consecutiveFailures - 1), config.max_minutes);
+}
+
+/**
+ * Whether a fetch error looks like an expired or revoked OAuth token
+ */
+export function isOAuthError(error: string | null | undefined): boolean {
+  if (!error) return false;
+  return sourceHealthConfig.oauth_error_patterns.some((pattern) => new RegExp(pattern, 'i').test(error));
+}
@@ -0,0 +1,265 @@
+/**
+ * ArcVest Marketing Automation System
+ * Workflow Definitions Configuration
+ *
+ * Multi-step workflows run by the workflow engine. Steps run once their
+ * dependencies have finished, can be skipped by conditions on earlier
+ * results, and pass outputs forward through '$' references:
+ * - '$input.topic'                   workflow input (workflow_instances.payload)
+ * - '$steps.outline.output.outlineId' output of an earlier step
+ * - '$steps.approve.output.approved'  approval decision
+ */
+
+import type { WorkflowDefinition, WorkflowType } from '../types';
+
+export interface WorkflowEngineConfig {
+  default_retry_delay_minutes: number;
+  lock_seconds: number;
+  tick_batch_size: number;
+}
+
+export const workflowEngineConfig: WorkflowEngineConfig = {
+  default_retry_delay_minutes: 15,
+
+  // How long one advance may hold an instance before another can take over
+  lock_seconds: 120,
+
+  // Running instances checked per tick
+  tick_batch_size: 100,
+};
+
+export const workflowDefinitions: Partial<Record<WorkflowType, WorkflowDefinition>> = {
+  new_blog_post: {
+    type: 'new_blog_post',
+    name: 'New Blog Post',
+    description: 'Brief, outline and draft with approvals, publish, then repurpose to LinkedIn and the newsletter',
+    steps: [
+      {
+        key: 'brief',
+        kind: 'task',
+        label: 'Create content brief',
+        agent: 'seo',
+        action: 'create_content_brief',
+        payload: { keyword: '$input.targetKeyword' },
+      },
+      {
+        key: 'outline',
+        kind: 'task',
+        label: 'Create outline',
+        agent: 'content',
+        action: 'create_outline',
+        payload: {
+          topic: '$input.topic',
+          targetKeyword: '$input.targetKeyword',
+          contentBriefId: '$steps.brief.output.briefId',
+        },
+      },
+      {
+        key: 'approve_outline',
+        kind: 'approval',
+        label: 'Approve outline',
+        approval: { from_step: 'outline', on_reject: 'continue' },
+      },
+      {
+        key: 'draft',
+        kind: 'task',
+        label: 'Write draft',
+        agent: 'content',
+        action: 'write_draft',
+        when: [{ ref: '$steps.approve_outline.output.approved', equals: true }],
+        payload: { contentId: '$steps.outline.output.outlineId' },
+        retries: 1,
+      },
+      {
+        key: 'approve_draft',
+        kind: 'approval',
+        label: 'Approve draft',
+        approval: { from_step: 'draft', on_reject: 'continue' },
+      },
+      {
+        key: 'publish',
+        kind: 'task',
+        label: 'Publish to WordPress',
+        agent: 'content',
+        action: 'publish_content',
+        when: [{ ref: '$steps.approve_draft.output.approved', equals: true }],
+        payload: { contentId: '$steps.outline.output.outlineId' },
+        retries: 2,
+      },
+      {
+        key: 'wait_after_publish',
+        kind: 'wait',
+        label: 'Wait 3 days after publish',
+        wait: { days: 3, after: 'publish' },
+      },
+      {
+        key: 'linkedin',
+        kind: 'task',
+        label: 'Repurpose for LinkedIn',
+        agent: 'content',
+        action: 'repurpose_content',
+        payload: {
+          sourceContentId: '$steps.outline.output.outlineId',
+          targetFormats: ['linkedin_post'],
+        },
+        retries: 1,
+      },
+      {
+        key: 'approve_linkedin',
+        kind: 'approval',
+        label: 'Approve LinkedIn post',
+        approval: { from_step: 'linkedin', on_reject: 'continue' },
+      },
+      {
+        key: 'newsletter',
+        kind: 'task',
+        label: 'Feature in newsletter',
+        agent: 'content',
+        action: 'create_newsletter',
+        payload: {
+          theme: '$input.topic',
+          sections: [
+            {
+              type: 'featured-article',
+              context: { title: '$input.topic', url: '$steps.publish.output.url' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+
+  content_repurpose: {
+    type: 'content_repurpose',
+    name: 'Content Repurpose',
+    description: 'Turn a published post into a LinkedIn post and newsletter feature',
+    steps: [
+      {
+        key: 'linkedin',
+        kind: 'task',
+        label: 'Repurpose for LinkedIn',
+        agent: 'content',
+        action: 'repurpose_content',
+        payload: { sourceContentId: '$input.contentId', targetFormats: ['linkedin_post'] },
+        retries: 1,
+      },
+      {
+        key: 'approve_linkedin',
+        kind: 'approval',
+        label: 'Approve LinkedIn post',
+        approval: { from_step: 'linkedin', on_reject: 'continue' },
+      },
+      {
+        key: 'newsletter',
+        kind: 'task',
+        label: 'Feature in newsletter',
+        agent: 'content',
+        action: 'create_newsletter',
+        payload: {
+          theme: '$input.topic',
+          sections: [
+            {
+              type: 'featured-article',
+              context: { title: '$input.topic', url: '$input.url' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+
+  new_ad_campaign: {
+    type: 'new_ad_campaign',
+    name: 'New Ad Campaign',
+    description: 'Ad copy, compliance check and approval, then campaign creation',
+    steps: [
+      {
+        key: 'ad_copy',
+        kind: 'task',
+        label: 'Generate ad copy',
+        agent: 'creative',
+        action: 'generate_ad_copy',
+        payload: {
+          theme: '$input.theme',
+          targetAudience: '$input.targetAudience',
+          landingPage: '$input.landingPage',
+        },
+      },
+      {
+        key: 'compliance',
+        kind: 'task',
+        label: 'Compliance check',
+        agent: 'creative',
+        action: 'compliance_check',
+        payload: { assetId: '$steps.ad_copy.output.assetId' },
+      },
+      {
+        key: 'approve',
+        kind: 'approval',
+        label: 'Approve ad copy',
+        when: [{ ref: '$steps.compliance.output.passed', equals: true }],
+        approval: { from_step: 'ad_copy' },
+      },
+      {
+        key: 'create_campaign',
+        kind: 'task',
+        label: 'Create campaign',
+        agent: 'paid_media',
+        action: 'create_campaign',
+        payload: {
+          name: '$input.name',
+          type: '$input.type',
+          budget: '$input.budget',
+          targetAudience: '$input.targetAudience',
+        },
+        retries: 2,
+      },
+    ],
+  },
+
+  daily_report: {
+    type: 'daily_report',
+    name: 'Daily Report',
+    description: 'Sync analytics and ads in parallel, then build the daily digest',
+    steps: [
+      {
+        key: 'sync_ga4',
+        kind: 'task',
+        label: 'Sync Google Analytics',
+        agent: 'analytics',
+        action: 'sync_google_analytics',
+        depends_on: [],
+        retries: 2,
+      },
+      {
+        key: 'sync_ads',
+        kind: 'task',
+        label: 'Sync Google Ads',
+        agent: 'paid_media',
+        action: 'sync_google_ads',
+        depends_on: [],
+        retries: 2,
+      },
+      {
+        key: 'metrics',
+        kind: 'task',
+        label: 'Calculate daily metrics',
+        agent: 'analytics',
+        action: 'calculate_daily_metrics',
+        depends_on: ['sync_ga4', 'sync_ads'],
+      },
+      {
+        key: 'digest',
+        kind: 'task',
+        label: 'Generate daily digest',
+        agent: 'analytics',
+        action: 'generate_daily_digest',
+        payload: { metrics: '$steps.metrics.output' },
+      },
+    ],
+  },
+};
+
+export function getWorkflowDefinition(type: string): WorkflowDefinition | null {
+  return workflowDefinitions[type as WorkflowType] || null;
+}
@@ -54,6 +54,8 @@ export const APPROVAL_TYPES = [
   'email_sequence',
   'campaign_budget',
   'campaign_new',
+  'compliance_rule_change',
+  'negative_keywords',
 ] as const;
 export type ApprovalType = (typeof APPROVAL_TYPES)[number];
 
@@ -238,26 +240,106 @@ export const WORKFLOW_TYPES = [
   'new_ad_campaign',
   'content_repurpose',
   'lead_nurture',
+  'daily_report',
 ] as const;
 export type WorkflowType = (typeof WORKFLOW_TYPES)[number];
 
+export type WorkflowStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * - task:     create an agent task and wait for it to finish
+ * - wait:     pause for a duration (optionally measured from another step)
+ * - approval: wait for a human decision in approval_queue
+ */
+export type WorkflowStepKind = 'task' | 'wait' | 'approval';
+
+export type WorkflowStepStatus =
+  | 'pending'
+  | 'running'
+  | 'waiting'
+  | 'awaiting_approval'
+  | 'completed'
+  | 'failed'
+  | 'skipped';
+
+/**
+ * Condition on the workflow context. `ref` uses the same reference syntax
+ * as step payloads, e.g. '$steps.compliance.output.passed'.
+ */
+export interface WorkflowCondition {
+  ref: string;
+  equals?: unknown;
+  not_equals?: unknown;
+  in?: unknown[];
+  exists?: boolean;
+  gt?: number;
+  lt?: number;
+}
+
 export interface WorkflowStep {
-  agent: AgentName;
-  action: string;
-  requires_approval: boolean;
+  key: string;
+  kind: WorkflowStepKind;
+  label: string;
+  depends_on?: string[];       // Defaults to the previous step; [] runs at the start
+  when?: WorkflowCondition[];  // All must hold, otherwise the step is skipped
+
+  // task
+  agent?: AgentName;
+  action?: string;             // agent_tasks.type
+  // Strings starting with '$' are references: '$input.x', '$steps.<key>.output.y'
+  payload?: Record<string, unknown>;
+  retries?: number;
+  retry_delay_minutes?: number;
+
+  // wait
+  wait?: { days?: number; hours?: number; minutes?: number; after?: string };
+
+  // approval: gates on the approval raised by `from_step`'s agent task, or
+  // creates one when that task raised none (or no from_step is given)
+  approval?: {
+    from_step?: string;
+    type?: string;
+    title?: string;
+    summary?: string;
+    priority?: 'high' | 'medium' | 'low';
+    content?: Record<string, unknown>;
+    on_reject?: 'fail' | 'continue';  // Default fail; continue lets `when` branch on output.approved
+  };
 }
 
 export interface WorkflowDefinition {
   type: WorkflowType;
+  name: string;
+  description: string;
   steps: WorkflowStep[];
 }
 
+export interface WorkflowStepState {
+  key: string;
+  status: WorkflowStepStatus;
+  attempts: number;
+  task_id: string | null;
+  approval_id: string | null;
+  wait_until: string | null;
+  retry_at: string | null;
+  output: unknown;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
 export interface WorkflowInstance {
   id: string;
-  type: WorkflowType;
-  status: 'running' | 'paused' | 'completed' | 'failed';
-  current_step: number;
+  workflow_type: WorkflowType;
+  status: WorkflowStatus;
+  current_step: number;        // Steps finished so far
+  total_steps: number;
   payload: Record<string, unknown>;
+  step_results: WorkflowStepState[];
+  error_message: string | null;
+  next_check_at: string | null;
+  locked_until: string | null;
+  completed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -31,6 +31,9 @@ export const CONTENT_STATUSES = [
 ] as const;
 export type ContentStatus = (typeof CONTENT_STATUSES)[number];
 
+export const CONTENT_MIX_CATEGORIES = ['educational', 'thought_leadership', 'promotional'] as const;
+export type ContentMixCategory = (typeof CONTENT_MIX_CATEGORIES)[number];
+
 // ===========================================
 // Content Calendar
 // ===========================================
@@ -42,10 +45,12 @@ export interface ContentCalendarEntry {
 
   // Scheduling
   scheduled_date: string | null;
+  scheduled_at: string | null; // Publishing slot (see contentRulesConfig.publishing_schedules)
   status: ContentStatus;
 
   // Content
   content_type: ContentType;
+  content_mix_category: ContentMixCategory | null;
   title: string | null;
   topic: string | null;
   keywords: string[];
@@ -64,6 +69,11 @@ export interface ContentCalendarEntry {
   published_url: string | null;
   published_at: string | null;
   wordpress_post_id: number | null;
+  wordpress_status: string | null;
+  wordpress_sync_hash: string | null; // Hash of the payload last sent to WordPress
+  wordpress_modified_at: string | null; // WordPress modified time at the last pull
+  wordpress_content_hash: string | null; // Hash of the content both sides agreed on at the last pull
+  wordpress_sync_conflict: boolean; // Changed in WordPress and here since the last pull
 
   // Performance
   views: number;
@@ -85,11 +95,14 @@ export interface ContentCalendarEntryInsert {
   draft?: string | null;
   source_content_id?: string | null;
   target_keyword?: string | null;
+  content_mix_category?: ContentMixCategory | null;
   metadata?: Record<string, unknown>;
 }
 
 export interface ContentCalendarEntryUpdate {
   scheduled_date?: string | null;
+  scheduled_at?: string | null;
+  content_mix_category?: ContentMixCategory | null;
   status?: ContentStatus;
   title?: string | null;
   topic?: string | null;
@@ -3,6 +3,8 @@
  * Database Types - TypeScript interfaces for all Supabase tables
  */
 
+import type { AttributionChannel } from '../utils/attribution';
+
 // ===========================================
 // Enums and Constants
 // ===========================================
@@ -393,6 +395,14 @@ export interface WebsiteSession {
   medium: string | null;
   campaign: string | null;
   keyword: string | null;
+  content: string | null;
+  referrer: string | null;
+  gclid: string | null;
+  gbraid: string | null;
+  wbraid: string | null;
+  fbclid: string | null;
+  channel: AttributionChannel | null;
+  campaign_id: string | null;
 
   // Engagement
   pages_viewed: number;
@@ -406,6 +416,43 @@ export interface WebsiteSession {
   metadata: Record<string, unknown>;
 }
 
+// ===========================================
+// Offline Conversions
+// ===========================================
+
+export type OfflineConversionPlatform = 'google_ads' | 'meta';
+export type OfflineConversionStage = Extract<ContactStatus, 'consultation_scheduled' | 'client'>;
+export type OfflineConversionStatus = 'pending' | 'uploaded' | 'failed' | 'skipped';
+
+export interface OfflineConversion {
+  id: string;
+  created_at: string;
+  updated_at: string;
+
+  contact_id: string;
+  platform: OfflineConversionPlatform;
+  stage: OfflineConversionStage;
+  event_name: string;
+  event_time: string;
+  value: number | null;
+  currency: string;
+
+  // Click IDs from the contact's most recent ad touch
+  gclid: string | null;
+  gbraid: string | null;
+  wbraid: string | null;
+  fbclid: string | null;
+  click_at: string | null;
+
+  // Upload state
+  status: OfflineConversionStatus;
+  skip_reason: string | null;
+  attempts: number;
+  last_error: string | null;
+  uploaded_at: string | null;
+  response: Record<string, unknown> | null;
+}
+
 // ===========================================
 // Tasks
 // ===========================================
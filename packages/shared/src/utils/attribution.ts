@@ -0,0 +1,123 @@
+/**
+ * ArcVest Marketing Automation System
+ * Marketing Attribution Utility
+ *
+ * Channel classification for a visit (UTMs, click IDs, referrer), the lead
+ * source it implies, and credit weights for first-touch, last-touch and
+ * linear attribution models.
+ */
+
+export type AttributionModel = 'first_touch' | 'last_touch' | 'linear';
+
+export type AttributionChannel =
+  | 'google_ads'
+  | 'meta_ads'
+  | 'organic_search'
+  | 'social'
+  | 'email'
+  | 'referral'
+  | 'direct';
+
+/**
+ * One visit's attribution parameters, as captured by the landing pages
+ */
+export interface TouchPoint {
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+  utm_term?: string | null;
+  utm_content?: string | null;
+  gclid?: string | null;
+  gbraid?: string | null;
+  wbraid?: string | null;
+  fbclid?: string | null;
+  referrer?: string | null;
+  landing_page?: string | null;
+  timestamp: string;
+}
+
+const PAID_MEDIUMS = ['cpc', 'ppc', 'paid', 'paid_search', 'paid_social', 'paidsocial', 'cpm', 'ads', 'display'];
+const GOOGLE_SOURCES = ['google', 'adwords', 'youtube'];
+const META_SOURCES = ['facebook', 'fb', 'instagram', 'ig', 'meta'];
+const SEARCH_ENGINE_PATTERN = /(^|\.)(google|bing|duckduckgo|yahoo|ecosia)\.[a-z.]+$/;
+const SOCIAL_HOSTS = ['facebook.com', 'instagram.com', 'linkedin.com', 'lnkd.in', 't.co', 'twitter.com', 'x.com', 'youtube.com', 'reddit.com'];
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function referrerHost(referrer: string | null | undefined): string | null {
+  if (!referrer) return null;
+  try {
+    return new URL(referrer).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify a visit into a marketing channel.
+ * Click IDs win over UTMs; fbclid alone is not paid because Facebook adds it
+ * to organic shares too.
+ */
+export function classifyTouchChannel(touch: TouchPoint, ownDomains: string[] = ['arcvest.com']): AttributionChannel {
+  const source = touch.utm_source?.toLowerCase() || '';
+  const medium = touch.utm_medium?.toLowerCase() || '';
+  const isPaid = PAID_MEDIUMS.includes(medium);
+
+  if (touch.gclid || touch.gbraid || touch.wbraid) return 'google_ads';
+  if (isPaid && GOOGLE_SOURCES.includes(source)) return 'google_ads';
+  if (isPaid && (META_SOURCES.includes(source) || touch.fbclid)) return 'meta_ads';
+  if (medium === 'email' || source === 'newsletter') return 'email';
+  if (META_SOURCES.includes(source) || touch.fbclid || medium === 'social') return 'social';
+  if (medium === 'organic') return 'organic_search';
+
+  const host = referrerHost(touch.referrer);
+  if (!host || ownDomains.some((domain) => hostMatches(host, domain))) {
+    return source ? 'referral' : 'direct';
+  }
+  if (SEARCH_ENGINE_PATTERN.test(host)) return 'organic_search';
+  if (SOCIAL_HOSTS.some((domain) => hostMatches(host, domain))) return 'social';
+  return 'referral';
+}
+
+// contacts.source (lead_sources.name) for a lead whose visit came through each channel
+const LEAD_SOURCE_BY_CHANNEL: Record<AttributionChannel, string> = {
+  google_ads: 'google_ads_search',
+  meta_ads: 'meta_ads',
+  organic_search: 'organic_search',
+  social: 'organic_social',
+  email: 'email',
+  referral: 'referral_other',
+  direct: 'landing_page',
+};
+
+/**
+ * Lead source for a form submission, from the visit's UTMs and click IDs.
+ * Without a touch, or for a direct visit, the lead is from the landing page.
+ */
+export function getLeadSourceForTouch(touch: TouchPoint | null | undefined, ownDomains?: string[]): string {
+  return touch ? LEAD_SOURCE_BY_CHANNEL[classifyTouchChannel(touch, ownDomains)] : 'landing_page';
+}
+
+/**
+ * Credit weights for a contact's touches (ordered oldest first); sums to 1.
+ * Last touch skips trailing direct visits when an earlier touch has a source.
+ */
+export function attributeCredit(channels: AttributionChannel[], model: AttributionModel): number[] {
+  const weights = channels.map(() => 0);
+  if (channels.length === 0) return weights;
+
+  if (model === 'linear') {
+    return channels.map(() => 1 / channels.length);
+  }
+
+  if (model === 'first_touch') {
+    weights[0] = 1;
+    return weights;
+  }
+
+  const lastSourced = channels.map((c) => c !== 'direct').lastIndexOf(true);
+  weights[lastSourced >= 0 ? lastSourced : channels.length - 1] = 1;
+  return weights;
+}
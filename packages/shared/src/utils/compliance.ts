@@ -0,0 +1,167 @@
+/**
+ * ArcVest Marketing Automation System
+ * Compliance Engine Utility
+ *
+ * Evaluates generated copy against a compliance rule set: flags prohibited
+ * or risky phrasing, checks required disclosures, and builds an auto-fixed
+ * version where possible.
+ */
+
+import {
+  complianceRulesConfig,
+  getRulesForContentType,
+  SHORT_FORM_CONTENT_TYPES,
+  type ComplianceCategory,
+  type ComplianceContentType,
+  type ComplianceRuleSet,
+  type ComplianceSeverity,
+} from '../config/compliance-rules';
+
+export interface ComplianceFinding {
+  ruleId: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  match: string;
+  index: number;
+  message: string;
+  suggestion: string;
+  replacement?: string;
+}
+
+export interface MissingDisclosure {
+  disclosureId: string;
+  text: string;
+  severity: ComplianceSeverity;
+  reason: string;
+}
+
+export interface ComplianceResult {
+  passed: boolean; // No blocking findings or missing blocking disclosures
+  rulesVersion: string;
+  contentType: ComplianceContentType;
+  highestSeverity: ComplianceSeverity | null;
+  findings: ComplianceFinding[];
+  missingDisclosures: MissingDisclosure[];
+  suggestedFix: string | null; // Text with replacements and disclosures applied, if anything changed
+  checkedAt: string;
+  contentHash?: string; // Hash of the checked text (set by ComplianceService), so a stored check is only reused for the same text
+}
+
+const SEVERITY_RANK: Record<ComplianceSeverity, number> = {
+  info: 1,
+  warning: 2,
+  block: 3,
+};
+
+function buildRegex(pattern: string, flags: string | undefined, global: boolean): RegExp | null {
+  const base = (flags ?? 'i').replace('g', '');
+  try {
+    return new RegExp(pattern, global ? `${base}g` : base);
+  } catch {
+    // Rule sets come from the DB; one bad pattern shouldn't break every check
+    return null;
+  }
+}
+
+/**
+ * Check text against the rule set for a content type
+ */
+export function evaluateCompliance(
+  text: string,
+  contentType: ComplianceContentType,
+  ruleSet: ComplianceRuleSet = complianceRulesConfig
+): ComplianceResult {
+  const findings: ComplianceFinding[] = [];
+  let fixed = text;
+
+  for (const rule of getRulesForContentType(contentType, ruleSet)) {
+    const regex = buildRegex(rule.pattern, rule.flags, true);
+    if (!regex) continue;
+
+    for (const match of text.matchAll(regex)) {
+      if (!match[0]) continue;
+      findings.push({
+        ruleId: rule.id,
+        category: rule.category,
+        severity: rule.severity,
+        match: match[0],
+        index: match.index ?? 0,
+        message: `${rule.description}: "${match[0]}"`,
+        suggestion: rule.suggestion,
+        replacement: rule.replacement,
+      });
+    }
+
+    if (rule.replacement !== undefined) {
+      fixed = fixed.replace(regex, rule.replacement);
+    }
+  }
+
+  findings.sort((a, b) => a.index - b.index);
+
+  const foundCategories = new Set(findings.map((f) => f.category));
+  const missingDisclosures: MissingDisclosure[] = [];
+
+  for (const disclosure of ruleSet.disclosures) {
+    const alwaysRequired = disclosure.content_types?.includes(contentType) ?? false;
+    const trigger = disclosure.required_when?.find((category) => foundCategories.has(category));
+    if (!alwaysRequired && !trigger) continue;
+
+    const present = buildRegex(disclosure.pattern, 'i', false);
+    if (present && present.test(text)) continue;
+
+    missingDisclosures.push({
+      disclosureId: disclosure.id,
+      text: disclosure.text,
+      severity: disclosure.severity,
+      reason: trigger
+        ? `Required when content contains a ${trigger.replace(/_/g, ' ')}`
+        : `Required for ${contentType.replace(/_/g, ' ')} content`,
+    });
+  }
+
+  // Short-form ads have no room for disclosures; those must be fixed on the landing page or rewritten
+  if (!SHORT_FORM_CONTENT_TYPES.includes(contentType) && missingDisclosures.length > 0) {
+    fixed = `${fixed.trimEnd()}\n\n${missingDisclosures.map((d) => d.text).join(' ')}`;
+  }
+
+  const severities = [...findings.map((f) => f.severity), ...missingDisclosures.map((d) => d.severity)];
+  const highestSeverity = severities.reduce<ComplianceSeverity | null>(
+    (highest, severity) => (!highest || SEVERITY_RANK[severity] > SEVERITY_RANK[highest] ? severity : highest),
+    null
+  );
+
+  return {
+    passed: !severities.includes('block'),
+    rulesVersion: ruleSet.version,
+    contentType,
+    highestSeverity,
+    findings,
+    missingDisclosures,
+    suggestedFix: fixed !== text ? fixed : null,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Flatten a result into the { passed, issues, suggestions } shape
+ * used by the content and creative agents.
+ */
+export function summarizeCompliance(result: ComplianceResult): {
+  passed: boolean;
+  issues: string[];
+  suggestions: string[];
+} {
+  const issues = [
+    ...result.findings.map((f) => `[${f.severity}] ${f.message}`),
+    ...result.missingDisclosures.map((d) => `[${d.severity}] Missing disclosure (${d.disclosureId}): ${d.reason}`),
+  ];
+  const suggestions = [
+    ...new Set([
+      ...result.findings.map((f) => f.suggestion),
+      ...result.missingDisclosures.map((d) => `Add: "${d.text}"`),
+    ]),
+  ];
+
+  return { passed: result.passed, issues, suggestions };
+}
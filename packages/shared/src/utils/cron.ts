@@ -0,0 +1,140 @@
+/**
+ * ArcVest Marketing Automation System
+ * Cron Expression Utility
+ *
+ * Parses standard five-field cron expressions (minute hour day-of-month
+ * month day-of-week) and lists matching times. All times are UTC, matching
+ * Vercel cron.
+ */
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week (0 and 7 are Sunday)
+];
+
+const MINUTE_MS = 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression. Throws on invalid input.
+ */
+export function parseCron(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+    daysOfWeek.delete(7);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the minute containing `date` (UTC) matches the expression
+ */
+export function cronMatches(cron: ParsedCron | string, date: Date): boolean {
+  const parsed = typeof cron === 'string' ? parseCron(cron) : cron;
+
+  if (!parsed.minutes.has(date.getUTCMinutes())) return false;
+  if (!parsed.hours.has(date.getUTCHours())) return false;
+  if (!parsed.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = parsed.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = parsed.daysOfWeek.has(date.getUTCDay());
+  if (parsed.dayOfMonthRestricted && parsed.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Times the expression fires after `after` (exclusive) up to `until`
+ * (inclusive), oldest first, at most `limit` of them.
+ */
+export function getCronRuns(cron: ParsedCron | string, after: Date, until: Date, limit = 1000): Date[] {
+  const parsed = typeof cron === 'string' ? parseCron(cron) : cron;
+  const runs: Date[] = [];
+
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  while (time <= until.getTime() && runs.length < limit) {
+    const date = new Date(time);
+    if (!parsed.hours.has(date.getUTCHours())) {
+      // Jump to the next hour
+      time = (Math.floor(time / (60 * MINUTE_MS)) + 1) * 60 * MINUTE_MS;
+      continue;
+    }
+    if (cronMatches(parsed, date)) {
+      runs.push(date);
+    }
+    time += MINUTE_MS;
+  }
+
+  return runs;
+}
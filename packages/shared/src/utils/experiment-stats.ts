@@ -0,0 +1,317 @@
+/**
+ * ArcVest Marketing Automation System
+ * Experiment Statistics Utility
+ *
+ * Significance tests for comparing ad variation rates (CTR, conversion rate):
+ * two-proportion z-test, Bayesian beta-binomial comparison, and
+ * probability-to-be-best estimates.
+ */
+
+export type SignificanceMethod = 'z_test' | 'bayesian';
+
+export interface ProportionCounts {
+  successes: number; // e.g. clicks
+  trials: number; // e.g. impressions
+}
+
+export interface VariantCounts extends ProportionCounts {
+  id: string;
+}
+
+export interface RateInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface ZTestResult {
+  z: number;
+  pValue: number; // Two-sided
+  confidence: number; // One-sided confidence that B's rate is higher than A's
+}
+
+export interface VariantSignificance {
+  id: string;
+  rate: number;
+  interval: RateInterval; // Confidence interval (z-test) or credible interval (Bayesian)
+  probabilityBest: number;
+  confidenceVsBest: number | null; // Confidence the best variant beats this one (null for the best)
+}
+
+export interface SignificanceResult {
+  method: SignificanceMethod;
+  confidenceLevel: number;
+  bestId: string;
+  winnerId: string | null; // Best variant, if it beats every other at the confidence level
+  loserIds: string[]; // Variants the best beats at the confidence level
+  variants: VariantSignificance[];
+}
+
+export interface SignificanceOptions {
+  method: SignificanceMethod;
+  confidence: number; // e.g. 0.95
+  draws?: number; // Posterior samples for Bayesian estimates
+  seed?: number; // Makes Monte Carlo estimates reproducible
+}
+
+const DEFAULT_DRAWS = 10000;
+const DEFAULT_SEED = 1337;
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26 (max error 1.5e-7)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239] as const;
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572] as const;
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783] as const;
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416] as const;
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Two-proportion z-test (pooled) comparing B against A
+ */
+export function twoProportionZTest(a: ProportionCounts, b: ProportionCounts): ZTestResult {
+  if (a.trials <= 0 || b.trials <= 0) {
+    return { z: 0, pValue: 1, confidence: 0.5 };
+  }
+
+  const pA = a.successes / a.trials;
+  const pB = b.successes / b.trials;
+  const pooled = (a.successes + b.successes) / (a.trials + b.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials));
+
+  if (se === 0) {
+    return { z: 0, pValue: 1, confidence: 0.5 };
+  }
+
+  const z = (pB - pA) / se;
+  return {
+    z,
+    pValue: 2 * (1 - normalCdf(Math.abs(z))),
+    confidence: normalCdf(z),
+  };
+}
+
+/**
+ * Wilson score interval for a single proportion
+ */
+export function wilsonInterval(counts: ProportionCounts, confidence: number): RateInterval {
+  const { successes, trials } = counts;
+  if (trials <= 0) return { lower: 0, upper: 1 };
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / trials;
+  const denom = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denom;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denom;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Seeded PRNG (mulberry32) so posterior estimates are reproducible
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rng: () => number): number {
+  // Box-Muller
+  const u = rng() || Number.MIN_VALUE;
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function sampleGamma(shape: number, rng: () => number): number {
+  // Marsaglia & Tsang; boost shapes below 1
+  if (shape < 1) {
+    return sampleGamma(shape + 1, rng) * Math.pow(rng() || Number.MIN_VALUE, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function sampleBeta(alpha: number, beta: number, rng: () => number): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+}
+
+/**
+ * Draw posterior samples of each variant's rate under a uniform Beta(1, 1) prior
+ */
+export function sampleBetaPosteriors(
+  variants: ProportionCounts[],
+  draws: number = DEFAULT_DRAWS,
+  seed: number = DEFAULT_SEED
+): number[][] {
+  const rng = createRng(seed);
+  return variants.map((v) => {
+    const successes = Math.max(0, Math.min(v.successes, v.trials));
+    const failures = Math.max(0, v.trials - successes);
+    const samples: number[] = new Array(draws);
+    for (let i = 0; i < draws; i++) {
+      samples[i] = sampleBeta(1 + successes, 1 + failures, rng);
+    }
+    return samples;
+  });
+}
+
+/**
+ * Probability that each variant has the highest rate
+ */
+export function probabilityToBeBest(
+  variants: ProportionCounts[],
+  draws: number = DEFAULT_DRAWS,
+  seed: number = DEFAULT_SEED
+): number[] {
+  return probabilityBestFromSamples(sampleBetaPosteriors(variants, draws, seed));
+}
+
+function probabilityBestFromSamples(samples: number[][]): number[] {
+  const wins = new Array(samples.length).fill(0);
+  const draws = samples[0]?.length ?? 0;
+
+  for (let i = 0; i < draws; i++) {
+    let bestIdx = 0;
+    for (let j = 1; j < samples.length; j++) {
+      if (samples[j]![i]! > samples[bestIdx]![i]!) bestIdx = j;
+    }
+    wins[bestIdx]++;
+  }
+
+  return wins.map((w) => (draws > 0 ? w / draws : 0));
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.floor(q * (sorted.length - 1))));
+  return sorted[idx]!;
+}
+
+/**
+ * Compare variants and decide which can be declared losers or a winner
+ * at the requested confidence level.
+ */
+export function compareVariants(
+  variants: VariantCounts[],
+  options: SignificanceOptions
+): SignificanceResult {
+  if (variants.length === 0) {
+    throw new Error('compareVariants requires at least one variant');
+  }
+
+  const { method, confidence } = options;
+  const rates = variants.map((v) => (v.trials > 0 ? v.successes / v.trials : 0));
+  const samples = sampleBetaPosteriors(variants, options.draws ?? DEFAULT_DRAWS, options.seed ?? DEFAULT_SEED);
+  const probabilityBest = probabilityBestFromSamples(samples);
+
+  const bestIdx = method === 'bayesian'
+    ? probabilityBest.indexOf(Math.max(...probabilityBest))
+    : rates.indexOf(Math.max(...rates));
+  const best = variants[bestIdx]!;
+
+  const results: VariantSignificance[] = variants.map((v, idx) => {
+    let interval: RateInterval;
+    if (method === 'bayesian') {
+      const sorted = [...samples[idx]!].sort((a, b) => a - b);
+      const tail = (1 - confidence) / 2;
+      interval = { lower: quantile(sorted, tail), upper: quantile(sorted, 1 - tail) };
+    } else {
+      interval = wilsonInterval(v, confidence);
+    }
+
+    let confidenceVsBest: number | null = null;
+    if (idx !== bestIdx) {
+      if (method === 'bayesian') {
+        const bestSamples = samples[bestIdx]!;
+        const vSamples = samples[idx]!;
+        let bestWins = 0;
+        for (let i = 0; i < bestSamples.length; i++) {
+          if (bestSamples[i]! > vSamples[i]!) bestWins++;
+        }
+        confidenceVsBest = bestSamples.length > 0 ? bestWins / bestSamples.length : 0;
+      } else {
+        confidenceVsBest = twoProportionZTest(v, best).confidence;
+      }
+    }
+
+    return {
+      id: v.id,
+      rate: rates[idx]!,
+      interval,
+      probabilityBest: probabilityBest[idx]!,
+      confidenceVsBest,
+    };
+  });
+
+  const loserIds = results
+    .filter((r) => r.confidenceVsBest !== null && r.confidenceVsBest >= confidence)
+    .map((r) => r.id);
+
+  const bestIsClear = method === 'bayesian'
+    ? probabilityBest[bestIdx]! >= confidence
+    : loserIds.length === variants.length - 1;
+
+  return {
+    method,
+    confidenceLevel: confidence,
+    bestId: best.id,
+    winnerId: variants.length > 1 && bestIsClear ? best.id : null,
+    loserIds,
+    variants: results,
+  };
+}
@@ -6,3 +6,9 @@
 export * from './logger';
 export * from './validators';
 export * from './formatters';
+export * from './experiment-stats';
+export * from './compliance';
+export * from './text-fingerprint';
+export * from './attribution';
+export * from './cron';
+export * from './search-terms';
@@ -0,0 +1,199 @@
+/**
+ * ArcVest Marketing Automation System
+ * Search Terms Utility
+ *
+ * Matching search terms against the negative keyword rules and grouping
+ * classified terms into negative keyword proposals (one per keyword and
+ * campaign, or per keyword on the shared list).
+ */
+
+import {
+  searchTermsConfig,
+  type NegativeKeywordRule,
+  type NegativeLevel,
+  type NegativeMatchType,
+  type SearchTermCategory,
+  type SearchTermsConfig,
+} from '../config/search-terms';
+
+/**
+ * A search term's performance within one campaign
+ */
+export interface SearchTermStats {
+  searchTerm: string;
+  campaignId: string;
+  campaignName: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+}
+
+export interface SearchTermClassification {
+  category: SearchTermCategory;
+  reason: string;
+  classifiedBy: 'rule' | 'llm';
+  negativeText: string;
+  matchType: NegativeMatchType;
+  level: NegativeLevel | null; // null: shared list only if several campaigns waste spend on it
+}
+
+export interface NegativeProposal {
+  negativeText: string;
+  matchType: NegativeMatchType;
+  level: NegativeLevel;
+  campaignId: string | null;   // null for the shared list
+  campaignName: string | null;
+  category: SearchTermCategory;
+  classifiedBy: 'rule' | 'llm';
+  reason: string;
+  searchTerms: string[];
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+}
+
+/**
+ * Lowercase with whitespace collapsed
+ */
+export function normalizeSearchTerm(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function containsPhrase(term: string, phrase: string): boolean {
+  const escaped = normalizeSearchTerm(phrase).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|\\s)${escaped}(\\s|$)`).test(term);
+}
+
+/**
+ * Sum report rows (one per ad group) into one row per term and campaign
+ */
+export function aggregateSearchTerms(rows: SearchTermStats[]): SearchTermStats[] {
+  const totals = new Map<string, SearchTermStats>();
+
+  for (const row of rows) {
+    const searchTerm = normalizeSearchTerm(row.searchTerm);
+    const key = `${row.campaignId}|${searchTerm}`;
+    const existing = totals.get(key);
+
+    if (existing) {
+      existing.impressions += row.impressions;
+      existing.clicks += row.clicks;
+      existing.cost += row.cost;
+      existing.conversions += row.conversions;
+    } else {
+      totals.set(key, { ...row, searchTerm });
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Terms worth judging: enough impressions and never converted
+ */
+export function isNegativeCandidate(
+  row: SearchTermStats,
+  config: SearchTermsConfig = searchTermsConfig
+): boolean {
+  return row.conversions === 0 && row.impressions >= config.min_impressions;
+}
+
+/**
+ * First rule a term matches. The matched rule term becomes a phrase
+ * negative, so "robinhood" also blocks "robinhood app login".
+ */
+export function matchNegativeRule(
+  searchTerm: string,
+  rules: NegativeKeywordRule[] = searchTermsConfig.rules
+): SearchTermClassification | null {
+  const term = normalizeSearchTerm(searchTerm);
+
+  for (const rule of rules) {
+    if (rule.except?.some((phrase) => containsPhrase(term, phrase))) continue;
+
+    const matched = rule.terms.find((phrase) => containsPhrase(term, phrase));
+    if (matched) {
+      return {
+        category: rule.category,
+        reason: rule.reason,
+        classifiedBy: 'rule',
+        negativeText: normalizeSearchTerm(matched),
+        matchType: 'PHRASE',
+        level: rule.level,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Group classified terms into proposals, most wasted spend first.
+ * classifications are keyed by normalized search term; unclassified terms
+ * are relevant and left alone.
+ */
+export function buildNegativeProposals(
+  rows: SearchTermStats[],
+  classifications: Map<string, SearchTermClassification>,
+  config: SearchTermsConfig = searchTermsConfig
+): NegativeProposal[] {
+  const classified = rows
+    .map((row) => ({ row, classification: classifications.get(normalizeSearchTerm(row.searchTerm)) }))
+    .filter((item): item is { row: SearchTermStats; classification: SearchTermClassification } =>
+      item.classification !== undefined
+    );
+
+  // Campaigns wasting spend on each negative decide LLM negatives' level
+  const campaignsByNegative = new Map<string, Set<string>>();
+  for (const { row, classification } of classified) {
+    const key = `${classification.matchType}|${classification.negativeText}`;
+    const campaigns = campaignsByNegative.get(key) || new Set<string>();
+    campaigns.add(row.campaignId);
+    campaignsByNegative.set(key, campaigns);
+  }
+
+  const proposals = new Map<string, NegativeProposal>();
+
+  for (const { row, classification } of classified) {
+    const negativeKey = `${classification.matchType}|${classification.negativeText}`;
+    const level: NegativeLevel = classification.level
+      ?? ((campaignsByNegative.get(negativeKey)?.size || 0) >= config.shared_list_min_campaigns
+        ? 'shared_list'
+        : 'campaign');
+    const campaignId = level === 'campaign' ? row.campaignId : null;
+    const key = `${level}|${campaignId || ''}|${negativeKey}`;
+    const searchTerm = normalizeSearchTerm(row.searchTerm);
+
+    const existing = proposals.get(key);
+    if (existing) {
+      existing.impressions += row.impressions;
+      existing.clicks += row.clicks;
+      existing.cost += row.cost;
+      existing.conversions += row.conversions;
+      if (!existing.searchTerms.includes(searchTerm)) existing.searchTerms.push(searchTerm);
+      continue;
+    }
+
+    proposals.set(key, {
+      negativeText: classification.negativeText,
+      matchType: classification.matchType,
+      level,
+      campaignId,
+      campaignName: level === 'campaign' ? row.campaignName : null,
+      category: classification.category,
+      classifiedBy: classification.classifiedBy,
+      reason: classification.reason,
+      searchTerms: [searchTerm],
+      impressions: row.impressions,
+      clicks: row.clicks,
+      cost: row.cost,
+      conversions: row.conversions,
+    });
+  }
+
+  return Array.from(proposals.values())
+    .map((p) => ({ ...p, cost: Math.round(p.cost * 100) / 100 }))
+    .sort((a, b) => b.cost - a.cost);
+}
@@ -0,0 +1,124 @@
+/**
+ * ArcVest Marketing Automation System
+ * Text Fingerprint Utility
+ *
+ * Title normalization, word shingling and MinHash signatures for spotting
+ * the same story across sources without comparing full texts.
+ */
+
+import { ideaDedupConfig } from '../config/idea-dedup';
+
+const STOPWORDS = new Set(ideaDedupConfig.title_stopwords);
+
+/**
+ * Lowercase words with punctuation removed
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2019]/g, '')
+    .replace(/[^a-z0-9%$.]+/g, ' ')
+    .replace(/(^|\s)\.+|\.+(\s|$)/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Normalize a headline for comparison: drops a trailing " - Publisher" or
+ * " | Publisher" suffix, punctuation and stopwords.
+ */
+export function normalizeTitle(title: string): string {
+  const withoutSuffix = title.replace(/\s+[|\-–—]\s+[^|\-–—]{1,40}$/, (suffix) =>
+    suffix.trim().split(/\s+/).length <= 4 ? '' : suffix
+  );
+
+  return tokenize(withoutSuffix)
+    .filter((word) => !STOPWORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Set of k-word shingles from the text
+ */
+export function shingle(text: string, size: number = ideaDedupConfig.shingle_size): Set<string> {
+  const words = tokenize(text);
+  const shingles = new Set<string>();
+
+  if (words.length < size) {
+    if (words.length > 0) shingles.add(words.join(' '));
+    return shingles;
+  }
+
+  for (let i = 0; i <= words.length - size; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * MinHash signature of a shingle set. Uses double hashing (h1 + i * h2) to
+ * derive the permutations, so signatures are stable across processes.
+ * Values are signed 32-bit so they fit a Postgres INTEGER[].
+ */
+export function minhashSignature(
+  shingles: Iterable<string>,
+  numHashes: number = ideaDedupConfig.num_hashes
+): number[] {
+  const mins = new Array<number>(numHashes).fill(0xffffffff);
+  let empty = true;
+
+  for (const item of shingles) {
+    empty = false;
+    const h1 = fnv1a(item, 0);
+    const h2 = fnv1a(item, 0x9e3779b9) | 1;
+    for (let i = 0; i < numHashes; i++) {
+      const value = (h1 + Math.imul(i, h2)) >>> 0;
+      if (value < (mins[i] as number)) mins[i] = value;
+    }
+  }
+
+  if (empty) return [];
+  return mins.map((value) => value | 0);
+}
+
+/**
+ * Estimated Jaccard similarity from two signatures of the same length
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+/**
+ * Exact Jaccard similarity of the word sets of two normalized titles
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}